@@ -0,0 +1,35 @@
+-- ── Account recovery migration (users, account_tokens) ──────────────────────
+-- Goal:
+-- 1) Add email_verified_at to users
+-- 2) Count accounts created before verification existed as verified
+-- 3) Create account_tokens (hashed one-time codes for email verification
+--    and password reset), dropped along with the account
+
+BEGIN;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'email_verified_at'
+  ) THEN
+    ALTER TABLE users ADD COLUMN email_verified_at timestamptz;
+    UPDATE users SET email_verified_at = created_at;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS account_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  purpose varchar(16) NOT NULL,
+  code_hash varchar(64) NOT NULL,
+  attempts integer NOT NULL DEFAULT 0,
+  expires_at timestamptz NOT NULL,
+  used_at timestamptz NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_tokens_user_purpose
+  ON account_tokens (user_id, purpose);
+
+COMMIT;
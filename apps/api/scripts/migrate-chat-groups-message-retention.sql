@@ -0,0 +1,10 @@
+-- ── Disappearing messages migration (chat_groups.message_retention) ────────
+-- Goal:
+-- 1) Per-conversation retention: 'off', '24h', '7d' or '90d'
+
+BEGIN;
+
+ALTER TABLE chat_groups
+  ADD COLUMN IF NOT EXISTS message_retention varchar(8) NOT NULL DEFAULT 'off';
+
+COMMIT;
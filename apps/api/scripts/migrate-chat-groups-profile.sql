@@ -0,0 +1,15 @@
+-- ── Group profile migration (chat_groups) ───────────────────────────────────
+-- Goal:
+-- 1) Group avatar (raw S3 URL, signed on read)
+-- 2) Description plus its translations into every supported language
+-- 3) Default language that new members inherit as their preference
+
+BEGIN;
+
+ALTER TABLE chat_groups
+  ADD COLUMN IF NOT EXISTS avatar_url varchar NULL,
+  ADD COLUMN IF NOT EXISTS description text NULL,
+  ADD COLUMN IF NOT EXISTS description_translations jsonb NULL,
+  ADD COLUMN IF NOT EXISTS default_language varchar(8) NULL;
+
+COMMIT;
@@ -0,0 +1,24 @@
+-- ── Invite links migration (group_invites) ──────────────────────────────────
+-- Goal:
+-- 1) Create group_invites (one row per shareable join link)
+-- 2) Drop links with the group; keep them if the admin who made them leaves
+-- 3) Unique token for lookups, plus an index for an admin's list of links
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS group_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid NOT NULL REFERENCES chat_groups (id) ON DELETE CASCADE,
+  token varchar(32) NOT NULL UNIQUE,
+  created_by_id uuid REFERENCES users (id) ON DELETE SET NULL,
+  expires_at timestamptz,
+  max_uses integer,
+  use_count integer NOT NULL DEFAULT 0,
+  revoked_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_invites_group
+  ON group_invites (group_id);
+
+COMMIT;
@@ -0,0 +1,15 @@
+-- ── Chat list preferences migration (group_members) ────────────────────────
+-- Goal:
+-- 1) Add muted_until (pushes paused until then, mentions still delivered)
+-- 2) Add is_archived + keep_archived (new messages un-archive unless kept)
+-- 3) Add pinned_at (pinned chats sort first, latest pin on top)
+
+BEGIN;
+
+ALTER TABLE group_members
+  ADD COLUMN IF NOT EXISTS muted_until timestamptz,
+  ADD COLUMN IF NOT EXISTS is_archived boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS keep_archived boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS pinned_at timestamptz;
+
+COMMIT;
@@ -0,0 +1,18 @@
+-- ── Read receipts migration (group_members read position) ──────────────────
+-- Goal:
+-- 1) Add last_read_message_id + last_read_at to group_members
+-- 2) Index messages by (group_id, created_at) for unread counts
+--
+-- last_read_message_id has no foreign key on purpose: deleting the last-read
+-- message must not reset the member's read position.
+
+BEGIN;
+
+ALTER TABLE group_members
+  ADD COLUMN IF NOT EXISTS last_read_message_id uuid,
+  ADD COLUMN IF NOT EXISTS last_read_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_messages_group_created_at
+  ON messages (group_id, created_at);
+
+COMMIT;
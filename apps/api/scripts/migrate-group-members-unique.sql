@@ -0,0 +1,30 @@
+-- ── Group members uniqueness migration (group_members) ─────────────────────
+-- Goal:
+-- 1) Drop duplicate memberships left by concurrent joins, keeping the row
+--    with the highest role (then the earliest joined)
+-- 2) Allow one membership per user per group from now on
+
+BEGIN;
+
+DELETE FROM group_members gm
+USING (
+  SELECT id,
+         row_number() OVER (
+           PARTITION BY group_id, user_id
+           ORDER BY CASE role
+                      WHEN 'OWNER' THEN 0
+                      WHEN 'ADMIN' THEN 1
+                      WHEN 'MODERATOR' THEN 2
+                      ELSE 3
+                    END,
+                    joined_at ASC,
+                    id
+         ) AS rank
+  FROM group_members
+) ranked
+WHERE gm.id = ranked.id AND ranked.rank > 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_group_members_group_user
+  ON group_members (group_id, user_id);
+
+COMMIT;
@@ -0,0 +1,34 @@
+-- ── Group roles migration (group_members.role, chat_groups permissions) ────
+-- Goal:
+-- 1) Add OWNER and MODERATOR member roles
+-- 2) Make the longest-standing admin of each group its owner
+-- 3) Per-group "only admins can post" and "only admins can edit info" flags
+
+-- ALTER TYPE ... ADD VALUE cannot share a transaction with statements that
+-- use the new value, so it runs on its own first.
+ALTER TYPE group_members_role_enum ADD VALUE IF NOT EXISTS 'OWNER';
+ALTER TYPE group_members_role_enum ADD VALUE IF NOT EXISTS 'MODERATOR';
+
+BEGIN;
+
+UPDATE group_members gm
+SET role = 'OWNER'
+FROM (
+  SELECT DISTINCT ON (m.group_id) m.id
+  FROM group_members m
+  JOIN chat_groups g ON g.id = m.group_id
+  WHERE g.is_group = true
+    AND m.role = 'ADMIN'
+    AND NOT EXISTS (
+      SELECT 1 FROM group_members o
+      WHERE o.group_id = m.group_id AND o.role = 'OWNER'
+    )
+  ORDER BY m.group_id, m.joined_at ASC
+) first_admin
+WHERE gm.id = first_admin.id;
+
+ALTER TABLE chat_groups
+  ADD COLUMN IF NOT EXISTS only_admins_can_post boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS only_admins_can_edit_info boolean NOT NULL DEFAULT false;
+
+COMMIT;
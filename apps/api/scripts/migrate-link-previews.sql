@@ -0,0 +1,21 @@
+-- ── Link previews migration (link_previews, messages.link_preview) ─────────
+-- Goal:
+-- 1) Cache fetched OpenGraph previews by URL
+-- 2) Store the preview shown under a message
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS link_previews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  url varchar(2048) NOT NULL UNIQUE,
+  title varchar(300),
+  description text,
+  image_url varchar(2048),
+  site_name varchar(200),
+  fetched_at timestamptz NOT NULL
+);
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS link_preview jsonb;
+
+COMMIT;
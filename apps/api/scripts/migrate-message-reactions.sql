@@ -0,0 +1,21 @@
+-- ── Message reactions migration (message_reactions) ────────────────────────
+-- Goal:
+-- 1) Create message_reactions (one row per user + message + emoji)
+-- 2) Cascade rows away with their message or user
+-- 3) Index message_id for history aggregation
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS message_reactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES messages (id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  emoji varchar(32) NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT uq_message_reaction_user_emoji UNIQUE (message_id, user_id, emoji)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_reactions_message_id
+  ON message_reactions (message_id);
+
+COMMIT;
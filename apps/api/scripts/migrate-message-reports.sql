@@ -0,0 +1,31 @@
+-- ── Message reports migration (message_reports, users.role) ─────────────────
+-- Goal:
+-- 1) Create message_reports (one row per reporter + message)
+-- 2) Keep reports when the message is deleted; drop them with the conversation
+-- 3) Index the moderation queue lookup (open reports per conversation)
+-- 4) Add users.role ('user' or 'admin') for the platform admin API
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS message_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid REFERENCES messages (id) ON DELETE SET NULL,
+  group_id uuid NOT NULL REFERENCES chat_groups (id) ON DELETE CASCADE,
+  reporter_id uuid NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  sender_id uuid NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  reason varchar(16) NOT NULL,
+  details text,
+  status varchar(16) NOT NULL DEFAULT 'OPEN',
+  resolved_by_id uuid REFERENCES users (id) ON DELETE SET NULL,
+  resolved_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT uq_message_reports_reporter_message UNIQUE (reporter_id, message_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_reports_group_status
+  ON message_reports (group_id, status);
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS role varchar(8) NOT NULL DEFAULT 'user';
+
+COMMIT;
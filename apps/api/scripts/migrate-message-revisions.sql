@@ -0,0 +1,26 @@
+-- ── Edit history migration (message_revisions, chat_groups edit settings) ──
+-- Goal:
+-- 1) Create message_revisions (one row per superseded version of a message)
+-- 2) Drop a message's revisions along with it
+-- 3) Index message_id + edited_at for the history sheet
+-- 4) Per-conversation edit window (minutes, 0 = editing off) and who may
+--    read edit history: 'members', 'admins' or 'sender'
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS message_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES messages (id) ON DELETE CASCADE,
+  raw_content text NOT NULL,
+  translations jsonb,
+  edited_at timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_revisions_message_id
+  ON message_revisions (message_id, edited_at);
+
+ALTER TABLE chat_groups
+  ADD COLUMN IF NOT EXISTS edit_window_minutes integer NOT NULL DEFAULT 15,
+  ADD COLUMN IF NOT EXISTS revision_visibility varchar(8) NOT NULL DEFAULT 'members';
+
+COMMIT;
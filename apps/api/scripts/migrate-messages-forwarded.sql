@@ -0,0 +1,10 @@
+-- ── Forwarded messages migration (messages.is_forwarded) ───────────────────
+-- Goal:
+-- 1) Flag messages copied in from another conversation
+
+BEGIN;
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS is_forwarded boolean NOT NULL DEFAULT false;
+
+COMMIT;
@@ -0,0 +1,10 @@
+-- ── Mentions migration (messages.mentioned_user_ids) ───────────────────────
+-- Goal:
+-- 1) Store the members a message @mentions, resolved at send time
+
+BEGIN;
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS mentioned_user_ids uuid[] NOT NULL DEFAULT '{}';
+
+COMMIT;
@@ -0,0 +1,17 @@
+-- ── Threaded replies migration (reply_to_id) ───────────────────────────────
+-- Goal:
+-- 1) Add nullable reply_to_id to messages
+-- 2) Index it for quote lookups
+--
+-- No foreign key on purpose: when the original message is deleted the id is
+-- kept so readers see a "message deleted" stub instead of a bare message.
+
+BEGIN;
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS reply_to_id uuid;
+
+CREATE INDEX IF NOT EXISTS idx_messages_reply_to_id
+  ON messages (reply_to_id);
+
+COMMIT;
@@ -0,0 +1,21 @@
+-- ── Message search migration (messages) ────────────────────────────────────
+-- Goal:
+-- 1) Add a stored search_vector covering text, transcripts, document OCR,
+--    file names and every translation (see MESSAGE_SEARCH_VECTOR_SQL)
+-- 2) Index it with GIN so search no longer runs to_tsvector + ILIKE per row
+
+BEGIN;
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', CASE WHEN content_type IN ('TEXT', 'POLL') THEN raw_content ELSE '' END), 'A')
+    || setweight(to_tsvector('simple', COALESCE(transcription, '')), 'A')
+    || setweight(to_tsvector('simple', COALESCE(file_name, '')), 'B')
+    || setweight(jsonb_to_tsvector('simple', COALESCE(translations, '{}'::jsonb), '["string"]'), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_messages_search_vector
+  ON messages USING GIN (search_vector);
+
+COMMIT;
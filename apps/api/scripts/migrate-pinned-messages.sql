@@ -0,0 +1,18 @@
+-- ── Pinned messages migration (pinned_messages) ────────────────────────────
+-- Goal:
+-- 1) Create pinned_messages (one row per pinned message per conversation)
+-- 2) Unpin automatically when the message or conversation is deleted
+-- 3) Keep the pin when the admin who pinned it deletes their account
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS pinned_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid NOT NULL REFERENCES chat_groups (id) ON DELETE CASCADE,
+  message_id uuid NOT NULL REFERENCES messages (id) ON DELETE CASCADE,
+  pinned_by_id uuid REFERENCES users (id) ON DELETE SET NULL,
+  pinned_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT uq_pinned_messages_group_message UNIQUE (group_id, message_id)
+);
+
+COMMIT;
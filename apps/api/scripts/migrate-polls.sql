@@ -0,0 +1,36 @@
+-- ── Polls migration (polls, poll_votes, messages.content_type) ─────────────
+-- Goal:
+-- 1) Allow POLL as a message content type
+-- 2) Create polls (options and settings, one row per POLL message)
+-- 3) Create poll_votes (one row per user + option) with cascades
+-- 4) Index poll_id for result aggregation
+
+-- ALTER TYPE ... ADD VALUE cannot share a transaction with statements that
+-- use the new value, so it runs on its own first.
+ALTER TYPE messages_content_type_enum ADD VALUE IF NOT EXISTS 'POLL';
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS polls (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL UNIQUE REFERENCES messages (id) ON DELETE CASCADE,
+  options jsonb NOT NULL,
+  allows_multiple boolean NOT NULL DEFAULT false,
+  is_anonymous boolean NOT NULL DEFAULT false,
+  closes_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS poll_votes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  poll_id uuid NOT NULL REFERENCES polls (id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  option_id varchar(16) NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT uq_poll_votes_poll_user_option UNIQUE (poll_id, user_id, option_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_poll_votes_poll_id
+  ON poll_votes (poll_id);
+
+COMMIT;
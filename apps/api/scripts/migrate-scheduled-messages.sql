@@ -0,0 +1,26 @@
+-- ── Scheduled messages migration (scheduled_messages) ──────────────────────
+-- Goal:
+-- 1) Create scheduled_messages (text written now, sent at send_at)
+-- 2) Drop pending sends when the sender or the conversation is deleted
+-- 3) Index the scheduler's "due and pending" lookup
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS scheduled_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sender_id uuid NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  group_id uuid NOT NULL REFERENCES chat_groups (id) ON DELETE CASCADE,
+  raw_content text NOT NULL,
+  send_at timestamptz NOT NULL,
+  timezone varchar(64),
+  status varchar(16) NOT NULL DEFAULT 'PENDING',
+  message_id uuid,
+  failure_reason varchar(255),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_status_send_at
+  ON scheduled_messages (status, send_at);
+
+COMMIT;
@@ -0,0 +1,20 @@
+-- ── Starred messages migration (starred_messages) ──────────────────────────
+-- Goal:
+-- 1) Create starred_messages (one row per user + saved message)
+-- 2) Drop stars along with the message or the user
+-- 3) Index user_id + starred_at for the saved-messages list
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS starred_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  message_id uuid NOT NULL REFERENCES messages (id) ON DELETE CASCADE,
+  starred_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT uq_starred_messages_user_message UNIQUE (user_id, message_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_starred_messages_user_starred_at
+  ON starred_messages (user_id, starred_at);
+
+COMMIT;
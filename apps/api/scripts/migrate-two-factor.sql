@@ -0,0 +1,29 @@
+-- ── Two-factor migration (users, user_recovery_codes) ───────────────────────
+-- Goal:
+-- 1) Add TOTP columns to users (secret, enabled-at, last accepted step,
+--    open sign-in challenge, failed sign-in codes and lockout)
+-- 2) Create user_recovery_codes (hashed single-use fallback codes),
+--    dropped along with the account
+
+BEGIN;
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS totp_secret varchar(64),
+  ADD COLUMN IF NOT EXISTS totp_enabled_at timestamptz,
+  ADD COLUMN IF NOT EXISTS totp_last_step integer,
+  ADD COLUMN IF NOT EXISTS totp_challenge_id uuid,
+  ADD COLUMN IF NOT EXISTS totp_failed_attempts integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS totp_locked_until timestamptz;
+
+CREATE TABLE IF NOT EXISTS user_recovery_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  code_hash varchar(64) NOT NULL,
+  used_at timestamptz NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_recovery_codes_user
+  ON user_recovery_codes (user_id);
+
+COMMIT;
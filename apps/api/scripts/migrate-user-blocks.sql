@@ -0,0 +1,24 @@
+-- ── Blocks and message requests migration (user_blocks, group_members) ─────
+-- Goal:
+-- 1) Create user_blocks (one row per blocker + blocked user)
+-- 2) Drop blocks along with either account
+-- 3) Index blocked_id for "who blocked this sender" lookups
+-- 4) Add group_members.is_request (DM waiting for the recipient to accept)
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS user_blocks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  blocker_id uuid NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  blocked_id uuid NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT uq_user_blocks_blocker_blocked UNIQUE (blocker_id, blocked_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_blocks_blocked
+  ON user_blocks (blocked_id);
+
+ALTER TABLE group_members
+  ADD COLUMN IF NOT EXISTS is_request boolean NOT NULL DEFAULT false;
+
+COMMIT;
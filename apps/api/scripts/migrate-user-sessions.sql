@@ -0,0 +1,27 @@
+-- ── Device sessions migration (user_sessions) ───────────────────────────────
+-- Goal:
+-- 1) Create user_sessions (one row per signed-in device, hashed refresh token)
+-- 2) Drop sessions along with the account
+-- 3) Index user_id for the session list and "log out everywhere"
+--
+-- Access tokens issued before this migration carry no session id and are
+-- rejected, so every client signs in once more after deploying.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  refresh_token_hash varchar(64) NOT NULL,
+  device_name varchar(100) NULL,
+  expo_push_token varchar NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  last_used_at timestamptz NOT NULL,
+  expires_at timestamptz NOT NULL,
+  revoked_at timestamptz NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user
+  ON user_sessions (user_id);
+
+COMMIT;
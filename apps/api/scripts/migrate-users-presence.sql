@@ -0,0 +1,12 @@
+-- ── Presence migration (users last seen) ────────────────────────────────────
+-- Goal:
+-- 1) Add last_seen_at to users (stamped when a user's last socket drops)
+-- 2) Add hide_last_seen privacy flag, defaulting to visible
+
+BEGIN;
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS last_seen_at timestamptz,
+  ADD COLUMN IF NOT EXISTS hide_last_seen boolean NOT NULL DEFAULT false;
+
+COMMIT;
@@ -14,6 +14,7 @@ import { GroupsModule } from './modules/groups/groups.module';
 import { DialectModule } from './modules/dialect/dialect.module';
 import { DocumentAiModule } from './modules/document-ai/document-ai.module';
 import { NotificationModule } from './modules/notification/notification.module';
+import { AdminModule } from './modules/admin/admin.module';
 import { ThrottlerModule, ThrottlerGuard } from '@nestjs/throttler';
 import { APP_GUARD } from '@nestjs/core';
 
@@ -40,6 +41,7 @@ import { APP_GUARD } from '@nestjs/core';
     DialectModule,
     DocumentAiModule,
     NotificationModule,
+    AdminModule,
     ServeStaticModule.forRoot({
       rootPath: join(__dirname, '..', 'uploads'),
       serveRoot: '/uploads', // Files will be available at http://localhost:3000/uploads/...
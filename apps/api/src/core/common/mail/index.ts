@@ -0,0 +1,3 @@
+export { MailModule } from './mail.module';
+export { MailTransport, type MailMessage } from './mail-transport';
+export { OutboxMailTransport, type OutboxEntry } from './outbox-mail.transport';
@@ -0,0 +1,14 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Where outgoing email goes. Also the injection token: MailModule binds it
+ * to SMTP in production and to the local outbox everywhere else.
+ */
+export abstract class MailTransport {
+  abstract send(message: MailMessage): Promise<void>;
+}
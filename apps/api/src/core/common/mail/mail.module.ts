@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+
+import { MailTransport } from './mail-transport';
+import { OutboxMailTransport } from './outbox-mail.transport';
+import { SmtpMailTransport } from './smtp-mail.transport';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: MailTransport,
+      inject: [ConfigService],
+      // MAIL_TRANSPORT=smtp|outbox overrides the NODE_ENV default.
+      useFactory: (configService: ConfigService): MailTransport => {
+        const transport =
+          configService.get<string>('MAIL_TRANSPORT') ??
+          (configService.get<string>('NODE_ENV') === 'production'
+            ? 'smtp'
+            : 'outbox');
+
+        if (transport === 'smtp') return new SmtpMailTransport(configService);
+        return new OutboxMailTransport(
+          configService.get<string>('MAIL_OUTBOX_DIR')?.trim() || null,
+        );
+      },
+    },
+  ],
+  exports: [MailTransport],
+})
+export class MailModule {}
@@ -0,0 +1,61 @@
+import { Logger } from '@nestjs/common';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+import { MailMessage, MailTransport } from './mail-transport';
+
+export interface OutboxEntry extends MailMessage {
+  sentAt: Date;
+}
+
+const MAX_KEPT_MESSAGES = 100;
+
+/**
+ * Development and test transport: nothing leaves the machine. Messages are
+ * kept in memory for e2e tests to read back and, when MAIL_OUTBOX_DIR is
+ * set, written there as JSON so they can be opened during manual testing.
+ */
+export class OutboxMailTransport extends MailTransport {
+  private readonly logger = new Logger(OutboxMailTransport.name);
+  private readonly sent: OutboxEntry[] = [];
+
+  constructor(private readonly outboxDir: string | null = null) {
+    super();
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const entry: OutboxEntry = { ...message, sentAt: new Date() };
+    this.sent.push(entry);
+    if (this.sent.length > MAX_KEPT_MESSAGES) this.sent.shift();
+
+    if (this.outboxDir) {
+      await mkdir(this.outboxDir, { recursive: true });
+      const fileName = `${entry.sentAt.getTime()}-${message.to.replace(/[^a-z0-9@._-]/gi, '_')}.json`;
+      await writeFile(
+        join(this.outboxDir, fileName),
+        JSON.stringify(entry, null, 2),
+      );
+    }
+
+    this.logger.log(
+      `Outbox: "${message.subject}" to ${message.to}\n${message.text}`,
+    );
+  }
+
+  /** Everything sent so far, oldest first. */
+  messages(): OutboxEntry[] {
+    return [...this.sent];
+  }
+
+  /** The newest message to `to`, if any. */
+  latestTo(to: string): OutboxEntry | null {
+    for (let i = this.sent.length - 1; i >= 0; i -= 1) {
+      if (this.sent[i].to === to) return this.sent[i];
+    }
+    return null;
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
@@ -0,0 +1,46 @@
+import { InternalServerErrorException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createTransport, Transporter } from 'nodemailer';
+
+import { MailMessage, MailTransport } from './mail-transport';
+
+const DEFAULT_FROM = 'LinkLanka <no-reply@linklanka.app>';
+
+export class SmtpMailTransport extends MailTransport {
+  private readonly logger = new Logger(SmtpMailTransport.name);
+  private readonly from: string;
+  private readonly transporter: Transporter | null;
+
+  constructor(configService: ConfigService) {
+    super();
+    this.from = configService.get<string>('MAIL_FROM')?.trim() || DEFAULT_FROM;
+
+    const host = configService.get<string>('SMTP_HOST')?.trim();
+    if (!host) {
+      this.transporter = null;
+      return;
+    }
+
+    const port = Number(configService.get<string>('SMTP_PORT') ?? 587);
+    const user = configService.get<string>('SMTP_USER');
+    const pass = configService.get<string>('SMTP_PASSWORD');
+    const secureSetting = configService.get<string>('SMTP_SECURE');
+
+    this.transporter = createTransport({
+      host,
+      port,
+      // Implicit TLS on 465; everything else upgrades with STARTTLS.
+      secure: secureSetting ? secureSetting === 'true' : port === 465,
+      ...(user && pass ? { auth: { user, pass } } : {}),
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    if (!this.transporter) {
+      throw new InternalServerErrorException('SMTP_HOST is not configured');
+    }
+
+    await this.transporter.sendMail({ from: this.from, ...message });
+    this.logger.log(`Sent "${message.subject}" to ${message.to}`);
+  }
+}
@@ -1,6 +1,7 @@
 import { Injectable, InternalServerErrorException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import {
+  DeleteObjectsCommand,
   GetObjectCommand,
   PutObjectCommand,
   S3Client,
@@ -121,6 +122,37 @@ export class S3StorageService {
     return this.fetchBufferWithRetry(trimmed);
   }
 
+  /**
+   * Deletes objects by URL or key. References that don't point into this
+   * bucket are skipped. S3 caps a batch delete at 1000 keys.
+   */
+  async deleteObjects(fileUrlsOrKeys: string[]): Promise<void> {
+    this.assertConfigured();
+
+    const keys = new Set<string>();
+    for (const ref of fileUrlsOrKeys) {
+      const trimmed = ref.trim();
+      if (!trimmed) continue;
+      const key = /^https?:\/\//i.test(trimmed)
+        ? this.extractKeyFromS3Url(trimmed)
+        : trimmed.replace(/^\/+/, '');
+      if (key) keys.add(key);
+    }
+
+    const allKeys = [...keys];
+    for (let i = 0; i < allKeys.length; i += 1000) {
+      await this.client.send(
+        new DeleteObjectsCommand({
+          Bucket: this.bucket,
+          Delete: {
+            Objects: allKeys.slice(i, i + 1000).map((Key) => ({ Key })),
+            Quiet: true,
+          },
+        }),
+      );
+    }
+  }
+
   buildPublicUrl(key: string): string {
     const host =
       this.region === 'us-east-1'
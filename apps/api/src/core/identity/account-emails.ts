@@ -0,0 +1,35 @@
+import type { MailMessage } from '../common/mail';
+import { AccountTokenPurpose } from './entities/account-token.entity';
+
+const CODE_EMAILS: Record<
+  AccountTokenPurpose,
+  { subject: string; intro: string; validity: string }
+> = {
+  [AccountTokenPurpose.VERIFY_EMAIL]: {
+    subject: 'Verify your LinkLanka email',
+    intro:
+      'Welcome to LinkLanka! Enter this code in the app to verify your email:',
+    validity: 'The code is valid for 24 hours.',
+  },
+  [AccountTokenPurpose.RESET_PASSWORD]: {
+    subject: 'Reset your LinkLanka password',
+    intro: 'Enter this code in the app to choose a new password:',
+    validity:
+      "The code is valid for 30 minutes. If you didn't ask to reset your password, you can ignore this email.",
+  },
+};
+
+/** The email carrying a one-time code for `purpose`. */
+export function buildAccountCodeEmail(
+  to: string,
+  displayName: string,
+  purpose: AccountTokenPurpose,
+  code: string,
+): MailMessage {
+  const { subject, intro, validity } = CODE_EMAILS[purpose];
+  return {
+    to,
+    subject,
+    text: `Hi ${displayName},\n\n${intro}\n\n    ${code}\n\n${validity}\n`,
+  };
+}
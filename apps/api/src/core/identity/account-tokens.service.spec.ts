@@ -0,0 +1,137 @@
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Test, TestingModule } from '@nestjs/testing';
+import { createHash } from 'crypto';
+
+import {
+  AccountTokensService,
+  MAX_CODE_ATTEMPTS,
+} from './account-tokens.service';
+import {
+  AccountToken,
+  AccountTokenPurpose,
+} from './entities/account-token.entity';
+
+const hash = (userId: string, code: string) =>
+  createHash('sha256').update(`${userId}:${code}`).digest('hex');
+
+describe('AccountTokensService', () => {
+  let service: AccountTokensService;
+  let tokenRepo: {
+    create: jest.Mock;
+    save: jest.Mock;
+    findOne: jest.Mock;
+    update: jest.Mock;
+    increment: jest.Mock;
+  };
+
+  const buildToken = (overrides: Partial<AccountToken> = {}) =>
+    ({
+      id: 'token-1',
+      userId: 'user-1',
+      purpose: AccountTokenPurpose.RESET_PASSWORD,
+      codeHash: hash('user-1', '123456'),
+      attempts: 0,
+      expiresAt: new Date(Date.now() + 60_000),
+      usedAt: null,
+      createdAt: new Date(),
+      ...overrides,
+    }) as AccountToken;
+
+  beforeEach(async () => {
+    tokenRepo = {
+      create: jest.fn((t: Partial<AccountToken>) => t),
+      save: jest.fn((t: Partial<AccountToken>) => Promise.resolve(t)),
+      findOne: jest.fn(),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      increment: jest.fn().mockResolvedValue({ affected: 1 }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountTokensService,
+        { provide: getRepositoryToken(AccountToken), useValue: tokenRepo },
+      ],
+    }).compile();
+
+    service = module.get(AccountTokensService);
+  });
+
+  it('retires earlier codes and stores only the hash of a new one', async () => {
+    const code = await service.issue(
+      'user-1',
+      AccountTokenPurpose.VERIFY_EMAIL,
+    );
+
+    expect(code).toMatch(/^\d{6}$/);
+    const [where, changes] = tokenRepo.update.mock.calls[0] as [
+      Partial<AccountToken>,
+      Partial<AccountToken>,
+    ];
+    expect(where.purpose).toBe(AccountTokenPurpose.VERIFY_EMAIL);
+    expect(changes.usedAt).toBeInstanceOf(Date);
+    expect(tokenRepo.save).toHaveBeenCalledWith(
+      expect.objectContaining({ codeHash: hash('user-1', code) }),
+    );
+  });
+
+  it('marks a correct code as used', async () => {
+    tokenRepo.findOne.mockResolvedValue(buildToken());
+
+    await service.consume(
+      'user-1',
+      AccountTokenPurpose.RESET_PASSWORD,
+      '123456',
+    );
+
+    const [where, changes] = tokenRepo.update.mock.calls[0] as [
+      Partial<AccountToken>,
+      Partial<AccountToken>,
+    ];
+    expect(where.id).toBe('token-1');
+    expect(changes.usedAt).toBeInstanceOf(Date);
+  });
+
+  it('counts a wrong guess against the code', async () => {
+    tokenRepo.findOne.mockResolvedValue(buildToken());
+
+    await expect(
+      service.consume('user-1', AccountTokenPurpose.RESET_PASSWORD, '654321'),
+    ).rejects.toThrow('Invalid or expired code');
+    expect(tokenRepo.increment).toHaveBeenCalledWith(
+      { id: 'token-1' },
+      'attempts',
+      1,
+    );
+    expect(tokenRepo.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses even the right code after too many wrong guesses', async () => {
+    tokenRepo.findOne.mockResolvedValue(
+      buildToken({ attempts: MAX_CODE_ATTEMPTS }),
+    );
+
+    await expect(
+      service.consume('user-1', AccountTokenPurpose.RESET_PASSWORD, '123456'),
+    ).rejects.toThrow('Invalid or expired code');
+    expect(tokenRepo.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses an expired code', async () => {
+    tokenRepo.findOne.mockResolvedValue(
+      buildToken({ expiresAt: new Date(Date.now() - 1000) }),
+    );
+
+    await expect(
+      service.consume('user-1', AccountTokenPurpose.RESET_PASSWORD, '123456'),
+    ).rejects.toThrow('Invalid or expired code');
+  });
+
+  it('lets only one of two concurrent redemptions through', async () => {
+    tokenRepo.findOne.mockResolvedValue(buildToken());
+    tokenRepo.update.mockResolvedValue({ affected: 0 });
+
+    await expect(
+      service.consume('user-1', AccountTokenPurpose.RESET_PASSWORD, '123456'),
+    ).rejects.toThrow('Invalid or expired code');
+  });
+});
@@ -0,0 +1,85 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHash, randomInt } from 'crypto';
+import { IsNull, Repository } from 'typeorm';
+
+import {
+  AccountToken,
+  AccountTokenPurpose,
+} from './entities/account-token.entity';
+
+const TOKEN_TTL_MS: Record<AccountTokenPurpose, number> = {
+  [AccountTokenPurpose.VERIFY_EMAIL]: 24 * 60 * 60 * 1000,
+  [AccountTokenPurpose.RESET_PASSWORD]: 30 * 60 * 1000,
+};
+
+/** Wrong guesses allowed before a code is burned. */
+export const MAX_CODE_ATTEMPTS = 5;
+
+function hashCode(userId: string, code: string): string {
+  return createHash('sha256').update(`${userId}:${code}`).digest('hex');
+}
+
+@Injectable()
+export class AccountTokensService {
+  constructor(
+    @InjectRepository(AccountToken)
+    private readonly tokenRepo: Repository<AccountToken>,
+  ) {}
+
+  /**
+   * Issues a fresh 6-digit code and retires any earlier unused code for the
+   * same purpose, so only the newest email works.
+   */
+  async issue(userId: string, purpose: AccountTokenPurpose): Promise<string> {
+    const now = new Date();
+    await this.tokenRepo.update(
+      { userId, purpose, usedAt: IsNull() },
+      { usedAt: now },
+    );
+
+    const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+    await this.tokenRepo.save(
+      this.tokenRepo.create({
+        userId,
+        purpose,
+        codeHash: hashCode(userId, code),
+        expiresAt: new Date(now.getTime() + TOKEN_TTL_MS[purpose]),
+      }),
+    );
+    return code;
+  }
+
+  /** Marks the code used, or throws if it is wrong, spent or expired. */
+  async consume(
+    userId: string,
+    purpose: AccountTokenPurpose,
+    code: string,
+  ): Promise<void> {
+    const token = await this.tokenRepo.findOne({
+      where: { userId, purpose, usedAt: IsNull() },
+      order: { createdAt: 'DESC' },
+    });
+    if (
+      !token ||
+      token.expiresAt.getTime() <= Date.now() ||
+      token.attempts >= MAX_CODE_ATTEMPTS
+    ) {
+      throw new BadRequestException('Invalid or expired code');
+    }
+
+    if (token.codeHash !== hashCode(userId, code)) {
+      await this.tokenRepo.increment({ id: token.id }, 'attempts', 1);
+      throw new BadRequestException('Invalid or expired code');
+    }
+
+    // Conditional so the same code can't be redeemed twice concurrently.
+    const result = await this.tokenRepo.update(
+      { id: token.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    if (!result.affected) {
+      throw new BadRequestException('Invalid or expired code');
+    }
+  }
+}
@@ -1,12 +1,54 @@
-import { Body, Controller, Post } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { Throttle } from '@nestjs/throttler';
 
-import { AuthService, LoginResponse, SafeUser } from './auth.service';
+import {
+  AuthService,
+  JwtPayload,
+  LoginResponse,
+  SafeUser,
+  TokenPair,
+  TwoFactorChallenge,
+} from './auth.service';
+import { SessionsService, SessionView } from './sessions.service';
+import {
+  TwoFactorService,
+  TwoFactorSetup,
+  TwoFactorStatus,
+} from './two-factor.service';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { TwoFactorCodeDto } from './dto/two-factor-code.dto';
+import { TwoFactorLoginDto } from './dto/two-factor-login.dto';
+
+interface AuthRequest {
+  user: JwtPayload;
+}
 
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly sessionsService: SessionsService,
+    private readonly twoFactorService: TwoFactorService,
+  ) {}
 
   @Post('register')
   async register(@Body() dto: RegisterDto): Promise<SafeUser> {
@@ -18,8 +60,168 @@ export class AuthController {
     });
   }
 
+  /** POST /auth/login — tokens, or a 2FA challenge when two-factor is on. */
   @Post('login')
-  async login(@Body() dto: LoginDto): Promise<LoginResponse> {
-    return this.authService.login(dto.email, dto.password);
+  async login(
+    @Body() dto: LoginDto,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<LoginResponse | TwoFactorChallenge> {
+    return this.authService.login(
+      dto.email,
+      dto.password,
+      dto.device_name ?? userAgent,
+    );
+  }
+
+  /** POST /auth/login/2fa — finish signing in with an authenticator code. */
+  @Post('login/2fa')
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  async completeTwoFactorLogin(
+    @Body() dto: TwoFactorLoginDto,
+  ): Promise<LoginResponse> {
+    return this.authService.completeTwoFactorLogin(
+      dto.challenge_token,
+      dto.code,
+    );
+  }
+
+  /** POST /auth/refresh — swap a refresh token for a new token pair. */
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  async refresh(@Body() dto: RefreshTokenDto): Promise<TokenPair> {
+    return this.authService.refresh(dto.refresh_token);
+  }
+
+  /** POST /auth/verify-email — confirm the address with the emailed code. */
+  @Post('verify-email')
+  @UseGuards(JwtAuthGuard)
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async verifyEmail(
+    @Request() req: AuthRequest,
+    @Body() dto: VerifyEmailDto,
+  ): Promise<void> {
+    await this.authService.verifyEmail(req.user.sub, dto.code);
+  }
+
+  /** POST /auth/verify-email/resend — email a new verification code. */
+  @Post('verify-email/resend')
+  @UseGuards(JwtAuthGuard)
+  @Throttle({ default: { limit: 3, ttl: 60000 } })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async resendVerification(@Request() req: AuthRequest): Promise<void> {
+    await this.authService.resendVerification(req.user.sub);
+  }
+
+  /** POST /auth/forgot-password — 204 whether or not the email exists. */
+  @Post('forgot-password')
+  @Throttle({ default: { limit: 3, ttl: 60000 } })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async forgotPassword(@Body() dto: ForgotPasswordDto): Promise<void> {
+    await this.authService.requestPasswordReset(dto.email);
+  }
+
+  /** POST /auth/reset-password — set a new password with the emailed code. */
+  @Post('reset-password')
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async resetPassword(@Body() dto: ResetPasswordDto): Promise<void> {
+    await this.authService.resetPassword(dto.email, dto.code, dto.new_password);
+  }
+
+  /** GET /auth/2fa — whether two-factor is on and recovery codes left. */
+  @Get('2fa')
+  @UseGuards(JwtAuthGuard)
+  getTwoFactorStatus(@Request() req: AuthRequest): Promise<TwoFactorStatus> {
+    return this.twoFactorService.getStatus(req.user.sub);
+  }
+
+  /** POST /auth/2fa/setup — new secret and QR payload to scan. */
+  @Post('2fa/setup')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  beginTwoFactorSetup(@Request() req: AuthRequest): Promise<TwoFactorSetup> {
+    return this.twoFactorService.beginSetup(req.user.sub);
+  }
+
+  /** POST /auth/2fa/confirm — turn two-factor on with a first code. */
+  @Post('2fa/confirm')
+  @UseGuards(JwtAuthGuard)
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  async confirmTwoFactor(
+    @Request() req: AuthRequest,
+    @Body() dto: TwoFactorCodeDto,
+  ): Promise<{ recoveryCodes: string[] }> {
+    return {
+      recoveryCodes: await this.twoFactorService.confirmSetup(
+        req.user.sub,
+        dto.code,
+      ),
+    };
+  }
+
+  /** POST /auth/2fa/disable — turn two-factor off; needs a current code. */
+  @Post('2fa/disable')
+  @UseGuards(JwtAuthGuard)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async disableTwoFactor(
+    @Request() req: AuthRequest,
+    @Body() dto: TwoFactorCodeDto,
+  ): Promise<void> {
+    await this.twoFactorService.disable(req.user.sub, dto.code);
+  }
+
+  /** POST /auth/2fa/recovery-codes — replace the recovery codes. */
+  @Post('2fa/recovery-codes')
+  @UseGuards(JwtAuthGuard)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  async regenerateRecoveryCodes(
+    @Request() req: AuthRequest,
+    @Body() dto: TwoFactorCodeDto,
+  ): Promise<{ recoveryCodes: string[] }> {
+    return {
+      recoveryCodes: await this.twoFactorService.regenerateRecoveryCodes(
+        req.user.sub,
+        dto.code,
+      ),
+    };
+  }
+
+  /** POST /auth/logout — end the session the request was made with. */
+  @Post('logout')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logout(@Request() req: AuthRequest): Promise<void> {
+    await this.sessionsService.revoke(req.user.sub, req.user.sid);
+  }
+
+  /** GET /auth/sessions — devices signed in to this account. */
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  findSessions(@Request() req: AuthRequest): Promise<SessionView[]> {
+    return this.sessionsService.findActiveSessions(req.user.sub, req.user.sid);
+  }
+
+  /** DELETE /auth/sessions/:id — sign one device out. */
+  @Delete('sessions/:id')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revokeSession(
+    @Request() req: AuthRequest,
+    @Param('id', ParseUUIDPipe) sessionId: string,
+  ): Promise<void> {
+    await this.sessionsService.revoke(req.user.sub, sessionId);
+  }
+
+  /** DELETE /auth/sessions — sign out everywhere, this device included. */
+  @Delete('sessions')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revokeAllSessions(@Request() req: AuthRequest): Promise<void> {
+    await this.sessionsService.revokeAll(req.user.sub);
   }
 }
@@ -1,6 +1,9 @@
 import {
+  BadRequestException,
   ConflictException,
   Injectable,
+  Logger,
+  NotFoundException,
   UnauthorizedException,
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
@@ -9,7 +12,13 @@ import * as bcrypt from 'bcrypt';
 import { Repository } from 'typeorm';
 
 import { User } from './entities/user.entity';
+import { AccountTokenPurpose } from './entities/account-token.entity';
+import { SessionsService } from './sessions.service';
+import { AccountTokensService } from './account-tokens.service';
+import { TwoFactorService } from './two-factor.service';
+import { buildAccountCodeEmail } from './account-emails';
 import { S3StorageService } from '../common/storage/s3-storage.service';
+import { MailTransport } from '../common/mail';
 
 export interface RegisterDto {
   email: string;
@@ -21,22 +30,54 @@ export interface RegisterDto {
 export interface JwtPayload {
   sub: string;
   email: string;
+  /** Device session the token belongs to. */
+  sid: string;
 }
 
 export type SafeUser = Omit<User, 'passwordHash'>;
 
-export interface LoginResponse {
+export interface TokenPair {
   access_token: string;
+  /** Single use — every refresh returns a new one. */
+  refresh_token: string;
+}
+
+export interface LoginResponse extends TokenPair {
   user: SafeUser;
 }
 
+/** What login returns instead of tokens when two-factor is on. */
+export interface TwoFactorChallenge {
+  two_factor_required: true;
+  /** Exchanged with a code at POST /auth/login/2fa. */
+  challenge_token: string;
+}
+
+/** Claims of a challenge token; it has no `sid`, so it is never an access token. */
+interface TwoFactorChallengePayload {
+  sub: string;
+  typ: typeof TWO_FACTOR_CHALLENGE_TYPE;
+  /** Matches the user's open challenge until it is used or replaced. */
+  jti: string;
+  device_name?: string;
+}
+
+const TWO_FACTOR_CHALLENGE_TYPE = '2fa_challenge';
+const TWO_FACTOR_CHALLENGE_TTL = '5m';
+
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
   constructor(
     @InjectRepository(User)
     private readonly userRepository: Repository<User>,
     private readonly jwtService: JwtService,
     private readonly s3StorageService: S3StorageService,
+    private readonly sessionsService: SessionsService,
+    private readonly accountTokensService: AccountTokensService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly mailTransport: MailTransport,
   ) {}
 
   async register(dto: RegisterDto): Promise<SafeUser> {
@@ -58,10 +99,28 @@ export class AuthService {
     };
 
     const savedUser: User = await this.userRepository.save(userToCreate);
+
+    // The account works without it; the user can ask for another code.
+    try {
+      await this.sendAccountCode(savedUser, AccountTokenPurpose.VERIFY_EMAIL);
+    } catch (err) {
+      this.logger.error(
+        `Verification email to ${savedUser.email} failed: ${String(err)}`,
+      );
+    }
+
     return this.toSafeUser(savedUser);
   }
 
-  async login(email: string, password: string): Promise<LoginResponse> {
+  /**
+   * Starts a new device session; `deviceName` labels it in the session list.
+   * With two-factor on, the password only earns a short-lived challenge.
+   */
+  async login(
+    email: string,
+    password: string,
+    deviceName?: string,
+  ): Promise<LoginResponse | TwoFactorChallenge> {
     const user: User | null = await this.userRepository.findOne({
       where: { email },
     });
@@ -79,19 +138,182 @@ export class AuthService {
       throw new UnauthorizedException('Invalid credentials');
     }
 
+    if (user.totpEnabledAt) {
+      const challenge: TwoFactorChallengePayload = {
+        sub: user.id,
+        typ: TWO_FACTOR_CHALLENGE_TYPE,
+        jti: await this.twoFactorService.openChallenge(user.id),
+        device_name: deviceName,
+      };
+      return {
+        two_factor_required: true,
+        challenge_token: await this.jwtService.signAsync(challenge, {
+          expiresIn: TWO_FACTOR_CHALLENGE_TTL,
+        }),
+      };
+    }
+
+    return this.startSession(user, deviceName);
+  }
+
+  /** Second login step: trades a challenge token and a code for tokens. */
+  async completeTwoFactorLogin(
+    challengeToken: string,
+    code: string,
+  ): Promise<LoginResponse> {
+    let challenge: TwoFactorChallengePayload;
+    try {
+      challenge =
+        await this.jwtService.verifyAsync<TwoFactorChallengePayload>(
+          challengeToken,
+        );
+    } catch {
+      throw new UnauthorizedException('Sign-in has expired, log in again');
+    }
+    if (challenge.typ !== TWO_FACTOR_CHALLENGE_TYPE || !challenge.jti) {
+      throw new UnauthorizedException('Invalid challenge token');
+    }
+
+    const user: User | null = await this.userRepository.findOne({
+      where: { id: challenge.sub },
+    });
+    if (!user) throw new UnauthorizedException('Invalid challenge token');
+
+    await this.twoFactorService.redeemChallenge(user.id, challenge.jti, code);
+
+    return this.startSession(user, challenge.device_name);
+  }
+
+  /** Rotates the refresh token and issues a fresh access token with it. */
+  async refresh(refreshToken: string): Promise<TokenPair> {
+    const { session, refreshToken: nextRefreshToken } =
+      await this.sessionsService.rotate(refreshToken);
+
+    const user: User | null = await this.userRepository.findOne({
+      where: { id: session.userId },
+      select: ['id', 'email'],
+    });
+    if (!user) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
     const payload: JwtPayload = {
       sub: user.id,
       email: user.email,
+      sid: session.id,
+    };
+
+    return {
+      access_token: await this.jwtService.signAsync(payload),
+      refresh_token: nextRefreshToken,
+    };
+  }
+
+  /** Emails a new verification code; any earlier code stops working. */
+  async resendVerification(userId: string): Promise<void> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) throw new NotFoundException('User not found');
+    if (user.emailVerifiedAt) {
+      throw new ConflictException('Email is already verified');
+    }
+    await this.sendAccountCode(user, AccountTokenPurpose.VERIFY_EMAIL);
+  }
+
+  async verifyEmail(userId: string, code: string): Promise<void> {
+    const user = await this.userRepository.findOne({
+      where: { id: userId },
+      select: ['id', 'emailVerifiedAt'],
+    });
+    if (!user) throw new NotFoundException('User not found');
+    if (user.emailVerifiedAt) return;
+
+    await this.accountTokensService.consume(
+      userId,
+      AccountTokenPurpose.VERIFY_EMAIL,
+      code,
+    );
+    await this.userRepository.update(
+      { id: userId },
+      { emailVerifiedAt: new Date() },
+    );
+  }
+
+  /**
+   * Emails a reset code if the address has an account. Resolves the same
+   * way — and without waiting on the mail server — either way, so callers
+   * can't probe which emails are registered.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.userRepository.findOne({ where: { email } });
+    if (!user) return;
+
+    this.sendAccountCode(user, AccountTokenPurpose.RESET_PASSWORD).catch(
+      (err) =>
+        this.logger.error(
+          `Password reset email to ${user.email} failed: ${String(err)}`,
+        ),
+    );
+  }
+
+  /** Sets a new password and signs every device out. */
+  async resetPassword(
+    email: string,
+    code: string,
+    newPassword: string,
+  ): Promise<void> {
+    const user = await this.userRepository.findOne({ where: { email } });
+    if (!user) throw new BadRequestException('Invalid or expired code');
+
+    await this.accountTokensService.consume(
+      user.id,
+      AccountTokenPurpose.RESET_PASSWORD,
+      code,
+    );
+    await this.userRepository.update(
+      { id: user.id },
+      {
+        passwordHash: await bcrypt.hash(newPassword, 10),
+        // The code reached their inbox, which proves the address too.
+        emailVerifiedAt: user.emailVerifiedAt ?? new Date(),
+      },
+    );
+    await this.sessionsService.revokeAll(user.id);
+  }
+
+  private async startSession(
+    user: User,
+    deviceName?: string,
+  ): Promise<LoginResponse> {
+    const { session, refreshToken } = await this.sessionsService.createSession(
+      user.id,
+      deviceName,
+    );
+
+    const payload: JwtPayload = {
+      sub: user.id,
+      email: user.email,
+      sid: session.id,
     };
 
     const accessToken: string = await this.jwtService.signAsync(payload);
 
     return {
       access_token: accessToken,
+      refresh_token: refreshToken,
       user: await this.toSafeUser(user),
     };
   }
 
+  private async sendAccountCode(
+    user: User,
+    purpose: AccountTokenPurpose,
+  ): Promise<void> {
+    const code = await this.accountTokensService.issue(user.id, purpose);
+    await this.mailTransport.send(
+      buildAccountCodeEmail(user.email, user.displayName, purpose, code),
+    );
+  }
+
   private async toSafeUser(user: User): Promise<SafeUser> {
     const safeUser: Partial<User> = { ...user };
     delete safeUser.passwordHash;
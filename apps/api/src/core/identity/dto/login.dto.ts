@@ -1,4 +1,10 @@
-import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
 
 export class LoginDto {
   @IsEmail({}, { message: 'Please provide a valid email address' })
@@ -8,4 +14,10 @@ export class LoginDto {
   @IsString()
   @IsNotEmpty({ message: 'Password is required' })
   password!: string;
+
+  /** Shown in the session list, e.g. "Pixel 8". Defaults to the User-Agent. */
+  @IsOptional()
+  @IsString()
+  @MaxLength(100, { message: 'Device name must be at most 100 characters' })
+  device_name?: string;
 }
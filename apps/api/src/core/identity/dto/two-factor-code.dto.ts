@@ -0,0 +1,9 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class TwoFactorCodeDto {
+  /** A 6-digit authenticator code or a recovery code. */
+  @IsString()
+  @IsNotEmpty({ message: 'Code is required' })
+  @MaxLength(32)
+  code!: string;
+}
@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class TwoFactorLoginDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Challenge token is required' })
+  challenge_token!: string;
+
+  /** A 6-digit authenticator code or a recovery code. */
+  @IsString()
+  @IsNotEmpty({ message: 'Code is required' })
+  @MaxLength(32)
+  code!: string;
+}
@@ -0,0 +1,55 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+import { User } from './user.entity';
+
+export enum AccountTokenPurpose {
+  VERIFY_EMAIL = 'verify_email',
+  RESET_PASSWORD = 'reset_password',
+}
+
+/**
+ * A one-time code emailed to the account owner. Only the hash is kept, and
+ * a code stops working once used, once it expires, or after too many wrong
+ * guesses.
+ */
+@Entity('account_tokens')
+@Index('idx_account_tokens_user_purpose', ['userId', 'purpose'])
+export class AccountToken {
+  @PrimaryGeneratedColumn('uuid', { name: 'id' })
+  id!: string;
+
+  @Column({ type: 'uuid', name: 'user_id', nullable: false })
+  userId!: string;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user!: User;
+
+  @Column({ type: 'varchar', name: 'purpose', length: 16, nullable: false })
+  purpose!: AccountTokenPurpose;
+
+  /** SHA-256 of `<userId>:<code>`. */
+  @Column({ type: 'varchar', name: 'code_hash', length: 64, nullable: false })
+  codeHash!: string;
+
+  /** Wrong guesses so far. */
+  @Column({ type: 'int', name: 'attempts', default: 0, nullable: false })
+  attempts!: number;
+
+  @Column({ type: 'timestamptz', name: 'expires_at', nullable: false })
+  expiresAt!: Date;
+
+  @Column({ type: 'timestamptz', name: 'used_at', nullable: true })
+  usedAt!: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
+  createdAt!: Date;
+}
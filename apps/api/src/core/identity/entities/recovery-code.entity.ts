@@ -0,0 +1,39 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+import { User } from './user.entity';
+
+/**
+ * A single-use fallback for the authenticator app. Shown to the user once
+ * when generated; only the hash is kept.
+ */
+@Entity('user_recovery_codes')
+@Index('idx_user_recovery_codes_user', ['userId'])
+export class RecoveryCode {
+  @PrimaryGeneratedColumn('uuid', { name: 'id' })
+  id!: string;
+
+  @Column({ type: 'uuid', name: 'user_id', nullable: false })
+  userId!: string;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user!: User;
+
+  /** SHA-256 of the normalised code (lowercase, no dash). */
+  @Column({ type: 'varchar', name: 'code_hash', length: 64, nullable: false })
+  codeHash!: string;
+
+  @Column({ type: 'timestamptz', name: 'used_at', nullable: true })
+  usedAt!: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
+  createdAt!: Date;
+}
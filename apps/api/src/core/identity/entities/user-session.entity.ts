@@ -0,0 +1,61 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+import { User } from './user.entity';
+
+/**
+ * One signed-in device. Access tokens carry the session id (`sid`) and stop
+ * working as soon as the session is revoked; the refresh token rotates on
+ * every use and only its hash is stored.
+ */
+@Entity('user_sessions')
+@Index('idx_user_sessions_user', ['userId'])
+export class UserSession {
+  @PrimaryGeneratedColumn('uuid', { name: 'id' })
+  id!: string;
+
+  @Column({ type: 'uuid', name: 'user_id', nullable: false })
+  userId!: string;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user!: User;
+
+  /** SHA-256 of the current refresh token secret. */
+  @Column({
+    type: 'varchar',
+    name: 'refresh_token_hash',
+    length: 64,
+    nullable: false,
+  })
+  refreshTokenHash!: string;
+
+  /** Client-supplied name, falling back to the User-Agent at login. */
+  @Column({ type: 'varchar', name: 'device_name', length: 100, nullable: true })
+  deviceName!: string | null;
+
+  /** The Expo push token this device registered, cleared on revocation. */
+  @Column({ type: 'varchar', name: 'expo_push_token', nullable: true })
+  expoPushToken!: string | null;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
+  createdAt!: Date;
+
+  /** Stamped at login and on every refresh. */
+  @Column({ type: 'timestamptz', name: 'last_used_at', nullable: false })
+  lastUsedAt!: Date;
+
+  /** Slides forward on every refresh, so only idle devices get logged out. */
+  @Column({ type: 'timestamptz', name: 'expires_at', nullable: false })
+  expiresAt!: Date;
+
+  @Column({ type: 'timestamptz', name: 'revoked_at', nullable: true })
+  revokedAt!: Date | null;
+}
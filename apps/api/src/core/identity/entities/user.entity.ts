@@ -7,6 +7,12 @@ import {
 } from 'typeorm';
 import { Message } from '../../../modules/chat/entities/message.entity';
 
+export enum UserRole {
+  USER = 'user',
+  /** Platform staff — can review reports from every conversation. */
+  ADMIN = 'admin',
+}
+
 @Entity('users')
 export class User {
   @PrimaryGeneratedColumn('uuid', { name: 'id' })
@@ -40,6 +46,104 @@ export class User {
   })
   expoPushToken!: string | null;
 
+  /** When the user's last socket disconnected (also stamped on connect). */
+  @Column({
+    type: 'timestamptz',
+    name: 'last_seen_at',
+    nullable: true,
+    default: null,
+  })
+  lastSeenAt!: Date | null;
+
+  /** Privacy: hide lastSeenAt from everyone else. */
+  @Column({
+    type: 'boolean',
+    name: 'hide_last_seen',
+    nullable: false,
+    default: false,
+  })
+  hideLastSeen!: boolean;
+
+  /** Null until the user enters the code from their verification email. */
+  @Column({
+    type: 'timestamptz',
+    name: 'email_verified_at',
+    nullable: true,
+    default: null,
+  })
+  emailVerifiedAt!: Date | null;
+
+  /**
+   * Base32 TOTP secret. Set while enrolling and kept once confirmed; never
+   * selected unless asked for.
+   */
+  @Column({
+    type: 'varchar',
+    name: 'totp_secret',
+    length: 64,
+    nullable: true,
+    default: null,
+    select: false,
+  })
+  totpSecret!: string | null;
+
+  /** Two-factor sign-in is on from this moment; null while off. */
+  @Column({
+    type: 'timestamptz',
+    name: 'totp_enabled_at',
+    nullable: true,
+    default: null,
+  })
+  totpEnabledAt!: Date | null;
+
+  /** Last accepted TOTP time step, so a code can't be replayed. */
+  @Column({
+    type: 'int',
+    name: 'totp_last_step',
+    nullable: true,
+    default: null,
+    select: false,
+  })
+  totpLastStep!: number | null;
+
+  /** The one sign-in challenge that may still be completed; null once used. */
+  @Column({
+    type: 'uuid',
+    name: 'totp_challenge_id',
+    nullable: true,
+    default: null,
+    select: false,
+  })
+  totpChallengeId!: string | null;
+
+  /** Codes tried at sign-in since the last success; a lapsed lockout restarts it. */
+  @Column({
+    type: 'int',
+    name: 'totp_failed_attempts',
+    default: 0,
+    select: false,
+  })
+  totpFailedAttempts!: number;
+
+  /** Two-factor sign-in is refused until then after too many wrong codes. */
+  @Column({
+    type: 'timestamptz',
+    name: 'totp_locked_until',
+    nullable: true,
+    default: null,
+    select: false,
+  })
+  totpLockedUntil!: Date | null;
+
+  @Column({
+    type: 'varchar',
+    name: 'role',
+    length: 8,
+    default: UserRole.USER,
+    nullable: false,
+  })
+  role!: UserRole;
+
   @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
   createdAt!: Date;
 
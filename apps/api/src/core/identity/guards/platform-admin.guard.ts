@@ -0,0 +1,39 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { User, UserRole } from '../entities/user.entity';
+import { JwtPayload } from '../strategies/jwt.strategy';
+
+/**
+ * Lets platform admins through. Runs after JwtAuthGuard and reads the role
+ * from the database rather than the token, so revoking it takes effect
+ * immediately.
+ */
+@Injectable()
+export class PlatformAdminGuard implements CanActivate {
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<{ user?: JwtPayload }>();
+    const userId = request.user?.sub;
+    if (!userId) throw new ForbiddenException('Admins only');
+
+    const user = await this.userRepository.findOne({
+      where: { id: userId },
+      select: { id: true, role: true },
+    });
+    if (user?.role !== UserRole.ADMIN) {
+      throw new ForbiddenException('Admins only');
+    }
+    return true;
+  }
+}
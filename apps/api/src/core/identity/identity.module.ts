@@ -7,26 +7,42 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
 import { User } from './entities/user.entity';
+import { UserSession } from './entities/user-session.entity';
+import { AccountToken } from './entities/account-token.entity';
+import { RecoveryCode } from './entities/recovery-code.entity';
+import { SessionsService } from './sessions.service';
+import { AccountTokensService } from './account-tokens.service';
+import { TwoFactorService } from './two-factor.service';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { StorageModule } from '../common/storage';
+import { MailModule } from '../common/mail';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([User]),
+    TypeOrmModule.forFeature([User, UserSession, AccountToken, RecoveryCode]),
     PassportModule,
     StorageModule,
+    MailModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
       inject: [ConfigService],
       useFactory: (configService: ConfigService) => ({
         secret: configService.getOrThrow<string>('JWT_SECRET'),
-        signOptions: { expiresIn: '7d' },
+        // Short-lived: clients renew through POST /auth/refresh.
+        signOptions: { expiresIn: '15m' },
       }),
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthService, JwtStrategy, JwtAuthGuard],
-  exports: [JwtAuthGuard, JwtStrategy, PassportModule],
+  providers: [
+    AuthService,
+    SessionsService,
+    AccountTokensService,
+    TwoFactorService,
+    JwtStrategy,
+    JwtAuthGuard,
+  ],
+  exports: [JwtAuthGuard, JwtStrategy, PassportModule, SessionsService],
 })
 export class IdentityModule {}
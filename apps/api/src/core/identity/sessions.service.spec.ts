@@ -0,0 +1,155 @@
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Test, TestingModule } from '@nestjs/testing';
+import { createHash } from 'crypto';
+
+import { SessionsService } from './sessions.service';
+import { User } from './entities/user.entity';
+import { UserSession } from './entities/user-session.entity';
+
+const SESSION_ID = '0b9c7a52-3f0e-4f7a-9a37-6d1c2f3e4a5b';
+
+const hash = (secret: string) =>
+  createHash('sha256').update(secret).digest('hex');
+
+describe('SessionsService', () => {
+  let service: SessionsService;
+  let sessionRepo: {
+    create: jest.Mock;
+    save: jest.Mock;
+    findOne: jest.Mock;
+    find: jest.Mock;
+    update: jest.Mock;
+    exists: jest.Mock;
+  };
+  let userRepo: { update: jest.Mock };
+
+  const buildSession = (overrides: Partial<UserSession> = {}) =>
+    ({
+      id: SESSION_ID,
+      userId: 'user-1',
+      refreshTokenHash: hash('current-secret'),
+      deviceName: 'Pixel 8',
+      expoPushToken: 'ExponentPushToken[abc]',
+      createdAt: new Date(),
+      lastUsedAt: new Date(),
+      expiresAt: new Date(Date.now() + 60_000),
+      revokedAt: null,
+      ...overrides,
+    }) as UserSession;
+
+  beforeEach(async () => {
+    sessionRepo = {
+      create: jest.fn((s: Partial<UserSession>) => s),
+      save: jest.fn((s: Partial<UserSession>) =>
+        Promise.resolve({ ...s, id: SESSION_ID }),
+      ),
+      findOne: jest.fn(),
+      find: jest.fn(),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      exists: jest.fn(),
+    };
+    userRepo = { update: jest.fn().mockResolvedValue({ affected: 1 }) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionsService,
+        { provide: getRepositoryToken(UserSession), useValue: sessionRepo },
+        { provide: getRepositoryToken(User), useValue: userRepo },
+      ],
+    }).compile();
+
+    service = module.get(SessionsService);
+  });
+
+  it('stores only the hash of a new refresh token', async () => {
+    const { refreshToken } = await service.createSession('user-1', 'Pixel 8');
+
+    const [sessionId, secret] = refreshToken.split('.');
+    expect(sessionId).toBe(SESSION_ID);
+    expect(sessionRepo.save).toHaveBeenCalledWith(
+      expect.objectContaining({ refreshTokenHash: hash(secret) }),
+    );
+  });
+
+  it('rotates the refresh token on every use', async () => {
+    sessionRepo.findOne.mockResolvedValue(buildSession());
+
+    const { refreshToken } = await service.rotate(
+      `${SESSION_ID}.current-secret`,
+    );
+
+    const [, nextSecret] = refreshToken.split('.');
+    expect(nextSecret).not.toBe('current-secret');
+    expect(sessionRepo.update).toHaveBeenCalledWith(
+      { id: SESSION_ID, refreshTokenHash: hash('current-secret') },
+      expect.objectContaining({ refreshTokenHash: hash(nextSecret) }),
+    );
+  });
+
+  it('revokes the session when an old refresh token comes back', async () => {
+    sessionRepo.findOne.mockResolvedValue(buildSession());
+    const onRevoked = jest.fn();
+    service.onRevoked(onRevoked);
+
+    await expect(
+      service.rotate(`${SESSION_ID}.previous-secret`),
+    ).rejects.toThrow('Invalid refresh token');
+    const [, changes] = sessionRepo.update.mock.calls[0] as [
+      unknown,
+      Partial<UserSession>,
+    ];
+    expect(changes.revokedAt).toBeInstanceOf(Date);
+    expect(onRevoked).toHaveBeenCalledWith([SESSION_ID]);
+  });
+
+  it('refuses revoked and expired sessions', async () => {
+    sessionRepo.findOne.mockResolvedValue(
+      buildSession({ revokedAt: new Date() }),
+    );
+    await expect(
+      service.rotate(`${SESSION_ID}.current-secret`),
+    ).rejects.toThrow('Session has been revoked');
+
+    sessionRepo.findOne.mockResolvedValue(
+      buildSession({ expiresAt: new Date(Date.now() - 1000) }),
+    );
+    await expect(
+      service.rotate(`${SESSION_ID}.current-secret`),
+    ).rejects.toThrow('Session has expired');
+  });
+
+  it('rejects malformed refresh tokens without a lookup', async () => {
+    await expect(service.rotate('not-a-token')).rejects.toThrow(
+      'Invalid refresh token',
+    );
+    expect(sessionRepo.findOne).not.toHaveBeenCalled();
+  });
+
+  it("clears the revoked device's push token from the user", async () => {
+    sessionRepo.find.mockResolvedValue([
+      buildSession(),
+      buildSession({ id: 'session-2', expoPushToken: null }),
+    ]);
+    const onRevoked = jest.fn();
+    service.onRevoked(onRevoked);
+
+    await service.revokeAll('user-1');
+
+    const [where, changes] = userRepo.update.mock.calls[0] as [
+      { id: string },
+      Partial<User>,
+    ];
+    expect(where.id).toBe('user-1');
+    expect(changes).toEqual({ expoPushToken: null });
+    expect(onRevoked).toHaveBeenCalledWith([SESSION_ID, 'session-2']);
+  });
+
+  it("404s when revoking someone else's session", async () => {
+    sessionRepo.findOne.mockResolvedValue(null);
+
+    await expect(service.revoke('user-2', SESSION_ID)).rejects.toThrow(
+      'Session not found',
+    );
+    expect(sessionRepo.update).not.toHaveBeenCalled();
+  });
+});
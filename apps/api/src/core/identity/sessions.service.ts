@@ -0,0 +1,227 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { isUUID } from 'class-validator';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { In, IsNull, MoreThan, Not, Repository } from 'typeorm';
+
+import { User } from './entities/user.entity';
+import { UserSession } from './entities/user-session.entity';
+
+/** Idle devices are signed out after this long without a refresh. */
+export const SESSION_IDLE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface IssuedSession {
+  session: UserSession;
+  /** `<sessionId>.<secret>` — handed to the client once, never stored. */
+  refreshToken: string;
+}
+
+export interface SessionView {
+  id: string;
+  deviceName: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  /** The session the request was made with. */
+  isCurrent: boolean;
+}
+
+type SessionsRevokedListener = (sessionIds: string[]) => void;
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+@Injectable()
+export class SessionsService {
+  private readonly logger = new Logger(SessionsService.name);
+  private readonly revokedListeners: SessionsRevokedListener[] = [];
+
+  constructor(
+    @InjectRepository(UserSession)
+    private readonly sessionRepo: Repository<UserSession>,
+    @InjectRepository(User)
+    private readonly userRepo: Repository<User>,
+  ) {}
+
+  /**
+   * Lets holders of long-lived connections (the chat socket gateway) drop
+   * a session the moment it is revoked instead of waiting for it to
+   * reconnect.
+   */
+  onRevoked(listener: SessionsRevokedListener): void {
+    this.revokedListeners.push(listener);
+  }
+
+  async createSession(
+    userId: string,
+    deviceName?: string | null,
+  ): Promise<IssuedSession> {
+    const secret = randomBytes(32).toString('base64url');
+    const now = new Date();
+    const session = await this.sessionRepo.save(
+      this.sessionRepo.create({
+        userId,
+        deviceName: deviceName?.trim().slice(0, 100) || null,
+        refreshTokenHash: hashSecret(secret),
+        lastUsedAt: now,
+        expiresAt: new Date(now.getTime() + SESSION_IDLE_TTL_MS),
+      }),
+    );
+    return { session, refreshToken: `${session.id}.${secret}` };
+  }
+
+  /**
+   * Trades a refresh token for a new one. A token that was already traded
+   * in means someone copied it, so the whole session is revoked.
+   */
+  async rotate(refreshToken: string): Promise<IssuedSession> {
+    const [sessionId, secret] = refreshToken.split('.');
+    if (!sessionId || !secret || !isUUID(sessionId)) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const session = await this.sessionRepo.findOne({
+      where: { id: sessionId },
+    });
+    if (!session) throw new UnauthorizedException('Invalid refresh token');
+    if (session.revokedAt) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+    if (session.expiresAt.getTime() <= Date.now()) {
+      throw new UnauthorizedException('Session has expired');
+    }
+
+    const presented = Buffer.from(hashSecret(secret));
+    const stored = Buffer.from(session.refreshTokenHash);
+    if (
+      presented.length !== stored.length ||
+      !timingSafeEqual(presented, stored)
+    ) {
+      this.logger.warn(
+        `Refresh token reuse on session ${session.id}; revoking it`,
+      );
+      await this.revokeSessions(session.userId, [session]);
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const nextSecret = randomBytes(32).toString('base64url');
+    const now = new Date();
+    const changes = {
+      refreshTokenHash: hashSecret(nextSecret),
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + SESSION_IDLE_TTL_MS),
+    };
+    // Conditional on the old hash so two racing refreshes can't both win.
+    const result = await this.sessionRepo.update(
+      { id: session.id, refreshTokenHash: session.refreshTokenHash },
+      changes,
+    );
+    if (!result.affected) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    return {
+      session: { ...session, ...changes },
+      refreshToken: `${session.id}.${nextSecret}`,
+    };
+  }
+
+  async isActive(sessionId: string): Promise<boolean> {
+    return this.sessionRepo.exists({
+      where: {
+        id: sessionId,
+        revokedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+      },
+    });
+  }
+
+  /** Signed-in devices, most recently used first. */
+  async findActiveSessions(
+    userId: string,
+    currentSessionId: string,
+  ): Promise<SessionView[]> {
+    const sessions = await this.sessionRepo.find({
+      where: { userId, revokedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+      order: { lastUsedAt: 'DESC' },
+    });
+    return sessions.map((s) => ({
+      id: s.id,
+      deviceName: s.deviceName,
+      createdAt: s.createdAt,
+      lastUsedAt: s.lastUsedAt,
+      isCurrent: s.id === currentSessionId,
+    }));
+  }
+
+  async revoke(userId: string, sessionId: string): Promise<void> {
+    const session = await this.sessionRepo.findOne({
+      where: { id: sessionId, userId, revokedAt: IsNull() },
+    });
+    if (!session) throw new NotFoundException('Session not found');
+    await this.revokeSessions(userId, [session]);
+  }
+
+  /** Signs the user out everywhere, including the device asking. */
+  async revokeAll(userId: string): Promise<void> {
+    const sessions = await this.sessionRepo.find({
+      where: { userId, revokedAt: IsNull() },
+    });
+    await this.revokeSessions(userId, sessions);
+  }
+
+  /**
+   * Remembers which device a push token belongs to. A token moves with the
+   * device, so it is taken off any older session that still holds it.
+   */
+  async setPushToken(
+    userId: string,
+    sessionId: string,
+    token: string | null,
+  ): Promise<void> {
+    if (token) {
+      await this.sessionRepo.update(
+        { userId, expoPushToken: token, id: Not(sessionId) },
+        { expoPushToken: null },
+      );
+    }
+    await this.sessionRepo.update(
+      { id: sessionId, userId },
+      { expoPushToken: token },
+    );
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────────
+
+  private async revokeSessions(
+    userId: string,
+    sessions: UserSession[],
+  ): Promise<void> {
+    if (sessions.length === 0) return;
+    const ids = sessions.map((s) => s.id);
+
+    await this.sessionRepo.update(
+      { id: In(ids) },
+      { revokedAt: new Date(), expoPushToken: null },
+    );
+
+    // Stop pushes to the revoked devices, but leave a token that another
+    // device has registered since.
+    const pushTokens = sessions
+      .map((s) => s.expoPushToken)
+      .filter((t): t is string => !!t);
+    if (pushTokens.length > 0) {
+      await this.userRepo.update(
+        { id: userId, expoPushToken: In(pushTokens) },
+        { expoPushToken: null },
+      );
+    }
+
+    for (const listener of this.revokedListeners) listener(ids);
+  }
+}
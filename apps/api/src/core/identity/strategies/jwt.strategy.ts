@@ -1,16 +1,22 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 
+import { SessionsService } from '../sessions.service';
+
 export interface JwtPayload {
   sub: string;
   email: string;
+  sid: string;
 }
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor(configService: ConfigService) {
+  constructor(
+    configService: ConfigService,
+    private readonly sessionsService: SessionsService,
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
@@ -18,7 +24,11 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     });
   }
 
-  validate(payload: JwtPayload): JwtPayload {
+  /** Revoking a session cuts its access tokens off now, not at expiry. */
+  async validate(payload: JwtPayload): Promise<JwtPayload> {
+    if (!payload.sid || !(await this.sessionsService.isActive(payload.sid))) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
     return payload;
   }
 }
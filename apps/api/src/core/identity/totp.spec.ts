@@ -0,0 +1,52 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUrl,
+  generateTotpCode,
+  totpStep,
+  verifyTotpCode,
+} from './totp';
+
+// RFC 6238 appendix B uses the ASCII seed "12345678901234567890".
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp', () => {
+  it('round-trips base32', () => {
+    const bytes = Buffer.from('linklanka-2fa');
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  });
+
+  it('matches the RFC 6238 SHA-1 test vectors', () => {
+    expect(generateTotpCode(RFC_SECRET, totpStep(59_000), 8)).toBe('94287082');
+    expect(generateTotpCode(RFC_SECRET, totpStep(1_111_111_109_000), 8)).toBe(
+      '07081804',
+    );
+    expect(generateTotpCode(RFC_SECRET, totpStep(1_234_567_890_000))).toBe(
+      '005924',
+    );
+  });
+
+  it('accepts one step of clock drift and no more', () => {
+    const now = 1_234_567_890_000;
+    const step = totpStep(now);
+
+    const previous = generateTotpCode(RFC_SECRET, step - 1);
+    expect(verifyTotpCode(RFC_SECRET, previous, now)).toBe(step - 1);
+
+    const stale = generateTotpCode(RFC_SECRET, step - 2);
+    expect(verifyTotpCode(RFC_SECRET, stale, now)).toBeNull();
+  });
+
+  it('rejects malformed codes', () => {
+    expect(verifyTotpCode(RFC_SECRET, '12345')).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, 'abcdef')).toBeNull();
+  });
+
+  it('builds an otpauth URI with the issuer and account', () => {
+    const url = buildOtpauthUrl('ABC', 'amal@example.com', 'LinkLanka');
+    expect(url).toMatch(/^otpauth:\/\/totp\/LinkLanka%3Aamal%40example\.com\?/);
+    expect(url).toContain('secret=ABC');
+    expect(url).toContain('issuer=LinkLanka');
+  });
+});
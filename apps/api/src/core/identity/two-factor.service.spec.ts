@@ -0,0 +1,261 @@
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Test, TestingModule } from '@nestjs/testing';
+import { createHash } from 'crypto';
+
+import {
+  MAX_TWO_FACTOR_ATTEMPTS,
+  RECOVERY_CODE_COUNT,
+  TwoFactorService,
+} from './two-factor.service';
+import { User } from './entities/user.entity';
+import { RecoveryCode } from './entities/recovery-code.entity';
+import { generateTotpCode, generateTotpSecret, totpStep } from './totp';
+
+const SECRET = generateTotpSecret();
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+  let userRepo: {
+    findOne: jest.Mock;
+    update: jest.Mock;
+    createQueryBuilder: jest.Mock;
+  };
+  let countAttempt: jest.Mock;
+  let attemptQuery: Record<string, jest.Mock>;
+  let recoveryCodeRepo: {
+    create: jest.Mock;
+    save: jest.Mock;
+    delete: jest.Mock;
+    update: jest.Mock;
+    count: jest.Mock;
+  };
+
+  const buildUser = (overrides: Partial<User> = {}) =>
+    ({
+      id: 'user-1',
+      email: 'amal@example.com',
+      totpSecret: SECRET,
+      totpEnabledAt: new Date(),
+      totpLastStep: null,
+      totpChallengeId: 'challenge-1',
+      totpFailedAttempts: 0,
+      totpLockedUntil: null,
+      ...overrides,
+    }) as User;
+
+  beforeEach(async () => {
+    userRepo = {
+      findOne: jest.fn(),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      createQueryBuilder: jest.fn(() => attemptQuery),
+    };
+    countAttempt = jest
+      .fn()
+      .mockResolvedValue({ raw: [{ totp_failed_attempts: 1 }] });
+    attemptQuery = { execute: countAttempt };
+    for (const step of ['update', 'set', 'where', 'andWhere', 'returning']) {
+      attemptQuery[step] = jest.fn(() => attemptQuery);
+    }
+    recoveryCodeRepo = {
+      create: jest.fn((c: Partial<RecoveryCode>) => c),
+      save: jest.fn((c: Partial<RecoveryCode>[]) => Promise.resolve(c)),
+      delete: jest.fn().mockResolvedValue({ affected: 0 }),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      count: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        { provide: getRepositoryToken(User), useValue: userRepo },
+        {
+          provide: getRepositoryToken(RecoveryCode),
+          useValue: recoveryCodeRepo,
+        },
+      ],
+    }).compile();
+
+    service = module.get(TwoFactorService);
+  });
+
+  it('refuses to start setup while two-factor is already on', async () => {
+    userRepo.findOne.mockResolvedValue(buildUser());
+
+    await expect(service.beginSetup('user-1')).rejects.toThrow(
+      'Two-factor authentication is already on',
+    );
+    expect(userRepo.update).not.toHaveBeenCalled();
+  });
+
+  it('turns two-factor on and stores only hashed recovery codes', async () => {
+    userRepo.findOne.mockResolvedValue(buildUser({ totpEnabledAt: null }));
+    const code = generateTotpCode(SECRET, totpStep());
+
+    const recoveryCodes = await service.confirmSetup('user-1', code);
+
+    expect(recoveryCodes).toHaveLength(RECOVERY_CODE_COUNT);
+    const [, changes] = userRepo.update.mock.calls[0] as [
+      unknown,
+      Partial<User>,
+    ];
+    expect(changes.totpEnabledAt).toBeInstanceOf(Date);
+
+    const [saved] = recoveryCodeRepo.save.mock.calls[0] as [
+      Partial<RecoveryCode>[],
+    ];
+    const plainHash = createHash('sha256')
+      .update(recoveryCodes[0].replace('-', ''))
+      .digest('hex');
+    expect(saved[0].codeHash).toBe(plainHash);
+  });
+
+  it('rejects a replayed authenticator code', async () => {
+    userRepo.findOne.mockResolvedValue(buildUser());
+    userRepo.update.mockResolvedValue({ affected: 0 });
+
+    const code = generateTotpCode(SECRET, totpStep());
+    await expect(service.checkCode('user-1', code)).resolves.toBe(false);
+  });
+
+  it('burns a recovery code however it is typed', async () => {
+    userRepo.findOne.mockResolvedValue(buildUser());
+
+    await expect(service.checkCode('user-1', ' ABCDE-FGHIJ ')).resolves.toBe(
+      true,
+    );
+
+    const [where, changes] = recoveryCodeRepo.update.mock.calls[0] as [
+      Partial<RecoveryCode>,
+      Partial<RecoveryCode>,
+    ];
+    expect(where.codeHash).toBe(
+      createHash('sha256').update('abcdefghij').digest('hex'),
+    );
+    expect(changes.usedAt).toBeInstanceOf(Date);
+  });
+
+  it('keeps two-factor on when disabling with a wrong code', async () => {
+    userRepo.findOne.mockResolvedValue(buildUser());
+    recoveryCodeRepo.update.mockResolvedValue({ affected: 0 });
+
+    await expect(service.disable('user-1', 'wrong-code')).rejects.toThrow(
+      'Invalid two-factor code',
+    );
+    expect(userRepo.update).not.toHaveBeenCalled();
+    expect(recoveryCodeRepo.delete).not.toHaveBeenCalled();
+  });
+
+  describe('sign-in challenges', () => {
+    it('closes the challenge once a code is accepted', async () => {
+      userRepo.findOne.mockResolvedValue(buildUser());
+
+      await service.redeemChallenge(
+        'user-1',
+        'challenge-1',
+        generateTotpCode(SECRET, totpStep()),
+      );
+
+      expect(userRepo.update).toHaveBeenLastCalledWith(
+        { id: 'user-1', totpChallengeId: 'challenge-1' },
+        { totpChallengeId: null, totpFailedAttempts: 0 },
+      );
+    });
+
+    it('refuses a challenge that was used or replaced', async () => {
+      userRepo.findOne.mockResolvedValue(buildUser({ totpChallengeId: null }));
+
+      await expect(
+        service.redeemChallenge(
+          'user-1',
+          'challenge-1',
+          generateTotpCode(SECRET, totpStep()),
+        ),
+      ).rejects.toThrow('Sign-in has expired, log in again');
+      expect(userRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('counts the attempt in one statement before checking the code', async () => {
+      userRepo.findOne.mockResolvedValue(buildUser());
+      countAttempt.mockResolvedValue({ raw: [{ totp_failed_attempts: 2 }] });
+      recoveryCodeRepo.update.mockResolvedValue({ affected: 0 });
+
+      await expect(
+        service.redeemChallenge('user-1', 'challenge-1', 'wrong-code'),
+      ).rejects.toThrow('Invalid two-factor code');
+      expect(attemptQuery.returning).toHaveBeenCalledWith(
+        'totp_failed_attempts',
+      );
+      expect(userRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('locks sign-in and drops the challenge on the last wrong code', async () => {
+      userRepo.findOne.mockResolvedValue(buildUser());
+      countAttempt.mockResolvedValue({
+        raw: [{ totp_failed_attempts: MAX_TWO_FACTOR_ATTEMPTS }],
+      });
+      recoveryCodeRepo.update.mockResolvedValue({ affected: 0 });
+
+      await expect(
+        service.redeemChallenge('user-1', 'challenge-1', 'wrong-code'),
+      ).rejects.toThrow('Too many wrong codes');
+
+      const [, changes] = userRepo.update.mock.calls[0] as [
+        unknown,
+        Partial<User>,
+      ];
+      expect(changes.totpChallengeId).toBeNull();
+      expect(changes.totpLockedUntil!.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('does not check codes from a concurrent batch past the limit', async () => {
+      userRepo.findOne.mockResolvedValue(buildUser());
+      countAttempt.mockResolvedValue({
+        raw: [{ totp_failed_attempts: MAX_TWO_FACTOR_ATTEMPTS + 1 }],
+      });
+
+      await expect(
+        service.redeemChallenge(
+          'user-1',
+          'challenge-1',
+          generateTotpCode(SECRET, totpStep()),
+        ),
+      ).rejects.toThrow('Too many wrong codes');
+      // Only the lock was written — the correct code never got accepted.
+      expect(userRepo.update).toHaveBeenCalledTimes(1);
+      expect(recoveryCodeRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('refuses when another request locked sign-in meanwhile', async () => {
+      userRepo.findOne.mockResolvedValue(buildUser());
+      countAttempt.mockResolvedValue({ raw: [] });
+
+      await expect(
+        service.redeemChallenge(
+          'user-1',
+          'challenge-1',
+          generateTotpCode(SECRET, totpStep()),
+        ),
+      ).rejects.toThrow('Too many wrong codes');
+      expect(userRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('turns away even a correct code while locked', async () => {
+      userRepo.findOne.mockResolvedValue(
+        buildUser({ totpLockedUntil: new Date(Date.now() + 60_000) }),
+      );
+
+      await expect(
+        service.redeemChallenge(
+          'user-1',
+          'challenge-1',
+          generateTotpCode(SECRET, totpStep()),
+        ),
+      ).rejects.toThrow('Too many wrong codes');
+      await expect(service.openChallenge('user-1')).rejects.toThrow(
+        'Too many wrong codes',
+      );
+      expect(countAttempt).not.toHaveBeenCalled();
+      expect(userRepo.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,302 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { IsNull, LessThan, Or, Repository } from 'typeorm';
+
+import { User } from './entities/user.entity';
+import { RecoveryCode } from './entities/recovery-code.entity';
+import {
+  base32Encode,
+  buildOtpauthUrl,
+  generateTotpSecret,
+  verifyTotpCode,
+} from './totp';
+
+export const RECOVERY_CODE_COUNT = 10;
+/** Wrong sign-in codes allowed before two-factor sign-in locks. */
+export const MAX_TWO_FACTOR_ATTEMPTS = 5;
+const TWO_FACTOR_LOCKOUT_MS = 15 * 60 * 1000;
+const TOTP_ISSUER = 'LinkLanka';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  /** Base32, for typing into an authenticator by hand. */
+  secret: string;
+  /** QR code payload. */
+  otpauthUrl: string;
+}
+
+function hashRecoveryCode(code: string): string {
+  const normalised = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return createHash('sha256').update(normalised).digest('hex');
+}
+
+/** Ten base32 characters as `xxxxx-xxxxx` — about 50 bits each. */
+function generateRecoveryCode(): string {
+  const raw = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+}
+
+@Injectable()
+export class TwoFactorService {
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepo: Repository<User>,
+    @InjectRepository(RecoveryCode)
+    private readonly recoveryCodeRepo: Repository<RecoveryCode>,
+  ) {}
+
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const user = await this.findUser(userId);
+    const recoveryCodesRemaining = user.totpEnabledAt
+      ? await this.recoveryCodeRepo.count({
+          where: { userId, usedAt: IsNull() },
+        })
+      : 0;
+    return { enabled: !!user.totpEnabledAt, recoveryCodesRemaining };
+  }
+
+  /**
+   * Generates a new secret to scan. Two-factor stays off until a code from
+   * it is confirmed, so an abandoned setup locks nobody out.
+   */
+  async beginSetup(userId: string): Promise<TwoFactorSetup> {
+    const user = await this.findUser(userId);
+    if (user.totpEnabledAt) {
+      throw new ConflictException('Two-factor authentication is already on');
+    }
+
+    const secret = generateTotpSecret();
+    await this.userRepo.update(
+      { id: userId },
+      { totpSecret: secret, totpLastStep: null },
+    );
+    return {
+      secret,
+      otpauthUrl: buildOtpauthUrl(secret, user.email, TOTP_ISSUER),
+    };
+  }
+
+  /** Turns two-factor on and returns the first set of recovery codes. */
+  async confirmSetup(userId: string, code: string): Promise<string[]> {
+    const user = await this.findUser(userId);
+    if (user.totpEnabledAt) {
+      throw new ConflictException('Two-factor authentication is already on');
+    }
+    if (!user.totpSecret) {
+      throw new BadRequestException('Start two-factor setup first');
+    }
+
+    const step = verifyTotpCode(user.totpSecret, code);
+    if (step === null) throw new BadRequestException('Invalid two-factor code');
+
+    await this.userRepo.update(
+      { id: userId },
+      { totpEnabledAt: new Date(), totpLastStep: step },
+    );
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  async disable(userId: string, code: string): Promise<void> {
+    await this.assertCode(userId, code);
+    await this.userRepo.update(
+      { id: userId },
+      {
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastStep: null,
+        totpChallengeId: null,
+        totpFailedAttempts: 0,
+        totpLockedUntil: null,
+      },
+    );
+    await this.recoveryCodeRepo.delete({ userId });
+  }
+
+  /** Issues a fresh set of recovery codes; the old ones stop working. */
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+  ): Promise<string[]> {
+    await this.assertCode(userId, code);
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  /**
+   * Accepts a current authenticator code or an unused recovery code and
+   * burns it, so neither works a second time.
+   */
+  async checkCode(userId: string, code: string): Promise<boolean> {
+    const user = await this.findUser(userId);
+    if (!user.totpEnabledAt || !user.totpSecret) return false;
+
+    const trimmed = code.trim();
+    if (/^\d{6}$/.test(trimmed)) {
+      const step = verifyTotpCode(user.totpSecret, trimmed);
+      if (step === null) return false;
+      const result = await this.userRepo.update(
+        { id: userId, totpLastStep: Or(IsNull(), LessThan(step)) },
+        { totpLastStep: step },
+      );
+      return !!result.affected;
+    }
+
+    const result = await this.recoveryCodeRepo.update(
+      { userId, codeHash: hashRecoveryCode(trimmed), usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    return !!result.affected;
+  }
+
+  /**
+   * Opens a sign-in challenge after the password checked out. Only the newest
+   * one can be completed, so earlier challenges stop working.
+   */
+  async openChallenge(userId: string): Promise<string> {
+    this.assertNotLocked(await this.findChallengeState(userId));
+
+    const challengeId = randomUUID();
+    await this.userRepo.update(
+      { id: userId },
+      { totpChallengeId: challengeId },
+    );
+    return challengeId;
+  }
+
+  /**
+   * Completes a sign-in challenge with a code. Wrong codes count against the
+   * account rather than the challenge, so logging in again buys no extra
+   * guesses; too many lock two-factor sign-in and drop the challenge.
+   */
+  async redeemChallenge(
+    userId: string,
+    challengeId: string,
+    code: string,
+  ): Promise<void> {
+    const user = await this.findChallengeState(userId);
+    this.assertNotLocked(user);
+    if (user.totpChallengeId !== challengeId) {
+      throw new UnauthorizedException('Sign-in has expired, log in again');
+    }
+
+    // The attempt is counted before the code is checked, so concurrent
+    // guesses can't all slip in under the same stale count.
+    const attempt = await this.countAttempt(userId);
+    if (attempt > MAX_TWO_FACTOR_ATTEMPTS) await this.lockSignIn(userId);
+    if (!(await this.checkCode(userId, code))) {
+      if (attempt >= MAX_TWO_FACTOR_ATTEMPTS) await this.lockSignIn(userId);
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    // Conditional so the same challenge can't be completed twice concurrently.
+    const result = await this.userRepo.update(
+      { id: userId, totpChallengeId: challengeId },
+      { totpChallengeId: null, totpFailedAttempts: 0 },
+    );
+    if (!result.affected) {
+      throw new UnauthorizedException('Sign-in has expired, log in again');
+    }
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────────
+
+  private async findUser(userId: string): Promise<User> {
+    const user = await this.userRepo.findOne({
+      where: { id: userId },
+      select: ['id', 'email', 'totpSecret', 'totpEnabledAt', 'totpLastStep'],
+    });
+    if (!user) throw new NotFoundException('User not found');
+    return user;
+  }
+
+  private async findChallengeState(userId: string): Promise<User> {
+    const user = await this.userRepo.findOne({
+      where: { id: userId },
+      select: ['id', 'totpChallengeId', 'totpLockedUntil'],
+    });
+    if (!user) throw new UnauthorizedException('Invalid challenge token');
+    return user;
+  }
+
+  /**
+   * Adds one to the failed-attempt count and returns the new value, in one
+   * statement. A lockout that has run out starts the count over.
+   */
+  private async countAttempt(userId: string): Promise<number> {
+    const result = await this.userRepo
+      .createQueryBuilder()
+      .update(User)
+      .set({
+        totpFailedAttempts: () =>
+          'CASE WHEN totp_locked_until IS NULL THEN totp_failed_attempts + 1 ELSE 1 END',
+        totpLockedUntil: null,
+      })
+      .where('id = :userId', { userId })
+      .andWhere('(totp_locked_until IS NULL OR totp_locked_until <= now())')
+      .returning('totp_failed_attempts')
+      .execute();
+    const [row] = result.raw as Array<{ totp_failed_attempts: number }>;
+    if (!row) throw this.lockedError();
+    return row.totp_failed_attempts;
+  }
+
+  /** Locks two-factor sign-in and drops the open challenge. */
+  private async lockSignIn(userId: string): Promise<never> {
+    await this.userRepo.update(
+      { id: userId },
+      {
+        totpChallengeId: null,
+        totpLockedUntil: new Date(Date.now() + TWO_FACTOR_LOCKOUT_MS),
+      },
+    );
+    throw this.lockedError();
+  }
+
+  private lockedError(): UnauthorizedException {
+    return new UnauthorizedException(
+      'Too many wrong codes, try again in 15 minutes',
+    );
+  }
+
+  private assertNotLocked(user: User): void {
+    if (user.totpLockedUntil && user.totpLockedUntil.getTime() > Date.now()) {
+      throw this.lockedError();
+    }
+  }
+
+  private async assertCode(userId: string, code: string): Promise<void> {
+    const user = await this.findUser(userId);
+    if (!user.totpEnabledAt) {
+      throw new BadRequestException('Two-factor authentication is off');
+    }
+    if (!(await this.checkCode(userId, code))) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+  }
+
+  private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+      generateRecoveryCode(),
+    );
+    await this.recoveryCodeRepo.delete({ userId });
+    await this.recoveryCodeRepo.save(
+      codes.map((code) =>
+        this.recoveryCodeRepo.create({
+          userId,
+          codeHash: hashRecoveryCode(code),
+        }),
+      ),
+    );
+    return codes;
+  }
+}
@@ -0,0 +1,74 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseEnumPipe,
+  ParseUUIDPipe,
+  Post,
+  Put,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+
+import { JwtAuthGuard } from '../../core/identity/guards/jwt-auth.guard';
+import { PlatformAdminGuard } from '../../core/identity/guards/platform-admin.guard';
+import { AdminService, type AdminUserView } from './admin.service';
+import { UpdateUserRoleDto } from './dto/update-user-role.dto';
+import {
+  MessageReportsService,
+  type MessageReportView,
+} from '../chat/message-reports.service';
+import { ReportStatus } from '../chat/entities/message-report.entity';
+import { ResolveMessageReportDto } from '../chat/dto/resolve-message-report.dto';
+
+interface AuthRequest {
+  user: { sub: string; email: string };
+}
+
+/** Platform-wide moderation. Every route requires the `admin` user role. */
+@Controller('admin')
+@UseGuards(JwtAuthGuard, PlatformAdminGuard)
+export class AdminController {
+  constructor(
+    private readonly adminService: AdminService,
+    private readonly messageReportsService: MessageReportsService,
+  ) {}
+
+  /** GET /admin/reports?status=OPEN — every conversation, DMs included. */
+  @Get('reports')
+  async findReports(
+    @Query('status', new ParseEnumPipe(ReportStatus, { optional: true }))
+    status: ReportStatus | undefined,
+  ): Promise<MessageReportView[]> {
+    return this.messageReportsService.findAllReports(status);
+  }
+
+  /** POST /admin/reports/:id/resolve — same actions as group admins have. */
+  @Post('reports/:id/resolve')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async resolveReport(
+    @Param('id', ParseUUIDPipe) reportId: string,
+    @Body() dto: ResolveMessageReportDto,
+    @Request() req: AuthRequest,
+  ): Promise<void> {
+    await this.messageReportsService.resolveReport(
+      reportId,
+      req.user.sub,
+      dto.action,
+    );
+  }
+
+  /** PUT /admin/users/:id/role — grant or revoke platform admin. */
+  @Put('users/:id/role')
+  async setUserRole(
+    @Param('id', ParseUUIDPipe) userId: string,
+    @Body() dto: UpdateUserRoleDto,
+    @Request() req: AuthRequest,
+  ): Promise<AdminUserView> {
+    return this.adminService.setUserRole(userId, req.user.sub, dto.role);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { AdminController } from './admin.controller';
+import { AdminService } from './admin.service';
+import { ChatModule } from '../chat/chat.module';
+import { User } from '../../core/identity/entities/user.entity';
+import { PlatformAdminGuard } from '../../core/identity/guards/platform-admin.guard';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([User]), ChatModule],
+  controllers: [AdminController],
+  providers: [AdminService, PlatformAdminGuard],
+})
+export class AdminModule {}
@@ -0,0 +1,50 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { User, UserRole } from '../../core/identity/entities/user.entity';
+
+export interface AdminUserView {
+  id: string;
+  email: string;
+  displayName: string;
+  role: UserRole;
+}
+
+@Injectable()
+export class AdminService {
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+  ) {}
+
+  /** Admins can't demote themselves, so the platform always keeps one. */
+  async setUserRole(
+    targetUserId: string,
+    requesterId: string,
+    role: UserRole,
+  ): Promise<AdminUserView> {
+    if (targetUserId === requesterId && role !== UserRole.ADMIN) {
+      throw new BadRequestException('You cannot remove your own admin role');
+    }
+
+    const user = await this.userRepository.findOne({
+      where: { id: targetUserId },
+    });
+    if (!user) throw new NotFoundException('User not found');
+
+    if (user.role !== role) {
+      await this.userRepository.update(user.id, { role });
+    }
+    return {
+      id: user.id,
+      email: user.email,
+      displayName: user.displayName,
+      role,
+    };
+  }
+}
@@ -0,0 +1,8 @@
+import { IsEnum } from 'class-validator';
+
+import { UserRole } from '../../../core/identity/entities/user.entity';
+
+export class UpdateUserRoleDto {
+  @IsEnum(UserRole, { message: 'role must be one of: user, admin' })
+  role!: UserRole;
+}
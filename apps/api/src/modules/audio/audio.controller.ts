@@ -2,6 +2,7 @@ import {
   BadRequestException,
   Body,
   Controller,
+  ForbiddenException,
   HttpCode,
   HttpStatus,
   Logger,
@@ -9,12 +10,13 @@ import {
   Request,
   UseGuards,
 } from '@nestjs/common';
+import { isUUID } from 'class-validator';
 
 import { JwtAuthGuard } from '../../core/identity/guards/jwt-auth.guard';
 import { GroupsService } from '../groups/groups.service';
 import { PersonalContextService } from '../personal-context/personal-context.service';
 import { TranslationService } from '../translation/translation.service';
-import { ChatService } from '../chat/chat.service';
+import { ChatService, ReplyPreview } from '../chat/chat.service';
 import { ChatGateway } from '../chat/chat.gateway';
 import { MessageContentType } from '../chat/entities/message.entity';
 import { AudioService } from './audio.service';
@@ -36,6 +38,8 @@ interface ProcessAudioDto {
   timezone?: unknown;
   /** Audio track duration in milliseconds */
   durationMs?: unknown;
+  /** Id of the message this voice note replies to */
+  replyToId?: unknown;
 }
 
 /** Shape returned to the caller on success (Phase 1 — immediate response) */
@@ -124,6 +128,15 @@ export class AudioController {
         'clientTempId must be a non-empty string when provided',
       );
     }
+    if (
+      body.replyToId !== undefined &&
+      body.replyToId !== null &&
+      (typeof body.replyToId !== 'string' || !isUUID(body.replyToId.trim()))
+    ) {
+      throw new BadRequestException(
+        'replyToId must be a message id when provided',
+      );
+    }
 
     const groupId = body.groupId.trim();
     const audioBase64 = body.audioBase64.trim();
@@ -137,6 +150,31 @@ export class AudioController {
     if (!isMember) {
       throw new BadRequestException('You are not a member of this group');
     }
+    if (await this.groupsService.isDmBlocked(groupId, userId)) {
+      throw new ForbiddenException('You cannot send messages in this chat');
+    }
+    if (await this.groupsService.isPostingRestricted(groupId, userId)) {
+      throw new ForbiddenException(
+        'Only admins can send messages in this group',
+      );
+    }
+
+    const replyToId =
+      typeof body.replyToId === 'string' ? body.replyToId.trim() : null;
+    let replyTo: ReplyPreview | null = null;
+    if (replyToId) {
+      try {
+        const target = await this.chatService.resolveReplyTarget(
+          groupId,
+          replyToId,
+        );
+        replyTo = this.chatService.buildReplyPreview(target.id, target);
+      } catch (error) {
+        throw new BadRequestException(
+          error instanceof Error ? error.message : 'Reply target is invalid',
+        );
+      }
+    }
 
     // ── 3. Persist audio to S3 ────────────────────────────────────────────
     this.logger.log(
@@ -164,6 +202,9 @@ export class AudioController {
       null, // translations — filled in Phase 2
       null, // confidenceScore — filled in Phase 2
       null, // extractedActions — filled in Phase 2
+      null, // clientTempId
+      null, // fileName
+      replyToId,
     );
 
     this.logger.log(
@@ -185,6 +226,8 @@ export class AudioController {
       translations: null,
       confidenceScore: null,
       extractedActions: null,
+      replyToId,
+      replyTo,
     });
 
     // ── 6. Kick off Phase 2 asynchronously ────────────────────────────────
@@ -0,0 +1,69 @@
+import { ActivityEntry, ChatActivityRegistry } from './chat-activity.registry';
+
+describe('ChatActivityRegistry', () => {
+  let registry: ChatActivityRegistry;
+
+  const typing: ActivityEntry = {
+    socketId: 'socket-1',
+    groupId: 'group-1',
+    userId: 'user-1',
+    displayName: 'Kasun',
+    activity: 'typing',
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    registry = new ChatActivityRegistry();
+  });
+
+  afterEach(() => {
+    registry.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  it('expires an indicator that is not refreshed', () => {
+    const onExpire = jest.fn();
+    registry.start(typing, onExpire);
+
+    jest.advanceTimersByTime(6_000);
+
+    expect(onExpire).toHaveBeenCalledWith(typing);
+    expect(registry.stop('socket-1', 'group-1')).toBeNull();
+  });
+
+  it('keeps an indicator alive while it is refreshed', () => {
+    const onExpire = jest.fn();
+    registry.start(typing, onExpire);
+    jest.advanceTimersByTime(4_000);
+    registry.start(typing, onExpire);
+    jest.advanceTimersByTime(4_000);
+
+    expect(onExpire).not.toHaveBeenCalled();
+  });
+
+  it('only stops the matching activity', () => {
+    registry.start(typing, jest.fn());
+
+    expect(registry.stop('socket-1', 'group-1', 'recording')).toBeNull();
+    expect(registry.stop('socket-1', 'group-1', 'typing')).toEqual(typing);
+  });
+
+  it('removes every indicator of a disconnected socket', () => {
+    const onExpire = jest.fn();
+    registry.start(typing, onExpire);
+    registry.start(
+      { ...typing, groupId: 'group-2', activity: 'recording' },
+      onExpire,
+    );
+    registry.start({ ...typing, socketId: 'socket-2' }, onExpire);
+
+    const removed = registry.removeSocket('socket-1');
+
+    expect(removed.map((e) => e.groupId).sort()).toEqual([
+      'group-1',
+      'group-2',
+    ]);
+    jest.advanceTimersByTime(15_000);
+    expect(onExpire).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,103 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+
+export type ChatActivity = 'typing' | 'recording';
+
+export interface ActivityEntry {
+  socketId: string;
+  groupId: string;
+  userId: string;
+  displayName: string;
+  activity: ChatActivity;
+}
+
+/**
+ * How long an indicator survives without a refresh. Clients re-send the
+ * start event while the activity continues; recording gets a longer window
+ * because the client only refreshes it every few seconds while holding the
+ * mic button.
+ */
+const ACTIVITY_TTL_MS: Record<ChatActivity, number> = {
+  typing: 6_000,
+  recording: 15_000,
+};
+
+/**
+ * In-memory store of live typing/recording indicators, keyed per socket and
+ * room so one user on two devices shows up once per device and a dropped
+ * socket can be cleaned up without touching the user's other connections.
+ */
+@Injectable()
+export class ChatActivityRegistry implements OnModuleDestroy {
+  private readonly entries = new Map<
+    string,
+    ActivityEntry & { timer: ReturnType<typeof setTimeout> }
+  >();
+
+  /**
+   * Starts or refreshes an indicator, replacing any other activity the
+   * socket had in that room. `onExpire` runs if the indicator isn't
+   * refreshed or stopped in time.
+   */
+  start(entry: ActivityEntry, onExpire: (entry: ActivityEntry) => void): void {
+    const key = this.key(entry.socketId, entry.groupId);
+    const existing = this.entries.get(key);
+    if (existing) clearTimeout(existing.timer);
+
+    const timer = setTimeout(() => {
+      this.entries.delete(key);
+      onExpire(entry);
+    }, ACTIVITY_TTL_MS[entry.activity]);
+    timer.unref?.();
+
+    this.entries.set(key, { ...entry, timer });
+  }
+
+  /** Clears the indicator for one socket in one room, if it matches. */
+  stop(
+    socketId: string,
+    groupId: string,
+    activity?: ChatActivity,
+  ): ActivityEntry | null {
+    const key = this.key(socketId, groupId);
+    const existing = this.entries.get(key);
+    if (!existing) return null;
+    if (activity && existing.activity !== activity) return null;
+
+    clearTimeout(existing.timer);
+    this.entries.delete(key);
+    return this.toEntry(existing);
+  }
+
+  /** Clears every indicator owned by a socket — used on disconnect. */
+  removeSocket(socketId: string): ActivityEntry[] {
+    const removed: ActivityEntry[] = [];
+    for (const [key, entry] of this.entries) {
+      if (entry.socketId !== socketId) continue;
+      clearTimeout(entry.timer);
+      this.entries.delete(key);
+      removed.push(this.toEntry(entry));
+    }
+    return removed;
+  }
+
+  onModuleDestroy(): void {
+    for (const entry of this.entries.values()) clearTimeout(entry.timer);
+    this.entries.clear();
+  }
+
+  private key(socketId: string, groupId: string): string {
+    return `${socketId}:${groupId}`;
+  }
+
+  private toEntry(
+    entry: ActivityEntry & { timer: ReturnType<typeof setTimeout> },
+  ): ActivityEntry {
+    return {
+      socketId: entry.socketId,
+      groupId: entry.groupId,
+      userId: entry.userId,
+      displayName: entry.displayName,
+      activity: entry.activity,
+    };
+  }
+}
@@ -3,8 +3,11 @@ import * as path from 'path';
 import {
   BadRequestException,
   Controller,
+  Delete,
   ForbiddenException,
   Get,
+  HttpCode,
+  HttpStatus,
   Logger,
   NotFoundException,
   Param,
@@ -13,10 +16,17 @@ import {
   Request,
   UseGuards,
 } from '@nestjs/common';
+import { isUUID } from 'class-validator';
 
 import { JwtAuthGuard } from '../../core/identity/guards/jwt-auth.guard';
-import { ChatService } from './chat.service';
-import { Message, MessageContentType } from './entities/message.entity';
+import {
+  ChatHistoryMessage,
+  ChatService,
+  StarredMessageView,
+} from './chat.service';
+import { ChatGateway } from './chat.gateway';
+import { MessageContentType } from './entities/message.entity';
+import { PollResults, PollsService } from './polls.service';
 import { GroupsService } from '../groups/groups.service';
 import { PersonalContextService } from '../personal-context/personal-context.service';
 import {
@@ -27,6 +37,11 @@ import {
 } from '../translation/translation.service';
 import { S3StorageService } from '../../core/common/storage/s3-storage.service';
 
+const DEFAULT_STARRED_PAGE_SIZE = 30;
+const MAX_STARRED_PAGE_SIZE = 50;
+const MAX_SEARCH_CONVERSATIONS = 50;
+const MAX_SEARCH_HITS_PER_CONVERSATION = 10;
+
 interface AuthRequest {
   user: { sub: string; email: string };
 }
@@ -51,6 +66,8 @@ export class ChatController {
     private readonly personalContextService: PersonalContextService,
     private readonly translationService: TranslationService,
     private readonly s3StorageService: S3StorageService,
+    private readonly pollsService: PollsService,
+    private readonly chatGateway: ChatGateway,
   ) {}
 
   @Get('groups/:groupId/messages')
@@ -60,7 +77,7 @@ export class ChatController {
     @Query('limit') limit: string = '50',
     @Query('before') before?: string,
     @Request() req?: AuthRequest,
-  ): Promise<Message[]> {
+  ): Promise<ChatHistoryMessage[]> {
     const isMember = await this.groupsService.isMember(groupId, req!.user.sub);
     if (!isMember) {
       throw new ForbiddenException('You are not a member of this conversation');
@@ -92,7 +109,7 @@ export class ChatController {
   async getAllGroupMessages(
     @Param('groupId') groupId: string,
     @Request() req?: AuthRequest,
-  ): Promise<Message[]> {
+  ): Promise<ChatHistoryMessage[]> {
     const isMember = await this.groupsService.isMember(groupId, req!.user.sub);
     if (!isMember) {
       throw new ForbiddenException('You are not a member of this conversation');
@@ -106,6 +123,104 @@ export class ChatController {
     return this.hydrateMessageMediaUrls(messages);
   }
 
+  /**
+   * GET /chat/starred — the caller's saved messages across all conversations,
+   * newest star first. Filter with `contentType` and `groupId`; page with
+   * `before` set to the last item's `starredAt`.
+   */
+  @Get('starred')
+  async getStarredMessages(
+    @Request() req: AuthRequest,
+    @Query('contentType') contentType?: string,
+    @Query('groupId') groupId?: string,
+    @Query('before') before?: string,
+    @Query('limit') limit?: string,
+  ): Promise<StarredMessageView[]> {
+    if (
+      contentType &&
+      !Object.values(MessageContentType).includes(
+        contentType as MessageContentType,
+      )
+    ) {
+      throw new BadRequestException(
+        `contentType must be one of: ${Object.values(MessageContentType).join(', ')}`,
+      );
+    }
+    if (groupId && !isUUID(groupId)) {
+      throw new BadRequestException('groupId must be a UUID');
+    }
+    const beforeDate = before ? new Date(before) : undefined;
+    if (beforeDate && Number.isNaN(beforeDate.getTime())) {
+      throw new BadRequestException('before must be an ISO date');
+    }
+
+    const stars = await this.chatService.getStarredMessages(req.user.sub, {
+      contentType: (contentType as MessageContentType) || undefined,
+      groupId: groupId || undefined,
+      before: beforeDate,
+      limit: Math.min(
+        Math.max(parseInt(limit ?? '', 10) || DEFAULT_STARRED_PAGE_SIZE, 1),
+        MAX_STARRED_PAGE_SIZE,
+      ),
+    });
+
+    return Promise.all(
+      stars.map(async (star) => ({
+        ...(await this.hydrateSingleMessageMediaUrls(star)),
+        starredAt: star.starredAt,
+        preferredLanguage: star.preferredLanguage,
+      })),
+    );
+  }
+
+  /** POST /chat/messages/:messageId/star — save a message. Idempotent. */
+  @Post('messages/:messageId/star')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async starMessage(
+    @Param('messageId') messageId: string,
+    @Request() req: AuthRequest,
+  ): Promise<void> {
+    const groupId = await this.assertCanSeeMessage(messageId, req.user.sub);
+    await this.chatService.starMessage(messageId, req.user.sub);
+    this.chatGateway.notifyStarChanged(req.user.sub, {
+      messageId,
+      groupId,
+      isStarred: true,
+    });
+  }
+
+  /** DELETE /chat/messages/:messageId/star — remove a message from saved. */
+  @Delete('messages/:messageId/star')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async unstarMessage(
+    @Param('messageId') messageId: string,
+    @Request() req: AuthRequest,
+  ): Promise<void> {
+    const groupId = await this.assertCanSeeMessage(messageId, req.user.sub);
+    await this.chatService.unstarMessage(messageId, req.user.sub);
+    this.chatGateway.notifyStarChanged(req.user.sub, {
+      messageId,
+      groupId,
+      isStarred: false,
+    });
+  }
+
+  /** Returns the message's conversation once the caller is known to be in it. */
+  private async assertCanSeeMessage(
+    messageId: string,
+    userId: string,
+  ): Promise<string> {
+    if (!isUUID(messageId)) throw new NotFoundException('Message not found');
+    const message = await this.chatService.findMessageById(messageId);
+    if (!message) throw new NotFoundException('Message not found');
+
+    const isMember = await this.groupsService.isMember(message.groupId, userId);
+    if (!isMember) {
+      throw new ForbiddenException('You are not a member of this conversation');
+    }
+    return message.groupId;
+  }
+
   @Post('messages/:messageId/retranslate')
   async retranslateMessage(
     @Param('messageId') messageId: string,
@@ -116,6 +231,8 @@ export class ChatController {
     detectedLanguage: DetectedLanguage | null;
     originalTone: string | null;
     translatedAudioUrls: TranslatedAudioUrls | null;
+    /** Set for POLL messages — option translations are refreshed too. */
+    poll?: PollResults;
   }> {
     const userId = req.user.sub;
 
@@ -138,9 +255,27 @@ export class ChatController {
     };
 
     let translatedAudioUrls: TranslatedAudioUrls | null = null;
+    let poll: PollResults | undefined;
 
     try {
-      if (message.contentType === MessageContentType.TEXT) {
+      if (message.contentType === MessageContentType.POLL) {
+        const current = await this.pollsService.getResults(message.id);
+        const pollResult = await this.translationService.translatePoll({
+          question: message.rawContent,
+          options: current.options.map((o) => o.text),
+          userDictionary,
+        });
+        poll = await this.pollsService.saveOptionTranslations(
+          message.id,
+          pollResult.options,
+        );
+        result = {
+          translations: pollResult.question,
+          confidenceScore: pollResult.confidenceScore,
+          detectedLanguage: pollResult.detectedLanguage,
+          originalTone: message.originalTone ?? 'neutral',
+        };
+      } else if (message.contentType === MessageContentType.TEXT) {
         result = await this.translationService.translateIntent({
           rawText: message.rawContent,
           chatHistory: [],
@@ -226,20 +361,21 @@ export class ChatController {
       detectedLanguage: result.detectedLanguage,
       originalTone: result.originalTone,
       translatedAudioUrls: signedTranslatedAudioUrls,
+      ...(poll && { poll }),
     };
   }
 
   private async hydrateMessageMediaUrls(
-    messages: Message[],
-  ): Promise<Message[]> {
+    messages: ChatHistoryMessage[],
+  ): Promise<ChatHistoryMessage[]> {
     return Promise.all(
       messages.map((message) => this.hydrateSingleMessageMediaUrls(message)),
     );
   }
 
   private async hydrateSingleMessageMediaUrls(
-    message: Message,
-  ): Promise<Message> {
+    message: ChatHistoryMessage,
+  ): Promise<ChatHistoryMessage> {
     const isMediaMessage =
       message.contentType === MessageContentType.AUDIO ||
       message.contentType === MessageContentType.IMAGE ||
@@ -372,6 +508,69 @@ export class ChatController {
     }
   }
 
+  /**
+   * GET /chat/search?q=&senderId=&contentType=&from=&to=&page=&limit=&perConversation=
+   * Searches every conversation the user is in; results come grouped by
+   * conversation, newest match first.
+   */
+  @Get('search')
+  async searchAllMessages(
+    @Request() req: AuthRequest,
+    @Query('q') query?: string,
+    @Query('senderId') senderId?: string,
+    @Query('contentType') contentType?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+    @Query('perConversation') perConversation?: string,
+  ) {
+    if (!query || !query.trim()) {
+      return { conversations: [], totalConversations: 0, total: 0 };
+    }
+    if (
+      contentType &&
+      !Object.values(MessageContentType).includes(
+        contentType as MessageContentType,
+      )
+    ) {
+      throw new BadRequestException(
+        `contentType must be one of: ${Object.values(MessageContentType).join(', ')}`,
+      );
+    }
+    if (senderId && !isUUID(senderId)) {
+      throw new BadRequestException('senderId must be a UUID');
+    }
+    const fromDate = from ? new Date(from) : undefined;
+    if (fromDate && Number.isNaN(fromDate.getTime())) {
+      throw new BadRequestException('from must be an ISO date');
+    }
+    const toDate = to ? new Date(to) : undefined;
+    if (toDate && Number.isNaN(toDate.getTime())) {
+      throw new BadRequestException('to must be an ISO date');
+    }
+
+    return this.chatService.searchAllMessages(
+      req.user.sub,
+      query.trim(),
+      {
+        senderId: senderId || undefined,
+        contentType: (contentType as MessageContentType) || undefined,
+        from: fromDate,
+        to: toDate,
+      },
+      Math.max(parseInt(page ?? '', 10) || 1, 1),
+      Math.min(
+        Math.max(parseInt(limit ?? '', 10) || 20, 1),
+        MAX_SEARCH_CONVERSATIONS,
+      ),
+      Math.min(
+        Math.max(parseInt(perConversation ?? '', 10) || 3, 1),
+        MAX_SEARCH_HITS_PER_CONVERSATION,
+      ),
+    );
+  }
+
   @Get('groups/:groupId/search')
   async searchMessages(
     @Param('groupId') groupId: string,
@@ -0,0 +1,139 @@
+import { JwtService } from '@nestjs/jwt';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Server, Socket } from 'socket.io';
+
+import { ChatGateway } from './chat.gateway';
+import { ChatService } from './chat.service';
+import { ChatActivityRegistry } from './chat-activity.registry';
+import { LinkPreviewService } from './link-preview.service';
+import { PollsService } from './polls.service';
+import { TranslationService } from '../translation/translation.service';
+import { ActionService } from '../actions/action.service';
+import { PersonalContextService } from '../personal-context/personal-context.service';
+import { GroupsService } from '../groups/groups.service';
+import { PresenceRegistry } from '../groups/presence.registry';
+import { NotificationService } from '../notification/notification.service';
+import { S3StorageService } from '../../core/common/storage/s3-storage.service';
+import { SessionsService } from '../../core/identity/sessions.service';
+
+describe('ChatGateway', () => {
+  let gateway: ChatGateway;
+  let groupsService: {
+    findBlockerIds: jest.Mock;
+    findMembersWithTokens: jest.Mock;
+    isMember: jest.Mock;
+    getDisplayName: jest.Mock;
+  };
+  let activityRegistry: { start: jest.Mock; stop: jest.Mock };
+  let room: { except: jest.Mock; emit: jest.Mock };
+  let exceptRoom: { except: jest.Mock; emit: jest.Mock };
+  let server: { to: jest.Mock; in: jest.Mock };
+
+  const translation = {
+    messageId: 'msg-1',
+    transcription: null,
+    translations: {
+      english: 'See you at nine',
+      singlish: 'Nawayata hambemu',
+      tanglish: 'Onbathu manikku sandhippom',
+    },
+    confidenceScore: 0.9,
+  };
+
+  beforeEach(async () => {
+    groupsService = {
+      findBlockerIds: jest.fn().mockResolvedValue([]),
+      findMembersWithTokens: jest.fn().mockResolvedValue([]),
+      isMember: jest.fn().mockResolvedValue(true),
+      getDisplayName: jest.fn().mockResolvedValue('Kasun'),
+    };
+    activityRegistry = { start: jest.fn(), stop: jest.fn() };
+    exceptRoom = { except: jest.fn(), emit: jest.fn() };
+    exceptRoom.except.mockReturnValue(exceptRoom);
+    room = { except: jest.fn().mockReturnValue(exceptRoom), emit: jest.fn() };
+    server = {
+      to: jest.fn().mockReturnValue(room),
+      in: jest.fn().mockReturnValue({
+        fetchSockets: jest.fn().mockResolvedValue([]),
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ChatGateway,
+        { provide: ChatService, useValue: {} },
+        { provide: GroupsService, useValue: groupsService },
+        { provide: JwtService, useValue: {} },
+        { provide: PersonalContextService, useValue: {} },
+        { provide: TranslationService, useValue: {} },
+        { provide: ActionService, useValue: {} },
+        { provide: NotificationService, useValue: {} },
+        { provide: S3StorageService, useValue: {} },
+        { provide: ChatActivityRegistry, useValue: activityRegistry },
+        { provide: PresenceRegistry, useValue: {} },
+        { provide: PollsService, useValue: {} },
+        { provide: LinkPreviewService, useValue: {} },
+        { provide: SessionsService, useValue: {} },
+      ],
+    }).compile();
+
+    gateway = module.get(ChatGateway);
+    gateway.server = server as unknown as Server;
+  });
+
+  it('keeps a translated message away from members who blocked its sender', async () => {
+    groupsService.findBlockerIds.mockResolvedValue(['blocker-1']);
+
+    await gateway.broadcastTranslationUpdate(
+      'group-1',
+      'sender-1',
+      translation,
+      'See you at nine',
+    );
+
+    expect(groupsService.findBlockerIds).toHaveBeenCalledWith('sender-1');
+    expect(server.to).toHaveBeenCalledWith('group-1');
+    expect(room.except).toHaveBeenCalledWith(['user:blocker-1']);
+    expect(exceptRoom.emit).toHaveBeenCalledWith(
+      'messageTranslated',
+      expect.objectContaining({ messageId: 'msg-1' }),
+    );
+    expect(room.emit).not.toHaveBeenCalled();
+  });
+
+  it('broadcasts to the whole room when nobody blocked the sender', async () => {
+    await gateway.broadcastTranslationUpdate(
+      'group-1',
+      'sender-1',
+      translation,
+      'See you at nine',
+    );
+
+    expect(room.except).not.toHaveBeenCalled();
+    expect(room.emit).toHaveBeenCalledWith(
+      'messageTranslated',
+      expect.objectContaining({ messageId: 'msg-1' }),
+    );
+  });
+
+  it('hides typing from members who blocked the typist', async () => {
+    groupsService.findBlockerIds.mockResolvedValue(['blocker-1']);
+    const client = {
+      id: 'socket-1',
+      rooms: new Set(['group-1']),
+      user: { sub: 'sender-1' },
+    };
+
+    await gateway.handleTypingStart(client as unknown as Socket, {
+      groupId: 'group-1',
+    });
+
+    expect(room.except).toHaveBeenCalledWith(['user:blocker-1']);
+    expect(exceptRoom.except).toHaveBeenCalledWith('socket-1');
+    expect(exceptRoom.emit).toHaveBeenCalledWith(
+      'userActivity',
+      expect.objectContaining({ userId: 'sender-1', activity: 'typing' }),
+    );
+    expect(room.emit).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,5 @@
 import { JwtService } from '@nestjs/jwt';
-import { Logger, UseFilters, UseGuards } from '@nestjs/common';
+import { Logger, OnModuleInit, UseFilters, UseGuards } from '@nestjs/common';
 import {
   ConnectedSocket,
   MessageBody,
@@ -11,12 +11,31 @@ import {
   WsException,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
+import { isUUID } from 'class-validator';
 
-import { ChatService } from './chat.service';
+import { ChatService, ReplyPreview } from './chat.service';
+import {
+  ActivityEntry,
+  ChatActivity,
+  ChatActivityRegistry,
+} from './chat-activity.registry';
+import {
+  ParsedMention,
+  parseMentions,
+  preserveMentionTokens,
+} from './mentions';
+import {
+  CreatePollInput,
+  MAX_POLL_OPTIONS,
+  PollsService,
+} from './polls.service';
+import { LinkPreviewService } from './link-preview.service';
+import { extractFirstUrl } from './link-preview';
 import { TranslationService } from '../translation/translation.service';
 import { ActionService } from '../actions/action.service';
 import { PersonalContextService } from '../personal-context/personal-context.service';
 import { GroupsService } from '../groups/groups.service';
+import { PresenceRegistry } from '../groups/presence.registry';
 import { NotificationService } from '../notification/notification.service';
 import {
   AuthenticatedSocket,
@@ -24,6 +43,14 @@ import {
   WsUserPayload,
 } from './guards/ws-jwt.guard';
 import { Message, MessageContentType } from './entities/message.entity';
+import {
+  MessageRetention,
+  RevisionVisibility,
+} from './entities/chat-group.entity';
+import {
+  GroupMemberRole,
+  hasModeratorRights,
+} from './entities/group-member.entity';
 import { WsAllExceptionsFilter } from '../../core/common/filters/ws-all-exceptions.filter';
 import {
   DetectedLanguage,
@@ -32,11 +59,19 @@ import {
   TranslatedAudioUrls,
 } from '../translation/translation.service';
 import { S3StorageService } from '../../core/common/storage/s3-storage.service';
+import { SessionsService } from '../../core/identity/sessions.service';
 import {
   convertExcelToCsv,
   isExcelMimeType,
 } from '../../core/common/converters/excel-to-csv.converter';
 
+/** Longest emoji sequence accepted (ZWJ family/flag sequences included). */
+const MAX_REACTION_EMOJI_LENGTH = 32;
+
+/** Caps keep a single forward from flooding many conversations at once. */
+const MAX_FORWARD_MESSAGES = 30;
+const MAX_FORWARD_TARGETS = 5;
+
 interface JoinRoomPayload {
   groupId: string;
 }
@@ -46,7 +81,7 @@ interface RawJoinRoomPayload {
   group_id?: unknown;
 }
 
-interface SendMessagePayload {
+export interface SendMessagePayload {
   groupId: string;
   clientTempId?: string;
   nativeDialect: string;
@@ -58,6 +93,8 @@ interface SendMessagePayload {
   fileUrl?: string;
   fileMimeType?: string;
   fileName?: string;
+  /** Id of the message being replied to (same group only). */
+  replyToId?: string;
   /** IANA timezone name of the sender's device, e.g. "Asia/Colombo" */
   timezone?: string;
 }
@@ -78,6 +115,49 @@ interface EditMessagePayload {
   newContent: string;
 }
 
+interface ReactionPayload {
+  groupId: string;
+  messageId: string;
+  emoji: string;
+}
+
+interface ActivityPayload {
+  groupId: string;
+}
+
+interface CreatePollPayload {
+  groupId: string;
+  clientTempId?: string;
+  question: string;
+  options: string[];
+  allowsMultiple?: boolean;
+  isAnonymous?: boolean;
+  /** ISO timestamp. Omitted or null keeps the poll open until closed. */
+  closesAt?: string | null;
+}
+
+interface VotePollPayload {
+  groupId: string;
+  messageId: string;
+  /** The voter's complete selection — an empty list retracts the vote. */
+  optionIds: string[];
+}
+
+interface ClosePollPayload {
+  groupId: string;
+  messageId: string;
+}
+
+interface ForwardMessagesPayload {
+  messageIds: string[];
+  targetGroupIds: string[];
+}
+
+interface MarkReadPayload {
+  groupId: string;
+  messageId: string;
+}
+
 interface RawSendMessagePayload {
   groupId?: unknown;
   group_id?: unknown;
@@ -99,6 +179,8 @@ interface RawSendMessagePayload {
   file_mime_type?: unknown;
   fileName?: unknown;
   file_name?: unknown;
+  replyToId?: unknown;
+  reply_to_id?: unknown;
   timezone?: unknown;
 }
 
@@ -108,7 +190,9 @@ interface SignedReadUrlCreator {
 
 @UseFilters(new WsAllExceptionsFilter())
 @WebSocketGateway({ cors: { origin: '*' } })
-export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
+export class ChatGateway
+  implements OnGatewayConnection, OnGatewayDisconnect, OnModuleInit
+{
   @WebSocketServer()
   server!: Server;
 
@@ -123,8 +207,23 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
     private readonly actionService: ActionService,
     private readonly notificationService: NotificationService,
     private readonly s3StorageService: S3StorageService,
+    private readonly activityRegistry: ChatActivityRegistry,
+    private readonly presenceRegistry: PresenceRegistry,
+    private readonly pollsService: PollsService,
+    private readonly linkPreviewService: LinkPreviewService,
+    private readonly sessionsService: SessionsService,
   ) {}
 
+  onModuleInit(): void {
+    // A revoked device loses its live connection right away, not just its
+    // next request.
+    this.sessionsService.onRevoked((sessionIds) => {
+      for (const sessionId of sessionIds) {
+        this.server.in(this.sessionRoom(sessionId)).disconnectSockets(true);
+      }
+    });
+  }
+
   async handleConnection(client: AuthenticatedSocket): Promise<void> {
     const token: string | null = this.extractToken(client);
 
@@ -142,8 +241,17 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
     try {
       const payload: WsUserPayload =
         await this.jwtService.verifyAsync<WsUserPayload>(token);
+      if (!payload.sid || !(await this.sessionsService.isActive(payload.sid))) {
+        throw new Error('Session has been revoked');
+      }
       client.user = payload;
-      await client.join(this.userRoom(payload.sub));
+      await client.join([
+        this.userRoom(payload.sub),
+        this.sessionRoom(payload.sid),
+      ]);
+      if (this.presenceRegistry.connect(payload.sub, client.id)) {
+        this.handlePresenceChange(payload.sub);
+      }
       this.logger.log(
         `Socket connected: ${client.id}, userId=${payload.sub}, email=${payload.email}`,
       );
@@ -159,7 +267,16 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
     }
   }
 
-  handleDisconnect(): void {
+  handleDisconnect(client: Socket): void {
+    // Expire indicators immediately instead of waiting for their TTL.
+    for (const entry of this.activityRegistry.removeSocket(client.id)) {
+      this.broadcastActivityStopped(entry);
+    }
+
+    const userId = (client as AuthenticatedSocket).user?.sub;
+    if (userId && this.presenceRegistry.disconnect(userId, client.id)) {
+      this.handlePresenceChange(userId);
+    }
     this.logger.log('Socket disconnected');
   }
 
@@ -224,6 +341,7 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
     }
 
     await client.leave(normalizedPayload.groupId);
+    this.clearActivity(client, normalizedPayload.groupId);
     this.logger.log(
       `Socket ${client.id} left room ${normalizedPayload.groupId}`,
     );
@@ -256,10 +374,6 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       `sendMessage received: userId=${userId}, groupId=${normalizedPayload.groupId}, contentType=${normalizedPayload.contentType}`,
     );
 
-    const isMedia: boolean =
-      normalizedPayload.contentType === MessageContentType.IMAGE ||
-      normalizedPayload.contentType === MessageContentType.DOCUMENT;
-
     if (normalizedPayload.contentType === MessageContentType.AUDIO) {
       // Audio messages are now processed via the dedicated REST endpoint
       // POST /audio/process — which handles save → silence check → transcription → persist → broadcast.
@@ -273,6 +387,63 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       );
     }
 
+    if (
+      await this.groupsService.isDmBlocked(normalizedPayload.groupId, userId)
+    ) {
+      const reason = 'You cannot send messages in this chat';
+      client.emit('messageFailed', { reason });
+      throw new WsException(reason);
+    }
+    if (
+      await this.groupsService.isPostingRestricted(
+        normalizedPayload.groupId,
+        userId,
+      )
+    ) {
+      const reason = 'Only admins can send messages in this group';
+      client.emit('messageFailed', { reason });
+      throw new WsException(reason);
+    }
+
+    let replyTo: ReplyPreview | null = null;
+    if (normalizedPayload.replyToId) {
+      try {
+        const target = await this.chatService.resolveReplyTarget(
+          normalizedPayload.groupId,
+          normalizedPayload.replyToId,
+        );
+        replyTo = this.chatService.buildReplyPreview(target.id, target);
+      } catch (error) {
+        const reason =
+          error instanceof Error ? error.message : 'Reply target is invalid';
+        client.emit('messageFailed', { reason });
+        throw new WsException(reason);
+      }
+    }
+
+    const message: Message = await this.dispatchMessage(
+      userId,
+      normalizedPayload,
+      replyTo,
+    );
+    this.clearActivity(client, normalizedPayload.groupId);
+
+    return message;
+  }
+
+  /**
+   * Persists a message, broadcasts it untranslated right away and translates
+   * it in the background. Shared by live sends and the message scheduler.
+   */
+  async dispatchMessage(
+    userId: string,
+    normalizedPayload: SendMessagePayload,
+    replyTo: ReplyPreview | null = null,
+  ): Promise<Message> {
+    const isMedia: boolean =
+      normalizedPayload.contentType === MessageContentType.IMAGE ||
+      normalizedPayload.contentType === MessageContentType.DOCUMENT;
+
     // ── Phase 1: Persist raw message immediately & broadcast ────────────
     const fileUrl: string | undefined = isMedia
       ? normalizedPayload.fileUrl
@@ -286,6 +457,15 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       ? normalizedPayload.fileUrl!
       : normalizedPayload.rawContent!;
 
+    const mentions: ParsedMention[] =
+      normalizedPayload.contentType === MessageContentType.TEXT
+        ? await this.resolveMentions(
+            normalizedPayload.groupId,
+            userId,
+            normalizedPayload.rawContent ?? '',
+          )
+        : [];
+
     const message: Message = await this.chatService.saveMessage(
       userId,
       normalizedPayload.groupId,
@@ -297,6 +477,8 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       null, // extractedActions — filled in Phase 2
       normalizedPayload.clientTempId ?? null,
       normalizedPayload.fileName ?? null,
+      normalizedPayload.replyToId ?? null,
+      mentions.map((m) => m.userId),
     );
 
     this.logger.log(
@@ -311,7 +493,8 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
 
     // Broadcast immediately with translations: null so the client can
     // display the raw message right away with an "AI translating…" indicator.
-    this.server.to(normalizedPayload.groupId).emit('newMessage', {
+    const room = await this.roomForSender(normalizedPayload.groupId, userId);
+    room.emit('newMessage', {
       messageId: message.id,
       clientTempId: normalizedPayload.clientTempId,
       senderId: userId,
@@ -326,6 +509,9 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       translatedAudioUrls: null,
       confidenceScore: null,
       extractedActions: null,
+      replyToId: message.replyToId ?? null,
+      replyTo,
+      mentionedUserIds: message.mentionedUserIds ?? [],
     });
 
     this.emitConversationUpdated(normalizedPayload.groupId).catch((err) =>
@@ -345,15 +531,53 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       normalizedPayload.groupId,
       normalizedPayload.contentType,
       normalizedPayload,
+      mentions,
     ).catch((err) =>
       this.logger.error(
         `[Phase 2 translate] messageId=${message.id} failed: ${String(err)}`,
       ),
     );
 
+    if (normalizedPayload.contentType === MessageContentType.TEXT) {
+      this.attachLinkPreview(
+        message.id,
+        normalizedPayload.groupId,
+        userId,
+        normalizedPayload.rawContent ?? '',
+      ).catch((err) =>
+        this.logger.warn(
+          `[attachLinkPreview] messageId=${message.id} failed: ${String(err)}`,
+        ),
+      );
+    }
+
     return message;
   }
 
+  /**
+   * Fetches (or reuses) the preview for the first link in `text` and pushes
+   * it as a partial `messageUpdated`. Runs alongside translation so neither
+   * waits on the other.
+   */
+  private async attachLinkPreview(
+    messageId: string,
+    groupId: string,
+    senderId: string,
+    text: string,
+  ): Promise<void> {
+    const url = extractFirstUrl(text);
+    if (!url) return;
+
+    const linkPreview = await this.linkPreviewService.getPreview(url);
+    if (!linkPreview) return;
+
+    const saved = await this.chatService.setLinkPreview(messageId, linkPreview);
+    if (!saved) return;
+
+    const room = await this.roomForSender(groupId, senderId);
+    room.emit('messageUpdated', { groupId, messageId, linkPreview });
+  }
+
   /**
    * Phase 2 of the two-phase send: runs AI translation asynchronously,
    * persists the result, and broadcasts a `messageTranslated` event.
@@ -364,6 +588,7 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
     groupId: string,
     contentType: MessageContentType,
     normalizedPayload: SendMessagePayload,
+    mentions: ParsedMention[] = [],
   ): Promise<void> {
     const userDictionary: string =
       await this.personalContextService.getUserDictionary(userId);
@@ -427,7 +652,7 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
         });
 
         transcription = result.transcription;
-        translations = result.translations;
+        translations = preserveMentionTokens(result.translations, mentions);
         detectedLanguage = result.detectedLanguage;
         originalTone = result.originalTone;
         confidenceScore = result.confidenceScore;
@@ -461,7 +686,8 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       );
 
       // Broadcast translation update to the room
-      this.server.to(groupId).emit('messageTranslated', {
+      const room = await this.roomForSender(groupId, userId);
+      room.emit('messageTranslated', {
         messageId,
         transcription,
         translations,
@@ -470,6 +696,7 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
         translatedAudioUrls,
         confidenceScore,
         extractedActions: processedActions,
+        replyToId: normalizedPayload.replyToId ?? null,
       });
 
       this.logger.log(`messageTranslated broadcasted to room ${groupId}`);
@@ -480,6 +707,7 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
         userId,
         translations,
         transcription ?? normalizedPayload.rawContent ?? '',
+        mentions.map((m) => m.userId),
       ).catch((err) =>
         this.logger.error(`[sendChatNotification] ${String(err)}`),
       );
@@ -501,11 +729,16 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
               ? 'Sent a document'
               : 'Sent a message');
 
-      this.sendChatNotification(groupId, userId, null, fallbackBody).catch(
-        (notifyErr) =>
-          this.logger.error(
-            `[sendChatNotification] translation-failed fallback: ${String(notifyErr)}`,
-          ),
+      this.sendChatNotification(
+        groupId,
+        userId,
+        null,
+        fallbackBody,
+        mentions.map((m) => m.userId),
+      ).catch((notifyErr) =>
+        this.logger.error(
+          `[sendChatNotification] translation-failed fallback: ${String(notifyErr)}`,
+        ),
       );
     }
   }
@@ -530,6 +763,8 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       translatedAudioUrls?: TranslatedAudioUrls | null;
       confidenceScore: number | null;
       extractedActions?: ExtractedAction[] | null;
+      replyToId?: string | null;
+      replyTo?: ReplyPreview | null;
     },
   ): Promise<void> {
     const signedPayload = {
@@ -543,7 +778,8 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       ),
     };
 
-    this.server.to(groupId).emit('newMessage', signedPayload);
+    const room = await this.roomForSender(groupId, payload.senderId);
+    room.emit('newMessage', signedPayload);
     this.emitConversationUpdated(groupId).catch((err) =>
       this.logger.warn(
         `[emitConversationUpdated] groupId=${groupId} failed: ${String(err)}`,
@@ -570,6 +806,7 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       translatedAudioUrls?: TranslatedAudioUrls | null;
       confidenceScore: number;
       extractedActions?: ExtractedAction[] | null;
+      replyToId?: string | null;
     },
     fallbackText: string,
   ): Promise<void> {
@@ -580,7 +817,8 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       ),
     };
 
-    this.server.to(groupId).emit('messageTranslated', signedPayload);
+    const room = await this.roomForSender(groupId, senderId);
+    room.emit('messageTranslated', signedPayload);
     this.logger.log(
       `[broadcastTranslationUpdate] messageTranslated emitted to room ${groupId}, messageId=${payload.messageId}`,
     );
@@ -606,6 +844,142 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
     );
   }
 
+  /**
+   * Emits a forwarded copy as a complete `newMessage` — it already carries
+   * its translations, so there is no Phase 2 follow-up.
+   */
+  private async broadcastForwardedMessage(
+    message: Message,
+    senderId: string,
+  ): Promise<void> {
+    const isText = message.contentType === MessageContentType.TEXT;
+    const room = await this.roomForSender(message.groupId, senderId);
+    room.emit('newMessage', {
+      messageId: message.id,
+      senderId,
+      contentType: message.contentType,
+      fileUrl: isText
+        ? undefined
+        : await this.signRawMediaContent(message.rawContent),
+      fileName: message.fileName,
+      transcription: message.transcription ?? null,
+      originalText: isText ? message.rawContent : null,
+      translations: message.translations,
+      detectedLanguage: message.detectedLanguage,
+      originalTone: message.originalTone,
+      translatedAudioUrls: await this.signTranslatedAudioUrls(
+        message.translatedAudioUrls,
+      ),
+      confidenceScore: message.confidenceScore,
+      extractedActions: message.extractedActions,
+      replyToId: null,
+      replyTo: null,
+      linkPreview: message.linkPreview,
+      isForwarded: true,
+    });
+  }
+
+  /**
+   * Broadcasts a `messagePinned` event after a pin is added or removed over
+   * REST. Clients refetch the pin list so hidden messages stay per-viewer.
+   */
+  broadcastMessagePinned(
+    groupId: string,
+    payload: { messageId: string; isPinned: boolean; changedById: string },
+  ): void {
+    this.server.to(groupId).emit('messagePinned', { groupId, ...payload });
+  }
+
+  /**
+   * Reuses `messagesDeleted` for messages removed by the retention sweeper.
+   * `deletedBy` is null because no member deleted them.
+   */
+  broadcastMessagesExpired(groupId: string, messageIds: string[]): void {
+    this.server
+      .to(groupId)
+      .emit('messagesDeleted', { messageIds, deletedBy: null });
+    this.emitConversationUpdated(groupId).catch((err) =>
+      this.logger.warn(
+        `[emitConversationUpdated] groupId=${groupId} failed: ${String(err)}`,
+      ),
+    );
+  }
+
+  /** A moderator deleted someone else's messages from a report. */
+  broadcastMessagesModerated(
+    groupId: string,
+    messageIds: string[],
+    moderatorId: string,
+  ): void {
+    this.server
+      .to(groupId)
+      .emit('messagesDeleted', { messageIds, deletedBy: moderatorId });
+    this.emitConversationUpdated(groupId).catch((err) =>
+      this.logger.warn(
+        `[emitConversationUpdated] groupId=${groupId} failed: ${String(err)}`,
+      ),
+    );
+  }
+
+  broadcastMessageRetentionChanged(
+    groupId: string,
+    payload: { messageRetention: MessageRetention; changedById: string },
+  ): void {
+    this.server
+      .to(groupId)
+      .emit('messageRetentionChanged', { groupId, ...payload });
+  }
+
+  broadcastEditSettingsChanged(
+    groupId: string,
+    payload: {
+      editWindowMinutes: number;
+      revisionVisibility: RevisionVisibility;
+      changedById: string;
+    },
+  ): void {
+    this.server
+      .to(groupId)
+      .emit('editSettingsChanged', { groupId, ...payload });
+  }
+
+  broadcastGroupPermissionsChanged(
+    groupId: string,
+    payload: {
+      onlyAdminsCanPost: boolean;
+      onlyAdminsCanEditInfo: boolean;
+      changedById: string;
+    },
+  ): void {
+    this.server
+      .to(groupId)
+      .emit('groupPermissionsChanged', { groupId, ...payload });
+  }
+
+  /** One event per member whose role changed — two for an ownership transfer. */
+  broadcastMemberRoleChanged(
+    groupId: string,
+    payload: { userId: string; role: GroupMemberRole; changedById: string },
+  ): void {
+    this.server.to(groupId).emit('memberRoleChanged', { groupId, ...payload });
+  }
+
+  /** Keeps the star on a message in sync across the user's devices. */
+  notifyStarChanged(
+    userId: string,
+    payload: { messageId: string; groupId: string; isStarred: boolean },
+  ): void {
+    this.server.to(this.userRoom(userId)).emit('messageStarChanged', payload);
+  }
+
+  /** Lets the sender's devices drop a scheduled message from their pending list. */
+  notifyScheduledMessageSent(
+    userId: string,
+    payload: { scheduledMessageId: string; groupId: string; messageId: string },
+  ): void {
+    this.server.to(this.userRoom(userId)).emit('scheduledMessageSent', payload);
+  }
+
   /**
    * @deprecated Use broadcastNewMessage + broadcastTranslationUpdate instead.
    * Kept for backward compatibility — calls both phases inline.
@@ -647,12 +1021,17 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
    * Sends push notifications to group members who are offline (not connected
    * via Socket.IO in the room). Uses the member's preferred language or
    * native dialect to pick the right translation for the notification body.
+   * Members @mentioned in a group get their own "mentioned you" push instead
+   * of the regular one. Members who muted the conversation get nothing unless
+   * they were mentioned; members who blocked the sender or haven't accepted
+   * the DM request get nothing at all.
    */
   private async sendChatNotification(
     groupId: string,
     senderId: string,
     translations: Translations | null,
     fallbackText: string,
+    mentionedUserIds: string[] = [],
   ): Promise<void> {
     try {
       // 1. Get all members of the group with their user data (including push tokens — server-side only)
@@ -662,7 +1041,7 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       const group =
         members.length > 0
           ? await this.groupsService
-              .findGroupsForUser(senderId)
+              .findGroupsForUser(senderId, { includeArchived: true })
               .then((groups) => groups.find((g) => g.id === groupId))
           : undefined;
 
@@ -683,11 +1062,23 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
         }
       }
 
-      // 5. Filter to offline members (not sender, not online, has push token)
+      // 5. Filter to offline members (not sender, not online, not muted
+      //    unless mentioned, not blocking the sender, not a pending request,
+      //    has push token)
+      const mentioned = new Set(isGroup ? mentionedUserIds : []);
+      const blockerIds = new Set(
+        await this.groupsService.findBlockerIds(senderId),
+      );
+      const now = Date.now();
       const offlineMembers = members.filter(
         (m) =>
           m.userId !== senderId &&
           !onlineUserIds.has(m.userId) &&
+          !blockerIds.has(m.userId) &&
+          !m.isRequest &&
+          (!m.mutedUntil ||
+            m.mutedUntil.getTime() <= now ||
+            mentioned.has(m.userId)) &&
           m.user &&
           (m.user as { expoPushToken?: string | null }).expoPushToken,
       );
@@ -695,8 +1086,10 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       if (offlineMembers.length === 0) return;
 
       // 6. Group offline members by the notification body text they should receive
-      //    (based on their preferred language / native dialect)
+      //    (based on their preferred language / native dialect). Mentions are
+      //    bucketed separately so they go out with their own title.
       const tokensByBody = new Map<string, string[]>();
+      const mentionTokensByBody = new Map<string, string[]>();
 
       for (const member of offlineMembers) {
         const user = member.user as {
@@ -710,11 +1103,14 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
           (translations as Record<string, string> | null)?.[lang] ??
           fallbackText;
 
-        const existing = tokensByBody.get(body);
+        const buckets = mentioned.has(member.userId)
+          ? mentionTokensByBody
+          : tokensByBody;
+        const existing = buckets.get(body);
         if (existing) {
           existing.push(token);
         } else {
-          tokensByBody.set(body, [token]);
+          buckets.set(body, [token]);
         }
       }
 
@@ -735,6 +1131,15 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
         );
       }
 
+      for (const [body, tokens] of mentionTokensByBody) {
+        await this.notificationService.sendPushNotifications(
+          tokens,
+          `${senderName} mentioned you in ${groupName}`,
+          body,
+          { groupId, groupName, senderId, type: 'mention' },
+        );
+      }
+
       this.logger.log(
         `[sendChatNotification] Sent push to ${offlineMembers.length} offline member(s) in group ${groupId}`,
       );
@@ -771,8 +1176,8 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       return;
     }
 
-    const isMember = await this.groupsService.isMember(groupId, userId);
-    if (!isMember) {
+    const membership = await this.groupsService.findMembership(groupId, userId);
+    if (!membership) {
       client.emit('deleteFailed', {
         reason: 'Forbidden: you are not a member of this group',
       });
@@ -780,7 +1185,11 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
     }
 
     try {
-      await this.chatService.deleteMessages(messageIds, userId, groupId);
+      // Moderators and up may delete anyone's messages in a group chat.
+      await this.chatService.deleteMessages(messageIds, userId, groupId, {
+        asModerator:
+          membership.group.isGroup && hasModeratorRights(membership.role),
+      });
       this.server
         .to(groupId)
         .emit('messagesDeleted', { messageIds, deletedBy: userId });
@@ -906,7 +1315,13 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
 
     try {
       // 1. Persist the edit (validates ownership, type, time window)
-      await this.chatService.editMessage(messageId, userId, trimmed);
+      const mentions = await this.resolveMentions(groupId, userId, trimmed);
+      const edited = await this.chatService.editMessage(
+        messageId,
+        userId,
+        trimmed,
+        mentions.map((m) => m.userId),
+      );
 
       // 2. Re-translate the new content
       const userDictionary: string =
@@ -921,19 +1336,31 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       // 3. Save new translations
       const finalMessage = await this.chatService.updateMessageTranslations(
         messageId,
-        result.translations,
+        preserveMentionTokens(result.translations, mentions),
         result.confidenceScore,
       );
 
-      // 4. Broadcast to all room members
-      this.server.to(groupId).emit('messageEdited', {
+      // 4. Broadcast to all room members except anyone blocking the sender
+      const room = await this.roomForSender(groupId, userId);
+      room.emit('messageEdited', {
         messageId,
         newContent: trimmed,
         translations: finalMessage.translations,
         confidenceScore: finalMessage.confidenceScore,
+        mentionedUserIds: edited.mentionedUserIds,
+        linkPreview: edited.linkPreview,
         isEdited: true,
       });
 
+      if (!edited.linkPreview) {
+        this.attachLinkPreview(messageId, groupId, userId, trimmed).catch(
+          (err) =>
+            this.logger.warn(
+              `[attachLinkPreview] messageId=${messageId} failed: ${String(err)}`,
+            ),
+        );
+      }
+
       this.logger.log(
         `[editMessage] messageId=${messageId} edited & re-translated by userId=${userId}`,
       );
@@ -944,72 +1371,752 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
     }
   }
 
-  private normalizeSendMessagePayload(
-    payload: RawSendMessagePayload,
-  ): SendMessagePayload {
-    const groupIdValue: unknown = payload.groupId ?? payload.group_id;
-    const clientTempIdValue: unknown =
-      payload.clientTempId ?? payload.client_temp_id;
-    const contentTypeValue: unknown =
-      payload.contentType ?? payload.content_type;
-    const rawContentValue: unknown = payload.rawContent ?? payload.raw_content;
-    const audioBase64Value: unknown =
-      payload.audioBase64 ?? payload.audio_base64;
-    const audioMimeTypeValue: unknown =
-      payload.audioMimeType ?? payload.audio_mime_type;
-    const fileUrlValue: unknown = payload.fileUrl ?? payload.file_url;
-    const fileMimeTypeValue: unknown =
-      payload.fileMimeType ?? payload.file_mime_type;
-    const fileNameValue: unknown =
-      payload.fileName ?? payload.file_name;
-    const nativeDialectValue: unknown = payload.nativeDialect ?? 'singlish';
-    const targetLanguagesValue: unknown = payload.targetLanguages ?? [];
-
-    if (typeof groupIdValue !== 'string' || groupIdValue.trim().length === 0) {
-      throw new WsException(
-        'Invalid payload: groupId (or group_id) must be a non-empty string (received: ' +
-          String(groupIdValue) +
-          ')',
-      );
-    }
+  // ── forwarding ────────────────────────────────────────────────────────────
 
-    if (
-      typeof contentTypeValue !== 'string' ||
-      !Object.values(MessageContentType).includes(
-        contentTypeValue as MessageContentType,
-      )
-    ) {
-      throw new WsException(
-        'Invalid payload: contentType must be TEXT, AUDIO, IMAGE, or DOCUMENT',
-      );
-    }
+  /**
+   * Copies messages into other conversations. Translations, transcriptions
+   * and media references are reused from the originals, so forwarding never
+   * hits S3 or the translation pipeline.
+   */
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('forwardMessages')
+  async handleForwardMessages(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: ForwardMessagesPayload,
+  ): Promise<void> {
+    const authenticatedClient = client as AuthenticatedSocket;
+    const userId: string | undefined = authenticatedClient.user?.sub;
+    if (!userId) throw new WsException('Unauthorized');
 
-    const resolvedContentType = contentTypeValue as MessageContentType;
-    const isAudio: boolean = resolvedContentType === MessageContentType.AUDIO;
-    const isMedia: boolean =
-      resolvedContentType === MessageContentType.IMAGE ||
-      resolvedContentType === MessageContentType.DOCUMENT;
+    const { messageIds, targetGroupIds } = payload ?? {};
+    const isUuidList = (value: unknown, max: number): value is string[] =>
+      Array.isArray(value) &&
+      value.length > 0 &&
+      value.length <= max &&
+      value.every((id) => typeof id === 'string' && isUUID(id));
 
     if (
-      isAudio &&
-      (typeof audioBase64Value !== 'string' ||
-        audioBase64Value.trim().length === 0)
+      !isUuidList(messageIds, MAX_FORWARD_MESSAGES) ||
+      !isUuidList(targetGroupIds, MAX_FORWARD_TARGETS)
     ) {
-      throw new WsException(
-        'Invalid payload: audioBase64 (or audio_base64) is required for AUDIO messages',
-      );
+      client.emit('forwardFailed', {
+        reason: `Invalid payload: 1-${MAX_FORWARD_MESSAGES} messageIds and 1-${MAX_FORWARD_TARGETS} targetGroupIds are required`,
+      });
+      return;
     }
 
-    if (
-      isMedia &&
-      (typeof fileUrlValue !== 'string' || fileUrlValue.trim().length === 0)
-    ) {
-      throw new WsException(
-        'Invalid payload: fileUrl (or file_url) is required for IMAGE/DOCUMENT messages',
-      );
-    }
+    try {
+      const originals =
+        await this.chatService.findMessagesToForward(messageIds);
+      const targets = [...new Set(targetGroupIds)];
+      const involvedGroupIds = new Set([
+        ...originals.map((m) => m.groupId),
+        ...targets,
+      ]);
+      for (const groupId of involvedGroupIds) {
+        if (!(await this.groupsService.isMember(groupId, userId))) {
+          throw new Error(
+            'Forbidden: you are not a member of every conversation involved',
+          );
+        }
+      }
+      for (const targetGroupId of targets) {
+        if (
+          (await this.groupsService.isDmBlocked(targetGroupId, userId)) ||
+          (await this.groupsService.isPostingRestricted(targetGroupId, userId))
+        ) {
+          throw new Error('You cannot send messages in one of these chats');
+        }
+      }
 
-    if (
+      for (const targetGroupId of targets) {
+        let last: Message | null = null;
+        for (const original of originals) {
+          last = await this.chatService.forwardMessage(
+            original,
+            userId,
+            targetGroupId,
+          );
+          await this.broadcastForwardedMessage(last, userId);
+        }
+        if (!last) continue;
+
+        this.emitConversationUpdated(targetGroupId).catch((err) =>
+          this.logger.warn(
+            `[emitConversationUpdated] groupId=${targetGroupId} failed: ${String(err)}`,
+          ),
+        );
+        this.sendChatNotification(
+          targetGroupId,
+          userId,
+          last.translations,
+          last.transcription ?? last.rawContent ?? '',
+        ).catch((err) =>
+          this.logger.error(`[sendChatNotification] ${String(err)}`),
+        );
+      }
+
+      client.emit('messagesForwarded', {
+        targetGroupIds: targets,
+        count: originals.length,
+      });
+      this.logger.log(
+        `[forwardMessages] ${originals.length} message(s) forwarded by userId=${userId} to ${targets.length} conversation(s)`,
+      );
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Forward failed';
+      this.logger.warn(`[forwardMessages] failed: ${reason}`);
+      client.emit('forwardFailed', { reason });
+    }
+  }
+
+  // ── reactions ─────────────────────────────────────────────────────────────
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('addReaction')
+  async handleAddReaction(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: ReactionPayload,
+  ): Promise<void> {
+    await this.applyReaction(client, payload, 'add');
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('removeReaction')
+  async handleRemoveReaction(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: ReactionPayload,
+  ): Promise<void> {
+    await this.applyReaction(client, payload, 'remove');
+  }
+
+  /**
+   * Shared body of addReaction/removeReaction. Reactions are never translated
+   * — the room just receives the message's new aggregate.
+   */
+  private async applyReaction(
+    client: Socket,
+    payload: ReactionPayload,
+    action: 'add' | 'remove',
+  ): Promise<void> {
+    const authenticatedClient = client as AuthenticatedSocket;
+    const userId: string | undefined = authenticatedClient.user?.sub;
+    if (!userId) throw new WsException('Unauthorized');
+
+    const { groupId, messageId, emoji } = payload ?? {};
+    const trimmedEmoji = typeof emoji === 'string' ? emoji.trim() : '';
+
+    if (
+      typeof groupId !== 'string' ||
+      groupId.trim().length === 0 ||
+      typeof messageId !== 'string' ||
+      !isUUID(messageId) ||
+      trimmedEmoji.length === 0 ||
+      trimmedEmoji.length > MAX_REACTION_EMOJI_LENGTH ||
+      /\s/.test(trimmedEmoji)
+    ) {
+      client.emit('reactionFailed', {
+        messageId: typeof messageId === 'string' ? messageId : null,
+        reason: 'Invalid payload: groupId, messageId, and emoji are required',
+      });
+      return;
+    }
+
+    const isMember = await this.groupsService.isMember(groupId, userId);
+    if (!isMember) {
+      client.emit('reactionFailed', {
+        messageId,
+        reason: 'Forbidden: you are not a member of this group',
+      });
+      return;
+    }
+
+    try {
+      const reactions =
+        action === 'add'
+          ? await this.chatService.addReaction(
+              messageId,
+              userId,
+              groupId,
+              trimmedEmoji,
+            )
+          : await this.chatService.removeReaction(
+              messageId,
+              userId,
+              groupId,
+              trimmedEmoji,
+            );
+
+      const room = await this.roomForSender(groupId, userId);
+      room.emit('reactionsUpdated', {
+        groupId,
+        messageId,
+        reactions,
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Reaction failed';
+      this.logger.warn(`[${action}Reaction] failed: ${reason}`);
+      client.emit('reactionFailed', { messageId, reason });
+    }
+  }
+
+  // ── polls ─────────────────────────────────────────────────────────────────
+
+  /**
+   * Creates a POLL message. Like sendMessage it is broadcast untranslated
+   * right away; the question and options are then translated together.
+   */
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('createPoll')
+  async handleCreatePoll(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: CreatePollPayload,
+  ): Promise<void> {
+    const authenticatedClient = client as AuthenticatedSocket;
+    const userId: string | undefined = authenticatedClient.user?.sub;
+    if (!userId) throw new WsException('Unauthorized');
+
+    const { groupId, question, options } = payload ?? {};
+    const clientTempId =
+      typeof payload?.clientTempId === 'string' && payload.clientTempId.trim()
+        ? payload.clientTempId.trim()
+        : undefined;
+
+    if (
+      typeof groupId !== 'string' ||
+      groupId.trim().length === 0 ||
+      typeof question !== 'string' ||
+      !Array.isArray(options) ||
+      !options.every((o) => typeof o === 'string') ||
+      (payload.closesAt != null && typeof payload.closesAt !== 'string')
+    ) {
+      client.emit('pollFailed', {
+        messageId: null,
+        clientTempId,
+        reason: 'Invalid payload: groupId, question, and options are required',
+      });
+      return;
+    }
+
+    const isMember = await this.groupsService.isMember(groupId, userId);
+    if (!isMember) {
+      client.emit('pollFailed', {
+        messageId: null,
+        clientTempId,
+        reason: 'Forbidden: you are not a member of this group',
+      });
+      return;
+    }
+    if (await this.groupsService.isDmBlocked(groupId, userId)) {
+      client.emit('pollFailed', {
+        messageId: null,
+        clientTempId,
+        reason: 'You cannot send messages in this chat',
+      });
+      return;
+    }
+    if (await this.groupsService.isPostingRestricted(groupId, userId)) {
+      client.emit('pollFailed', {
+        messageId: null,
+        clientTempId,
+        reason: 'Only admins can send messages in this group',
+      });
+      return;
+    }
+
+    try {
+      const input = this.pollsService.normalizeInput({
+        question,
+        options,
+        allowsMultiple: payload.allowsMultiple === true,
+        isAnonymous: payload.isAnonymous === true,
+        closesAt: payload.closesAt ? new Date(payload.closesAt) : null,
+      });
+
+      const message = await this.chatService.saveMessage(
+        userId,
+        groupId,
+        MessageContentType.POLL,
+        input.question,
+        null,
+        null,
+        null,
+        null,
+        clientTempId ?? null,
+      );
+      await this.pollsService.create(message.id, input);
+      const poll = await this.pollsService.getResults(message.id);
+
+      const room = await this.roomForSender(groupId, userId);
+      room.emit('newMessage', {
+        messageId: message.id,
+        clientTempId,
+        senderId: userId,
+        contentType: MessageContentType.POLL,
+        fileName: null,
+        transcription: null,
+        originalText: input.question,
+        translations: null,
+        detectedLanguage: null,
+        originalTone: null,
+        translatedAudioUrls: null,
+        confidenceScore: null,
+        extractedActions: null,
+        replyToId: null,
+        replyTo: null,
+        mentionedUserIds: [],
+        poll: { ...poll, myOptionIds: [] },
+      });
+      this.emitConversationUpdated(groupId).catch((err) =>
+        this.logger.warn(
+          `[emitConversationUpdated] groupId=${groupId} failed: ${String(err)}`,
+        ),
+      );
+      this.clearActivity(client, groupId);
+
+      this.translatePollAndBroadcast(message.id, userId, groupId, input).catch(
+        (err) =>
+          this.logger.error(
+            `[translatePoll] messageId=${message.id} failed: ${String(err)}`,
+          ),
+      );
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Poll failed';
+      this.logger.warn(`[createPoll] failed: ${reason}`);
+      client.emit('pollFailed', { messageId: null, clientTempId, reason });
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('votePoll')
+  async handleVotePoll(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: VotePollPayload,
+  ): Promise<void> {
+    const authenticatedClient = client as AuthenticatedSocket;
+    const userId: string | undefined = authenticatedClient.user?.sub;
+    if (!userId) throw new WsException('Unauthorized');
+
+    const { groupId, messageId, optionIds } = payload ?? {};
+    if (
+      typeof groupId !== 'string' ||
+      groupId.trim().length === 0 ||
+      typeof messageId !== 'string' ||
+      !isUUID(messageId) ||
+      !Array.isArray(optionIds) ||
+      optionIds.length > MAX_POLL_OPTIONS ||
+      !optionIds.every((id) => typeof id === 'string')
+    ) {
+      client.emit('pollFailed', {
+        messageId: typeof messageId === 'string' ? messageId : null,
+        reason:
+          'Invalid payload: groupId, messageId, and optionIds are required',
+      });
+      return;
+    }
+
+    const isMember = await this.groupsService.isMember(groupId, userId);
+    if (!isMember) {
+      client.emit('pollFailed', {
+        messageId,
+        reason: 'Forbidden: you are not a member of this group',
+      });
+      return;
+    }
+
+    try {
+      const poll = await this.pollsService.vote(
+        messageId,
+        groupId,
+        userId,
+        optionIds,
+      );
+      this.server.to(groupId).emit('pollUpdated', { groupId, messageId, poll });
+      // Anonymous results carry no voter ids, so the voter's other devices
+      // learn their own selection separately.
+      this.server.to(this.userRoom(userId)).emit('pollVoteRecorded', {
+        groupId,
+        messageId,
+        optionIds: [...new Set(optionIds)],
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Vote failed';
+      this.logger.warn(`[votePoll] failed: ${reason}`);
+      client.emit('pollFailed', { messageId, reason });
+    }
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('closePoll')
+  async handleClosePoll(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: ClosePollPayload,
+  ): Promise<void> {
+    const authenticatedClient = client as AuthenticatedSocket;
+    const userId: string | undefined = authenticatedClient.user?.sub;
+    if (!userId) throw new WsException('Unauthorized');
+
+    const { groupId, messageId } = payload ?? {};
+    if (
+      typeof groupId !== 'string' ||
+      groupId.trim().length === 0 ||
+      typeof messageId !== 'string' ||
+      !isUUID(messageId)
+    ) {
+      client.emit('pollFailed', {
+        messageId: typeof messageId === 'string' ? messageId : null,
+        reason: 'Invalid payload: groupId and messageId are required',
+      });
+      return;
+    }
+
+    try {
+      const poll = await this.pollsService.close(messageId, groupId, userId);
+      this.server.to(groupId).emit('pollUpdated', { groupId, messageId, poll });
+    } catch (error) {
+      const reason =
+        error instanceof Error ? error.message : 'Closing the poll failed';
+      this.logger.warn(`[closePoll] failed: ${reason}`);
+      client.emit('pollFailed', { messageId, reason });
+    }
+  }
+
+  /**
+   * Phase 2 for polls: one model call translates the question and every
+   * option. The question lands in the message's translations like any text,
+   * the options in the poll itself.
+   */
+  private async translatePollAndBroadcast(
+    messageId: string,
+    userId: string,
+    groupId: string,
+    input: CreatePollInput,
+  ): Promise<void> {
+    const fallbackBody = `📊 ${input.question}`;
+
+    try {
+      const userDictionary =
+        await this.personalContextService.getUserDictionary(userId);
+      const result = await this.translationService.translatePoll({
+        question: input.question,
+        options: input.options,
+        userDictionary,
+      });
+
+      await this.chatService.updateMessageWithTranslation(messageId, {
+        translations: result.question,
+        detectedLanguage: result.detectedLanguage,
+        confidenceScore: result.confidenceScore,
+      });
+      const poll = await this.pollsService.saveOptionTranslations(
+        messageId,
+        result.options,
+      );
+
+      const room = await this.roomForSender(groupId, userId);
+      room.emit('messageTranslated', {
+        messageId,
+        transcription: null,
+        translations: result.question,
+        detectedLanguage: result.detectedLanguage,
+        originalTone: null,
+        translatedAudioUrls: null,
+        confidenceScore: result.confidenceScore,
+        extractedActions: null,
+        replyToId: null,
+      });
+      this.server.to(groupId).emit('pollUpdated', { groupId, messageId, poll });
+
+      const q = result.question;
+      this.sendChatNotification(
+        groupId,
+        userId,
+        {
+          singlish: `📊 ${q.singlish}`,
+          tanglish: `📊 ${q.tanglish}`,
+          english: `📊 ${q.english}`,
+        },
+        fallbackBody,
+      ).catch((err) =>
+        this.logger.error(`[sendChatNotification] ${String(err)}`),
+      );
+    } catch (err) {
+      this.logger.error(
+        `[translatePollAndBroadcast] Translation failed for messageId=${messageId}: ${String(err)}`,
+      );
+      this.server.to(groupId).emit('translationFailed', { messageId });
+
+      this.sendChatNotification(groupId, userId, null, fallbackBody).catch(
+        (notifyErr) =>
+          this.logger.error(
+            `[sendChatNotification] translation-failed fallback: ${String(notifyErr)}`,
+          ),
+      );
+    }
+  }
+
+  // ── typing / recording indicators ─────────────────────────────────────────
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('typingStart')
+  async handleTypingStart(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: ActivityPayload,
+  ): Promise<void> {
+    await this.startActivity(client, payload, 'typing');
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('typingStop')
+  handleTypingStop(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: ActivityPayload,
+  ): void {
+    this.stopActivity(client, payload, 'typing');
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('recordingStart')
+  async handleRecordingStart(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: ActivityPayload,
+  ): Promise<void> {
+    await this.startActivity(client, payload, 'recording');
+  }
+
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('recordingStop')
+  handleRecordingStop(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: ActivityPayload,
+  ): void {
+    this.stopActivity(client, payload, 'recording');
+  }
+
+  /**
+   * Indicators are cosmetic, so invalid or unauthorised requests are dropped
+   * silently rather than answered with a failure event. The socket must have
+   * joined the room (which already checked membership), and membership is
+   * re-checked whenever a new indicator appears in case the user was removed
+   * from the group since joining.
+   */
+  private async startActivity(
+    client: Socket,
+    payload: ActivityPayload,
+    activity: ChatActivity,
+  ): Promise<void> {
+    const authenticatedClient = client as AuthenticatedSocket;
+    const userId: string | undefined = authenticatedClient.user?.sub;
+    if (!userId) throw new WsException('Unauthorized');
+
+    const groupId = payload?.groupId;
+    if (typeof groupId !== 'string' || !client.rooms.has(groupId)) return;
+
+    const isRefresh = this.activityRegistry.stop(client.id, groupId, activity);
+    if (!isRefresh) {
+      const isMember = await this.groupsService.isMember(groupId, userId);
+      if (!isMember) return;
+    }
+
+    const displayName =
+      isRefresh?.displayName ??
+      (await this.groupsService.getDisplayName(userId)) ??
+      'Someone';
+
+    const entry: ActivityEntry = {
+      socketId: client.id,
+      groupId,
+      userId,
+      displayName,
+      activity,
+    };
+    this.activityRegistry.start(entry, (expired) =>
+      this.broadcastActivityStopped(expired),
+    );
+
+    if (!isRefresh) {
+      // Everyone else in the room, minus this socket and anyone blocking the user.
+      const room = await this.roomForSender(groupId, userId);
+      room.except(client.id).emit('userActivity', {
+        groupId,
+        userId,
+        displayName,
+        activity,
+      });
+    }
+  }
+
+  private stopActivity(
+    client: Socket,
+    payload: ActivityPayload,
+    activity: ChatActivity,
+  ): void {
+    const groupId = payload?.groupId;
+    if (typeof groupId !== 'string') return;
+
+    const removed = this.activityRegistry.stop(client.id, groupId, activity);
+    if (removed) this.broadcastActivityStopped(removed);
+  }
+
+  private clearActivity(client: Socket, groupId: string): void {
+    const removed = this.activityRegistry.stop(client.id, groupId);
+    if (removed) this.broadcastActivityStopped(removed);
+  }
+
+  private broadcastActivityStopped(entry: ActivityEntry): void {
+    this.roomForSender(entry.groupId, entry.userId)
+      .then((room) =>
+        room.emit('userActivity', {
+          groupId: entry.groupId,
+          userId: entry.userId,
+          displayName: entry.displayName,
+          activity: null,
+        }),
+      )
+      .catch((err) =>
+        this.logger.warn(
+          `[userActivity] stop broadcast failed: ${String(err)}`,
+        ),
+      );
+  }
+
+  // ── markRead ──────────────────────────────────────────────────────────────
+
+  /**
+   * Advances the caller's read position. The room gets `messageRead` so
+   * senders can update ticks; the caller's other devices get
+   * `conversationUpdated` so their unread badges clear.
+   */
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('markRead')
+  async handleMarkRead(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: MarkReadPayload,
+  ): Promise<void> {
+    const authenticatedClient = client as AuthenticatedSocket;
+    const userId: string | undefined = authenticatedClient.user?.sub;
+    if (!userId) throw new WsException('Unauthorized');
+
+    const { groupId, messageId } = payload ?? {};
+
+    if (
+      typeof groupId !== 'string' ||
+      groupId.trim().length === 0 ||
+      typeof messageId !== 'string' ||
+      !isUUID(messageId)
+    ) {
+      client.emit('markReadFailed', {
+        reason: 'Invalid payload: groupId and messageId are required',
+      });
+      return;
+    }
+
+    const isMember = await this.groupsService.isMember(groupId, userId);
+    if (!isMember) {
+      client.emit('markReadFailed', {
+        reason: 'Forbidden: you are not a member of this group',
+      });
+      return;
+    }
+
+    try {
+      const position = await this.groupsService.markRead(
+        groupId,
+        userId,
+        messageId,
+      );
+      if (!position) return;
+
+      this.server.to(groupId).emit('messageRead', {
+        groupId,
+        userId,
+        messageId: position.lastReadMessageId,
+        readAt: position.lastReadAt.toISOString(),
+      });
+      this.server.to(this.userRoom(userId)).emit('conversationUpdated', {
+        groupId,
+        at: new Date().toISOString(),
+      });
+    } catch (error) {
+      const reason =
+        error instanceof Error ? error.message : 'Mark read failed';
+      this.logger.warn(`[markRead] failed: ${reason}`);
+      client.emit('markReadFailed', { reason });
+    }
+  }
+
+  private normalizeSendMessagePayload(
+    payload: RawSendMessagePayload,
+  ): SendMessagePayload {
+    const groupIdValue: unknown = payload.groupId ?? payload.group_id;
+    const clientTempIdValue: unknown =
+      payload.clientTempId ?? payload.client_temp_id;
+    const contentTypeValue: unknown =
+      payload.contentType ?? payload.content_type;
+    const rawContentValue: unknown = payload.rawContent ?? payload.raw_content;
+    const audioBase64Value: unknown =
+      payload.audioBase64 ?? payload.audio_base64;
+    const audioMimeTypeValue: unknown =
+      payload.audioMimeType ?? payload.audio_mime_type;
+    const fileUrlValue: unknown = payload.fileUrl ?? payload.file_url;
+    const fileMimeTypeValue: unknown =
+      payload.fileMimeType ?? payload.file_mime_type;
+    const fileNameValue: unknown =
+      payload.fileName ?? payload.file_name;
+    const replyToIdValue: unknown = payload.replyToId ?? payload.reply_to_id;
+    const nativeDialectValue: unknown = payload.nativeDialect ?? 'singlish';
+    const targetLanguagesValue: unknown = payload.targetLanguages ?? [];
+
+    if (typeof groupIdValue !== 'string' || groupIdValue.trim().length === 0) {
+      throw new WsException(
+        'Invalid payload: groupId (or group_id) must be a non-empty string (received: ' +
+          String(groupIdValue) +
+          ')',
+      );
+    }
+
+    if (
+      typeof contentTypeValue !== 'string' ||
+      !Object.values(MessageContentType).includes(
+        contentTypeValue as MessageContentType,
+      )
+    ) {
+      throw new WsException(
+        'Invalid payload: contentType must be TEXT, AUDIO, IMAGE, or DOCUMENT',
+      );
+    }
+
+    const resolvedContentType = contentTypeValue as MessageContentType;
+    if (resolvedContentType === MessageContentType.POLL) {
+      throw new WsException(
+        'Invalid payload: polls are created with the createPoll event',
+      );
+    }
+    const isAudio: boolean = resolvedContentType === MessageContentType.AUDIO;
+    const isMedia: boolean =
+      resolvedContentType === MessageContentType.IMAGE ||
+      resolvedContentType === MessageContentType.DOCUMENT;
+
+    if (
+      isAudio &&
+      (typeof audioBase64Value !== 'string' ||
+        audioBase64Value.trim().length === 0)
+    ) {
+      throw new WsException(
+        'Invalid payload: audioBase64 (or audio_base64) is required for AUDIO messages',
+      );
+    }
+
+    if (
+      isMedia &&
+      (typeof fileUrlValue !== 'string' || fileUrlValue.trim().length === 0)
+    ) {
+      throw new WsException(
+        'Invalid payload: fileUrl (or file_url) is required for IMAGE/DOCUMENT messages',
+      );
+    }
+
+    if (
       !isAudio &&
       !isMedia &&
       (typeof rawContentValue !== 'string' ||
@@ -1038,6 +2145,16 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       );
     }
 
+    if (
+      replyToIdValue !== undefined &&
+      replyToIdValue !== null &&
+      (typeof replyToIdValue !== 'string' || !isUUID(replyToIdValue.trim()))
+    ) {
+      throw new WsException(
+        'Invalid payload: replyToId (or reply_to_id) must be a message id when provided',
+      );
+    }
+
     return {
       groupId: groupIdValue,
       clientTempId:
@@ -1065,6 +2182,10 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
         typeof fileNameValue === 'string' && fileNameValue.trim()
           ? fileNameValue.trim()
           : undefined,
+      replyToId:
+        typeof replyToIdValue === 'string' && replyToIdValue.trim()
+          ? replyToIdValue.trim()
+          : undefined,
       timezone:
         typeof payload.timezone === 'string' && payload.timezone.trim()
           ? payload.timezone.trim()
@@ -1072,10 +2193,76 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
     };
   }
 
+  /**
+   * Stamps lastSeenAt and tells the user's contacts. The broadcast reads the
+   * registry again after the awaits, so a quick reconnect is never followed
+   * by a stale "offline" event.
+   */
+  private handlePresenceChange(userId: string): void {
+    this.groupsService
+      .recordLastSeen(userId, new Date())
+      .then(() => this.broadcastPresence(userId))
+      .catch((err) =>
+        this.logger.error(`[presence] userId=${userId} failed: ${String(err)}`),
+      );
+  }
+
+  private async broadcastPresence(userId: string): Promise<void> {
+    const [presence, contactIds] = await Promise.all([
+      this.groupsService.getPresence(userId),
+      this.groupsService.findContactIds(userId),
+    ]);
+    for (const contactId of contactIds) {
+      this.server.to(this.userRoom(contactId)).emit('presenceChanged', {
+        userId,
+        isOnline: presence.isOnline,
+        lastSeenAt: presence.lastSeenAt?.toISOString() ?? null,
+      });
+    }
+  }
+
+  /**
+   * Resolves `@displayName` tokens against the other members of the group.
+   * A failed lookup only costs the mentions, never the message itself.
+   */
+  private async resolveMentions(
+    groupId: string,
+    senderId: string,
+    text: string,
+  ): Promise<ParsedMention[]> {
+    if (!text.includes('@')) return [];
+    try {
+      const candidates =
+        await this.groupsService.findMentionCandidates(groupId);
+      return parseMentions(
+        text,
+        candidates.filter((c) => c.userId !== senderId),
+      );
+    } catch (err) {
+      this.logger.warn(
+        `[resolveMentions] groupId=${groupId} failed: ${String(err)}`,
+      );
+      return [];
+    }
+  }
+
   private userRoom(userId: string): string {
     return `user:${userId}`;
   }
 
+  private sessionRoom(sessionId: string): string {
+    return `session:${sessionId}`;
+  }
+
+  /** The conversation room without members who blocked `senderId`. */
+  private async roomForSender(groupId: string, senderId: string) {
+    const blockerIds = await this.groupsService.findBlockerIds(senderId);
+    const room = this.server.to(groupId);
+    return blockerIds.length > 0
+      ? room.except(blockerIds.map((id) => this.userRoom(id)))
+      : room;
+  }
+
   private async emitConversationUpdated(groupId: string): Promise<void> {
     const members = await this.groupsService.findMembers(groupId);
     const notifiedUserIds = new Set<string>();
@@ -4,11 +4,36 @@ import { JwtModule } from '@nestjs/jwt';
 import { TypeOrmModule } from '@nestjs/typeorm';
 
 import { ChatController } from './chat.controller';
+import { PinnedMessagesController } from './pinned-messages.controller';
+import { ScheduledMessagesController } from './scheduled-messages.controller';
+import { MessageRetentionController } from './message-retention.controller';
+import { EditSettingsController } from './edit-settings.controller';
+import { GroupRolesController } from './group-roles.controller';
+import { MessageRevisionsController } from './message-revisions.controller';
+import { ConversationExportController } from './conversation-export.controller';
+import { MessageReportsController } from './message-reports.controller';
 import { ChatGateway } from './chat.gateway';
 import { ChatService } from './chat.service';
+import { ChatActivityRegistry } from './chat-activity.registry';
+import { ScheduledMessagesService } from './scheduled-messages.service';
+import { ScheduledMessageDispatcher } from './scheduled-message.dispatcher';
+import { MessageRetentionSweeper } from './message-retention.sweeper';
+import { PollsService } from './polls.service';
+import { LinkPreviewService } from './link-preview.service';
+import { ConversationExportService } from './conversation-export.service';
+import { MessageReportsService } from './message-reports.service';
 import { ChatGroup } from './entities/chat-group.entity';
 import { Message } from './entities/message.entity';
 import { MessageHiddenByUser } from './entities/message-hidden-by-user.entity';
+import { MessageReaction } from './entities/message-reaction.entity';
+import { PinnedMessage } from './entities/pinned-message.entity';
+import { ScheduledMessage } from './entities/scheduled-message.entity';
+import { Poll } from './entities/poll.entity';
+import { PollVote } from './entities/poll-vote.entity';
+import { LinkPreview } from './entities/link-preview.entity';
+import { MessageRevision } from './entities/message-revision.entity';
+import { StarredMessage } from './entities/starred-message.entity';
+import { MessageReport } from './entities/message-report.entity';
 import { GroupMember } from './entities/group-member.entity';
 import { WsJwtGuard } from './guards/ws-jwt.guard';
 import { PersonalContextModule } from '../personal-context/personal-context.module';
@@ -17,12 +42,22 @@ import { GroupsModule } from '../groups/groups.module';
 import { ActionModule } from '../actions/action.module';
 import { NotificationModule } from '../notification/notification.module';
 import { StorageModule } from '../../core/common/storage';
+import { IdentityModule } from '../../core/identity/identity.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([
       Message,
       MessageHiddenByUser,
+      MessageReaction,
+      PinnedMessage,
+      ScheduledMessage,
+      Poll,
+      PollVote,
+      LinkPreview,
+      MessageRevision,
+      StarredMessage,
+      MessageReport,
       ChatGroup,
       GroupMember,
     ]),
@@ -32,6 +67,7 @@ import { StorageModule } from '../../core/common/storage';
     ActionModule,
     NotificationModule,
     StorageModule,
+    IdentityModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
       inject: [ConfigService],
@@ -41,9 +77,31 @@ import { StorageModule } from '../../core/common/storage';
       }),
     }),
   ],
-  controllers: [ChatController],
-  providers: [ChatGateway, ChatService, WsJwtGuard],
+  controllers: [
+    ChatController,
+    PinnedMessagesController,
+    ScheduledMessagesController,
+    MessageRetentionController,
+    EditSettingsController,
+    GroupRolesController,
+    MessageRevisionsController,
+    ConversationExportController,
+    MessageReportsController,
+  ],
+  providers: [
+    ChatGateway,
+    ChatService,
+    ChatActivityRegistry,
+    ScheduledMessagesService,
+    ScheduledMessageDispatcher,
+    MessageRetentionSweeper,
+    PollsService,
+    LinkPreviewService,
+    ConversationExportService,
+    MessageReportsService,
+    WsJwtGuard,
+  ],
   // Export gateway + service so AudioModule can inject them without circular deps.
-  exports: [ChatGateway, ChatService],
+  exports: [ChatGateway, ChatService, MessageReportsService],
 })
 export class ChatModule {}
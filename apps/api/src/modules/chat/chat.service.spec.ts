@@ -0,0 +1,544 @@
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { ChatService } from './chat.service';
+import { GroupMember } from './entities/group-member.entity';
+import { Message, MessageContentType } from './entities/message.entity';
+import { MessageHiddenByUser } from './entities/message-hidden-by-user.entity';
+import { MessageReaction } from './entities/message-reaction.entity';
+import { PinnedMessage } from './entities/pinned-message.entity';
+import { MessageRevision } from './entities/message-revision.entity';
+import { StarredMessage } from './entities/starred-message.entity';
+import { NOT_FROM_BLOCKED_SENDER_SQL } from './entities/user-block.entity';
+import { PollsService } from './polls.service';
+
+function buildQueryBuilder(result: {
+  many?: unknown[];
+  raw?: unknown[];
+  one?: unknown;
+}) {
+  const qb: Record<string, jest.Mock> = {
+    clone: jest.fn(() => qb),
+    from: jest.fn().mockReturnThis(),
+    setParameters: jest.fn().mockReturnThis(),
+    getQuery: jest.fn().mockReturnValue('SELECT 1'),
+    getParameters: jest.fn().mockReturnValue({}),
+    select: jest.fn().mockReturnThis(),
+    addSelect: jest.fn().mockReturnThis(),
+    groupBy: jest.fn().mockReturnThis(),
+    addGroupBy: jest.fn().mockReturnThis(),
+    innerJoin: jest.fn().mockReturnThis(),
+    leftJoin: jest.fn().mockReturnThis(),
+    leftJoinAndSelect: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    offset: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    getMany: jest.fn().mockResolvedValue(result.many ?? []),
+    getRawMany: jest.fn().mockResolvedValue(result.raw ?? []),
+    getRawOne: jest.fn().mockResolvedValue(result.one),
+  };
+  return qb;
+}
+
+describe('ChatService', () => {
+  let service: ChatService;
+  let messageRepo: {
+    findOne: jest.Mock;
+    find: jest.Mock;
+    exists: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+    createQueryBuilder: jest.Mock;
+    manager: {
+      transaction: jest.Mock;
+      createQueryBuilder: jest.Mock;
+      update: jest.Mock;
+    };
+  };
+  let entityManager: { insert: jest.Mock; save: jest.Mock };
+  let hiddenRepo: { createQueryBuilder: jest.Mock };
+  let reactionRepo: { createQueryBuilder: jest.Mock };
+  let pinRepo: { createQueryBuilder: jest.Mock };
+  let starRepo: { find: jest.Mock; createQueryBuilder: jest.Mock };
+
+  const original = {
+    id: 'orig-1',
+    groupId: 'group-1',
+    contentType: MessageContentType.TEXT,
+    rawContent: 'machan where are you',
+    fileName: null,
+    translations: {
+      english: 'friend, where are you',
+      singlish: 'machan oya koheda',
+      tanglish: 'machan nee enga',
+    },
+    sender: { id: 'user-2', displayName: 'Kasun' },
+  } as unknown as Message;
+
+  beforeEach(async () => {
+    messageRepo = {
+      findOne: jest.fn(),
+      find: jest.fn(),
+      exists: jest.fn(),
+      create: jest.fn((entity: Partial<Message>) => entity),
+      save: jest.fn((entity: Partial<Message>) =>
+        Promise.resolve({ ...entity, id: 'copy-1' }),
+      ),
+      createQueryBuilder: jest.fn(),
+      manager: {
+        transaction: jest.fn((work: (em: unknown) => Promise<unknown>) =>
+          work(entityManager),
+        ),
+        createQueryBuilder: jest.fn(),
+        update: jest.fn().mockResolvedValue(undefined),
+      },
+    };
+    entityManager = {
+      insert: jest.fn().mockResolvedValue(undefined),
+      save: jest.fn((entity: Partial<Message>) => Promise.resolve(entity)),
+    };
+    hiddenRepo = { createQueryBuilder: jest.fn() };
+    reactionRepo = {
+      createQueryBuilder: jest.fn(() => buildQueryBuilder({ raw: [] })),
+    };
+    pinRepo = { createQueryBuilder: jest.fn() };
+    starRepo = {
+      find: jest.fn().mockResolvedValue([]),
+      createQueryBuilder: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ChatService,
+        { provide: getRepositoryToken(Message), useValue: messageRepo },
+        {
+          provide: getRepositoryToken(MessageHiddenByUser),
+          useValue: hiddenRepo,
+        },
+        {
+          provide: getRepositoryToken(MessageReaction),
+          useValue: reactionRepo,
+        },
+        { provide: getRepositoryToken(PinnedMessage), useValue: pinRepo },
+        { provide: getRepositoryToken(MessageRevision), useValue: {} },
+        { provide: getRepositoryToken(StarredMessage), useValue: starRepo },
+        {
+          provide: PollsService,
+          useValue: { getPollViews: jest.fn().mockResolvedValue(new Map()) },
+        },
+      ],
+    }).compile();
+
+    service = module.get(ChatService);
+  });
+
+  describe('replies', () => {
+    it('rejects reply targets from another conversation', async () => {
+      messageRepo.findOne.mockResolvedValue({
+        ...original,
+        groupId: 'group-2',
+      });
+
+      await expect(
+        service.resolveReplyTarget('group-1', 'orig-1'),
+      ).rejects.toThrow('The message you are replying to was not found');
+    });
+
+    it('builds a deleted stub when the original is gone', () => {
+      const preview = service.buildReplyPreview('orig-1', null);
+
+      expect(preview).toEqual(
+        expect.objectContaining({ id: 'orig-1', isDeleted: true, text: null }),
+      );
+    });
+
+    it('quotes the original with its translations', () => {
+      const preview = service.buildReplyPreview('orig-1', original);
+
+      expect(preview.isDeleted).toBe(false);
+      expect(preview.senderName).toBe('Kasun');
+      expect(preview.text).toBe('machan where are you');
+      expect(preview.translations?.english).toBe('friend, where are you');
+    });
+
+    it('stubs quotes of messages the viewer has hidden', async () => {
+      const reply = {
+        id: 'reply-1',
+        groupId: 'group-1',
+        replyToId: 'orig-1',
+        replyTo: original,
+      };
+      messageRepo.createQueryBuilder.mockReturnValue(
+        buildQueryBuilder({ many: [reply] }),
+      );
+      hiddenRepo.createQueryBuilder.mockReturnValue(
+        buildQueryBuilder({ raw: [{ message_id: 'orig-1' }] }),
+      );
+
+      const [result] = await service.getPaginatedHistory('group-1', 'user-1');
+
+      expect(result.replyTo).toEqual(
+        expect.objectContaining({ id: 'orig-1', isDeleted: true }),
+      );
+    });
+  });
+
+  describe('reactions', () => {
+    it('aggregates reactions per message in history', async () => {
+      messageRepo.createQueryBuilder.mockReturnValue(
+        buildQueryBuilder({
+          many: [
+            { id: 'msg-1', groupId: 'group-1', replyToId: null },
+            { id: 'msg-2', groupId: 'group-1', replyToId: null },
+          ],
+        }),
+      );
+      reactionRepo.createQueryBuilder.mockReturnValue(
+        buildQueryBuilder({
+          raw: [
+            {
+              message_id: 'msg-1',
+              emoji: '👍',
+              count: '2',
+              user_ids: ['user-1', 'user-2'],
+            },
+            {
+              message_id: 'msg-1',
+              emoji: '😂',
+              count: '1',
+              user_ids: ['user-2'],
+            },
+          ],
+        }),
+      );
+
+      const [first, second] = await service.getCursorHistory(
+        'group-1',
+        'user-1',
+        new Date().toISOString(),
+      );
+
+      expect(first.reactions).toEqual([
+        { emoji: '👍', count: 2, userIds: ['user-1', 'user-2'] },
+        { emoji: '😂', count: 1, userIds: ['user-2'] },
+      ]);
+      expect(second.reactions).toEqual([]);
+    });
+
+    it('rejects reactions on messages outside the group', async () => {
+      messageRepo.exists.mockResolvedValue(false);
+
+      await expect(
+        service.addReaction('msg-1', 'user-1', 'group-2', '👍'),
+      ).rejects.toThrow('Message not found');
+      expect(reactionRepo.createQueryBuilder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('forwarding', () => {
+    it('copies translations and media into the target without the reply link', async () => {
+      const voiceNote = {
+        ...original,
+        contentType: MessageContentType.AUDIO,
+        rawContent: 'audio/voice-1.m4a',
+        transcription: 'machan where are you',
+        translatedAudioUrls: { english: 'audio/voice-1-en.mp3' },
+        replyToId: 'older-1',
+      } as unknown as Message;
+
+      const copy = await service.forwardMessage(voiceNote, 'user-1', 'group-9');
+
+      expect(copy).toEqual(
+        expect.objectContaining({
+          groupId: 'group-9',
+          sender: { id: 'user-1' },
+          rawContent: 'audio/voice-1.m4a',
+          transcription: 'machan where are you',
+          translations: original.translations,
+          translatedAudioUrls: { english: 'audio/voice-1-en.mp3' },
+          isForwarded: true,
+        }),
+      );
+      expect(copy).not.toHaveProperty('replyToId');
+    });
+
+    it('un-archives the target chat for members who did not keep it archived', async () => {
+      await service.forwardMessage(original, 'user-1', 'group-9');
+
+      expect(messageRepo.manager.update).toHaveBeenCalledWith(
+        GroupMember,
+        { groupId: 'group-9', isArchived: true, keepArchived: false },
+        { isArchived: false },
+      );
+    });
+
+    it('rejects unknown source messages', async () => {
+      messageRepo.find.mockResolvedValue([original]);
+
+      await expect(
+        service.findMessagesToForward(['orig-1', 'missing-1']),
+      ).rejects.toThrow('One or more messages were not found');
+    });
+  });
+
+  describe('pins', () => {
+    it('quotes pinned messages and skips ones the viewer has hidden', async () => {
+      const sentAt = new Date('2026-03-01T08:00:00Z');
+      const pinQuery = buildQueryBuilder({
+        many: [
+          {
+            messageId: 'orig-1',
+            pinnedById: 'admin-1',
+            pinnedAt: new Date(),
+            message: { ...original, createdAt: sentAt },
+          },
+          {
+            messageId: 'hidden-1',
+            pinnedById: 'admin-1',
+            pinnedAt: new Date(),
+            message: { ...original, id: 'hidden-1', createdAt: sentAt },
+          },
+        ],
+      });
+      pinRepo.createQueryBuilder.mockReturnValue(pinQuery);
+      hiddenRepo.createQueryBuilder.mockReturnValue(
+        buildQueryBuilder({ raw: [{ message_id: 'hidden-1' }] }),
+      );
+
+      const pins = await service.getPinnedMessages('group-1', 'user-1');
+
+      expect(pins).toHaveLength(1);
+      expect(pins[0]).toEqual(
+        expect.objectContaining({
+          messageId: 'orig-1',
+          messageCreatedAt: sentAt,
+          message: expect.objectContaining({
+            text: 'machan where are you',
+            translations: original.translations,
+          }) as unknown,
+        }),
+      );
+    });
+
+    it('leaves out pins of messages from senders the viewer blocked', async () => {
+      const pinQuery = buildQueryBuilder({ many: [] });
+      pinRepo.createQueryBuilder.mockReturnValue(pinQuery);
+
+      await expect(
+        service.getPinnedMessages('group-1', 'user-1'),
+      ).resolves.toEqual([]);
+
+      expect(pinQuery.andWhere).toHaveBeenCalledWith(
+        NOT_FROM_BLOCKED_SENDER_SQL,
+        { viewerId: 'user-1' },
+      );
+    });
+  });
+
+  describe('stars', () => {
+    it('lists saved messages in star order with the viewer language', async () => {
+      const firstStar = new Date('2026-03-02T09:00:00Z');
+      const secondStar = new Date('2026-03-01T09:00:00Z');
+      starRepo.createQueryBuilder.mockReturnValue(
+        buildQueryBuilder({
+          raw: [
+            {
+              message_id: 'voice-1',
+              starred_at: firstStar,
+              preferred_language: 'tanglish',
+            },
+            {
+              message_id: 'orig-1',
+              starred_at: secondStar,
+              preferred_language: 'english',
+            },
+          ],
+        }),
+      );
+      messageRepo.createQueryBuilder.mockReturnValue(
+        buildQueryBuilder({
+          many: [
+            { ...original, replyToId: null },
+            { ...original, id: 'voice-1', replyToId: null },
+          ],
+        }),
+      );
+      starRepo.find.mockResolvedValue([
+        { messageId: 'orig-1' },
+        { messageId: 'voice-1' },
+      ]);
+
+      const stars = await service.getStarredMessages('user-1', { limit: 30 });
+
+      expect(
+        stars.map((s) => [s.id, s.starredAt, s.preferredLanguage, s.isStarred]),
+      ).toEqual([
+        ['voice-1', firstStar, 'tanglish', true],
+        ['orig-1', secondStar, 'english', true],
+      ]);
+    });
+
+    it('leaves out stars of messages from senders the viewer blocked', async () => {
+      const starQuery = buildQueryBuilder({
+        raw: [
+          {
+            message_id: 'orig-1',
+            starred_at: new Date(),
+            preferred_language: 'english',
+          },
+        ],
+      });
+      starRepo.createQueryBuilder.mockReturnValue(starQuery);
+      const messageQuery = buildQueryBuilder({ many: [] });
+      messageRepo.createQueryBuilder.mockReturnValue(messageQuery);
+
+      await expect(
+        service.getStarredMessages('user-1', { limit: 30 }),
+      ).resolves.toEqual([]);
+
+      expect(starQuery.andWhere).toHaveBeenCalledWith(
+        NOT_FROM_BLOCKED_SENDER_SQL,
+        { viewerId: 'user-1' },
+      );
+      expect(messageQuery.andWhere).toHaveBeenCalledWith(
+        NOT_FROM_BLOCKED_SENDER_SQL,
+      );
+    });
+
+    it('skips the message lookup when nothing is starred', async () => {
+      starRepo.createQueryBuilder.mockReturnValue(buildQueryBuilder({}));
+
+      await expect(
+        service.getStarredMessages('user-1', { limit: 30 }),
+      ).resolves.toEqual([]);
+      expect(messageRepo.createQueryBuilder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('search', () => {
+    const hit = (id: string, groupId: string) => ({
+      m_id: id,
+      m_group_id: groupId,
+      m_content_type: MessageContentType.TEXT,
+      m_raw_content: 'kohomada',
+      m_transcription: null,
+      m_file_name: null,
+      m_created_at: new Date('2026-03-01T09:00:00Z'),
+      u_id: 'user-2',
+      u_display_name: 'Kasun',
+      headline: '<<how>> are you',
+    });
+
+    it('groups matches by conversation, newest conversation first', async () => {
+      const qb = buildQueryBuilder({
+        one: { conversations: '2', matches: '4' },
+      });
+      qb.getRawMany
+        .mockResolvedValueOnce([
+          { group_id: 'group-2', total: '1' },
+          { group_id: 'group-1', total: '3' },
+        ])
+        .mockResolvedValueOnce([
+          hit('m-3', 'group-1'),
+          hit('m-2', 'group-2'),
+          hit('m-1', 'group-1'),
+        ]);
+      messageRepo.createQueryBuilder.mockReturnValue(qb);
+      messageRepo.manager.createQueryBuilder.mockReturnValue(
+        buildQueryBuilder({
+          raw: [{ id: 'm-1' }, { id: 'm-2' }, { id: 'm-3' }],
+        }),
+      );
+
+      const res = await service.searchAllMessages('user-1', 'how are', {
+        contentType: MessageContentType.TEXT,
+      });
+
+      expect(qb.where).toHaveBeenCalledWith(
+        "m.search_vector @@ to_tsquery('simple', :tsq)",
+        { tsq: 'how:* & are:*' },
+      );
+      expect(res.total).toBe(4);
+      expect(res.totalConversations).toBe(2);
+      expect(
+        res.conversations.map((c) => [
+          c.groupId,
+          c.total,
+          c.results.map((r) => r.id),
+        ]),
+      ).toEqual([
+        ['group-2', 1, ['m-2']],
+        ['group-1', 3, ['m-3', 'm-1']],
+      ]);
+    });
+
+    it('skips the database when the query has nothing searchable', async () => {
+      await expect(
+        service.searchAllMessages('user-1', ' && :*() ', {}),
+      ).resolves.toEqual({
+        conversations: [],
+        totalConversations: 0,
+        total: 0,
+      });
+      expect(messageRepo.createQueryBuilder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('edits', () => {
+    function sentMinutesAgo(minutes: number, editWindowMinutes = 15) {
+      return {
+        ...original,
+        sender: { id: 'user-2' },
+        group: { editWindowMinutes },
+        linkPreview: null,
+        createdAt: new Date(Date.now() - minutes * 60 * 1000),
+      } as unknown as Message;
+    }
+
+    it('keeps the previous wording and translations as a revision', async () => {
+      messageRepo.findOne.mockResolvedValue(sentMinutesAgo(5));
+
+      const edited = await service.editMessage(
+        'orig-1',
+        'user-2',
+        'machan where r u now',
+      );
+
+      expect(entityManager.insert).toHaveBeenCalledWith(
+        MessageRevision,
+        expect.objectContaining({
+          messageId: 'orig-1',
+          rawContent: 'machan where are you',
+          translations: original.translations,
+        }),
+      );
+      expect(edited).toEqual(
+        expect.objectContaining({
+          rawContent: 'machan where r u now',
+          isEdited: true,
+          translations: null,
+        }),
+      );
+    });
+
+    it("enforces the conversation's edit window", async () => {
+      messageRepo.findOne.mockResolvedValue(sentMinutesAgo(20));
+      await expect(
+        service.editMessage('orig-1', 'user-2', 'too late'),
+      ).rejects.toThrow('within 15 minutes');
+
+      messageRepo.findOne.mockResolvedValue(sentMinutesAgo(20, 60));
+      await expect(
+        service.editMessage('orig-1', 'user-2', 'still fine'),
+      ).resolves.toBeDefined();
+
+      messageRepo.findOne.mockResolvedValue(sentMinutesAgo(0, 0));
+      await expect(
+        service.editMessage('orig-1', 'user-2', 'no edits here'),
+      ).rejects.toThrow('Editing is turned off');
+      expect(entityManager.insert).toHaveBeenCalledTimes(1);
+    });
+  });
+});
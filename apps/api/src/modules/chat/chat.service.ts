@@ -1,9 +1,26 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { In, QueryFailedError, Repository, SelectQueryBuilder } from 'typeorm';
+import {
+  In,
+  LessThan,
+  QueryFailedError,
+  Repository,
+  SelectQueryBuilder,
+} from 'typeorm';
 
 import { Message, MessageContentType } from './entities/message.entity';
 import { MessageHiddenByUser } from './entities/message-hidden-by-user.entity';
+import { NOT_FROM_BLOCKED_SENDER_SQL } from './entities/user-block.entity';
+import { MessageReaction } from './entities/message-reaction.entity';
+import { PinnedMessage } from './entities/pinned-message.entity';
+import { MessageRevision } from './entities/message-revision.entity';
+import { StarredMessage } from './entities/starred-message.entity';
+import { GroupMember } from './entities/group-member.entity';
+import { User } from '../../core/identity/entities/user.entity';
+import { PollView, PollsService } from './polls.service';
+import { LinkPreviewData } from './entities/link-preview.entity';
+import { extractFirstUrl } from './link-preview';
+import { extractMediaUrl } from './media-url';
 import {
   Translations,
   ExtractedAction,
@@ -19,10 +36,136 @@ export interface SearchResult {
   contentType: MessageContentType;
   rawContent: string;
   transcription: string | null;
+  fileName: string | null;
   headline: string;
   createdAt: Date;
 }
 
+export interface MessageSearchFilters {
+  senderId?: string;
+  contentType?: MessageContentType;
+  /** Inclusive lower bound on the send time. */
+  from?: Date;
+  /** Exclusive upper bound on the send time. */
+  to?: Date;
+}
+
+/** Matches in one conversation — the newest few plus how many there are. */
+export interface ConversationSearchResult {
+  groupId: string;
+  total: number;
+  results: SearchResult[];
+}
+
+/**
+ * Compact quote of the message a reply points at. `isDeleted` is set when the
+ * original no longer exists or the viewer has hidden it — only the id survives.
+ */
+export interface ReplyPreview {
+  id: string;
+  isDeleted: boolean;
+  senderId: string | null;
+  senderName: string | null;
+  contentType: MessageContentType | null;
+  /** Raw text for TEXT, transcription for AUDIO, the question for POLL. */
+  text: string | null;
+  fileName: string | null;
+  translations: Translations | null;
+}
+
+/** Aggregated reactions for one emoji on one message, oldest emoji first. */
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+}
+
+/** A pin as shown in a viewer's banner — the message is quoted like a reply. */
+export interface PinnedMessageView {
+  messageId: string;
+  pinnedById: string | null;
+  pinnedAt: Date;
+  /** When the pinned message was sent, so clients can page history back to it. */
+  messageCreatedAt: Date;
+  message: ReplyPreview;
+}
+
+/** One earlier version of an edited message, as shown in its edit history. */
+export type MessageRevisionView = Pick<
+  MessageRevision,
+  'id' | 'rawContent' | 'translations' | 'editedAt'
+>;
+
+/** A history row as returned to a specific viewer. */
+export type ChatHistoryMessage = Omit<Message, 'replyTo'> & {
+  replyTo: ReplyPreview | null;
+  reactions: ReactionSummary[];
+  /** Set for POLL messages only. */
+  poll: PollView | null;
+  /** Whether the viewer has saved this message. */
+  isStarred: boolean;
+};
+
+export interface StarredMessageFilters {
+  groupId?: string;
+  contentType?: MessageContentType;
+  /** Cursor — only stars older than this (the last `starredAt` of the previous page). */
+  before?: Date;
+  limit: number;
+}
+
+/**
+ * Turns free text into a prefix tsquery ("hel wor" → "hel:* & wor:*") so
+ * partial words still match. Null when nothing searchable is left.
+ */
+function toPrefixTsQuery(query: string): string | null {
+  const sanitised = query.replace(/[&|!<>():*'"\\]/g, ' ').trim();
+  if (!sanitised) return null;
+  return sanitised
+    .split(/\s+/)
+    .map((t) => `${t}:*`)
+    .join(' & ');
+}
+
+/**
+ * Snippet around the match, with matching terms wrapped in << >>. Spans the
+ * same fields as the search vector so a hit on a file name or a translation
+ * still shows why it matched.
+ */
+const SEARCH_HEADLINE_SQL = `ts_headline(
+  'simple',
+  concat_ws(
+    ' … ',
+    CASE WHEN m.content_type IN ('TEXT', 'POLL') THEN m.raw_content ELSE m.transcription END,
+    m.file_name,
+    m.translations ->> 'english',
+    m.translations ->> 'singlish',
+    m.translations ->> 'tanglish'
+  ),
+  to_tsquery('simple', :tsq),
+  'StartSel=<<, StopSel=>>, MaxWords=35, MinWords=15, MaxFragments=1'
+)`;
+
+interface SearchResultRow {
+  m_id: string;
+  m_group_id: string;
+  m_content_type: MessageContentType;
+  m_raw_content: string;
+  m_transcription: string | null;
+  m_file_name: string | null;
+  m_created_at: Date;
+  u_id: string;
+  u_display_name: string;
+  headline: string;
+}
+
+/** A saved message plus what the viewer needs to show it outside its chat. */
+export type StarredMessageView = ChatHistoryMessage & {
+  starredAt: Date;
+  /** The viewer's language for that conversation, else their native dialect. */
+  preferredLanguage: string;
+};
+
 @Injectable()
 export class ChatService {
   constructor(
@@ -30,6 +173,15 @@ export class ChatService {
     private readonly messageRepository: Repository<Message>,
     @InjectRepository(MessageHiddenByUser)
     private readonly hiddenMessageRepository: Repository<MessageHiddenByUser>,
+    @InjectRepository(MessageReaction)
+    private readonly reactionRepository: Repository<MessageReaction>,
+    @InjectRepository(PinnedMessage)
+    private readonly pinnedMessageRepository: Repository<PinnedMessage>,
+    @InjectRepository(MessageRevision)
+    private readonly revisionRepository: Repository<MessageRevision>,
+    @InjectRepository(StarredMessage)
+    private readonly starredMessageRepository: Repository<StarredMessage>,
+    private readonly pollsService: PollsService,
   ) {}
 
   private applyVisibilityFilter(
@@ -43,7 +195,8 @@ export class ChatService {
         'mh.message_id = m.id AND mh.user_id = :viewerId',
         { viewerId: userId },
       )
-      .andWhere('mh.id IS NULL');
+      .andWhere('mh.id IS NULL')
+      .andWhere(NOT_FROM_BLOCKED_SENDER_SQL);
   }
 
   private normalizeClientTempId(clientTempId?: string | null): string | null {
@@ -96,6 +249,8 @@ export class ChatService {
     extractedActions: ExtractedAction[] | null = null,
     clientTempId?: string | null,
     fileName?: string | null,
+    replyToId?: string | null,
+    mentionedUserIds: string[] = [],
   ): Promise<Message> {
     const normalizedClientTempId = this.normalizeClientTempId(clientTempId);
     if (normalizedClientTempId) {
@@ -123,10 +278,13 @@ export class ChatService {
       ...(extractedActions &&
         extractedActions.length > 0 && { extractedActions }),
       ...(fileName != null && { fileName }),
+      ...(replyToId != null && { replyToId }),
+      ...(mentionedUserIds.length > 0 && { mentionedUserIds }),
     });
 
+    let saved: Message;
     try {
-      return await this.messageRepository.save(message);
+      saved = await this.messageRepository.save(message);
     } catch (error) {
       if (
         normalizedClientTempId &&
@@ -143,6 +301,9 @@ export class ChatService {
       }
       throw error;
     }
+
+    await this.unarchiveForNewMessage(groupId);
+    return saved;
   }
 
   async findMessageByClientTempId(
@@ -160,34 +321,33 @@ export class ChatService {
     userId: string,
     page: number = 1,
     limit: number = 50,
-  ): Promise<Message[]> {
+  ): Promise<ChatHistoryMessage[]> {
     const skip = (page - 1) * limit;
 
-    const qb = this.messageRepository
-      .createQueryBuilder('m')
-      .leftJoinAndSelect('m.sender', 'sender')
+    const qb = this.createHistoryQuery()
       .where('m.group_id = :groupId', { groupId })
       .orderBy('m.created_at', 'DESC')
       .offset(skip)
       .limit(limit);
 
     this.applyVisibilityFilter(qb, userId);
-    return qb.getMany();
+    return this.toHistoryMessages(await qb.getMany(), userId);
   }
 
   /**
    * Returns ALL messages for a group in chronological (ASC) order.
    * Used by the mobile client to eagerly load the full chat history.
    */
-  async getAllMessages(groupId: string, userId: string): Promise<Message[]> {
-    const qb = this.messageRepository
-      .createQueryBuilder('m')
-      .leftJoinAndSelect('m.sender', 'sender')
+  async getAllMessages(
+    groupId: string,
+    userId: string,
+  ): Promise<ChatHistoryMessage[]> {
+    const qb = this.createHistoryQuery()
       .where('m.group_id = :groupId', { groupId })
       .orderBy('m.created_at', 'ASC');
 
     this.applyVisibilityFilter(qb, userId);
-    return qb.getMany();
+    return this.toHistoryMessages(await qb.getMany(), userId);
   }
 
   /**
@@ -200,17 +360,544 @@ export class ChatService {
     userId: string,
     before: string,
     limit: number = 30,
-  ): Promise<Message[]> {
-    const qb = this.messageRepository
-      .createQueryBuilder('m')
-      .leftJoinAndSelect('m.sender', 'sender')
+  ): Promise<ChatHistoryMessage[]> {
+    const qb = this.createHistoryQuery()
       .where('m.group_id = :groupId', { groupId })
       .andWhere('m.created_at < :before', { before: new Date(before) })
       .orderBy('m.created_at', 'DESC')
       .limit(limit);
 
     this.applyVisibilityFilter(qb, userId);
-    return qb.getMany();
+    return this.toHistoryMessages(await qb.getMany(), userId);
+  }
+
+  /**
+   * Loads the message a new reply points at and checks it lives in the same
+   * conversation. Throws a plain Error so callers can map it to their own
+   * transport (WsException / BadRequestException).
+   */
+  async resolveReplyTarget(
+    groupId: string,
+    replyToId: string,
+  ): Promise<Message> {
+    const target = await this.findMessageById(replyToId);
+    if (!target || target.groupId !== groupId) {
+      throw new Error('The message you are replying to was not found');
+    }
+    return target;
+  }
+
+  buildReplyPreview(
+    replyToId: string,
+    original: Message | null | undefined,
+  ): ReplyPreview {
+    if (!original) {
+      return {
+        id: replyToId,
+        isDeleted: true,
+        senderId: null,
+        senderName: null,
+        contentType: null,
+        text: null,
+        fileName: null,
+        translations: null,
+      };
+    }
+
+    const text =
+      original.contentType === MessageContentType.TEXT ||
+      original.contentType === MessageContentType.POLL
+        ? original.rawContent
+        : original.contentType === MessageContentType.AUDIO
+          ? (original.transcription ?? null)
+          : null;
+
+    return {
+      id: original.id,
+      isDeleted: false,
+      senderId: original.sender?.id ?? null,
+      senderName: original.sender?.displayName ?? null,
+      contentType: original.contentType,
+      text,
+      fileName: original.fileName ?? null,
+      translations: original.translations ?? null,
+    };
+  }
+
+  private createHistoryQuery(): SelectQueryBuilder<Message> {
+    return this.messageRepository
+      .createQueryBuilder('m')
+      .leftJoinAndSelect('m.sender', 'sender')
+      .leftJoinAndSelect('m.replyTo', 'rt')
+      .leftJoinAndSelect('rt.sender', 'rtSender');
+  }
+
+  /**
+   * Swaps the joined `replyTo` entity for a viewer-specific preview and
+   * attaches aggregated reactions and poll results. Quotes of messages the viewer has hidden
+   * are reported as deleted, same as quotes of messages that were removed for
+   * everyone.
+   */
+  private async toHistoryMessages(
+    messages: Message[],
+    viewerId: string,
+  ): Promise<ChatHistoryMessage[]> {
+    const replyToIds = [
+      ...new Set(
+        messages
+          .map((m) => m.replyToId)
+          .filter((id): id is string => typeof id === 'string'),
+      ),
+    ];
+    const hiddenIds = await this.findHiddenMessageIds(replyToIds, viewerId);
+    const reactions = await this.getReactionSummaries(
+      messages.map((m) => m.id),
+    );
+    const polls = await this.pollsService.getPollViews(
+      messages
+        .filter((m) => m.contentType === MessageContentType.POLL)
+        .map((m) => m.id),
+      viewerId,
+    );
+    const starredIds = await this.findStarredMessageIds(
+      messages.map((m) => m.id),
+      viewerId,
+    );
+
+    return messages.map(({ replyTo, ...message }) => ({
+      ...message,
+      replyTo: message.replyToId
+        ? this.buildReplyPreview(
+            message.replyToId,
+            hiddenIds.has(message.replyToId) ? null : replyTo,
+          )
+        : null,
+      reactions: reactions.get(message.id) ?? [],
+      poll: polls.get(message.id) ?? null,
+      isStarred: starredIds.has(message.id),
+    }));
+  }
+
+  private async findHiddenMessageIds(
+    messageIds: string[],
+    viewerId: string,
+  ): Promise<Set<string>> {
+    if (messageIds.length === 0) return new Set();
+
+    const rows: Array<{ message_id: string }> =
+      await this.hiddenMessageRepository
+        .createQueryBuilder('mh')
+        .select('mh.message_id', 'message_id')
+        .where('mh.user_id = :viewerId', { viewerId })
+        .andWhere('mh.message_id IN (:...messageIds)', { messageIds })
+        .getRawMany();
+
+    return new Set(rows.map((r) => r.message_id));
+  }
+
+  // ── Stars ───────────────────────────────────────────────────────────────
+
+  /** Saves a message for the user. Starring twice is a no-op. */
+  async starMessage(messageId: string, userId: string): Promise<void> {
+    await this.starredMessageRepository
+      .createQueryBuilder()
+      .insert()
+      .into(StarredMessage)
+      .values({ messageId, userId })
+      .orIgnore()
+      .execute();
+  }
+
+  async unstarMessage(messageId: string, userId: string): Promise<void> {
+    await this.starredMessageRepository.delete({ messageId, userId });
+  }
+
+  /**
+   * The user's saved messages across every conversation they're still in,
+   * most recently starred first. Messages they've hidden or that come from
+   * someone they blocked are left out.
+   */
+  async getStarredMessages(
+    userId: string,
+    filters: StarredMessageFilters,
+  ): Promise<StarredMessageView[]> {
+    const qb = this.starredMessageRepository
+      .createQueryBuilder('sm')
+      .select('sm.message_id', 'message_id')
+      .addSelect('sm.starred_at', 'starred_at')
+      .addSelect(
+        'COALESCE(gm.preferred_language, u.native_dialect)',
+        'preferred_language',
+      )
+      .innerJoin(Message, 'm', 'm.id = sm.message_id')
+      .innerJoin(
+        GroupMember,
+        'gm',
+        'gm.group_id = m.group_id AND gm.user_id = sm.user_id',
+      )
+      .innerJoin(User, 'u', 'u.id = sm.user_id')
+      .leftJoin(
+        MessageHiddenByUser,
+        'mh',
+        'mh.message_id = m.id AND mh.user_id = sm.user_id',
+      )
+      .where('sm.user_id = :userId', { userId })
+      .andWhere('mh.id IS NULL')
+      .andWhere(NOT_FROM_BLOCKED_SENDER_SQL, { viewerId: userId });
+
+    if (filters.groupId) {
+      qb.andWhere('m.group_id = :groupId', { groupId: filters.groupId });
+    }
+    if (filters.contentType) {
+      qb.andWhere('m.content_type = :contentType', {
+        contentType: filters.contentType,
+      });
+    }
+    if (filters.before) {
+      qb.andWhere('sm.starred_at < :before', { before: filters.before });
+    }
+
+    const stars: Array<{
+      message_id: string;
+      starred_at: Date;
+      preferred_language: string;
+    }> = await qb
+      .orderBy('sm.starred_at', 'DESC')
+      .limit(filters.limit)
+      .getRawMany();
+    if (stars.length === 0) return [];
+
+    const messages = await this.applyVisibilityFilter(
+      this.createHistoryQuery().where('m.id IN (:...ids)', {
+        ids: stars.map((s) => s.message_id),
+      }),
+      userId,
+    ).getMany();
+    const byId = new Map(
+      (await this.toHistoryMessages(messages, userId)).map((m) => [m.id, m]),
+    );
+
+    return stars.flatMap((star) => {
+      const message = byId.get(star.message_id);
+      return message
+        ? [
+            {
+              ...message,
+              starredAt: star.starred_at,
+              preferredLanguage: star.preferred_language,
+            },
+          ]
+        : [];
+    });
+  }
+
+  private async findStarredMessageIds(
+    messageIds: string[],
+    viewerId: string,
+  ): Promise<Set<string>> {
+    if (messageIds.length === 0) return new Set();
+
+    const stars = await this.starredMessageRepository.find({
+      where: { userId: viewerId, messageId: In(messageIds) },
+      select: ['id', 'messageId'],
+    });
+    return new Set(stars.map((s) => s.messageId));
+  }
+
+  // ── Forwarding ──────────────────────────────────────────────────────────
+
+  /**
+   * Loads the messages to forward, oldest first so copies keep their order.
+   * Throws when any id is unknown.
+   */
+  async findMessagesToForward(messageIds: string[]): Promise<Message[]> {
+    const uniqueIds = [...new Set(messageIds)];
+    const messages = await this.messageRepository.find({
+      where: { id: In(uniqueIds) },
+      relations: ['sender'],
+      order: { createdAt: 'ASC' },
+    });
+    if (messages.length !== uniqueIds.length) {
+      throw new Error('One or more messages were not found');
+    }
+    if (messages.some((m) => m.contentType === MessageContentType.POLL)) {
+      throw new Error('Polls cannot be forwarded');
+    }
+    return messages;
+  }
+
+  /**
+   * Copies a message into another conversation as `userId`. The media
+   * reference and all AI output are reused, so nothing is re-uploaded or
+   * re-translated. Reply links are dropped — they point into the source chat.
+   */
+  async forwardMessage(
+    original: Message,
+    userId: string,
+    targetGroupId: string,
+  ): Promise<Message> {
+    const copy = this.messageRepository.create({
+      sender: { id: userId },
+      groupId: targetGroupId,
+      contentType: original.contentType,
+      rawContent: original.rawContent,
+      fileName: original.fileName,
+      transcription: original.transcription,
+      translations: original.translations,
+      detectedLanguage: original.detectedLanguage,
+      originalTone: original.originalTone,
+      translatedAudioUrls: original.translatedAudioUrls,
+      confidenceScore: original.confidenceScore,
+      extractedActions: original.extractedActions,
+      summary: original.summary,
+      linkPreview: original.linkPreview,
+      isForwarded: true,
+    });
+    const saved = await this.messageRepository.save(copy);
+    await this.unarchiveForNewMessage(targetGroupId);
+    return saved;
+  }
+
+  /** Brings the chat back to members' main lists unless they chose to keep it archived. */
+  private async unarchiveForNewMessage(groupId: string): Promise<void> {
+    await this.messageRepository.manager.update(
+      GroupMember,
+      { groupId, isArchived: true, keepArchived: false },
+      { isArchived: false },
+    );
+  }
+
+  // ── Reactions ───────────────────────────────────────────────────────────
+
+  /**
+   * Adds `emoji` from `userId` to a message in `groupId`. Reacting twice with
+   * the same emoji is a no-op. Returns the message's updated reactions.
+   */
+  async addReaction(
+    messageId: string,
+    userId: string,
+    groupId: string,
+    emoji: string,
+  ): Promise<ReactionSummary[]> {
+    await this.assertMessageInGroup(messageId, groupId);
+
+    await this.reactionRepository
+      .createQueryBuilder()
+      .insert()
+      .into(MessageReaction)
+      .values({
+        message: { id: messageId },
+        user: { id: userId },
+        emoji,
+      })
+      .orIgnore()
+      .execute();
+
+    return this.getMessageReactions(messageId);
+  }
+
+  /** Removes `userId`'s `emoji` reaction, if any. Returns updated reactions. */
+  async removeReaction(
+    messageId: string,
+    userId: string,
+    groupId: string,
+    emoji: string,
+  ): Promise<ReactionSummary[]> {
+    await this.assertMessageInGroup(messageId, groupId);
+
+    await this.reactionRepository
+      .createQueryBuilder()
+      .delete()
+      .from(MessageReaction)
+      .where('message_id = :messageId', { messageId })
+      .andWhere('user_id = :userId', { userId })
+      .andWhere('emoji = :emoji', { emoji })
+      .execute();
+
+    return this.getMessageReactions(messageId);
+  }
+
+  async getMessageReactions(messageId: string): Promise<ReactionSummary[]> {
+    const summaries = await this.getReactionSummaries([messageId]);
+    return summaries.get(messageId) ?? [];
+  }
+
+  private async assertMessageInGroup(
+    messageId: string,
+    groupId: string,
+  ): Promise<void> {
+    const exists = await this.messageRepository.exists({
+      where: { id: messageId, groupId },
+    });
+    if (!exists) throw new Error('Message not found');
+  }
+
+  /**
+   * One grouped query for a whole history page — counts and reactor ids per
+   * (message, emoji), ordered by when each emoji was first used.
+   */
+  private async getReactionSummaries(
+    messageIds: string[],
+  ): Promise<Map<string, ReactionSummary[]>> {
+    const byMessage = new Map<string, ReactionSummary[]>();
+    if (messageIds.length === 0) return byMessage;
+
+    const rows: Array<{
+      message_id: string;
+      emoji: string;
+      count: string;
+      user_ids: string[];
+    }> = await this.reactionRepository
+      .createQueryBuilder('r')
+      .select('r.message_id', 'message_id')
+      .addSelect('r.emoji', 'emoji')
+      .addSelect('COUNT(*)', 'count')
+      .addSelect('ARRAY_AGG(r.user_id::text ORDER BY r.created_at)', 'user_ids')
+      .where('r.message_id IN (:...messageIds)', { messageIds })
+      .groupBy('r.message_id')
+      .addGroupBy('r.emoji')
+      .orderBy('MIN(r.created_at)', 'ASC')
+      .getRawMany();
+
+    for (const row of rows) {
+      const list = byMessage.get(row.message_id) ?? [];
+      list.push({
+        emoji: row.emoji,
+        count: Number(row.count),
+        userIds: row.user_ids,
+      });
+      byMessage.set(row.message_id, list);
+    }
+
+    return byMessage;
+  }
+
+  // ── Pins ────────────────────────────────────────────────────────────────
+
+  /**
+   * Newest pins first. Pins of messages the viewer has hidden are left out
+   * for that viewer only.
+   */
+  async getPinnedMessages(
+    groupId: string,
+    viewerId: string,
+  ): Promise<PinnedMessageView[]> {
+    const pins = await this.pinnedMessageRepository
+      .createQueryBuilder('p')
+      .leftJoinAndSelect('p.message', 'm')
+      .leftJoinAndSelect('m.sender', 'sender')
+      .where('p.group_id = :groupId', { groupId })
+      .andWhere(NOT_FROM_BLOCKED_SENDER_SQL, { viewerId })
+      .orderBy('p.pinned_at', 'DESC')
+      .getMany();
+    const hiddenIds = await this.findHiddenMessageIds(
+      pins.map((p) => p.messageId),
+      viewerId,
+    );
+
+    return pins
+      .filter((p) => !hiddenIds.has(p.messageId))
+      .map((p) => ({
+        messageId: p.messageId,
+        pinnedById: p.pinnedById,
+        pinnedAt: p.pinnedAt,
+        messageCreatedAt: p.message.createdAt,
+        message: this.buildReplyPreview(p.messageId, p.message),
+      }));
+  }
+
+  async findPinnedMessageIds(groupId: string): Promise<string[]> {
+    const pins = await this.pinnedMessageRepository.find({
+      where: { groupId },
+      select: ['id', 'messageId'],
+    });
+    return pins.map((p) => p.messageId);
+  }
+
+  /** Pins a message. Returns false when it was already pinned. */
+  async pinMessage(
+    groupId: string,
+    messageId: string,
+    userId: string,
+  ): Promise<boolean> {
+    const result = await this.pinnedMessageRepository
+      .createQueryBuilder()
+      .insert()
+      .into(PinnedMessage)
+      .values({ groupId, messageId, pinnedById: userId })
+      .orIgnore()
+      .execute();
+    // Postgres returns no row when ON CONFLICT skipped the insert.
+    return Array.isArray(result.raw) && result.raw.length > 0;
+  }
+
+  /** Unpins a message. Returns false when it wasn't pinned. */
+  async unpinMessage(groupId: string, messageId: string): Promise<boolean> {
+    const result = await this.pinnedMessageRepository.delete({
+      groupId,
+      messageId,
+    });
+    return !!result.affected;
+  }
+
+  // ── Retention ─────────────────────────────────────────────────────────────
+
+  /** Messages sent before `before`, oldest first, for the retention sweeper. */
+  async findExpiredMessages(
+    groupId: string,
+    before: Date,
+    limit: number,
+  ): Promise<Message[]> {
+    return this.messageRepository.find({
+      where: { groupId, createdAt: LessThan(before) },
+      select: ['id', 'contentType', 'rawContent', 'translatedAudioUrls'],
+      order: { createdAt: 'ASC' },
+      take: limit,
+      loadEagerRelations: false,
+    });
+  }
+
+  /**
+   * Hard-deletes the messages and returns the storage references (media
+   * uploads and generated TTS audio) that can go with them. Forwarded copies
+   * share the original's objects, so anything a surviving message still
+   * points at is kept.
+   */
+  async purgeMessages(messages: Message[]): Promise<string[]> {
+    if (messages.length === 0) return [];
+
+    const ids = messages.map((m) => m.id);
+    const rawRefs = messages
+      .filter(
+        (m) =>
+          m.contentType !== MessageContentType.TEXT &&
+          m.contentType !== MessageContentType.POLL,
+      )
+      .map((m) => m.rawContent);
+    const ttsRefs = messages.flatMap((m) =>
+      Object.values(m.translatedAudioUrls ?? {}).filter(
+        (url): url is string => typeof url === 'string' && url.length > 0,
+      ),
+    );
+
+    const stillUsed: Array<{ ref: string }> =
+      rawRefs.length > 0 || ttsRefs.length > 0
+        ? await this.messageRepository.query(
+            `SELECT m.raw_content AS ref FROM messages m
+              WHERE m.id <> ALL($1::uuid[]) AND m.raw_content = ANY($2::text[])
+             UNION
+             SELECT t.value AS ref
+               FROM messages m, jsonb_each_text(m.translated_audio_urls) t
+              WHERE m.id <> ALL($1::uuid[]) AND t.value = ANY($3::text[])`,
+            [ids, rawRefs, ttsRefs],
+          )
+        : [];
+    const keep = new Set(stillUsed.map((row) => row.ref));
+
+    await this.messageRepository.delete({ id: In(ids) });
+
+    const orphaned = [...rawRefs, ...ttsRefs].filter((ref) => !keep.has(ref));
+    return [...new Set(orphaned.map((ref) => extractMediaUrl(ref)))];
   }
 
   async findMessageById(id: string): Promise<Message | null> {
@@ -232,6 +919,18 @@ export class ChatService {
     });
   }
 
+  /**
+   * Stores the preview for the message's first link. Skipped when the message
+   * was edited to point elsewhere while the page was being fetched.
+   */
+  async setLinkPreview(id: string, preview: LinkPreviewData): Promise<boolean> {
+    const msg = await this.messageRepository.findOne({ where: { id } });
+    if (!msg || extractFirstUrl(msg.rawContent) !== preview.url) return false;
+
+    await this.messageRepository.update(id, { linkPreview: preview });
+    return true;
+  }
+
   /**
    * Phase-2 update: persist translations, confidence score, transcription,
    * and extracted actions for a message that was already saved in Phase 1.
@@ -277,11 +976,14 @@ export class ChatService {
   /**
    * Hard-deletes sender-owned messages for all participants. Validates each
    * message belongs to the requesting user and to the active group.
+   * `asModerator` skips the ownership check — callers must have already
+   * authorised the moderator.
    */
   async deleteMessages(
     messageIds: string[],
     userId: string,
     groupId: string,
+    options: { asModerator?: boolean } = {},
   ): Promise<void> {
     if (messageIds.length === 0) return;
 
@@ -296,7 +998,7 @@ export class ChatService {
       if (msg.groupId !== groupId) {
         throw new Error('One or more messages do not belong to this group');
       }
-      if (msg.sender.id !== userId) {
+      if (!options.asModerator && msg.sender.id !== userId) {
         throw new Error('You can only delete your own messages');
       }
     }
@@ -345,18 +1047,19 @@ export class ChatService {
   }
 
   /**
-   * Edits the raw content of a TEXT message. Enforces:
-   * - message exists & belongs to the user
-   * - contentType is TEXT
-   * - message is within the 15-minute edit window
-   * Clears translations/confidenceScore so a re-translation can be triggered.
+   * Replaces a text message's content, keeping the previous version (and its
+   * translations) as a revision. The edit window comes from the conversation.
    */
   async editMessage(
     messageId: string,
     userId: string,
     newContent: string,
+    mentionedUserIds: string[] = [],
   ): Promise<Message> {
-    const msg = await this.findMessageById(messageId);
+    const msg = await this.messageRepository.findOne({
+      where: { id: messageId },
+      relations: ['sender', 'group'],
+    });
     if (!msg) throw new Error('Message not found');
     if (msg.sender.id !== userId) {
       throw new Error('You can only edit your own messages');
@@ -365,26 +1068,52 @@ export class ChatService {
       throw new Error('Only text messages can be edited');
     }
 
-    const fifteenMinutesAgo = new Date(Date.now() - 15 * 60 * 1000);
-    if (msg.createdAt < fifteenMinutesAgo) {
+    const windowMinutes = msg.group.editWindowMinutes;
+    if (windowMinutes <= 0) {
+      throw new Error('Editing is turned off in this conversation');
+    }
+    if (Date.now() - msg.createdAt.getTime() > windowMinutes * 60 * 1000) {
       throw new Error(
-        'Messages can only be edited within 15 minutes of sending',
+        `Messages can only be edited within ${windowMinutes} minute${windowMinutes === 1 ? '' : 's'} of sending`,
       );
     }
 
+    const revision = {
+      messageId: msg.id,
+      rawContent: msg.rawContent,
+      translations: msg.translations,
+      editedAt: new Date(),
+    };
+
+    if (extractFirstUrl(newContent) !== msg.linkPreview?.url) {
+      msg.linkPreview = null;
+    }
     msg.rawContent = newContent;
+    msg.mentionedUserIds = mentionedUserIds;
     msg.isEdited = true;
     msg.translations = null;
     msg.confidenceScore = null;
 
-    return this.messageRepository.save(msg);
+    return this.messageRepository.manager.transaction(async (em) => {
+      await em.insert(MessageRevision, revision);
+      return em.save(msg);
+    });
   }
 
+  /** Earlier versions of a message, oldest first. */
+  async getMessageRevisions(messageId: string): Promise<MessageRevisionView[]> {
+    return this.revisionRepository.find({
+      where: { messageId },
+      select: ['id', 'rawContent', 'translations', 'editedAt'],
+      order: { editedAt: 'ASC' },
+    });
+  }
+
+  // ── Search ──────────────────────────────────────────────────────────────
+
   /**
-   * Full-text search across raw_content and transcription columns using
-   * PostgreSQL's built-in tsvector/tsquery. Falls back to a flexible
-   * prefix + partial matching strategy so users can search with partial
-   * words and multi-term queries.
+   * Full-text search within one conversation, newest first. Matches the
+   * indexed search vector with a prefix query so partial words still hit.
    *
    * @param groupId  Scope to a single conversation
    * @param query    User's raw search text
@@ -398,75 +1127,167 @@ export class ChatService {
     page: number = 1,
     limit: number = 20,
   ): Promise<{ results: SearchResult[]; total: number }> {
-    const skip = (page - 1) * limit;
+    const tsQuery = toPrefixTsQuery(query);
+    if (!tsQuery) return { results: [], total: 0 };
 
-    // Sanitise: strip tsquery special chars, collapse whitespace
-    const sanitised = query.replace(/[&|!<>():*'"\\]/g, ' ').trim();
-    if (!sanitised) return { results: [], total: 0 };
+    const qb = this.createSearchQuery(userId, tsQuery).andWhere(
+      'm.group_id = :groupId',
+      { groupId },
+    );
+    const total = await qb.getCount();
 
-    // Build prefix tsquery: each word becomes word:* so "hel wor" → "hel:* & wor:*"
-    const terms = sanitised.split(/\s+/).filter(Boolean);
-    const tsQueryExpr = terms.map((t) => `${t}:*`).join(' & ');
+    const rows: SearchResultRow[] = await this.selectSearchResultColumns(qb)
+      .orderBy('m.created_at', 'DESC')
+      .offset((page - 1) * limit)
+      .limit(limit)
+      .getRawMany();
 
-    // Also build ILIKE patterns for a fallback OR condition (catches partial
-    // matches that the stemmer might miss, e.g. transliterated Sinhala/Tamil text).
-    const ilikePattern = `%${sanitised}%`;
+    return { results: rows.map((r) => this.toSearchResult(r)), total };
+  }
 
-    const qb = this.messageRepository
-      .createQueryBuilder('m')
-      .innerJoin('m.sender', 'u')
-      .where('m.group_id = :groupId', { groupId })
-      .andWhere(
-        `(
-          to_tsvector('simple', COALESCE(m.raw_content, ''))  @@ to_tsquery('simple', :tsq)
-          OR to_tsvector('simple', COALESCE(m.transcription, '')) @@ to_tsquery('simple', :tsq)
-          OR m.raw_content ILIKE :ilike
-          OR m.transcription ILIKE :ilike
-        )`,
-        { tsq: tsQueryExpr, ilike: ilikePattern },
-      );
+  /**
+   * Search across every conversation the user belongs to, grouped by
+   * conversation. Conversations are ordered by their newest match and each
+   * carries at most `perConversation` hits — the per-group search pages
+   * through the rest.
+   */
+  async searchAllMessages(
+    userId: string,
+    query: string,
+    filters: MessageSearchFilters,
+    page: number = 1,
+    limit: number = 20,
+    perConversation: number = 3,
+  ): Promise<{
+    conversations: ConversationSearchResult[];
+    totalConversations: number;
+    total: number;
+  }> {
+    const empty = { conversations: [], totalConversations: 0, total: 0 };
+    const tsQuery = toPrefixTsQuery(query);
+    if (!tsQuery) return empty;
 
-    this.applyVisibilityFilter(qb, userId);
+    const qb = this.createSearchQuery(userId, tsQuery).innerJoin(
+      GroupMember,
+      'gm',
+      'gm.group_id = m.group_id AND gm.user_id = :memberId',
+      { memberId: userId },
+    );
+    if (filters.senderId) {
+      qb.andWhere('u.id = :senderId', { senderId: filters.senderId });
+    }
+    if (filters.contentType) {
+      qb.andWhere('m.content_type = :contentType', {
+        contentType: filters.contentType,
+      });
+    }
+    if (filters.from) {
+      qb.andWhere('m.created_at >= :from', { from: filters.from });
+    }
+    if (filters.to) {
+      qb.andWhere('m.created_at < :to', { to: filters.to });
+    }
 
-    const total = await qb.getCount();
+    const totals: { conversations: string; matches: string } | undefined =
+      await qb
+        .clone()
+        .select('COUNT(DISTINCT m.group_id)', 'conversations')
+        .addSelect('COUNT(*)', 'matches')
+        .getRawOne();
+    const total = Number(totals?.matches ?? 0);
+    if (total === 0) return empty;
 
-    const rows: Array<{
-      m_id: string;
-      m_group_id: string;
-      m_content_type: MessageContentType;
-      m_raw_content: string;
-      m_transcription: string | null;
-      m_created_at: Date;
-      u_id: string;
-      u_display_name: string;
-      headline: string;
-    }> = await qb
-      .select([
-        'm.id AS m_id',
-        'm.group_id AS m_group_id',
-        'm.content_type AS m_content_type',
-        'm.raw_content AS m_raw_content',
-        'm.transcription AS m_transcription',
-        'm.created_at AS m_created_at',
-        'u.id AS u_id',
-        'u.display_name AS u_display_name',
-        `ts_headline(
-          'simple',
-          COALESCE(
-            CASE WHEN m.content_type = 'TEXT' THEN m.raw_content ELSE NULL END,
-            m.transcription,
-            m.raw_content
-          ),
-          to_tsquery('simple', :tsq),
-          'StartSel=<<, StopSel=>>, MaxWords=35, MinWords=15, MaxFragments=1'
-        ) AS headline`,
-      ])
-      .orderBy('m.created_at', 'DESC')
-      .offset(skip)
+    const groups: Array<{ group_id: string; total: string }> = await qb
+      .clone()
+      .select('m.group_id', 'group_id')
+      .addSelect('COUNT(*)', 'total')
+      .groupBy('m.group_id')
+      .orderBy('MAX(m.created_at)', 'DESC')
+      .offset((page - 1) * limit)
       .limit(limit)
       .getRawMany();
 
-    const results: SearchResult[] = rows.map((r) => ({
+    const conversations: ConversationSearchResult[] = groups.map((g) => ({
+      groupId: g.group_id,
+      total: Number(g.total),
+      results: [],
+    }));
+
+    if (groups.length > 0) {
+      // Rank inside each conversation first so headlines are only built for
+      // the hits that are actually returned.
+      const ranked = qb
+        .clone()
+        .select('m.id', 'id')
+        .addSelect(
+          'ROW_NUMBER() OVER (PARTITION BY m.group_id ORDER BY m.created_at DESC)',
+          'rank',
+        )
+        .andWhere('m.group_id IN (:...groupIds)', {
+          groupIds: groups.map((g) => g.group_id),
+        });
+      const top: Array<{ id: string }> = await this.messageRepository.manager
+        .createQueryBuilder()
+        .select('ranked.id', 'id')
+        .from(`(${ranked.getQuery()})`, 'ranked')
+        .where('ranked.rank <= :perConversation', { perConversation })
+        .setParameters(ranked.getParameters())
+        .getRawMany();
+
+      const rows: SearchResultRow[] = await this.selectSearchResultColumns(
+        this.createSearchQuery(userId, tsQuery).andWhere('m.id IN (:...ids)', {
+          ids: top.map((t) => t.id),
+        }),
+      )
+        .orderBy('m.created_at', 'DESC')
+        .getRawMany();
+
+      const byGroup = new Map(conversations.map((c) => [c.groupId, c]));
+      for (const row of rows) {
+        byGroup.get(row.m_group_id)?.results.push(this.toSearchResult(row));
+      }
+    }
+
+    return {
+      conversations,
+      totalConversations: Number(totals?.conversations ?? 0),
+      total,
+    };
+  }
+
+  /** Visible messages whose search vector matches `tsQuery`, joined to the sender. */
+  private createSearchQuery(
+    userId: string,
+    tsQuery: string,
+  ): SelectQueryBuilder<Message> {
+    const qb = this.messageRepository
+      .createQueryBuilder('m')
+      .innerJoin('m.sender', 'u')
+      .where("m.search_vector @@ to_tsquery('simple', :tsq)", {
+        tsq: tsQuery,
+      });
+    return this.applyVisibilityFilter(qb, userId);
+  }
+
+  private selectSearchResultColumns(
+    qb: SelectQueryBuilder<Message>,
+  ): SelectQueryBuilder<Message> {
+    return qb.select([
+      'm.id AS m_id',
+      'm.group_id AS m_group_id',
+      'm.content_type AS m_content_type',
+      'm.raw_content AS m_raw_content',
+      'm.transcription AS m_transcription',
+      'm.file_name AS m_file_name',
+      'm.created_at AS m_created_at',
+      'u.id AS u_id',
+      'u.display_name AS u_display_name',
+      `${SEARCH_HEADLINE_SQL} AS headline`,
+    ]);
+  }
+
+  private toSearchResult(r: SearchResultRow): SearchResult {
+    return {
       id: r.m_id,
       groupId: r.m_group_id,
       senderId: r.u_id,
@@ -474,10 +1295,9 @@ export class ChatService {
       contentType: r.m_content_type,
       rawContent: r.m_raw_content,
       transcription: r.m_transcription,
+      fileName: r.m_file_name,
       headline: r.headline,
       createdAt: r.m_created_at,
-    }));
-
-    return { results, total };
+    };
   }
 }
@@ -0,0 +1,45 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  Request,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+
+import { JwtAuthGuard } from '../../core/identity/guards/jwt-auth.guard';
+import { ConversationExportService } from './conversation-export.service';
+import { ExportConversationDto } from './dto/export-conversation.dto';
+
+interface AuthRequest {
+  user: { sub: string; email: string };
+}
+
+@Controller('groups/:id/export')
+@UseGuards(JwtAuthGuard)
+export class ConversationExportController {
+  constructor(private readonly exportService: ConversationExportService) {}
+
+  /**
+   * GET /groups/:id/export?format=&content=&language=&timezone= — download
+   * the conversation as JSON, plain text or printable HTML.
+   */
+  @Get()
+  async exportConversation(
+    @Param('id', ParseUUIDPipe) groupId: string,
+    @Query() query: ExportConversationDto,
+    @Request() req: AuthRequest,
+  ): Promise<StreamableFile> {
+    const file = await this.exportService.exportConversation(
+      groupId,
+      req.user.sub,
+      query,
+    );
+    return new StreamableFile(Buffer.from(file.body, 'utf8'), {
+      type: file.contentType,
+      disposition: `attachment; filename="${file.fileName}"`,
+    });
+  }
+}
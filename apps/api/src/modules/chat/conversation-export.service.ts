@@ -0,0 +1,182 @@
+import { ForbiddenException, Injectable } from '@nestjs/common';
+
+import { ChatHistoryMessage, ChatService } from './chat.service';
+import { MessageContentType } from './entities/message.entity';
+import {
+  ConversationExport,
+  ExportedMessage,
+  renderExportHtml,
+  renderExportJson,
+  renderExportText,
+} from './conversation-export';
+import { signMediaUrl } from './media-url';
+import {
+  ExportContent,
+  ExportConversationDto,
+  ExportFormat,
+} from './dto/export-conversation.dto';
+import { GroupsService } from '../groups/groups.service';
+import {
+  SUPPORTED_LANGUAGES,
+  SupportedLanguage,
+} from '../translation/translation.service';
+import { S3StorageService } from '../../core/common/storage/s3-storage.service';
+
+/** Longest a presigned S3 link can live — exports are meant to be kept. */
+const MEDIA_LINK_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  [ExportFormat.JSON]: 'application/json; charset=utf-8',
+  [ExportFormat.TEXT]: 'text/plain; charset=utf-8',
+  [ExportFormat.HTML]: 'text/html; charset=utf-8',
+};
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  [ExportFormat.JSON]: 'json',
+  [ExportFormat.TEXT]: 'txt',
+  [ExportFormat.HTML]: 'html',
+};
+
+export interface ExportFile {
+  fileName: string;
+  contentType: string;
+  body: string;
+}
+
+@Injectable()
+export class ConversationExportService {
+  constructor(
+    private readonly chatService: ChatService,
+    private readonly groupsService: GroupsService,
+    private readonly s3StorageService: S3StorageService,
+  ) {}
+
+  /**
+   * Full transcript of a conversation as the caller sees it — messages they
+   * hid are left out.
+   */
+  async exportConversation(
+    groupId: string,
+    userId: string,
+    options: ExportConversationDto,
+  ): Promise<ExportFile> {
+    const membership = await this.groupsService.findMembership(groupId, userId);
+    if (!membership) {
+      throw new ForbiddenException('You are not a member of this conversation');
+    }
+
+    const format = options.format ?? ExportFormat.TEXT;
+    const content = options.content ?? ExportContent.BOTH;
+    const language =
+      options.language ??
+      this.asLanguage(membership.preferredLanguage) ??
+      this.asLanguage(membership.user.nativeDialect);
+    const exportedAt = new Date();
+
+    const [history, members] = await Promise.all([
+      this.chatService.getAllMessages(groupId, userId),
+      this.groupsService.findMentionCandidates(groupId),
+    ]);
+    const title = membership.group.isGroup
+      ? (membership.group.name ?? 'Group chat')
+      : `Chat with ${
+          members
+            .filter((m) => m.userId !== userId)
+            .map((m) => m.displayName)
+            .join(', ') || 'a former member'
+        }`;
+
+    const data: ConversationExport = {
+      conversation: {
+        id: groupId,
+        title,
+        isGroup: membership.group.isGroup,
+      },
+      exportedAt,
+      exportedBy: membership.user.displayName,
+      language,
+      content,
+      mediaLinksExpireAt: new Date(
+        exportedAt.getTime() + MEDIA_LINK_TTL_SECONDS * 1000,
+      ),
+      messages: await Promise.all(
+        history.map((m) => this.toExportedMessage(m, language)),
+      ),
+    };
+
+    const timezone = options.timezone ?? 'UTC';
+    const body =
+      format === ExportFormat.JSON
+        ? renderExportJson(data)
+        : format === ExportFormat.HTML
+          ? renderExportHtml(data, timezone)
+          : renderExportText(data, timezone);
+
+    return {
+      fileName: `${this.slugify(title)}-${exportedAt.toISOString().slice(0, 10)}.${FILE_EXTENSIONS[format]}`,
+      contentType: CONTENT_TYPES[format],
+      body,
+    };
+  }
+
+  private async toExportedMessage(
+    m: ChatHistoryMessage,
+    language: SupportedLanguage | null,
+  ): Promise<ExportedMessage> {
+    const isMedia =
+      m.contentType === MessageContentType.AUDIO ||
+      m.contentType === MessageContentType.IMAGE ||
+      m.contentType === MessageContentType.DOCUMENT;
+    const original =
+      m.contentType === MessageContentType.TEXT ||
+      m.contentType === MessageContentType.POLL
+        ? m.rawContent
+        : m.contentType === MessageContentType.AUDIO
+          ? m.transcription || null
+          : null;
+    const translated = language ? m.translations?.[language] : null;
+
+    return {
+      id: m.id,
+      sentAt: m.createdAt,
+      senderName: m.sender?.displayName ?? 'Unknown',
+      contentType: m.contentType,
+      original,
+      translation: translated && translated !== original ? translated : null,
+      fileName: m.fileName,
+      mediaUrl: isMedia
+        ? await signMediaUrl(
+            this.s3StorageService,
+            m.rawContent,
+            MEDIA_LINK_TTL_SECONDS,
+          )
+        : null,
+      pollOptions:
+        m.poll?.options.map((o) => ({ text: o.text, votes: o.voteCount })) ??
+        null,
+      replyTo: m.replyTo
+        ? {
+            senderName: m.replyTo.isDeleted ? null : m.replyTo.senderName,
+            text: m.replyTo.text ?? m.replyTo.fileName,
+          }
+        : null,
+      isEdited: m.isEdited,
+      isForwarded: m.isForwarded,
+    };
+  }
+
+  private asLanguage(
+    value: string | null | undefined,
+  ): SupportedLanguage | null {
+    return SUPPORTED_LANGUAGES.find((l) => l === value) ?? null;
+  }
+
+  private slugify(title: string): string {
+    const slug = title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60);
+    return slug || 'conversation';
+  }
+}
@@ -0,0 +1,88 @@
+import {
+  ConversationExport,
+  ExportedMessage,
+  renderExportHtml,
+  renderExportText,
+} from './conversation-export';
+import { ExportContent } from './dto/export-conversation.dto';
+import { MessageContentType } from './entities/message.entity';
+
+describe('conversation export', () => {
+  const message = (overrides: Partial<ExportedMessage>): ExportedMessage => ({
+    id: 'm-1',
+    sentAt: new Date('2026-03-01T04:30:00Z'),
+    senderName: 'Kasun',
+    contentType: MessageContentType.TEXT,
+    original: 'kohomada machan',
+    translation: 'how are you, buddy',
+    fileName: null,
+    mediaUrl: null,
+    pollOptions: null,
+    replyTo: null,
+    isEdited: false,
+    isForwarded: false,
+    ...overrides,
+  });
+
+  const build = (
+    content: ExportContent,
+    messages: ExportedMessage[],
+  ): ConversationExport => ({
+    conversation: { id: 'group-1', title: 'Site visit', isGroup: true },
+    exportedAt: new Date('2026-03-02T00:00:00Z'),
+    exportedBy: 'Nimali',
+    language: 'english',
+    content,
+    mediaLinksExpireAt: new Date('2026-03-09T00:00:00Z'),
+    messages,
+  });
+
+  it('writes the original, the translation and media links as text', () => {
+    const text = renderExportText(
+      build(ExportContent.BOTH, [
+        message({}),
+        message({
+          id: 'm-2',
+          contentType: MessageContentType.AUDIO,
+          original: 'api heta enawa',
+          translation: null,
+          mediaUrl: 'https://cdn.example/voice.m4a',
+          isEdited: true,
+        }),
+      ]),
+      'Asia/Colombo',
+    );
+
+    expect(text).toContain('[1 Mar 2026, 10:00 GMT+5:30] Kasun:');
+    expect(text).toContain('  kohomada machan\n  English: how are you, buddy');
+    expect(text).toContain('Kasun (Voice note, edited):\n  api heta enawa');
+    expect(text).toContain('  Link: https://cdn.example/voice.m4a');
+  });
+
+  it('uses the translation alone when asked, falling back to the original', () => {
+    const text = renderExportText(
+      build(ExportContent.TRANSLATION, [
+        message({}),
+        message({ id: 'm-2', original: 'ok', translation: null }),
+      ]),
+      'UTC',
+    );
+
+    expect(text).toContain('  how are you, buddy\n');
+    expect(text).not.toContain('kohomada');
+    expect(text).toContain('  ok\n');
+  });
+
+  it('escapes message text in the printable page', () => {
+    const html = renderExportHtml(
+      build(ExportContent.ORIGINAL, [
+        message({ original: '<script>alert("x")</script>' }),
+      ]),
+      'UTC',
+    );
+
+    expect(html).toContain('&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;');
+    expect(html).not.toContain('<script>');
+    expect(html).not.toContain('how are you');
+  });
+});
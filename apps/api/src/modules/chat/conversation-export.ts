@@ -0,0 +1,230 @@
+import { MessageContentType } from './entities/message.entity';
+import { ExportContent } from './dto/export-conversation.dto';
+import { SupportedLanguage } from '../translation/translation.service';
+
+/** One message as it appears in an export, already resolved for the viewer. */
+export interface ExportedMessage {
+  id: string;
+  sentAt: Date;
+  senderName: string;
+  contentType: MessageContentType;
+  /** Typed text, poll question, or what was said in a voice note. */
+  original: string | null;
+  /** `original` in the export language; null when missing or identical. */
+  translation: string | null;
+  fileName: string | null;
+  /** Time-limited link to the image, voice note or document. */
+  mediaUrl: string | null;
+  pollOptions: Array<{ text: string; votes: number }> | null;
+  replyTo: { senderName: string | null; text: string | null } | null;
+  isEdited: boolean;
+  isForwarded: boolean;
+}
+
+export interface ConversationExport {
+  conversation: { id: string; title: string; isGroup: boolean };
+  exportedAt: Date;
+  exportedBy: string;
+  language: SupportedLanguage | null;
+  content: ExportContent;
+  /** When media links stop working. */
+  mediaLinksExpireAt: Date;
+  messages: ExportedMessage[];
+}
+
+const LANGUAGE_LABELS: Record<SupportedLanguage, string> = {
+  english: 'English',
+  singlish: 'Singlish',
+  tanglish: 'Tanglish',
+};
+
+const MEDIA_LABELS: Partial<Record<MessageContentType, string>> = {
+  [MessageContentType.AUDIO]: 'Voice note',
+  [MessageContentType.IMAGE]: 'Photo',
+  [MessageContentType.DOCUMENT]: 'Document',
+  [MessageContentType.POLL]: 'Poll',
+};
+
+export function renderExportJson(data: ConversationExport): string {
+  return JSON.stringify(data, null, 2);
+}
+
+export function renderExportText(
+  data: ConversationExport,
+  timezone: string,
+): string {
+  const formatTime = timeFormatter(timezone);
+  const lines = [
+    data.conversation.title,
+    `Exported ${formatTime(data.exportedAt)} by ${data.exportedBy}`,
+    describeContent(data),
+    '',
+  ];
+
+  for (const m of data.messages) {
+    const tags = messageTags(m);
+    lines.push(
+      `[${formatTime(m.sentAt)}] ${m.senderName}${tags ? ` (${tags})` : ''}:`,
+    );
+    if (m.replyTo) {
+      lines.push(
+        `  > ${m.replyTo.senderName ?? 'Deleted message'}: ${m.replyTo.text ?? '…'}`,
+      );
+    }
+    for (const text of bodyLines(m, data)) {
+      lines.push(...text.split('\n').map((l) => `  ${l}`));
+    }
+    for (const option of m.pollOptions ?? []) {
+      lines.push(`  - ${option.text} (${plural(option.votes, 'vote')})`);
+    }
+    if (m.fileName) lines.push(`  File: ${m.fileName}`);
+    if (m.mediaUrl) lines.push(`  Link: ${m.mediaUrl}`);
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+export function renderExportHtml(
+  data: ConversationExport,
+  timezone: string,
+): string {
+  const formatTime = timeFormatter(timezone);
+  const rows = data.messages.map((m) => {
+    const tags = messageTags(m);
+    const parts = [
+      `<div class="meta"><strong>${escapeHtml(m.senderName)}</strong>` +
+        `<time>${escapeHtml(formatTime(m.sentAt))}</time>` +
+        (tags ? `<span class="tag">${escapeHtml(tags)}</span>` : '') +
+        '</div>',
+    ];
+    if (m.replyTo) {
+      parts.push(
+        `<blockquote>${escapeHtml(m.replyTo.senderName ?? 'Deleted message')}: ` +
+          `${escapeHtml(m.replyTo.text ?? '…')}</blockquote>`,
+      );
+    }
+    bodyLines(m, data).forEach((text, i) => {
+      parts.push(
+        `<p class="${i === 0 ? 'body' : 'translation'}">${escapeHtml(text)}</p>`,
+      );
+    });
+    if (m.pollOptions) {
+      parts.push(
+        '<ul>' +
+          m.pollOptions
+            .map(
+              (o) =>
+                `<li>${escapeHtml(o.text)} — ${plural(o.votes, 'vote')}</li>`,
+            )
+            .join('') +
+          '</ul>',
+      );
+    }
+    if (m.mediaUrl) {
+      parts.push(
+        `<p class="media"><a href="${escapeHtml(m.mediaUrl)}">` +
+          `${escapeHtml(m.fileName ?? MEDIA_LABELS[m.contentType] ?? 'Attachment')}</a></p>`,
+      );
+    }
+    return `<article>${parts.join('')}</article>`;
+  });
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(data.conversation.title)}</title>
+<style>
+  body { font: 14px/1.5 -apple-system, "Segoe UI", Roboto, sans-serif; color: #111827; max-width: 760px; margin: 32px auto; padding: 0 16px; }
+  header { border-bottom: 2px solid #e5e7eb; margin-bottom: 16px; }
+  header p { color: #6b7280; margin: 4px 0 12px; }
+  article { padding: 10px 0; border-bottom: 1px solid #f3f4f6; break-inside: avoid; }
+  .meta { display: flex; gap: 8px; align-items: baseline; }
+  time, .tag { color: #6b7280; font-size: 12px; }
+  p { margin: 4px 0 0; white-space: pre-wrap; }
+  .translation { color: #4b5563; font-style: italic; }
+  blockquote { margin: 4px 0; padding-left: 8px; border-left: 3px solid #d1d5db; color: #6b7280; }
+  ul { margin: 4px 0 0; }
+  a { color: #2563eb; word-break: break-all; }
+  @media print { body { margin: 0; max-width: none; } a { color: inherit; } }
+</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(data.conversation.title)}</h1>
+<p>Exported ${escapeHtml(formatTime(data.exportedAt))} by ${escapeHtml(data.exportedBy)}<br>${escapeHtml(describeContent(data))}</p>
+</header>
+${rows.join('\n')}
+</body>
+</html>
+`;
+}
+
+/** The text blocks to print for a message — original first, then translation. */
+function bodyLines(m: ExportedMessage, data: ConversationExport): string[] {
+  const original =
+    m.original ?? (m.mediaUrl ? `[${MEDIA_LABELS[m.contentType]}]` : null);
+  const translation =
+    m.translation && data.language
+      ? `${LANGUAGE_LABELS[data.language]}: ${m.translation}`
+      : null;
+
+  switch (data.content) {
+    case ExportContent.ORIGINAL:
+      return original ? [original] : [];
+    case ExportContent.TRANSLATION:
+      // Fall back to the original where there's nothing to translate.
+      return [m.translation ?? original].filter((t): t is string => !!t);
+    default:
+      return [original, translation].filter((t): t is string => !!t);
+  }
+}
+
+function messageTags(m: ExportedMessage): string {
+  return [
+    m.contentType !== MessageContentType.TEXT && MEDIA_LABELS[m.contentType],
+    m.isForwarded && 'forwarded',
+    m.isEdited && 'edited',
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
+
+function describeContent(data: ConversationExport): string {
+  const language = data.language ? LANGUAGE_LABELS[data.language] : null;
+  const wording =
+    data.content === ExportContent.ORIGINAL || !language
+      ? 'Original messages'
+      : data.content === ExportContent.TRANSLATION
+        ? `Messages in ${language}`
+        : `Original messages with ${language} translations`;
+  return `${wording} · ${plural(data.messages.length, 'message')} · media links expire ${data.mediaLinksExpireAt.toISOString().slice(0, 10)}`;
+}
+
+function timeFormatter(timezone: string): (date: Date) => string {
+  const format = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  });
+  return (date) => format.format(date);
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
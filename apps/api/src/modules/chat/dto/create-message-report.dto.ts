@@ -0,0 +1,25 @@
+import {
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+
+import { ReportReason } from '../entities/message-report.entity';
+
+export class CreateMessageReportDto {
+  @IsUUID('all', { message: 'messageId must be a valid UUID' })
+  messageId!: string;
+
+  @IsEnum(ReportReason, {
+    message:
+      'reason must be one of: SPAM, HARASSMENT, HATE_SPEECH, VIOLENCE, NUDITY, OTHER',
+  })
+  reason!: ReportReason;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500, { message: 'Details are too long (max 500 characters)' })
+  details?: string;
+}
@@ -0,0 +1,27 @@
+import {
+  IsISO8601,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateScheduledMessageDto {
+  @IsUUID('all', { message: 'groupId must be a valid UUID' })
+  groupId!: string;
+
+  @IsString()
+  @IsNotEmpty({ message: 'Message cannot be empty' })
+  @MaxLength(2000, { message: 'Message is too long (max 2000 characters)' })
+  rawContent!: string;
+
+  @IsISO8601({ strict: true }, { message: 'sendAt must be an ISO 8601 date' })
+  sendAt!: string;
+
+  /** IANA timezone name of the sender's device, e.g. "Asia/Colombo" */
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  timezone?: string;
+}
@@ -0,0 +1,44 @@
+import { IsEnum, IsIn, IsOptional, IsTimeZone } from 'class-validator';
+
+import {
+  SUPPORTED_LANGUAGES,
+  type SupportedLanguage,
+} from '../../translation/translation.service';
+
+export enum ExportFormat {
+  JSON = 'json',
+  TEXT = 'text',
+  /** Self-contained page with print styles — "Save as PDF" from any browser. */
+  HTML = 'html',
+}
+
+/** Which wording of each message goes into the transcript. */
+export enum ExportContent {
+  ORIGINAL = 'original',
+  TRANSLATION = 'translation',
+  BOTH = 'both',
+}
+
+export class ExportConversationDto {
+  @IsOptional()
+  @IsEnum(ExportFormat, { message: 'format must be one of: json, text, html' })
+  format?: ExportFormat;
+
+  @IsOptional()
+  @IsEnum(ExportContent, {
+    message: 'content must be one of: original, translation, both',
+  })
+  content?: ExportContent;
+
+  /** Translation to include. Defaults to the caller's language for the conversation. */
+  @IsOptional()
+  @IsIn(SUPPORTED_LANGUAGES, {
+    message: 'language must be one of: english, singlish, tanglish',
+  })
+  language?: SupportedLanguage;
+
+  /** IANA zone for the timestamps in text and HTML, e.g. "Asia/Colombo". */
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
+}
@@ -0,0 +1,14 @@
+import { IsEnum } from 'class-validator';
+
+export enum ReportAction {
+  DISMISS = 'dismiss',
+  DELETE_MESSAGE = 'delete_message',
+  REMOVE_SENDER = 'remove_sender',
+}
+
+export class ResolveMessageReportDto {
+  @IsEnum(ReportAction, {
+    message: 'action must be one of: dismiss, delete_message, remove_sender',
+  })
+  action!: ReportAction;
+}
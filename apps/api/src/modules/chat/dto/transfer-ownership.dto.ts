@@ -0,0 +1,7 @@
+import { IsUUID } from 'class-validator';
+
+export class TransferOwnershipDto {
+  /** Member who becomes the owner; the current owner stays on as an admin. */
+  @IsUUID('all', { message: 'userId must be a valid UUID' })
+  userId!: string;
+}
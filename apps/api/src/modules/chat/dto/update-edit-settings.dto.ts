@@ -0,0 +1,20 @@
+import { IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+import { RevisionVisibility } from '../entities/chat-group.entity';
+
+/** One day is the longest a message stays editable. */
+export const MAX_EDIT_WINDOW_MINUTES = 24 * 60;
+
+export class UpdateEditSettingsDto {
+  @IsOptional()
+  @IsInt({ message: 'editWindowMinutes must be a whole number of minutes' })
+  @Min(0)
+  @Max(MAX_EDIT_WINDOW_MINUTES)
+  editWindowMinutes?: number;
+
+  @IsOptional()
+  @IsEnum(RevisionVisibility, {
+    message: 'revisionVisibility must be one of: members, admins, sender',
+  })
+  revisionVisibility?: RevisionVisibility;
+}
@@ -0,0 +1,12 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+
+export class UpdateGroupPermissionsDto {
+  /** Announcement mode: only owners and admins can send messages. */
+  @IsOptional()
+  @IsBoolean()
+  onlyAdminsCanPost?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  onlyAdminsCanEditInfo?: boolean;
+}
@@ -0,0 +1,17 @@
+import { IsIn } from 'class-validator';
+
+import { GroupMemberRole } from '../entities/group-member.entity';
+import type { AssignableGroupRole } from '../../groups/groups.service';
+
+const ASSIGNABLE_ROLES: AssignableGroupRole[] = [
+  GroupMemberRole.ADMIN,
+  GroupMemberRole.MODERATOR,
+  GroupMemberRole.MEMBER,
+];
+
+export class UpdateMemberRoleDto {
+  @IsIn(ASSIGNABLE_ROLES, {
+    message: 'role must be one of: ADMIN, MODERATOR, MEMBER',
+  })
+  role!: AssignableGroupRole;
+}
@@ -0,0 +1,10 @@
+import { IsEnum } from 'class-validator';
+
+import { MessageRetention } from '../entities/chat-group.entity';
+
+export class UpdateMessageRetentionDto {
+  @IsEnum(MessageRetention, {
+    message: 'messageRetention must be one of: off, 24h, 7d, 90d',
+  })
+  messageRetention!: MessageRetention;
+}
@@ -0,0 +1,19 @@
+import {
+  IsISO8601,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class UpdateScheduledMessageDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty({ message: 'Message cannot be empty' })
+  @MaxLength(2000, { message: 'Message is too long (max 2000 characters)' })
+  rawContent?: string;
+
+  @IsOptional()
+  @IsISO8601({ strict: true }, { message: 'sendAt must be an ISO 8601 date' })
+  sendAt?: string;
+}
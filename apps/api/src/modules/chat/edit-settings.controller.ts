@@ -0,0 +1,61 @@
+import {
+  Body,
+  Controller,
+  Param,
+  ParseUUIDPipe,
+  Put,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+
+import { JwtAuthGuard } from '../../core/identity/guards/jwt-auth.guard';
+import { ChatGateway } from './chat.gateway';
+import { RevisionVisibility } from './entities/chat-group.entity';
+import { UpdateEditSettingsDto } from './dto/update-edit-settings.dto';
+import { GroupsService } from '../groups/groups.service';
+
+interface AuthRequest {
+  user: { sub: string; email: string };
+}
+
+interface EditSettings {
+  groupId: string;
+  editWindowMinutes: number;
+  revisionVisibility: RevisionVisibility;
+}
+
+@Controller('groups/:id/edit-settings')
+@UseGuards(JwtAuthGuard)
+export class EditSettingsController {
+  constructor(
+    private readonly groupsService: GroupsService,
+    private readonly chatGateway: ChatGateway,
+  ) {}
+
+  /**
+   * PUT /groups/:id/edit-settings — change how long messages stay editable
+   * and who may read their edit history. Omitted fields are left as they are.
+   */
+  @Put()
+  async setEditSettings(
+    @Param('id', ParseUUIDPipe) groupId: string,
+    @Body() dto: UpdateEditSettingsDto,
+    @Request() req: AuthRequest,
+  ): Promise<EditSettings> {
+    const group = await this.groupsService.setEditSettings(
+      groupId,
+      req.user.sub,
+      dto,
+    );
+    this.chatGateway.broadcastEditSettingsChanged(groupId, {
+      editWindowMinutes: group.editWindowMinutes,
+      revisionVisibility: group.revisionVisibility,
+      changedById: req.user.sub,
+    });
+    return {
+      groupId,
+      editWindowMinutes: group.editWindowMinutes,
+      revisionVisibility: group.revisionVisibility,
+    };
+  }
+}
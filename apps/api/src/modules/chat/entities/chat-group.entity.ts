@@ -7,6 +7,37 @@ import {
 } from 'typeorm';
 import { GroupMember } from './group-member.entity';
 import { Message } from './message.entity';
+import { PinnedMessage } from './pinned-message.entity';
+import {
+  SupportedLanguage,
+  Translations,
+} from '../../translation/translation.service';
+
+/** How long messages live before the sweeper deletes them ("disappearing messages"). */
+export enum MessageRetention {
+  OFF = 'off',
+  DAY = '24h',
+  WEEK = '7d',
+  QUARTER = '90d',
+}
+
+export const MESSAGE_RETENTION_MS: Record<
+  Exclude<MessageRetention, MessageRetention.OFF>,
+  number
+> = {
+  [MessageRetention.DAY]: 24 * 60 * 60 * 1000,
+  [MessageRetention.WEEK]: 7 * 24 * 60 * 60 * 1000,
+  [MessageRetention.QUARTER]: 90 * 24 * 60 * 60 * 1000,
+};
+
+/** Who besides the sender may read a message's edit history. */
+export enum RevisionVisibility {
+  MEMBERS = 'members',
+  ADMINS = 'admins',
+  SENDER = 'sender',
+}
+
+export const DEFAULT_EDIT_WINDOW_MINUTES = 15;
 
 @Entity('chat_groups')
 export class ChatGroup {
@@ -21,6 +52,71 @@ export class ChatGroup {
   @Column({ type: 'boolean', name: 'is_group', default: true })
   isGroup!: boolean;
 
+  /** Raw S3 URL — sign it before handing it to clients. */
+  @Column({ type: 'varchar', name: 'avatar_url', nullable: true })
+  avatarUrl!: string | null;
+
+  @Column({ type: 'text', name: 'description', nullable: true })
+  description!: string | null;
+
+  /** Description in every supported language; null until translated. */
+  @Column({ type: 'jsonb', name: 'description_translations', nullable: true })
+  descriptionTranslations!: Translations | null;
+
+  /** Preferred language handed to members when they join. */
+  @Column({
+    type: 'varchar',
+    name: 'default_language',
+    length: 8,
+    nullable: true,
+  })
+  defaultLanguage!: SupportedLanguage | null;
+
+  @Column({
+    type: 'varchar',
+    name: 'message_retention',
+    length: 8,
+    default: MessageRetention.OFF,
+    nullable: false,
+  })
+  messageRetention!: MessageRetention;
+
+  /** How long after sending a text message can be edited. 0 turns editing off. */
+  @Column({
+    type: 'int',
+    name: 'edit_window_minutes',
+    default: DEFAULT_EDIT_WINDOW_MINUTES,
+    nullable: false,
+  })
+  editWindowMinutes!: number;
+
+  @Column({
+    type: 'varchar',
+    name: 'revision_visibility',
+    length: 8,
+    default: RevisionVisibility.MEMBERS,
+    nullable: false,
+  })
+  revisionVisibility!: RevisionVisibility;
+
+  /** Announcement mode — everyone else can read but not post. */
+  @Column({
+    type: 'boolean',
+    name: 'only_admins_can_post',
+    default: false,
+    nullable: false,
+  })
+  onlyAdminsCanPost!: boolean;
+
+  /** Restricts renaming (and other group info) to owners and admins. */
+  @Column({
+    type: 'boolean',
+    name: 'only_admins_can_edit_info',
+    default: false,
+    nullable: false,
+  })
+  onlyAdminsCanEditInfo!: boolean;
+
   @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
   createdAt!: Date;
 
@@ -29,4 +125,7 @@ export class ChatGroup {
 
   @OneToMany(() => Message, (m) => m.group, { cascade: ['remove'] })
   messages!: Message[];
+
+  @OneToMany(() => PinnedMessage, (p) => p.group, { cascade: ['remove'] })
+  pinnedMessages!: PinnedMessage[];
 }
@@ -0,0 +1,59 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+import { User } from '../../../core/identity/entities/user.entity';
+import { ChatGroup } from './chat-group.entity';
+
+/**
+ * A shareable link into a group chat. Anyone holding the token can join
+ * until it expires, runs out of uses or an admin revokes it. Revoked links
+ * are kept so a stale link gets a clear "revoked" answer.
+ */
+@Entity('group_invites')
+@Index('idx_group_invites_group', ['groupId'])
+export class GroupInvite {
+  @PrimaryGeneratedColumn('uuid', { name: 'id' })
+  id!: string;
+
+  @Column({ type: 'uuid', name: 'group_id', nullable: false })
+  groupId!: string;
+
+  @ManyToOne(() => ChatGroup, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'group_id' })
+  group!: ChatGroup;
+
+  /** URL-safe random string — the part after `linklanka://join/`. */
+  @Column({ type: 'varchar', name: 'token', length: 32, unique: true })
+  token!: string;
+
+  @Column({ type: 'uuid', name: 'created_by_id', nullable: true })
+  createdById!: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'created_by_id' })
+  createdBy!: User | null;
+
+  /** Null = never expires. */
+  @Column({ type: 'timestamptz', name: 'expires_at', nullable: true })
+  expiresAt!: Date | null;
+
+  /** Null = unlimited. */
+  @Column({ type: 'integer', name: 'max_uses', nullable: true })
+  maxUses!: number | null;
+
+  @Column({ type: 'integer', name: 'use_count', default: 0, nullable: false })
+  useCount!: number;
+
+  @Column({ type: 'timestamptz', name: 'revoked_at', nullable: true })
+  revokedAt!: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
+  createdAt!: Date;
+}
@@ -5,16 +5,35 @@ import {
   JoinColumn,
   ManyToOne,
   PrimaryGeneratedColumn,
+  Unique,
 } from 'typeorm';
 import { ChatGroup } from './chat-group.entity';
 import { User } from '../../../core/identity/entities/user.entity';
 
+/**
+ * OWNER is the one member admins can't remove or demote; ownership only
+ * changes hands by transfer. MODERATORs can delete anyone's messages but
+ * don't manage settings or members.
+ */
 export enum GroupMemberRole {
+  OWNER = 'OWNER',
   ADMIN = 'ADMIN',
+  MODERATOR = 'MODERATOR',
   MEMBER = 'MEMBER',
 }
 
+/** Owners and admins manage the group's settings and members. */
+export function hasAdminRights(role: GroupMemberRole): boolean {
+  return role === GroupMemberRole.OWNER || role === GroupMemberRole.ADMIN;
+}
+
+/** Admin rights, or a moderator — may remove other people's messages. */
+export function hasModeratorRights(role: GroupMemberRole): boolean {
+  return hasAdminRights(role) || role === GroupMemberRole.MODERATOR;
+}
+
 @Entity('group_members')
+@Unique('uq_group_members_group_user', ['groupId', 'userId'])
 export class GroupMember {
   @PrimaryGeneratedColumn('uuid', { name: 'id' })
   id!: string;
@@ -53,6 +72,74 @@ export class GroupMember {
   })
   preferredLanguage!: string | null;
 
+  /**
+   * Newest message this member has read. Kept without a FK so a deleted
+   * message doesn't reset the read position.
+   */
+  @Column({
+    type: 'uuid',
+    name: 'last_read_message_id',
+    nullable: true,
+    default: null,
+  })
+  lastReadMessageId!: string | null;
+
+  /** `createdAt` of `lastReadMessageId` — unread counts and receipts compare against it. */
+  @Column({
+    type: 'timestamptz',
+    name: 'last_read_at',
+    nullable: true,
+    default: null,
+  })
+  lastReadAt!: Date | null;
+
+  /** No pushes until this time, except @mentions. Null = not muted. */
+  @Column({
+    type: 'timestamptz',
+    name: 'muted_until',
+    nullable: true,
+    default: null,
+  })
+  mutedUntil!: Date | null;
+
+  /** Hidden from the main chat list. A new message un-archives unless `keepArchived`. */
+  @Column({
+    type: 'boolean',
+    name: 'is_archived',
+    default: false,
+    nullable: false,
+  })
+  isArchived!: boolean;
+
+  @Column({
+    type: 'boolean',
+    name: 'keep_archived',
+    default: false,
+    nullable: false,
+  })
+  keepArchived!: boolean;
+
+  /** When the member pinned the chat to the top; the latest pin sorts first. */
+  @Column({
+    type: 'timestamptz',
+    name: 'pinned_at',
+    nullable: true,
+    default: null,
+  })
+  pinnedAt!: Date | null;
+
+  /**
+   * Set on the recipient of a DM from someone they share no conversation
+   * with, until they accept. Declining deletes the DM.
+   */
+  @Column({
+    type: 'boolean',
+    name: 'is_request',
+    default: false,
+    nullable: false,
+  })
+  isRequest!: boolean;
+
   @CreateDateColumn({ type: 'timestamptz', name: 'joined_at' })
   joinedAt!: Date;
 }
@@ -0,0 +1,39 @@
+import { Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+/** OpenGraph summary of the first link in a TEXT message. */
+export interface LinkPreviewData {
+  url: string;
+  title: string | null;
+  description: string | null;
+  imageUrl: string | null;
+  siteName: string | null;
+}
+
+/**
+ * Fetched previews keyed by URL, so a link pasted into many conversations is
+ * fetched once. Pages without usable metadata are cached too (all fields
+ * null) so they aren't refetched on every paste.
+ */
+@Entity('link_previews')
+export class LinkPreview {
+  @PrimaryGeneratedColumn('uuid', { name: 'id' })
+  id!: string;
+
+  @Column({ type: 'varchar', name: 'url', length: 2048, unique: true })
+  url!: string;
+
+  @Column({ type: 'varchar', name: 'title', length: 300, nullable: true })
+  title!: string | null;
+
+  @Column({ type: 'text', name: 'description', nullable: true })
+  description!: string | null;
+
+  @Column({ type: 'varchar', name: 'image_url', length: 2048, nullable: true })
+  imageUrl!: string | null;
+
+  @Column({ type: 'varchar', name: 'site_name', length: 200, nullable: true })
+  siteName!: string | null;
+
+  @Column({ type: 'timestamptz', name: 'fetched_at', nullable: false })
+  fetchedAt!: Date;
+}
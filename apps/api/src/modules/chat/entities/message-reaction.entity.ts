@@ -0,0 +1,39 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Unique,
+} from 'typeorm';
+
+import { User } from '../../../core/identity/entities/user.entity';
+import { Message } from './message.entity';
+
+/**
+ * One emoji reaction by one user on one message. A user may react with
+ * several different emojis, but only once per emoji.
+ */
+@Entity('message_reactions')
+@Unique('uq_message_reaction_user_emoji', ['message', 'user', 'emoji'])
+export class MessageReaction {
+  @PrimaryGeneratedColumn('uuid', { name: 'id' })
+  id!: string;
+
+  @ManyToOne(() => Message, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'message_id' })
+  @Index('idx_message_reactions_message_id')
+  message!: Message;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user!: User;
+
+  @Column({ type: 'varchar', length: 32, name: 'emoji' })
+  emoji!: string;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
+  createdAt!: Date;
+}
@@ -0,0 +1,101 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Unique,
+} from 'typeorm';
+
+import { User } from '../../../core/identity/entities/user.entity';
+import { ChatGroup } from './chat-group.entity';
+import { Message } from './message.entity';
+
+export enum ReportReason {
+  SPAM = 'SPAM',
+  HARASSMENT = 'HARASSMENT',
+  HATE_SPEECH = 'HATE_SPEECH',
+  VIOLENCE = 'VIOLENCE',
+  NUDITY = 'NUDITY',
+  OTHER = 'OTHER',
+}
+
+export enum ReportStatus {
+  OPEN = 'OPEN',
+  DISMISSED = 'DISMISSED',
+  MESSAGE_DELETED = 'MESSAGE_DELETED',
+  SENDER_REMOVED = 'SENDER_REMOVED',
+}
+
+/**
+ * A member flagging someone else's message. The report outlives the message
+ * (message_id is nulled on delete) so moderators keep a record of what was
+ * done; `senderId` is copied in for the same reason.
+ */
+@Entity('message_reports')
+@Unique('uq_message_reports_reporter_message', ['reporterId', 'messageId'])
+@Index('idx_message_reports_group_status', ['groupId', 'status'])
+export class MessageReport {
+  @PrimaryGeneratedColumn('uuid', { name: 'id' })
+  id!: string;
+
+  @Column({ type: 'uuid', name: 'message_id', nullable: true })
+  messageId!: string | null;
+
+  @ManyToOne(() => Message, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'message_id' })
+  message!: Message | null;
+
+  @Column({ type: 'uuid', name: 'group_id', nullable: false })
+  groupId!: string;
+
+  @ManyToOne(() => ChatGroup, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'group_id' })
+  group!: ChatGroup;
+
+  @Column({ type: 'uuid', name: 'reporter_id', nullable: false })
+  reporterId!: string;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'reporter_id' })
+  reporter!: User;
+
+  /** Author of the reported message. */
+  @Column({ type: 'uuid', name: 'sender_id', nullable: false })
+  senderId!: string;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'sender_id' })
+  sender!: User;
+
+  @Column({ type: 'varchar', name: 'reason', length: 16, nullable: false })
+  reason!: ReportReason;
+
+  @Column({ type: 'text', name: 'details', nullable: true })
+  details!: string | null;
+
+  @Column({
+    type: 'varchar',
+    name: 'status',
+    length: 16,
+    default: ReportStatus.OPEN,
+    nullable: false,
+  })
+  status!: ReportStatus;
+
+  /** Group admin or platform admin who closed the report. */
+  @Column({ type: 'uuid', name: 'resolved_by_id', nullable: true })
+  resolvedById!: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'resolved_by_id' })
+  resolvedBy!: User | null;
+
+  @Column({ type: 'timestamptz', name: 'resolved_at', nullable: true })
+  resolvedAt!: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
+  createdAt!: Date;
+}
@@ -0,0 +1,39 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+import { Message } from './message.entity';
+import { Translations } from '../../translation/translation.service';
+
+/**
+ * A superseded version of an edited message: the text it had and the
+ * translations that went with it. `editedAt` is when this version was
+ * replaced, so a message's revisions read oldest first.
+ */
+@Entity('message_revisions')
+@Index('idx_message_revisions_message_id', ['messageId', 'editedAt'])
+export class MessageRevision {
+  @PrimaryGeneratedColumn('uuid', { name: 'id' })
+  id!: string;
+
+  @Column({ type: 'uuid', name: 'message_id', nullable: false })
+  messageId!: string;
+
+  @ManyToOne(() => Message, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'message_id' })
+  message!: Message;
+
+  @Column({ type: 'text', name: 'raw_content', nullable: false })
+  rawContent!: string;
+
+  @Column({ type: 'jsonb', name: 'translations', nullable: true })
+  translations!: Translations | null;
+
+  @Column({ type: 'timestamptz', name: 'edited_at', nullable: false })
+  editedAt!: Date;
+}
@@ -3,11 +3,13 @@ import {
   PrimaryGeneratedColumn,
   Column,
   CreateDateColumn,
+  Index,
   ManyToOne,
   JoinColumn,
 } from 'typeorm';
 import { User } from '../../../core/identity/entities/user.entity';
 import { ChatGroup } from './chat-group.entity';
+import { LinkPreviewData } from './link-preview.entity';
 import {
   Translations,
   ExtractedAction,
@@ -20,9 +22,23 @@ export enum MessageContentType {
   AUDIO = 'AUDIO',
   IMAGE = 'IMAGE',
   DOCUMENT = 'DOCUMENT',
+  /** rawContent holds the question; options and votes live in `polls`. */
+  POLL = 'POLL',
 }
 
+/**
+ * What search matches against: typed text and poll questions, voice
+ * transcripts, document OCR text and file names, plus every translation so an
+ * English query also finds a Singlish message. Media URLs in raw_content are
+ * left out. Must stay identical to scripts/migrate-messages-search.sql.
+ */
+export const MESSAGE_SEARCH_VECTOR_SQL = `setweight(to_tsvector('simple', CASE WHEN content_type IN ('TEXT', 'POLL') THEN raw_content ELSE '' END), 'A')
+  || setweight(to_tsvector('simple', COALESCE(transcription, '')), 'A')
+  || setweight(to_tsvector('simple', COALESCE(file_name, '')), 'B')
+  || setweight(jsonb_to_tsvector('simple', COALESCE(translations, '{}'::jsonb), '["string"]'), 'C')`;
+
 @Entity('messages')
+@Index('idx_messages_group_created_at', ['groupId', 'createdAt'])
 export class Message {
   @PrimaryGeneratedColumn('uuid', { name: 'id' })
   id!: string;
@@ -100,10 +116,63 @@ export class Message {
   })
   isEdited: boolean;
 
+  /** Copied from another conversation via forward — shown as a label. */
+  @Column({
+    type: 'boolean',
+    name: 'is_forwarded',
+    default: false,
+    nullable: false,
+  })
+  isForwarded: boolean;
+
+  /** Group members resolved from `@displayName` tokens at send time. */
+  @Column({
+    type: 'uuid',
+    name: 'mentioned_user_ids',
+    array: true,
+    default: () => "'{}'",
+    nullable: false,
+  })
+  mentionedUserIds: string[];
+
+  /** Message this one replies to. Kept without a foreign key so the id
+   *  survives when the original is deleted — readers then get a
+   *  "message deleted" stub instead of losing the quote entirely. */
+  @Column({ type: 'uuid', name: 'reply_to_id', nullable: true })
+  @Index('idx_messages_reply_to_id')
+  replyToId: string | null;
+
+  @ManyToOne(() => Message, {
+    nullable: true,
+    eager: false,
+    createForeignKeyConstraints: false,
+  })
+  @JoinColumn({ name: 'reply_to_id' })
+  replyTo?: Message | null;
+
+  /** Preview of the first link in a TEXT message, filled in after sending. */
+  @Column({ type: 'jsonb', name: 'link_preview', nullable: true })
+  linkPreview: LinkPreviewData | null;
+
   /** AI-extracted actionable items (meetings, reminders) from the message content. */
   @Column({ type: 'jsonb', name: 'extracted_actions', nullable: true })
   extractedActions: ExtractedAction[] | null;
 
+  /** Maintained by Postgres from MESSAGE_SEARCH_VECTOR_SQL; never loaded. */
+  @Column({
+    type: 'tsvector',
+    name: 'search_vector',
+    generatedType: 'STORED',
+    asExpression: MESSAGE_SEARCH_VECTOR_SQL,
+    select: false,
+    insert: false,
+    update: false,
+    nullable: true,
+  })
+  // GIN index — created by the migration script; TypeORM can't express it.
+  @Index('idx_messages_search_vector', { synchronize: false })
+  searchVector?: string;
+
   @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
   createdAt!: Date;
 }
@@ -0,0 +1,48 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Unique,
+} from 'typeorm';
+
+import { User } from '../../../core/identity/entities/user.entity';
+import { ChatGroup } from './chat-group.entity';
+import { Message } from './message.entity';
+
+/**
+ * A message pinned to the top of its conversation by a group admin. Rows go
+ * away with the message, so deleting a pinned message also unpins it.
+ */
+@Entity('pinned_messages')
+@Unique('uq_pinned_messages_group_message', ['groupId', 'messageId'])
+export class PinnedMessage {
+  @PrimaryGeneratedColumn('uuid', { name: 'id' })
+  id!: string;
+
+  @Column({ type: 'uuid', name: 'group_id', nullable: false })
+  groupId!: string;
+
+  @ManyToOne(() => ChatGroup, (g) => g.pinnedMessages, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'group_id' })
+  group!: ChatGroup;
+
+  @Column({ type: 'uuid', name: 'message_id', nullable: false })
+  messageId!: string;
+
+  @ManyToOne(() => Message, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'message_id' })
+  message!: Message;
+
+  @Column({ type: 'uuid', name: 'pinned_by_id', nullable: true })
+  pinnedById!: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'pinned_by_id' })
+  pinnedBy!: User | null;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'pinned_at' })
+  pinnedAt!: Date;
+}
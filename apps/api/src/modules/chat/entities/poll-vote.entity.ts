@@ -0,0 +1,45 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Unique,
+} from 'typeorm';
+
+import { User } from '../../../core/identity/entities/user.entity';
+import { Poll } from './poll.entity';
+
+/**
+ * One user's choice of one option. Single-choice polls keep at most one row
+ * per user; multi-choice polls one per selected option.
+ */
+@Entity('poll_votes')
+@Unique('uq_poll_votes_poll_user_option', ['pollId', 'userId', 'optionId'])
+export class PollVote {
+  @PrimaryGeneratedColumn('uuid', { name: 'id' })
+  id!: string;
+
+  @Column({ type: 'uuid', name: 'poll_id', nullable: false })
+  @Index('idx_poll_votes_poll_id')
+  pollId!: string;
+
+  @ManyToOne(() => Poll, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'poll_id' })
+  poll!: Poll;
+
+  @Column({ type: 'uuid', name: 'user_id', nullable: false })
+  userId!: string;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user!: User;
+
+  @Column({ type: 'varchar', length: 16, name: 'option_id' })
+  optionId!: string;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
+  createdAt!: Date;
+}
@@ -0,0 +1,63 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  OneToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+import { Message } from './message.entity';
+import { Translations } from '../../translation/translation.service';
+
+/** One answer of a poll. `id` is stable so votes survive re-translation. */
+export interface PollOption {
+  id: string;
+  text: string;
+  translations: Translations | null;
+}
+
+/**
+ * Options and settings of a POLL message. The question itself is the
+ * message's rawContent and its translations, so previews, search and pins
+ * treat a poll like any other text.
+ */
+@Entity('polls')
+export class Poll {
+  @PrimaryGeneratedColumn('uuid', { name: 'id' })
+  id!: string;
+
+  @Column({ type: 'uuid', name: 'message_id', nullable: false, unique: true })
+  messageId!: string;
+
+  @OneToOne(() => Message, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'message_id' })
+  message!: Message;
+
+  @Column({ type: 'jsonb', name: 'options', nullable: false })
+  options!: PollOption[];
+
+  @Column({
+    type: 'boolean',
+    name: 'allows_multiple',
+    default: false,
+    nullable: false,
+  })
+  allowsMultiple!: boolean;
+
+  /** Voter ids are never sent to clients — only counts. */
+  @Column({
+    type: 'boolean',
+    name: 'is_anonymous',
+    default: false,
+    nullable: false,
+  })
+  isAnonymous!: boolean;
+
+  /** Voting stops at this moment. Closing a poll early sets it to now. */
+  @Column({ type: 'timestamptz', name: 'closes_at', nullable: true })
+  closesAt!: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
+  createdAt!: Date;
+}
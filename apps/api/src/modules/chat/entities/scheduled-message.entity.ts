@@ -0,0 +1,81 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+import { User } from '../../../core/identity/entities/user.entity';
+import { ChatGroup } from './chat-group.entity';
+
+export enum ScheduledMessageStatus {
+  PENDING = 'PENDING',
+  SENT = 'SENT',
+  FAILED = 'FAILED',
+}
+
+/**
+ * A text message written now and sent later. Rows live in the database so
+ * pending sends survive API restarts; cancelling simply deletes the row.
+ */
+@Entity('scheduled_messages')
+@Index('idx_scheduled_messages_status_send_at', ['status', 'sendAt'])
+export class ScheduledMessage {
+  @PrimaryGeneratedColumn('uuid', { name: 'id' })
+  id!: string;
+
+  @Column({ type: 'uuid', name: 'sender_id', nullable: false })
+  senderId!: string;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'sender_id' })
+  sender!: User;
+
+  @Column({ type: 'uuid', name: 'group_id', nullable: false })
+  groupId!: string;
+
+  @ManyToOne(() => ChatGroup, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'group_id' })
+  group!: ChatGroup;
+
+  @Column({ type: 'text', name: 'raw_content', nullable: false })
+  rawContent!: string;
+
+  @Column({ type: 'timestamptz', name: 'send_at', nullable: false })
+  sendAt!: Date;
+
+  /** IANA timezone of the sender's device — used for event extraction. */
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  timezone!: string | null;
+
+  @Column({
+    type: 'varchar',
+    name: 'status',
+    length: 16,
+    default: ScheduledMessageStatus.PENDING,
+    nullable: false,
+  })
+  status!: ScheduledMessageStatus;
+
+  /** The message this turned into once sent. No FK — it may be deleted. */
+  @Column({ type: 'uuid', name: 'message_id', nullable: true })
+  messageId!: string | null;
+
+  @Column({
+    type: 'varchar',
+    name: 'failure_reason',
+    length: 255,
+    nullable: true,
+  })
+  failureReason!: string | null;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz', name: 'updated_at' })
+  updatedAt!: Date;
+}
@@ -0,0 +1,42 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Unique,
+} from 'typeorm';
+
+import { User } from '../../../core/identity/entities/user.entity';
+import { Message } from './message.entity';
+
+/**
+ * A message a user saved for later. Stars are private to the user and go
+ * away with the message or the account.
+ */
+@Entity('starred_messages')
+@Unique('uq_starred_messages_user_message', ['userId', 'messageId'])
+@Index('idx_starred_messages_user_starred_at', ['userId', 'starredAt'])
+export class StarredMessage {
+  @PrimaryGeneratedColumn('uuid', { name: 'id' })
+  id!: string;
+
+  @Column({ type: 'uuid', name: 'user_id', nullable: false })
+  userId!: string;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user!: User;
+
+  @Column({ type: 'uuid', name: 'message_id', nullable: false })
+  messageId!: string;
+
+  @ManyToOne(() => Message, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'message_id' })
+  message!: Message;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'starred_at' })
+  starredAt!: Date;
+}
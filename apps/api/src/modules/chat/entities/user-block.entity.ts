@@ -0,0 +1,49 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Unique,
+} from 'typeorm';
+
+import { User } from '../../../core/identity/entities/user.entity';
+
+/**
+ * WHERE clause leaving out messages from senders the viewer blocked. Expects
+ * the message alias `m` and a `:viewerId` parameter.
+ */
+export const NOT_FROM_BLOCKED_SENDER_SQL =
+  'NOT EXISTS (SELECT 1 FROM user_blocks ub WHERE ub.blocker_id = :viewerId AND ub.blocked_id = m.sender_id)';
+
+/**
+ * `blockerId` no longer hears from `blockedId`: no new DMs either way, and
+ * the blocked user's messages and pushes are hidden from the blocker in
+ * shared groups. Only the blocker can see or lift it.
+ */
+@Entity('user_blocks')
+@Unique('uq_user_blocks_blocker_blocked', ['blockerId', 'blockedId'])
+@Index('idx_user_blocks_blocked', ['blockedId'])
+export class UserBlock {
+  @PrimaryGeneratedColumn('uuid', { name: 'id' })
+  id!: string;
+
+  @Column({ type: 'uuid', name: 'blocker_id', nullable: false })
+  blockerId!: string;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blocker_id' })
+  blocker!: User;
+
+  @Column({ type: 'uuid', name: 'blocked_id', nullable: false })
+  blockedId!: string;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blocked_id' })
+  blocked!: User;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
+  createdAt!: Date;
+}
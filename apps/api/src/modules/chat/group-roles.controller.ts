@@ -0,0 +1,113 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Put,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+
+import { JwtAuthGuard } from '../../core/identity/guards/jwt-auth.guard';
+import { ChatGateway } from './chat.gateway';
+import { GroupMemberRole } from './entities/group-member.entity';
+import { TransferOwnershipDto } from './dto/transfer-ownership.dto';
+import { UpdateGroupPermissionsDto } from './dto/update-group-permissions.dto';
+import { UpdateMemberRoleDto } from './dto/update-member-role.dto';
+import { GroupsService } from '../groups/groups.service';
+
+interface AuthRequest {
+  user: { sub: string; email: string };
+}
+
+interface GroupPermissionsView {
+  groupId: string;
+  onlyAdminsCanPost: boolean;
+  onlyAdminsCanEditInfo: boolean;
+}
+
+@Controller('groups/:id')
+@UseGuards(JwtAuthGuard)
+export class GroupRolesController {
+  constructor(
+    private readonly groupsService: GroupsService,
+    private readonly chatGateway: ChatGateway,
+  ) {}
+
+  /**
+   * PUT /groups/:id/permissions — announcement mode and who may edit group
+   * info. Omitted fields are left as they are.
+   */
+  @Put('permissions')
+  async setPermissions(
+    @Param('id', ParseUUIDPipe) groupId: string,
+    @Body() dto: UpdateGroupPermissionsDto,
+    @Request() req: AuthRequest,
+  ): Promise<GroupPermissionsView> {
+    const group = await this.groupsService.setGroupPermissions(
+      groupId,
+      req.user.sub,
+      dto,
+    );
+    this.chatGateway.broadcastGroupPermissionsChanged(groupId, {
+      onlyAdminsCanPost: group.onlyAdminsCanPost,
+      onlyAdminsCanEditInfo: group.onlyAdminsCanEditInfo,
+      changedById: req.user.sub,
+    });
+    return {
+      groupId,
+      onlyAdminsCanPost: group.onlyAdminsCanPost,
+      onlyAdminsCanEditInfo: group.onlyAdminsCanEditInfo,
+    };
+  }
+
+  /** PUT /groups/:id/members/:userId/role — promote or demote a member. */
+  @Put('members/:userId/role')
+  async setMemberRole(
+    @Param('id', ParseUUIDPipe) groupId: string,
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body() dto: UpdateMemberRoleDto,
+    @Request() req: AuthRequest,
+  ): Promise<{ groupId: string; userId: string; role: GroupMemberRole }> {
+    const member = await this.groupsService.setMemberRole(
+      groupId,
+      req.user.sub,
+      userId,
+      dto.role,
+    );
+    this.chatGateway.broadcastMemberRoleChanged(groupId, {
+      userId,
+      role: member.role,
+      changedById: req.user.sub,
+    });
+    return { groupId, userId, role: member.role };
+  }
+
+  /** POST /groups/:id/transfer-ownership — the owner hands the group over. */
+  @Post('transfer-ownership')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async transferOwnership(
+    @Param('id', ParseUUIDPipe) groupId: string,
+    @Body() dto: TransferOwnershipDto,
+    @Request() req: AuthRequest,
+  ): Promise<void> {
+    await this.groupsService.transferOwnership(
+      groupId,
+      req.user.sub,
+      dto.userId,
+    );
+    this.chatGateway.broadcastMemberRoleChanged(groupId, {
+      userId: dto.userId,
+      role: GroupMemberRole.OWNER,
+      changedById: req.user.sub,
+    });
+    this.chatGateway.broadcastMemberRoleChanged(groupId, {
+      userId: req.user.sub,
+      role: GroupMemberRole.ADMIN,
+      changedById: req.user.sub,
+    });
+  }
+}
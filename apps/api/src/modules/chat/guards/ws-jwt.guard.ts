@@ -11,6 +11,8 @@ import { Socket } from 'socket.io';
 export interface WsUserPayload {
   sub: string;
   email: string;
+  /** Device session — revoking it disconnects the socket. */
+  sid: string;
 }
 
 export interface AuthenticatedSocket extends Socket {
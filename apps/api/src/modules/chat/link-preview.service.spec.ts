@@ -0,0 +1,173 @@
+import { ConfigService } from '@nestjs/config';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { Repository } from 'typeorm';
+
+import { LinkPreviewService } from './link-preview.service';
+import { extractFirstUrl, isPrivateAddress } from './link-preview';
+import { LinkPreview } from './entities/link-preview.entity';
+
+const ARTICLE_HTML = `<!doctype html><html><head>
+  <title>Fallback title</title>
+  <meta property="og:title" content="Kandy &amp; the Hill Country">
+  <meta property="og:description" content="Three days   in the hills.">
+  <meta property="og:image" content="/images/cover.jpg">
+  <meta property="og:site_name" content="Travel Lanka">
+</head><body>…</body></html>`;
+
+describe('LinkPreviewService', () => {
+  let server: Server;
+  let baseUrl: string;
+  const hits = new Map<string, number>();
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const path = req.url ?? '/';
+      hits.set(path, (hits.get(path) ?? 0) + 1);
+
+      if (path === '/article') {
+        res.writeHead(200, { 'content-type': 'text/html; charset=utf-8' });
+        res.end(ARTICLE_HTML);
+      } else if (path === '/moved') {
+        res.writeHead(301, { location: '/article' });
+        res.end();
+      } else if (path === '/file.pdf') {
+        res.writeHead(200, { 'content-type': 'application/pdf' });
+        res.end('%PDF-1.4');
+      } else if (path === '/huge') {
+        res.writeHead(200, { 'content-type': 'text/html' });
+        res.write('<head><meta property="og:title" content="Big page">');
+        res.end(`<!--${'x'.repeat(2 * 1024 * 1024)}-->`);
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    hits.clear();
+  });
+
+  function buildService(options?: { allowPrivateHosts?: boolean }) {
+    const rows = new Map<string, LinkPreview>();
+    const repository = {
+      findOne: jest.fn(({ where }: { where: { url: string } }) =>
+        Promise.resolve(rows.get(where.url) ?? null),
+      ),
+      upsert: jest.fn((row: LinkPreview) => {
+        rows.set(row.url, row);
+        return Promise.resolve();
+      }),
+    };
+    const configService = {
+      get: jest.fn((key: string) =>
+        key === 'LINK_PREVIEW_ALLOW_PRIVATE_HOSTS'
+          ? String(options?.allowPrivateHosts ?? true)
+          : undefined,
+      ),
+    } as unknown as ConfigService;
+
+    const service = new LinkPreviewService(
+      repository as unknown as Repository<LinkPreview>,
+      configService,
+    );
+    return { service, repository };
+  }
+
+  it('reads OpenGraph metadata and resolves a relative image', async () => {
+    const { service } = buildService();
+
+    await expect(service.getPreview(`${baseUrl}/article`)).resolves.toEqual({
+      url: `${baseUrl}/article`,
+      title: 'Kandy & the Hill Country',
+      description: 'Three days in the hills.',
+      imageUrl: `${baseUrl}/images/cover.jpg`,
+      siteName: 'Travel Lanka',
+    });
+  });
+
+  it('fetches a URL once no matter how many times it is shared', async () => {
+    const { service, repository } = buildService();
+    const url = `${baseUrl}/article`;
+
+    await Promise.all([service.getPreview(url), service.getPreview(url)]);
+    await service.getPreview(url);
+
+    expect(hits.get('/article')).toBe(1);
+    expect(repository.upsert).toHaveBeenCalledTimes(1);
+  });
+
+  it('follows redirects and skips non-HTML responses', async () => {
+    const { service } = buildService();
+
+    await expect(service.getPreview(`${baseUrl}/moved`)).resolves.toMatchObject(
+      { url: `${baseUrl}/moved`, title: 'Kandy & the Hill Country' },
+    );
+    await expect(service.getPreview(`${baseUrl}/file.pdf`)).resolves.toBeNull();
+  });
+
+  it('stops reading a page at the size cap', async () => {
+    const { service } = buildService();
+
+    await expect(service.getPreview(`${baseUrl}/huge`)).resolves.toMatchObject({
+      title: 'Big page',
+    });
+  });
+
+  it('refuses private addresses, including hostnames that resolve to one', async () => {
+    const { service, repository } = buildService({ allowPrivateHosts: false });
+    const port = (server.address() as AddressInfo).port;
+
+    await expect(service.getPreview(`${baseUrl}/article`)).resolves.toBeNull();
+    await expect(
+      service.getPreview(`http://localhost:${port}/article`),
+    ).resolves.toBeNull();
+
+    expect(hits.size).toBe(0);
+    // Refusals are cached like any empty page.
+    expect(repository.upsert).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('link preview helpers', () => {
+  it('extracts the first URL without trailing punctuation', () => {
+    expect(
+      extractFirstUrl('See https://example.com/a?b=1). And http://x.org'),
+    ).toBe('https://example.com/a?b=1');
+    expect(extractFirstUrl('no links here')).toBeNull();
+    expect(extractFirstUrl('https://user:pw@example.com')).toBeNull();
+  });
+
+  it('classifies private and public addresses', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.20.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '::1',
+      'fd00::1',
+      '::ffff:10.0.0.1',
+      '64:ff9b::7f00:1',
+      '64:ff9b::127.0.0.1',
+      '64:ff9b:1:7f00:0:100::',
+      '2002:7f00:1::',
+      '2002:a9fe:a9fe::1',
+    ]) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+    expect(isPrivateAddress('93.184.216.34')).toBe(false);
+    expect(isPrivateAddress('2606:2800:220:1:248:1893:25c8:1946')).toBe(false);
+    expect(isPrivateAddress('64:ff9b::5db8:d822')).toBe(false);
+    expect(isPrivateAddress('2002:5db8:d822::1')).toBe(false);
+  });
+});
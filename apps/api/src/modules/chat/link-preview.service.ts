@@ -0,0 +1,238 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import * as dns from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import { isIP, LookupFunction } from 'net';
+import { Repository } from 'typeorm';
+
+import { LinkPreview, LinkPreviewData } from './entities/link-preview.entity';
+import { isPrivateAddress, parseOpenGraph } from './link-preview';
+
+const FETCH_TIMEOUT_MS = 5000;
+/** Metadata lives in <head>; anything past this is never needed. */
+const MAX_HTML_BYTES = 512 * 1024;
+const MAX_REDIRECTS = 3;
+const PREVIEW_TTL_MS = 24 * 60 * 60 * 1000;
+const EMPTY_PREVIEW_TTL_MS = 60 * 60 * 1000;
+const USER_AGENT = 'LinkLankaBot/1.0 (+link preview)';
+
+type FetchResult =
+  | { kind: 'redirect'; location: string }
+  | { kind: 'html'; html: string }
+  | { kind: 'unsupported' };
+
+@Injectable()
+export class LinkPreviewService {
+  private readonly logger = new Logger(LinkPreviewService.name);
+  /** Concurrent sends of the same link share one fetch. */
+  private readonly inFlight = new Map<
+    string,
+    Promise<LinkPreviewData | null>
+  >();
+  /** Local development only — lets previews reach hosts on the LAN. */
+  private readonly allowPrivateHosts: boolean;
+
+  constructor(
+    @InjectRepository(LinkPreview)
+    private readonly linkPreviewRepository: Repository<LinkPreview>,
+    private readonly configService: ConfigService,
+  ) {
+    this.allowPrivateHosts =
+      this.configService.get<string>('LINK_PREVIEW_ALLOW_PRIVATE_HOSTS') ===
+      'true';
+  }
+
+  /**
+   * Preview for `url`, from the cache when fresh. Resolves null when the page
+   * can't be fetched or has no usable metadata — never throws.
+   */
+  async getPreview(url: string): Promise<LinkPreviewData | null> {
+    const cached = await this.linkPreviewRepository.findOne({ where: { url } });
+    if (cached && !this.isStale(cached)) return this.toData(cached);
+
+    const pending = this.inFlight.get(url);
+    if (pending) return pending;
+
+    const request = this.fetchAndCache(url).finally(() =>
+      this.inFlight.delete(url),
+    );
+    this.inFlight.set(url, request);
+    return request;
+  }
+
+  private async fetchAndCache(url: string): Promise<LinkPreviewData | null> {
+    let preview: LinkPreviewData | null = null;
+    try {
+      preview = await this.fetchPreview(url);
+    } catch (error) {
+      this.logger.warn(
+        `[fetchPreview] ${url} failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    await this.linkPreviewRepository.upsert(
+      {
+        url,
+        title: preview?.title ?? null,
+        description: preview?.description ?? null,
+        imageUrl: preview?.imageUrl ?? null,
+        siteName: preview?.siteName ?? null,
+        fetchedAt: new Date(),
+      },
+      ['url'],
+    );
+    return preview;
+  }
+
+  private async fetchPreview(url: string): Promise<LinkPreviewData | null> {
+    const deadline = Date.now() + FETCH_TIMEOUT_MS;
+    let current = new URL(url);
+
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop += 1) {
+      const result = await this.fetchOnce(current, deadline);
+      if (result.kind === 'unsupported') return null;
+      if (result.kind === 'html') {
+        const parsed = parseOpenGraph(result.html, current.toString());
+        return parsed ? { ...parsed, url } : null;
+      }
+      current = new URL(result.location, current);
+    }
+    throw new Error('Too many redirects');
+  }
+
+  /** One GET without following redirects. Reads at most MAX_HTML_BYTES. */
+  private fetchOnce(url: URL, deadline: number): Promise<FetchResult> {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return Promise.reject(new Error(`Unsupported protocol ${url.protocol}`));
+    }
+    // Literal IPs skip DNS, so the lookup guard below never sees them.
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    if (isIP(host) && !this.allowPrivateHosts && isPrivateAddress(host)) {
+      return Promise.reject(new Error(`Refusing private address ${host}`));
+    }
+
+    return new Promise<FetchResult>((resolve, reject) => {
+      let settled = false;
+      const settle = (fn: () => void) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        fn();
+      };
+
+      const client = url.protocol === 'https:' ? https : http;
+      const req = client.get(
+        url,
+        {
+          headers: {
+            'user-agent': USER_AGENT,
+            accept: 'text/html,application/xhtml+xml',
+          },
+          lookup: this.guardedLookup,
+        },
+        (res) => {
+          const status = res.statusCode ?? 0;
+          const location = res.headers.location;
+          if (status >= 300 && status < 400 && location) {
+            req.destroy();
+            settle(() => resolve({ kind: 'redirect', location }));
+            return;
+          }
+
+          const contentType = String(res.headers['content-type'] ?? '');
+          if (
+            status !== 200 ||
+            !/text\/html|application\/xhtml\+xml/i.test(contentType)
+          ) {
+            req.destroy();
+            settle(() => resolve({ kind: 'unsupported' }));
+            return;
+          }
+
+          const chunks: Buffer[] = [];
+          let size = 0;
+          const finish = () =>
+            settle(() =>
+              resolve({
+                kind: 'html',
+                html: Buffer.concat(chunks).toString('utf8'),
+              }),
+            );
+
+          res.on('data', (chunk: Buffer) => {
+            const room = MAX_HTML_BYTES - size;
+            chunks.push(chunk.length > room ? chunk.subarray(0, room) : chunk);
+            size += Math.min(chunk.length, room);
+            if (size >= MAX_HTML_BYTES) {
+              req.destroy();
+              finish();
+            }
+          });
+          res.on('end', finish);
+          res.on('error', (err) => settle(() => reject(err)));
+        },
+      );
+
+      const timer = setTimeout(
+        () => req.destroy(new Error('Link preview timed out')),
+        Math.max(0, deadline - Date.now()),
+      );
+      req.on('error', (err) => settle(() => reject(err)));
+    });
+  }
+
+  /**
+   * Resolves like dns.lookup but fails for private addresses. Checking at
+   * connect time (rather than before the request) means a hostname can't
+   * pass validation and then be re-resolved to an internal address.
+   */
+  private readonly guardedLookup: LookupFunction = (
+    hostname,
+    options,
+    callback,
+  ) => {
+    dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+      if (err) {
+        callback(err, '', 0);
+        return;
+      }
+      if (
+        addresses.length === 0 ||
+        (!this.allowPrivateHosts &&
+          addresses.some((a) => isPrivateAddress(a.address)))
+      ) {
+        callback(new Error(`Refusing private address for ${hostname}`), '', 0);
+        return;
+      }
+      if (options.all) {
+        (callback as (e: null, a: dns.LookupAddress[]) => void)(
+          null,
+          addresses,
+        );
+        return;
+      }
+      callback(null, addresses[0].address, addresses[0].family);
+    });
+  };
+
+  private isStale(cached: LinkPreview): boolean {
+    const ttl =
+      cached.title || cached.description
+        ? PREVIEW_TTL_MS
+        : EMPTY_PREVIEW_TTL_MS;
+    return Date.now() - cached.fetchedAt.getTime() > ttl;
+  }
+
+  private toData(cached: LinkPreview): LinkPreviewData | null {
+    if (!cached.title && !cached.description) return null;
+    return {
+      url: cached.url,
+      title: cached.title,
+      description: cached.description,
+      imageUrl: cached.imageUrl,
+      siteName: cached.siteName,
+    };
+  }
+}
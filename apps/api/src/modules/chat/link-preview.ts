@@ -0,0 +1,206 @@
+import { BlockList, isIP } from 'net';
+
+import { LinkPreviewData } from './entities/link-preview.entity';
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>"']+/i;
+/** Punctuation that usually ends the sentence rather than the URL. */
+const TRAILING_PUNCTUATION = /[.,;:!?)\]}'"]+$/;
+
+const MAX_TITLE_LENGTH = 300;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_SITE_NAME_LENGTH = 200;
+const MAX_URL_LENGTH = 2048;
+
+/** The first http(s) link in `text`, or null. Only that one gets a preview. */
+export function extractFirstUrl(text: string): string | null {
+  const match = URL_PATTERN.exec(text);
+  if (!match) return null;
+
+  const candidate = match[0].replace(TRAILING_PUNCTUATION, '');
+  if (candidate.length > MAX_URL_LENGTH) return null;
+  try {
+    const url = new URL(candidate);
+    return url.username || url.password ? null : url.toString();
+  } catch {
+    return null;
+  }
+}
+
+// Loopback, private, link-local, CGNAT, multicast and reserved ranges —
+// anything that could reach the server's own network instead of the web.
+const PRIVATE_RANGES = new BlockList();
+PRIVATE_RANGES.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_RANGES.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_RANGES.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_RANGES.addSubnet('192.0.0.0', 24, 'ipv4');
+PRIVATE_RANGES.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_RANGES.addSubnet('198.18.0.0', 15, 'ipv4');
+PRIVATE_RANGES.addSubnet('224.0.0.0', 3, 'ipv4');
+PRIVATE_RANGES.addAddress('::', 'ipv6');
+PRIVATE_RANGES.addAddress('::1', 'ipv6');
+PRIVATE_RANGES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_RANGES.addSubnet('fe80::', 10, 'ipv6');
+PRIVATE_RANGES.addSubnet('ff00::', 8, 'ipv6');
+
+/** The 16 bytes of a valid IPv6 address, `::` and dotted tails expanded. */
+function ipv6Bytes(address: string): number[] {
+  let text = address.split('%')[0];
+  const dotted = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(text);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups =
+    tail === undefined
+      ? headGroups
+      : [
+          ...headGroups,
+          ...Array<string>(8 - headGroups.length - tailGroups.length).fill('0'),
+          ...tailGroups,
+        ];
+  return groups.flatMap((group) => {
+    const value = parseInt(group, 16);
+    return [value >> 8, value & 0xff];
+  });
+}
+
+/**
+ * The IPv4 address carried inside a NAT64 (64:ff9b::/96, 64:ff9b:1::/48) or
+ * 6to4 (2002::/16) address — gateways for those forward to the IPv4 network.
+ */
+function embeddedIpv4(address: string): string | null {
+  const bytes = ipv6Bytes(address);
+  const startsWith = (prefix: number[]) =>
+    prefix.every((byte, i) => bytes[i] === byte);
+
+  let v4: number[] | null = null;
+  if (startsWith([0x00, 0x64, 0xff, 0x9b, 0, 0, 0, 0, 0, 0, 0, 0])) {
+    v4 = bytes.slice(12, 16);
+  } else if (startsWith([0x00, 0x64, 0xff, 0x9b, 0x00, 0x01])) {
+    // RFC 6052 /48 layout: bits 64-71 are reserved, so the address is split.
+    v4 = [bytes[6], bytes[7], bytes[9], bytes[10]];
+  } else if (startsWith([0x20, 0x02])) {
+    v4 = bytes.slice(2, 6);
+  }
+  return v4 ? v4.join('.') : null;
+}
+
+/** True for addresses a link preview must never connect to. */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) return PRIVATE_RANGES.check(address, 'ipv4');
+  if (family !== 6) return true;
+
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) reaches the IPv4 network.
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return PRIVATE_RANGES.check(mapped[1], 'ipv4');
+
+  const embedded = embeddedIpv4(address);
+  if (embedded) return PRIVATE_RANGES.check(embedded, 'ipv4');
+  return PRIVATE_RANGES.check(address, 'ipv6');
+}
+
+const META_TAG = /<meta\b[^>]*>/gi;
+const TITLE_TAG = /<title\b[^>]*>([\s\S]*?)<\/title>/i;
+const ATTRIBUTE = /([a-zA-Z_:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+
+function decodeEntities(value: string): string {
+  return value.replace(
+    /&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos|#39|nbsp);/gi,
+    (entity: string, code: string) => {
+      const lower = code.toLowerCase();
+      if (lower.startsWith('#x')) {
+        return String.fromCodePoint(parseInt(lower.slice(2), 16) || 32);
+      }
+      if (lower.startsWith('#')) {
+        return String.fromCodePoint(parseInt(lower.slice(1), 10) || 32);
+      }
+      const named: Record<string, string> = {
+        amp: '&',
+        lt: '<',
+        gt: '>',
+        quot: '"',
+        apos: "'",
+        nbsp: ' ',
+      };
+      return named[lower] ?? entity;
+    },
+  );
+}
+
+function clean(value: string | undefined, maxLength: number): string | null {
+  if (!value) return null;
+  const text = decodeEntities(value).replace(/\s+/g, ' ').trim();
+  if (!text) return null;
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * Reads OpenGraph (falling back to Twitter card and plain HTML) metadata from
+ * a page. Returns null when the page has neither a title nor a description.
+ */
+export function parseOpenGraph(
+  html: string,
+  pageUrl: string,
+): LinkPreviewData | null {
+  const meta = new Map<string, string>();
+  for (const tag of html.match(META_TAG) ?? []) {
+    const attributes = new Map<string, string>();
+    for (const [, name, dq, sq, bare] of tag.matchAll(ATTRIBUTE)) {
+      attributes.set(name.toLowerCase(), dq ?? sq ?? bare ?? '');
+    }
+    const key = (
+      attributes.get('property') ?? attributes.get('name')
+    )?.toLowerCase();
+    const content = attributes.get('content');
+    if (key && content && !meta.has(key)) meta.set(key, content);
+  }
+
+  const title = clean(
+    meta.get('og:title') ??
+      meta.get('twitter:title') ??
+      TITLE_TAG.exec(html)?.[1],
+    MAX_TITLE_LENGTH,
+  );
+  const description = clean(
+    meta.get('og:description') ??
+      meta.get('twitter:description') ??
+      meta.get('description'),
+    MAX_DESCRIPTION_LENGTH,
+  );
+  if (!title && !description) return null;
+
+  let imageUrl: string | null = null;
+  const rawImage =
+    meta.get('og:image') ??
+    meta.get('og:image:url') ??
+    meta.get('twitter:image');
+  if (rawImage) {
+    try {
+      const resolved = new URL(decodeEntities(rawImage.trim()), pageUrl);
+      if (
+        (resolved.protocol === 'https:' || resolved.protocol === 'http:') &&
+        resolved.toString().length <= MAX_URL_LENGTH
+      ) {
+        imageUrl = resolved.toString();
+      }
+    } catch {
+      imageUrl = null;
+    }
+  }
+
+  return {
+    url: pageUrl,
+    title,
+    description,
+    imageUrl,
+    siteName: clean(meta.get('og:site_name'), MAX_SITE_NAME_LENGTH),
+  };
+}
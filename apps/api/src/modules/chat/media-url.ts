@@ -0,0 +1,32 @@
+import { S3StorageService } from '../../core/common/storage/s3-storage.service';
+
+/** Audio rawContent may be `{ url, durationMs }` JSON rather than a bare URL. */
+export function extractMediaUrl(rawContent: string): string {
+  const trimmed = rawContent.trim();
+  if (!trimmed.startsWith('{')) return trimmed;
+  try {
+    const parsed = JSON.parse(trimmed) as { url?: unknown };
+    return typeof parsed.url === 'string' ? parsed.url.trim() : trimmed;
+  } catch {
+    return trimmed;
+  }
+}
+
+/**
+ * Presigns the file behind a media message's rawContent. Returns null rather
+ * than throwing when there is nothing to sign or signing fails, so one broken
+ * attachment never sinks the response it is part of.
+ */
+export async function signMediaUrl(
+  storage: S3StorageService,
+  rawContent: string,
+  expiresInSeconds?: number,
+): Promise<string | null> {
+  const url = extractMediaUrl(rawContent);
+  if (!url) return null;
+  try {
+    return await storage.createSignedReadUrl(url, expiresInSeconds);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,50 @@
+import {
+  MentionCandidate,
+  parseMentions,
+  preserveMentionTokens,
+} from './mentions';
+
+describe('mentions', () => {
+  const members: MentionCandidate[] = [
+    { userId: 'user-1', displayName: 'Kasun' },
+    { userId: 'user-2', displayName: 'Kasun Perera' },
+    { userId: 'user-3', displayName: 'Nimali' },
+  ];
+
+  it('resolves the longest matching display name, once per user', () => {
+    const mentions = parseMentions(
+      '@kasun perera and @Nimali, ping @Nimali again',
+      members,
+    );
+
+    expect(mentions).toEqual([
+      { userId: 'user-2', token: '@kasun perera' },
+      { userId: 'user-3', token: '@Nimali' },
+    ]);
+  });
+
+  it('ignores email addresses and partial names', () => {
+    expect(parseMentions('mail kasun@example.com or @Kasuni', members)).toEqual(
+      [],
+    );
+  });
+
+  it('restores mention tokens the translation dropped', () => {
+    const mentions = parseMentions('@Nimali call me', members);
+
+    const result = preserveMentionTokens(
+      {
+        singlish: '@Nimali mata call karanna',
+        tanglish: 'enakku call pannunga',
+        english: '@Nimali call me',
+      },
+      mentions,
+    );
+
+    expect(result).toEqual({
+      singlish: '@Nimali mata call karanna',
+      tanglish: '@Nimali enakku call pannunga',
+      english: '@Nimali call me',
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { Translations } from '../translation/translation.service';
+
+/** A group member that can be mentioned as `@displayName`. */
+export interface MentionCandidate {
+  userId: string;
+  displayName: string;
+}
+
+/** A resolved mention — `token` is exactly as the sender typed it. */
+export interface ParsedMention {
+  userId: string;
+  token: string;
+}
+
+const WORD_CHAR = /[\p{L}\p{N}_]/u;
+
+/**
+ * Finds `@displayName` mentions of the given candidates in `text`.
+ * Matching is case-insensitive and prefers the longest display name, so
+ * "@Kasun Perera" wins over "@Kasun" when both are members. An `@` glued to
+ * a preceding word (e.g. an email address) is not a mention. Each user is
+ * returned once, in order of first appearance.
+ */
+export function parseMentions(
+  text: string,
+  candidates: MentionCandidate[],
+): ParsedMention[] {
+  const sorted = candidates
+    .filter((c) => c.displayName.trim().length > 0)
+    .sort((a, b) => b.displayName.length - a.displayName.length);
+  if (sorted.length === 0) return [];
+
+  const lowerText = text.toLowerCase();
+  const mentions: ParsedMention[] = [];
+  const seen = new Set<string>();
+
+  for (let i = text.indexOf('@'); i !== -1; i = text.indexOf('@', i + 1)) {
+    if (i > 0 && WORD_CHAR.test(text[i - 1])) continue;
+
+    const match = sorted.find((c) => {
+      const name = c.displayName.trim().toLowerCase();
+      const end = i + 1 + name.length;
+      return (
+        lowerText.startsWith(name, i + 1) &&
+        (end === text.length || !WORD_CHAR.test(text[end]))
+      );
+    });
+    if (!match) continue;
+
+    const token = text.slice(i, i + 1 + match.displayName.trim().length);
+    if (!seen.has(match.userId)) {
+      seen.add(match.userId);
+      mentions.push({ userId: match.userId, token });
+    }
+    i += token.length - 1;
+  }
+
+  return mentions;
+}
+
+/**
+ * The translation prompt asks the model to copy mention tokens verbatim, but
+ * a dropped or transliterated name would silently lose the mention. Any token
+ * missing from a translation is put back at the front of it.
+ */
+export function preserveMentionTokens<T extends Translations | null>(
+  translations: T,
+  mentions: ParsedMention[],
+): T {
+  if (!translations || mentions.length === 0) return translations;
+
+  const restore = (text: string): string => {
+    const missing = mentions
+      .map((m) => m.token)
+      .filter((token) => !text.toLowerCase().includes(token.toLowerCase()));
+    return missing.length > 0 ? `${missing.join(' ')} ${text}` : text;
+  };
+
+  return {
+    singlish: restore(translations.singlish),
+    tanglish: restore(translations.tanglish),
+    english: restore(translations.english),
+  } as T;
+}
@@ -0,0 +1,78 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseEnumPipe,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+
+import { JwtAuthGuard } from '../../core/identity/guards/jwt-auth.guard';
+import {
+  MessageReportsService,
+  type MessageReportView,
+} from './message-reports.service';
+import { ReportStatus } from './entities/message-report.entity';
+import { CreateMessageReportDto } from './dto/create-message-report.dto';
+import { ResolveMessageReportDto } from './dto/resolve-message-report.dto';
+
+interface AuthRequest {
+  user: { sub: string; email: string };
+}
+
+@Controller('groups/:id/reports')
+@UseGuards(JwtAuthGuard)
+export class MessageReportsController {
+  constructor(private readonly messageReportsService: MessageReportsService) {}
+
+  /** POST /groups/:id/reports — any member reports someone else's message. */
+  @Post()
+  async reportMessage(
+    @Param('id', ParseUUIDPipe) groupId: string,
+    @Body() dto: CreateMessageReportDto,
+    @Request() req: AuthRequest,
+  ): Promise<MessageReportView> {
+    return this.messageReportsService.reportMessage(groupId, req.user.sub, dto);
+  }
+
+  /** GET /groups/:id/reports?status=OPEN — the admins' moderation queue. */
+  @Get()
+  async findReports(
+    @Param('id', ParseUUIDPipe) groupId: string,
+    @Query('status', new ParseEnumPipe(ReportStatus, { optional: true }))
+    status: ReportStatus | undefined,
+    @Request() req: AuthRequest,
+  ): Promise<MessageReportView[]> {
+    return this.messageReportsService.findGroupReports(
+      groupId,
+      req.user.sub,
+      status,
+    );
+  }
+
+  /**
+   * POST /groups/:id/reports/:reportId/resolve — dismiss the report, delete
+   * the message, or remove its sender from the group.
+   */
+  @Post(':reportId/resolve')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async resolveReport(
+    @Param('id', ParseUUIDPipe) groupId: string,
+    @Param('reportId', ParseUUIDPipe) reportId: string,
+    @Body() dto: ResolveMessageReportDto,
+    @Request() req: AuthRequest,
+  ): Promise<void> {
+    await this.messageReportsService.resolveGroupReport(
+      groupId,
+      reportId,
+      req.user.sub,
+      dto.action,
+    );
+  }
+}
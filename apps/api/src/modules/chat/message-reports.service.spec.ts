@@ -0,0 +1,305 @@
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Test, TestingModule } from '@nestjs/testing';
+import { In } from 'typeorm';
+
+import { MessageReportsService } from './message-reports.service';
+import { ChatGateway } from './chat.gateway';
+import { ChatService } from './chat.service';
+import {
+  MessageReport,
+  ReportReason,
+  ReportStatus,
+} from './entities/message-report.entity';
+import { MessageContentType } from './entities/message.entity';
+import { GroupMemberRole } from './entities/group-member.entity';
+import { ReportAction } from './dto/resolve-message-report.dto';
+import { GroupsService } from '../groups/groups.service';
+import { S3StorageService } from '../../core/common/storage/s3-storage.service';
+
+describe('MessageReportsService', () => {
+  let service: MessageReportsService;
+  let reportRepo: {
+    findOne: jest.Mock;
+    find: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+    update: jest.Mock;
+  };
+  let chatService: { findMessageById: jest.Mock; deleteMessages: jest.Mock };
+  let groupsService: {
+    isMember: jest.Mock;
+    findMembership: jest.Mock;
+    removeMember: jest.Mock;
+  };
+  let chatGateway: { broadcastMessagesModerated: jest.Mock };
+
+  const buildReport = (overrides: Partial<MessageReport> = {}) =>
+    ({
+      id: 'report-1',
+      messageId: 'msg-1',
+      groupId: 'group-1',
+      group: { id: 'group-1', name: 'Family', isGroup: true },
+      reporterId: 'reporter',
+      reporter: { id: 'reporter', displayName: 'Nimal' },
+      senderId: 'sender',
+      sender: { id: 'sender', displayName: 'Kasun' },
+      reason: ReportReason.HARASSMENT,
+      details: null,
+      status: ReportStatus.OPEN,
+      message: null,
+      createdAt: new Date('2026-10-01T08:00:00Z'),
+      resolvedAt: null,
+      ...overrides,
+    }) as MessageReport;
+
+  const asAdmin = () =>
+    groupsService.findMembership.mockResolvedValue({
+      role: GroupMemberRole.ADMIN,
+      group: { isGroup: true },
+    });
+
+  beforeEach(async () => {
+    reportRepo = {
+      findOne: jest.fn().mockResolvedValue(null),
+      find: jest.fn().mockResolvedValue([]),
+      create: jest.fn((data: Partial<MessageReport>) => data),
+      save: jest.fn((data: Partial<MessageReport>) => ({
+        ...data,
+        id: 'report-1',
+      })),
+      update: jest.fn(),
+    };
+    chatService = { findMessageById: jest.fn(), deleteMessages: jest.fn() };
+    groupsService = {
+      isMember: jest.fn().mockResolvedValue(true),
+      findMembership: jest.fn(),
+      removeMember: jest.fn(),
+    };
+    chatGateway = { broadcastMessagesModerated: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MessageReportsService,
+        { provide: getRepositoryToken(MessageReport), useValue: reportRepo },
+        { provide: ChatService, useValue: chatService },
+        { provide: GroupsService, useValue: groupsService },
+        { provide: ChatGateway, useValue: chatGateway },
+        {
+          provide: S3StorageService,
+          useValue: {
+            createSignedReadUrl: jest.fn((url: string) => `${url}?signed`),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(MessageReportsService);
+  });
+
+  it('stores a report against the message sender', async () => {
+    chatService.findMessageById.mockResolvedValue({
+      id: 'msg-1',
+      groupId: 'group-1',
+      sender: { id: 'sender' },
+    });
+    reportRepo.find.mockResolvedValue([buildReport()]);
+
+    await service.reportMessage('group-1', 'reporter', {
+      messageId: 'msg-1',
+      reason: ReportReason.HARASSMENT,
+      details: '  ',
+    });
+
+    expect(reportRepo.create).toHaveBeenCalledWith({
+      messageId: 'msg-1',
+      groupId: 'group-1',
+      reporterId: 'reporter',
+      senderId: 'sender',
+      reason: ReportReason.HARASSMENT,
+      details: null,
+    });
+  });
+
+  it('rejects reporting your own message or the same message twice', async () => {
+    chatService.findMessageById.mockResolvedValue({
+      id: 'msg-1',
+      groupId: 'group-1',
+      sender: { id: 'reporter' },
+    });
+    await expect(
+      service.reportMessage('group-1', 'reporter', {
+        messageId: 'msg-1',
+        reason: ReportReason.SPAM,
+      }),
+    ).rejects.toThrow('You cannot report your own message');
+
+    chatService.findMessageById.mockResolvedValue({
+      id: 'msg-1',
+      groupId: 'group-1',
+      sender: { id: 'sender' },
+    });
+    reportRepo.findOne.mockResolvedValue(buildReport());
+    await expect(
+      service.reportMessage('group-1', 'reporter', {
+        messageId: 'msg-1',
+        reason: ReportReason.SPAM,
+      }),
+    ).rejects.toThrow('You have already reported this message');
+    expect(reportRepo.save).not.toHaveBeenCalled();
+  });
+
+  it('keeps the queue to group admins and moderators, and out of DMs', async () => {
+    groupsService.findMembership.mockResolvedValue({
+      role: GroupMemberRole.MEMBER,
+      group: { isGroup: true },
+    });
+    await expect(service.findGroupReports('group-1', 'user')).rejects.toThrow(
+      'Only group admins and moderators can review reports',
+    );
+
+    groupsService.findMembership.mockResolvedValue({
+      role: GroupMemberRole.ADMIN,
+      group: { isGroup: false },
+    });
+    await expect(service.findGroupReports('group-1', 'user')).rejects.toThrow(
+      'Only group admins and moderators can review reports',
+    );
+
+    groupsService.findMembership.mockResolvedValue({
+      role: GroupMemberRole.MODERATOR,
+      group: { isGroup: true },
+    });
+    await expect(
+      service.findGroupReports('group-1', 'user'),
+    ).resolves.toBeDefined();
+  });
+
+  it('shows moderators the transcription and translations of a voice note', async () => {
+    asAdmin();
+    reportRepo.find.mockResolvedValue([
+      buildReport({
+        message: {
+          id: 'msg-1',
+          contentType: MessageContentType.AUDIO,
+          rawContent: '{"url":"s3://voice.m4a","durationMs":4000}',
+          fileName: null,
+          transcription: 'oya mokada karanne',
+          detectedLanguage: 'singlish',
+          translations: {
+            english: 'what are you doing',
+            singlish: 'oya mokada karanne',
+            tanglish: 'nee enna panra',
+          },
+          createdAt: new Date('2026-10-01T07:59:00Z'),
+        } as MessageReport['message'],
+      }),
+    ]);
+
+    const [report] = await service.findGroupReports('group-1', 'admin');
+
+    expect(report.message).toMatchObject({
+      text: null,
+      transcription: 'oya mokada karanne',
+      translations: { english: 'what are you doing' },
+      mediaUrl: 's3://voice.m4a?signed',
+    });
+  });
+
+  it('deletes the message as a moderator and closes every report on it', async () => {
+    asAdmin();
+    reportRepo.findOne.mockResolvedValue(buildReport());
+    reportRepo.find.mockResolvedValue([{ id: 'report-1' }, { id: 'report-2' }]);
+
+    await service.resolveGroupReport(
+      'group-1',
+      'report-1',
+      'admin',
+      ReportAction.DELETE_MESSAGE,
+    );
+
+    expect(reportRepo.find).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { messageId: 'msg-1', status: ReportStatus.OPEN },
+      }),
+    );
+    expect(reportRepo.update).toHaveBeenCalledWith(
+      { id: In(['report-1', 'report-2']) },
+      expect.objectContaining({
+        status: ReportStatus.MESSAGE_DELETED,
+        resolvedById: 'admin',
+      }),
+    );
+    expect(chatService.deleteMessages).toHaveBeenCalledWith(
+      ['msg-1'],
+      'admin',
+      'group-1',
+      { asModerator: true },
+    );
+    expect(chatGateway.broadcastMessagesModerated).toHaveBeenCalledWith(
+      'group-1',
+      ['msg-1'],
+      'admin',
+    );
+  });
+
+  it('leaves the reports open when the message cannot be deleted', async () => {
+    asAdmin();
+    reportRepo.findOne.mockResolvedValue(buildReport());
+    reportRepo.find.mockResolvedValue([{ id: 'report-1' }]);
+    const failure = new Error('connection reset');
+    chatService.deleteMessages.mockRejectedValue(failure);
+
+    await expect(
+      service.resolveGroupReport(
+        'group-1',
+        'report-1',
+        'admin',
+        ReportAction.DELETE_MESSAGE,
+      ),
+    ).rejects.toBe(failure);
+
+    expect(reportRepo.update).not.toHaveBeenCalled();
+    expect(chatGateway.broadcastMessagesModerated).not.toHaveBeenCalled();
+  });
+
+  it('lets platform admins remove a sender without a group role', async () => {
+    reportRepo.findOne.mockResolvedValue(buildReport());
+
+    await service.resolveReport(
+      'report-1',
+      'staff',
+      ReportAction.REMOVE_SENDER,
+    );
+
+    expect(groupsService.findMembership).not.toHaveBeenCalled();
+    expect(groupsService.removeMember).toHaveBeenCalledWith(
+      'group-1',
+      'staff',
+      'sender',
+      { asPlatformAdmin: true },
+    );
+    expect(reportRepo.update).toHaveBeenCalledWith(
+      { groupId: 'group-1', senderId: 'sender', status: ReportStatus.OPEN },
+      expect.objectContaining({ status: ReportStatus.SENDER_REMOVED }),
+    );
+  });
+
+  it('refuses to act on a report twice or to remove someone from a DM', async () => {
+    reportRepo.findOne.mockResolvedValue(
+      buildReport({ status: ReportStatus.DISMISSED }),
+    );
+    await expect(
+      service.resolveReport('report-1', 'staff', ReportAction.DISMISS),
+    ).rejects.toThrow('This report has already been resolved');
+
+    reportRepo.findOne.mockResolvedValue(
+      buildReport({
+        group: { id: 'group-1', name: null, isGroup: false } as never,
+      }),
+    );
+    await expect(
+      service.resolveReport('report-1', 'staff', ReportAction.REMOVE_SENDER),
+    ).rejects.toThrow('Nobody can be removed from a direct message');
+    expect(groupsService.removeMember).not.toHaveBeenCalled();
+  });
+});
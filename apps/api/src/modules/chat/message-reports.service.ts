@@ -0,0 +1,326 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, In, Repository } from 'typeorm';
+
+import { ChatGateway } from './chat.gateway';
+import { ChatService } from './chat.service';
+import { signMediaUrl } from './media-url';
+import { MessageContentType } from './entities/message.entity';
+import {
+  MessageReport,
+  ReportReason,
+  ReportStatus,
+} from './entities/message-report.entity';
+import { hasModeratorRights } from './entities/group-member.entity';
+import { CreateMessageReportDto } from './dto/create-message-report.dto';
+import { ReportAction } from './dto/resolve-message-report.dto';
+import { GroupsService } from '../groups/groups.service';
+import {
+  DetectedLanguage,
+  Translations,
+} from '../translation/translation.service';
+import { S3StorageService } from '../../core/common/storage/s3-storage.service';
+
+/** Oldest reports beyond this are left for a later page of the queue. */
+const MAX_REPORTS_PER_PAGE = 100;
+
+export interface ReportedMessage {
+  id: string;
+  contentType: MessageContentType;
+  /** Typed text or poll question; null for media. */
+  text: string | null;
+  fileName: string | null;
+  /** What was said in a voice note, in the speaker's own dialect. */
+  transcription: string | null;
+  detectedLanguage: DetectedLanguage | null;
+  /** Lets moderators read messages in a dialect they don't speak. */
+  translations: Translations | null;
+  /** Short-lived link to the image, voice note or document. */
+  mediaUrl: string | null;
+  sentAt: Date;
+}
+
+export interface MessageReportView {
+  id: string;
+  groupId: string;
+  /** Null for DMs. */
+  groupName: string | null;
+  reason: ReportReason;
+  details: string | null;
+  status: ReportStatus;
+  reporter: { id: string; displayName: string };
+  sender: { id: string; displayName: string };
+  /** Null once the message has been deleted. */
+  message: ReportedMessage | null;
+  createdAt: Date;
+  resolvedAt: Date | null;
+}
+
+/**
+ * Members flag messages here; group admins work through their own
+ * conversation's queue and platform admins through everyone's (including
+ * DMs, which have no group admins).
+ */
+@Injectable()
+export class MessageReportsService {
+  constructor(
+    @InjectRepository(MessageReport)
+    private readonly reportRepository: Repository<MessageReport>,
+    private readonly chatService: ChatService,
+    private readonly groupsService: GroupsService,
+    private readonly chatGateway: ChatGateway,
+    private readonly s3StorageService: S3StorageService,
+  ) {}
+
+  async reportMessage(
+    groupId: string,
+    reporterId: string,
+    dto: CreateMessageReportDto,
+  ): Promise<MessageReportView> {
+    const isMember = await this.groupsService.isMember(groupId, reporterId);
+    if (!isMember) {
+      throw new ForbiddenException('You are not a member of this conversation');
+    }
+
+    const message = await this.chatService.findMessageById(dto.messageId);
+    if (!message || message.groupId !== groupId) {
+      throw new NotFoundException('Message not found');
+    }
+    if (message.sender.id === reporterId) {
+      throw new BadRequestException('You cannot report your own message');
+    }
+
+    const existing = await this.reportRepository.findOne({
+      where: { reporterId, messageId: message.id },
+    });
+    if (existing) {
+      throw new ConflictException('You have already reported this message');
+    }
+
+    const saved = await this.reportRepository.save(
+      this.reportRepository.create({
+        messageId: message.id,
+        groupId,
+        reporterId,
+        senderId: message.sender.id,
+        reason: dto.reason,
+        details: dto.details?.trim() || null,
+      }),
+    );
+    return this.findView(saved.id);
+  }
+
+  // ── Group admins ──────────────────────────────────────────────────────────
+
+  async findGroupReports(
+    groupId: string,
+    userId: string,
+    status: ReportStatus = ReportStatus.OPEN,
+  ): Promise<MessageReportView[]> {
+    await this.assertGroupModerator(groupId, userId);
+    return this.findViews({ groupId, status });
+  }
+
+  async resolveGroupReport(
+    groupId: string,
+    reportId: string,
+    userId: string,
+    action: ReportAction,
+  ): Promise<void> {
+    await this.assertGroupModerator(groupId, userId);
+    const report = await this.reportRepository.findOne({
+      where: { id: reportId, groupId },
+      relations: ['group'],
+    });
+    if (!report) throw new NotFoundException('Report not found');
+    await this.resolve(report, userId, action, false);
+  }
+
+  // ── Platform admins ───────────────────────────────────────────────────────
+
+  async findAllReports(
+    status: ReportStatus = ReportStatus.OPEN,
+  ): Promise<MessageReportView[]> {
+    return this.findViews({ status });
+  }
+
+  async resolveReport(
+    reportId: string,
+    adminId: string,
+    action: ReportAction,
+  ): Promise<void> {
+    const report = await this.reportRepository.findOne({
+      where: { id: reportId },
+      relations: ['group'],
+    });
+    if (!report) throw new NotFoundException('Report not found');
+    await this.resolve(report, adminId, action, true);
+  }
+
+  /**
+   * Applies the action and closes every open report it settles: all reports
+   * on the message, or — when the sender is removed — all of theirs in the
+   * conversation.
+   */
+  private async resolve(
+    report: MessageReport,
+    moderatorId: string,
+    action: ReportAction,
+    asPlatformAdmin: boolean,
+  ): Promise<void> {
+    if (report.status !== ReportStatus.OPEN) {
+      throw new ConflictException('This report has already been resolved');
+    }
+
+    const { groupId, messageId, senderId } = report;
+    const resolution = { resolvedById: moderatorId, resolvedAt: new Date() };
+
+    switch (action) {
+      case ReportAction.DISMISS:
+        await this.closeReports(report, ReportStatus.DISMISSED, resolution);
+        return;
+
+      case ReportAction.DELETE_MESSAGE: {
+        if (!messageId) {
+          throw new ConflictException('The message has already been deleted');
+        }
+        // Deleting the message nulls message_id on its reports, so note
+        // which ones to close before it goes.
+        const openReports = await this.reportRepository.find({
+          where: { messageId, status: ReportStatus.OPEN },
+          select: ['id'],
+        });
+        await this.chatService.deleteMessages(
+          [messageId],
+          moderatorId,
+          groupId,
+          { asModerator: true },
+        );
+        await this.reportRepository.update(
+          { id: In(openReports.map((r) => r.id)) },
+          { status: ReportStatus.MESSAGE_DELETED, ...resolution },
+        );
+        this.chatGateway.broadcastMessagesModerated(
+          groupId,
+          [messageId],
+          moderatorId,
+        );
+        return;
+      }
+
+      case ReportAction.REMOVE_SENDER: {
+        if (!report.group.isGroup) {
+          throw new BadRequestException(
+            'Nobody can be removed from a direct message',
+          );
+        }
+        await this.groupsService.removeMember(groupId, moderatorId, senderId, {
+          asPlatformAdmin,
+        });
+        await this.reportRepository.update(
+          { groupId, senderId, status: ReportStatus.OPEN },
+          { status: ReportStatus.SENDER_REMOVED, ...resolution },
+        );
+        return;
+      }
+    }
+  }
+
+  private async closeReports(
+    report: MessageReport,
+    status: ReportStatus,
+    resolution: { resolvedById: string; resolvedAt: Date },
+  ): Promise<void> {
+    await this.reportRepository.update(
+      report.messageId
+        ? { messageId: report.messageId, status: ReportStatus.OPEN }
+        : { id: report.id },
+      { status, ...resolution },
+    );
+  }
+
+  /**
+   * DMs have no admins — their reports go to platform admins only. Group
+   * moderators can review too; removing the sender still needs an admin.
+   */
+  private async assertGroupModerator(
+    groupId: string,
+    userId: string,
+  ): Promise<void> {
+    const membership = await this.groupsService.findMembership(groupId, userId);
+    if (
+      !membership ||
+      !membership.group.isGroup ||
+      !hasModeratorRights(membership.role)
+    ) {
+      throw new ForbiddenException(
+        'Only group admins and moderators can review reports',
+      );
+    }
+  }
+
+  private async findView(id: string): Promise<MessageReportView> {
+    const [view] = await this.findViews({ id });
+    return view;
+  }
+
+  private async findViews(
+    where: FindOptionsWhere<MessageReport>,
+  ): Promise<MessageReportView[]> {
+    const reports = await this.reportRepository.find({
+      where,
+      relations: ['group', 'reporter', 'sender', 'message'],
+      order: { createdAt: 'DESC' },
+      take: MAX_REPORTS_PER_PAGE,
+    });
+    return Promise.all(reports.map((r) => this.toView(r)));
+  }
+
+  private async toView(report: MessageReport): Promise<MessageReportView> {
+    const m = report.message;
+    const isMedia =
+      m?.contentType === MessageContentType.AUDIO ||
+      m?.contentType === MessageContentType.IMAGE ||
+      m?.contentType === MessageContentType.DOCUMENT;
+
+    return {
+      id: report.id,
+      groupId: report.groupId,
+      groupName: report.group.isGroup ? report.group.name : null,
+      reason: report.reason,
+      details: report.details,
+      status: report.status,
+      reporter: {
+        id: report.reporter.id,
+        displayName: report.reporter.displayName,
+      },
+      sender: { id: report.sender.id, displayName: report.sender.displayName },
+      message: m
+        ? {
+            id: m.id,
+            contentType: m.contentType,
+            text: isMedia ? null : m.rawContent,
+            fileName: m.fileName,
+            transcription:
+              m.contentType === MessageContentType.AUDIO
+                ? m.transcription || null
+                : null,
+            detectedLanguage: m.detectedLanguage,
+            translations: m.translations,
+            mediaUrl: isMedia
+              ? await signMediaUrl(this.s3StorageService, m.rawContent)
+              : null,
+            sentAt: m.createdAt,
+          }
+        : null,
+      createdAt: report.createdAt,
+      resolvedAt: report.resolvedAt,
+    };
+  }
+}
@@ -0,0 +1,47 @@
+import {
+  Body,
+  Controller,
+  Param,
+  ParseUUIDPipe,
+  Put,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+
+import { JwtAuthGuard } from '../../core/identity/guards/jwt-auth.guard';
+import { ChatGateway } from './chat.gateway';
+import { MessageRetention } from './entities/chat-group.entity';
+import { UpdateMessageRetentionDto } from './dto/update-message-retention.dto';
+import { GroupsService } from '../groups/groups.service';
+
+interface AuthRequest {
+  user: { sub: string; email: string };
+}
+
+@Controller('groups/:id/retention')
+@UseGuards(JwtAuthGuard)
+export class MessageRetentionController {
+  constructor(
+    private readonly groupsService: GroupsService,
+    private readonly chatGateway: ChatGateway,
+  ) {}
+
+  /** PUT /groups/:id/retention — turn disappearing messages on or off. */
+  @Put()
+  async setRetention(
+    @Param('id', ParseUUIDPipe) groupId: string,
+    @Body() dto: UpdateMessageRetentionDto,
+    @Request() req: AuthRequest,
+  ): Promise<{ groupId: string; messageRetention: MessageRetention }> {
+    const group = await this.groupsService.setMessageRetention(
+      groupId,
+      req.user.sub,
+      dto.messageRetention,
+    );
+    this.chatGateway.broadcastMessageRetentionChanged(groupId, {
+      messageRetention: group.messageRetention,
+      changedById: req.user.sub,
+    });
+    return { groupId, messageRetention: group.messageRetention };
+  }
+}
@@ -0,0 +1,98 @@
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { MessageRetentionSweeper } from './message-retention.sweeper';
+import { ChatService } from './chat.service';
+import { ChatGateway } from './chat.gateway';
+import { GroupsService } from '../groups/groups.service';
+import { S3StorageService } from '../../core/common/storage/s3-storage.service';
+import { MessageRetention } from './entities/chat-group.entity';
+import { Message, MessageContentType } from './entities/message.entity';
+
+describe('MessageRetentionSweeper', () => {
+  let sweeper: MessageRetentionSweeper;
+  let chatService: {
+    findExpiredMessages: jest.Mock;
+    purgeMessages: jest.Mock;
+  };
+  let groupsService: { findGroupsWithRetention: jest.Mock };
+  let s3StorageService: { deleteObjects: jest.Mock };
+  let chatGateway: { broadcastMessagesExpired: jest.Mock };
+
+  const expired = [
+    { id: 'msg-1', contentType: MessageContentType.TEXT, rawContent: 'hi' },
+    {
+      id: 'msg-2',
+      contentType: MessageContentType.IMAGE,
+      rawContent: 'https://bucket.s3.amazonaws.com/uploads/photo.jpg',
+    },
+  ] as Message[];
+
+  beforeEach(async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-03-10T12:00:00Z'));
+
+    chatService = {
+      findExpiredMessages: jest.fn().mockResolvedValueOnce(expired),
+      purgeMessages: jest
+        .fn()
+        .mockResolvedValue([
+          'https://bucket.s3.amazonaws.com/uploads/photo.jpg',
+        ]),
+    };
+    groupsService = {
+      findGroupsWithRetention: jest
+        .fn()
+        .mockResolvedValue([
+          { id: 'group-1', messageRetention: MessageRetention.DAY },
+        ]),
+    };
+    s3StorageService = {
+      deleteObjects: jest.fn().mockResolvedValue(undefined),
+    };
+    chatGateway = { broadcastMessagesExpired: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MessageRetentionSweeper,
+        { provide: ChatService, useValue: chatService },
+        { provide: GroupsService, useValue: groupsService },
+        { provide: S3StorageService, useValue: s3StorageService },
+        { provide: ChatGateway, useValue: chatGateway },
+      ],
+    }).compile();
+
+    sweeper = module.get(MessageRetentionSweeper);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('deletes expired messages with their media and notifies the room', async () => {
+    await sweeper.sweep();
+
+    expect(chatService.findExpiredMessages).toHaveBeenCalledWith(
+      'group-1',
+      new Date('2026-03-09T12:00:00Z'),
+      200,
+    );
+    expect(chatService.purgeMessages).toHaveBeenCalledWith(expired);
+    expect(s3StorageService.deleteObjects).toHaveBeenCalledWith([
+      'https://bucket.s3.amazonaws.com/uploads/photo.jpg',
+    ]);
+    expect(chatGateway.broadcastMessagesExpired).toHaveBeenCalledWith(
+      'group-1',
+      ['msg-1', 'msg-2'],
+    );
+  });
+
+  it('still notifies clients when storage cleanup fails', async () => {
+    s3StorageService.deleteObjects.mockRejectedValue(new Error('S3 down'));
+
+    await expect(sweeper.sweep()).resolves.toBeUndefined();
+
+    expect(chatGateway.broadcastMessagesExpired).toHaveBeenCalledWith(
+      'group-1',
+      ['msg-1', 'msg-2'],
+    );
+  });
+});
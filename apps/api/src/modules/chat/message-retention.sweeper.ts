@@ -0,0 +1,97 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+
+import { ChatGateway } from './chat.gateway';
+import { ChatService } from './chat.service';
+import { MESSAGE_RETENTION_MS } from './entities/chat-group.entity';
+import { GroupsService } from '../groups/groups.service';
+import { S3StorageService } from '../../core/common/storage/s3-storage.service';
+
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+const BATCH_SIZE = 200;
+
+/**
+ * Hard-deletes messages that outlived their conversation's retention
+ * setting, together with their uploads and generated TTS audio, and tells
+ * clients through the regular `messagesDeleted` event.
+ */
+@Injectable()
+export class MessageRetentionSweeper implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MessageRetentionSweeper.name);
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private isSweeping = false;
+
+  constructor(
+    private readonly chatService: ChatService,
+    private readonly groupsService: GroupsService,
+    private readonly s3StorageService: S3StorageService,
+    private readonly chatGateway: ChatGateway,
+  ) {}
+
+  onModuleInit(): void {
+    this.timer = setInterval(() => void this.sweep(), SWEEP_INTERVAL_MS);
+    this.timer.unref?.();
+    void this.sweep();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** One pass over every conversation with retention on. */
+  async sweep(): Promise<void> {
+    if (this.isSweeping) return;
+    this.isSweeping = true;
+    try {
+      const groups = await this.groupsService.findGroupsWithRetention();
+      for (const group of groups) {
+        const retentionMs =
+          MESSAGE_RETENTION_MS[
+            group.messageRetention as keyof typeof MESSAGE_RETENTION_MS
+          ];
+        if (!retentionMs) continue;
+        await this.sweepGroup(group.id, new Date(Date.now() - retentionMs));
+      }
+    } catch (err) {
+      this.logger.error(`[sweep] failed: ${String(err)}`);
+    } finally {
+      this.isSweeping = false;
+    }
+  }
+
+  private async sweepGroup(groupId: string, before: Date): Promise<void> {
+    while (true) {
+      const expired = await this.chatService.findExpiredMessages(
+        groupId,
+        before,
+        BATCH_SIZE,
+      );
+      if (expired.length === 0) return;
+
+      const orphanedMedia = await this.chatService.purgeMessages(expired);
+      const messageIds = expired.map((m) => m.id);
+      this.chatGateway.broadcastMessagesExpired(groupId, messageIds);
+
+      if (orphanedMedia.length > 0) {
+        // The rows are already gone — a storage hiccup only leaves garbage.
+        await this.s3StorageService
+          .deleteObjects(orphanedMedia)
+          .catch((err) =>
+            this.logger.warn(
+              `[sweep] groupId=${groupId} failed to delete ${orphanedMedia.length} object(s): ${String(err)}`,
+            ),
+          );
+      }
+
+      this.logger.log(
+        `[sweep] groupId=${groupId} deleted ${messageIds.length} expired message(s)`,
+      );
+      if (expired.length < BATCH_SIZE) return;
+    }
+  }
+}
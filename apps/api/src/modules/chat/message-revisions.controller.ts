@@ -0,0 +1,56 @@
+import {
+  Controller,
+  ForbiddenException,
+  Get,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+
+import { JwtAuthGuard } from '../../core/identity/guards/jwt-auth.guard';
+import { ChatService, MessageRevisionView } from './chat.service';
+import { GroupsService } from '../groups/groups.service';
+
+interface AuthRequest {
+  user: { sub: string; email: string };
+}
+
+@Controller('messages/:id/revisions')
+@UseGuards(JwtAuthGuard)
+export class MessageRevisionsController {
+  constructor(
+    private readonly chatService: ChatService,
+    private readonly groupsService: GroupsService,
+  ) {}
+
+  /** GET /messages/:id/revisions — earlier versions of an edited message, oldest first. */
+  @Get()
+  async findRevisions(
+    @Param('id', ParseUUIDPipe) messageId: string,
+    @Request() req: AuthRequest,
+  ): Promise<MessageRevisionView[]> {
+    const userId = req.user.sub;
+    const message = await this.chatService.findMessageById(messageId);
+    if (!message) throw new NotFoundException('Message not found');
+
+    const isMember = await this.groupsService.isMember(message.groupId, userId);
+    if (!isMember) {
+      throw new ForbiddenException('You are not a member of this conversation');
+    }
+
+    const canView = await this.groupsService.canViewRevisions(
+      message.groupId,
+      userId,
+      message.sender?.id ?? null,
+    );
+    if (!canView) {
+      throw new ForbiddenException(
+        "This conversation doesn't let you see the edit history of this message",
+      );
+    }
+
+    return this.chatService.getMessageRevisions(messageId);
+  }
+}
@@ -0,0 +1,122 @@
+import {
+  BadRequestException,
+  Body,
+  ConflictException,
+  Controller,
+  Delete,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  Post,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { isUUID } from 'class-validator';
+
+import { JwtAuthGuard } from '../../core/identity/guards/jwt-auth.guard';
+import { ChatGateway } from './chat.gateway';
+import { ChatService, PinnedMessageView } from './chat.service';
+import { GroupsService } from '../groups/groups.service';
+
+/** Keeps the banner short enough to cycle through with a tap. */
+const MAX_PINNED_MESSAGES = 3;
+
+interface AuthRequest {
+  user: { sub: string; email: string };
+}
+
+@Controller('groups/:id/pins')
+@UseGuards(JwtAuthGuard)
+export class PinnedMessagesController {
+  constructor(
+    private readonly chatService: ChatService,
+    private readonly groupsService: GroupsService,
+    private readonly chatGateway: ChatGateway,
+  ) {}
+
+  /** GET /groups/:id/pins — the conversation's pins, newest first. */
+  @Get()
+  async findPins(
+    @Param('id') groupId: string,
+    @Request() req: AuthRequest,
+  ): Promise<PinnedMessageView[]> {
+    const isMember = await this.groupsService.isMember(groupId, req.user.sub);
+    if (!isMember) {
+      throw new ForbiddenException('You are not a member of this conversation');
+    }
+    return this.chatService.getPinnedMessages(groupId, req.user.sub);
+  }
+
+  /** POST /groups/:id/pins — pin a message. Returns the updated pin list. */
+  @Post()
+  async pinMessage(
+    @Param('id') groupId: string,
+    @Body() body: { messageId?: unknown },
+    @Request() req: AuthRequest,
+  ): Promise<PinnedMessageView[]> {
+    const userId = req.user.sub;
+    const messageId = body?.messageId;
+    if (typeof messageId !== 'string' || !isUUID(messageId)) {
+      throw new BadRequestException('messageId must be a valid UUID');
+    }
+    await this.assertCanPin(groupId, userId);
+
+    const message = await this.chatService.findMessageById(messageId);
+    if (!message || message.groupId !== groupId) {
+      throw new NotFoundException('Message not found');
+    }
+
+    const pinnedIds = await this.chatService.findPinnedMessageIds(groupId);
+    if (!pinnedIds.includes(messageId)) {
+      if (pinnedIds.length >= MAX_PINNED_MESSAGES) {
+        throw new ConflictException(
+          `Only ${MAX_PINNED_MESSAGES} messages can be pinned — unpin one first`,
+        );
+      }
+      const pinned = await this.chatService.pinMessage(
+        groupId,
+        messageId,
+        userId,
+      );
+      if (pinned) {
+        this.chatGateway.broadcastMessagePinned(groupId, {
+          messageId,
+          isPinned: true,
+          changedById: userId,
+        });
+      }
+    }
+
+    return this.chatService.getPinnedMessages(groupId, userId);
+  }
+
+  /** DELETE /groups/:id/pins/:messageId — unpin a message. */
+  @Delete(':messageId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async unpinMessage(
+    @Param('id') groupId: string,
+    @Param('messageId') messageId: string,
+    @Request() req: AuthRequest,
+  ): Promise<void> {
+    await this.assertCanPin(groupId, req.user.sub);
+
+    const unpinned = await this.chatService.unpinMessage(groupId, messageId);
+    if (!unpinned) throw new NotFoundException('Message is not pinned');
+
+    this.chatGateway.broadcastMessagePinned(groupId, {
+      messageId,
+      isPinned: false,
+      changedById: req.user.sub,
+    });
+  }
+
+  private async assertCanPin(groupId: string, userId: string): Promise<void> {
+    const canPin = await this.groupsService.canPinMessages(groupId, userId);
+    if (!canPin) {
+      throw new ForbiddenException('Only group admins can pin messages');
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { PollsService } from './polls.service';
+import { Poll } from './entities/poll.entity';
+import { PollVote } from './entities/poll-vote.entity';
+
+describe('PollsService', () => {
+  let service: PollsService;
+  let pollRepo: { findOne: jest.Mock; update: jest.Mock };
+  let voteRepo: {
+    find: jest.Mock;
+    manager: { transaction: jest.Mock };
+  };
+  let em: { delete: jest.Mock; insert: jest.Mock };
+
+  const buildPoll = (overrides: Partial<Poll> = {}): Poll =>
+    ({
+      id: 'poll-1',
+      messageId: 'msg-1',
+      message: { groupId: 'group-1', sender: { id: 'creator' } },
+      options: [
+        { id: '1', text: 'Saturday 9am', translations: null },
+        { id: '2', text: 'Sunday 4pm', translations: null },
+      ],
+      allowsMultiple: false,
+      isAnonymous: false,
+      closesAt: null,
+      ...overrides,
+    }) as Poll;
+
+  beforeEach(async () => {
+    em = { delete: jest.fn(), insert: jest.fn() };
+    pollRepo = { findOne: jest.fn(), update: jest.fn() };
+    voteRepo = {
+      find: jest.fn().mockResolvedValue([]),
+      manager: {
+        transaction: jest.fn((work: (m: typeof em) => Promise<void>) =>
+          work(em),
+        ),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PollsService,
+        { provide: getRepositoryToken(Poll), useValue: pollRepo },
+        { provide: getRepositoryToken(PollVote), useValue: voteRepo },
+      ],
+    }).compile();
+
+    service = module.get(PollsService);
+  });
+
+  it('replaces the voter’s previous choice and reports counts', async () => {
+    pollRepo.findOne.mockResolvedValue(buildPoll());
+    voteRepo.find.mockResolvedValue([
+      { pollId: 'poll-1', userId: 'user-1', optionId: '2' },
+      { pollId: 'poll-1', userId: 'user-2', optionId: '2' },
+    ]);
+
+    const results = await service.vote('msg-1', 'group-1', 'user-1', ['2']);
+
+    expect(em.delete).toHaveBeenCalledWith(PollVote, {
+      pollId: 'poll-1',
+      userId: 'user-1',
+    });
+    expect(em.insert).toHaveBeenCalledWith(PollVote, [
+      { pollId: 'poll-1', userId: 'user-1', optionId: '2' },
+    ]);
+    expect(results.totalVoters).toBe(2);
+    expect(results.options[1]).toMatchObject({
+      voteCount: 2,
+      voterIds: ['user-1', 'user-2'],
+    });
+  });
+
+  it('rejects several choices on a single-choice poll and votes after closing', async () => {
+    pollRepo.findOne.mockResolvedValue(buildPoll());
+    await expect(
+      service.vote('msg-1', 'group-1', 'user-1', ['1', '2']),
+    ).rejects.toThrow('This poll allows only one choice');
+
+    pollRepo.findOne.mockResolvedValue(
+      buildPoll({ closesAt: new Date(Date.now() - 1000) }),
+    );
+    await expect(
+      service.vote('msg-1', 'group-1', 'user-1', ['1']),
+    ).rejects.toThrow('This poll is closed');
+    expect(em.insert).not.toHaveBeenCalled();
+  });
+
+  it('never exposes voter ids of anonymous polls', async () => {
+    pollRepo.findOne.mockResolvedValue(buildPoll({ isAnonymous: true }));
+    voteRepo.find.mockResolvedValue([
+      { pollId: 'poll-1', userId: 'user-1', optionId: '1' },
+    ]);
+
+    const results = await service.getResults('msg-1');
+
+    expect(results.options[0]).toMatchObject({ voteCount: 1, voterIds: [] });
+  });
+
+  it('only lets the creator close a poll', async () => {
+    pollRepo.findOne.mockResolvedValue(buildPoll());
+
+    await expect(service.close('msg-1', 'group-1', 'user-1')).rejects.toThrow(
+      'Only the person who created this poll can close it',
+    );
+    expect(pollRepo.update).not.toHaveBeenCalled();
+  });
+});
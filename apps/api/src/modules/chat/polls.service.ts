@@ -0,0 +1,276 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+
+import { Poll, PollOption } from './entities/poll.entity';
+import { PollVote } from './entities/poll-vote.entity';
+import { Translations } from '../translation/translation.service';
+
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 10;
+export const MAX_POLL_QUESTION_LENGTH = 300;
+export const MAX_POLL_OPTION_LENGTH = 100;
+/** Closing times further out than this are almost always a date typo. */
+const MAX_POLL_DURATION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface CreatePollInput {
+  question: string;
+  options: string[];
+  allowsMultiple: boolean;
+  isAnonymous: boolean;
+  closesAt: Date | null;
+}
+
+export interface PollOptionResult {
+  id: string;
+  text: string;
+  translations: Translations | null;
+  voteCount: number;
+  /** Empty for anonymous polls. */
+  voterIds: string[];
+}
+
+/** Poll state shared by everyone in the room — broadcast as `pollUpdated`. */
+export interface PollResults {
+  messageId: string;
+  allowsMultiple: boolean;
+  isAnonymous: boolean;
+  closesAt: Date | null;
+  isClosed: boolean;
+  /** Distinct users who voted for at least one option. */
+  totalVoters: number;
+  options: PollOptionResult[];
+}
+
+/** Poll as returned in a viewer's history, with their own selection. */
+export interface PollView extends PollResults {
+  myOptionIds: string[];
+}
+
+@Injectable()
+export class PollsService {
+  constructor(
+    @InjectRepository(Poll)
+    private readonly pollRepo: Repository<Poll>,
+    @InjectRepository(PollVote)
+    private readonly pollVoteRepo: Repository<PollVote>,
+  ) {}
+
+  /**
+   * Trims and validates a poll before its message is saved. Throws with a
+   * message suitable for the client.
+   */
+  normalizeInput(input: CreatePollInput): CreatePollInput {
+    const question = input.question.trim();
+    if (!question || question.length > MAX_POLL_QUESTION_LENGTH) {
+      throw new Error(
+        `The question must be 1-${MAX_POLL_QUESTION_LENGTH} characters`,
+      );
+    }
+
+    const options = input.options.map((o) => o.trim());
+    if (
+      options.length < MIN_POLL_OPTIONS ||
+      options.length > MAX_POLL_OPTIONS
+    ) {
+      throw new Error(
+        `A poll needs ${MIN_POLL_OPTIONS}-${MAX_POLL_OPTIONS} options`,
+      );
+    }
+    if (options.some((o) => !o || o.length > MAX_POLL_OPTION_LENGTH)) {
+      throw new Error(
+        `Each option must be 1-${MAX_POLL_OPTION_LENGTH} characters`,
+      );
+    }
+    if (new Set(options.map((o) => o.toLowerCase())).size !== options.length) {
+      throw new Error('Options must be different from each other');
+    }
+
+    if (input.closesAt) {
+      const lead = input.closesAt.getTime() - Date.now();
+      if (Number.isNaN(lead) || lead <= 0) {
+        throw new Error('The closing time must be in the future');
+      }
+      if (lead > MAX_POLL_DURATION_MS) {
+        throw new Error('A poll can stay open for at most 30 days');
+      }
+    }
+
+    return { ...input, question, options };
+  }
+
+  /**
+   * Attaches poll settings to an already-saved POLL message. Idempotent, so
+   * a client retry that dedupes onto the same message reuses its poll.
+   */
+  async create(messageId: string, input: CreatePollInput): Promise<Poll> {
+    const existing = await this.pollRepo.findOne({ where: { messageId } });
+    if (existing) return existing;
+
+    return this.pollRepo.save(
+      this.pollRepo.create({
+        messageId,
+        options: input.options.map((text, idx) => ({
+          id: String(idx + 1),
+          text,
+          translations: null,
+        })),
+        allowsMultiple: input.allowsMultiple,
+        isAnonymous: input.isAnonymous,
+        closesAt: input.closesAt,
+      }),
+    );
+  }
+
+  /** Stores option translations in the original option order. */
+  async saveOptionTranslations(
+    messageId: string,
+    translations: Translations[],
+  ): Promise<PollResults> {
+    const poll = await this.findPollOrThrow(messageId);
+    poll.options = poll.options.map((option, idx) => ({
+      ...option,
+      translations: translations[idx] ?? option.translations,
+    }));
+    await this.pollRepo.save(poll);
+    return this.buildResults(poll);
+  }
+
+  /**
+   * Replaces `userId`'s votes with `optionIds`. An empty list retracts the
+   * vote. Only members of the poll's conversation reach this — the caller
+   * checks membership and passes the room's group id.
+   */
+  async vote(
+    messageId: string,
+    groupId: string,
+    userId: string,
+    optionIds: string[],
+  ): Promise<PollResults> {
+    const poll = await this.findPollOrThrow(messageId, groupId);
+    if (this.isClosed(poll)) throw new Error('This poll is closed');
+
+    const selected = [...new Set(optionIds)];
+    const validIds = new Set(poll.options.map((o) => o.id));
+    if (selected.some((id) => !validIds.has(id))) {
+      throw new Error('Unknown poll option');
+    }
+    if (!poll.allowsMultiple && selected.length > 1) {
+      throw new Error('This poll allows only one choice');
+    }
+
+    await this.pollVoteRepo.manager.transaction(async (em) => {
+      await em.delete(PollVote, { pollId: poll.id, userId });
+      if (selected.length > 0) {
+        await em.insert(
+          PollVote,
+          selected.map((optionId) => ({ pollId: poll.id, userId, optionId })),
+        );
+      }
+    });
+
+    return this.buildResults(poll);
+  }
+
+  /** Ends voting now. Only the poll's creator may close it. */
+  async close(
+    messageId: string,
+    groupId: string,
+    userId: string,
+  ): Promise<PollResults> {
+    const poll = await this.findPollOrThrow(messageId, groupId);
+    if (poll.message.sender?.id !== userId) {
+      throw new Error('Only the person who created this poll can close it');
+    }
+
+    if (!this.isClosed(poll)) {
+      poll.closesAt = new Date();
+      await this.pollRepo.update(poll.id, { closesAt: poll.closesAt });
+    }
+    return this.buildResults(poll);
+  }
+
+  async getResults(messageId: string): Promise<PollResults> {
+    return this.buildResults(await this.findPollOrThrow(messageId));
+  }
+
+  /** Poll views for a history page, keyed by message id. */
+  async getPollViews(
+    messageIds: string[],
+    viewerId: string,
+  ): Promise<Map<string, PollView>> {
+    const views = new Map<string, PollView>();
+    if (messageIds.length === 0) return views;
+
+    const polls = await this.pollRepo.find({
+      where: { messageId: In(messageIds) },
+    });
+    if (polls.length === 0) return views;
+
+    const votes = await this.pollVoteRepo.find({
+      where: { pollId: In(polls.map((p) => p.id)) },
+      order: { createdAt: 'ASC' },
+    });
+
+    for (const poll of polls) {
+      const pollVotes = votes.filter((v) => v.pollId === poll.id);
+      views.set(poll.messageId, {
+        ...this.summarize(poll, pollVotes),
+        myOptionIds: pollVotes
+          .filter((v) => v.userId === viewerId)
+          .map((v) => v.optionId),
+      });
+    }
+    return views;
+  }
+
+  private async buildResults(poll: Poll): Promise<PollResults> {
+    const votes = await this.pollVoteRepo.find({
+      where: { pollId: poll.id },
+      order: { createdAt: 'ASC' },
+    });
+    return this.summarize(poll, votes);
+  }
+
+  private summarize(poll: Poll, votes: PollVote[]): PollResults {
+    return {
+      messageId: poll.messageId,
+      allowsMultiple: poll.allowsMultiple,
+      isAnonymous: poll.isAnonymous,
+      closesAt: poll.closesAt,
+      isClosed: this.isClosed(poll),
+      totalVoters: new Set(votes.map((v) => v.userId)).size,
+      options: poll.options.map((option: PollOption) => {
+        const voterIds = votes
+          .filter((v) => v.optionId === option.id)
+          .map((v) => v.userId);
+        return {
+          id: option.id,
+          text: option.text,
+          translations: option.translations,
+          voteCount: voterIds.length,
+          voterIds: poll.isAnonymous ? [] : voterIds,
+        };
+      }),
+    };
+  }
+
+  private isClosed(poll: Poll): boolean {
+    return !!poll.closesAt && poll.closesAt.getTime() <= Date.now();
+  }
+
+  private async findPollOrThrow(
+    messageId: string,
+    groupId?: string,
+  ): Promise<Poll> {
+    const poll = await this.pollRepo.findOne({
+      where: {
+        messageId,
+        ...(groupId && { message: { groupId } }),
+      },
+      relations: ['message', 'message.sender'],
+    });
+    if (!poll) throw new Error('Poll not found');
+    return poll;
+  }
+}
@@ -0,0 +1,129 @@
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { ScheduledMessageDispatcher } from './scheduled-message.dispatcher';
+import { ScheduledMessagesService } from './scheduled-messages.service';
+import { ChatGateway } from './chat.gateway';
+import { GroupsService } from '../groups/groups.service';
+import {
+  ScheduledMessage,
+  ScheduledMessageStatus,
+} from './entities/scheduled-message.entity';
+import { MessageContentType } from './entities/message.entity';
+
+describe('ScheduledMessageDispatcher', () => {
+  let dispatcher: ScheduledMessageDispatcher;
+  let scheduledMessagesService: {
+    findDue: jest.Mock;
+    markSent: jest.Mock;
+    markFailed: jest.Mock;
+  };
+  let groupsService: {
+    isMember: jest.Mock;
+    isDmBlocked: jest.Mock;
+    isPostingRestricted: jest.Mock;
+  };
+  let chatGateway: {
+    dispatchMessage: jest.Mock;
+    notifyScheduledMessageSent: jest.Mock;
+  };
+
+  const scheduled = {
+    id: 'sched-1',
+    senderId: 'user-1',
+    groupId: 'group-1',
+    rawContent: 'Good morning! Kuppiya at 9',
+    sendAt: new Date('2026-01-01T01:30:00Z'),
+    timezone: 'Asia/Colombo',
+    status: ScheduledMessageStatus.PENDING,
+  } as ScheduledMessage;
+
+  beforeEach(async () => {
+    scheduledMessagesService = {
+      findDue: jest.fn().mockResolvedValue([scheduled]),
+      markSent: jest.fn().mockResolvedValue(undefined),
+      markFailed: jest.fn().mockResolvedValue(undefined),
+    };
+    groupsService = {
+      isMember: jest.fn().mockResolvedValue(true),
+      isDmBlocked: jest.fn().mockResolvedValue(false),
+      isPostingRestricted: jest.fn().mockResolvedValue(false),
+    };
+    chatGateway = {
+      dispatchMessage: jest.fn().mockResolvedValue({ id: 'msg-1' }),
+      notifyScheduledMessageSent: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScheduledMessageDispatcher,
+        {
+          provide: ScheduledMessagesService,
+          useValue: scheduledMessagesService,
+        },
+        { provide: GroupsService, useValue: groupsService },
+        { provide: ChatGateway, useValue: chatGateway },
+      ],
+    }).compile();
+
+    dispatcher = module.get(ScheduledMessageDispatcher);
+  });
+
+  it('sends due messages through the live pipeline and marks them sent', async () => {
+    await dispatcher.tick();
+
+    expect(chatGateway.dispatchMessage).toHaveBeenCalledWith(
+      'user-1',
+      expect.objectContaining({
+        groupId: 'group-1',
+        clientTempId: 'scheduled-sched-1',
+        contentType: MessageContentType.TEXT,
+        rawContent: 'Good morning! Kuppiya at 9',
+        timezone: 'Asia/Colombo',
+      }),
+    );
+    expect(scheduledMessagesService.markSent).toHaveBeenCalledWith(
+      'sched-1',
+      'msg-1',
+    );
+    expect(chatGateway.notifyScheduledMessageSent).toHaveBeenCalledWith(
+      'user-1',
+      { scheduledMessageId: 'sched-1', groupId: 'group-1', messageId: 'msg-1' },
+    );
+  });
+
+  it('fails the message when the sender has left the conversation', async () => {
+    groupsService.isMember.mockResolvedValue(false);
+
+    await dispatcher.tick();
+
+    expect(chatGateway.dispatchMessage).not.toHaveBeenCalled();
+    expect(scheduledMessagesService.markFailed).toHaveBeenCalledWith(
+      'sched-1',
+      'You are no longer a member of this conversation',
+    );
+  });
+
+  it('fails the message when a block now stands between the DM participants', async () => {
+    groupsService.isDmBlocked.mockResolvedValue(true);
+
+    await dispatcher.tick();
+
+    expect(chatGateway.dispatchMessage).not.toHaveBeenCalled();
+    expect(scheduledMessagesService.markFailed).toHaveBeenCalledWith(
+      'sched-1',
+      'You can no longer send messages in this chat',
+    );
+  });
+
+  it('fails the message once the group is limited to admin posts', async () => {
+    groupsService.isPostingRestricted.mockResolvedValue(true);
+
+    await dispatcher.tick();
+
+    expect(chatGateway.dispatchMessage).not.toHaveBeenCalled();
+    expect(scheduledMessagesService.markFailed).toHaveBeenCalledWith(
+      'sched-1',
+      'Only admins can send messages in this group',
+    );
+  });
+});
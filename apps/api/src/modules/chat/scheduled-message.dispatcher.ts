@@ -0,0 +1,139 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+
+import { ChatGateway } from './chat.gateway';
+import { ScheduledMessagesService } from './scheduled-messages.service';
+import { ScheduledMessage } from './entities/scheduled-message.entity';
+import { MessageContentType } from './entities/message.entity';
+import { GroupsService } from '../groups/groups.service';
+
+const POLL_INTERVAL_MS = 30_000;
+const BATCH_SIZE = 50;
+
+/**
+ * Polls for due scheduled messages and pushes them through the same
+ * persist → broadcast → translate pipeline as a live send. State lives in
+ * the database, so anything that came due while the API was down goes out
+ * on the first tick after boot. The clientTempId is derived from the
+ * schedule id: if the process dies between sending and marking the row
+ * sent, the retry finds the existing message instead of duplicating it.
+ */
+@Injectable()
+export class ScheduledMessageDispatcher
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(ScheduledMessageDispatcher.name);
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private isTicking = false;
+
+  constructor(
+    private readonly scheduledMessagesService: ScheduledMessagesService,
+    private readonly groupsService: GroupsService,
+    private readonly chatGateway: ChatGateway,
+  ) {}
+
+  onModuleInit(): void {
+    this.timer = setInterval(() => void this.tick(), POLL_INTERVAL_MS);
+    this.timer.unref?.();
+    void this.tick();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** Sends everything that is due. Overlapping ticks are skipped. */
+  async tick(): Promise<void> {
+    if (this.isTicking) return;
+    this.isTicking = true;
+    try {
+      const due = await this.scheduledMessagesService.findDue(
+        new Date(),
+        BATCH_SIZE,
+      );
+      for (const scheduled of due) {
+        await this.send(scheduled);
+      }
+    } catch (err) {
+      this.logger.error(`[tick] failed: ${String(err)}`);
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  private async send(scheduled: ScheduledMessage): Promise<void> {
+    try {
+      const isMember = await this.groupsService.isMember(
+        scheduled.groupId,
+        scheduled.senderId,
+      );
+      if (!isMember) {
+        await this.scheduledMessagesService.markFailed(
+          scheduled.id,
+          'You are no longer a member of this conversation',
+        );
+        return;
+      }
+      if (
+        await this.groupsService.isDmBlocked(
+          scheduled.groupId,
+          scheduled.senderId,
+        )
+      ) {
+        await this.scheduledMessagesService.markFailed(
+          scheduled.id,
+          'You can no longer send messages in this chat',
+        );
+        return;
+      }
+      if (
+        await this.groupsService.isPostingRestricted(
+          scheduled.groupId,
+          scheduled.senderId,
+        )
+      ) {
+        await this.scheduledMessagesService.markFailed(
+          scheduled.id,
+          'Only admins can send messages in this group',
+        );
+        return;
+      }
+
+      const message = await this.chatGateway.dispatchMessage(
+        scheduled.senderId,
+        {
+          groupId: scheduled.groupId,
+          clientTempId: `scheduled-${scheduled.id}`,
+          nativeDialect: 'singlish',
+          targetLanguages: [],
+          contentType: MessageContentType.TEXT,
+          rawContent: scheduled.rawContent,
+          timezone: scheduled.timezone ?? undefined,
+        },
+      );
+      await this.scheduledMessagesService.markSent(scheduled.id, message.id);
+      this.chatGateway.notifyScheduledMessageSent(scheduled.senderId, {
+        scheduledMessageId: scheduled.id,
+        groupId: scheduled.groupId,
+        messageId: message.id,
+      });
+
+      this.logger.log(
+        `[send] scheduledMessageId=${scheduled.id} sent as messageId=${message.id}`,
+      );
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      this.logger.error(
+        `[send] scheduledMessageId=${scheduled.id} failed: ${reason}`,
+      );
+      await this.scheduledMessagesService
+        .markFailed(scheduled.id, reason)
+        .catch(() => undefined);
+    }
+  }
+}
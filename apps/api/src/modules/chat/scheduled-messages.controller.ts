@@ -0,0 +1,71 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+
+import { JwtAuthGuard } from '../../core/identity/guards/jwt-auth.guard';
+import { ScheduledMessagesService } from './scheduled-messages.service';
+import { ScheduledMessage } from './entities/scheduled-message.entity';
+import { CreateScheduledMessageDto } from './dto/create-scheduled-message.dto';
+import { UpdateScheduledMessageDto } from './dto/update-scheduled-message.dto';
+
+interface AuthRequest {
+  user: { sub: string; email: string };
+}
+
+@Controller('scheduled-messages')
+@UseGuards(JwtAuthGuard)
+export class ScheduledMessagesController {
+  constructor(
+    private readonly scheduledMessagesService: ScheduledMessagesService,
+  ) {}
+
+  /** GET /scheduled-messages?groupId= — the caller's pending messages. */
+  @Get()
+  async findPending(
+    @Request() req: AuthRequest,
+    @Query('groupId', new ParseUUIDPipe({ optional: true })) groupId?: string,
+  ): Promise<ScheduledMessage[]> {
+    return this.scheduledMessagesService.findPending(req.user.sub, groupId);
+  }
+
+  /** POST /scheduled-messages — schedule a text message. */
+  @Post()
+  async create(
+    @Request() req: AuthRequest,
+    @Body() dto: CreateScheduledMessageDto,
+  ): Promise<ScheduledMessage> {
+    return this.scheduledMessagesService.create(req.user.sub, dto);
+  }
+
+  /** PATCH /scheduled-messages/:id — change the text or time while pending. */
+  @Patch(':id')
+  async update(
+    @Request() req: AuthRequest,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateScheduledMessageDto,
+  ): Promise<ScheduledMessage> {
+    return this.scheduledMessagesService.update(id, req.user.sub, dto);
+  }
+
+  /** DELETE /scheduled-messages/:id — cancel a pending message. */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async cancel(
+    @Request() req: AuthRequest,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    await this.scheduledMessagesService.cancel(id, req.user.sub);
+  }
+}
@@ -0,0 +1,161 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThanOrEqual, Repository } from 'typeorm';
+
+import {
+  ScheduledMessage,
+  ScheduledMessageStatus,
+} from './entities/scheduled-message.entity';
+import { CreateScheduledMessageDto } from './dto/create-scheduled-message.dto';
+import { UpdateScheduledMessageDto } from './dto/update-scheduled-message.dto';
+import { GroupsService } from '../groups/groups.service';
+
+/** The scheduler polls on an interval, so anything sooner is just "send". */
+const MIN_SCHEDULE_LEAD_MS = 60 * 1000;
+const MAX_SCHEDULE_AHEAD_MS = 365 * 24 * 60 * 60 * 1000;
+const MAX_PENDING_PER_USER = 50;
+
+@Injectable()
+export class ScheduledMessagesService {
+  constructor(
+    @InjectRepository(ScheduledMessage)
+    private readonly scheduledMessageRepo: Repository<ScheduledMessage>,
+    private readonly groupsService: GroupsService,
+  ) {}
+
+  // ── Sender-facing ─────────────────────────────────────────────────────────
+
+  /** The user's pending messages, soonest first. */
+  async findPending(
+    userId: string,
+    groupId?: string,
+  ): Promise<ScheduledMessage[]> {
+    return this.scheduledMessageRepo.find({
+      where: {
+        senderId: userId,
+        status: ScheduledMessageStatus.PENDING,
+        ...(groupId && { groupId }),
+      },
+      order: { sendAt: 'ASC' },
+    });
+  }
+
+  async create(
+    userId: string,
+    dto: CreateScheduledMessageDto,
+  ): Promise<ScheduledMessage> {
+    const isMember = await this.groupsService.isMember(dto.groupId, userId);
+    if (!isMember) {
+      throw new ForbiddenException('You are not a member of this conversation');
+    }
+
+    const pendingCount = await this.scheduledMessageRepo.count({
+      where: { senderId: userId, status: ScheduledMessageStatus.PENDING },
+    });
+    if (pendingCount >= MAX_PENDING_PER_USER) {
+      throw new ConflictException(
+        `You can have at most ${MAX_PENDING_PER_USER} scheduled messages`,
+      );
+    }
+
+    return this.scheduledMessageRepo.save(
+      this.scheduledMessageRepo.create({
+        senderId: userId,
+        groupId: dto.groupId,
+        rawContent: dto.rawContent.trim(),
+        sendAt: this.parseSendAt(dto.sendAt),
+        timezone: dto.timezone ?? null,
+      }),
+    );
+  }
+
+  async update(
+    id: string,
+    userId: string,
+    dto: UpdateScheduledMessageDto,
+  ): Promise<ScheduledMessage> {
+    const scheduled = await this.findPendingOwned(id, userId);
+
+    if (dto.rawContent !== undefined) {
+      scheduled.rawContent = dto.rawContent.trim();
+    }
+    if (dto.sendAt !== undefined) {
+      scheduled.sendAt = this.parseSendAt(dto.sendAt);
+    }
+
+    return this.scheduledMessageRepo.save(scheduled);
+  }
+
+  async cancel(id: string, userId: string): Promise<void> {
+    const scheduled = await this.findPendingOwned(id, userId);
+    await this.scheduledMessageRepo.remove(scheduled);
+  }
+
+  // ── Scheduler ─────────────────────────────────────────────────────────────
+
+  async findDue(now: Date, limit: number): Promise<ScheduledMessage[]> {
+    return this.scheduledMessageRepo.find({
+      where: {
+        status: ScheduledMessageStatus.PENDING,
+        sendAt: LessThanOrEqual(now),
+      },
+      order: { sendAt: 'ASC' },
+      take: limit,
+    });
+  }
+
+  async markSent(id: string, messageId: string): Promise<void> {
+    await this.scheduledMessageRepo.update(
+      { id, status: ScheduledMessageStatus.PENDING },
+      { status: ScheduledMessageStatus.SENT, messageId },
+    );
+  }
+
+  async markFailed(id: string, reason: string): Promise<void> {
+    await this.scheduledMessageRepo.update(
+      { id, status: ScheduledMessageStatus.PENDING },
+      {
+        status: ScheduledMessageStatus.FAILED,
+        failureReason: reason.slice(0, 255),
+      },
+    );
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────────
+
+  /** Only pending messages can change — a sent one is already in the chat. */
+  private async findPendingOwned(
+    id: string,
+    userId: string,
+  ): Promise<ScheduledMessage> {
+    const scheduled = await this.scheduledMessageRepo.findOne({
+      where: { id, senderId: userId, status: ScheduledMessageStatus.PENDING },
+    });
+    if (!scheduled) {
+      throw new NotFoundException('Scheduled message not found');
+    }
+    return scheduled;
+  }
+
+  private parseSendAt(value: string): Date {
+    const sendAt = new Date(value);
+    const leadMs = sendAt.getTime() - Date.now();
+    if (leadMs < MIN_SCHEDULE_LEAD_MS) {
+      throw new BadRequestException(
+        'Scheduled time must be at least a minute from now',
+      );
+    }
+    if (leadMs > MAX_SCHEDULE_AHEAD_MS) {
+      throw new BadRequestException(
+        'Messages can be scheduled at most a year ahead',
+      );
+    }
+    return sendAt;
+  }
+}
@@ -0,0 +1,20 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+/** Thirty days is the longest a link can be set to last. */
+export const MAX_INVITE_EXPIRY_HOURS = 30 * 24;
+
+export class CreateGroupInviteDto {
+  /** Omit for a link that never expires. */
+  @IsOptional()
+  @IsInt({ message: 'expiresInHours must be a whole number of hours' })
+  @Min(1)
+  @Max(MAX_INVITE_EXPIRY_HOURS)
+  expiresInHours?: number;
+
+  /** Omit for unlimited joins. */
+  @IsOptional()
+  @IsInt({ message: 'maxUses must be a whole number' })
+  @Min(1)
+  @Max(1000)
+  maxUses?: number;
+}
@@ -0,0 +1,22 @@
+import { IsBoolean, IsDateString, IsOptional } from 'class-validator';
+
+/** The caller's own chat-list settings for one conversation. */
+export class UpdateConversationPreferencesDto {
+  /** ISO time to mute until; null unmutes. */
+  @IsOptional()
+  @IsDateString({}, { message: 'mutedUntil must be an ISO date or null' })
+  mutedUntil?: string | null;
+
+  @IsOptional()
+  @IsBoolean()
+  isArchived?: boolean;
+
+  /** Stay archived when new messages arrive. */
+  @IsOptional()
+  @IsBoolean()
+  keepArchived?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  isPinned?: boolean;
+}
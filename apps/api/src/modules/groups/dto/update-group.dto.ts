@@ -0,0 +1,39 @@
+import {
+  IsIn,
+  IsOptional,
+  IsString,
+  Length,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+
+import {
+  SUPPORTED_LANGUAGES,
+  type SupportedLanguage,
+} from '../../translation/translation.service';
+
+export const MAX_GROUP_DESCRIPTION_LENGTH = 500;
+
+/** PATCH /groups/:id — omitted fields are left as they are. */
+export class UpdateGroupDto {
+  /** May be omitted, but a group can't be left without a name. */
+  @ValidateIf((_, value) => value !== undefined)
+  @IsString()
+  @Length(2, 80, { message: 'name must be between 2 and 80 characters' })
+  name?: string;
+
+  /** Empty string or null clears it. */
+  @IsOptional()
+  @IsString()
+  @MaxLength(MAX_GROUP_DESCRIPTION_LENGTH, {
+    message: `description must be at most ${MAX_GROUP_DESCRIPTION_LENGTH} characters`,
+  })
+  description?: string | null;
+
+  /** Language new members start with; null falls back to their own. */
+  @IsOptional()
+  @IsIn(SUPPORTED_LANGUAGES, {
+    message: `defaultLanguage must be one of: ${SUPPORTED_LANGUAGES.join(', ')}`,
+  })
+  defaultLanguage?: SupportedLanguage | null;
+}
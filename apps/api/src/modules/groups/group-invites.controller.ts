@@ -0,0 +1,64 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+
+import { JwtAuthGuard } from '../../core/identity/guards/jwt-auth.guard';
+import {
+  GroupInvitesService,
+  type GroupInviteView,
+} from './group-invites.service';
+import { CreateGroupInviteDto } from './dto/create-group-invite.dto';
+
+interface AuthRequest {
+  user: { sub: string; email: string };
+}
+
+@Controller('groups/:id/invites')
+@UseGuards(JwtAuthGuard)
+export class GroupInvitesController {
+  constructor(private readonly groupInvitesService: GroupInvitesService) {}
+
+  /** POST /groups/:id/invites — new link with an optional expiry and use cap. */
+  @Post()
+  createInvite(
+    @Param('id', ParseUUIDPipe) groupId: string,
+    @Body() dto: CreateGroupInviteDto,
+    @Request() req: AuthRequest,
+  ): Promise<GroupInviteView> {
+    return this.groupInvitesService.createInvite(groupId, req.user.sub, dto);
+  }
+
+  /** GET /groups/:id/invites — the group's links that are still live. */
+  @Get()
+  findInvites(
+    @Param('id', ParseUUIDPipe) groupId: string,
+    @Request() req: AuthRequest,
+  ): Promise<GroupInviteView[]> {
+    return this.groupInvitesService.findInvites(groupId, req.user.sub);
+  }
+
+  /** DELETE /groups/:id/invites/:inviteId — revoke a link. */
+  @Delete(':inviteId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revokeInvite(
+    @Param('id', ParseUUIDPipe) groupId: string,
+    @Param('inviteId', ParseUUIDPipe) inviteId: string,
+    @Request() req: AuthRequest,
+  ): Promise<void> {
+    await this.groupInvitesService.revokeInvite(
+      groupId,
+      inviteId,
+      req.user.sub,
+    );
+  }
+}
@@ -0,0 +1,213 @@
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { GroupInvitesService } from './group-invites.service';
+import { ChatGroup } from '../chat/entities/chat-group.entity';
+import { GroupInvite } from '../chat/entities/group-invite.entity';
+import {
+  GroupMember,
+  GroupMemberRole,
+} from '../chat/entities/group-member.entity';
+
+describe('GroupInvitesService', () => {
+  let service: GroupInvitesService;
+  let inviteRepo: {
+    findOne: jest.Mock;
+    find: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+    update: jest.Mock;
+  };
+  let groupRepo: { findOne: jest.Mock };
+  let memberRepo: {
+    findOne: jest.Mock;
+    count: jest.Mock;
+    manager: { transaction: jest.Mock };
+  };
+  let claimUse: jest.Mock;
+  let insertMember: jest.Mock;
+
+  const group = { id: 'group-1', name: 'Cricket club', isGroup: true };
+
+  const buildInvite = (overrides: Partial<GroupInvite> = {}) =>
+    ({
+      id: 'invite-1',
+      groupId: 'group-1',
+      group,
+      token: 'tok',
+      expiresAt: null,
+      maxUses: null,
+      useCount: 0,
+      revokedAt: null,
+      createdAt: new Date(),
+      ...overrides,
+    }) as GroupInvite;
+
+  /**
+   * Chainable query-builder stub: an insert runs `insertMember`, an update
+   * runs `claimUse`.
+   */
+  const queryBuilder = () => {
+    const qb: Record<string, jest.Mock> = {};
+    qb.execute = jest.fn(() =>
+      qb.insert.mock.calls.length > 0
+        ? (insertMember() as Promise<unknown>)
+        : (claimUse() as Promise<unknown>),
+    );
+    for (const step of [
+      'update',
+      'set',
+      'where',
+      'andWhere',
+      'insert',
+      'into',
+      'values',
+      'orIgnore',
+      'returning',
+    ]) {
+      qb[step] = jest.fn(() => qb);
+    }
+    return qb;
+  };
+
+  beforeEach(async () => {
+    claimUse = jest.fn().mockResolvedValue({ affected: 1 });
+    insertMember = jest.fn().mockResolvedValue({ raw: [{ id: 'member-1' }] });
+    inviteRepo = {
+      findOne: jest.fn(),
+      find: jest.fn().mockResolvedValue([]),
+      create: jest.fn((data: Partial<GroupInvite>) => data),
+      save: jest.fn((data: Partial<GroupInvite>) => ({
+        ...data,
+        id: 'invite-1',
+        createdAt: new Date(),
+      })),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+    };
+    groupRepo = { findOne: jest.fn().mockResolvedValue(group) };
+    memberRepo = {
+      findOne: jest.fn().mockResolvedValue(null),
+      count: jest.fn().mockResolvedValue(4),
+      manager: {
+        transaction: jest.fn((work: (em: unknown) => Promise<unknown>) =>
+          work({ createQueryBuilder: jest.fn(() => queryBuilder()) }),
+        ),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GroupInvitesService,
+        { provide: getRepositoryToken(GroupInvite), useValue: inviteRepo },
+        { provide: getRepositoryToken(ChatGroup), useValue: groupRepo },
+        { provide: getRepositoryToken(GroupMember), useValue: memberRepo },
+      ],
+    }).compile();
+
+    service = module.get(GroupInvitesService);
+  });
+
+  it('creates a URL-safe link with the requested expiry and use cap', async () => {
+    memberRepo.findOne.mockResolvedValue({ role: GroupMemberRole.ADMIN });
+    const before = Date.now();
+
+    const invite = await service.createInvite('group-1', 'admin', {
+      expiresInHours: 24,
+      maxUses: 10,
+    });
+
+    expect(invite.token).toMatch(/^[A-Za-z0-9_-]{22}$/);
+    expect(invite.maxUses).toBe(10);
+    expect(invite.expiresAt!.getTime()).toBeGreaterThanOrEqual(
+      before + 24 * 60 * 60 * 1000,
+    );
+  });
+
+  it('only lets group admins manage links', async () => {
+    memberRepo.findOne.mockResolvedValue({ role: GroupMemberRole.MEMBER });
+    await expect(service.createInvite('group-1', 'user', {})).rejects.toThrow(
+      'Only group admins can manage invite links',
+    );
+    await expect(
+      service.revokeInvite('group-1', 'invite-1', 'user'),
+    ).rejects.toThrow('Only group admins can manage invite links');
+    expect(inviteRepo.update).not.toHaveBeenCalled();
+  });
+
+  it('previews the group name and size', async () => {
+    inviteRepo.findOne.mockResolvedValue(buildInvite());
+
+    await expect(service.previewInvite('tok', 'user')).resolves.toEqual({
+      groupId: 'group-1',
+      groupName: 'Cricket club',
+      memberCount: 4,
+      isMember: false,
+    });
+  });
+
+  it('turns away revoked, expired and used-up links', async () => {
+    inviteRepo.findOne.mockResolvedValue(
+      buildInvite({ revokedAt: new Date() }),
+    );
+    await expect(service.previewInvite('tok', 'user')).rejects.toThrow(
+      'This invite link has been revoked',
+    );
+
+    inviteRepo.findOne.mockResolvedValue(
+      buildInvite({ expiresAt: new Date(Date.now() - 1000) }),
+    );
+    await expect(service.joinWithInvite('tok', 'user')).rejects.toThrow(
+      'This invite link has expired',
+    );
+
+    inviteRepo.findOne.mockResolvedValue(
+      buildInvite({ maxUses: 2, useCount: 2 }),
+    );
+    await expect(service.joinWithInvite('tok', 'user')).rejects.toThrow(
+      'This invite link has reached its limit',
+    );
+    expect(insertMember).not.toHaveBeenCalled();
+  });
+
+  it('adds the member and claims a use in one transaction', async () => {
+    inviteRepo.findOne.mockResolvedValue(buildInvite({ maxUses: 5 }));
+
+    await expect(service.joinWithInvite('tok', 'user')).resolves.toBe(group);
+
+    expect(claimUse).toHaveBeenCalled();
+    expect(insertMember).toHaveBeenCalled();
+  });
+
+  it('keeps the last use for one of two racing joiners', async () => {
+    inviteRepo.findOne.mockResolvedValue(
+      buildInvite({ maxUses: 1, useCount: 0 }),
+    );
+    claimUse.mockResolvedValue({ affected: 0 });
+
+    // Throwing inside the transaction rolls the membership insert back.
+    await expect(service.joinWithInvite('tok', 'user')).rejects.toThrow(
+      'This invite link has reached its limit',
+    );
+    expect(memberRepo.manager.transaction).toHaveBeenCalled();
+  });
+
+  it('claims nothing when a concurrent join already added the member', async () => {
+    inviteRepo.findOne.mockResolvedValue(buildInvite({ maxUses: 1 }));
+    insertMember.mockResolvedValue({ raw: [] });
+
+    await expect(service.joinWithInvite('tok', 'user')).resolves.toBe(group);
+
+    expect(insertMember).toHaveBeenCalled();
+    expect(claimUse).not.toHaveBeenCalled();
+  });
+
+  it('does not use up the link for someone already in the group', async () => {
+    inviteRepo.findOne.mockResolvedValue(buildInvite({ maxUses: 1 }));
+    memberRepo.findOne.mockResolvedValue({ userId: 'user' });
+
+    await service.joinWithInvite('tok', 'user');
+
+    expect(claimUse).not.toHaveBeenCalled();
+    expect(insertMember).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,215 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  GoneException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { randomBytes } from 'crypto';
+import { IsNull, Repository } from 'typeorm';
+
+import { ChatGroup } from '../chat/entities/chat-group.entity';
+import { GroupInvite } from '../chat/entities/group-invite.entity';
+import {
+  GroupMember,
+  GroupMemberRole,
+  hasAdminRights,
+} from '../chat/entities/group-member.entity';
+import { CreateGroupInviteDto } from './dto/create-group-invite.dto';
+
+export interface GroupInviteView {
+  id: string;
+  token: string;
+  expiresAt: Date | null;
+  maxUses: number | null;
+  useCount: number;
+  createdAt: Date;
+}
+
+/** What someone holding the link sees before joining. */
+export interface InvitePreview {
+  groupId: string;
+  groupName: string | null;
+  memberCount: number;
+  /** Already in the group — the app opens the chat instead of joining. */
+  isMember: boolean;
+}
+
+@Injectable()
+export class GroupInvitesService {
+  constructor(
+    @InjectRepository(GroupInvite)
+    private readonly inviteRepo: Repository<GroupInvite>,
+
+    @InjectRepository(ChatGroup)
+    private readonly chatGroupRepo: Repository<ChatGroup>,
+
+    @InjectRepository(GroupMember)
+    private readonly groupMemberRepo: Repository<GroupMember>,
+  ) {}
+
+  // ── Admins ────────────────────────────────────────────────────────────────
+
+  async createInvite(
+    groupId: string,
+    requesterId: string,
+    dto: CreateGroupInviteDto,
+  ): Promise<GroupInviteView> {
+    await this.assertGroupAdmin(groupId, requesterId);
+
+    const invite = await this.inviteRepo.save(
+      this.inviteRepo.create({
+        groupId,
+        createdById: requesterId,
+        // 16 random bytes → 22 URL-safe characters.
+        token: randomBytes(16).toString('base64url'),
+        expiresAt: dto.expiresInHours
+          ? new Date(Date.now() + dto.expiresInHours * 60 * 60 * 1000)
+          : null,
+        maxUses: dto.maxUses ?? null,
+        useCount: 0,
+      }),
+    );
+    return this.toView(invite);
+  }
+
+  /** Links that haven't been revoked, newest first — expired ones included. */
+  async findInvites(
+    groupId: string,
+    requesterId: string,
+  ): Promise<GroupInviteView[]> {
+    await this.assertGroupAdmin(groupId, requesterId);
+    const invites = await this.inviteRepo.find({
+      where: { groupId, revokedAt: IsNull() },
+      order: { createdAt: 'DESC' },
+    });
+    return invites.map((i) => this.toView(i));
+  }
+
+  async revokeInvite(
+    groupId: string,
+    inviteId: string,
+    requesterId: string,
+  ): Promise<void> {
+    await this.assertGroupAdmin(groupId, requesterId);
+    const result = await this.inviteRepo.update(
+      { id: inviteId, groupId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    if (!result.affected) throw new NotFoundException('Invite link not found');
+  }
+
+  // ── Link holders ──────────────────────────────────────────────────────────
+
+  async previewInvite(token: string, userId: string): Promise<InvitePreview> {
+    const invite = await this.findUsableInvite(token);
+    const [memberCount, membership] = await Promise.all([
+      this.groupMemberRepo.count({ where: { groupId: invite.groupId } }),
+      this.groupMemberRepo.findOne({
+        where: { groupId: invite.groupId, userId },
+      }),
+    ]);
+    return {
+      groupId: invite.groupId,
+      groupName: invite.group.name,
+      memberCount,
+      isMember: !!membership,
+    };
+  }
+
+  /**
+   * Adds the caller to the group. Existing members don't use up the link.
+   * The membership insert and the use claim share a transaction: a second
+   * concurrent join by the same user inserts nothing and claims nothing, and
+   * a join that loses the race for the last use rolls its membership back.
+   */
+  async joinWithInvite(token: string, userId: string): Promise<ChatGroup> {
+    const invite = await this.findUsableInvite(token);
+
+    const existing = await this.groupMemberRepo.findOne({
+      where: { groupId: invite.groupId, userId },
+    });
+    if (existing) return invite.group;
+
+    return this.groupMemberRepo.manager.transaction(async (em) => {
+      const inserted = await em
+        .createQueryBuilder()
+        .insert()
+        .into(GroupMember)
+        .values({
+          groupId: invite.groupId,
+          userId,
+          role: GroupMemberRole.MEMBER,
+          preferredLanguage: invite.group.defaultLanguage,
+        })
+        .orIgnore()
+        .returning('id')
+        .execute();
+      if ((inserted.raw as unknown[]).length === 0) return invite.group;
+
+      const claimed = await em
+        .createQueryBuilder()
+        .update(GroupInvite)
+        .set({ useCount: () => 'use_count + 1' })
+        .where('id = :id', { id: invite.id })
+        .andWhere('revoked_at IS NULL')
+        .andWhere('(expires_at IS NULL OR expires_at > now())')
+        .andWhere('(max_uses IS NULL OR use_count < max_uses)')
+        .execute();
+      if (!claimed.affected) {
+        throw new GoneException('This invite link has reached its limit');
+      }
+      return invite.group;
+    });
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────────
+
+  private async findUsableInvite(token: string): Promise<GroupInvite> {
+    const invite = await this.inviteRepo.findOne({
+      where: { token },
+      relations: ['group'],
+    });
+    if (!invite) throw new NotFoundException('This invite link is invalid');
+    if (invite.revokedAt) {
+      throw new GoneException('This invite link has been revoked');
+    }
+    if (invite.expiresAt && invite.expiresAt.getTime() <= Date.now()) {
+      throw new GoneException('This invite link has expired');
+    }
+    if (invite.maxUses !== null && invite.useCount >= invite.maxUses) {
+      throw new GoneException('This invite link has reached its limit');
+    }
+    return invite;
+  }
+
+  /** DMs can't be joined, so they have no invite links. */
+  private async assertGroupAdmin(
+    groupId: string,
+    userId: string,
+  ): Promise<void> {
+    const group = await this.chatGroupRepo.findOne({ where: { id: groupId } });
+    if (!group) throw new NotFoundException('Group not found');
+    if (!group.isGroup) {
+      throw new BadRequestException('Direct messages have no invite links');
+    }
+    const membership = await this.groupMemberRepo.findOne({
+      where: { groupId, userId },
+    });
+    if (!membership || !hasAdminRights(membership.role)) {
+      throw new ForbiddenException('Only group admins can manage invite links');
+    }
+  }
+
+  private toView(invite: GroupInvite): GroupInviteView {
+    return {
+      id: invite.id,
+      token: invite.token,
+      expiresAt: invite.expiresAt,
+      maxUses: invite.maxUses,
+      useCount: invite.useCount,
+      createdAt: invite.createdAt,
+    };
+  }
+}
@@ -1,4 +1,5 @@
 import {
+  BadRequestException,
   Body,
   Controller,
   Delete,
@@ -6,15 +7,31 @@ import {
   Get,
   HttpCode,
   HttpStatus,
+  Logger,
   Param,
+  ParseBoolPipe,
+  ParseUUIDPipe,
   Patch,
   Post,
+  Query,
   Request,
+  UploadedFile,
   UseGuards,
+  UseInterceptors,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import * as crypto from 'crypto';
+import * as path from 'path';
 
 import { JwtAuthGuard } from '../../core/identity/guards/jwt-auth.guard';
+import {
+  profilePictureUploadOptions,
+  MIME_TO_EXT,
+} from '../../core/common/upload';
+import { S3StorageService } from '../../core/common/storage/s3-storage.service';
 import { GroupsService } from './groups.service';
+import { UpdateConversationPreferencesDto } from './dto/update-conversation-preferences.dto';
+import { UpdateGroupDto } from './dto/update-group.dto';
 import { NotificationService } from '../notification/notification.service';
 
 interface AuthRequest {
@@ -24,14 +41,40 @@ interface AuthRequest {
 @Controller('groups')
 @UseGuards(JwtAuthGuard)
 export class GroupsController {
+  private readonly logger = new Logger(GroupsController.name);
+
   constructor(
     private readonly groupsService: GroupsService,
     private readonly notificationService: NotificationService,
+    private readonly s3StorageService: S3StorageService,
   ) {}
 
   @Get()
-  findGroups(@Request() req: AuthRequest) {
-    return this.groupsService.findGroupsForUser(req.user.sub);
+  findGroups(
+    @Request() req: AuthRequest,
+    @Query('includeArchived', new ParseBoolPipe({ optional: true }))
+    includeArchived?: boolean,
+  ) {
+    return this.groupsService.findGroupsForUser(req.user.sub, {
+      includeArchived,
+    });
+  }
+
+  /** DMs from people the caller shares no conversation with, awaiting a reply. */
+  @Get('requests')
+  findMessageRequests(@Request() req: AuthRequest) {
+    return this.groupsService.findGroupsForUser(req.user.sub, {
+      requests: true,
+    });
+  }
+
+  /** Name, avatar, description (with translations) and default language. */
+  @Get(':id')
+  findGroup(
+    @Request() req: AuthRequest,
+    @Param('id', ParseUUIDPipe) groupId: string,
+  ) {
+    return this.groupsService.findGroupProfile(groupId, req.user.sub);
   }
 
   @Post()
@@ -92,7 +135,9 @@ export class GroupsController {
     try {
       const [token, groups] = await Promise.all([
         this.groupsService.getExpoPushToken(newMemberId),
-        this.groupsService.findGroupsForUser(newMemberId),
+        this.groupsService.findGroupsForUser(newMemberId, {
+          includeArchived: true,
+        }),
       ]);
       if (!token) return;
 
@@ -120,17 +165,71 @@ export class GroupsController {
     await this.groupsService.removeMember(groupId, req.user.sub, targetUserId);
   }
 
-  /** Update group details (name). Any member may call this. */
+  /**
+   * Update the name, description or default language. Any member may call
+   * this unless the group restricts editing info to admins.
+   */
   @Patch(':id')
   async updateGroup(
     @Request() req: AuthRequest,
     @Param('id') groupId: string,
-    @Body() body: { name?: string },
+    @Body() body: UpdateGroupDto,
   ) {
     return this.groupsService.updateGroup(groupId, req.user.sub, body);
   }
 
-  /** Set per-conversation language preference. Pass null to reset to global default. */
+  /**
+   * POST /groups/:id/avatar — upload a compressed group picture. Goes through
+   * the same validation as profile pictures.
+   */
+  @Post(':id/avatar')
+  @UseInterceptors(FileInterceptor('file', profilePictureUploadOptions()))
+  async uploadAvatar(
+    @Request() req: AuthRequest,
+    @Param('id', ParseUUIDPipe) groupId: string,
+    @UploadedFile() file: Express.Multer.File,
+  ) {
+    if (!file?.buffer) {
+      throw new BadRequestException('Uploaded file buffer is missing');
+    }
+
+    // Check permission before anything lands in the bucket.
+    const { avatarUrl: previousUrl } =
+      await this.groupsService.findGroupForEditing(groupId, req.user.sub);
+
+    const ext = MIME_TO_EXT[file.mimetype] ?? path.extname(file.originalname);
+    const uploaded = await this.s3StorageService.uploadBuffer({
+      buffer: file.buffer,
+      fileName: `${crypto.randomUUID()}${ext}`,
+      mimeType: file.mimetype,
+      folder: 'group-avatars',
+    });
+
+    const group = await this.groupsService.updateGroup(groupId, req.user.sub, {
+      avatarUrl: uploaded.url,
+    });
+    await this.deleteReplacedAvatar(groupId, previousUrl);
+    return { url: group.avatarUrl };
+  }
+
+  @Delete(':id/avatar')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async removeAvatar(
+    @Request() req: AuthRequest,
+    @Param('id', ParseUUIDPipe) groupId: string,
+  ) {
+    const { avatarUrl: previousUrl } =
+      await this.groupsService.findGroupForEditing(groupId, req.user.sub);
+    await this.groupsService.updateGroup(groupId, req.user.sub, {
+      avatarUrl: null,
+    });
+    await this.deleteReplacedAvatar(groupId, previousUrl);
+  }
+
+  /**
+   * Set per-conversation language preference. Pass null to reset to the
+   * group's default language, or the caller's own when it has none.
+   */
   @Patch(':id/language')
   async setLanguage(
     @Request() req: AuthRequest,
@@ -144,4 +243,65 @@ export class GroupsController {
     );
     return { ok: true };
   }
+
+  @Post(':id/request/accept')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async acceptMessageRequest(
+    @Request() req: AuthRequest,
+    @Param('id', ParseUUIDPipe) groupId: string,
+  ) {
+    await this.groupsService.acceptMessageRequest(groupId, req.user.sub);
+  }
+
+  /** Declining deletes the DM for both sides. */
+  @Delete(':id/request')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async declineMessageRequest(
+    @Request() req: AuthRequest,
+    @Param('id', ParseUUIDPipe) groupId: string,
+  ) {
+    await this.groupsService.declineMessageRequest(groupId, req.user.sub);
+  }
+
+  /** Mute, archive or pin the conversation in the caller's own chat list. */
+  @Patch(':id/preferences')
+  async setPreferences(
+    @Request() req: AuthRequest,
+    @Param('id', ParseUUIDPipe) groupId: string,
+    @Body() body: UpdateConversationPreferencesDto,
+  ) {
+    const membership = await this.groupsService.setConversationPreferences(
+      groupId,
+      req.user.sub,
+      {
+        ...body,
+        mutedUntil:
+          typeof body.mutedUntil === 'string'
+            ? new Date(body.mutedUntil)
+            : body.mutedUntil,
+      },
+    );
+    return {
+      groupId,
+      mutedUntil: membership.mutedUntil,
+      isArchived: membership.isArchived,
+      keepArchived: membership.keepArchived,
+      pinnedAt: membership.pinnedAt,
+    };
+  }
+
+  /** The new picture is already saved — a storage hiccup only leaves garbage. */
+  private async deleteReplacedAvatar(
+    groupId: string,
+    previousUrl: string | null,
+  ): Promise<void> {
+    if (!previousUrl) return;
+    await this.s3StorageService
+      .deleteObjects([previousUrl])
+      .catch((err) =>
+        this.logger.warn(
+          `[avatar] groupId=${groupId} failed to delete the previous picture: ${String(err)}`,
+        ),
+      );
+  }
 }
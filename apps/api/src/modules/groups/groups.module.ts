@@ -3,22 +3,42 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 
 import { ChatGroup } from '../chat/entities/chat-group.entity';
 import { GroupMember } from '../chat/entities/group-member.entity';
+import { GroupInvite } from '../chat/entities/group-invite.entity';
 import { Message } from '../chat/entities/message.entity';
+import { UserBlock } from '../chat/entities/user-block.entity';
 import { User } from '../../core/identity/entities/user.entity';
 import { GroupsController } from './groups.controller';
 import { UsersController } from './users.controller';
+import { GroupInvitesController } from './group-invites.controller';
+import { InvitesController } from './invites.controller';
 import { GroupsService } from './groups.service';
+import { GroupInvitesService } from './group-invites.service';
+import { PresenceRegistry } from './presence.registry';
 import { NotificationModule } from '../notification/notification.module';
+import { TranslationModule } from '../translation/translation.module';
 import { StorageModule } from '../../core/common/storage';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([ChatGroup, GroupMember, Message, User]),
+    TypeOrmModule.forFeature([
+      ChatGroup,
+      GroupMember,
+      GroupInvite,
+      Message,
+      User,
+      UserBlock,
+    ]),
     NotificationModule,
     StorageModule,
+    TranslationModule,
   ],
-  controllers: [GroupsController, UsersController],
-  providers: [GroupsService],
-  exports: [GroupsService],
+  controllers: [
+    GroupsController,
+    UsersController,
+    GroupInvitesController,
+    InvitesController,
+  ],
+  providers: [GroupsService, GroupInvitesService, PresenceRegistry],
+  exports: [GroupsService, PresenceRegistry],
 })
 export class GroupsModule {}
@@ -0,0 +1,571 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { GroupsService } from './groups.service';
+import {
+  ChatGroup,
+  RevisionVisibility,
+} from '../chat/entities/chat-group.entity';
+import {
+  GroupMember,
+  GroupMemberRole,
+} from '../chat/entities/group-member.entity';
+import { Message } from '../chat/entities/message.entity';
+import { UserBlock } from '../chat/entities/user-block.entity';
+import { User } from '../../core/identity/entities/user.entity';
+import { S3StorageService } from '../../core/common/storage/s3-storage.service';
+import { TranslationService } from '../translation/translation.service';
+import { PresenceRegistry } from './presence.registry';
+
+function buildUpdateBuilder(affected: number) {
+  const qb = {
+    update: jest.fn().mockReturnThis(),
+    set: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    execute: jest.fn().mockResolvedValue({ affected }),
+  };
+  return qb;
+}
+
+describe('GroupsService', () => {
+  let service: GroupsService;
+  let memberRepo: {
+    createQueryBuilder: jest.Mock;
+    findOne: jest.Mock;
+    count: jest.Mock;
+    save: jest.Mock;
+    create: jest.Mock;
+    delete: jest.Mock;
+    manager: { transaction: jest.Mock };
+  };
+  let emUpdate: jest.Mock;
+  let messageRepo: { findOne: jest.Mock };
+  let groupRepo: {
+    findOne: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+    delete: jest.Mock;
+    createQueryBuilder: jest.Mock;
+  };
+  let blockRepo: { exists: jest.Mock };
+  let translateIntent: jest.Mock;
+
+  beforeEach(async () => {
+    emUpdate = jest.fn().mockResolvedValue(undefined);
+    memberRepo = {
+      createQueryBuilder: jest.fn(),
+      findOne: jest.fn(),
+      count: jest.fn(),
+      save: jest.fn((member: Partial<GroupMember>) => Promise.resolve(member)),
+      create: jest.fn((member: Partial<GroupMember>) => member),
+      delete: jest.fn().mockResolvedValue(undefined),
+      manager: {
+        transaction: jest.fn((work: (em: unknown) => Promise<void>) =>
+          work({ update: emUpdate }),
+        ),
+      },
+    };
+    messageRepo = { findOne: jest.fn() };
+    groupRepo = {
+      findOne: jest.fn(),
+      create: jest.fn((group: Partial<ChatGroup>) => group),
+      save: jest.fn((group: Partial<ChatGroup>) =>
+        Promise.resolve({ ...group, id: 'dm-1' }),
+      ),
+      delete: jest.fn().mockResolvedValue(undefined),
+      createQueryBuilder: jest.fn(),
+    };
+    blockRepo = { exists: jest.fn().mockResolvedValue(false) };
+    translateIntent = jest.fn();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GroupsService,
+        { provide: getRepositoryToken(ChatGroup), useValue: groupRepo },
+        { provide: getRepositoryToken(GroupMember), useValue: memberRepo },
+        { provide: getRepositoryToken(Message), useValue: messageRepo },
+        { provide: getRepositoryToken(User), useValue: {} },
+        { provide: getRepositoryToken(UserBlock), useValue: blockRepo },
+        { provide: S3StorageService, useValue: {} },
+        { provide: TranslationService, useValue: { translateIntent } },
+        PresenceRegistry,
+      ],
+    }).compile();
+
+    service = module.get(GroupsService);
+  });
+
+  describe('markRead', () => {
+    const createdAt = new Date('2026-01-01T10:00:00Z');
+
+    it('returns the new read position when it moves forward', async () => {
+      messageRepo.findOne.mockResolvedValue({ id: 'msg-2', createdAt });
+      const qb = buildUpdateBuilder(1);
+      memberRepo.createQueryBuilder.mockReturnValue(qb);
+
+      await expect(
+        service.markRead('group-1', 'user-1', 'msg-2'),
+      ).resolves.toEqual({ lastReadMessageId: 'msg-2', lastReadAt: createdAt });
+      expect(qb.andWhere).toHaveBeenCalledWith(
+        '(last_read_at IS NULL OR last_read_at < :readAt)',
+        { readAt: createdAt },
+      );
+    });
+
+    it('returns null when the member has already read past the message', async () => {
+      messageRepo.findOne.mockResolvedValue({ id: 'msg-1', createdAt });
+      memberRepo.createQueryBuilder.mockReturnValue(buildUpdateBuilder(0));
+
+      await expect(
+        service.markRead('group-1', 'user-1', 'msg-1'),
+      ).resolves.toBeNull();
+    });
+
+    it('rejects messages from another conversation', async () => {
+      messageRepo.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.markRead('group-1', 'user-1', 'msg-9'),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+
+  describe('canViewRevisions', () => {
+    function membership(
+      role: GroupMemberRole,
+      revisionVisibility: RevisionVisibility,
+      isGroup = true,
+    ) {
+      return { role, group: { isGroup, revisionVisibility } };
+    }
+
+    it('follows the conversation setting for everyone but the sender', async () => {
+      memberRepo.findOne.mockResolvedValue(
+        membership(GroupMemberRole.MEMBER, RevisionVisibility.ADMINS),
+      );
+      await expect(
+        service.canViewRevisions('group-1', 'user-1', 'user-2'),
+      ).resolves.toBe(false);
+      await expect(
+        service.canViewRevisions('group-1', 'user-1', 'user-1'),
+      ).resolves.toBe(true);
+
+      memberRepo.findOne.mockResolvedValue(
+        membership(GroupMemberRole.ADMIN, RevisionVisibility.ADMINS),
+      );
+      await expect(
+        service.canViewRevisions('group-1', 'user-1', 'user-2'),
+      ).resolves.toBe(true);
+
+      memberRepo.findOne.mockResolvedValue(
+        membership(GroupMemberRole.ADMIN, RevisionVisibility.SENDER),
+      );
+      await expect(
+        service.canViewRevisions('group-1', 'user-1', 'user-2'),
+      ).resolves.toBe(false);
+    });
+
+    it('denies non-members', async () => {
+      memberRepo.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.canViewRevisions('group-1', 'user-1', 'user-1'),
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('setConversationPreferences', () => {
+    const membership = (overrides: Partial<GroupMember> = {}) =>
+      ({
+        groupId: 'group-1',
+        userId: 'user-1',
+        mutedUntil: null,
+        isArchived: false,
+        keepArchived: false,
+        pinnedAt: null,
+        ...overrides,
+      }) as GroupMember;
+
+    it('unpins a chat when it is archived', async () => {
+      memberRepo.findOne.mockResolvedValue(
+        membership({ pinnedAt: new Date('2026-01-01T10:00:00Z') }),
+      );
+
+      await expect(
+        service.setConversationPreferences('group-1', 'user-1', {
+          isArchived: true,
+        }),
+      ).resolves.toEqual(
+        expect.objectContaining({ isArchived: true, pinnedAt: null }),
+      );
+    });
+
+    it('un-archives a chat when it is pinned', async () => {
+      memberRepo.findOne.mockResolvedValue(membership({ isArchived: true }));
+      memberRepo.count.mockResolvedValue(0);
+
+      const saved = await service.setConversationPreferences(
+        'group-1',
+        'user-1',
+        { isPinned: true },
+      );
+
+      expect(saved.isArchived).toBe(false);
+      expect(saved.pinnedAt).toBeInstanceOf(Date);
+    });
+
+    it('caps the number of pinned chats', async () => {
+      memberRepo.findOne.mockResolvedValue(membership());
+      memberRepo.count.mockResolvedValue(5);
+
+      await expect(
+        service.setConversationPreferences('group-1', 'user-1', {
+          isPinned: true,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(memberRepo.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findOrCreateDm', () => {
+    const noExistingDm = () =>
+      groupRepo.createQueryBuilder.mockReturnValue({
+        innerJoin: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        getOne: jest.fn().mockResolvedValue(null),
+      });
+    const sharedConversations = (count: number) =>
+      memberRepo.createQueryBuilder.mockReturnValue({
+        innerJoin: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        getCount: jest.fn().mockResolvedValue(count),
+      });
+
+    it('refuses when either user blocked the other', async () => {
+      blockRepo.exists.mockResolvedValue(true);
+
+      await expect(service.findOrCreateDm('user-1', 'user-2')).rejects.toThrow(
+        'You cannot message this user',
+      );
+      expect(groupRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('starts a DM with a stranger as a message request for the target', async () => {
+      noExistingDm();
+      sharedConversations(0);
+
+      await service.findOrCreateDm('user-1', 'user-2');
+
+      expect(memberRepo.save).toHaveBeenCalledWith([
+        expect.objectContaining({ userId: 'user-1' }),
+        expect.objectContaining({ userId: 'user-2', isRequest: true }),
+      ]);
+    });
+
+    it('skips the request when the users already share a group', async () => {
+      noExistingDm();
+      sharedConversations(1);
+
+      await service.findOrCreateDm('user-1', 'user-2');
+
+      expect(memberRepo.save).toHaveBeenCalledWith([
+        expect.objectContaining({ userId: 'user-1' }),
+        expect.objectContaining({ userId: 'user-2', isRequest: false }),
+      ]);
+    });
+  });
+
+  describe('message requests', () => {
+    it('deletes the DM when the recipient declines', async () => {
+      memberRepo.findOne.mockResolvedValue({
+        groupId: 'dm-1',
+        isRequest: true,
+      });
+
+      await service.declineMessageRequest('dm-1', 'user-2');
+
+      expect(memberRepo.findOne).toHaveBeenCalledWith({
+        where: { groupId: 'dm-1', userId: 'user-2', isRequest: true },
+      });
+      expect(groupRepo.delete).toHaveBeenCalledWith('dm-1');
+    });
+
+    it('rejects conversations that are not pending requests', async () => {
+      memberRepo.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.acceptMessageRequest('dm-1', 'user-2'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('roles', () => {
+    const group = {
+      id: 'group-1',
+      isGroup: true,
+      onlyAdminsCanPost: false,
+      onlyAdminsCanEditInfo: false,
+    };
+    const member = (userId: string, role: GroupMemberRole) => ({
+      id: `member-${userId}`,
+      groupId: 'group-1',
+      userId,
+      role,
+      group,
+    });
+
+    /** Resolves `findOne({ where: { userId } })` from the given members. */
+    function members(...list: ReturnType<typeof member>[]) {
+      memberRepo.findOne.mockImplementation(
+        ({ where }: { where: { userId: string } }) =>
+          Promise.resolve(list.find((m) => m.userId === where.userId) ?? null),
+      );
+    }
+
+    beforeEach(() => {
+      groupRepo.findOne.mockResolvedValue({ ...group });
+    });
+
+    it('does not let admins remove the owner', async () => {
+      members(
+        member('admin', GroupMemberRole.ADMIN),
+        member('owner', GroupMemberRole.OWNER),
+      );
+
+      await expect(
+        service.removeMember('group-1', 'admin', 'owner'),
+      ).rejects.toThrow('The group owner cannot be removed');
+      expect(memberRepo.delete).not.toHaveBeenCalled();
+    });
+
+    it('makes the owner hand over the group before leaving', async () => {
+      members(member('owner', GroupMemberRole.OWNER));
+      memberRepo.count.mockResolvedValue(3);
+
+      await expect(
+        service.removeMember('group-1', 'owner', 'owner'),
+      ).rejects.toThrow(BadRequestException);
+
+      memberRepo.count.mockResolvedValue(1);
+      await service.removeMember('group-1', 'owner', 'owner');
+      expect(memberRepo.delete).toHaveBeenCalledWith({
+        groupId: 'group-1',
+        userId: 'owner',
+      });
+    });
+
+    it('changes roles for admins but never the owner', async () => {
+      members(
+        member('admin', GroupMemberRole.ADMIN),
+        member('owner', GroupMemberRole.OWNER),
+        member('user', GroupMemberRole.MEMBER),
+      );
+
+      await expect(
+        service.setMemberRole(
+          'group-1',
+          'admin',
+          'user',
+          GroupMemberRole.MODERATOR,
+        ),
+      ).resolves.toMatchObject({ role: GroupMemberRole.MODERATOR });
+      await expect(
+        service.setMemberRole(
+          'group-1',
+          'admin',
+          'owner',
+          GroupMemberRole.MEMBER,
+        ),
+      ).rejects.toThrow(
+        "The owner's role only changes by transferring ownership",
+      );
+    });
+
+    it('keeps moderators out of role changes', async () => {
+      members(
+        member('mod', GroupMemberRole.MODERATOR),
+        member('user', GroupMemberRole.MEMBER),
+      );
+
+      await expect(
+        service.setMemberRole('group-1', 'mod', 'user', GroupMemberRole.ADMIN),
+      ).rejects.toThrow('Only group admins can perform this action');
+    });
+
+    it('swaps owner and new owner in one transaction', async () => {
+      members(
+        member('owner', GroupMemberRole.OWNER),
+        member('user', GroupMemberRole.MEMBER),
+      );
+
+      await service.transferOwnership('group-1', 'owner', 'user');
+
+      expect(emUpdate).toHaveBeenCalledWith(
+        GroupMember,
+        { id: 'member-owner' },
+        { role: GroupMemberRole.ADMIN },
+      );
+      expect(emUpdate).toHaveBeenCalledWith(
+        GroupMember,
+        { id: 'member-user' },
+        { role: GroupMemberRole.OWNER },
+      );
+    });
+
+    it('only lets the owner transfer ownership', async () => {
+      members(
+        member('admin', GroupMemberRole.ADMIN),
+        member('user', GroupMemberRole.MEMBER),
+      );
+
+      await expect(
+        service.transferOwnership('group-1', 'admin', 'user'),
+      ).rejects.toThrow('Only the group owner can transfer ownership');
+      expect(memberRepo.manager.transaction).not.toHaveBeenCalled();
+    });
+
+    it('restricts posting to admins in announcement groups', async () => {
+      const announcements = { ...group, onlyAdminsCanPost: true };
+      memberRepo.findOne.mockResolvedValue({
+        role: GroupMemberRole.MODERATOR,
+        group: announcements,
+      });
+      await expect(service.isPostingRestricted('group-1', 'mod')).resolves.toBe(
+        true,
+      );
+
+      memberRepo.findOne.mockResolvedValue({
+        role: GroupMemberRole.OWNER,
+        group: announcements,
+      });
+      await expect(
+        service.isPostingRestricted('group-1', 'owner'),
+      ).resolves.toBe(false);
+
+      memberRepo.findOne.mockResolvedValue({
+        role: GroupMemberRole.MEMBER,
+        group: { ...announcements, isGroup: false },
+      });
+      await expect(service.isPostingRestricted('dm-1', 'user')).resolves.toBe(
+        false,
+      );
+    });
+
+    it('limits renaming to admins when group info is locked', async () => {
+      groupRepo.findOne.mockResolvedValue({
+        ...group,
+        onlyAdminsCanEditInfo: true,
+      });
+      members(member('user', GroupMemberRole.MEMBER));
+
+      await expect(
+        service.updateGroup('group-1', 'user', { name: 'Renamed' }),
+      ).rejects.toThrow('Only group admins can perform this action');
+      expect(groupRepo.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('group profile', () => {
+    const group = {
+      id: 'group-1',
+      isGroup: true,
+      onlyAdminsCanEditInfo: false,
+      avatarUrl: null,
+      description: null,
+      descriptionTranslations: null,
+      defaultLanguage: 'tanglish',
+    };
+    const translations = {
+      english: 'Weekend cricket',
+      singlish: 'Sathi anthe cricket',
+      tanglish: 'Weekend cricket vilayaattu',
+    };
+
+    beforeEach(() => {
+      groupRepo.findOne.mockResolvedValue({ ...group });
+      groupRepo.save.mockImplementation((g: Partial<ChatGroup>) =>
+        Promise.resolve(g),
+      );
+      memberRepo.findOne.mockResolvedValue({
+        groupId: 'group-1',
+        userId: 'user',
+        role: GroupMemberRole.MEMBER,
+        preferredLanguage: 'english',
+        group,
+      });
+    });
+
+    it('translates a new description for every member', async () => {
+      translateIntent.mockResolvedValue({ translations });
+
+      const updated = await service.updateGroup('group-1', 'user', {
+        description: '  Weekend cricket  ',
+      });
+
+      expect(translateIntent).toHaveBeenCalledWith(
+        expect.objectContaining({ rawText: 'Weekend cricket' }),
+      );
+      expect(updated).toMatchObject({
+        description: 'Weekend cricket',
+        descriptionTranslations: translations,
+      });
+    });
+
+    it('keeps the description untranslated when translation fails', async () => {
+      translateIntent.mockRejectedValue(new Error('model timeout'));
+
+      await expect(
+        service.updateGroup('group-1', 'user', {
+          description: 'Weekend cricket',
+        }),
+      ).resolves.toMatchObject({
+        description: 'Weekend cricket',
+        descriptionTranslations: null,
+      });
+    });
+
+    it('clears the description without translating', async () => {
+      groupRepo.findOne.mockResolvedValue({
+        ...group,
+        description: 'Weekend cricket',
+        descriptionTranslations: translations,
+      });
+
+      await expect(
+        service.updateGroup('group-1', 'user', { description: '' }),
+      ).resolves.toMatchObject({
+        description: null,
+        descriptionTranslations: null,
+      });
+      expect(translateIntent).not.toHaveBeenCalled();
+    });
+
+    it("gives new members the group's default language", async () => {
+      memberRepo.findOne.mockImplementation(
+        ({ where }: { where: { userId: string } }) =>
+          Promise.resolve(
+            where.userId === 'user'
+              ? { userId: 'user', groupId: 'group-1' }
+              : null,
+          ),
+      );
+
+      await expect(
+        service.addMember('group-1', 'user', 'newcomer'),
+      ).resolves.toMatchObject({
+        userId: 'newcomer',
+        preferredLanguage: 'tanglish',
+      });
+    });
+
+    it("resets a member's language to the group default", async () => {
+      await service.setLanguagePreference('group-1', 'user', null);
+
+      expect(memberRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({ preferredLanguage: 'tanglish' }),
+      );
+    });
+  });
+});
@@ -1,20 +1,39 @@
 import {
+  BadRequestException,
   ConflictException,
   ForbiddenException,
   Injectable,
+  Logger,
   NotFoundException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { ILike, In, Not, Repository } from 'typeorm';
+import { ILike, In, IsNull, Not, Repository } from 'typeorm';
 
-import { ChatGroup } from '../chat/entities/chat-group.entity';
+import {
+  ChatGroup,
+  MessageRetention,
+  RevisionVisibility,
+} from '../chat/entities/chat-group.entity';
 import {
   GroupMember,
   GroupMemberRole,
+  hasAdminRights,
 } from '../chat/entities/group-member.entity';
-import { Message } from '../chat/entities/message.entity';
+import { Message, MessageContentType } from '../chat/entities/message.entity';
+import { MessageHiddenByUser } from '../chat/entities/message-hidden-by-user.entity';
+import {
+  NOT_FROM_BLOCKED_SENDER_SQL,
+  UserBlock,
+} from '../chat/entities/user-block.entity';
+import { MentionCandidate } from '../chat/mentions';
+import {
+  SupportedLanguage,
+  TranslationService,
+  Translations,
+} from '../translation/translation.service';
 import { User } from '../../core/identity/entities/user.entity';
 import { S3StorageService } from '../../core/common/storage/s3-storage.service';
+import { PresenceRegistry } from './presence.registry';
 
 // ── Shared interfaces ────────────────────────────────────────────────────────
 
@@ -25,23 +44,108 @@ export interface OtherUser {
   profilePictureUrl: string | null;
 }
 
+/** Most recent message the viewer can see, for the conversation list. */
+export interface LastMessagePreview {
+  id: string;
+  senderId: string;
+  senderName: string;
+  contentType: MessageContentType;
+  /** Raw text for TEXT, transcription for AUDIO, the question for POLL. */
+  text: string | null;
+  fileName: string | null;
+  translations: Translations | null;
+  createdAt: Date;
+}
+
+export interface ReadPosition {
+  lastReadMessageId: string;
+  lastReadAt: Date;
+}
+
 export interface GroupWithMeta extends ChatGroup {
   memberCount: number;
   lastMessageAt: Date | null;
+  lastMessage: LastMessagePreview | null;
+  /** Messages from others newer than the viewer's read position. */
+  unreadCount: number;
   /** The current user's per-conversation language preference (null = use nativeDialect). */
   preferredLanguage: string | null;
+  /** The current user's role — decides what the app lets them change or post. */
+  role: GroupMemberRole;
   /** Populated for DMs (isGroup = false). */
   otherUser: OtherUser | null;
+  /** The current user's chat-list preferences for this conversation. */
+  mutedUntil: Date | null;
+  isArchived: boolean;
+  keepArchived: boolean;
+  pinnedAt: Date | null;
+  /** A DM from a stranger the current user hasn't accepted yet. */
+  isRequest: boolean;
+}
+
+export interface BlockedUser {
+  id: string;
+  displayName: string;
+  profilePictureUrl: string | null;
+  blockedAt: Date;
+}
+
+export interface ConversationPreferences {
+  mutedUntil?: Date | null;
+  isArchived?: boolean;
+  keepArchived?: boolean;
+  isPinned?: boolean;
+}
+
+/** Group info any member may edit unless `onlyAdminsCanEditInfo` is set. */
+export interface GroupProfileChanges {
+  name?: string;
+  /** Empty or null clears it. */
+  description?: string | null;
+  defaultLanguage?: SupportedLanguage | null;
+  avatarUrl?: string | null;
+}
+
+export interface GroupPermissions {
+  onlyAdminsCanPost?: boolean;
+  onlyAdminsCanEditInfo?: boolean;
 }
 
+/** Roles an admin can hand out — ownership moves only by transfer. */
+export type AssignableGroupRole = Exclude<
+  GroupMemberRole,
+  GroupMemberRole.OWNER
+>;
+
+export interface UserPresence {
+  userId: string;
+  isOnline: boolean;
+  /** Null while online, when never seen, or when the user hides it. */
+  lastSeenAt: Date | null;
+}
+
+/** What other users get from GET /users/:id — never the privacy flag itself. */
+export type PublicUserProfile = Omit<
+  User,
+  'passwordHash' | 'hideLastSeen' | 'emailVerifiedAt'
+> & {
+  isOnline: boolean;
+};
+
 export interface UpdateProfileDto {
   displayName?: string;
   nativeDialect?: string;
   profilePictureUrl?: string;
+  hideLastSeen?: boolean;
 }
 
+/** Keeps the pinned block short enough to leave room for recent chats. */
+export const MAX_PINNED_CONVERSATIONS = 5;
+
 @Injectable()
 export class GroupsService {
+  private readonly logger = new Logger(GroupsService.name);
+
   constructor(
     @InjectRepository(ChatGroup)
     private readonly chatGroupRepo: Repository<ChatGroup>,
@@ -55,14 +159,30 @@ export class GroupsService {
     @InjectRepository(User)
     private readonly userRepo: Repository<User>,
 
+    @InjectRepository(UserBlock)
+    private readonly userBlockRepo: Repository<UserBlock>,
+
     private readonly s3StorageService: S3StorageService,
+    private readonly presenceRegistry: PresenceRegistry,
+    private readonly translationService: TranslationService,
   ) {}
 
   // ── Groups ────────────────────────────────────────────────────────────────
 
-  async findGroupsForUser(currentUserId: string): Promise<GroupWithMeta[]> {
+  /**
+   * Archived conversations are left out unless `includeArchived` is set.
+   * Pending message requests are listed only when `requests` is set, and
+   * then on their own.
+   */
+  async findGroupsForUser(
+    currentUserId: string,
+    options: { includeArchived?: boolean; requests?: boolean } = {},
+  ): Promise<GroupWithMeta[]> {
     const memberships = await this.groupMemberRepo.find({
-      where: { userId: currentUserId },
+      where:
+        options.includeArchived || options.requests
+          ? { userId: currentUserId, isRequest: !!options.requests }
+          : { userId: currentUserId, isRequest: false, isArchived: false },
     });
     if (memberships.length === 0) return [];
 
@@ -78,14 +198,10 @@ export class GroupsService {
       groups.map(async (g) => {
         const membership = membershipMap.get(g.id)!;
 
-        const [memberCount, lastMessage] = await Promise.all([
+        const [memberCount, lastMessage, unreadCount] = await Promise.all([
           this.groupMemberRepo.count({ where: { groupId: g.id } }),
-          this.messageRepo.findOne({
-            where: { groupId: g.id },
-            order: { createdAt: 'DESC' },
-            select: ['id', 'createdAt'],
-            loadEagerRelations: false,
-          }),
+          this.findLastVisibleMessage(g.id, currentUserId),
+          this.countUnread(g.id, currentUserId, membership.lastReadAt),
         ]);
 
         // For DMs resolve the other participant so the client shows their name/avatar.
@@ -119,16 +235,31 @@ export class GroupsService {
 
         return {
           ...g,
+          avatarUrl: await this.signProfilePictureUrl(g.avatarUrl),
           memberCount,
           lastMessageAt: lastMessage?.createdAt ?? null,
+          lastMessage,
+          unreadCount,
           preferredLanguage: membership.preferredLanguage,
+          role: membership.role,
           otherUser,
+          mutedUntil: membership.mutedUntil,
+          isArchived: membership.isArchived,
+          keepArchived: membership.keepArchived,
+          pinnedAt: membership.pinnedAt,
+          isRequest: membership.isRequest,
         };
       }),
     );
 
-    // Most recently active first; conversations with no messages go to the bottom.
+    // Pinned first (latest pin on top), then most recently active;
+    // conversations with no messages go to the bottom.
     result.sort((a, b) => {
+      if (a.pinnedAt || b.pinnedAt) {
+        if (!a.pinnedAt) return 1;
+        if (!b.pinnedAt) return -1;
+        return b.pinnedAt.getTime() - a.pinnedAt.getTime();
+      }
       if (!a.lastMessageAt && !b.lastMessageAt) return 0;
       if (!a.lastMessageAt) return 1;
       if (!b.lastMessageAt) return -1;
@@ -152,7 +283,7 @@ export class GroupsService {
       this.groupMemberRepo.create({
         groupId: group.id,
         userId: creatorId,
-        role: GroupMemberRole.ADMIN,
+        role: GroupMemberRole.OWNER,
       }),
     );
 
@@ -174,7 +305,9 @@ export class GroupsService {
 
   /**
    * Find an existing DM between two users or create a new one.
-   * Guarantees at most one DM conversation between any two users.
+   * Guarantees at most one DM conversation between any two users. A new DM
+   * with someone the requester shares no conversation with starts as a
+   * message request for the target. Blocks in either direction refuse it.
    */
   async findOrCreateDm(
     requesterId: string,
@@ -183,24 +316,17 @@ export class GroupsService {
     if (requesterId === targetUserId) {
       throw new ConflictException('Cannot create a DM with yourself');
     }
+    if (await this.isBlockedEitherWay(requesterId, targetUserId)) {
+      throw new ForbiddenException('You cannot message this user');
+    }
 
-    // Find DMs (isGroup = false) the requester is already in, then check
-    // if the target is also a member of any of them.
-    const requesterMemberships = await this.groupMemberRepo.find({
-      where: { userId: requesterId },
-    });
-
-    for (const membership of requesterMemberships) {
-      const group = await this.chatGroupRepo.findOne({
-        where: { id: membership.groupId, isGroup: false },
-      });
-      if (!group) continue;
+    const existing = await this.findDmBetween(requesterId, targetUserId);
+    if (existing) return existing;
 
-      const targetMembership = await this.groupMemberRepo.findOne({
-        where: { groupId: group.id, userId: targetUserId },
-      });
-      if (targetMembership) return group; // existing DM found
-    }
+    const isRequest = !(await this.sharesConversation(
+      requesterId,
+      targetUserId,
+    ));
 
     // No existing DM — create one.
     const dm = await this.chatGroupRepo.save(
@@ -217,12 +343,40 @@ export class GroupsService {
         groupId: dm.id,
         userId: targetUserId,
         role: GroupMemberRole.MEMBER,
+        isRequest,
       }),
     ]);
 
     return dm;
   }
 
+  /** Moves a message request into the recipient's chat list. */
+  async acceptMessageRequest(groupId: string, userId: string): Promise<void> {
+    const membership = await this.findPendingRequest(groupId, userId);
+    membership.isRequest = false;
+    await this.groupMemberRepo.save(membership);
+  }
+
+  /** Deletes the requested DM for both sides. */
+  async declineMessageRequest(groupId: string, userId: string): Promise<void> {
+    await this.findPendingRequest(groupId, userId);
+    await this.chatGroupRepo.delete(groupId);
+  }
+
+  /**
+   * Whether a block between the two DM participants stops `senderId` from
+   * posting. Always false for group chats — blocks only hide messages there.
+   */
+  async isDmBlocked(groupId: string, senderId: string): Promise<boolean> {
+    const group = await this.chatGroupRepo.findOne({ where: { id: groupId } });
+    if (!group || group.isGroup) return false;
+
+    const other = await this.groupMemberRepo.findOne({
+      where: { groupId, userId: Not(senderId) },
+    });
+    return !!other && this.isBlockedEitherWay(senderId, other.userId);
+  }
+
   async findMembers(
     groupId: string,
   ): Promise<Array<GroupMember & { user: Partial<User> | null }>> {
@@ -251,6 +405,17 @@ export class GroupsService {
     );
   }
 
+  /** Just ids and display names — enough to resolve `@displayName` mentions. */
+  async findMentionCandidates(groupId: string): Promise<MentionCandidate[]> {
+    return this.groupMemberRepo
+      .createQueryBuilder('gm')
+      .innerJoin('gm.user', 'u')
+      .select('gm.user_id', 'userId')
+      .addSelect('u.display_name', 'displayName')
+      .where('gm.group_id = :groupId', { groupId })
+      .getRawMany<MentionCandidate>();
+  }
+
   async addMember(
     groupId: string,
     requesterId: string,
@@ -275,26 +440,66 @@ export class GroupsService {
         groupId,
         userId: newMemberId,
         role: GroupMemberRole.MEMBER,
+        preferredLanguage: group.defaultLanguage,
       }),
     );
   }
 
+  /**
+   * `asPlatformAdmin` lets platform staff act without a group admin role.
+   * Group admins can't remove the owner, and the owner has to hand the group
+   * over before leaving unless nobody else is left in it.
+   */
   async removeMember(
     groupId: string,
     requesterId: string,
     targetUserId: string,
+    options: { asPlatformAdmin?: boolean } = {},
   ): Promise<void> {
     // Users may remove themselves; only admins may remove others.
-    if (requesterId !== targetUserId) {
+    if (requesterId !== targetUserId && !options.asPlatformAdmin) {
       await this.assertAdmin(groupId, requesterId);
     }
+
+    const target = await this.groupMemberRepo.findOne({
+      where: { groupId, userId: targetUserId },
+    });
+    if (target?.role === GroupMemberRole.OWNER) {
+      if (requesterId !== targetUserId && !options.asPlatformAdmin) {
+        throw new ForbiddenException('The group owner cannot be removed');
+      }
+      if (
+        requesterId === targetUserId &&
+        (await this.groupMemberRepo.count({ where: { groupId } })) > 1
+      ) {
+        throw new BadRequestException(
+          'Transfer ownership to another member before leaving the group',
+        );
+      }
+    }
+
     await this.groupMemberRepo.delete({ groupId, userId: targetUserId });
   }
 
-  async updateGroup(
+  /** The group's profile as members see it, with a signed avatar URL. */
+  async findGroupProfile(groupId: string, userId: string): Promise<ChatGroup> {
+    const isMember = await this.isMember(groupId, userId);
+    if (!isMember) {
+      throw new ForbiddenException('You are not a member of this group');
+    }
+
+    const group = await this.chatGroupRepo.findOne({ where: { id: groupId } });
+    if (!group) throw new NotFoundException('Group not found');
+    return this.withSignedAvatar(group);
+  }
+
+  /**
+   * Loads the group after checking the requester may change its info: any
+   * member, or only owners and admins when `onlyAdminsCanEditInfo` is set.
+   */
+  async findGroupForEditing(
     groupId: string,
     requesterId: string,
-    dto: { name?: string },
   ): Promise<ChatGroup> {
     const isMember = await this.isMember(groupId, requesterId);
 
@@ -305,10 +510,203 @@ export class GroupsService {
     const group = await this.chatGroupRepo.findOne({ where: { id: groupId } });
     if (!group) throw new NotFoundException('Group not found');
 
-    if (dto.name !== undefined) group.name = dto.name;
+    if (group.isGroup && group.onlyAdminsCanEditInfo) {
+      await this.assertAdmin(groupId, requesterId);
+    }
+    return group;
+  }
+
+  /**
+   * A changed description is translated before saving so every member can
+   * read it; if translation fails it is kept untranslated.
+   */
+  async updateGroup(
+    groupId: string,
+    requesterId: string,
+    changes: GroupProfileChanges,
+  ): Promise<ChatGroup> {
+    const group = await this.findGroupForEditing(groupId, requesterId);
+
+    if (changes.name !== undefined) group.name = changes.name;
+    if (changes.avatarUrl !== undefined) group.avatarUrl = changes.avatarUrl;
+    if (changes.defaultLanguage !== undefined) {
+      group.defaultLanguage = changes.defaultLanguage;
+    }
+    if (changes.description !== undefined) {
+      const description = changes.description?.trim() || null;
+      if (description !== group.description) {
+        group.description = description;
+        group.descriptionTranslations = description
+          ? await this.translateDescription(description)
+          : null;
+      }
+    }
+
+    return this.withSignedAvatar(await this.chatGroupRepo.save(group));
+  }
+
+  // ── Roles & permissions ───────────────────────────────────────────────────
+
+  /** Owners and admins decide who may post and who may edit group info. */
+  async setGroupPermissions(
+    groupId: string,
+    requesterId: string,
+    permissions: GroupPermissions,
+  ): Promise<ChatGroup> {
+    const group = await this.findGroupForRoles(groupId);
+    await this.assertAdmin(groupId, requesterId);
+
+    if (permissions.onlyAdminsCanPost !== undefined) {
+      group.onlyAdminsCanPost = permissions.onlyAdminsCanPost;
+    }
+    if (permissions.onlyAdminsCanEditInfo !== undefined) {
+      group.onlyAdminsCanEditInfo = permissions.onlyAdminsCanEditInfo;
+    }
+    return this.chatGroupRepo.save(group);
+  }
+
+  /**
+   * Owners and admins promote or demote anyone except the owner, whose role
+   * only changes through `transferOwnership`.
+   */
+  async setMemberRole(
+    groupId: string,
+    requesterId: string,
+    targetUserId: string,
+    role: AssignableGroupRole,
+  ): Promise<GroupMember> {
+    await this.findGroupForRoles(groupId);
+    await this.assertAdmin(groupId, requesterId);
+
+    const target = await this.groupMemberRepo.findOne({
+      where: { groupId, userId: targetUserId },
+    });
+    if (!target) throw new NotFoundException('Member not found');
+    if (target.role === GroupMemberRole.OWNER) {
+      throw new ForbiddenException(
+        "The owner's role only changes by transferring ownership",
+      );
+    }
+
+    target.role = role;
+    return this.groupMemberRepo.save(target);
+  }
+
+  /** The current owner hands the group over and stays on as an admin. */
+  async transferOwnership(
+    groupId: string,
+    requesterId: string,
+    newOwnerId: string,
+  ): Promise<void> {
+    await this.findGroupForRoles(groupId);
+    if (requesterId === newOwnerId) {
+      throw new BadRequestException('You already own this group');
+    }
+
+    const [current, next] = await Promise.all([
+      this.groupMemberRepo.findOne({
+        where: { groupId, userId: requesterId },
+      }),
+      this.groupMemberRepo.findOne({ where: { groupId, userId: newOwnerId } }),
+    ]);
+    if (current?.role !== GroupMemberRole.OWNER) {
+      throw new ForbiddenException(
+        'Only the group owner can transfer ownership',
+      );
+    }
+    if (!next) throw new NotFoundException('Member not found');
+
+    await this.groupMemberRepo.manager.transaction(async (em) => {
+      await em.update(
+        GroupMember,
+        { id: current.id },
+        { role: GroupMemberRole.ADMIN },
+      );
+      await em.update(
+        GroupMember,
+        { id: next.id },
+        { role: GroupMemberRole.OWNER },
+      );
+    });
+  }
+
+  /**
+   * Whether `onlyAdminsCanPost` keeps `senderId` from posting. Never true in
+   * DMs, which have no admins.
+   */
+  async isPostingRestricted(
+    groupId: string,
+    senderId: string,
+  ): Promise<boolean> {
+    const member = await this.groupMemberRepo.findOne({
+      where: { groupId, userId: senderId },
+      relations: ['group'],
+    });
+    if (!member || !member.group.isGroup || !member.group.onlyAdminsCanPost) {
+      return false;
+    }
+    return !hasAdminRights(member.role);
+  }
+
+  /**
+   * Admins set disappearing messages in group chats; DMs have no admins, so
+   * either participant may change it there.
+   */
+  async setMessageRetention(
+    groupId: string,
+    requesterId: string,
+    retention: MessageRetention,
+  ): Promise<ChatGroup> {
+    const group = await this.chatGroupRepo.findOne({ where: { id: groupId } });
+    if (!group) throw new NotFoundException('Group not found');
+
+    if (group.isGroup) {
+      await this.assertAdmin(groupId, requesterId);
+    } else if (!(await this.isMember(groupId, requesterId))) {
+      throw new ForbiddenException('You must be a member of this group');
+    }
+
+    group.messageRetention = retention;
+    return this.chatGroupRepo.save(group);
+  }
+
+  /** Same permissions as disappearing messages: admins, or either side of a DM. */
+  async setEditSettings(
+    groupId: string,
+    requesterId: string,
+    settings: {
+      editWindowMinutes?: number;
+      revisionVisibility?: RevisionVisibility;
+    },
+  ): Promise<ChatGroup> {
+    const group = await this.chatGroupRepo.findOne({ where: { id: groupId } });
+    if (!group) throw new NotFoundException('Group not found');
+
+    if (group.isGroup) {
+      await this.assertAdmin(groupId, requesterId);
+    } else if (!(await this.isMember(groupId, requesterId))) {
+      throw new ForbiddenException('You must be a member of this group');
+    }
+
+    if (settings.editWindowMinutes !== undefined) {
+      group.editWindowMinutes = settings.editWindowMinutes;
+    }
+    if (settings.revisionVisibility !== undefined) {
+      group.revisionVisibility = settings.revisionVisibility;
+    }
     return this.chatGroupRepo.save(group);
   }
 
+  /** Conversations with disappearing messages turned on. */
+  async findGroupsWithRetention(): Promise<
+    Array<Pick<ChatGroup, 'id' | 'messageRetention'>>
+  > {
+    return this.chatGroupRepo.find({
+      where: { messageRetention: Not(MessageRetention.OFF) },
+      select: ['id', 'messageRetention'],
+    });
+  }
+
   async isMember(groupId: string, userId: string): Promise<boolean> {
     const member = await this.groupMemberRepo.findOne({
       where: { groupId, userId },
@@ -316,7 +714,63 @@ export class GroupsService {
     return !!member;
   }
 
-  /** Set or clear the per-conversation language preference for the calling user. */
+  /** The user's membership with its conversation and user loaded, or null. */
+  async findMembership(
+    groupId: string,
+    userId: string,
+  ): Promise<GroupMember | null> {
+    return this.groupMemberRepo.findOne({
+      where: { groupId, userId },
+      relations: ['group', 'user'],
+    });
+  }
+
+  /**
+   * Admins manage pins in group chats. DMs have no admins, so both
+   * participants may pin there.
+   */
+  async canPinMessages(groupId: string, userId: string): Promise<boolean> {
+    const member = await this.groupMemberRepo.findOne({
+      where: { groupId, userId },
+      relations: ['group'],
+    });
+    if (!member) return false;
+    return hasAdminRights(member.role) || !member.group.isGroup;
+  }
+
+  /**
+   * Whether `userId` may read the edit history of a message sent by
+   * `senderId`. Senders always see their own; everyone else depends on the
+   * conversation's setting. DMs have no admins, so 'admins' means the sender
+   * only there.
+   */
+  async canViewRevisions(
+    groupId: string,
+    userId: string,
+    senderId: string | null,
+  ): Promise<boolean> {
+    const member = await this.groupMemberRepo.findOne({
+      where: { groupId, userId },
+      relations: ['group'],
+    });
+    if (!member) return false;
+    if (senderId === userId) return true;
+
+    switch (member.group.revisionVisibility) {
+      case RevisionVisibility.MEMBERS:
+        return true;
+      case RevisionVisibility.ADMINS:
+        return hasAdminRights(member.role) && member.group.isGroup;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Set the per-conversation language preference for the calling user.
+   * Null resets it to the group's default language, or to the user's own
+   * nativeDialect when the group has none.
+   */
   async setLanguagePreference(
     groupId: string,
     userId: string,
@@ -324,14 +778,91 @@ export class GroupsService {
   ): Promise<void> {
     const membership = await this.groupMemberRepo.findOne({
       where: { groupId, userId },
+      relations: ['group'],
     });
     if (!membership)
       throw new NotFoundException('You are not a member of this group');
 
-    membership.preferredLanguage = language;
+    membership.preferredLanguage = language ?? membership.group.defaultLanguage;
     await this.groupMemberRepo.save(membership);
   }
 
+  /**
+   * Mute, archive or pin a conversation for the calling user only. Archiving
+   * unpins and pinning unarchives, since a chat can't be both on top and
+   * hidden.
+   */
+  async setConversationPreferences(
+    groupId: string,
+    userId: string,
+    prefs: ConversationPreferences,
+  ): Promise<GroupMember> {
+    const membership = await this.groupMemberRepo.findOne({
+      where: { groupId, userId },
+    });
+    if (!membership)
+      throw new NotFoundException('You are not a member of this group');
+
+    if (prefs.mutedUntil !== undefined) {
+      membership.mutedUntil = prefs.mutedUntil;
+    }
+    if (prefs.keepArchived !== undefined) {
+      membership.keepArchived = prefs.keepArchived;
+    }
+    if (prefs.isArchived !== undefined) {
+      membership.isArchived = prefs.isArchived;
+      if (prefs.isArchived) membership.pinnedAt = null;
+    }
+    if (prefs.isPinned === false) {
+      membership.pinnedAt = null;
+    } else if (prefs.isPinned && !membership.pinnedAt) {
+      const pinnedCount = await this.groupMemberRepo.count({
+        where: { userId, pinnedAt: Not(IsNull()) },
+      });
+      if (pinnedCount >= MAX_PINNED_CONVERSATIONS) {
+        throw new BadRequestException(
+          `You can pin up to ${MAX_PINNED_CONVERSATIONS} chats`,
+        );
+      }
+      membership.pinnedAt = new Date();
+      membership.isArchived = false;
+    }
+
+    return this.groupMemberRepo.save(membership);
+  }
+
+  /**
+   * Moves the member's read position forward to `messageId`. Positions never
+   * move backwards, so a late markRead for an older message is a no-op and
+   * returns null.
+   */
+  async markRead(
+    groupId: string,
+    userId: string,
+    messageId: string,
+  ): Promise<ReadPosition | null> {
+    const message = await this.messageRepo.findOne({
+      where: { id: messageId, groupId },
+      select: ['id', 'createdAt'],
+      loadEagerRelations: false,
+    });
+    if (!message) throw new NotFoundException('Message not found');
+
+    const result = await this.groupMemberRepo
+      .createQueryBuilder()
+      .update(GroupMember)
+      .set({ lastReadMessageId: message.id, lastReadAt: message.createdAt })
+      .where('group_id = :groupId', { groupId })
+      .andWhere('user_id = :userId', { userId })
+      .andWhere('(last_read_at IS NULL OR last_read_at < :readAt)', {
+        readAt: message.createdAt,
+      })
+      .execute();
+
+    if (!result.affected) return null;
+    return { lastReadMessageId: message.id, lastReadAt: message.createdAt };
+  }
+
   // ── Users ─────────────────────────────────────────────────────────────────
 
   async getUserById(userId: string): Promise<Omit<User, 'passwordHash'>> {
@@ -344,12 +875,36 @@ export class GroupsService {
         'email',
         'createdAt',
         'profilePictureUrl',
+        'lastSeenAt',
+        'hideLastSeen',
+        'emailVerifiedAt',
       ],
     });
     if (!user) throw new NotFoundException('User not found');
     return this.withSignedProfilePicture(user);
   }
 
+  /** Another user's profile with presence, honouring their last-seen privacy. */
+  async getPublicProfile(userId: string): Promise<PublicUserProfile> {
+    const { hideLastSeen, lastSeenAt, emailVerifiedAt, ...profile } =
+      await this.getUserById(userId);
+    const isOnline = this.presenceRegistry.isOnline(userId);
+    return {
+      ...profile,
+      isOnline,
+      lastSeenAt: isOnline || hideLastSeen ? null : lastSeenAt,
+    };
+  }
+
+  /** Lightweight name lookup for realtime events (no profile picture signing). */
+  async getDisplayName(userId: string): Promise<string | null> {
+    const user = await this.userRepo.findOne({
+      where: { id: userId },
+      select: ['id', 'displayName'],
+    });
+    return user?.displayName ?? null;
+  }
+
   async updateUserProfile(
     userId: string,
     dto: UpdateProfileDto,
@@ -361,6 +916,8 @@ export class GroupsService {
     if (dto.nativeDialect !== undefined) user.nativeDialect = dto.nativeDialect;
     if (dto.profilePictureUrl !== undefined)
       user.profilePictureUrl = dto.profilePictureUrl;
+    if (typeof dto.hideLastSeen === 'boolean')
+      user.hideLastSeen = dto.hideLastSeen;
 
     await this.userRepo.save(user);
     return this.getUserById(userId);
@@ -386,6 +943,108 @@ export class GroupsService {
     );
   }
 
+  // ── Presence ──────────────────────────────────────────────────────────────
+
+  async recordLastSeen(userId: string, at: Date): Promise<void> {
+    await this.userRepo.update({ id: userId }, { lastSeenAt: at });
+  }
+
+  /** Current presence as other users should see it. */
+  async getPresence(userId: string): Promise<UserPresence> {
+    const user = await this.userRepo.findOne({
+      where: { id: userId },
+      select: ['id', 'lastSeenAt', 'hideLastSeen'],
+    });
+    const isOnline = this.presenceRegistry.isOnline(userId);
+    return {
+      userId,
+      isOnline,
+      lastSeenAt:
+        isOnline || !user || user.hideLastSeen ? null : user.lastSeenAt,
+    };
+  }
+
+  /**
+   * Everyone who shares a conversation with the user — DM partners and
+   * group co-members alike, since DMs are two-member groups.
+   */
+  async findContactIds(userId: string): Promise<string[]> {
+    const rows = await this.groupMemberRepo
+      .createQueryBuilder('other')
+      .select('DISTINCT other.user_id', 'userId')
+      .innerJoin(
+        GroupMember,
+        'mine',
+        'mine.group_id = other.group_id AND mine.user_id = :userId',
+        { userId },
+      )
+      .where('other.user_id != :userId', { userId })
+      .getRawMany<{ userId: string }>();
+    return rows.map((r) => r.userId);
+  }
+
+  // ── Blocks ────────────────────────────────────────────────────────────────
+
+  /**
+   * Blocks `blockedId` for `blockerId`. Blocking twice is a no-op. A pending
+   * message request from the blocked user is declined along the way.
+   */
+  async blockUser(blockerId: string, blockedId: string): Promise<void> {
+    if (blockerId === blockedId) {
+      throw new BadRequestException('You cannot block yourself');
+    }
+    const exists = await this.userRepo.exists({ where: { id: blockedId } });
+    if (!exists) throw new NotFoundException('User not found');
+
+    await this.userBlockRepo
+      .createQueryBuilder()
+      .insert()
+      .into(UserBlock)
+      .values({ blockerId, blockedId })
+      .orIgnore()
+      .execute();
+
+    const dm = await this.findDmBetween(blockerId, blockedId);
+    if (dm) {
+      const pending = await this.groupMemberRepo.exists({
+        where: { groupId: dm.id, userId: blockerId, isRequest: true },
+      });
+      if (pending) await this.chatGroupRepo.delete(dm.id);
+    }
+  }
+
+  async unblockUser(blockerId: string, blockedId: string): Promise<void> {
+    await this.userBlockRepo.delete({ blockerId, blockedId });
+  }
+
+  /** Everyone `blockerId` has blocked, most recent first. */
+  async findBlockedUsers(blockerId: string): Promise<BlockedUser[]> {
+    const blocks = await this.userBlockRepo.find({
+      where: { blockerId },
+      relations: ['blocked'],
+      order: { createdAt: 'DESC' },
+    });
+    return Promise.all(
+      blocks.map(async (b) => ({
+        id: b.blocked.id,
+        displayName: b.blocked.displayName,
+        profilePictureUrl: await this.signProfilePictureUrl(
+          b.blocked.profilePictureUrl,
+        ),
+        blockedAt: b.createdAt,
+      })),
+    );
+  }
+
+  /** Users who blocked `userId` — they must not get its messages or pushes. */
+  async findBlockerIds(userId: string): Promise<string[]> {
+    const blocks = await this.userBlockRepo.find({
+      where: { blockedId: userId },
+      select: ['blockerId'],
+    });
+    return blocks.map((b) => b.blockerId);
+  }
+
   // ── Push token access (server-side only, never exposed via API) ────────────
 
   /**
@@ -428,15 +1087,176 @@ export class GroupsService {
 
   // ── Private helpers ───────────────────────────────────────────────────────
 
+  private async findDmBetween(
+    userId: string,
+    otherUserId: string,
+  ): Promise<ChatGroup | null> {
+    return this.chatGroupRepo
+      .createQueryBuilder('g')
+      .innerJoin(
+        GroupMember,
+        'a',
+        'a.group_id = g.id AND a.user_id = :userId',
+        {
+          userId,
+        },
+      )
+      .innerJoin(
+        GroupMember,
+        'b',
+        'b.group_id = g.id AND b.user_id = :otherUserId',
+        { otherUserId },
+      )
+      .where('g.is_group = false')
+      .getOne();
+  }
+
+  private async sharesConversation(
+    userId: string,
+    otherUserId: string,
+  ): Promise<boolean> {
+    const shared = await this.groupMemberRepo
+      .createQueryBuilder('other')
+      .innerJoin(
+        GroupMember,
+        'mine',
+        'mine.group_id = other.group_id AND mine.user_id = :userId',
+        { userId },
+      )
+      .where('other.user_id = :otherUserId', { otherUserId })
+      .getCount();
+    return shared > 0;
+  }
+
+  private async isBlockedEitherWay(a: string, b: string): Promise<boolean> {
+    return this.userBlockRepo.exists({
+      where: [
+        { blockerId: a, blockedId: b },
+        { blockerId: b, blockedId: a },
+      ],
+    });
+  }
+
+  private async findPendingRequest(
+    groupId: string,
+    userId: string,
+  ): Promise<GroupMember> {
+    const membership = await this.groupMemberRepo.findOne({
+      where: { groupId, userId, isRequest: true },
+    });
+    if (!membership) {
+      throw new NotFoundException('No pending message request');
+    }
+    return membership;
+  }
+
+  private async findLastVisibleMessage(
+    groupId: string,
+    viewerId: string,
+  ): Promise<LastMessagePreview | null> {
+    const message = await this.messageRepo
+      .createQueryBuilder('m')
+      .leftJoinAndSelect('m.sender', 'sender')
+      .leftJoin(
+        MessageHiddenByUser,
+        'mh',
+        'mh.message_id = m.id AND mh.user_id = :viewerId',
+        { viewerId },
+      )
+      .where('m.group_id = :groupId', { groupId })
+      .andWhere('mh.id IS NULL')
+      .andWhere(NOT_FROM_BLOCKED_SENDER_SQL)
+      .orderBy('m.created_at', 'DESC')
+      .getOne();
+    if (!message) return null;
+
+    return {
+      id: message.id,
+      senderId: message.sender.id,
+      senderName: message.sender.displayName,
+      contentType: message.contentType,
+      text:
+        message.contentType === MessageContentType.TEXT ||
+        message.contentType === MessageContentType.POLL
+          ? message.rawContent
+          : message.contentType === MessageContentType.AUDIO
+            ? (message.transcription ?? null)
+            : null,
+      fileName: message.fileName ?? null,
+      translations: message.translations ?? null,
+      createdAt: message.createdAt,
+    };
+  }
+
+  private async countUnread(
+    groupId: string,
+    viewerId: string,
+    lastReadAt: Date | null,
+  ): Promise<number> {
+    const qb = this.messageRepo
+      .createQueryBuilder('m')
+      .leftJoin(
+        MessageHiddenByUser,
+        'mh',
+        'mh.message_id = m.id AND mh.user_id = :viewerId',
+        { viewerId },
+      )
+      .where('m.group_id = :groupId', { groupId })
+      .andWhere('m.sender_id <> :viewerId', { viewerId })
+      .andWhere('mh.id IS NULL')
+      .andWhere(NOT_FROM_BLOCKED_SENDER_SQL);
+
+    if (lastReadAt) {
+      qb.andWhere('m.created_at > :lastReadAt', { lastReadAt });
+    }
+
+    return qb.getCount();
+  }
+
   private async assertAdmin(groupId: string, userId: string): Promise<void> {
     const membership = await this.groupMemberRepo.findOne({
       where: { groupId, userId },
     });
-    if (!membership || membership.role !== GroupMemberRole.ADMIN) {
+    if (!membership || !hasAdminRights(membership.role)) {
       throw new ForbiddenException('Only group admins can perform this action');
     }
   }
 
+  /** Roles and permissions only exist in group chats, not DMs. */
+  private async findGroupForRoles(groupId: string): Promise<ChatGroup> {
+    const group = await this.chatGroupRepo.findOne({ where: { id: groupId } });
+    if (!group) throw new NotFoundException('Group not found');
+    if (!group.isGroup) {
+      throw new BadRequestException('Direct messages have no group roles');
+    }
+    return group;
+  }
+
+  private async translateDescription(
+    description: string,
+  ): Promise<Translations | null> {
+    try {
+      const result = await this.translationService.translateIntent({
+        rawText: description,
+        chatHistory: [],
+        userDictionary: '',
+      });
+      return result.translations;
+    } catch (err) {
+      this.logger.warn(
+        `Group description translation failed: ${(err as Error).message}`,
+      );
+      return null;
+    }
+  }
+
+  private async withSignedAvatar(group: ChatGroup): Promise<ChatGroup> {
+    return {
+      ...group,
+      avatarUrl: await this.signProfilePictureUrl(group.avatarUrl),
+    };
+  }
+
   private async signProfilePictureUrl(
     profilePictureUrl: string | null | undefined,
   ): Promise<string | null> {
@@ -0,0 +1,44 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Post,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+
+import { JwtAuthGuard } from '../../core/identity/guards/jwt-auth.guard';
+import {
+  GroupInvitesService,
+  type InvitePreview,
+} from './group-invites.service';
+import { ChatGroup } from '../chat/entities/chat-group.entity';
+
+interface AuthRequest {
+  user: { sub: string; email: string };
+}
+
+/** Routes for whoever opened a `linklanka://join/<token>` link. */
+@Controller('invites')
+@UseGuards(JwtAuthGuard)
+export class InvitesController {
+  constructor(private readonly groupInvitesService: GroupInvitesService) {}
+
+  /** GET /invites/:token — group name and size, before deciding to join. */
+  @Get(':token')
+  previewInvite(
+    @Param('token') token: string,
+    @Request() req: AuthRequest,
+  ): Promise<InvitePreview> {
+    return this.groupInvitesService.previewInvite(token, req.user.sub);
+  }
+
+  /** POST /invites/:token/join — join the group; a no-op for members. */
+  @Post(':token/join')
+  joinWithInvite(
+    @Param('token') token: string,
+    @Request() req: AuthRequest,
+  ): Promise<ChatGroup> {
+    return this.groupInvitesService.joinWithInvite(token, req.user.sub);
+  }
+}
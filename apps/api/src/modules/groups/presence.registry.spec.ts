@@ -0,0 +1,29 @@
+import { PresenceRegistry } from './presence.registry';
+
+describe('PresenceRegistry', () => {
+  let registry: PresenceRegistry;
+
+  beforeEach(() => {
+    registry = new PresenceRegistry();
+  });
+
+  it('reports the first socket as coming online', () => {
+    expect(registry.connect('user-1', 'socket-1')).toBe(true);
+    expect(registry.connect('user-1', 'socket-2')).toBe(false);
+    expect(registry.isOnline('user-1')).toBe(true);
+  });
+
+  it('keeps the user online until the last socket disconnects', () => {
+    registry.connect('user-1', 'socket-1');
+    registry.connect('user-1', 'socket-2');
+
+    expect(registry.disconnect('user-1', 'socket-1')).toBe(false);
+    expect(registry.isOnline('user-1')).toBe(true);
+    expect(registry.disconnect('user-1', 'socket-2')).toBe(true);
+    expect(registry.isOnline('user-1')).toBe(false);
+  });
+
+  it('ignores sockets it never registered', () => {
+    expect(registry.disconnect('user-1', 'socket-1')).toBe(false);
+  });
+});
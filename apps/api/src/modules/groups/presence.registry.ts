@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common';
+
+/**
+ * In-memory map of which users currently have at least one open socket.
+ * A user counts as online until their last device disconnects, so phones
+ * and tablets connected at the same time don't flicker each other offline.
+ */
+@Injectable()
+export class PresenceRegistry {
+  private readonly socketsByUser = new Map<string, Set<string>>();
+
+  /** Registers a socket. Returns true when this made the user go online. */
+  connect(userId: string, socketId: string): boolean {
+    const sockets = this.socketsByUser.get(userId);
+    if (sockets) {
+      sockets.add(socketId);
+      return false;
+    }
+    this.socketsByUser.set(userId, new Set([socketId]));
+    return true;
+  }
+
+  /** Drops a socket. Returns true when the user has no sockets left. */
+  disconnect(userId: string, socketId: string): boolean {
+    const sockets = this.socketsByUser.get(userId);
+    if (!sockets?.delete(socketId)) return false;
+    if (sockets.size > 0) return false;
+    this.socketsByUser.delete(userId);
+    return true;
+  }
+
+  isOnline(userId: string): boolean {
+    return this.socketsByUser.has(userId);
+  }
+}
@@ -2,8 +2,12 @@ import {
   Body,
   BadRequestException,
   Controller,
+  Delete,
   Get,
+  HttpCode,
+  HttpStatus,
   Param,
+  ParseUUIDPipe,
   Patch,
   Post,
   Query,
@@ -45,7 +49,10 @@ export class UsersController {
     return this.groupsService.getUserById(req.user.sub);
   }
 
-  /** PATCH /users/me — update display name, dialect, or profile picture URL. */
+  /**
+   * PATCH /users/me — update display name, dialect, profile picture URL, or
+   * the hide-last-seen privacy setting.
+   */
   @Patch('me')
   updateProfile(@Request() req: AuthRequest, @Body() body: UpdateProfileDto) {
     return this.groupsService.updateUserProfile(req.user.sub, body);
@@ -91,6 +98,35 @@ export class UsersController {
     };
   }
 
+  /** GET /users/me/blocks — people the caller has blocked. */
+  @Get('me/blocks')
+  findBlockedUsers(@Request() req: AuthRequest) {
+    return this.groupsService.findBlockedUsers(req.user.sub);
+  }
+
+  /**
+   * POST /users/:id/block — stop DMs with this user and hide their messages
+   * and notifications in shared groups.
+   */
+  @Post(':id/block')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async blockUser(
+    @Request() req: AuthRequest,
+    @Param('id', ParseUUIDPipe) userId: string,
+  ) {
+    await this.groupsService.blockUser(req.user.sub, userId);
+  }
+
+  /** DELETE /users/:id/block — lift a block. */
+  @Delete(':id/block')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async unblockUser(
+    @Request() req: AuthRequest,
+    @Param('id', ParseUUIDPipe) userId: string,
+  ) {
+    await this.groupsService.unblockUser(req.user.sub, userId);
+  }
+
   /** GET /users?search=&limit= — search users by display name. */
   @Get()
   searchUsers(
@@ -105,9 +141,9 @@ export class UsersController {
     );
   }
 
-  /** GET /users/:id — fetch any user's public profile. */
+  /** GET /users/:id — fetch any user's public profile and presence. */
   @Get(':id')
   getUserById(@Param('id') userId: string) {
-    return this.groupsService.getUserById(userId);
+    return this.groupsService.getPublicProfile(userId);
   }
 }
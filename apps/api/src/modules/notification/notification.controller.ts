@@ -13,7 +13,7 @@ import { JwtAuthGuard } from '../../core/identity/guards/jwt-auth.guard';
 import { NotificationService } from './notification.service';
 
 interface AuthRequest {
-  user: { sub: string; email: string };
+  user: { sub: string; email: string; sid: string };
 }
 
 @Controller('notifications')
@@ -30,7 +30,11 @@ export class NotificationController {
     @Request() req: AuthRequest,
     @Body() body: { token: string },
   ) {
-    await this.notificationService.registerToken(req.user.sub, body.token);
+    await this.notificationService.registerToken(
+      req.user.sub,
+      req.user.sid,
+      body.token,
+    );
     return { ok: true };
   }
 
@@ -41,6 +45,6 @@ export class NotificationController {
   @Delete('token')
   @HttpCode(HttpStatus.NO_CONTENT)
   async clearToken(@Request() req: AuthRequest) {
-    await this.notificationService.clearToken(req.user.sub);
+    await this.notificationService.clearToken(req.user.sub, req.user.sid);
   }
 }
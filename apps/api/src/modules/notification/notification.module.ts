@@ -2,11 +2,12 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 
 import { User } from '../../core/identity/entities/user.entity';
+import { IdentityModule } from '../../core/identity/identity.module';
 import { NotificationController } from './notification.controller';
 import { NotificationService } from './notification.service';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([User])],
+  imports: [TypeOrmModule.forFeature([User]), IdentityModule],
   controllers: [NotificationController],
   providers: [NotificationService],
   exports: [NotificationService],
@@ -4,6 +4,7 @@ import { Repository } from 'typeorm';
 import axios from 'axios';
 
 import { User } from '../../core/identity/entities/user.entity';
+import { SessionsService } from '../../core/identity/sessions.service';
 
 /** Shape of a single message in the Expo push batch. */
 interface ExpoPushMessage {
@@ -33,17 +34,25 @@ export class NotificationService {
   constructor(
     @InjectRepository(User)
     private readonly userRepo: Repository<User>,
+    private readonly sessionsService: SessionsService,
   ) {}
 
   // ── Token management ────────────────────────────────────────────────────
 
-  async registerToken(userId: string, token: string): Promise<void> {
+  /** The token is also tied to the device session so revoking it stops pushes. */
+  async registerToken(
+    userId: string,
+    sessionId: string,
+    token: string,
+  ): Promise<void> {
     await this.userRepo.update(userId, { expoPushToken: token });
+    await this.sessionsService.setPushToken(userId, sessionId, token);
     this.logger.log(`Registered push token for userId=${userId}`);
   }
 
-  async clearToken(userId: string): Promise<void> {
+  async clearToken(userId: string, sessionId: string): Promise<void> {
     await this.userRepo.update(userId, { expoPushToken: null });
+    await this.sessionsService.setPushToken(userId, sessionId, null);
     this.logger.log(`Cleared push token for userId=${userId}`);
   }
 
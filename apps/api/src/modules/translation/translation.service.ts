@@ -137,6 +137,25 @@ export const TranslationSchema = z.object({
 
 export type TranslationResult = z.infer<typeof TranslationSchema>;
 
+const TranslationTripletSchema = z.object({
+  singlish: z.string(),
+  tanglish: z.string(),
+  english: z.string(),
+});
+
+export const PollTranslationSchema = z.object({
+  question: TranslationTripletSchema,
+  options: z
+    .array(TranslationTripletSchema)
+    .describe('One entry per input option, in the same order'),
+  detectedLanguage: z
+    .enum(['english', 'singlish', 'tanglish', 'mixed', 'unknown'])
+    .default('unknown'),
+  confidenceScore: z.number().min(0).max(100),
+});
+
+export type PollTranslationResult = z.infer<typeof PollTranslationSchema>;
+
 export interface Translations {
   singlish: string;
   tanglish: string;
@@ -144,6 +163,13 @@ export interface Translations {
 }
 
 export type SupportedLanguage = keyof Translations;
+
+/** Every language a message is translated into. */
+export const SUPPORTED_LANGUAGES: SupportedLanguage[] = [
+  'english',
+  'singlish',
+  'tanglish',
+];
 export type DetectedLanguage = SupportedLanguage | 'mixed' | 'unknown';
 
 export interface TranslatedAudioUrls {
@@ -282,6 +308,7 @@ LANGUAGE DETECTION RULES:
 Calculate a confidence score (0-100). If the phrase is too ambiguous even with context, lower the score.
 CRITICAL CONTEXT: The user has provided a custom dictionary for their specific slang. You MUST prioritize these definitions if they appear in the text: ${payload.userDictionary}
 Always use terms that are commonly used and easily understood by users. Do not use niche terms known only by a small group. If the input contains uncommon terms, replace them with more common alternatives in the translations, but keep the original term in the transcription.
+MENTIONS: Tokens starting with "@" (for example "@Kasun Perera") mention chat members. Copy every such token EXACTLY as written into the transcription and into all three translations — never translate, transliterate, reorder the words of, or drop a mention.
 
 INAUDIBILITY RULES (CRITICAL — you MUST follow these for ANY audio input):
 - If the ENTIRE audio is silent, near-silent, contains only background noise, static, breathing, wind, or unintelligible mumbling — set "transcription" to "[inaudible]", "confidenceScore" to 0, "translations" to { "singlish": "[inaudible]", "tanglish": "[inaudible]", "english": "[inaudible]" }, and "extractedActions" to [].
@@ -408,17 +435,7 @@ Examples of messages WITHOUT actions:
     }
 
     const messages = [systemMessage, ...historyMessages, finalHumanMessage];
-    const modelCandidates: Array<{
-      modelName: string;
-      model: ChatGoogleGenerativeAI;
-    }> = [{ modelName: this.primaryModelName, model: this.model }];
-
-    if (this.fallbackModel && this.fallbackModelName) {
-      modelCandidates.push({
-        modelName: this.fallbackModelName,
-        model: this.fallbackModel,
-      });
-    }
+    const modelCandidates = this.getModelCandidates();
 
     const inputType = this.getInputType(payload);
     const timeoutMs = this.getTimeoutMsForInput(inputType);
@@ -482,6 +499,101 @@ Examples of messages WITHOUT actions:
     throw lastError instanceof Error ? lastError : new Error(String(lastError));
   }
 
+  /**
+   * Translates a poll's question and options in one request, so a poll costs
+   * a single model call however many options it has.
+   */
+  async translatePoll(payload: {
+    question: string;
+    options: string[];
+    userDictionary: string;
+  }): Promise<PollTranslationResult> {
+    const systemMessage = new SystemMessage(
+      `You are a Sri Lankan linguistic AI Mediator translating a chat poll.
+The input is JSON with a "question" and a list of "options" (each may be in Singlish, Tanglish, or English).
+Translate the question and EVERY option into ALL THREE of these formats:
+- "singlish": The Sinhala written in English code-mixed colloquial form used in Sri Lanka.
+- "tanglish": The Tamil written in English code-mixed colloquial form used in Sri Lanka.
+- "english": Standard, grammatically correct English.
+Return exactly one "options" entry per input option, in the same order. Keep each option short — do not add explanations.
+Copy dates, times, numbers, names, and "@" mention tokens exactly as written.
+Also output a "detectedLanguage" field for the question with one of: "english", "singlish", "tanglish", "mixed", "unknown".
+Calculate a confidence score (0-100) for the whole poll. If the wording is too ambiguous, lower the score.
+CRITICAL CONTEXT: The user has provided a custom dictionary for their specific slang. You MUST prioritize these definitions if they appear in the text: ${payload.userDictionary}`,
+    );
+    const humanMessage = new HumanMessage(
+      JSON.stringify({ question: payload.question, options: payload.options }),
+    );
+
+    const modelCandidates = this.getModelCandidates();
+    const timeoutMs = this.getTimeoutMsForInput('text');
+    let lastError: unknown;
+
+    for (let idx = 0; idx < modelCandidates.length; idx += 1) {
+      const candidate = modelCandidates[idx];
+      const startedAt = Date.now();
+
+      try {
+        const result = await candidate.model
+          .withStructuredOutput(PollTranslationSchema)
+          .invoke([systemMessage, humanMessage], {
+            signal: AbortSignal.timeout(timeoutMs),
+          });
+
+        if (result.options.length !== payload.options.length) {
+          throw new Error(
+            `Expected ${payload.options.length} option translations, got ${result.options.length}`,
+          );
+        }
+
+        this.logger.log(
+          `[translatePoll] success model=${candidate.modelName} options=${payload.options.length} durationMs=${Date.now() - startedAt}`,
+        );
+
+        const normalize = (t: Translations): Translations => ({
+          ...t,
+          tanglish: this.normalizeTanglishLexicon(t.tanglish),
+        });
+        return {
+          ...result,
+          detectedLanguage: result.detectedLanguage ?? 'unknown',
+          confidenceScore: this.clampConfidenceScore(result.confidenceScore),
+          question: normalize(result.question),
+          options: result.options.map(normalize),
+        };
+      } catch (error) {
+        lastError = error;
+        const retryWithFallback = idx < modelCandidates.length - 1;
+
+        this.logger.warn(
+          `[translatePoll] failed model=${candidate.modelName} durationMs=${Date.now() - startedAt} retryWithFallback=${retryWithFallback} error=${this.describeProviderError(error)}`,
+        );
+
+        if (!retryWithFallback) {
+          throw error;
+        }
+      }
+    }
+
+    throw lastError instanceof Error ? lastError : new Error(String(lastError));
+  }
+
+  private getModelCandidates(): Array<{
+    modelName: string;
+    model: ChatGoogleGenerativeAI;
+  }> {
+    const modelCandidates = [
+      { modelName: this.primaryModelName, model: this.model },
+    ];
+    if (this.fallbackModel && this.fallbackModelName) {
+      modelCandidates.push({
+        modelName: this.fallbackModelName,
+        model: this.fallbackModel,
+      });
+    }
+    return modelCandidates;
+  }
+
   private createTranslationModel(modelName: string): ChatGoogleGenerativeAI {
     return new ChatGoogleGenerativeAI({
       apiKey: this.geminiApiKey,
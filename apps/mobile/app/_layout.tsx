@@ -14,13 +14,25 @@ import { ThemeProvider, useTheme } from '../src/contexts/ThemeContext';
 
 import LoginScreen from '../src/screens/LoginScreen';
 import RegisterScreen from '../src/screens/RegisterScreen';
+import ForgotPasswordScreen from '../src/screens/ForgotPasswordScreen';
+import ResetPasswordScreen from '../src/screens/ResetPasswordScreen';
+import TwoFactorLoginScreen from '../src/screens/TwoFactorLoginScreen';
 import ChatsListScreen from '../src/screens/ChatsListScreen';
 import ChatScreen from '../src/screens/ChatScreen';
 import CreateGroupScreen from '../src/screens/CreateGroupScreen';
 import ProfileScreen from '../src/screens/ProfileScreen';
 import PersonalDictionaryScreen from '../src/screens/PersonalDictionaryScreen';
+import BlockedUsersScreen from '../src/screens/BlockedUsersScreen';
+import DevicesScreen from '../src/screens/DevicesScreen';
+import VerifyEmailScreen from '../src/screens/VerifyEmailScreen';
+import TwoFactorScreen from '../src/screens/TwoFactorScreen';
 import GroupInfoScreen from '../src/screens/GroupInfoScreen';
+import GroupReportsScreen from '../src/screens/GroupReportsScreen';
+import GroupInvitesScreen from '../src/screens/GroupInvitesScreen';
+import JoinGroupScreen from '../src/screens/JoinGroupScreen';
 import PersonInfoScreen from '../src/screens/PersonInfoScreen';
+import StarredMessagesScreen from '../src/screens/StarredMessagesScreen';
+import SearchScreen from '../src/screens/SearchScreen';
 
 import type { AuthStackParamList, AppStackParamList } from '../src/navigation/types';
 
@@ -28,12 +40,15 @@ import type { AuthStackParamList, AppStackParamList } from '../src/navigation/ty
 const AuthStack = createNativeStackNavigator<AuthStackParamList>();
 const AppStack = createNativeStackNavigator<AppStackParamList>();
 
-// ── Auth Stack (Login / Register) ────────────────────────────────────────────
+// ── Auth Stack (Login / Register / password reset) ───────────────────────────
 function AuthNavigator() {
   return (
     <AuthStack.Navigator screenOptions={{ headerShown: false }}>
       <AuthStack.Screen name="Login" component={LoginScreen} />
       <AuthStack.Screen name="Register" component={RegisterScreen} />
+      <AuthStack.Screen name="ForgotPassword" component={ForgotPasswordScreen} />
+      <AuthStack.Screen name="ResetPassword" component={ResetPasswordScreen} />
+      <AuthStack.Screen name="TwoFactorLogin" component={TwoFactorLoginScreen} />
     </AuthStack.Navigator>
   );
 }
@@ -67,16 +82,61 @@ function AppNavigator() {
               component={PersonalDictionaryScreen}
               options={{ animation: 'slide_from_right' }}
             />
+            <AppStack.Screen
+              name="BlockedUsers"
+              component={BlockedUsersScreen}
+              options={{ animation: 'slide_from_right' }}
+            />
             <AppStack.Screen
               name="GroupInfo"
               component={GroupInfoScreen}
               options={{ animation: 'slide_from_right' }}
             />
+            <AppStack.Screen
+              name="GroupReports"
+              component={GroupReportsScreen}
+              options={{ animation: 'slide_from_right' }}
+            />
+            <AppStack.Screen
+              name="GroupInvites"
+              component={GroupInvitesScreen}
+              options={{ animation: 'slide_from_right' }}
+            />
+            <AppStack.Screen
+              name="JoinGroup"
+              component={JoinGroupScreen}
+              options={{ animation: 'slide_from_bottom' }}
+            />
             <AppStack.Screen
               name="PersonInfo"
               component={PersonInfoScreen}
               options={{ animation: 'slide_from_right' }}
             />
+            <AppStack.Screen
+              name="Devices"
+              component={DevicesScreen}
+              options={{ animation: 'slide_from_right' }}
+            />
+            <AppStack.Screen
+              name="VerifyEmail"
+              component={VerifyEmailScreen}
+              options={{ animation: 'slide_from_right' }}
+            />
+            <AppStack.Screen
+              name="TwoFactor"
+              component={TwoFactorScreen}
+              options={{ animation: 'slide_from_right' }}
+            />
+            <AppStack.Screen
+              name="StarredMessages"
+              component={StarredMessagesScreen}
+              options={{ animation: 'slide_from_right' }}
+            />
+            <AppStack.Screen
+              name="Search"
+              component={SearchScreen}
+              options={{ animation: 'fade' }}
+            />
           </AppStack.Navigator>
         </ChatMessageCacheProvider>
       </NotificationProvider>
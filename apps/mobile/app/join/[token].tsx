@@ -0,0 +1,5 @@
+// Keeps Expo Router from showing "Unmatched Route" for linklanka://join/<token>.
+// The link itself is handled by useInviteLinks in ChatsListScreen.
+export default function JoinRoute() {
+  return null;
+}
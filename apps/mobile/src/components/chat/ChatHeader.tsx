@@ -25,6 +25,8 @@ interface ChatHeaderProps {
   /** Stable ref — avoids re-rendering the header every time a message arrives */
   messagesRef: React.MutableRefObject<ChatMessage[]>;
   userId: string | null;
+  /** The conversation's edit window — 0 means messages can't be edited */
+  editWindowMinutes: number;
 
   /* ── animated styles for the cross-fade header ────────────────────── */
   selHeaderAnimStyle: AnimatedStyle<ViewStyle>;
@@ -33,6 +35,14 @@ interface ChatHeaderProps {
   /* ── selection callbacks ──────────────────────────────────────────── */
   onExitSelection: () => void;
   onStartEdit: () => void;
+  onReply: () => void;
+  onReact: () => void;
+  /** Omitted when the viewer can't pin in this conversation */
+  onTogglePin?: () => void;
+  pinnedMessageIds?: ReadonlySet<string>;
+  onToggleStar: () => void;
+  onReport: () => void;
+  onForward: () => void;
   onDelete: () => void;
 
   /* ── normal-header callbacks ─────────────────────────────────────── */
@@ -45,7 +55,12 @@ interface ChatHeaderProps {
   groupName: string;
   isDm?: boolean;
   otherUserPicture?: string | null;
+  groupAvatarUrl?: string | null;
   isConnected: boolean;
+  /** "Kasun is typing…" etc. — replaces nothing, shown under the title */
+  activityText?: string | null;
+  /** DM partner's "online" / "last seen …" — shown when nobody is active */
+  presenceText?: string | null;
 }
 
 // ── Component ────────────────────────────────────────────────────────────────
@@ -57,10 +72,18 @@ function ChatHeader({
   selectedIdsRef,
   messagesRef,
   userId,
+  editWindowMinutes,
   selHeaderAnimStyle,
   normHeaderAnimStyle,
   onExitSelection,
   onStartEdit,
+  onReply,
+  onReact,
+  onTogglePin,
+  pinnedMessageIds,
+  onToggleStar,
+  onReport,
+  onForward,
   onDelete,
   onGoBack,
   onOpenGroupInfo,
@@ -69,10 +92,14 @@ function ChatHeader({
   groupName,
   isDm,
   otherUserPicture,
+  groupAvatarUrl,
   isConnected,
+  activityText,
+  presenceText,
 }: ChatHeaderProps) {
-  // ── Edit eligibility — 1 own TEXT message within 15 min ─────────────────
+  // ── Edit eligibility — 1 own TEXT message inside the edit window ────────
   const renderEditButton = () => {
+    if (editWindowMinutes <= 0) return null;
     const ref = selectedIdsRef.current;
     if (ref.size !== 1) return null;
     const [mid] = [...ref];
@@ -83,7 +110,7 @@ function ChatHeader({
     if (msg.isOptimistic) return null;
     if (msg.createdAt) {
       const age = Date.now() - new Date(msg.createdAt).getTime();
-      if (age > 15 * 60 * 1000) return null;
+      if (age > editWindowMinutes * 60 * 1000) return null;
     }
     return (
       <Pressable onPress={onStartEdit} hitSlop={12} style={styles.selHeaderAction}>
@@ -92,15 +119,116 @@ function ChatHeader({
     );
   };
 
-  // ── Delete eligibility — any persisted selected messages ────────────────
-  const renderDeleteButton = () => {
+  // ── Reply eligibility — exactly 1 persisted message ─────────────────────
+  const renderReplyButton = () => {
+    const ref = selectedIdsRef.current;
+    if (ref.size !== 1) return null;
+    const [mid] = [...ref];
+    const msg = messagesRef.current.find((m) => m.id === mid);
+    if (!msg || msg.isOptimistic) return null;
+    return (
+      <Pressable onPress={onReply} hitSlop={12} style={styles.selHeaderAction}>
+        <Ionicons name="arrow-undo" size={22} color={colors.headerText} />
+      </Pressable>
+    );
+  };
+
+  // ── React eligibility — exactly 1 persisted message ─────────────────────
+  const renderReactButton = () => {
+    const ref = selectedIdsRef.current;
+    if (ref.size !== 1) return null;
+    const [mid] = [...ref];
+    const msg = messagesRef.current.find((m) => m.id === mid);
+    if (!msg || msg.isOptimistic) return null;
+    return (
+      <Pressable onPress={onReact} hitSlop={12} style={styles.selHeaderAction}>
+        <Ionicons name="happy-outline" size={22} color={colors.headerText} />
+      </Pressable>
+    );
+  };
+
+  // ── Pin eligibility — exactly 1 persisted message, pin rights ───────────
+  const renderPinButton = () => {
+    if (!onTogglePin) return null;
+    const ref = selectedIdsRef.current;
+    if (ref.size !== 1) return null;
+    const [mid] = [...ref];
+    const msg = messagesRef.current.find((m) => m.id === mid);
+    if (!msg || msg.isOptimistic) return null;
+    const isPinned = pinnedMessageIds?.has(msg.id) ?? false;
+    return (
+      <Pressable
+        onPress={onTogglePin}
+        hitSlop={12}
+        style={styles.selHeaderAction}
+        accessibilityLabel={isPinned ? 'Unpin message' : 'Pin message'}
+      >
+        <Ionicons name={isPinned ? 'pin' : 'pin-outline'} size={22} color={colors.headerText} />
+      </Pressable>
+    );
+  };
+
+  // ── Star eligibility — exactly 1 persisted message ──────────────────────
+  const renderStarButton = () => {
+    const ref = selectedIdsRef.current;
+    if (ref.size !== 1) return null;
+    const [mid] = [...ref];
+    const msg = messagesRef.current.find((m) => m.id === mid);
+    if (!msg || msg.isOptimistic) return null;
+    return (
+      <Pressable
+        onPress={onToggleStar}
+        hitSlop={12}
+        style={styles.selHeaderAction}
+        accessibilityLabel={msg.isStarred ? 'Unstar message' : 'Star message'}
+      >
+        <Ionicons name={msg.isStarred ? 'star' : 'star-outline'} size={22} color={colors.headerText} />
+      </Pressable>
+    );
+  };
+
+  // ── Report eligibility — exactly 1 persisted message from someone else ─
+  const renderReportButton = () => {
+    const ref = selectedIdsRef.current;
+    if (ref.size !== 1) return null;
+    const [mid] = [...ref];
+    const msg = messagesRef.current.find((m) => m.id === mid);
+    if (!msg || msg.isOptimistic || msg.senderId === userId) return null;
+    return (
+      <Pressable
+        onPress={onReport}
+        hitSlop={12}
+        style={styles.selHeaderAction}
+        accessibilityLabel="Report message"
+      >
+        <Ionicons name="flag-outline" size={22} color={colors.headerText} />
+      </Pressable>
+    );
+  };
+
+  // ── Forward / delete eligibility — any persisted selected messages ──────
+  const headerPicture = isDm ? otherUserPicture : groupAvatarUrl;
+
+  const areSelectedPersisted = () => {
     const ids = [...selectedIdsRef.current];
-    if (ids.length === 0) return null;
-    const allPersisted = ids.every((id) => {
+    if (ids.length === 0) return false;
+    return ids.every((id) => {
       const msg = messagesRef.current.find((m) => m.id === id);
       return !!msg && !msg.isOptimistic;
     });
-    if (!allPersisted) return null;
+  };
+
+  const renderForwardButton = () => {
+    if (!areSelectedPersisted()) return null;
+    return (
+      <Pressable onPress={onForward} hitSlop={12} style={styles.selHeaderAction}>
+        <Ionicons name="arrow-redo-outline" size={22} color={colors.headerText} />
+      </Pressable>
+    );
+  };
+
+  const renderDeleteButton = () => {
+    if (!areSelectedPersisted()) return null;
     return (
       <Pressable onPress={onDelete} hitSlop={12} style={styles.selHeaderAction}>
         <Ionicons name="trash-outline" size={22} color={colors.destructiveLight} />
@@ -123,6 +251,12 @@ function ChatHeader({
             {selectedCount} selected
           </Text>
           <View style={{ flex: 1 }} />
+          {renderReactButton()}
+          {renderPinButton()}
+          {renderStarButton()}
+          {renderReportButton()}
+          {renderReplyButton()}
+          {renderForwardButton()}
           {renderEditButton()}
           {renderDeleteButton()}
         </Animated.View>
@@ -136,8 +270,8 @@ function ChatHeader({
             <Ionicons name="arrow-back" size={24} color={colors.headerText} />
           </Pressable>
           <Pressable onPress={onOpenGroupInfo} style={styles.headerTitleArea} hitSlop={4}>
-            {isDm && otherUserPicture ? (
-              <Image source={{ uri: otherUserPicture }} style={styles.headerAvatar} contentFit="cover" transition={200} />
+            {headerPicture ? (
+              <Image source={{ uri: headerPicture }} style={styles.headerAvatar} contentFit="cover" transition={200} />
             ) : (
               <View style={[styles.headerAvatar, { backgroundColor: colors.headerAvatarBg }]}>
                 {isDm ? (
@@ -149,9 +283,20 @@ function ChatHeader({
                 )}
               </View>
             )}
-            <Text style={[styles.headerTitle, { color: colors.headerText }]} numberOfLines={1}>
-              {groupName}
-            </Text>
+            <View style={styles.headerTitleColumn}>
+              <Text style={[styles.headerTitle, { color: colors.headerText }]} numberOfLines={1}>
+                {groupName}
+              </Text>
+              {activityText ? (
+                <Text style={[styles.headerSubtitle, { color: colors.headerTextSecondary }]} numberOfLines={1}>
+                  {activityText}
+                </Text>
+              ) : presenceText ? (
+                <Text style={[styles.headerPresence, { color: colors.headerTextSecondary }]} numberOfLines={1}>
+                  {presenceText}
+                </Text>
+              ) : null}
+            </View>
           </Pressable>
           <Pressable onPress={onOpenLanguagePicker} style={styles.langBtn} hitSlop={8}>
             <Ionicons name="language" size={20} color={colors.headerTextSecondary} />
@@ -216,6 +361,16 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '700',
   },
+  headerTitleColumn: {
+    flex: 1,
+  },
+  headerSubtitle: {
+    fontSize: 12,
+    fontStyle: 'italic',
+  },
+  headerPresence: {
+    fontSize: 12,
+  },
   headerTitleArea: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -223,7 +378,6 @@ const styles = StyleSheet.create({
     gap: 8,
   },
   headerTitle: {
-    flex: 1,
     fontSize: 18,
     fontWeight: '700',
   },
@@ -33,6 +33,9 @@ import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useTheme } from '../../contexts/ThemeContext';
 import MagicRefineModal from './MagicRefineModal';
+import ScheduleSendModal from './ScheduleSendModal';
+import CreatePollModal from './CreatePollModal';
+import type { CreatePollInput } from '../../hooks/useChatMessages';
 import {
   useAudioRecorder,
   useAudioRecorderState,
@@ -52,6 +55,7 @@ import {
   type AudibilityStatus,
   type FeedbackCopy,
 } from './audioAudibility';
+import { fetchGroupMembers } from '../../services/api';
 
 type HintTone = 'neutral' | 'warn' | 'good';
 
@@ -73,8 +77,38 @@ interface ChatPayload {
   durationMs?: number;
 }
 
+/** What the reply bar above the input shows while composing a reply. */
+export interface ReplyComposerTarget {
+  authorLabel: string | null;
+  text: string;
+}
+
 interface ChatInputProps {
   onSendMessage: (payload: ChatPayload) => void;
+  replyTarget?: ReplyComposerTarget | null;
+  onCancelReply?: () => void;
+  /** Fired on each keystroke with non-empty text — drives the typing indicator */
+  onTyping?: () => void;
+  /** Fired when voice recording starts and stops — drives the recording indicator */
+  onRecordingChange?: (isRecording: boolean) => void;
+  /** Conversation being composed in — enables long-press "Schedule send" */
+  groupId?: string;
+  /** Group chats offer @mention autocomplete; DMs don't */
+  isGroupChat?: boolean;
+  currentUserId?: string | null;
+  /** Enables "Poll" in the attachment sheet */
+  onCreatePoll?: (input: CreatePollInput) => void;
+}
+
+interface MentionMember {
+  userId: string;
+  displayName: string;
+}
+
+interface ActiveMention {
+  /** Index of the `@` that starts the mention being typed */
+  start: number;
+  query: string;
 }
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
@@ -110,6 +144,20 @@ const WAVEFORM_BARS = 24;
 const CANCEL_THRESHOLD = 100;
 /** Vertical drag distance (px) needed to trigger lock-to-record. */
 const LOCK_THRESHOLD = 60;
+const MAX_MENTION_QUERY_LENGTH = 40;
+const MAX_MENTION_SUGGESTIONS = 5;
+
+/** The `@partial name` right before the cursor, if the user is typing one. */
+function getActiveMention(text: string, cursor: number): ActiveMention | null {
+  const before = text.slice(0, cursor);
+  const start = before.lastIndexOf('@');
+  if (start === -1) return null;
+  // `kasun@` is an email address, not a mention.
+  if (start > 0 && /\w/.test(before[start - 1])) return null;
+  const query = before.slice(start + 1);
+  if (query.includes('\n') || query.length > MAX_MENTION_QUERY_LENGTH) return null;
+  return { start, query };
+}
 
 function getFileSizeBytes(uri: string): number | null {
   try {
@@ -348,10 +396,11 @@ interface AttachSheetProps {
   onCamera: () => void;
   onGallery: () => void;
   onDocument: () => void;
+  onPoll?: () => void;
   bottomInset: number;
 }
 
-function AttachSheet({ visible, onClose, onCamera, onGallery, onDocument, bottomInset }: AttachSheetProps) {
+function AttachSheet({ visible, onClose, onCamera, onGallery, onDocument, onPoll, bottomInset }: AttachSheetProps) {
   const { colors } = useTheme();
   return (
     <Modal
@@ -395,6 +444,17 @@ function AttachSheet({ visible, onClose, onCamera, onGallery, onDocument, bottom
                   </View>
                   <Text style={[styles.sheetBtnLabel, { color: colors.sheetBtnLabel }]}>Document</Text>
                 </Pressable>
+                {onPoll && (
+                  <Pressable
+                    style={({ pressed }) => [styles.sheetBtn, pressed && styles.sheetBtnPressed]}
+                    onPress={() => { onClose(); onPoll(); }}
+                  >
+                    <View style={[styles.sheetIcon, { backgroundColor: '#f59e0b' }]}>
+                      <Ionicons name="stats-chart" size={26} color="#fff" />
+                    </View>
+                    <Text style={[styles.sheetBtnLabel, { color: colors.sheetBtnLabel }]}>Poll</Text>
+                  </Pressable>
+                )}
               </View>
             </View>
           </TouchableWithoutFeedback>
@@ -450,21 +510,133 @@ function FloatingHint({ hint, hintTone }: { hint: string | null; hintTone: HintT
   );
 }
 
+interface MentionPopoverProps {
+  suggestions: MentionMember[];
+  onPick: (member: MentionMember) => void;
+}
+
+function MentionPopover({ suggestions, onPick }: MentionPopoverProps) {
+  const { colors } = useTheme();
+  return (
+    <View
+      style={[
+        styles.mentionPopover,
+        { backgroundColor: colors.surfaceElevated, borderColor: colors.border },
+      ]}
+    >
+      {suggestions.map((member) => (
+        <Pressable
+          key={member.userId}
+          onPress={() => onPick(member)}
+          style={({ pressed }) => [
+            styles.mentionOption,
+            pressed && { backgroundColor: colors.primaryFaded },
+          ]}
+        >
+          <Ionicons name="at" size={16} color={colors.primary} />
+          <Text style={[styles.mentionOptionText, { color: colors.text }]} numberOfLines={1}>
+            {member.displayName}
+          </Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
 // ── Component ────────────────────────────────────────────────────────────────
-export default function ChatInput({ onSendMessage }: ChatInputProps) {
+export default function ChatInput({
+  onSendMessage,
+  replyTarget,
+  onCancelReply,
+  onTyping,
+  onRecordingChange,
+  groupId,
+  isGroupChat = false,
+  currentUserId,
+  onCreatePoll,
+}: ChatInputProps) {
   const insets = useSafeAreaInsets();
   const { colors } = useTheme();
   const [inputText, setInputText] = useState('');
+  const [cursor, setCursor] = useState(0);
+  const [mentionMembers, setMentionMembers] = useState<MentionMember[]>([]);
   const [androidKeyboardOffset, setAndroidKeyboardOffset] = useState(0);
   const [isRecording, setIsRecording] = useState(false);
   const [isLocked, setIsLocked] = useState(false);
   const [isSending, setIsSending] = useState(false);
   const [showSheet, setShowSheet] = useState(false);
   const [showMagicModal, setShowMagicModal] = useState(false);
+  const [showScheduleModal, setShowScheduleModal] = useState(false);
+  const [showPollModal, setShowPollModal] = useState(false);
   const [recordingHint, setRecordingHint] = useState<string | null>(null);
   const [recordingHintTone, setRecordingHintTone] = useState<HintTone>('neutral');
   const [blockedFeedback, setBlockedFeedback] = useState<FeedbackCopy | null>(null);
 
+  const onTypingRef = useRef(onTyping);
+  onTypingRef.current = onTyping;
+  const onRecordingChangeRef = useRef(onRecordingChange);
+  onRecordingChangeRef.current = onRecordingChange;
+
+  const handleChangeText = useCallback((text: string) => {
+    setInputText(text);
+    if (text.trim().length > 0) onTypingRef.current?.();
+  }, []);
+
+  // ── Mention autocomplete ──────────────────────────────────────────────────
+  const mentionGroupId = isGroupChat ? groupId : undefined;
+  useEffect(() => {
+    setMentionMembers([]);
+    if (!mentionGroupId) return;
+
+    let cancelled = false;
+    fetchGroupMembers(mentionGroupId)
+      .then((members) => {
+        if (cancelled) return;
+        setMentionMembers(
+          members
+            .filter((m) => m.user && m.userId !== currentUserId)
+            .map((m) => ({ userId: m.userId, displayName: m.user!.displayName })),
+        );
+      })
+      .catch((err) => console.warn('[ChatInput] Failed to load members for mentions:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [mentionGroupId, currentUserId]);
+
+  const activeMention = useMemo(
+    () => (mentionMembers.length > 0 ? getActiveMention(inputText, cursor) : null),
+    [mentionMembers.length, inputText, cursor],
+  );
+
+  const mentionSuggestions = useMemo(() => {
+    if (!activeMention) return [];
+    const query = activeMention.query.toLowerCase();
+    return mentionMembers
+      .filter((m) => m.displayName.toLowerCase().startsWith(query))
+      .slice(0, MAX_MENTION_SUGGESTIONS);
+  }, [activeMention, mentionMembers]);
+
+  const handlePickMention = useCallback(
+    (member: MentionMember) => {
+      if (!activeMention) return;
+      const end = activeMention.start + 1 + activeMention.query.length;
+      const inserted = `@${member.displayName} `;
+      setInputText((prev) => prev.slice(0, activeMention.start) + inserted + prev.slice(end));
+      setCursor(activeMention.start + inserted.length);
+    },
+    [activeMention],
+  );
+
+  // Report recording state changes only — not the initial idle state.
+  const wasRecordingRef = useRef(false);
+  useEffect(() => {
+    if (wasRecordingRef.current === isRecording) return;
+    wasRecordingRef.current = isRecording;
+    onRecordingChangeRef.current?.(isRecording);
+  }, [isRecording]);
+
   // ── Sync refs ─────────────────────────────────────────────────────────────
   const isRecordingRef = useRef(false);
   /**
@@ -852,6 +1024,11 @@ export default function ChatInput({ onSendMessage }: ChatInputProps) {
     setInputText('');
   }, [inputText, onSendMessage]);
 
+  const handleScheduled = useCallback(() => {
+    setShowScheduleModal(false);
+    setInputText('');
+  }, []);
+
   // ── Attachment ───────────────────────────────────────────────────────────
   const pickFromCamera = useCallback(async () => {
     const { granted } = await ImagePicker.requestCameraPermissionsAsync();
@@ -996,6 +1173,29 @@ export default function ChatInput({ onSendMessage }: ChatInputProps) {
           </View>
         )}
 
+        {/* Reply bar — quote of the message being replied to */}
+        {replyTarget && !showRecordingBar && (
+          <View style={[styles.replyBar, { borderLeftColor: colors.primary, backgroundColor: colors.primaryFaded }]}>
+            <Ionicons name="arrow-undo" size={14} color={colors.primary} />
+            <View style={styles.replyBarTextWrap}>
+              <Text style={[styles.replyBarTitle, { color: colors.primary }]} numberOfLines={1}>
+                {replyTarget.authorLabel ? `Replying to ${replyTarget.authorLabel}` : 'Replying'}
+              </Text>
+              <Text style={[styles.replyBarText, { color: colors.textSecondary }]} numberOfLines={1}>
+                {replyTarget.text}
+              </Text>
+            </View>
+            <Pressable onPress={onCancelReply} hitSlop={12}>
+              <Ionicons name="close-circle" size={20} color={colors.textSecondary} />
+            </Pressable>
+          </View>
+        )}
+
+        {/* Mention autocomplete — members matching the `@name` being typed */}
+        {mentionSuggestions.length > 0 && !showRecordingBar && (
+          <MentionPopover suggestions={mentionSuggestions} onPick={handlePickMention} />
+        )}
+
         {/* Character count — only in normal mode */}
         {charCount > 200 && !showRecordingBar && (
           <Text
@@ -1026,7 +1226,8 @@ export default function ChatInput({ onSendMessage }: ChatInputProps) {
             placeholder="Type a message…"
             placeholderTextColor={colors.inputPlaceholder}
             value={inputText}
-            onChangeText={setInputText}
+            onChangeText={handleChangeText}
+            onSelectionChange={(e) => setCursor(e.nativeEvent.selection.end)}
             multiline
             maxLength={MAX_CHAT_TEXT_LENGTH}
             editable={!showRecordingBar}
@@ -1046,6 +1247,8 @@ export default function ChatInput({ onSendMessage }: ChatInputProps) {
               {/* Send button */}
               <Pressable
                 onPress={handleSendText}
+                onLongPress={groupId ? () => setShowScheduleModal(true) : undefined}
+                accessibilityHint={groupId ? 'Long-press to schedule send' : undefined}
                 style={({ pressed }) => [styles.actionBtn, { backgroundColor: colors.primary }, pressed && styles.actionBtnPressed]}
                 hitSlop={8}
               >
@@ -1080,6 +1283,7 @@ export default function ChatInput({ onSendMessage }: ChatInputProps) {
         onCamera={pickFromCamera}
         onGallery={pickFromGallery}
         onDocument={pickDocument}
+        onPoll={onCreatePoll ? () => setShowPollModal(true) : undefined}
         bottomInset={insets.bottom}
       />
 
@@ -1091,6 +1295,25 @@ export default function ChatInput({ onSendMessage }: ChatInputProps) {
         onReplace={handleMagicReplace}
         onReplaceAndSend={handleMagicReplaceAndSend}
       />
+
+      {/* Schedule send — long-press on the send button */}
+      {groupId && (
+        <ScheduleSendModal
+          visible={showScheduleModal}
+          groupId={groupId}
+          text={inputText.trim()}
+          onClose={() => setShowScheduleModal(false)}
+          onScheduled={handleScheduled}
+        />
+      )}
+
+      {onCreatePoll && (
+        <CreatePollModal
+          visible={showPollModal}
+          onClose={() => setShowPollModal(false)}
+          onCreate={onCreatePoll}
+        />
+      )}
     </>
   );
 }
@@ -1099,6 +1322,47 @@ ChatInput.displayName = 'ChatInput';
 
 // ── Styles ───────────────────────────────────────────────────────────────────
 const styles = StyleSheet.create({
+  mentionPopover: {
+    marginHorizontal: 10,
+    marginTop: 6,
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    overflow: 'hidden',
+  },
+  mentionOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  mentionOptionText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  replyBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderLeftWidth: 3,
+    borderRadius: 8,
+    marginHorizontal: 10,
+    marginTop: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  replyBarTextWrap: {
+    flex: 1,
+  },
+  replyBarTitle: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  replyBarText: {
+    fontSize: 13,
+    marginTop: 1,
+  },
   wrapper: {
     paddingHorizontal: 12,
     paddingTop: 6,
@@ -26,6 +26,8 @@ import { useTheme } from '../../contexts/ThemeContext';
 interface ChatSearchModalProps {
   visible: boolean;
   groupId: string;
+  /** Prefills the query when the modal opens — e.g. "see more" from app-wide search. */
+  initialQuery?: string;
   onClose: () => void;
   /** Called when the user taps a search result — the parent should scroll to and
    *  highlight this message in the FlatList. */
@@ -34,7 +36,7 @@ interface ChatSearchModalProps {
 
 // ── Content-type icon helper ─────────────────────────────────────────────────
 
-const CONTENT_TYPE_META: Record<
+export const CONTENT_TYPE_META: Record<
   string,
   { icon: React.ComponentProps<typeof Ionicons>['name']; label: string }
 > = {
@@ -42,13 +44,14 @@ const CONTENT_TYPE_META: Record<
   AUDIO: { icon: 'mic-outline', label: 'Voice' },
   IMAGE: { icon: 'image-outline', label: 'Image' },
   DOCUMENT: { icon: 'document-outline', label: 'Document' },
+  POLL: { icon: 'stats-chart-outline', label: 'Poll' },
 };
 
 // ── Headline renderer ────────────────────────────────────────────────────────
 // The server wraps matching terms in << >> markers. We render them as
 // highlighted <Text> spans.
 
-function HighlightedText({
+export function HighlightedText({
   text,
   highlightColor,
   highlightTextColor,
@@ -88,7 +91,7 @@ function HighlightedText({
 
 // ── Relative time helper ─────────────────────────────────────────────────────
 
-function formatRelativeTime(dateStr: string): string {
+export function formatRelativeTime(dateStr: string): string {
   const date = new Date(dateStr);
   const now = new Date();
   const diffMs = now.getTime() - date.getTime();
@@ -113,6 +116,7 @@ function formatRelativeTime(dateStr: string): string {
 export default function ChatSearchModal({
   visible,
   groupId,
+  initialQuery,
   onClose,
   onGoToMessage,
 }: ChatSearchModalProps) {
@@ -133,6 +137,7 @@ export default function ChatSearchModal({
   // Auto-focus the input when modal opens
   useEffect(() => {
     if (visible) {
+      if (initialQuery) setQuery(initialQuery);
       setTimeout(() => inputRef.current?.focus(), 100);
     } else {
       // Reset state on close
@@ -142,7 +147,7 @@ export default function ChatSearchModal({
       setPage(1);
       setHasSearched(false);
     }
-  }, [visible]);
+  }, [visible, initialQuery]);
 
   // Debounced search
   useEffect(() => {
@@ -0,0 +1,375 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Modal,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker, {
+  DateTimePickerEvent,
+} from '@react-native-community/datetimepicker';
+
+import { useTheme } from '../../contexts/ThemeContext';
+import type { CreatePollInput } from '../../hooks/useChatMessages';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+interface CreatePollModalProps {
+  visible: boolean;
+  onClose: () => void;
+  /** Called with a validated poll — the modal closes itself afterwards. */
+  onCreate: (input: CreatePollInput) => void;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+// Mirrors the server's limits so the user finds out before sending.
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 10;
+const MAX_QUESTION_LENGTH = 300;
+const MAX_OPTION_LENGTH = 100;
+
+function defaultClosesAt(): Date {
+  const date = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  date.setSeconds(0, 0);
+  return date;
+}
+
+function formatClosesAt(date: Date): string {
+  return date.toLocaleString([], {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/** Why the poll can't be sent yet, or null when it's ready. */
+function validate(question: string, options: string[], closesAt: Date | null): string | null {
+  if (!question.trim()) return 'Add a question.';
+  const filled = options.map((o) => o.trim()).filter(Boolean);
+  if (filled.length < MIN_OPTIONS) return `Add at least ${MIN_OPTIONS} options.`;
+  if (new Set(filled.map((o) => o.toLowerCase())).size !== filled.length) {
+    return 'Options must be different from each other.';
+  }
+  if (closesAt && closesAt.getTime() <= Date.now()) return 'Pick a closing time in the future.';
+  return null;
+}
+
+// ── Component ────────────────────────────────────────────────────────────────
+
+export default function CreatePollModal({ visible, onClose, onCreate }: CreatePollModalProps) {
+  const { colors } = useTheme();
+  const [question, setQuestion] = useState('');
+  const [options, setOptions] = useState<string[]>(['', '']);
+  const [allowsMultiple, setAllowsMultiple] = useState(false);
+  const [isAnonymous, setIsAnonymous] = useState(false);
+  const [closesAt, setClosesAt] = useState<Date | null>(null);
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [showTimePicker, setShowTimePicker] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setQuestion('');
+    setOptions(['', '']);
+    setAllowsMultiple(false);
+    setIsAnonymous(false);
+    setClosesAt(null);
+    setShowDatePicker(false);
+    setShowTimePicker(false);
+  }, [visible]);
+
+  const error = validate(question, options, closesAt);
+
+  // ── Handlers ───────────────────────────────────────────────────────────
+  const handleOptionChange = useCallback((index: number, text: string) => {
+    setOptions((prev) => prev.map((o, i) => (i === index ? text : o)));
+  }, []);
+
+  const handleRemoveOption = useCallback((index: number) => {
+    setOptions((prev) => prev.filter((_, i) => i !== index));
+  }, []);
+
+  const handleAddOption = useCallback(() => {
+    setOptions((prev) => (prev.length < MAX_OPTIONS ? [...prev, ''] : prev));
+  }, []);
+
+  const handleToggleClosesAt = useCallback((enabled: boolean) => {
+    setClosesAt(enabled ? defaultClosesAt() : null);
+  }, []);
+
+  const handleDateChange = useCallback(
+    (_: DateTimePickerEvent, date?: Date) => {
+      setShowDatePicker(false);
+      if (!date || !closesAt) return;
+      const updated = new Date(closesAt);
+      updated.setFullYear(date.getFullYear(), date.getMonth(), date.getDate());
+      setClosesAt(updated);
+    },
+    [closesAt],
+  );
+
+  const handleTimeChange = useCallback(
+    (_: DateTimePickerEvent, date?: Date) => {
+      setShowTimePicker(false);
+      if (!date || !closesAt) return;
+      const updated = new Date(closesAt);
+      updated.setHours(date.getHours(), date.getMinutes(), 0, 0);
+      setClosesAt(updated);
+    },
+    [closesAt],
+  );
+
+  const handleCreate = useCallback(() => {
+    if (validate(question, options, closesAt)) return;
+    onCreate({
+      question: question.trim(),
+      options: options.map((o) => o.trim()).filter(Boolean),
+      allowsMultiple,
+      isAnonymous,
+      closesAt,
+    });
+    onClose();
+  }, [question, options, allowsMultiple, isAnonymous, closesAt, onCreate, onClose]);
+
+  // ── Render ─────────────────────────────────────────────────────────────
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={[styles.overlay, { backgroundColor: colors.overlayBg }]} onPress={onClose}>
+        {/* Inner Pressable swallows taps so the sheet doesn't close itself */}
+        <Pressable style={[styles.sheet, { backgroundColor: colors.sheetBg }]} onPress={() => {}}>
+          <Text style={[styles.title, { color: colors.text }]}>Create poll</Text>
+
+          <ScrollView style={styles.body} keyboardShouldPersistTaps="handled">
+            <TextInput
+              value={question}
+              onChangeText={setQuestion}
+              placeholder="Ask a question"
+              placeholderTextColor={colors.textSecondary}
+              maxLength={MAX_QUESTION_LENGTH}
+              multiline
+              style={[styles.input, styles.questionInput, { color: colors.text, borderColor: colors.border }]}
+            />
+
+            <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>OPTIONS</Text>
+            {options.map((option, index) => (
+              <View key={index} style={styles.optionRow}>
+                <TextInput
+                  value={option}
+                  onChangeText={(text) => handleOptionChange(index, text)}
+                  placeholder={`Option ${index + 1}`}
+                  placeholderTextColor={colors.textSecondary}
+                  maxLength={MAX_OPTION_LENGTH}
+                  style={[styles.input, styles.optionInput, { color: colors.text, borderColor: colors.border }]}
+                />
+                {options.length > MIN_OPTIONS && (
+                  <Pressable
+                    onPress={() => handleRemoveOption(index)}
+                    hitSlop={10}
+                    accessibilityLabel={`Remove option ${index + 1}`}
+                  >
+                    <Ionicons name="close-circle" size={20} color={colors.textSecondary} />
+                  </Pressable>
+                )}
+              </View>
+            ))}
+            {options.length < MAX_OPTIONS && (
+              <Pressable onPress={handleAddOption} style={styles.addOption}>
+                <Ionicons name="add" size={18} color={colors.primary} />
+                <Text style={[styles.addOptionText, { color: colors.primary }]}>Add option</Text>
+              </Pressable>
+            )}
+
+            <View style={styles.switchRow}>
+              <Text style={[styles.switchLabel, { color: colors.text }]}>Allow multiple answers</Text>
+              <Switch value={allowsMultiple} onValueChange={setAllowsMultiple} />
+            </View>
+            <View style={styles.switchRow}>
+              <Text style={[styles.switchLabel, { color: colors.text }]}>Anonymous voting</Text>
+              <Switch value={isAnonymous} onValueChange={setIsAnonymous} />
+            </View>
+            <View style={styles.switchRow}>
+              <Text style={[styles.switchLabel, { color: colors.text }]}>Close automatically</Text>
+              <Switch value={closesAt !== null} onValueChange={handleToggleClosesAt} />
+            </View>
+
+            {closesAt && (
+              <View style={styles.pillRow}>
+                <Pressable
+                  onPress={() => setShowDatePicker(true)}
+                  style={[styles.pill, { backgroundColor: colors.primaryFaded }]}
+                >
+                  <Ionicons name="calendar-outline" size={14} color={colors.primary} />
+                  <Text style={[styles.pillText, { color: colors.primary }]}>
+                    {closesAt.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}
+                  </Text>
+                </Pressable>
+                <Pressable
+                  onPress={() => setShowTimePicker(true)}
+                  style={[styles.pill, { backgroundColor: colors.primaryFaded }]}
+                >
+                  <Ionicons name="time-outline" size={14} color={colors.primary} />
+                  <Text style={[styles.pillText, { color: colors.primary }]}>
+                    {closesAt.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                  </Text>
+                </Pressable>
+              </View>
+            )}
+
+            {/* Native pickers (Android: shown as dialogs, iOS: inline) */}
+            {showDatePicker && closesAt && (
+              <DateTimePicker
+                value={closesAt}
+                mode="date"
+                display={Platform.OS === 'ios' ? 'inline' : 'default'}
+                onChange={handleDateChange}
+                minimumDate={new Date()}
+              />
+            )}
+            {showTimePicker && closesAt && (
+              <DateTimePicker
+                value={closesAt}
+                mode="time"
+                display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                onChange={handleTimeChange}
+              />
+            )}
+          </ScrollView>
+
+          {error !== null && (question.trim().length > 0 || options.some((o) => o.trim())) && (
+            <Text style={[styles.errorText, { color: colors.destructive }]}>{error}</Text>
+          )}
+
+          <Pressable
+            disabled={error !== null}
+            onPress={handleCreate}
+            style={[styles.createBtn, { backgroundColor: colors.primary }, error !== null && styles.createBtnDisabled]}
+          >
+            <Text style={styles.createBtnText}>
+              {closesAt ? `Send · closes ${formatClosesAt(closesAt)}` : 'Send poll'}
+            </Text>
+          </Pressable>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+// ── Styles ───────────────────────────────────────────────────────────────────
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sheet: {
+    borderRadius: 16,
+    paddingVertical: 12,
+    width: 320,
+    maxHeight: '85%',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '700',
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+  body: {
+    flexGrow: 0,
+    paddingHorizontal: 16,
+  },
+  input: {
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+  },
+  questionInput: {
+    minHeight: 44,
+  },
+  sectionLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 0.8,
+    marginTop: 14,
+    marginBottom: 6,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  optionInput: {
+    flex: 1,
+  },
+  addOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+  },
+  addOptionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  switchLabel: {
+    fontSize: 15,
+  },
+  pillRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 4,
+  },
+  pill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+  },
+  pillText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  errorText: {
+    fontSize: 12,
+    paddingHorizontal: 16,
+    marginTop: 8,
+  },
+  createBtn: {
+    marginHorizontal: 16,
+    marginTop: 12,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  createBtnDisabled: {
+    opacity: 0.6,
+  },
+  createBtnText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+});
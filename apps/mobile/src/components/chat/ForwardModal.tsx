@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { fetchGroups, type GroupItem } from '../../services/api';
+
+/** Mirrors the server cap on target conversations per forward. */
+export const MAX_FORWARD_TARGETS = 5;
+
+// ── Props ────────────────────────────────────────────────────────────────────
+interface ForwardModalProps {
+  visible: boolean;
+  messageCount: number;
+  onForward: (targetGroupIds: string[]) => void;
+  onClose: () => void;
+  colors: Record<string, string>;
+}
+
+function getConversationName(group: GroupItem): string {
+  return group.isGroup ? group.name ?? 'Group' : group.otherUser?.displayName ?? 'Chat';
+}
+
+// ── Component ────────────────────────────────────────────────────────────────
+function ForwardModal({ visible, messageCount, onForward, onClose, colors }: ForwardModalProps) {
+  const [groups, setGroups] = useState<GroupItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!visible) return;
+    let cancelled = false;
+    setSelectedIds([]);
+    setIsLoading(true);
+    fetchGroups()
+      .then((data) => {
+        if (!cancelled) setGroups(data);
+      })
+      .catch((err) => console.warn('[ForwardModal] Failed to load conversations:', err))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [visible]);
+
+  const toggleTarget = (groupId: string) => {
+    setSelectedIds((prev) => {
+      if (prev.includes(groupId)) return prev.filter((id) => id !== groupId);
+      if (prev.length >= MAX_FORWARD_TARGETS) return prev;
+      return [...prev, groupId];
+    });
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={[styles.modalOverlay, { backgroundColor: colors.overlayBg }]} onPress={onClose}>
+        {/* Inner Pressable swallows taps so the sheet doesn't close itself */}
+        <Pressable style={[styles.sheet, { backgroundColor: colors.langPickerBg }]} onPress={() => {}}>
+          <Text
+            style={[
+              styles.title,
+              { color: colors.langPickerTitleColor, borderBottomColor: colors.langPickerBorder },
+            ]}
+          >
+            Forward {messageCount === 1 ? 'message' : `${messageCount} messages`} to…
+          </Text>
+
+          {isLoading ? (
+            <ActivityIndicator style={styles.loading} color={colors.spinnerColor} />
+          ) : (
+            <FlatList
+              data={groups}
+              keyExtractor={(g) => g.id}
+              style={styles.list}
+              renderItem={({ item }) => {
+                const isSelected = selectedIds.includes(item.id);
+                return (
+                  <Pressable
+                    onPress={() => toggleTarget(item.id)}
+                    style={[styles.option, isSelected && { backgroundColor: colors.langOptionActiveBg }]}
+                  >
+                    <Ionicons
+                      name={item.isGroup ? 'people-outline' : 'person-outline'}
+                      size={18}
+                      color={colors.langOptionText}
+                    />
+                    <Text
+                      style={[styles.optionText, { color: colors.langOptionText }]}
+                      numberOfLines={1}
+                    >
+                      {getConversationName(item)}
+                    </Text>
+                    {isSelected && (
+                      <Ionicons name="checkmark" size={18} color={colors.langOptionActiveText} />
+                    )}
+                  </Pressable>
+                );
+              }}
+            />
+          )}
+
+          <Pressable
+            disabled={selectedIds.length === 0}
+            onPress={() => onForward(selectedIds)}
+            style={[
+              styles.sendBtn,
+              { backgroundColor: colors.primary },
+              selectedIds.length === 0 && styles.sendBtnDisabled,
+            ]}
+          >
+            <Text style={styles.sendBtnText}>
+              {selectedIds.length > 1 ? `Send to ${selectedIds.length} chats` : 'Send'}
+            </Text>
+          </Pressable>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+export default React.memo(ForwardModal);
+
+// ── Styles ───────────────────────────────────────────────────────────────────
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sheet: {
+    borderRadius: 16,
+    paddingVertical: 8,
+    width: 300,
+    maxHeight: '70%',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  title: {
+    fontSize: 13,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: 0.8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 10,
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 16,
+  },
+  sendBtn: {
+    marginHorizontal: 16,
+    marginTop: 8,
+    marginBottom: 6,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  sendBtnDisabled: {
+    opacity: 0.5,
+  },
+  sendBtnText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+});
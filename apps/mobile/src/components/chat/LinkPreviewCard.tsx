@@ -0,0 +1,106 @@
+import React, { memo, useCallback } from 'react';
+import { Linking, Pressable, StyleSheet, Text, View } from 'react-native';
+import { Image } from 'expo-image';
+import { useTheme } from '../../contexts/ThemeContext';
+import type { LinkPreviewData } from './MessageBubble';
+
+interface LinkPreviewCardProps {
+  preview: LinkPreviewData;
+  isOwn: boolean;
+}
+
+function hostOf(url: string): string {
+  const match = /^https?:\/\/([^/?#]+)/i.exec(url);
+  return (match?.[1] ?? url).replace(/^www\./i, '');
+}
+
+export default memo(function LinkPreviewCard({ preview, isOwn }: LinkPreviewCardProps) {
+  const { colors } = useTheme();
+
+  const handlePress = useCallback(() => {
+    Linking.openURL(preview.url).catch((err) =>
+      console.warn('[LinkPreviewCard] Failed to open link:', err),
+    );
+  }, [preview.url]);
+
+  return (
+    <Pressable
+      onPress={handlePress}
+      accessibilityRole="link"
+      accessibilityLabel={preview.title ?? preview.url}
+      style={({ pressed }) => [
+        styles.card,
+        {
+          backgroundColor: isOwn ? 'rgba(255,255,255,0.16)' : colors.primaryFaded,
+          borderLeftColor: isOwn ? 'rgba(255,255,255,0.7)' : colors.primary,
+        },
+        pressed && styles.cardPressed,
+      ]}
+    >
+      {preview.imageUrl && (
+        <Image
+          source={{ uri: preview.imageUrl }}
+          style={styles.image}
+          contentFit="cover"
+          cachePolicy="disk"
+          transition={150}
+        />
+      )}
+      <View style={styles.body}>
+        <Text
+          style={[styles.site, { color: isOwn ? 'rgba(255,255,255,0.7)' : colors.textSecondary }]}
+          numberOfLines={1}
+        >
+          {preview.siteName ?? hostOf(preview.url)}
+        </Text>
+        {preview.title && (
+          <Text style={[styles.title, { color: isOwn ? '#fff' : colors.text }]} numberOfLines={2}>
+            {preview.title}
+          </Text>
+        )}
+        {preview.description && (
+          <Text
+            style={[styles.description, { color: isOwn ? 'rgba(255,255,255,0.85)' : colors.textSecondary }]}
+            numberOfLines={3}
+          >
+            {preview.description}
+          </Text>
+        )}
+      </View>
+    </Pressable>
+  );
+});
+
+const styles = StyleSheet.create({
+  card: {
+    marginTop: 6,
+    borderLeftWidth: 3,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  cardPressed: {
+    opacity: 0.75,
+  },
+  image: {
+    width: '100%',
+    aspectRatio: 1.91,
+  },
+  body: {
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    gap: 2,
+  },
+  site: {
+    fontSize: 11,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  description: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+});
@@ -33,6 +33,8 @@ import { useTheme } from '../../contexts/ThemeContext';
 import { useChatList } from '../../contexts/ChatListContext';
 import { useChatAudioPlayer } from '../../contexts/ChatAudioPlayerContext';
 import DocumentBubbleContent from './DocumentBubbleContent';
+import PollBubbleContent from './PollBubbleContent';
+import LinkPreviewCard from './LinkPreviewCard';
 import ActionCard, { type ExtractedAction } from './ActionCard';
 import TranslationUnavailable from './TranslationUnavailable';
 
@@ -49,10 +51,59 @@ interface TranslatedAudioUrls {
   tanglish?: string;
 }
 
+/** Quote of the message a reply points at, as sent by the server. */
+export interface ReplyPreview {
+  id: string;
+  isDeleted: boolean;
+  senderId: string | null;
+  senderName: string | null;
+  contentType: 'TEXT' | 'AUDIO' | 'IMAGE' | 'DOCUMENT' | 'POLL' | null;
+  text: string | null;
+  fileName: string | null;
+  translations: Translations | null;
+}
+
+/** Aggregated reactions for one emoji, as sent by the server. */
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+}
+
+/** OpenGraph summary of the first link in a text message. */
+export interface LinkPreviewData {
+  url: string;
+  title: string | null;
+  description: string | null;
+  imageUrl: string | null;
+  siteName: string | null;
+}
+
+/** One poll option with its tally, as sent by the server. */
+export interface PollOptionData {
+  id: string;
+  text: string;
+  translations: Translations | null;
+  voteCount: number;
+  /** Empty for anonymous polls. */
+  voterIds: string[];
+}
+
+export interface PollData {
+  allowsMultiple: boolean;
+  isAnonymous: boolean;
+  closesAt: string | null;
+  isClosed: boolean;
+  totalVoters: number;
+  options: PollOptionData[];
+  /** The current user's own selection — known even for anonymous polls. */
+  myOptionIds: string[];
+}
+
 export interface ChatMessage {
   id: string;
   senderId: string;
-  contentType: 'TEXT' | 'AUDIO' | 'IMAGE' | 'DOCUMENT';
+  contentType: 'TEXT' | 'AUDIO' | 'IMAGE' | 'DOCUMENT' | 'POLL';
   rawContent: string;
   translations?: Translations | null;
   detectedLanguage?: 'english' | 'singlish' | 'tanglish' | 'mixed' | 'unknown' | null;
@@ -71,6 +122,17 @@ export interface ChatMessage {
    *  arrives from the server. */
   isTranslating?: boolean;
   isEdited?: boolean;
+  /** Copied in from another conversation */
+  isForwarded?: boolean;
+  replyToId?: string | null;
+  replyTo?: ReplyPreview | null;
+  reactions?: ReactionSummary[];
+  /** TEXT only — arrives after the message itself via `messageUpdated`. */
+  linkPreview?: LinkPreviewData | null;
+  /** POLL only — `rawContent` holds the question. */
+  poll?: PollData | null;
+  /** Saved by the current user — only they see the star. */
+  isStarred?: boolean;
   createdAt?: string;
 }
 
@@ -85,6 +147,20 @@ interface MessageBubbleProps {
   onLongPress?: (messageId: string) => void;
   /** Called when the user taps the message while in selection mode */
   onPress?: (messageId: string) => void;
+  /** Called when the user taps the quoted message above a reply */
+  onPressReply?: (messageId: string) => void;
+  /** Other members who have read this message (own messages only) */
+  readCount?: number;
+  /** DMs show delivered/read ticks; groups show "Seen by N" */
+  isDm?: boolean;
+  /** Called when the user taps a reaction chip — adds or removes their own */
+  onToggleReaction?: (messageId: string, emoji: string) => void;
+  /** Replaces the user's choices on a poll — an empty list retracts the vote */
+  onVotePoll?: (messageId: string, optionIds: string[]) => void;
+  /** Ends voting on a poll (shown to its creator only) */
+  onClosePoll?: (messageId: string) => void;
+  /** Opens the edit history — makes the "edited" label tappable */
+  onViewEdits?: (messageId: string) => void;
   /** Called when the user taps a document bubble to open the interrogation modal */
   onOpenDocumentInterrogation?: (
     messageId: string,
@@ -139,6 +215,127 @@ function formatSentTime(iso: string): string {
   return `${h % 12 || 12}:${String(m).padStart(2, '0')} ${ampm}`;
 }
 
+/** Picks the line shown inside a reply quote, in the reader's language. */
+export function getReplyQuoteText(
+  reply: ReplyPreview,
+  currentUserId: string,
+  preferredLanguage: 'english' | 'singlish' | 'tanglish',
+): string {
+  if (reply.isDeleted) return 'Message deleted';
+
+  const isOwnOriginal = reply.senderId === currentUserId;
+  const translated = isOwnOriginal ? null : reply.translations?.[preferredLanguage];
+  if (translated) return translated;
+  if (reply.text) return reply.text;
+
+  switch (reply.contentType) {
+    case 'AUDIO':
+      return 'Voice message';
+    case 'IMAGE':
+      return 'Photo';
+    case 'DOCUMENT':
+      return reply.fileName ?? 'Document';
+    default:
+      return 'Message';
+  }
+}
+
+// ── Reply quote ──────────────────────────────────────────────────────────────
+const ReplyQuote = memo(function ReplyQuote({
+  reply,
+  isOwn,
+  currentUserId,
+  preferredLanguage,
+  onPress,
+}: {
+  reply: ReplyPreview;
+  isOwn: boolean;
+  currentUserId: string;
+  preferredLanguage: 'english' | 'singlish' | 'tanglish';
+  onPress?: (messageId: string) => void;
+}) {
+  const { colors } = useTheme();
+  const textColor = isOwn ? colors.bubbleOwnText : colors.bubbleReceivedText;
+  const author = reply.isDeleted
+    ? null
+    : reply.senderId === currentUserId
+      ? 'You'
+      : reply.senderName;
+
+  return (
+    <Pressable
+      onPress={reply.isDeleted || !onPress ? undefined : () => onPress(reply.id)}
+      style={[
+        styles.replyQuote,
+        {
+          backgroundColor: isOwn ? 'rgba(255,255,255,0.16)' : colors.primaryFaded,
+          borderLeftColor: isOwn ? 'rgba(255,255,255,0.7)' : colors.primary,
+        },
+      ]}
+    >
+      {author !== null && (
+        <Text style={[styles.replyQuoteAuthor, { color: textColor }]} numberOfLines={1}>
+          {author}
+        </Text>
+      )}
+      <Text
+        style={[styles.replyQuoteText, { color: textColor }, reply.isDeleted && styles.replyQuoteDeleted]}
+        numberOfLines={2}
+      >
+        {getReplyQuoteText(reply, currentUserId, preferredLanguage)}
+      </Text>
+    </Pressable>
+  );
+});
+
+// ── Reaction strip ───────────────────────────────────────────────────────────
+const ReactionStrip = memo(function ReactionStrip({
+  messageId,
+  reactions,
+  isOwn,
+  currentUserId,
+  onToggle,
+}: {
+  messageId: string;
+  reactions: ReactionSummary[];
+  isOwn: boolean;
+  currentUserId: string;
+  onToggle?: (messageId: string, emoji: string) => void;
+}) {
+  const { colors } = useTheme();
+
+  return (
+    <View style={[styles.reactionStrip, isOwn ? styles.reactionStripOwn : styles.reactionStripOther]}>
+      {reactions.map((r) => {
+        const reactedByMe = r.userIds.includes(currentUserId);
+        return (
+          <Pressable
+            key={r.emoji}
+            onPress={onToggle ? () => onToggle(messageId, r.emoji) : undefined}
+            disabled={!onToggle}
+            hitSlop={4}
+            accessibilityLabel={`${r.emoji} ${r.count}${reactedByMe ? ', including you' : ''}`}
+            style={[
+              styles.reactionChip,
+              {
+                backgroundColor: reactedByMe ? colors.primaryFaded : colors.surface,
+                borderColor: reactedByMe ? colors.primary : colors.border,
+              },
+            ]}
+          >
+            <Text style={styles.reactionEmoji}>{r.emoji}</Text>
+            {r.count > 1 && (
+              <Text style={[styles.reactionCount, { color: reactedByMe ? colors.primary : colors.textSecondary }]}>
+                {r.count}
+              </Text>
+            )}
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+});
+
 // ── Shared animation driver for all AIMediatingIndicator instances ──────────
 // A single React context provides ONE set of animated values that every
 // indicator reads from on the UI thread. This means even 50 visible
@@ -864,6 +1061,10 @@ const TranslationSection = memo(function TranslationSection({
   // the mediating indicator and any translation card for these types.
   if (contentType === 'IMAGE' || contentType === 'DOCUMENT') return null;
 
+  // Polls render their translated question and options inline, so only the
+  // mediating indicator (with its retry button) is shown here.
+  if (contentType === 'POLL' && !showMediating) return null;
+
   if (showMediating) {
     return (
       <View style={styles.mediatingContainer}>
@@ -980,7 +1181,14 @@ function MessageBubble({
   onRetry,
   onLongPress,
   onPress,
+  onPressReply,
+  onToggleReaction,
+  onVotePoll,
+  onClosePoll,
+  onViewEdits,
   onOpenDocumentInterrogation,
+  readCount = 0,
+  isDm = false,
 }: MessageBubbleProps) {
   const { colors } = useTheme();
   const { width: screenWidth } = useWindowDimensions();
@@ -1132,6 +1340,9 @@ function MessageBubble({
                 {rawContent}
               </Text>
             )}
+            {message.linkPreview && (
+              <LinkPreviewCard preview={message.linkPreview} isOwn={isOwn} />
+            )}
             {sentTimeStr !== null && (
               <Text style={[styles.textSentTime, { color: sentTimeColor }]}>{sentTimeStr}</Text>
             )}
@@ -1235,10 +1446,54 @@ function MessageBubble({
           />
         );
 
+      case 'POLL':
+        return message.poll ? (
+          <PollBubbleContent
+            messageId={message.id}
+            question={rawContent}
+            questionTranslations={translations ?? null}
+            poll={message.poll}
+            isOwn={isOwn}
+            preferredLanguage={preferredLanguage}
+            isPending={Boolean(message.isOptimistic)}
+            onVote={selectionMode ? undefined : onVotePoll}
+            onClose={selectionMode ? undefined : onClosePoll}
+          />
+        ) : null;
+
       default:
         return null;
     }
-  }, [contentType, rawContent, isOwn, message.id, message.createdAt, message.detectedLanguage, message.fileName, confidenceScore, translations, message.isTranslating, message.isOptimistic, sendStatus, audioBubbleWidth, colors.bubbleOwnText, colors.bubbleReceivedText, colors.audioTimeOwn, colors.audioTimeReceived, colors.primaryFaded, onOpenDocumentInterrogation, onRetry, preferredLanguage, showTranslatedOnly]);
+  }, [contentType, rawContent, isOwn, message.id, message.createdAt, message.detectedLanguage, message.fileName, message.linkPreview, message.poll, confidenceScore, translations, message.isTranslating, message.isOptimistic, sendStatus, audioBubbleWidth, colors.bubbleOwnText, colors.bubbleReceivedText, colors.audioTimeOwn, colors.audioTimeReceived, colors.primaryFaded, onOpenDocumentInterrogation, onRetry, onVotePoll, onClosePoll, selectionMode, preferredLanguage, showTranslatedOnly]);
+
+  const replyQuote = message.replyTo ? (
+    <ReplyQuote
+      reply={message.replyTo}
+      isOwn={isOwn}
+      currentUserId={currentUserId}
+      preferredLanguage={preferredLanguage}
+      onPress={selectionMode ? undefined : onPressReply}
+    />
+  ) : null;
+
+  const forwardedLabel = message.isForwarded ? (
+    <View style={styles.forwardedRow}>
+      <Ionicons
+        name="arrow-redo"
+        size={12}
+        color={isOwn ? colors.bubbleOwnText : colors.bubbleReceivedText}
+        style={styles.forwardedIcon}
+      />
+      <Text
+        style={[
+          styles.forwardedText,
+          { color: isOwn ? colors.bubbleOwnText : colors.bubbleReceivedText },
+        ]}
+      >
+        Forwarded
+      </Text>
+    </View>
+  ) : null;
 
   // In normal mode nothing happens; in selection mode the tap selects/
   // deselects. Checking the shared value instead of a React boolean means
@@ -1299,6 +1554,8 @@ function MessageBubble({
                   borderRadiusStyle={styles.bubbleMaskOther}
                   rippleColor={colors.primaryLight}
                 />
+                {forwardedLabel}
+                {replyQuote}
                 {content}
               </Animated.View>
             ) : (
@@ -1312,17 +1569,42 @@ function MessageBubble({
                   isOwn ? styles.bubbleOwn : styles.bubbleOther,
                 ]}
               >
+                {forwardedLabel}
+                {replyQuote}
                 {content}
               </Animated.View>
             )}
 
-            {/* "edited" label — shown for all participants once a message is edited */}
+            {message.reactions && message.reactions.length > 0 && (
+              <ReactionStrip
+                messageId={message.id}
+                reactions={message.reactions}
+                isOwn={isOwn}
+                currentUserId={currentUserId}
+                onToggle={selectionMode ? undefined : onToggleReaction}
+              />
+            )}
+
+            {/* "edited" label — shown for all participants once a message is edited; tap for history */}
             {message.isEdited && (
-              <Text style={[styles.editedLabel, { color: colors.editedLabel }, isOwn && styles.editedLabelOwn]}>
+              <Text
+                style={[styles.editedLabel, { color: colors.editedLabel }, isOwn && styles.editedLabelOwn]}
+                onPress={onViewEdits && !selectionMode ? () => onViewEdits(message.id) : undefined}
+                suppressHighlighting
+                accessibilityRole={onViewEdits ? 'button' : undefined}
+                accessibilityHint={onViewEdits ? 'Shows earlier versions of this message' : undefined}
+              >
                 edited
               </Text>
             )}
 
+            {message.isStarred && (
+              <View style={[styles.sendStateRow, isOwn && styles.receiptRow]} accessibilityLabel="Starred">
+                <Ionicons name="star" size={11} color={colors.editedLabel} />
+                <Text style={[styles.sendStateText, { color: colors.editedLabel }]}>Starred</Text>
+              </View>
+            )}
+
             {showPendingSendStatus && (
               <View style={styles.sendStateRow}>
                 <Ionicons name="time-outline" size={12} color={colors.editedLabel} />
@@ -1330,6 +1612,26 @@ function MessageBubble({
               </View>
             )}
 
+            {isOwn && !isOptimistic && (isDm ? (
+              <View
+                style={[styles.sendStateRow, styles.receiptRow]}
+                accessibilityLabel={readCount > 0 ? 'Read' : 'Delivered'}
+              >
+                <Ionicons
+                  name={readCount > 0 ? 'checkmark-done' : 'checkmark'}
+                  size={14}
+                  color={readCount > 0 ? colors.primary : colors.editedLabel}
+                />
+              </View>
+            ) : readCount > 0 ? (
+              <View style={[styles.sendStateRow, styles.receiptRow]}>
+                <Ionicons name="eye-outline" size={12} color={colors.editedLabel} />
+                <Text style={[styles.sendStateText, { color: colors.editedLabel }]}>
+                  Seen by {readCount}
+                </Text>
+              </View>
+            ) : null)}
+
             {showFailedSendStatus && (
               <Pressable
                 onPress={onRetry ? () => onRetry(message.id) : undefined}
@@ -1396,6 +1698,7 @@ function arePropsEqual(prev: MessageBubbleProps, next: MessageBubbleProps): bool
     pm.isRetrying === nm.isRetrying &&
     pm.isTranslating === nm.isTranslating &&
     pm.isEdited === nm.isEdited &&
+    pm.isForwarded === nm.isForwarded &&
     pm.confidenceScore === nm.confidenceScore &&
     pm.translations === nm.translations &&
     pm.translatedAudioUrls === nm.translatedAudioUrls &&
@@ -1403,11 +1706,23 @@ function arePropsEqual(prev: MessageBubbleProps, next: MessageBubbleProps): bool
     pm.detectedLanguage === nm.detectedLanguage &&
     pm.originalTone === nm.originalTone &&
     pm.extractedActions === nm.extractedActions &&
+    pm.replyTo === nm.replyTo &&
+    pm.reactions === nm.reactions &&
+    pm.linkPreview === nm.linkPreview &&
+    pm.poll === nm.poll &&
+    pm.isStarred === nm.isStarred &&
     prev.enterDelayMs === next.enterDelayMs &&
     prev.currentUserId === next.currentUserId &&
     prev.onRetry === next.onRetry &&
     prev.onLongPress === next.onLongPress &&
     prev.onPress === next.onPress &&
+    prev.onPressReply === next.onPressReply &&
+    prev.onToggleReaction === next.onToggleReaction &&
+    prev.onVotePoll === next.onVotePoll &&
+    prev.onClosePoll === next.onClosePoll &&
+    prev.onViewEdits === next.onViewEdits &&
+    prev.readCount === next.readCount &&
+    prev.isDm === next.isDm &&
     prev.onOpenDocumentInterrogation === next.onOpenDocumentInterrogation
   );
 }
@@ -1511,6 +1826,73 @@ const styles = StyleSheet.create({
     borderWidth: 1,
   },
 
+  // Reply quote
+  replyQuote: {
+    borderLeftWidth: 3,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 5,
+    marginBottom: 6,
+    minWidth: 120,
+  },
+  replyQuoteAuthor: {
+    fontSize: 12,
+    fontWeight: '700',
+    marginBottom: 1,
+  },
+  replyQuoteText: {
+    fontSize: 13,
+    lineHeight: 17,
+    opacity: 0.85,
+  },
+  reactionStrip: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+    marginTop: -4,
+    marginBottom: 2,
+    paddingHorizontal: 6,
+  },
+  reactionStripOwn: {
+    justifyContent: 'flex-end',
+  },
+  reactionStripOther: {
+    justifyContent: 'flex-start',
+  },
+  reactionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    paddingHorizontal: 7,
+    paddingVertical: 2,
+  },
+  reactionEmoji: {
+    fontSize: 14,
+  },
+  reactionCount: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  replyQuoteDeleted: {
+    fontStyle: 'italic',
+  },
+  forwardedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginBottom: 4,
+  },
+  forwardedIcon: {
+    opacity: 0.7,
+  },
+  forwardedText: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    opacity: 0.7,
+  },
+
   // Text
   messageText: {
     fontSize: 15,
@@ -1550,6 +1932,9 @@ const styles = StyleSheet.create({
     fontSize: 11,
     fontWeight: '500',
   },
+  receiptRow: {
+    alignSelf: 'flex-end',
+  },
   sendFailedRow: {
     alignSelf: 'flex-end',
     borderRadius: 10,
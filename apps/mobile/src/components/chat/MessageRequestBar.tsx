@@ -0,0 +1,99 @@
+import React from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTheme } from '../../contexts/ThemeContext';
+
+interface MessageRequestBarProps {
+  /** Who sent the request */
+  senderName: string;
+  /** True while an accept/decline/block call is in flight */
+  isBusy: boolean;
+  onAccept: () => void;
+  onDecline: () => void;
+  onBlock: () => void;
+}
+
+/** Takes the place of the input bar until the recipient answers a DM request. */
+export default function MessageRequestBar({
+  senderName,
+  isBusy,
+  onAccept,
+  onDecline,
+  onBlock,
+}: MessageRequestBarProps) {
+  const insets = useSafeAreaInsets();
+  const { colors } = useTheme();
+
+  return (
+    <View
+      style={[
+        styles.wrapper,
+        { paddingBottom: insets.bottom + 10, backgroundColor: colors.inputWrapperBg, borderTopColor: colors.border },
+      ]}
+    >
+      <Text style={[styles.title, { color: colors.text }]}>
+        {senderName} wants to message you
+      </Text>
+      <Text style={[styles.hint, { color: colors.textSecondary }]}>
+        {"You don't share any chats yet. Accept to move this into your chat list and reply."}
+      </Text>
+
+      {isBusy ? (
+        <ActivityIndicator style={styles.busy} color={colors.spinnerColor} />
+      ) : (
+        <View style={styles.actions}>
+          <Pressable onPress={onBlock} style={[styles.btn, { borderColor: colors.border }]} hitSlop={4}>
+            <Text style={[styles.btnText, { color: colors.destructive }]}>Block</Text>
+          </Pressable>
+          <Pressable onPress={onDecline} style={[styles.btn, { borderColor: colors.border }]} hitSlop={4}>
+            <Text style={[styles.btnText, { color: colors.text }]}>Decline</Text>
+          </Pressable>
+          <Pressable
+            onPress={onAccept}
+            style={[styles.btn, { backgroundColor: colors.primary, borderColor: colors.primary }]}
+            hitSlop={4}
+          >
+            <Text style={[styles.btnText, { color: '#fff' }]}>Accept</Text>
+          </Pressable>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrapper: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    gap: 4,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  hint: {
+    fontSize: 13,
+    textAlign: 'center',
+  },
+  busy: {
+    marginVertical: 14,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 10,
+  },
+  btn: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  btnText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { isAxiosError } from 'axios';
+
+import { fetchMessageRevisions, type MessageRevision } from '../../services/api';
+import type { PreferredLanguage } from './LanguagePickerModal';
+
+// ── Props ────────────────────────────────────────────────────────────────────
+interface MessageRevisionsSheetProps {
+  /** The edited message to show history for; null hides the sheet. */
+  messageId: string | null;
+  /** Own messages show what was typed; others show the viewer's translation first. */
+  isOwn: boolean;
+  preferredLanguage: PreferredLanguage;
+  onClose: () => void;
+  colors: Record<string, string>;
+}
+
+function formatEditedAt(iso: string): string {
+  const date = new Date(iso);
+  const time = date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  if (date.toDateString() === new Date().toDateString()) return `Today, ${time}`;
+  return `${date.toLocaleDateString([], { day: 'numeric', month: 'short' })}, ${time}`;
+}
+
+function describeError(err: unknown): string {
+  if (isAxiosError(err)) {
+    if (!err.response) return 'Could not reach the server. Please check your connection.';
+    if (err.response.status === 403) return 'Edit history is hidden in this conversation.';
+  }
+  return 'Could not load the edit history. Please try again.';
+}
+
+// ── Component ────────────────────────────────────────────────────────────────
+function MessageRevisionsSheet({
+  messageId,
+  isOwn,
+  preferredLanguage,
+  onClose,
+  colors,
+}: MessageRevisionsSheetProps) {
+  const [revisions, setRevisions] = useState<MessageRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!messageId) return;
+    let cancelled = false;
+    setRevisions([]);
+    setError(null);
+    setIsLoading(true);
+    fetchMessageRevisions(messageId)
+      .then((data) => {
+        if (!cancelled) setRevisions(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(describeError(err));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [messageId]);
+
+  return (
+    <Modal visible={messageId !== null} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={[styles.modalOverlay, { backgroundColor: colors.overlayBg }]} onPress={onClose}>
+        {/* Inner Pressable swallows taps so the sheet doesn't close itself */}
+        <Pressable style={[styles.sheet, { backgroundColor: colors.langPickerBg }]} onPress={() => {}}>
+          <Text
+            style={[
+              styles.title,
+              { color: colors.langPickerTitleColor, borderBottomColor: colors.langPickerBorder },
+            ]}
+          >
+            Edit history
+          </Text>
+
+          {isLoading ? (
+            <ActivityIndicator style={styles.status} color={colors.spinnerColor} />
+          ) : error ? (
+            <Text style={[styles.status, styles.statusText, { color: colors.textSecondary }]}>
+              {error}
+            </Text>
+          ) : revisions.length === 0 ? (
+            <Text style={[styles.status, styles.statusText, { color: colors.textSecondary }]}>
+              No earlier versions.
+            </Text>
+          ) : (
+            <FlatList
+              data={revisions}
+              keyExtractor={(r) => r.id}
+              style={styles.list}
+              renderItem={({ item }) => {
+                const translated = isOwn ? null : item.translations?.[preferredLanguage];
+                const showOriginal = !!translated && translated !== item.rawContent;
+                return (
+                  <View style={[styles.revision, { borderBottomColor: colors.langPickerBorder }]}>
+                    <Text style={[styles.revisionText, { color: colors.langOptionText }]}>
+                      {translated || item.rawContent}
+                    </Text>
+                    {showOriginal && (
+                      <Text style={[styles.originalText, { color: colors.textSecondary }]}>
+                        {item.rawContent}
+                      </Text>
+                    )}
+                    <Text style={[styles.editedAt, { color: colors.editedLabel }]}>
+                      Replaced {formatEditedAt(item.editedAt)}
+                    </Text>
+                  </View>
+                );
+              }}
+            />
+          )}
+
+          <Pressable onPress={onClose} style={[styles.closeBtn, { backgroundColor: colors.primary }]}>
+            <Text style={styles.closeBtnText}>Done</Text>
+          </Pressable>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+export default React.memo(MessageRevisionsSheet);
+
+// ── Styles ───────────────────────────────────────────────────────────────────
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sheet: {
+    borderRadius: 16,
+    paddingVertical: 8,
+    width: 320,
+    maxHeight: '70%',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  title: {
+    fontSize: 13,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: 0.8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  status: {
+    marginVertical: 24,
+  },
+  statusText: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingHorizontal: 16,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  revision: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 4,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  revisionText: {
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  originalText: {
+    fontSize: 13,
+    fontStyle: 'italic',
+  },
+  editedAt: {
+    fontSize: 11,
+  },
+  closeBtn: {
+    marginHorizontal: 16,
+    marginTop: 8,
+    marginBottom: 6,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  closeBtnText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { getReplyQuoteText } from './MessageBubble';
+import type { PreferredLanguage } from './LanguagePickerModal';
+import type { PinnedMessageItem } from '../../services/api';
+
+// ── Props ────────────────────────────────────────────────────────────────────
+interface PinnedBannerProps {
+  /** Newest first */
+  pins: PinnedMessageItem[];
+  currentUserId: string;
+  preferredLanguage: PreferredLanguage;
+  onPressPin: (pin: PinnedMessageItem) => void;
+  colors: Record<string, string>;
+}
+
+// ── Component ────────────────────────────────────────────────────────────────
+function PinnedBanner({
+  pins,
+  currentUserId,
+  preferredLanguage,
+  onPressPin,
+  colors,
+}: PinnedBannerProps) {
+  const [index, setIndex] = useState(0);
+
+  // Keep the cursor valid as pins come and go.
+  useEffect(() => {
+    setIndex((prev) => (prev < pins.length ? prev : 0));
+  }, [pins.length]);
+
+  if (pins.length === 0) return null;
+  const pin = pins[Math.min(index, pins.length - 1)];
+
+  // Each tap jumps to the shown pin, then moves on to the next-older one.
+  const handlePress = () => {
+    onPressPin(pin);
+    setIndex((prev) => (prev + 1) % pins.length);
+  };
+
+  return (
+    <Pressable
+      onPress={handlePress}
+      accessibilityLabel="Go to pinned message"
+      style={[styles.banner, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}
+    >
+      <View style={[styles.accent, { backgroundColor: colors.primary }]} />
+      <Ionicons name="pin" size={16} color={colors.primary} />
+      <View style={styles.body}>
+        <Text style={[styles.label, { color: colors.primary }]}>
+          {pins.length > 1 ? `Pinned message ${index + 1} of ${pins.length}` : 'Pinned message'}
+        </Text>
+        <Text style={[styles.text, { color: colors.text }]} numberOfLines={1}>
+          {getReplyQuoteText(pin.message, currentUserId, preferredLanguage)}
+        </Text>
+      </View>
+    </Pressable>
+  );
+}
+
+export default React.memo(PinnedBanner);
+
+// ── Styles ───────────────────────────────────────────────────────────────────
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 8,
+    paddingRight: 14,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  accent: {
+    width: 3,
+    alignSelf: 'stretch',
+  },
+  body: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  text: {
+    fontSize: 14,
+  },
+});
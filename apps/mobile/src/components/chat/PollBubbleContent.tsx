@@ -0,0 +1,221 @@
+import React, { memo, useCallback } from 'react';
+import { Alert, Pressable, StyleSheet, Text, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../../contexts/ThemeContext';
+import type { PollData, PollOptionData } from './MessageBubble';
+
+interface PollBubbleContentProps {
+  messageId: string;
+  question: string;
+  questionTranslations: { english: string; singlish: string; tanglish: string } | null;
+  poll: PollData;
+  isOwn: boolean;
+  preferredLanguage: 'english' | 'singlish' | 'tanglish';
+  /** Optimistic poll the server hasn't confirmed yet — voting is disabled. */
+  isPending?: boolean;
+  onVote?: (messageId: string, optionIds: string[]) => void;
+  onClose?: (messageId: string) => void;
+}
+
+function formatClosesAt(iso: string): string {
+  return new Date(iso).toLocaleString([], {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/** The sender reads their own wording; everyone else reads the translation. */
+function optionLabel(
+  option: PollOptionData,
+  isOwn: boolean,
+  preferredLanguage: 'english' | 'singlish' | 'tanglish',
+): string {
+  return (!isOwn && option.translations?.[preferredLanguage]) || option.text;
+}
+
+export default memo(function PollBubbleContent({
+  messageId,
+  question,
+  questionTranslations,
+  poll,
+  isOwn,
+  preferredLanguage,
+  isPending = false,
+  onVote,
+  onClose,
+}: PollBubbleContentProps) {
+  const { colors } = useTheme();
+
+  const textColor = isOwn ? '#fff' : colors.text;
+  const mutedColor = isOwn ? 'rgba(255,255,255,0.7)' : colors.textSecondary;
+  const accentColor = isOwn ? '#fff' : colors.primary;
+  const trackColor = isOwn ? 'rgba(255,255,255,0.2)' : colors.primaryFaded;
+
+  // No event fires when `closesAt` passes, so the bubble checks the clock too.
+  const isClosed =
+    poll.isClosed || (poll.closesAt != null && new Date(poll.closesAt).getTime() <= Date.now());
+  const canVote = !isClosed && !isPending && onVote != null;
+
+  const displayQuestion = (!isOwn && questionTranslations?.[preferredLanguage]) || question;
+
+  const handlePressOption = useCallback(
+    (optionId: string) => {
+      if (!canVote) return;
+      const selected = poll.myOptionIds.includes(optionId);
+      let next: string[];
+      if (poll.allowsMultiple) {
+        next = selected
+          ? poll.myOptionIds.filter((id) => id !== optionId)
+          : [...poll.myOptionIds, optionId];
+      } else {
+        next = selected ? [] : [optionId];
+      }
+      onVote?.(messageId, next);
+    },
+    [canVote, poll.allowsMultiple, poll.myOptionIds, messageId, onVote],
+  );
+
+  const handleClose = useCallback(() => {
+    Alert.alert('Close poll?', 'Nobody will be able to vote after this.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Close poll', style: 'destructive', onPress: () => onClose?.(messageId) },
+    ]);
+  }, [messageId, onClose]);
+
+  const maxVotes = Math.max(1, ...poll.options.map((o) => o.voteCount));
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Ionicons name="stats-chart" size={14} color={accentColor} />
+        <Text style={[styles.headerText, { color: mutedColor }]}>
+          {poll.allowsMultiple ? 'Poll · choose any' : 'Poll · choose one'}
+          {poll.isAnonymous ? ' · anonymous' : ''}
+        </Text>
+      </View>
+
+      <Text style={[styles.question, { color: textColor }]}>{displayQuestion}</Text>
+
+      {poll.options.map((option) => {
+        const isMine = poll.myOptionIds.includes(option.id);
+        return (
+          <Pressable
+            key={option.id}
+            disabled={!canVote}
+            onPress={() => handlePressOption(option.id)}
+            accessibilityRole={poll.allowsMultiple ? 'checkbox' : 'radio'}
+            accessibilityState={{ checked: isMine, disabled: !canVote }}
+            style={({ pressed }) => [styles.option, pressed && styles.optionPressed]}
+          >
+            <View style={styles.optionRow}>
+              <Ionicons
+                name={
+                  poll.allowsMultiple
+                    ? isMine ? 'checkbox' : 'square-outline'
+                    : isMine ? 'radio-button-on' : 'radio-button-off'
+                }
+                size={18}
+                color={isMine ? accentColor : mutedColor}
+              />
+              <Text style={[styles.optionText, { color: textColor }]}>
+                {optionLabel(option, isOwn, preferredLanguage)}
+              </Text>
+              <Text style={[styles.optionCount, { color: mutedColor }]}>{option.voteCount}</Text>
+            </View>
+            <View style={[styles.barTrack, { backgroundColor: trackColor }]}>
+              <View
+                style={[
+                  styles.barFill,
+                  { backgroundColor: accentColor, width: `${(option.voteCount / maxVotes) * 100}%` },
+                ]}
+              />
+            </View>
+          </Pressable>
+        );
+      })}
+
+      <View style={styles.footer}>
+        <Text style={[styles.footerText, { color: mutedColor }]}>
+          {poll.totalVoters === 1 ? '1 vote' : `${poll.totalVoters} votes`}
+          {isClosed
+            ? ' · Closed'
+            : poll.closesAt
+              ? ` · Closes ${formatClosesAt(poll.closesAt)}`
+              : ''}
+        </Text>
+        {isOwn && !isClosed && !isPending && onClose && (
+          <Pressable onPress={handleClose} hitSlop={8} accessibilityLabel="Close poll">
+            <Text style={[styles.closeText, { color: accentColor }]}>Close poll</Text>
+          </Pressable>
+        )}
+      </View>
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    minWidth: 220,
+    gap: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  headerText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  question: {
+    fontSize: 16,
+    fontWeight: '700',
+    lineHeight: 22,
+  },
+  option: {
+    gap: 4,
+    paddingVertical: 2,
+  },
+  optionPressed: {
+    opacity: 0.7,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 15,
+  },
+  optionCount: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  barTrack: {
+    height: 4,
+    borderRadius: 2,
+    marginLeft: 26,
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: '100%',
+    borderRadius: 2,
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  footerText: {
+    fontSize: 12,
+  },
+  closeText: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+});
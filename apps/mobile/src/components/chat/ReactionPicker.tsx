@@ -0,0 +1,96 @@
+import React from 'react';
+import {
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+
+// ── Quick reactions offered in the picker ────────────────────────────────────
+export const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'] as const;
+
+// ── Props ────────────────────────────────────────────────────────────────────
+interface ReactionPickerProps {
+  visible: boolean;
+  /** Emojis the current user has already used on the target message */
+  selectedEmojis: string[];
+  onSelect: (emoji: string) => void;
+  onClose: () => void;
+  colors: Record<string, string>;
+}
+
+// ── Component ────────────────────────────────────────────────────────────────
+function ReactionPicker({
+  visible,
+  selectedEmojis,
+  onSelect,
+  onClose,
+  colors,
+}: ReactionPickerProps) {
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <Pressable
+        style={[styles.modalOverlay, { backgroundColor: colors.overlayBg }]}
+        onPress={onClose}
+      >
+        <View style={[styles.picker, { backgroundColor: colors.langPickerBg }]}>
+          {QUICK_REACTIONS.map((emoji) => {
+            const isSelected = selectedEmojis.includes(emoji);
+            return (
+              <Pressable
+                key={emoji}
+                onPress={() => onSelect(emoji)}
+                accessibilityLabel={isSelected ? `Remove ${emoji} reaction` : `React with ${emoji}`}
+                style={[
+                  styles.option,
+                  isSelected && { backgroundColor: colors.langOptionActiveBg },
+                ]}
+              >
+                <Text style={styles.optionEmoji}>{emoji}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      </Pressable>
+    </Modal>
+  );
+}
+
+export default React.memo(ReactionPicker);
+
+// ── Styles ───────────────────────────────────────────────────────────────────
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  picker: {
+    flexDirection: 'row',
+    borderRadius: 28,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    gap: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  option: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  optionEmoji: {
+    fontSize: 26,
+  },
+});
@@ -0,0 +1,40 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTheme } from '../../contexts/ThemeContext';
+
+/** Takes the place of the input bar in groups where only admins can post. */
+export default function ReadOnlyBar() {
+  const insets = useSafeAreaInsets();
+  const { colors } = useTheme();
+
+  return (
+    <View
+      style={[
+        styles.wrapper,
+        { paddingBottom: insets.bottom + 12, backgroundColor: colors.inputWrapperBg, borderTopColor: colors.border },
+      ]}
+    >
+      <Ionicons name="megaphone-outline" size={16} color={colors.textSecondary} />
+      <Text style={[styles.text, { color: colors.textSecondary }]}>
+        Only admins can send messages
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrapper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  text: {
+    fontSize: 14,
+  },
+});
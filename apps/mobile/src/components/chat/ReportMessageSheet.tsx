@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import type { ReportReason } from '../../services/api';
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  SPAM: 'Spam or scam',
+  HARASSMENT: 'Harassment or bullying',
+  HATE_SPEECH: 'Hate speech',
+  VIOLENCE: 'Violence or threats',
+  NUDITY: 'Nudity or sexual content',
+  OTHER: 'Something else',
+};
+
+const REASONS = Object.keys(REPORT_REASON_LABELS) as ReportReason[];
+
+// ── Props ────────────────────────────────────────────────────────────────────
+interface ReportMessageSheetProps {
+  /** The message being reported; null hides the sheet. */
+  messageId: string | null;
+  isSubmitting: boolean;
+  onSubmit: (reason: ReportReason, details: string) => void;
+  onClose: () => void;
+  colors: Record<string, string>;
+}
+
+// ── Component ────────────────────────────────────────────────────────────────
+function ReportMessageSheet({
+  messageId,
+  isSubmitting,
+  onSubmit,
+  onClose,
+  colors,
+}: ReportMessageSheetProps) {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+
+  useEffect(() => {
+    setReason(null);
+    setDetails('');
+  }, [messageId]);
+
+  return (
+    <Modal visible={messageId !== null} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={[styles.modalOverlay, { backgroundColor: colors.overlayBg }]} onPress={onClose}>
+        {/* Inner Pressable swallows taps so the sheet doesn't close itself */}
+        <Pressable style={[styles.sheet, { backgroundColor: colors.langPickerBg }]} onPress={() => {}}>
+          <Text
+            style={[
+              styles.title,
+              { color: colors.langPickerTitleColor, borderBottomColor: colors.langPickerBorder },
+            ]}
+          >
+            Report message
+          </Text>
+          <Text style={[styles.hint, { color: colors.textSecondary }]}>
+            Moderators will see this message and your reason. The sender
+            {" isn't told who reported it."}
+          </Text>
+
+          {REASONS.map((r) => {
+            const isSelected = reason === r;
+            return (
+              <Pressable
+                key={r}
+                onPress={() => setReason(r)}
+                style={[styles.option, { borderBottomColor: colors.langPickerBorder }]}
+                accessibilityRole="radio"
+                accessibilityState={{ selected: isSelected }}
+              >
+                <Text style={[styles.optionText, { color: colors.langOptionText }]}>
+                  {REPORT_REASON_LABELS[r]}
+                </Text>
+                <Ionicons
+                  name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+                  size={20}
+                  color={isSelected ? colors.primary : colors.textTertiary}
+                />
+              </Pressable>
+            );
+          })}
+
+          <TextInput
+            value={details}
+            onChangeText={setDetails}
+            placeholder="Add details (optional)"
+            placeholderTextColor={colors.textTertiary}
+            maxLength={500}
+            multiline
+            style={[
+              styles.details,
+              { color: colors.langOptionText, borderColor: colors.langPickerBorder },
+            ]}
+          />
+
+          <Pressable
+            onPress={() => reason && onSubmit(reason, details)}
+            disabled={!reason || isSubmitting}
+            style={[
+              styles.submitBtn,
+              { backgroundColor: colors.destructive, opacity: !reason || isSubmitting ? 0.5 : 1 },
+            ]}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.submitBtnText}>Report</Text>
+            )}
+          </Pressable>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+export default React.memo(ReportMessageSheet);
+
+// ── Styles ───────────────────────────────────────────────────────────────────
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sheet: {
+    borderRadius: 16,
+    paddingVertical: 8,
+    width: 320,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  title: {
+    fontSize: 13,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: 0.8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  hint: {
+    fontSize: 13,
+    lineHeight: 18,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  optionText: {
+    fontSize: 15,
+  },
+  details: {
+    marginHorizontal: 16,
+    marginTop: 12,
+    minHeight: 60,
+    maxHeight: 120,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    textAlignVertical: 'top',
+  },
+  submitBtn: {
+    marginHorizontal: 16,
+    marginTop: 12,
+    marginBottom: 6,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  submitBtnText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,365 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker, {
+  DateTimePickerEvent,
+} from '@react-native-community/datetimepicker';
+
+import { useTheme } from '../../contexts/ThemeContext';
+import {
+  cancelScheduledMessage,
+  fetchScheduledMessages,
+  scheduleMessage,
+  type ScheduledMessageItem,
+} from '../../services/api';
+import { getApiErrorMessage } from '../../utils/auth';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+interface ScheduleSendModalProps {
+  visible: boolean;
+  groupId: string;
+  /** The composed text that will be scheduled. */
+  text: string;
+  onClose: () => void;
+  /** Called once the server accepted the message — the input can be cleared. */
+  onScheduled: () => void;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/** The next occurrence of `hour`:00 local time, at least a minute away. */
+function nextAt(hour: number): Date {
+  const date = new Date();
+  date.setHours(hour, 0, 0, 0);
+  if (date.getTime() - Date.now() < 60 * 1000) date.setDate(date.getDate() + 1);
+  return date;
+}
+
+function formatSendAt(date: Date): string {
+  return date.toLocaleString([], {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+const PRESETS: { label: string; hour: number }[] = [
+  { label: 'Morning, 7:00 AM', hour: 7 },
+  { label: 'Afternoon, 1:00 PM', hour: 13 },
+  { label: 'Evening, 6:00 PM', hour: 18 },
+];
+
+// ── Component ────────────────────────────────────────────────────────────────
+
+export default function ScheduleSendModal({
+  visible,
+  groupId,
+  text,
+  onClose,
+  onScheduled,
+}: ScheduleSendModalProps) {
+  const { colors } = useTheme();
+  const [sendAt, setSendAt] = useState<Date>(() => nextAt(7));
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [showTimePicker, setShowTimePicker] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [pending, setPending] = useState<ScheduledMessageItem[]>([]);
+
+  useEffect(() => {
+    if (!visible) return;
+    let cancelled = false;
+    setSendAt(nextAt(7));
+    setShowDatePicker(false);
+    setShowTimePicker(false);
+    fetchScheduledMessages(groupId)
+      .then((data) => {
+        if (!cancelled) setPending(data);
+      })
+      .catch((err) => console.warn('[ScheduleSendModal] Failed to load scheduled messages:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, groupId]);
+
+  // ── Handlers ───────────────────────────────────────────────────────────
+  const handleDateChange = useCallback(
+    (_: DateTimePickerEvent, date?: Date) => {
+      setShowDatePicker(false);
+      if (!date) return;
+      const updated = new Date(sendAt);
+      updated.setFullYear(date.getFullYear(), date.getMonth(), date.getDate());
+      setSendAt(updated);
+    },
+    [sendAt],
+  );
+
+  const handleTimeChange = useCallback(
+    (_: DateTimePickerEvent, date?: Date) => {
+      setShowTimePicker(false);
+      if (!date) return;
+      const updated = new Date(sendAt);
+      updated.setHours(date.getHours(), date.getMinutes(), 0, 0);
+      setSendAt(updated);
+    },
+    [sendAt],
+  );
+
+  const handleSchedule = useCallback(async () => {
+    setIsSubmitting(true);
+    try {
+      await scheduleMessage(groupId, text, sendAt);
+      onScheduled();
+    } catch (err) {
+      Alert.alert('Schedule failed', getApiErrorMessage(err, 'Could not schedule this message.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [groupId, text, sendAt, onScheduled]);
+
+  const handleCancelPending = useCallback((item: ScheduledMessageItem) => {
+    Alert.alert('Cancel scheduled message?', item.rawContent, [
+      { text: 'Keep', style: 'cancel' },
+      {
+        text: 'Cancel message',
+        style: 'destructive',
+        onPress: () => {
+          cancelScheduledMessage(item.id)
+            .then(() => setPending((prev) => prev.filter((p) => p.id !== item.id)))
+            .catch((err) =>
+              Alert.alert('Cancel failed', getApiErrorMessage(err, 'Could not cancel this message.')),
+            );
+        },
+      },
+    ]);
+  }, []);
+
+  // ── Render ─────────────────────────────────────────────────────────────
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={[styles.overlay, { backgroundColor: colors.overlayBg }]} onPress={onClose}>
+        {/* Inner Pressable swallows taps so the sheet doesn't close itself */}
+        <Pressable style={[styles.sheet, { backgroundColor: colors.sheetBg }]} onPress={() => {}}>
+          <Text style={[styles.title, { color: colors.text }]}>Schedule send</Text>
+          <Text style={[styles.preview, { color: colors.textSecondary }]} numberOfLines={2}>
+            {text}
+          </Text>
+
+          {/* Presets — the next occurrence of each time */}
+          {PRESETS.map((preset) => {
+            const date = nextAt(preset.hour);
+            const isSelected = date.getTime() === sendAt.getTime();
+            return (
+              <Pressable
+                key={preset.hour}
+                onPress={() => setSendAt(date)}
+                style={[styles.option, isSelected && { backgroundColor: colors.primaryFaded }]}
+              >
+                <Text style={[styles.optionText, { color: colors.text }]}>{preset.label}</Text>
+                <Text style={[styles.optionHint, { color: colors.textSecondary }]}>
+                  {formatSendAt(date)}
+                </Text>
+              </Pressable>
+            );
+          })}
+
+          {/* Custom date + time */}
+          <View style={styles.pillRow}>
+            <Pressable
+              onPress={() => setShowDatePicker(true)}
+              style={[styles.pill, { backgroundColor: colors.primaryFaded }]}
+            >
+              <Ionicons name="calendar-outline" size={14} color={colors.primary} />
+              <Text style={[styles.pillText, { color: colors.primary }]}>
+                {sendAt.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}
+              </Text>
+            </Pressable>
+            <Pressable
+              onPress={() => setShowTimePicker(true)}
+              style={[styles.pill, { backgroundColor: colors.primaryFaded }]}
+            >
+              <Ionicons name="time-outline" size={14} color={colors.primary} />
+              <Text style={[styles.pillText, { color: colors.primary }]}>
+                {sendAt.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+              </Text>
+            </Pressable>
+          </View>
+
+          {/* Native pickers (Android: shown as dialogs, iOS: inline) */}
+          {showDatePicker && (
+            <DateTimePicker
+              value={sendAt}
+              mode="date"
+              display={Platform.OS === 'ios' ? 'inline' : 'default'}
+              onChange={handleDateChange}
+              minimumDate={new Date()}
+            />
+          )}
+          {showTimePicker && (
+            <DateTimePicker
+              value={sendAt}
+              mode="time"
+              display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+              onChange={handleTimeChange}
+            />
+          )}
+
+          <Pressable
+            disabled={isSubmitting}
+            onPress={handleSchedule}
+            style={[styles.scheduleBtn, { backgroundColor: colors.primary }, isSubmitting && styles.scheduleBtnDisabled]}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.scheduleBtnText}>Schedule for {formatSendAt(sendAt)}</Text>
+            )}
+          </Pressable>
+
+          {/* Already scheduled in this conversation */}
+          {pending.length > 0 && (
+            <>
+              <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>
+                SCHEDULED ({pending.length})
+              </Text>
+              <ScrollView style={styles.pendingList}>
+                {pending.map((item) => (
+                  <View key={item.id} style={[styles.pendingRow, { borderTopColor: colors.border }]}>
+                    <View style={styles.pendingBody}>
+                      <Text style={[styles.pendingText, { color: colors.text }]} numberOfLines={1}>
+                        {item.rawContent}
+                      </Text>
+                      <Text style={[styles.optionHint, { color: colors.textSecondary }]}>
+                        {formatSendAt(new Date(item.sendAt))}
+                      </Text>
+                    </View>
+                    <Pressable
+                      onPress={() => handleCancelPending(item)}
+                      hitSlop={10}
+                      accessibilityLabel="Cancel scheduled message"
+                    >
+                      <Ionicons name="trash-outline" size={18} color={colors.textSecondary} />
+                    </Pressable>
+                  </View>
+                ))}
+              </ScrollView>
+            </>
+          )}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+// ── Styles ───────────────────────────────────────────────────────────────────
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sheet: {
+    borderRadius: 16,
+    paddingVertical: 12,
+    width: 320,
+    maxHeight: '80%',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '700',
+    paddingHorizontal: 16,
+  },
+  preview: {
+    fontSize: 14,
+    paddingHorizontal: 16,
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  option: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  optionText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  optionHint: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  pillRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+    marginTop: 8,
+  },
+  pill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+  },
+  pillText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  scheduleBtn: {
+    marginHorizontal: 16,
+    marginTop: 14,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  scheduleBtnDisabled: {
+    opacity: 0.6,
+  },
+  scheduleBtnText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  sectionLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 0.8,
+    paddingHorizontal: 16,
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  pendingList: {
+    flexGrow: 0,
+  },
+  pendingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  pendingBody: {
+    flex: 1,
+  },
+  pendingText: {
+    fontSize: 14,
+  },
+});
@@ -11,7 +11,8 @@ import {
   setAuthToken,
   removeAuthToken,
   fetchCurrentUser,
-  unregisterPushToken,
+  logoutSession,
+  refreshSession,
   setUnauthorizedHandler,
 } from '../services/api';
 
@@ -22,8 +23,10 @@ interface AuthContextValue {
   userDisplayName: string | null;
   userDialect: string | null;
   userProfilePicture: string | null;
+  /** Null until the profile has loaded. */
+  userEmailVerified: boolean | null;
   isLoading: boolean;
-  login: (token: string) => Promise<void>;
+  login: (token: string, refreshToken: string) => Promise<void>;
   logout: () => Promise<void>;
   refreshProfile: () => Promise<void>;
 }
@@ -50,6 +53,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [userDisplayName, setUserDisplayName] = useState<string | null>(null);
   const [userDialect, setUserDialect] = useState<string | null>(null);
   const [userProfilePicture, setUserProfilePicture] = useState<string | null>(null);
+  const [userEmailVerified, setUserEmailVerified] = useState<boolean | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   const clearSessionState = useCallback(async () => {
@@ -63,6 +67,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     setUserDisplayName(null);
     setUserDialect(null);
     setUserProfilePicture(null);
+    setUserEmailVerified(null);
   }, []);
 
   // ── Profile hydration ─────────────────────────────────────────────────────
@@ -72,6 +77,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       setUserDisplayName(profile.displayName);
       setUserDialect(profile.nativeDialect);
       setUserProfilePicture(profile.profilePictureUrl);
+      setUserEmailVerified(profile.emailVerifiedAt != null);
       await Promise.all([
         setSecureItem('user_display_name', profile.displayName),
         setSecureItem('user_dialect', profile.nativeDialect),
@@ -109,10 +115,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           if (cachedPic) setUserProfilePicture(cachedPic);
 
           // Validate token and refresh profile before entering the app stack.
+          // An expired access token is renewed along the way, so re-read it.
           const isValid = await hydrateProfile();
           if (isValid) {
-            setUserToken(storedToken);
-            setUserId(decodeJwtPayload(storedToken)?.sub ?? null);
+            const currentToken = (await getSecureItem('jwt_token')) ?? storedToken;
+            setUserToken(currentToken);
+            setUserId(decodeJwtPayload(currentToken)?.sub ?? null);
           }
         }
       } catch (error) {
@@ -124,11 +132,26 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   }, [hydrateProfile]);
 
   // Register a global callback for expired/invalid JWTs.
-  // Any 401 from an authenticated request clears local auth state,
-  // which sends the user back to the login flow.
+  // A 401 first trades the refresh token for a new pair; publishing the new
+  // token reconnects the socket with it. Only a session the server refuses
+  // (revoked from another device, expired) sends the user back to login —
+  // an unreachable server leaves them signed in.
   useEffect(() => {
     setUnauthorizedHandler(async () => {
+      let renewedToken: string | null;
+      try {
+        renewedToken = await refreshSession();
+      } catch {
+        return false;
+      }
+
+      if (renewedToken) {
+        setUserToken(renewedToken);
+        return true;
+      }
+      await removeAuthToken();
       await clearSessionState();
+      return false;
     });
 
     return () => {
@@ -137,8 +160,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   }, [clearSessionState]);
 
   const login = useCallback(
-    async (token: string) => {
-      await setAuthToken(token);
+    async (token: string, refreshToken: string) => {
+      await setAuthToken(token, refreshToken);
       setUserToken(token);
       setUserId(decodeJwtPayload(token)?.sub ?? null);
       // Fire-and-forget: profile enrichment should not block the login transition.
@@ -151,10 +174,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   );
 
   const logout = useCallback(async () => {
-    // Unregister push token on the server before clearing credentials
-    // so the backend stops sending notifications to this device.
+    // End the session on the server before clearing credentials so the
+    // backend stops sending notifications to this device.
     try {
-      await unregisterPushToken();
+      await logoutSession();
     } catch {
       // Best-effort — don't block logout if the server is unreachable
     }
@@ -169,6 +192,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       userDisplayName,
       userDialect,
       userProfilePicture,
+      userEmailVerified,
       isLoading,
       login,
       logout,
@@ -176,7 +200,18 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         await hydrateProfile();
       },
     }),
-    [userToken, userId, userDisplayName, userDialect, userProfilePicture, isLoading, login, logout, hydrateProfile],
+    [
+      userToken,
+      userId,
+      userDisplayName,
+      userDialect,
+      userProfilePicture,
+      userEmailVerified,
+      isLoading,
+      login,
+      logout,
+      hydrateProfile,
+    ],
   );
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -6,7 +6,7 @@ import React, {
   useState,
 } from 'react';
 import { io, Socket } from 'socket.io-client';
-import { API_BASE_URL } from '../services/api';
+import { API_BASE_URL, recoverFromUnauthorized } from '../services/api';
 
 // ── Types ────────────────────────────────────────────────────────────────────
 interface SocketContextValue {
@@ -50,7 +50,13 @@ export function SocketProvider({ children, userToken }: SocketProviderProps) {
     });
 
     instance.on('connect', () => setIsConnected(true));
-    instance.on('disconnect', () => setIsConnected(false));
+    instance.on('disconnect', (reason) => {
+      setIsConnected(false);
+      // The server only drops us itself when the token has expired or the
+      // session was revoked; socket.io won't retry that on its own. A renewed
+      // token comes back as a new userToken and reconnects this effect.
+      if (reason === 'io server disconnect') void recoverFromUnauthorized();
+    });
     instance.on('connect_error', (err) => {
       console.warn('[SocketContext] connect_error:', err.message);
     });
@@ -0,0 +1,169 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { Socket } from 'socket.io-client';
+
+type ChatActivity = 'typing' | 'recording';
+
+// ── Server → Client broadcast when someone starts/stops typing or recording ──
+interface UserActivityEvent {
+  groupId: string;
+  userId: string;
+  displayName: string;
+  activity: ChatActivity | null;
+}
+
+/** Re-send start events this often so the server's TTL never lapses mid-activity. */
+const ACTIVITY_REFRESH_MS = 4_000;
+/** Typing counts as stopped after this long without a keystroke. */
+const TYPING_IDLE_MS = 3_000;
+
+// ── Hook params ──────────────────────────────────────────────────────────────
+interface UseChatActivityParams {
+  groupId: string;
+  userId: string | null;
+  socket: Socket | null;
+  isConnected: boolean;
+  isDm: boolean;
+}
+
+export interface UseChatActivityReturn {
+  /** e.g. "Kasun is typing…" — null when nobody else is active */
+  activityText: string | null;
+  /** Call on every keystroke; start/stop events are throttled internally */
+  notifyTyping: () => void;
+  /** Ends the typing indicator right away, e.g. when a message is sent */
+  stopTyping: () => void;
+  notifyRecording: (isRecording: boolean) => void;
+}
+
+function firstName(name: string): string {
+  return name.trim().split(/\s+/)[0] || name;
+}
+
+function describeActivity(
+  names: string[],
+  activity: ChatActivity,
+  isDm: boolean,
+): string {
+  const verb = activity === 'recording' ? 'recording a voice note…' : 'typing…';
+  if (isDm) return verb;
+  if (names.length === 1) return `${names[0]} is ${verb}`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are ${verb}`;
+  return `${names.length} people are ${verb}`;
+}
+
+// ── Hook ─────────────────────────────────────────────────────────────────────
+export function useChatActivity({
+  groupId,
+  userId,
+  socket,
+  isConnected,
+  isDm,
+}: UseChatActivityParams): UseChatActivityReturn {
+  const [active, setActive] = useState<Map<string, { displayName: string; activity: ChatActivity }>>(
+    new Map(),
+  );
+
+  const lastTypingSentAtRef = useRef(0);
+  const typingIdleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const recordingTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  // ── 1. Incoming indicators ────────────────────────────────────────────────
+  useEffect(() => {
+    setActive(new Map());
+    if (!socket || !isConnected) return;
+
+    const handleUserActivity = (evt: UserActivityEvent) => {
+      if (evt.groupId !== groupId || evt.userId === userId) return;
+      setActive((prev) => {
+        const next = new Map(prev);
+        if (evt.activity) {
+          next.set(evt.userId, { displayName: evt.displayName, activity: evt.activity });
+        } else {
+          next.delete(evt.userId);
+        }
+        return next;
+      });
+    };
+
+    socket.on('userActivity', handleUserActivity);
+    return () => {
+      socket.off('userActivity', handleUserActivity);
+    };
+  }, [socket, isConnected, groupId, userId]);
+
+  // ── 2. Outgoing indicators ────────────────────────────────────────────────
+  const stopTyping = useCallback(() => {
+    if (typingIdleTimerRef.current) {
+      clearTimeout(typingIdleTimerRef.current);
+      typingIdleTimerRef.current = null;
+    }
+    if (lastTypingSentAtRef.current === 0) return;
+    lastTypingSentAtRef.current = 0;
+    socket?.emit('typingStop', { groupId });
+  }, [socket, groupId]);
+
+  const notifyTyping = useCallback(() => {
+    if (!socket || !isConnected) return;
+
+    const now = Date.now();
+    if (now - lastTypingSentAtRef.current >= ACTIVITY_REFRESH_MS) {
+      lastTypingSentAtRef.current = now;
+      socket.emit('typingStart', { groupId });
+    }
+
+    if (typingIdleTimerRef.current) clearTimeout(typingIdleTimerRef.current);
+    typingIdleTimerRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  }, [socket, isConnected, groupId, stopTyping]);
+
+  const notifyRecording = useCallback(
+    (isRecording: boolean) => {
+      if (recordingTimerRef.current) {
+        clearInterval(recordingTimerRef.current);
+        recordingTimerRef.current = null;
+      }
+      if (!socket) return;
+
+      if (!isRecording) {
+        socket.emit('recordingStop', { groupId });
+        return;
+      }
+
+      stopTyping();
+      socket.emit('recordingStart', { groupId });
+      recordingTimerRef.current = setInterval(() => {
+        socket.emit('recordingStart', { groupId });
+      }, ACTIVITY_REFRESH_MS);
+    },
+    [socket, groupId, stopTyping],
+  );
+
+  // Stop everything when leaving the chat or switching conversations.
+  useEffect(() => {
+    return () => {
+      stopTyping();
+      if (recordingTimerRef.current) {
+        clearInterval(recordingTimerRef.current);
+        recordingTimerRef.current = null;
+        socket?.emit('recordingStop', { groupId });
+      }
+    };
+  }, [socket, groupId, stopTyping]);
+
+  // ── 3. Header text ────────────────────────────────────────────────────────
+  const activityText = useMemo(() => {
+    if (active.size === 0) return null;
+
+    const recorders: string[] = [];
+    const typers: string[] = [];
+    for (const { displayName, activity } of active.values()) {
+      (activity === 'recording' ? recorders : typers).push(firstName(displayName));
+    }
+
+    // Recording wins — voice notes take longest to arrive.
+    return recorders.length > 0
+      ? describeActivity(recorders, 'recording', isDm)
+      : describeActivity(typers, 'typing', isDm);
+  }, [active, isDm]);
+
+  return { activityText, notifyTyping, stopTyping, notifyRecording };
+}
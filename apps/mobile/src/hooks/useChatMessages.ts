@@ -3,8 +3,20 @@ import { Alert, Platform, ToastAndroid } from 'react-native';
 import type { Socket } from 'socket.io-client';
 import { File } from 'expo-file-system';
 
-import apiClient, { retranslateMessage, processAudio, uploadMedia } from '../services/api';
-import type { ChatMessage } from '../components/chat/MessageBubble';
+import apiClient, {
+  retranslateMessage,
+  processAudio,
+  uploadMedia,
+  starMessage,
+  unstarMessage,
+} from '../services/api';
+import type {
+  ChatMessage,
+  LinkPreviewData,
+  PollData,
+  ReactionSummary,
+  ReplyPreview,
+} from '../components/chat/MessageBubble';
 import { useChatMessageCache } from '../contexts/ChatMessageCacheContext';
 import {
   MAX_MEDIA_OUTBOX_RETRY_ATTEMPTS,
@@ -28,6 +40,18 @@ export interface ChatPayload {
    *  the recording from the device before the server URL is available. */
   localUri?: string;
   durationMs?: number;
+  /** Message being replied to, plus a local quote for the optimistic bubble. */
+  replyToId?: string;
+  replyTo?: ReplyPreview | null;
+}
+
+// ── Poll composed in CreatePollModal ─────────────────────────────────────────
+export interface CreatePollInput {
+  question: string;
+  options: string[];
+  allowsMultiple: boolean;
+  isAnonymous: boolean;
+  closesAt: Date | null;
 }
 
 // ── Shape broadcasted by the server via "newMessage" ─────────────────────────
@@ -35,7 +59,7 @@ interface NewMessageEvent {
   messageId: string;
   clientTempId?: string;
   senderId: string;
-  contentType: 'TEXT' | 'AUDIO' | 'IMAGE' | 'DOCUMENT';
+  contentType: 'TEXT' | 'AUDIO' | 'IMAGE' | 'DOCUMENT' | 'POLL';
   fileUrl?: string;
   fileName?: string | null;
   transcription?: string | null;
@@ -59,6 +83,11 @@ interface NewMessageEvent {
     timestamp: string;
     description?: string;
   }[] | null;
+  replyToId?: string | null;
+  replyTo?: ReplyPreview | null;
+  isForwarded?: boolean;
+  linkPreview?: LinkPreviewData | null;
+  poll?: PollData | null;
 }
 
 // ── Shape broadcasted by the server via "messageTranslated" ──────────────────
@@ -92,10 +121,10 @@ interface TranslationFailedEvent {
 }
 
 // ── History item shape returned by GET /chat/groups/:id/messages ─────────────
-interface HistoryMessage {
+export interface HistoryMessage {
   id: string;
   sender: { id: string };
-  contentType: 'TEXT' | 'AUDIO' | 'IMAGE' | 'DOCUMENT';
+  contentType: 'TEXT' | 'AUDIO' | 'IMAGE' | 'DOCUMENT' | 'POLL';
   rawContent: string;
   transcription?: string | null;
   translations?: {
@@ -119,13 +148,21 @@ interface HistoryMessage {
     description?: string;
   }[] | null;
   isEdited?: boolean;
+  isForwarded?: boolean;
+  replyToId?: string | null;
+  replyTo?: ReplyPreview | null;
+  reactions?: ReactionSummary[];
+  linkPreview?: LinkPreviewData | null;
+  poll?: PollData | null;
+  isStarred?: boolean;
   createdAt: string;
 }
 
 // ── Server → Client broadcast for message deletion ────────────────────────────
 interface MessagesDeletedEvent {
   messageIds: string[];
-  deletedBy: string;
+  /** Null when the retention sweeper removed expired messages. */
+  deletedBy: string | null;
 }
 
 interface MessagesHiddenEvent {
@@ -161,9 +198,18 @@ interface MessageEditedEvent {
     tanglish?: string;
   } | null;
   confidenceScore: number | null;
+  /** Null when the edit removed or changed the link — a new one may follow. */
+  linkPreview?: LinkPreviewData | null;
   isEdited: boolean;
 }
 
+// ── Server → Client partial update (currently link previews only) ─────────────
+interface MessageUpdatedEvent {
+  groupId: string;
+  messageId: string;
+  linkPreview?: LinkPreviewData | null;
+}
+
 // ── Server → Client error for failed edit ─────────────────────────────────────
 interface EditFailedEvent {
   messageId: string;
@@ -179,6 +225,46 @@ interface HideFailedEvent {
   reason: string;
 }
 
+// ── Server → Client broadcast for reactions ───────────────────────────────────
+interface ReactionsUpdatedEvent {
+  groupId: string;
+  messageId: string;
+  reactions: ReactionSummary[];
+}
+
+interface ReactionFailedEvent {
+  messageId: string | null;
+  reason: string;
+}
+
+// ── Server → Client broadcasts for polls ─────────────────────────────────────
+/** Shared results — carries no `myOptionIds`, each client keeps its own. */
+interface PollUpdatedEvent {
+  groupId: string;
+  messageId: string;
+  poll: Omit<PollData, 'myOptionIds'>;
+}
+
+/** Sent to the voter's own devices only. */
+interface PollVoteRecordedEvent {
+  groupId: string;
+  messageId: string;
+  optionIds: string[];
+}
+
+interface MessageStarChangedEvent {
+  messageId: string;
+  groupId: string;
+  isStarred: boolean;
+}
+
+interface PollFailedEvent {
+  messageId: string | null;
+  /** Set when creating the poll failed. */
+  clientTempId?: string;
+  reason: string;
+}
+
 interface SendMessageAck {
   id: string;
   rawContent: string;
@@ -213,6 +299,7 @@ function buildQueuedMediaJob(
         mimeType: payload.mimeType ?? 'audio/mp4',
         durationMs: payload.durationMs,
       },
+      ...(payload.replyToId ? { replyToId: payload.replyToId } : {}),
     };
   }
 
@@ -234,6 +321,7 @@ function buildQueuedMediaJob(
     ...(payload.originalFileName
       ? { fileName: payload.originalFileName }
       : {}),
+    ...(payload.replyToId ? { replyToId: payload.replyToId } : {}),
   };
 }
 
@@ -297,8 +385,80 @@ function updateMessageById(
   ctx.changed = true;
 }
 
+/** Turns quotes of removed messages into "message deleted" stubs. */
+function stubRepliesTo(ctx: MessagePatchContext, removedIds: Set<string>): void {
+  for (let i = 0; i < ctx.messages.length; i += 1) {
+    const m = ctx.messages[i];
+    if (!m.replyTo || m.replyTo.isDeleted || !removedIds.has(m.replyTo.id)) continue;
+    ctx.messages[i] = {
+      ...m,
+      replyTo: {
+        id: m.replyTo.id,
+        isDeleted: true,
+        senderId: null,
+        senderName: null,
+        contentType: null,
+        text: null,
+        fileName: null,
+        translations: null,
+      },
+    };
+    ctx.changed = true;
+  }
+}
+
+/** Adds or removes `userId` from one emoji's aggregate, dropping empty ones. */
+function toggleReactionLocally(
+  reactions: ReactionSummary[],
+  emoji: string,
+  userId: string,
+): ReactionSummary[] {
+  const existing = reactions.find((r) => r.emoji === emoji);
+  if (!existing) {
+    return [...reactions, { emoji, count: 1, userIds: [userId] }];
+  }
+
+  if (existing.userIds.includes(userId)) {
+    return reactions
+      .map((r) => (r.emoji === emoji
+        ? { ...r, count: r.count - 1, userIds: r.userIds.filter((id) => id !== userId) }
+        : r))
+      .filter((r) => r.count > 0);
+  }
+
+  return reactions.map((r) => (r.emoji === emoji
+    ? { ...r, count: r.count + 1, userIds: [...r.userIds, userId] }
+    : r));
+}
+
+/** Moves `userId`'s votes to `optionIds`, keeping the tallies consistent. */
+function applyPollVoteLocally(poll: PollData, userId: string, optionIds: string[]): PollData {
+  const hadVoted = poll.myOptionIds.length > 0;
+  const willVote = optionIds.length > 0;
+
+  return {
+    ...poll,
+    totalVoters: poll.totalVoters + (willVote ? 1 : 0) - (hadVoted ? 1 : 0),
+    options: poll.options.map((option) => {
+      const was = poll.myOptionIds.includes(option.id);
+      const now = optionIds.includes(option.id);
+      if (was === now) return option;
+      return {
+        ...option,
+        voteCount: option.voteCount + (now ? 1 : -1),
+        voterIds: poll.isAnonymous
+          ? option.voterIds
+          : now
+            ? [...option.voterIds, userId]
+            : option.voterIds.filter((id) => id !== userId),
+      };
+    }),
+    myOptionIds: optionIds,
+  };
+}
+
 // ── Mappers ──────────────────────────────────────────────────────────────────
-function historyToChatMessage(msg: HistoryMessage, currentUserId: string | null): ChatMessage {
+export function historyToChatMessage(msg: HistoryMessage, currentUserId: string | null): ChatMessage {
   const isOwnMessage = currentUserId != null && msg.sender.id === currentUserId;
 
   return {
@@ -313,8 +473,15 @@ function historyToChatMessage(msg: HistoryMessage, currentUserId: string | null)
     confidenceScore: msg.confidenceScore ?? null,
     extractedActions: msg.extractedActions ?? null,
     fileName: msg.fileName ?? null,
+    replyToId: msg.replyToId ?? null,
+    replyTo: msg.replyTo ?? null,
+    reactions: msg.reactions ?? [],
+    linkPreview: msg.linkPreview ?? null,
+    poll: msg.poll ?? null,
+    isStarred: msg.isStarred ?? false,
     isOptimistic: false,
     isEdited: msg.isEdited ?? false,
+    isForwarded: msg.isForwarded ?? false,
     isTranslating: shouldMarkTranslating(
       isOwnMessage,
       msg.translations,
@@ -339,8 +506,13 @@ function serverEventToChatMessage(evt: NewMessageEvent, currentUserId: string |
     confidenceScore: evt.confidenceScore ?? null,
     extractedActions: evt.extractedActions ?? null,
     fileName: evt.fileName ?? null,
+    replyToId: evt.replyToId ?? null,
+    replyTo: evt.replyTo ?? null,
+    linkPreview: evt.linkPreview ?? null,
+    poll: evt.poll ?? null,
     isOptimistic: false,
     isEdited: false,
+    isForwarded: evt.isForwarded ?? false,
     isTranslating: shouldMarkTranslating(
       isOwnMessage,
       evt.translations,
@@ -402,9 +574,18 @@ export interface UseChatMessagesReturn {
   isLoadingHistory: boolean;
   isFetchingOlder: boolean;
   hasMore: boolean;
-  loadOlderMessages: () => Promise<void>;
+  /** Resolves true while older history may remain to be loaded. */
+  loadOlderMessages: () => Promise<boolean>;
   handleSendMessage: (payload: ChatPayload) => Promise<void>;
   handleRetry: (messageId: string) => Promise<void>;
+  /** Adds the user's `emoji` reaction, or removes it if already present. */
+  toggleReaction: (messageId: string, emoji: string) => void;
+  createPoll: (input: CreatePollInput) => void;
+  /** Replaces the user's choices on a poll — an empty list retracts the vote. */
+  votePoll: (messageId: string, optionIds: string[]) => void;
+  closePoll: (messageId: string) => void;
+  /** Stars the message for the current user, or unstars it. */
+  toggleStar: (messageId: string) => Promise<void>;
 }
 
 // ── Hook ─────────────────────────────────────────────────────────────────────
@@ -437,6 +618,12 @@ export function useChatMessages({
   );
   const queuedPatchesRef = useRef<MessagePatch[]>([]);
   const flushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const latestMessagesRef = useRef(messages);
+  latestMessagesRef.current = messages;
+  // Reactions as they were before an optimistic toggle, restored on failure
+  const reactionSnapshotsRef = useRef<Map<string, ReactionSummary[]>>(new Map());
+  // Polls as they were before an optimistic vote, restored on failure
+  const pollSnapshotsRef = useRef<Map<string, PollData>>(new Map());
 
   // Track optimistic IDs for reconciliation
   const optimisticIdsRef   = useRef<Set<string>>(new Set());
@@ -577,6 +764,7 @@ export function useChatMessages({
           job.audio?.mimeType ?? 'audio/mp4',
           job.audio?.durationMs,
           job.optimisticId,
+          job.replyToId,
         );
 
         return {
@@ -611,6 +799,7 @@ export function useChatMessages({
         fileUrl: uploaded.url,
         ...(job.mediaType === 'DOCUMENT' ? { fileMimeType: mimeType } : {}),
         ...(job.fileName ? { fileName: job.fileName } : {}),
+        ...(job.replyToId ? { replyToId: job.replyToId } : {}),
         timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
       });
 
@@ -893,8 +1082,8 @@ export function useChatMessages({
   }, [groupId, getChatCache, userId]);
 
   // ── 2. Load older messages (cursor-based infinite scroll) ─────────────────
-  const loadOlderMessages = useCallback(async () => {
-    if (isFetchingRef.current || !hasMoreRef.current || !oldestCursorRef.current) return;
+  const loadOlderMessages = useCallback(async (): Promise<boolean> => {
+    if (isFetchingRef.current || !hasMoreRef.current || !oldestCursorRef.current) return false;
 
     isFetchingRef.current = true;
     setIsFetchingOlder(true);
@@ -920,8 +1109,10 @@ export function useChatMessages({
         setHasMore(false);
         hasMoreRef.current = false;
       }
+      return hasMoreRef.current;
     } catch (err) {
       console.error('[useChatMessages] Failed to load older messages:', err);
+      return false;
     } finally {
       isFetchingRef.current = false;
       setIsFetchingOlder(false);
@@ -1033,10 +1224,12 @@ export function useChatMessages({
       const ids = new Set(evt.messageIds);
       enqueueMessagesPatch((ctx) => {
         const next = ctx.messages.filter((m) => !ids.has(m.id));
-        if (next.length === ctx.messages.length) return;
-        ctx.messages = next;
-        ctx.indexById = buildMessageIndex(next);
-        ctx.changed = true;
+        if (next.length !== ctx.messages.length) {
+          ctx.messages = next;
+          ctx.indexById = buildMessageIndex(next);
+          ctx.changed = true;
+        }
+        stubRepliesTo(ctx, ids);
       });
     };
 
@@ -1046,10 +1239,12 @@ export function useChatMessages({
       const ids = new Set(evt.messageIds);
       enqueueMessagesPatch((ctx) => {
         const next = ctx.messages.filter((m) => !ids.has(m.id));
-        if (next.length === ctx.messages.length) return;
-        ctx.messages = next;
-        ctx.indexById = buildMessageIndex(next);
-        ctx.changed = true;
+        if (next.length !== ctx.messages.length) {
+          ctx.messages = next;
+          ctx.indexById = buildMessageIndex(next);
+          ctx.changed = true;
+        }
+        stubRepliesTo(ctx, ids);
       });
     };
 
@@ -1080,6 +1275,7 @@ export function useChatMessages({
         originalTone: evt.originalTone ?? m.originalTone,
         translatedAudioUrls: evt.translatedAudioUrls ?? m.translatedAudioUrls,
         confidenceScore: evt.confidenceScore,
+        linkPreview: evt.linkPreview !== undefined ? evt.linkPreview : m.linkPreview,
         isEdited: true,
         isRetrying: false,
         isTranslating: false,
@@ -1088,6 +1284,16 @@ export function useChatMessages({
 
     socket.on('messageEdited', handleMessageEdited);
 
+    const handleMessageUpdated = (evt: MessageUpdatedEvent) => {
+      if (evt.groupId !== groupId) return;
+      enqueueMessagesPatch((ctx) => updateMessageById(ctx, evt.messageId, (m) => ({
+        ...m,
+        ...(evt.linkPreview !== undefined && { linkPreview: evt.linkPreview }),
+      })));
+    };
+
+    socket.on('messageUpdated', handleMessageUpdated);
+
     const handleEditFailed = (evt: EditFailedEvent) => {
       if (editOriginalRef.current && editOriginalRef.current.id === evt.messageId) {
         const snapshot = editOriginalRef.current;
@@ -1106,6 +1312,91 @@ export function useChatMessages({
 
     socket.on('editFailed', handleEditFailed);
 
+    // ── Reaction events ─────────────────────────────────────────────────
+    const handleReactionsUpdated = (evt: ReactionsUpdatedEvent) => {
+      if (evt.groupId !== groupId) return;
+      reactionSnapshotsRef.current.delete(evt.messageId);
+      enqueueMessagesPatch((ctx) => updateMessageById(ctx, evt.messageId, (m) => ({
+        ...m,
+        reactions: evt.reactions,
+      })));
+    };
+
+    socket.on('reactionsUpdated', handleReactionsUpdated);
+
+    const handleReactionFailed = (evt: ReactionFailedEvent) => {
+      const messageId = evt?.messageId;
+      const snapshot = messageId ? reactionSnapshotsRef.current.get(messageId) : undefined;
+      if (messageId && snapshot) {
+        reactionSnapshotsRef.current.delete(messageId);
+        enqueueMessagesPatch((ctx) => updateMessageById(ctx, messageId, (m) => ({
+          ...m,
+          reactions: snapshot,
+        })));
+      }
+      console.warn('[useChatMessages] Reaction failed:', evt?.reason);
+    };
+
+    socket.on('reactionFailed', handleReactionFailed);
+
+    // ── Poll events ─────────────────────────────────────────────────────
+    const handlePollUpdated = (evt: PollUpdatedEvent) => {
+      if (evt.groupId !== groupId) return;
+      enqueueMessagesPatch((ctx) => updateMessageById(ctx, evt.messageId, (m) => ({
+        ...m,
+        poll: { ...evt.poll, myOptionIds: m.poll?.myOptionIds ?? [] },
+      })));
+    };
+
+    socket.on('pollUpdated', handlePollUpdated);
+
+    const handlePollVoteRecorded = (evt: PollVoteRecordedEvent) => {
+      if (evt.groupId !== groupId) return;
+      pollSnapshotsRef.current.delete(evt.messageId);
+      enqueueMessagesPatch((ctx) => updateMessageById(ctx, evt.messageId, (m) => (
+        m.poll ? { ...m, poll: { ...m.poll, myOptionIds: evt.optionIds } } : m
+      )));
+    };
+
+    socket.on('pollVoteRecorded', handlePollVoteRecorded);
+
+    const handlePollFailed = (evt: PollFailedEvent) => {
+      const clientTempId = evt?.clientTempId;
+      if (clientTempId) {
+        enqueueMessagesPatch((ctx) => {
+          const idx = ctx.indexById.get(clientTempId);
+          if (idx == null) return;
+          optimisticIdsRef.current.delete(clientTempId);
+          ctx.messages.splice(idx, 1);
+          ctx.indexById = buildMessageIndex(ctx.messages);
+          ctx.changed = true;
+        });
+      }
+
+      const messageId = evt?.messageId;
+      const snapshot = messageId ? pollSnapshotsRef.current.get(messageId) : undefined;
+      if (messageId && snapshot) {
+        pollSnapshotsRef.current.delete(messageId);
+        enqueueMessagesPatch((ctx) => updateMessageById(ctx, messageId, (m) => ({
+          ...m,
+          poll: snapshot,
+        })));
+      }
+      Alert.alert('Poll', evt?.reason ?? 'Something went wrong with this poll. Please try again.');
+    };
+
+    socket.on('pollFailed', handlePollFailed);
+
+    // ── Stars (sent to the user's own devices only) ──────────────────────
+    const handleMessageStarChanged = (evt: MessageStarChangedEvent) => {
+      if (evt.groupId !== groupId) return;
+      enqueueMessagesPatch((ctx) => updateMessageById(ctx, evt.messageId, (m) => (
+        m.isStarred === evt.isStarred ? m : { ...m, isStarred: evt.isStarred }
+      )));
+    };
+
+    socket.on('messageStarChanged', handleMessageStarChanged);
+
     return () => {
       // Keep server-side room membership aligned with this hook lifecycle.
       // This runs on chat unmount and groupId changes.
@@ -1120,7 +1411,14 @@ export function useChatMessages({
       socket.off('deleteFailed', handleDeleteFailed);
       socket.off('hideFailed', handleHideFailed);
       socket.off('messageEdited', handleMessageEdited);
+      socket.off('messageUpdated', handleMessageUpdated);
       socket.off('editFailed', handleEditFailed);
+      socket.off('reactionsUpdated', handleReactionsUpdated);
+      socket.off('reactionFailed', handleReactionFailed);
+      socket.off('pollUpdated', handlePollUpdated);
+      socket.off('pollVoteRecorded', handlePollVoteRecorded);
+      socket.off('pollFailed', handlePollFailed);
+      socket.off('messageStarChanged', handleMessageStarChanged);
     };
   }, [socket, isConnected, userId, groupId, editOriginalRef, enqueueMessagesPatch]);
 
@@ -1214,6 +1512,8 @@ export function useChatMessages({
           : normalizedPayload.content,
         translations: null,
         confidenceScore: null,
+        replyToId: normalizedPayload.replyToId ?? null,
+        replyTo: normalizedPayload.replyTo ?? null,
         isOptimistic: true,
         createdAt: new Date().toISOString(),
       };
@@ -1234,6 +1534,9 @@ export function useChatMessages({
             clientTempId: optimisticId,
             contentType: 'TEXT',
             rawContent: normalizedPayload.content,
+            ...(normalizedPayload.replyToId
+              ? { replyToId: normalizedPayload.replyToId }
+              : {}),
             timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
           });
 
@@ -1304,6 +1607,9 @@ export function useChatMessages({
           originalTone: result.originalTone ?? m.originalTone,
           translatedAudioUrls: result.translatedAudioUrls ?? m.translatedAudioUrls,
           confidenceScore: result.confidenceScore,
+          poll: result.poll && m.poll
+            ? { ...result.poll, myOptionIds: m.poll.myOptionIds }
+            : m.poll,
         })));
       } catch (err) {
         console.error('[useChatMessages] Retranslation failed:', err);
@@ -1322,6 +1628,142 @@ export function useChatMessages({
     [enqueueMessagesPatch],
   );
 
+  // ── 7. Reactions ──────────────────────────────────────────────────────────
+  const toggleReaction = useCallback(
+    (messageId: string, emoji: string) => {
+      if (!socket || !userId) return;
+
+      const target = latestMessagesRef.current.find((m) => m.id === messageId);
+      if (!target || target.isOptimistic) return;
+
+      const current = target.reactions ?? [];
+      const alreadyReacted = current.some(
+        (r) => r.emoji === emoji && r.userIds.includes(userId),
+      );
+
+      if (!reactionSnapshotsRef.current.has(messageId)) {
+        reactionSnapshotsRef.current.set(messageId, current);
+      }
+      enqueueMessagesPatch((ctx) => updateMessageById(ctx, messageId, (m) => ({
+        ...m,
+        reactions: toggleReactionLocally(m.reactions ?? [], emoji, userId),
+      })));
+
+      socket.emit(alreadyReacted ? 'removeReaction' : 'addReaction', {
+        groupId,
+        messageId,
+        emoji,
+      });
+    },
+    [socket, userId, groupId, enqueueMessagesPatch],
+  );
+
+  // ── 8. Polls ──────────────────────────────────────────────────────────────
+  const createPoll = useCallback(
+    (input: CreatePollInput) => {
+      if (!userId) return;
+      if (!socket || !isConnected) {
+        Alert.alert('Offline', 'Polls can be created once you are back online.');
+        return;
+      }
+
+      const clientTempId = createClientTempId();
+      optimisticIdsRef.current.add(clientTempId);
+      enqueueMessagesPatch((ctx) => {
+        ctx.messages.push({
+          id: clientTempId,
+          senderId: userId,
+          contentType: 'POLL',
+          rawContent: input.question,
+          translations: null,
+          poll: {
+            allowsMultiple: input.allowsMultiple,
+            isAnonymous: input.isAnonymous,
+            closesAt: input.closesAt?.toISOString() ?? null,
+            isClosed: false,
+            totalVoters: 0,
+            options: input.options.map((text, idx) => ({
+              id: String(idx + 1),
+              text,
+              translations: null,
+              voteCount: 0,
+              voterIds: [],
+            })),
+            myOptionIds: [],
+          },
+          isOptimistic: true,
+          sendStatus: 'sending',
+          createdAt: new Date().toISOString(),
+        });
+        ctx.indexById.set(clientTempId, ctx.messages.length - 1);
+        ctx.changed = true;
+      });
+      onNewMessageRef.current?.();
+
+      socket.emit('createPoll', {
+        groupId,
+        clientTempId,
+        question: input.question,
+        options: input.options,
+        allowsMultiple: input.allowsMultiple,
+        isAnonymous: input.isAnonymous,
+        closesAt: input.closesAt?.toISOString() ?? null,
+      });
+    },
+    [socket, isConnected, userId, groupId, enqueueMessagesPatch],
+  );
+
+  const votePoll = useCallback(
+    (messageId: string, optionIds: string[]) => {
+      if (!socket || !userId) return;
+
+      const target = latestMessagesRef.current.find((m) => m.id === messageId);
+      if (!target?.poll || target.isOptimistic) return;
+
+      if (!pollSnapshotsRef.current.has(messageId)) {
+        pollSnapshotsRef.current.set(messageId, target.poll);
+      }
+      enqueueMessagesPatch((ctx) => updateMessageById(ctx, messageId, (m) => (
+        m.poll ? { ...m, poll: applyPollVoteLocally(m.poll, userId, optionIds) } : m
+      )));
+
+      socket.emit('votePoll', { groupId, messageId, optionIds });
+    },
+    [socket, userId, groupId, enqueueMessagesPatch],
+  );
+
+  const closePoll = useCallback(
+    (messageId: string) => {
+      socket?.emit('closePoll', { groupId, messageId });
+    },
+    [socket, groupId],
+  );
+
+  // ── 9. Stars ──────────────────────────────────────────────────────────────
+  const toggleStar = useCallback(
+    async (messageId: string) => {
+      const target = latestMessagesRef.current.find((m) => m.id === messageId);
+      if (!target || target.isOptimistic) return;
+
+      const nextStarred = !target.isStarred;
+      const setStarred = (isStarred: boolean) =>
+        enqueueMessagesPatch((ctx) => updateMessageById(ctx, messageId, (m) => ({ ...m, isStarred })));
+
+      setStarred(nextStarred);
+      try {
+        await (nextStarred ? starMessage(messageId) : unstarMessage(messageId));
+      } catch (err) {
+        console.warn('[useChatMessages] Failed to update star:', err);
+        setStarred(!nextStarred);
+        Alert.alert(
+          nextStarred ? 'Star failed' : 'Unstar failed',
+          'Could not update your starred messages. Please try again.',
+        );
+      }
+    },
+    [enqueueMessagesPatch],
+  );
+
   return {
     messages,
     setMessages,
@@ -1331,5 +1773,10 @@ export function useChatMessages({
     loadOlderMessages,
     handleSendMessage,
     handleRetry,
+    toggleReaction,
+    createPoll,
+    votePoll,
+    closePoll,
+    toggleStar,
   };
 }
@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import type { Socket } from 'socket.io-client';
+
+import { fetchGroupMembers, type GroupMemberRole, type GroupPermissions } from '../services/api';
+import { hasAdminRights, hasModeratorRights } from '../utils/groupRoles';
+
+// ── Server → Client broadcasts ───────────────────────────────────────────────
+interface MemberRoleChangedEvent {
+  groupId: string;
+  userId: string;
+  role: GroupMemberRole;
+  changedById: string;
+}
+
+interface GroupPermissionsChangedEvent extends GroupPermissions {
+  groupId: string;
+  changedById: string;
+}
+
+// ── Hook params ──────────────────────────────────────────────────────────────
+interface UseGroupRoleParams {
+  groupId: string;
+  userId: string | null;
+  socket: Socket | null;
+  isDm: boolean;
+  /** From the chat list, so controls don't flicker while members load. */
+  initialRole?: GroupMemberRole;
+  initialPermissions: GroupPermissions;
+}
+
+export interface UseGroupRoleReturn {
+  role: GroupMemberRole | null;
+  permissions: GroupPermissions;
+  /** Owners and admins in groups; nobody in DMs */
+  isAdmin: boolean;
+  /** Admins plus moderators — may delete other people's messages */
+  canModerate: boolean;
+  /** False in announcement groups for everyone but admins */
+  canPost: boolean;
+}
+
+// ── Hook ─────────────────────────────────────────────────────────────────────
+export function useGroupRole({
+  groupId,
+  userId,
+  socket,
+  isDm,
+  initialRole,
+  initialPermissions,
+}: UseGroupRoleParams): UseGroupRoleReturn {
+  const [role, setRole] = useState<GroupMemberRole | null>(initialRole ?? null);
+  const [permissions, setPermissions] = useState<GroupPermissions>(initialPermissions);
+
+  // ── 1. Confirm the viewer's role ──────────────────────────────────────────
+  useEffect(() => {
+    if (isDm) return;
+
+    let cancelled = false;
+    fetchGroupMembers(groupId)
+      .then((members) => {
+        if (cancelled) return;
+        setRole(members.find((m) => m.userId === userId)?.role ?? null);
+      })
+      .catch(() => {
+        // Keep whatever the chat list told us.
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [groupId, userId, isDm]);
+
+  // ── 2. Live updates ───────────────────────────────────────────────────────
+  useEffect(() => {
+    if (!socket || isDm) return;
+
+    const handleRoleChanged = (evt: MemberRoleChangedEvent) => {
+      if (evt.groupId === groupId && evt.userId === userId) setRole(evt.role);
+    };
+    const handlePermissionsChanged = (evt: GroupPermissionsChangedEvent) => {
+      if (evt.groupId !== groupId) return;
+      setPermissions({
+        onlyAdminsCanPost: evt.onlyAdminsCanPost,
+        onlyAdminsCanEditInfo: evt.onlyAdminsCanEditInfo,
+      });
+    };
+
+    socket.on('memberRoleChanged', handleRoleChanged);
+    socket.on('groupPermissionsChanged', handlePermissionsChanged);
+    return () => {
+      socket.off('memberRoleChanged', handleRoleChanged);
+      socket.off('groupPermissionsChanged', handlePermissionsChanged);
+    };
+  }, [socket, groupId, userId, isDm]);
+
+  const isAdmin = !isDm && hasAdminRights(role);
+  return {
+    role,
+    permissions,
+    isAdmin,
+    canModerate: !isDm && hasModeratorRights(role),
+    canPost: isDm || !permissions.onlyAdminsCanPost || isAdmin,
+  };
+}
@@ -0,0 +1,35 @@
+import { useEffect, useRef } from 'react';
+import * as Linking from 'expo-linking';
+
+import { parseInviteToken } from '../utils/inviteLinks';
+
+// The launch URL is only acted on once per app run — not again every time
+// the chat list remounts (e.g. after signing out and back in).
+let launchUrlHandled = false;
+
+/**
+ * Calls `onInvite` with the token whenever the app is opened from a
+ * `linklanka://join/<token>` link, whether it launched the app or arrived
+ * while it was running.
+ */
+export function useInviteLinks(onInvite: (token: string) => void): void {
+  const onInviteRef = useRef(onInvite);
+  useEffect(() => { onInviteRef.current = onInvite; }, [onInvite]);
+
+  useEffect(() => {
+    const handle = (url: string | null) => {
+      const token = url ? parseInviteToken(url) : null;
+      if (token) onInviteRef.current(token);
+    };
+
+    if (!launchUrlHandled) {
+      launchUrlHandled = true;
+      Linking.getInitialURL()
+        .then(handle)
+        .catch(() => {});
+    }
+
+    const subscription = Linking.addEventListener('url', ({ url }) => handle(url));
+    return () => subscription.remove();
+  }, []);
+}
@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Alert } from 'react-native';
+import type { Socket } from 'socket.io-client';
+
+import {
+  fetchPinnedMessages,
+  pinMessage,
+  unpinMessage,
+  type PinnedMessageItem,
+} from '../services/api';
+import { getApiErrorMessage } from '../utils/auth';
+
+// ── Server → Client broadcast when a pin is added or removed ─────────────────
+interface MessagePinnedEvent {
+  groupId: string;
+  messageId: string;
+  isPinned: boolean;
+  changedById: string;
+}
+
+// ── Hook params ──────────────────────────────────────────────────────────────
+interface UsePinnedMessagesParams {
+  groupId: string;
+  socket: Socket | null;
+  isConnected: boolean;
+  isDm: boolean;
+  /** Owner or admin of the group, from useGroupRole */
+  isAdmin: boolean;
+}
+
+export interface UsePinnedMessagesReturn {
+  /** Newest first */
+  pins: PinnedMessageItem[];
+  pinnedMessageIds: ReadonlySet<string>;
+  /** Admins in groups; both participants in DMs */
+  canPin: boolean;
+  togglePin: (messageId: string) => Promise<void>;
+}
+
+// ── Hook ─────────────────────────────────────────────────────────────────────
+export function usePinnedMessages({
+  groupId,
+  socket,
+  isConnected,
+  isDm,
+  isAdmin,
+}: UsePinnedMessagesParams): UsePinnedMessagesReturn {
+  const [pins, setPins] = useState<PinnedMessageItem[]>([]);
+
+  const refresh = useCallback(() => {
+    fetchPinnedMessages(groupId)
+      .then(setPins)
+      .catch((err) => console.warn('[usePinnedMessages] Failed to load pins:', err));
+  }, [groupId]);
+
+  // ── 1. Seed pins (again on reconnect) ─────────────────────────────────────
+  useEffect(() => {
+    if (isConnected) refresh();
+  }, [refresh, isConnected]);
+
+  useEffect(() => {
+    setPins([]);
+  }, [groupId]);
+
+  // ── 2. Live updates — refetch so hidden messages stay filtered per viewer ─
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleMessagePinned = (evt: MessagePinnedEvent) => {
+      if (evt.groupId !== groupId) return;
+      if (!evt.isPinned) {
+        setPins((prev) => prev.filter((p) => p.messageId !== evt.messageId));
+        return;
+      }
+      refresh();
+    };
+
+    socket.on('messagePinned', handleMessagePinned);
+    return () => {
+      socket.off('messagePinned', handleMessagePinned);
+    };
+  }, [socket, groupId, refresh]);
+
+  // ── 3. Pin / unpin ────────────────────────────────────────────────────────
+  const pinnedMessageIds = useMemo(() => new Set(pins.map((p) => p.messageId)), [pins]);
+
+  const togglePin = useCallback(
+    async (messageId: string) => {
+      try {
+        if (pinnedMessageIds.has(messageId)) {
+          await unpinMessage(groupId, messageId);
+          setPins((prev) => prev.filter((p) => p.messageId !== messageId));
+        } else {
+          setPins(await pinMessage(groupId, messageId));
+        }
+      } catch (err) {
+        Alert.alert('Pin failed', getApiErrorMessage(err, 'Could not update pinned messages.'));
+      }
+    },
+    [groupId, pinnedMessageIds],
+  );
+
+  return { pins, pinnedMessageIds, canPin: isDm || isAdmin, togglePin };
+}
@@ -0,0 +1,97 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { Socket } from 'socket.io-client';
+
+import { fetchUserById } from '../services/api';
+
+// ── Server → Client broadcast when a contact comes online or goes offline ────
+interface PresenceChangedEvent {
+  userId: string;
+  isOnline: boolean;
+  lastSeenAt: string | null;
+}
+
+interface Presence {
+  isOnline: boolean;
+  lastSeenAt: string | null;
+}
+
+// ── Hook params ──────────────────────────────────────────────────────────────
+interface UsePresenceParams {
+  /** The user to watch — null/undefined disables the hook (e.g. group chats). */
+  userId: string | null | undefined;
+  socket: Socket | null;
+  isConnected: boolean;
+}
+
+export interface UsePresenceReturn {
+  isOnline: boolean;
+  /** e.g. "online", "last seen today at 2:05 PM" — null when unknown or hidden */
+  presenceText: string | null;
+}
+
+function formatLastSeen(iso: string): string {
+  const date = new Date(iso);
+  const now = new Date();
+  const yesterday = new Date(now);
+  yesterday.setDate(yesterday.getDate() - 1);
+
+  const time = date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  if (date.toDateString() === now.toDateString()) return `last seen today at ${time}`;
+  if (date.toDateString() === yesterday.toDateString()) return `last seen yesterday at ${time}`;
+
+  const day = date.toLocaleDateString([], {
+    month: 'short',
+    day: 'numeric',
+    year: date.getFullYear() === now.getFullYear() ? undefined : 'numeric',
+  });
+  return `last seen ${day}`;
+}
+
+// ── Hook ─────────────────────────────────────────────────────────────────────
+export function usePresence({ userId, socket, isConnected }: UsePresenceParams): UsePresenceReturn {
+  const [presence, setPresence] = useState<Presence | null>(null);
+
+  // ── 1. Seed from the profile — refetched on reconnect to catch missed events
+  useEffect(() => {
+    setPresence(null);
+    if (!userId || !isConnected) return;
+
+    let cancelled = false;
+    fetchUserById(userId)
+      .then((user) => {
+        if (cancelled) return;
+        setPresence({ isOnline: !!user.isOnline, lastSeenAt: user.lastSeenAt ?? null });
+      })
+      .catch(() => {
+        // Presence is cosmetic — leave the subtitle empty.
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, isConnected]);
+
+  // ── 2. Live updates ───────────────────────────────────────────────────────
+  useEffect(() => {
+    if (!socket || !userId) return;
+
+    const handlePresenceChanged = (evt: PresenceChangedEvent) => {
+      if (evt.userId !== userId) return;
+      setPresence({ isOnline: evt.isOnline, lastSeenAt: evt.lastSeenAt });
+    };
+
+    socket.on('presenceChanged', handlePresenceChanged);
+    return () => {
+      socket.off('presenceChanged', handlePresenceChanged);
+    };
+  }, [socket, userId]);
+
+  // ── 3. Display text ───────────────────────────────────────────────────────
+  const presenceText = useMemo(() => {
+    if (!presence) return null;
+    if (presence.isOnline) return 'online';
+    return presence.lastSeenAt ? formatLastSeen(presence.lastSeenAt) : null;
+  }, [presence]);
+
+  return { isOnline: !!presence?.isOnline, presenceText };
+}
@@ -0,0 +1,140 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { AppState, type AppStateStatus } from 'react-native';
+import type { Socket } from 'socket.io-client';
+
+import { fetchGroupMembers } from '../services/api';
+import type { ChatMessage } from '../components/chat/MessageBubble';
+
+// ── Server → Client broadcast when a member's read position moves ────────────
+interface MessageReadEvent {
+  groupId: string;
+  userId: string;
+  messageId: string;
+  readAt: string;
+}
+
+interface ReadPosition {
+  messageId: string;
+  readAt: string;
+}
+
+// ── Hook params ──────────────────────────────────────────────────────────────
+interface UseReadReceiptsParams {
+  groupId: string;
+  userId: string | null;
+  socket: Socket | null;
+  isConnected: boolean;
+  messages: ChatMessage[];
+}
+
+export interface UseReadReceiptsReturn {
+  /** Own message id → number of other members who have read it. */
+  readCountById: Map<string, number>;
+}
+
+// ── Hook ─────────────────────────────────────────────────────────────────────
+export function useReadReceipts({
+  groupId,
+  userId,
+  socket,
+  isConnected,
+  messages,
+}: UseReadReceiptsParams): UseReadReceiptsReturn {
+  const [positions, setPositions] = useState<Map<string, ReadPosition>>(new Map());
+  const [appState, setAppState] = useState<AppStateStatus>(AppState.currentState);
+  const lastMarkedIdRef = useRef<string | null>(null);
+
+  // ── 1. Seed other members' read positions ─────────────────────────────────
+  useEffect(() => {
+    let cancelled = false;
+    setPositions(new Map());
+    lastMarkedIdRef.current = null;
+
+    fetchGroupMembers(groupId)
+      .then((members) => {
+        if (cancelled) return;
+        const next = new Map<string, ReadPosition>();
+        for (const m of members) {
+          if (m.userId === userId || !m.lastReadMessageId || !m.lastReadAt) continue;
+          next.set(m.userId, { messageId: m.lastReadMessageId, readAt: m.lastReadAt });
+        }
+        setPositions(next);
+      })
+      .catch(() => {
+        // Receipts are cosmetic — the chat works without them.
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [groupId, userId]);
+
+  // ── 2. Live updates ───────────────────────────────────────────────────────
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleMessageRead = (evt: MessageReadEvent) => {
+      if (evt.groupId !== groupId || evt.userId === userId) return;
+      setPositions((prev) => {
+        const next = new Map(prev);
+        next.set(evt.userId, { messageId: evt.messageId, readAt: evt.readAt });
+        return next;
+      });
+    };
+
+    socket.on('messageRead', handleMessageRead);
+    return () => {
+      socket.off('messageRead', handleMessageRead);
+    };
+  }, [socket, groupId, userId]);
+
+  useEffect(() => {
+    const sub = AppState.addEventListener('change', setAppState);
+    return () => sub.remove();
+  }, []);
+
+  // ── 3. Report our own position while the chat is in the foreground ────────
+  const newestPersistedId = useMemo(() => {
+    for (let i = messages.length - 1; i >= 0; i -= 1) {
+      if (!messages[i].isOptimistic) return messages[i].id;
+    }
+    return null;
+  }, [messages]);
+
+  useEffect(() => {
+    if (!socket || !isConnected || appState !== 'active') return;
+    if (!newestPersistedId || lastMarkedIdRef.current === newestPersistedId) return;
+
+    lastMarkedIdRef.current = newestPersistedId;
+    socket.emit('markRead', { groupId, messageId: newestPersistedId });
+  }, [socket, isConnected, appState, groupId, newestPersistedId]);
+
+  // ── 4. Per-message read counts for own messages ───────────────────────────
+  const readCountById = useMemo(() => {
+    const counts = new Map<string, number>();
+    if (!userId || positions.size === 0) return counts;
+
+    const indexById = new Map<string, number>();
+    messages.forEach((m, i) => indexById.set(m.id, i));
+
+    // A reader has seen message i when their read message sits at or after i
+    // in the list. Fall back to timestamps when that message isn't loaded.
+    const readers = [...positions.values()].map((p) => ({
+      index: indexById.get(p.messageId),
+      readAtMs: new Date(p.readAt).getTime(),
+    }));
+
+    messages.forEach((m, i) => {
+      if (m.senderId !== userId || m.isOptimistic) return;
+      const createdAtMs = m.createdAt ? new Date(m.createdAt).getTime() : Infinity;
+      const count = readers.filter((r) =>
+        r.index != null ? r.index >= i : r.readAtMs >= createdAtMs,
+      ).length;
+      if (count > 0) counts.set(m.id, count);
+    });
+
+    return counts;
+  }, [messages, positions, userId]);
+
+  return { readCountById };
+}
@@ -5,10 +5,17 @@
  * `navigation.navigate()`, `route.params`, etc. throughout the app.
  */
 
+import type { GroupMemberRole, MessageRetention, RevisionVisibility } from '../services/api';
+
 // ── Auth Stack (unauthenticated) ─────────────────────────────────────────────
 export type AuthStackParamList = {
   Login: undefined;
   Register: undefined;
+  ForgotPassword: { email?: string };
+  /** Entered after the reset code has been emailed to `email`. */
+  ResetPassword: { email: string };
+  /** Password accepted; the account also needs an authenticator code. */
+  TwoFactorLogin: { challengeToken: string };
 };
 
 // ── Main Tab Navigator (authenticated, home screen) ──────────────────────────
@@ -32,12 +39,46 @@ export type AppStackParamList = {
     isDm?: boolean;
     preferredLanguage?: string | null;
     otherUserPicture?: string | null;
+    /** Group picture for the header; unused in DMs. */
+    groupAvatarUrl?: string | null;
     /** ID of the other participant in a DM — used to navigate to PersonInfo. */
     otherUserId?: string | null;
+    messageRetention?: MessageRetention;
+    editWindowMinutes?: number;
+    revisionVisibility?: RevisionVisibility;
+    onlyAdminsCanPost?: boolean;
+    onlyAdminsCanEditInfo?: boolean;
+    /** The current user's role, so admin-only controls don't wait for the member list. */
+    role?: GroupMemberRole;
+    /** Scroll to and highlight this message once the chat opens (search results). */
+    focusMessageId?: string;
+    /** Open the in-chat search with this query (app-wide search "see more"). */
+    searchQuery?: string;
+    /** DM from a stranger the user hasn't accepted yet — shows accept/decline. */
+    isMessageRequest?: boolean;
   };
   CreateGroup: undefined;
   Profile: undefined;
   PersonalDictionary: undefined;
-  GroupInfo: { groupId: string; groupName: string };
+  BlockedUsers: undefined;
+  Devices: undefined;
+  VerifyEmail: undefined;
+  TwoFactor: undefined;
+  GroupInfo: {
+    groupId: string;
+    groupName: string;
+    avatarUrl?: string | null;
+    messageRetention?: MessageRetention;
+    editWindowMinutes?: number;
+    revisionVisibility?: RevisionVisibility;
+    onlyAdminsCanPost?: boolean;
+    onlyAdminsCanEditInfo?: boolean;
+  };
+  GroupReports: { groupId: string; groupName: string };
+  GroupInvites: { groupId: string; groupName: string };
+  /** Opened from a `linklanka://join/<token>` invite link. */
+  JoinGroup: { token: string };
   PersonInfo: { userId: string; displayName: string; profilePictureUrl?: string | null };
+  StarredMessages: undefined;
+  Search: undefined;
 };
@@ -0,0 +1,190 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+
+import { fetchBlockedUsers, unblockUser, type BlockedUser } from '../services/api';
+import { getApiErrorMessage } from '../utils/auth';
+import { useTheme } from '../contexts/ThemeContext';
+import type { AppStackParamList } from '../navigation/types';
+
+type Props = NativeStackScreenProps<AppStackParamList, 'BlockedUsers'>;
+
+function getInitials(name: string): string {
+  return name
+    .trim()
+    .split(/\s+/)
+    .slice(0, 2)
+    .map((p) => p[0])
+    .join('')
+    .toUpperCase();
+}
+
+// ── Component ────────────────────────────────────────────────────────────────
+export default function BlockedUsersScreen({ navigation }: Props) {
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+
+  const [users, setUsers] = useState<BlockedUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+  const [unblockingId, setUnblockingId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError(false);
+    try {
+      setUsers(await fetchBlockedUsers());
+    } catch {
+      setLoadError(true);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const handleUnblock = useCallback(async (user: BlockedUser) => {
+    setUnblockingId(user.id);
+    try {
+      await unblockUser(user.id);
+      setUsers((prev) => prev.filter((u) => u.id !== user.id));
+    } catch (err) {
+      Alert.alert('Could not unblock', getApiErrorMessage(err));
+    } finally {
+      setUnblockingId(null);
+    }
+  }, []);
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View
+        style={[styles.header, { paddingTop: insets.top + 12, backgroundColor: colors.headerBg }]}
+      >
+        <Pressable onPress={() => navigation.goBack()} hitSlop={12}>
+          <Ionicons name="arrow-back" size={24} color={colors.headerText} />
+        </Pressable>
+        <Text style={[styles.headerTitle, { color: colors.headerText }]}>Blocked Users</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.spinnerColor} />
+        </View>
+      ) : loadError ? (
+        <View style={styles.centered}>
+          <Ionicons name="cloud-offline-outline" size={48} color={colors.emptyIcon} />
+          <Text style={[styles.emptyText, { color: colors.emptyText }]}>
+            Could not load blocked users
+          </Text>
+          <Pressable
+            onPress={() => void load()}
+            style={[styles.retryBtn, { backgroundColor: colors.primary }]}
+          >
+            <Text style={styles.retryText}>Retry</Text>
+          </Pressable>
+        </View>
+      ) : users.length === 0 ? (
+        <View style={styles.centered}>
+          <Ionicons name="ban-outline" size={48} color={colors.emptyIcon} />
+          <Text style={[styles.emptyText, { color: colors.emptyText }]}>No blocked users</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={users}
+          keyExtractor={(u) => u.id}
+          contentContainerStyle={{ paddingBottom: insets.bottom + 24 }}
+          renderItem={({ item }) => (
+            <View style={[styles.row, { borderBottomColor: colors.rowBorder }]}>
+              {item.profilePictureUrl ? (
+                <Image
+                  source={{ uri: item.profilePictureUrl }}
+                  style={styles.avatar}
+                  contentFit="cover"
+                  transition={200}
+                />
+              ) : (
+                <View style={[styles.avatar, { backgroundColor: colors.avatarFallbackBg }]}>
+                  <Text style={styles.avatarInitials}>{getInitials(item.displayName)}</Text>
+                </View>
+              )}
+              <Text style={[styles.name, { color: colors.text }]} numberOfLines={1}>
+                {item.displayName}
+              </Text>
+              <Pressable
+                onPress={() => void handleUnblock(item)}
+                disabled={unblockingId === item.id}
+                style={[styles.unblockBtn, { borderColor: colors.border }]}
+                hitSlop={6}
+              >
+                {unblockingId === item.id ? (
+                  <ActivityIndicator size="small" color={colors.primary} />
+                ) : (
+                  <Text style={[styles.unblockText, { color: colors.primary }]}>Unblock</Text>
+                )}
+              </Pressable>
+            </View>
+          )}
+        />
+      )}
+    </View>
+  );
+}
+
+// ── Styles ───────────────────────────────────────────────────────────────────
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  headerTitle: { fontSize: 18, fontWeight: '700' },
+  centered: { flex: 1, justifyContent: 'center', alignItems: 'center', gap: 10 },
+  emptyText: { fontSize: 15 },
+  retryBtn: { marginTop: 4, paddingHorizontal: 24, paddingVertical: 10, borderRadius: 8 },
+  retryText: { color: '#fff', fontWeight: '600', fontSize: 14 },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  avatar: {
+    width: 42,
+    height: 42,
+    borderRadius: 21,
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+  },
+  avatarInitials: { color: '#fff', fontSize: 15, fontWeight: '700' },
+  name: { flex: 1, fontSize: 16, fontWeight: '600' },
+  unblockBtn: {
+    minWidth: 84,
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 7,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  unblockText: { fontSize: 13, fontWeight: '600' },
+});
@@ -1,4 +1,4 @@
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -22,31 +22,61 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import type { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { Ionicons } from '@expo/vector-icons';
 
-import { setLanguagePreference } from '../services/api';
+import {
+  acceptMessageRequest,
+  blockUser,
+  declineMessageRequest,
+  reportMessage,
+  setLanguagePreference,
+  type EditSettings,
+  type MessageRetention,
+  type PinnedMessageItem,
+  type ReportReason,
+} from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
 import { useSocket } from '../contexts/SocketContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { useNotification } from '../contexts/NotificationContext';
 import { ChatListProvider } from '../contexts/ChatListContext';
 import { ChatAudioPlayerProvider } from '../contexts/ChatAudioPlayerContext';
-import ChatInput from '../components/chat/ChatInput';
+import ChatInput, { type ReplyComposerTarget } from '../components/chat/ChatInput';
 import EditMessageBar from '../components/chat/EditMessageBar';
-import MessageBubble, { MediatingAnimProvider, type ChatMessage } from '../components/chat/MessageBubble';
+import MessageRequestBar from '../components/chat/MessageRequestBar';
+import ReadOnlyBar from '../components/chat/ReadOnlyBar';
+import MessageBubble, {
+  MediatingAnimProvider,
+  getReplyQuoteText,
+  type ChatMessage,
+  type ReplyPreview,
+} from '../components/chat/MessageBubble';
 import DocumentInterrogationModal from '../components/chat/DocumentInterrogationModal';
 import ChatSearchModal from '../components/chat/ChatSearchModal';
 import ChatHeader from '../components/chat/ChatHeader';
 import LanguagePickerModal, { type PreferredLanguage } from '../components/chat/LanguagePickerModal';
 import ChatSkeleton from '../components/chat/ChatSkeleton';
+import ReactionPicker from '../components/chat/ReactionPicker';
+import PinnedBanner from '../components/chat/PinnedBanner';
+import ForwardModal from '../components/chat/ForwardModal';
+import MessageRevisionsSheet from '../components/chat/MessageRevisionsSheet';
+import ReportMessageSheet from '../components/chat/ReportMessageSheet';
 import type { AppStackParamList } from '../navigation/types';
 
-import { useChatMessages } from '../hooks/useChatMessages';
+import { useChatMessages, type ChatPayload } from '../hooks/useChatMessages';
 import { useChatSelection } from '../hooks/useChatSelection';
 import { useChatEdit } from '../hooks/useChatEdit';
+import { useReadReceipts } from '../hooks/useReadReceipts';
+import { useChatActivity } from '../hooks/useChatActivity';
+import { usePresence } from '../hooks/usePresence';
+import { usePinnedMessages } from '../hooks/usePinnedMessages';
+import { useGroupRole } from '../hooks/useGroupRole';
 import { getTranslatedOnlyMode } from '../utils/secureStorage';
+import { getApiErrorMessage } from '../utils/auth';
 
 type Props = NativeStackScreenProps<AppStackParamList, 'Chat'>;
 
 const CHAT_DRAW_DISTANCE = 420;
+/** Stop paging back for a pinned or searched-for message after this many history pages. */
+const MAX_JUMP_PAGES = 20;
 const ENABLE_CHAT_PERF_METRICS = __DEV__;
 
 type ScrollPerfSession = {
@@ -81,7 +111,24 @@ function roundMetric(value: number): number {
 
 // ── Component ────────────────────────────────────────────────────────────────
 export default function ChatScreen({ navigation, route }: Props) {
-  const { groupId, groupName, isDm, preferredLanguage: initialLang, otherUserPicture, otherUserId } = route.params;
+  const {
+    groupId,
+    groupName,
+    isDm,
+    preferredLanguage: initialLang,
+    otherUserPicture,
+    groupAvatarUrl,
+    otherUserId,
+    messageRetention: initialRetention,
+    editWindowMinutes: initialEditWindow,
+    revisionVisibility: initialRevisionVisibility,
+    onlyAdminsCanPost: initialOnlyAdminsCanPost,
+    onlyAdminsCanEditInfo: initialOnlyAdminsCanEditInfo,
+    role: initialRole,
+    focusMessageId,
+    searchQuery: initialSearchQuery,
+    isMessageRequest,
+  } = route.params;
   const { userId, userDialect } = useAuth();
   const { socket, isConnected } = useSocket();
   const { colors } = useTheme();
@@ -316,6 +363,11 @@ export default function ChatScreen({ navigation, route }: Props) {
     loadOlderMessages,
     handleSendMessage,
     handleRetry,
+    toggleReaction,
+    createPoll,
+    votePoll,
+    closePoll,
+    toggleStar,
   } = useChatMessages({
     groupId,
     userId,
@@ -358,6 +410,31 @@ export default function ChatScreen({ navigation, route }: Props) {
     };
   }, [isLoadingHistory, logPerf]);
 
+  // ── Read receipts ───────────────────────────────────────────────────────
+  const { readCountById } = useReadReceipts({
+    groupId,
+    userId,
+    socket,
+    isConnected,
+    messages,
+  });
+
+  // ── Typing / recording indicators ───────────────────────────────────────
+  const { activityText, notifyTyping, stopTyping, notifyRecording } = useChatActivity({
+    groupId,
+    userId,
+    socket,
+    isConnected,
+    isDm: !!isDm,
+  });
+
+  // ── DM partner presence ─────────────────────────────────────────────────
+  const { presenceText } = usePresence({
+    userId: isDm ? otherUserId : null,
+    socket,
+    isConnected,
+  });
+
   // ── Edit ────────────────────────────────────────────────────────────────
   const {
     editingMessageId: activeEditId,
@@ -420,8 +497,46 @@ export default function ChatScreen({ navigation, route }: Props) {
     setDocModal((prev) => ({ ...prev, visible: false }));
   }, []);
 
+  // ── Message request (DM from a stranger) ───────────────────────────────
+  const [isRequestPending, setIsRequestPending] = useState(!!isMessageRequest);
+  const [isAnsweringRequest, setIsAnsweringRequest] = useState(false);
+
+  const answerRequest = useCallback(
+    async (answer: 'accept' | 'decline' | 'block') => {
+      setIsAnsweringRequest(true);
+      try {
+        if (answer === 'accept') {
+          await acceptMessageRequest(groupId);
+          setIsRequestPending(false);
+          return;
+        }
+        // Blocking declines the request on the server as well.
+        await (answer === 'block' && otherUserId
+          ? blockUser(otherUserId)
+          : declineMessageRequest(groupId));
+        navigation.goBack();
+      } catch (err) {
+        Alert.alert('Could not update request', getApiErrorMessage(err));
+      } finally {
+        setIsAnsweringRequest(false);
+      }
+    },
+    [groupId, otherUserId, navigation],
+  );
+
+  const handleBlockRequest = useCallback(() => {
+    Alert.alert(
+      `Block ${groupName}?`,
+      "They won't be able to message you, and you won't see their messages or notifications in shared groups.",
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Block', style: 'destructive', onPress: () => void answerRequest('block') },
+      ],
+    );
+  }, [groupName, answerRequest]);
+
   // ── Search state ───────────────────────────────────────────────────────
-  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(!!initialSearchQuery);
   const highlightedMessageId = useSharedValue<string | null>(null);
   const highlightTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const flatListRef = useRef<FlashListRef<ChatMessage>>(null);
@@ -577,6 +692,189 @@ export default function ChatScreen({ navigation, route }: Props) {
     [highlightedMessageId],
   );
 
+  // ── Role & pins ─────────────────────────────────────────────────────────
+  const { permissions, isAdmin, canModerate, canPost } = useGroupRole({
+    groupId,
+    userId,
+    socket,
+    isDm: !!isDm,
+    initialRole,
+    initialPermissions: {
+      onlyAdminsCanPost: initialOnlyAdminsCanPost ?? false,
+      onlyAdminsCanEditInfo: initialOnlyAdminsCanEditInfo ?? false,
+    },
+  });
+  const { pins, pinnedMessageIds, canPin, togglePin } = usePinnedMessages({
+    groupId,
+    socket,
+    isConnected,
+    isDm: !!isDm,
+    isAdmin,
+  });
+  const pendingJumpIdRef = useRef<string | null>(null);
+
+  const handleTogglePin = useCallback(() => {
+    const [mid] = [...selectedIdsRef.current];
+    exitSelectionMode();
+    if (mid) togglePin(mid);
+  }, [exitSelectionMode, selectedIdsRef, togglePin]);
+
+  const handleToggleStar = useCallback(() => {
+    const [mid] = [...selectedIdsRef.current];
+    exitSelectionMode();
+    if (mid) toggleStar(mid);
+  }, [exitSelectionMode, selectedIdsRef, toggleStar]);
+
+  // ── Report ──────────────────────────────────────────────────────────────
+  const [reportMessageId, setReportMessageId] = useState<string | null>(null);
+  const [isReporting, setIsReporting] = useState(false);
+
+  const handleOpenReport = useCallback(() => {
+    const [mid] = [...selectedIdsRef.current];
+    exitSelectionMode();
+    if (mid) setReportMessageId(mid);
+  }, [exitSelectionMode, selectedIdsRef]);
+
+  const handleSubmitReport = useCallback(
+    async (reason: ReportReason, details: string) => {
+      if (!reportMessageId) return;
+      setIsReporting(true);
+      try {
+        await reportMessage(groupId, {
+          messageId: reportMessageId,
+          reason,
+          details: details.trim() || undefined,
+        });
+        setReportMessageId(null);
+        Alert.alert('Report sent', 'Thanks for letting us know. A moderator will review it.');
+      } catch (err) {
+        Alert.alert('Could not report message', getApiErrorMessage(err));
+      } finally {
+        setIsReporting(false);
+      }
+    },
+    [groupId, reportMessageId],
+  );
+
+  // A pin or search hit can predate the loaded history — page back until it
+  // shows up and let the effect below scroll to it once it renders.
+  const jumpToMessage = useCallback(
+    async (messageId: string) => {
+      if (messagesRef.current.some((m) => m.id === messageId)) {
+        handleGoToMessage(messageId);
+        return;
+      }
+      pendingJumpIdRef.current = messageId;
+      for (let page = 0; page < MAX_JUMP_PAGES; page += 1) {
+        if (pendingJumpIdRef.current !== messageId) return;
+        const mayHaveMore = await loadOlderMessages();
+        if (!mayHaveMore) return;
+      }
+    },
+    [handleGoToMessage, loadOlderMessages],
+  );
+
+  const handlePressPin = useCallback(
+    (pin: PinnedMessageItem) => jumpToMessage(pin.messageId),
+    [jumpToMessage],
+  );
+
+  useEffect(() => {
+    const targetId = pendingJumpIdRef.current;
+    if (!targetId || !messages.some((m) => m.id === targetId)) return;
+    pendingJumpIdRef.current = null;
+    requestAnimationFrame(() => handleGoToMessage(targetId));
+  }, [messages, handleGoToMessage]);
+
+  // Opened from a search result — jump once the first page of history is in.
+  const focusHandledRef = useRef(false);
+  useEffect(() => {
+    if (!focusMessageId || isLoadingHistory || focusHandledRef.current) return;
+    focusHandledRef.current = true;
+    jumpToMessage(focusMessageId);
+  }, [focusMessageId, isLoadingHistory, jumpToMessage]);
+
+  // ── Reply ───────────────────────────────────────────────────────────────
+  const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null);
+
+  useEffect(() => {
+    setReplyingTo(null);
+  }, [groupId]);
+
+  const handleStartReply = useCallback(() => {
+    const [mid] = [...selectedIdsRef.current];
+    const msg = messagesRef.current.find((m) => m.id === mid);
+    exitSelectionMode();
+    if (msg && !msg.isOptimistic) setReplyingTo(msg);
+  }, [exitSelectionMode, selectedIdsRef]);
+
+  const handleCancelReply = useCallback(() => setReplyingTo(null), []);
+
+  /** Local quote for the optimistic bubble — replaced by the server's on ack. */
+  const replyPreview = useMemo<ReplyPreview | null>(() => {
+    if (!replyingTo) return null;
+    return {
+      id: replyingTo.id,
+      isDeleted: false,
+      senderId: replyingTo.senderId,
+      senderName: isDm ? groupName : null,
+      contentType: replyingTo.contentType,
+      text:
+        replyingTo.contentType === 'TEXT' || replyingTo.contentType === 'POLL'
+          ? replyingTo.rawContent
+          : null,
+      fileName: replyingTo.fileName ?? null,
+      translations: replyingTo.translations ?? null,
+    };
+  }, [replyingTo, isDm, groupName]);
+
+  const replyTarget = useMemo<ReplyComposerTarget | null>(() => {
+    if (!replyPreview) return null;
+    return {
+      authorLabel:
+        replyPreview.senderId === userId ? 'yourself' : replyPreview.senderName,
+      text: getReplyQuoteText(replyPreview, userId ?? '', preferredLanguage),
+    };
+  }, [replyPreview, userId, preferredLanguage]);
+
+  const handleSendWithReply = useCallback(
+    (payload: ChatPayload) => {
+      stopTyping();
+      if (!replyPreview) {
+        handleSendMessage(payload);
+        return;
+      }
+      handleSendMessage({ ...payload, replyToId: replyPreview.id, replyTo: replyPreview });
+      setReplyingTo(null);
+    },
+    [handleSendMessage, replyPreview, stopTyping],
+  );
+
+  // ── Reactions ───────────────────────────────────────────────────────────
+  const [reactionTargetId, setReactionTargetId] = useState<string | null>(null);
+
+  const handleOpenReactionPicker = useCallback(() => {
+    const [mid] = [...selectedIdsRef.current];
+    exitSelectionMode();
+    if (mid) setReactionTargetId(mid);
+  }, [exitSelectionMode, selectedIdsRef]);
+
+  const handleSelectReaction = useCallback(
+    (emoji: string) => {
+      if (reactionTargetId) toggleReaction(reactionTargetId, emoji);
+      setReactionTargetId(null);
+    },
+    [reactionTargetId, toggleReaction],
+  );
+
+  const reactionTargetEmojis = useMemo(() => {
+    if (!reactionTargetId || !userId) return [];
+    const target = messages.find((m) => m.id === reactionTargetId);
+    return (target?.reactions ?? [])
+      .filter((r) => r.userIds.includes(userId))
+      .map((r) => r.emoji);
+  }, [reactionTargetId, messages, userId]);
+
   // ── Hardware back button exits selection/edit mode ──────────────────────
   useEffect(() => {
     const sub = BackHandler.addEventListener('hardwareBackPress', () => {
@@ -593,6 +891,88 @@ export default function ChatScreen({ navigation, route }: Props) {
     return () => sub.remove();
   }, [selectionMode, activeEditId, cancelEdit, exitSelectionMode]);
 
+  // ── Forward ─────────────────────────────────────────────────────────────
+  const [forwardMessageIds, setForwardMessageIds] = useState<string[]>([]);
+
+  const handleOpenForward = useCallback(() => {
+    const ids = [...selectedIdsRef.current].filter((id) => {
+      const msg = messagesRef.current.find((m) => m.id === id);
+      return !!msg && !msg.isOptimistic;
+    });
+    exitSelectionMode();
+    setForwardMessageIds(ids);
+  }, [exitSelectionMode, selectedIdsRef]);
+
+  const handleForward = useCallback(
+    (targetGroupIds: string[]) => {
+      socket?.emit('forwardMessages', { messageIds: forwardMessageIds, targetGroupIds });
+      setForwardMessageIds([]);
+    },
+    [socket, forwardMessageIds],
+  );
+
+  useEffect(() => {
+    if (!socket) return;
+    const handleForwardFailed = (evt: { reason: string }) => {
+      Alert.alert('Forward failed', evt.reason);
+    };
+    socket.on('forwardFailed', handleForwardFailed);
+    return () => {
+      socket.off('forwardFailed', handleForwardFailed);
+    };
+  }, [socket]);
+
+  // ── Disappearing messages ───────────────────────────────────────────────
+  const [messageRetention, setMessageRetention] = useState<MessageRetention>(
+    initialRetention ?? 'off',
+  );
+
+  useEffect(() => {
+    if (!socket) return;
+    const handleRetentionChanged = (evt: {
+      groupId: string;
+      messageRetention: MessageRetention;
+    }) => {
+      if (evt.groupId === groupId) setMessageRetention(evt.messageRetention);
+    };
+    socket.on('messageRetentionChanged', handleRetentionChanged);
+    return () => {
+      socket.off('messageRetentionChanged', handleRetentionChanged);
+    };
+  }, [socket, groupId]);
+
+  // ── Edit window & edit history ──────────────────────────────────────────
+  const [editSettings, setEditSettings] = useState<EditSettings>({
+    editWindowMinutes: initialEditWindow ?? 15,
+    revisionVisibility: initialRevisionVisibility ?? 'members',
+  });
+  const [revisionsTarget, setRevisionsTarget] = useState<{ messageId: string; isOwn: boolean } | null>(
+    null,
+  );
+
+  useEffect(() => {
+    if (!socket) return;
+    const handleEditSettingsChanged = (evt: { groupId: string } & EditSettings) => {
+      if (evt.groupId !== groupId) return;
+      setEditSettings({
+        editWindowMinutes: evt.editWindowMinutes,
+        revisionVisibility: evt.revisionVisibility,
+      });
+    };
+    socket.on('editSettingsChanged', handleEditSettingsChanged);
+    return () => {
+      socket.off('editSettingsChanged', handleEditSettingsChanged);
+    };
+  }, [socket, groupId]);
+
+  const handleViewEdits = useCallback(
+    (messageId: string) => {
+      const msg = messagesRef.current.find((m) => m.id === messageId);
+      setRevisionsTarget({ messageId, isOwn: msg?.senderId === userId });
+    },
+    [messagesRef, userId],
+  );
+
   // ── Delete handler ──────────────────────────────────────────────────────
   const handleDelete = useCallback(() => {
     const ref = selectedIdsRef.current;
@@ -601,12 +981,17 @@ export default function ChatScreen({ navigation, route }: Props) {
 
     const ownMessageIds: string[] = [];
     const receivedMessageIds: string[] = [];
+    let isModerating = false;
 
     for (const id of ref) {
       const msg = messagesRef.current.find((m) => m.id === id);
       if (!msg || msg.isOptimistic) continue;
       if (msg.senderId === userId) {
         ownMessageIds.push(id);
+      } else if (canModerate) {
+        // Moderators delete other people's messages for everyone.
+        ownMessageIds.push(id);
+        isModerating = true;
       } else {
         receivedMessageIds.push(id);
       }
@@ -620,7 +1005,12 @@ export default function ChatScreen({ navigation, route }: Props) {
         ? 'Delete this message? This cannot be undone.'
         : `Delete these ${count} messages? This cannot be undone.`;
 
-    if (ownMessageIds.length > 0 && receivedMessageIds.length > 0) {
+    if (isModerating) {
+      body =
+        count === 1
+          ? 'Delete this message for everyone in the group? This cannot be undone.'
+          : `Delete these ${count} messages for everyone in the group? This cannot be undone.`;
+    } else if (ownMessageIds.length > 0 && receivedMessageIds.length > 0) {
       body =
         `Delete ${ownMessageIds.length} sent message(s) for everyone and remove ` +
         `${receivedMessageIds.length} received message(s) from your chat? This cannot be undone.`;
@@ -657,7 +1047,16 @@ export default function ChatScreen({ navigation, route }: Props) {
         },
       ],
     );
-  }, [socket, groupId, exitSelectionMode, selectedIdsRef, messagesRef, userId]);
+  }, [socket, groupId, exitSelectionMode, selectedIdsRef, messagesRef, userId, canModerate]);
+
+  // Mirrors the server check so the "edited" label is only tappable when the history would load.
+  const canViewEdits = useCallback(
+    (msg: ChatMessage) =>
+      msg.senderId === userId ||
+      editSettings.revisionVisibility === 'members' ||
+      (editSettings.revisionVisibility === 'admins' && !isDm && canPin),
+    [userId, editSettings.revisionVisibility, isDm, canPin],
+  );
 
   // ── Render helpers ──────────────────────────────────────────────────────
   const renderItem = useCallback(
@@ -677,6 +1076,13 @@ export default function ChatScreen({ navigation, route }: Props) {
         onLongPress={handleLongPress}
         onPress={handleToggleSelect}
         onOpenDocumentInterrogation={handleOpenDocumentInterrogation}
+        onPressReply={handleGoToMessage}
+        onToggleReaction={toggleReaction}
+        onVotePoll={votePoll}
+        onClosePoll={closePoll}
+        onViewEdits={canViewEdits(item) ? handleViewEdits : undefined}
+        readCount={readCountById.get(item.id)}
+        isDm={isDm}
       />
       );
     },
@@ -687,6 +1093,14 @@ export default function ChatScreen({ navigation, route }: Props) {
       handleLongPress,
       handleToggleSelect,
       handleOpenDocumentInterrogation,
+      handleGoToMessage,
+      toggleReaction,
+      votePoll,
+      closePoll,
+      canViewEdits,
+      handleViewEdits,
+      readCountById,
+      isDm,
     ],
   );
 
@@ -708,10 +1122,18 @@ export default function ChatScreen({ navigation, route }: Props) {
         selectedIdsRef={selectedIdsRef}
         messagesRef={messagesRef}
         userId={userId}
+        editWindowMinutes={editSettings.editWindowMinutes}
         selHeaderAnimStyle={selHeaderAnimStyle}
         normHeaderAnimStyle={normHeaderAnimStyle}
         onExitSelection={exitSelectionMode}
         onStartEdit={startEdit}
+        onReply={handleStartReply}
+        onReact={handleOpenReactionPicker}
+        onTogglePin={canPin ? handleTogglePin : undefined}
+        pinnedMessageIds={pinnedMessageIds}
+        onToggleStar={handleToggleStar}
+        onReport={handleOpenReport}
+        onForward={handleOpenForward}
         onDelete={handleDelete}
         onGoBack={() => navigation.goBack()}
         onOpenGroupInfo={() => {
@@ -722,7 +1144,15 @@ export default function ChatScreen({ navigation, route }: Props) {
               profilePictureUrl: otherUserPicture,
             });
           } else if (!isDm) {
-            navigation.navigate('GroupInfo', { groupId, groupName });
+            navigation.navigate('GroupInfo', {
+              groupId,
+              groupName,
+              avatarUrl: groupAvatarUrl,
+              messageRetention,
+              editWindowMinutes: editSettings.editWindowMinutes,
+              revisionVisibility: editSettings.revisionVisibility,
+              ...permissions,
+            });
           }
         }}
         onOpenLanguagePicker={() => setIsLanguagePickerOpen(true)}
@@ -730,7 +1160,19 @@ export default function ChatScreen({ navigation, route }: Props) {
         groupName={groupName}
         isDm={isDm}
         otherUserPicture={otherUserPicture}
+        groupAvatarUrl={groupAvatarUrl}
         isConnected={isConnected}
+        activityText={activityText}
+        presenceText={presenceText}
+      />
+
+      {/* Pinned messages */}
+      <PinnedBanner
+        pins={pins}
+        currentUserId={userId ?? ''}
+        preferredLanguage={preferredLanguage}
+        onPressPin={handlePressPin}
+        colors={colors}
       />
 
       {/* Language picker modal */}
@@ -742,6 +1184,42 @@ export default function ChatScreen({ navigation, route }: Props) {
         colors={colors}
       />
 
+      {/* Reaction picker */}
+      <ReactionPicker
+        visible={reactionTargetId !== null}
+        selectedEmojis={reactionTargetEmojis}
+        onSelect={handleSelectReaction}
+        onClose={() => setReactionTargetId(null)}
+        colors={colors}
+      />
+
+      {/* Forward target picker */}
+      <ForwardModal
+        visible={forwardMessageIds.length > 0}
+        messageCount={forwardMessageIds.length}
+        onForward={handleForward}
+        onClose={() => setForwardMessageIds([])}
+        colors={colors}
+      />
+
+      {/* Edit history */}
+      <MessageRevisionsSheet
+        messageId={revisionsTarget?.messageId ?? null}
+        isOwn={revisionsTarget?.isOwn ?? false}
+        preferredLanguage={preferredLanguage}
+        onClose={() => setRevisionsTarget(null)}
+        colors={colors}
+      />
+
+      {/* Report */}
+      <ReportMessageSheet
+        messageId={reportMessageId}
+        isSubmitting={isReporting}
+        onSubmit={handleSubmitReport}
+        onClose={() => setReportMessageId(null)}
+        colors={colors}
+      />
+
       {/* Messages */}
       {isLoadingHistory ? (
         <ChatSkeleton />
@@ -802,8 +1280,20 @@ export default function ChatScreen({ navigation, route }: Props) {
         </ChatListProvider>
       )}
 
-      {/* Input bar — hidden in selection mode, replaced by EditMessageBar in edit mode */}
-      {activeEditId ? (
+      {/* Input bar — hidden in selection mode, replaced by EditMessageBar in edit
+          mode, by MessageRequestBar until a DM request is answered and by
+          ReadOnlyBar in announcement groups */}
+      {isRequestPending ? (
+        <MessageRequestBar
+          senderName={groupName}
+          isBusy={isAnsweringRequest}
+          onAccept={() => void answerRequest('accept')}
+          onDecline={() => void answerRequest('decline')}
+          onBlock={handleBlockRequest}
+        />
+      ) : !canPost ? (
+        <ReadOnlyBar />
+      ) : activeEditId ? (
         <EditMessageBar
           initialText={
             messages.find((m) => m.id === activeEditId)?.rawContent ?? ''
@@ -812,7 +1302,17 @@ export default function ChatScreen({ navigation, route }: Props) {
           onConfirm={confirmEdit}
         />
       ) : (
-        <ChatInput onSendMessage={handleSendMessage} />
+        <ChatInput
+          onSendMessage={handleSendWithReply}
+          replyTarget={replyTarget}
+          onCancelReply={handleCancelReply}
+          onTyping={notifyTyping}
+          onRecordingChange={notifyRecording}
+          groupId={groupId}
+          isGroupChat={!isDm}
+          currentUserId={userId}
+          onCreatePoll={createPoll}
+        />
       )}
 
       {/* Document Interrogation Modal */}
@@ -830,8 +1330,9 @@ export default function ChatScreen({ navigation, route }: Props) {
       <ChatSearchModal
         visible={isSearchOpen}
         groupId={groupId}
+        initialQuery={initialSearchQuery}
         onClose={() => setIsSearchOpen(false)}
-        onGoToMessage={handleGoToMessage}
+        onGoToMessage={jumpToMessage}
       />
     </KeyboardAvoidingView>
   );
@@ -2,6 +2,7 @@ import React, { memo, useCallback, useEffect, useRef, useState } from 'react';
 import { useFocusEffect, useNavigation } from '@react-navigation/native';
 import {
   ActivityIndicator,
+  Alert,
   FlatList,
   Pressable,
   SectionList,
@@ -12,6 +13,10 @@ import {
 } from 'react-native';
 import { Image } from 'expo-image';
 import { Ionicons } from '@expo/vector-icons';
+import ReanimatedSwipeable, {
+  type SwipeableMethods,
+} from 'react-native-gesture-handler/ReanimatedSwipeable';
+import { isAxiosError } from 'axios';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
@@ -20,12 +25,15 @@ import { useSocket } from '../contexts/SocketContext';
 import { useTheme } from '../contexts/ThemeContext';
 import {
   fetchGroups,
+  fetchMessageRequests,
   searchUsers,
   createDm,
+  setConversationPreferences,
   type GroupItem,
   type UserItem,
 } from '../services/api';
 import type { AppStackParamList } from '../navigation/types';
+import { useInviteLinks } from '../hooks/useInviteLinks';
 
 type AppNav = NativeStackNavigationProp<AppStackParamList>;
 
@@ -54,6 +62,64 @@ function formatRelativeTime(dateStr: string | null): string {
   return new Date(dateStr).toLocaleDateString();
 }
 
+const HOUR_MS = 60 * 60 * 1000;
+
+/** "Always" is stored as a mute that never runs out. */
+const MUTE_FOREVER = '9999-12-31T23:59:59.000Z';
+
+// Android alerts show at most three buttons, so there's no Cancel —
+// tapping outside dismisses.
+const MUTE_OPTIONS: { label: string; until: () => string }[] = [
+  { label: '8 hours', until: () => new Date(Date.now() + 8 * HOUR_MS).toISOString() },
+  { label: '1 week', until: () => new Date(Date.now() + 7 * 24 * HOUR_MS).toISOString() },
+  { label: 'Always', until: () => MUTE_FOREVER },
+];
+
+type ChatSection = 'requests' | 'pinned' | 'dm' | 'group' | 'archived';
+
+const SECTION_TITLES: Record<ChatSection, string> = {
+  requests: 'Message Requests',
+  pinned: 'Pinned',
+  dm: 'Direct Messages',
+  group: 'Groups',
+  archived: 'Archived',
+};
+
+type SwipeAction = 'pin' | 'mute' | 'archive' | 'keepArchived';
+
+function isMuted(item: GroupItem): boolean {
+  return !!item.mutedUntil && new Date(item.mutedUntil).getTime() > Date.now();
+}
+
+type PreviewLanguage = 'english' | 'singlish' | 'tanglish';
+
+/** One-line preview of the newest message, in the reader's language. */
+function getLastMessagePreview(
+  item: GroupItem,
+  currentUserId: string | null,
+  fallbackLanguage: string | null,
+): string | null {
+  const last = item.lastMessage;
+  if (!last) return null;
+
+  const isOwn = last.senderId === currentUserId;
+  const language = (item.preferredLanguage ?? fallbackLanguage ?? 'english') as PreviewLanguage;
+  const translated = isOwn ? null : last.translations?.[language];
+
+  let body = translated || last.text;
+  if (body && last.contentType === 'POLL') body = `📊 ${body}`;
+  if (!body) {
+    if (last.contentType === 'AUDIO') body = 'Voice message';
+    else if (last.contentType === 'IMAGE') body = 'Photo';
+    else if (last.contentType === 'DOCUMENT') body = last.fileName ?? 'Document';
+    else body = '';
+  }
+
+  if (isOwn) return `You: ${body}`;
+  if (item.isGroup) return `${last.senderName.split(/\s+/)[0]}: ${body}`;
+  return body;
+}
+
 // ── Sub-components ────────────────────────────────────────────────────────────
 
 const Avatar = memo(function Avatar({
@@ -88,19 +154,134 @@ const Avatar = memo(function Avatar({
   );
 });
 
+const UnreadBadge = memo(function UnreadBadge({
+  count,
+  colors,
+}: {
+  count: number;
+  colors: any;
+}) {
+  if (count <= 0) return null;
+  return (
+    <View style={[styles.unreadBadge, { backgroundColor: colors.primary }]}>
+      <Text style={styles.unreadBadgeText}>{count > 99 ? '99+' : count}</Text>
+    </View>
+  );
+});
+
+/** Pin and mute markers shown after the chat name. */
+const RowStatusIcons = memo(function RowStatusIcons({
+  item,
+  colors,
+}: {
+  item: GroupItem;
+  colors: any;
+}) {
+  const muted = isMuted(item);
+  if (!item.pinnedAt && !muted) return null;
+  return (
+    <View style={styles.statusIcons}>
+      {muted && <Ionicons name="notifications-off" size={14} color={colors.textTertiary} />}
+      {item.pinnedAt && <Ionicons name="pin" size={14} color={colors.textTertiary} />}
+    </View>
+  );
+});
+
+/**
+ * Swipe a chat left for pin / mute / archive. Archived chats offer
+ * "keep archived" and unarchive instead.
+ */
+const SwipeableChatRow = memo(function SwipeableChatRow({
+  item,
+  onAction,
+  colors,
+  children,
+}: {
+  item: GroupItem;
+  onAction: (item: GroupItem, action: SwipeAction) => void;
+  colors: any;
+  children: React.ReactNode;
+}) {
+  const buttons: { action: SwipeAction; icon: keyof typeof Ionicons.glyphMap; label: string; bg: string }[] =
+    item.isArchived
+      ? [
+          {
+            action: 'keepArchived',
+            icon: item.keepArchived ? 'lock-open-outline' : 'lock-closed-outline',
+            label: item.keepArchived ? 'Auto' : 'Keep',
+            bg: colors.textTertiary,
+          },
+          { action: 'archive', icon: 'archive-outline', label: 'Unarchive', bg: colors.primary },
+        ]
+      : [
+          {
+            action: 'pin',
+            icon: item.pinnedAt ? 'pin-outline' : 'pin',
+            label: item.pinnedAt ? 'Unpin' : 'Pin',
+            bg: colors.success,
+          },
+          {
+            action: 'mute',
+            icon: isMuted(item) ? 'notifications-outline' : 'notifications-off-outline',
+            label: isMuted(item) ? 'Unmute' : 'Mute',
+            bg: colors.warning,
+          },
+          { action: 'archive', icon: 'archive-outline', label: 'Archive', bg: colors.primary },
+        ];
+
+  const renderRightActions = (
+    _progress: unknown,
+    _translation: unknown,
+    swipeable: SwipeableMethods,
+  ) => (
+    <View style={styles.swipeActions}>
+      {buttons.map((b) => (
+        <Pressable
+          key={b.action}
+          onPress={() => {
+            swipeable.close();
+            onAction(item, b.action);
+          }}
+          style={[styles.swipeAction, { backgroundColor: b.bg }]}
+          accessibilityLabel={b.label}
+        >
+          <Ionicons name={b.icon} size={20} color="#fff" />
+          <Text style={styles.swipeActionText}>{b.label}</Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+
+  return (
+    <ReanimatedSwipeable
+      friction={2}
+      rightThreshold={40}
+      overshootRight={false}
+      renderRightActions={renderRightActions}
+    >
+      <View style={{ backgroundColor: colors.background }}>{children}</View>
+    </ReanimatedSwipeable>
+  );
+});
+
 // ── Memoized row components (prevent re-renders when parent state changes) ──
 
 const DmRow = memo(function DmRow({
   item,
   onPress,
   colors,
+  currentUserId,
+  fallbackLanguage,
 }: {
   item: GroupItem;
   onPress: (item: GroupItem) => void;
   colors: any;
+  currentUserId: string | null;
+  fallbackLanguage: string | null;
 }) {
   const other = item.otherUser;
   const name = other?.displayName ?? 'Unknown';
+  const preview = getLastMessagePreview(item, currentUserId, fallbackLanguage);
   return (
     <Pressable
       onPress={() => onPress(item)}
@@ -108,11 +289,20 @@ const DmRow = memo(function DmRow({
     >
       <Avatar pictureUrl={other?.profilePictureUrl} name={name} fallbackBg={colors.avatarFallbackBg} />
       <View style={styles.rowContent}>
-        <Text style={[styles.chatName, { color: colors.text }]} numberOfLines={1}>{name}</Text>
+        <View style={styles.nameLine}>
+          <Text style={[styles.chatName, { color: colors.text }]} numberOfLines={1}>{name}</Text>
+          <RowStatusIcons item={item} colors={colors} />
+        </View>
         {item.lastMessageAt && (
-          <Text style={[styles.subText, { color: colors.textSecondary }]}>{formatRelativeTime(item.lastMessageAt)}</Text>
+          <Text
+            style={[styles.subText, { color: colors.textSecondary }, item.unreadCount > 0 && styles.subTextUnread]}
+            numberOfLines={1}
+          >
+            {preview ? `${preview} · ` : ''}{formatRelativeTime(item.lastMessageAt)}
+          </Text>
         )}
       </View>
+      <UnreadBadge count={item.unreadCount} colors={colors} />
       <Ionicons name="chevron-forward" size={18} color={colors.chevronColor} />
     </Pressable>
   );
@@ -122,26 +312,48 @@ const GroupRow = memo(function GroupRow({
   item,
   onPress,
   colors,
+  currentUserId,
+  fallbackLanguage,
 }: {
   item: GroupItem;
   onPress: (item: GroupItem) => void;
   colors: any;
+  currentUserId: string | null;
+  fallbackLanguage: string | null;
 }) {
+  const preview = getLastMessagePreview(item, currentUserId, fallbackLanguage);
   return (
     <Pressable
       onPress={() => onPress(item)}
       style={({ pressed }) => [styles.row, { borderBottomColor: colors.rowBorder }, pressed && { backgroundColor: colors.rowPressed }]}
     >
-      <View style={[styles.groupAvatar, { backgroundColor: colors.groupAvatarBg }]}>
-        <Ionicons name="people" size={22} color="#fff" />
-      </View>
+      {item.avatarUrl ? (
+        <Image
+          source={{ uri: item.avatarUrl }}
+          style={styles.groupAvatar}
+          contentFit="cover"
+          transition={200}
+          recyclingKey={item.avatarUrl}
+        />
+      ) : (
+        <View style={[styles.groupAvatar, { backgroundColor: colors.groupAvatarBg }]}>
+          <Ionicons name="people" size={22} color="#fff" />
+        </View>
+      )}
       <View style={styles.rowContent}>
-        <Text style={[styles.chatName, { color: colors.text }]} numberOfLines={1}>{item.name ?? 'Unnamed group'}</Text>
-        <Text style={[styles.subText, { color: colors.textSecondary }]} numberOfLines={1}>
-          {item.memberCount ?? 0} member{item.memberCount !== 1 ? 's' : ''}
+        <View style={styles.nameLine}>
+          <Text style={[styles.chatName, { color: colors.text }]} numberOfLines={1}>{item.name ?? 'Unnamed group'}</Text>
+          <RowStatusIcons item={item} colors={colors} />
+        </View>
+        <Text
+          style={[styles.subText, { color: colors.textSecondary }, item.unreadCount > 0 && styles.subTextUnread]}
+          numberOfLines={1}
+        >
+          {preview ?? `${item.memberCount ?? 0} member${item.memberCount !== 1 ? 's' : ''}`}
           {item.lastMessageAt ? ` · ${formatRelativeTime(item.lastMessageAt)}` : ''}
         </Text>
       </View>
+      <UnreadBadge count={item.unreadCount} colors={colors} />
       <Ionicons name="chevron-forward" size={18} color={colors.chevronColor} />
     </Pressable>
   );
@@ -174,14 +386,17 @@ const UserRow = memo(function UserRow({
 // ── Component ────────────────────────────────────────────────────────────────
 export default function ChatsListScreen() {
   const navigation = useNavigation<AppNav>();
-  const { logout, userDisplayName, userDialect, userProfilePicture } = useAuth();
+  const { logout, userId, userDisplayName, userDialect, userProfilePicture, userEmailVerified } =
+    useAuth();
   const { socket, isConnected } = useSocket();
   const { isDark, colors, toggleTheme } = useTheme();
   const insets = useSafeAreaInsets();
 
   const [groups, setGroups] = useState<GroupItem[]>([]);
+  const [requests, setRequests] = useState<GroupItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [loadError, setLoadError] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<UserItem[]>([]);
   const [isSearching, setIsSearching] = useState(false);
@@ -189,6 +404,12 @@ export default function ChatsListScreen() {
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const realtimeRefreshRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
+  // The chat list is always at the bottom of the stack, so it owns the
+  // `linklanka://join/<token>` deep link.
+  useInviteLinks(
+    useCallback((token: string) => navigation.navigate('JoinGroup', { token }), [navigation]),
+  );
+
   // ── Load groups ──────────────────────────────────────────────────────────
   const loadGroups = useCallback(async (options?: { silent?: boolean }) => {
     const silent = options?.silent === true;
@@ -198,8 +419,13 @@ export default function ChatsListScreen() {
     }
 
     try {
-      const data = await fetchGroups();
+      // Archived chats are fetched too so the Archived section can show them.
+      const [data, pending] = await Promise.all([
+        fetchGroups({ includeArchived: true }),
+        fetchMessageRequests(),
+      ]);
       setGroups(data);
+      setRequests(pending);
     } catch {
       if (!silent) {
         setLoadError(true);
@@ -317,6 +543,13 @@ export default function ChatsListScreen() {
         groupName: item.name ?? 'Group',
         isDm: false,
         preferredLanguage: item.preferredLanguage,
+        groupAvatarUrl: item.avatarUrl,
+        messageRetention: item.messageRetention,
+        editWindowMinutes: item.editWindowMinutes,
+        revisionVisibility: item.revisionVisibility,
+        onlyAdminsCanPost: item.onlyAdminsCanPost,
+        onlyAdminsCanEditInfo: item.onlyAdminsCanEditInfo,
+        role: item.role,
       });
     },
     [navigation],
@@ -331,6 +564,10 @@ export default function ChatsListScreen() {
         preferredLanguage: item.preferredLanguage,
         otherUserPicture: item.otherUser?.profilePictureUrl,
         otherUserId: item.otherUser?.id,
+        messageRetention: item.messageRetention,
+        editWindowMinutes: item.editWindowMinutes,
+        revisionVisibility: item.revisionVisibility,
+        isMessageRequest: item.isRequest,
       });
     },
     [navigation],
@@ -356,23 +593,117 @@ export default function ChatsListScreen() {
     [navigation],
   );
 
+  // ── Chat preferences (swipe actions) ─────────────────────────────────────
+  const updatePreferences = useCallback(
+    async (
+      item: GroupItem,
+      prefs: Parameters<typeof setConversationPreferences>[1],
+      optimistic: Partial<GroupItem>,
+    ) => {
+      setGroups((prev) => prev.map((g) => (g.id === item.id ? { ...g, ...optimistic } : g)));
+      try {
+        const saved = await setConversationPreferences(item.id, prefs);
+        setGroups((prev) => prev.map((g) => (g.id === item.id ? { ...g, ...saved } : g)));
+      } catch (err) {
+        const serverMessage = isAxiosError<{ message?: string }>(err)
+          ? err.response?.data?.message
+          : undefined;
+        Alert.alert(
+          'Could not update chat',
+          typeof serverMessage === 'string' ? serverMessage : 'Please try again.',
+        );
+      }
+      // Pick up the server's ordering (pinned chats, recent activity).
+      void loadGroups({ silent: true });
+    },
+    [loadGroups],
+  );
+
+  const handleSwipeAction = useCallback(
+    (item: GroupItem, action: SwipeAction) => {
+      switch (action) {
+        case 'pin': {
+          const isPinned = !item.pinnedAt;
+          void updatePreferences(
+            item,
+            { isPinned },
+            { pinnedAt: isPinned ? new Date().toISOString() : null, isArchived: false },
+          );
+          return;
+        }
+        case 'mute':
+          if (isMuted(item)) {
+            void updatePreferences(item, { mutedUntil: null }, { mutedUntil: null });
+            return;
+          }
+          Alert.alert(
+            'Mute notifications',
+            "You'll still be notified when someone mentions you.",
+            MUTE_OPTIONS.map((option) => ({
+              text: option.label,
+              onPress: () => {
+                const mutedUntil = option.until();
+                void updatePreferences(item, { mutedUntil }, { mutedUntil });
+              },
+            })),
+            { cancelable: true },
+          );
+          return;
+        case 'archive': {
+          const isArchived = !item.isArchived;
+          void updatePreferences(
+            item,
+            { isArchived },
+            isArchived ? { isArchived, pinnedAt: null } : { isArchived },
+          );
+          return;
+        }
+        case 'keepArchived':
+          void updatePreferences(
+            item,
+            { keepArchived: !item.keepArchived },
+            { keepArchived: !item.keepArchived },
+          );
+          return;
+      }
+    },
+    [updatePreferences],
+  );
+
   // ── Section data ─────────────────────────────────────────────────────────
-  const dms = groups.filter((g) => !g.isGroup);
-  const groupChats = groups.filter((g) => g.isGroup);
+  const activeChats = groups.filter((g) => !g.isArchived);
+  const archivedChats = groups.filter((g) => g.isArchived);
+  const pinned = activeChats
+    .filter((g) => g.pinnedAt)
+    .sort((a, b) => new Date(b.pinnedAt!).getTime() - new Date(a.pinnedAt!).getTime());
+  const dms = activeChats.filter((g) => !g.pinnedAt && !g.isGroup);
+  const groupChats = activeChats.filter((g) => !g.pinnedAt && g.isGroup);
 
   // ── Render helpers ───────────────────────────────────────────────────────
   const renderDmRow = useCallback(
     ({ item }: { item: GroupItem }) => (
-      <DmRow item={item} onPress={openDmChat} colors={colors} />
+      <DmRow
+        item={item}
+        onPress={openDmChat}
+        colors={colors}
+        currentUserId={userId}
+        fallbackLanguage={userDialect}
+      />
     ),
-    [openDmChat, colors],
+    [openDmChat, colors, userId, userDialect],
   );
 
   const renderGroupRow = useCallback(
     ({ item }: { item: GroupItem }) => (
-      <GroupRow item={item} onPress={openGroupChat} colors={colors} />
+      <GroupRow
+        item={item}
+        onPress={openGroupChat}
+        colors={colors}
+        currentUserId={userId}
+        fallbackLanguage={userDialect}
+      />
     ),
-    [openGroupChat, colors],
+    [openGroupChat, colors, userId, userDialect],
   );
 
   const renderUserRow = useCallback(
@@ -384,10 +715,16 @@ export default function ChatsListScreen() {
 
   const isSearchMode = searchQuery.trim().length > 0;
 
-  type Section = { title: 'dm'; data: GroupItem[] } | { title: 'group'; data: GroupItem[] };
+  type Section = { title: ChatSection; data: GroupItem[] };
   const sections: Section[] = [];
+  if (requests.length > 0) sections.push({ title: 'requests', data: requests });
+  if (pinned.length > 0) sections.push({ title: 'pinned', data: pinned });
   if (dms.length > 0) sections.push({ title: 'dm', data: dms });
   if (groupChats.length > 0) sections.push({ title: 'group', data: groupChats });
+  // Collapsed by default — the header toggles it.
+  if (archivedChats.length > 0) {
+    sections.push({ title: 'archived', data: showArchived ? archivedChats : [] });
+  }
 
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
@@ -414,6 +751,24 @@ export default function ChatsListScreen() {
             </View>
           )}
         </View>
+        {/* Search all chats */}
+        <Pressable
+          onPress={() => navigation.navigate('Search')}
+          hitSlop={12}
+          style={styles.headerIconBtn}
+          accessibilityLabel="Search messages"
+        >
+          <Ionicons name="search-outline" size={20} color={colors.headerTextSecondary} />
+        </Pressable>
+        {/* Starred messages */}
+        <Pressable
+          onPress={() => navigation.navigate('StarredMessages')}
+          hitSlop={12}
+          style={styles.headerIconBtn}
+          accessibilityLabel="Starred messages"
+        >
+          <Ionicons name="star-outline" size={20} color={colors.headerTextSecondary} />
+        </Pressable>
         {/* Theme toggle */}
         <Pressable onPress={toggleTheme} hitSlop={12} style={styles.themeToggle}>
           <Ionicons name={isDark ? 'sunny' : 'moon'} size={20} color={colors.headerTextSecondary} />
@@ -439,6 +794,21 @@ export default function ChatsListScreen() {
         {isSearching && <ActivityIndicator size="small" color={colors.spinnerColor} />}
       </View>
 
+      {/* Unverified email nudge */}
+      {userEmailVerified === false && !isSearchMode && (
+        <Pressable
+          onPress={() => navigation.navigate('VerifyEmail')}
+          style={[styles.verifyBanner, { backgroundColor: colors.primaryFaded }]}
+          accessibilityRole="button"
+        >
+          <Ionicons name="mail-unread-outline" size={18} color={colors.primary} />
+          <Text style={[styles.verifyBannerText, { color: colors.text }]}>
+            Verify your email so you can recover your account
+          </Text>
+          <Ionicons name="chevron-forward" size={16} color={colors.chevronColor} />
+        </Pressable>
+      )}
+
       {/* Content */}
       {isSearchMode ? (
         searchResults.length === 0 && !isSearching ? (
@@ -471,7 +841,7 @@ export default function ChatsListScreen() {
             <Text style={styles.retryText}>Retry</Text>
           </Pressable>
         </View>
-      ) : groups.length === 0 ? (
+      ) : groups.length === 0 && requests.length === 0 ? (
         <View style={styles.centered}>
           <Ionicons name="chatbubbles-outline" size={48} color={colors.emptyIcon} />
           <Text style={[styles.emptyText, { color: colors.emptyText }]}>No conversations yet</Text>
@@ -481,18 +851,43 @@ export default function ChatsListScreen() {
         <SectionList
           sections={sections}
           keyExtractor={(item) => item.id}
-          renderItem={({ item, section }) =>
-            section.title === 'dm'
-              ? renderDmRow({ item })
-              : renderGroupRow({ item })
+          renderItem={({ item }) =>
+            item.isRequest ? (
+              renderDmRow({ item })
+            ) : (
+              <SwipeableChatRow item={item} onAction={handleSwipeAction} colors={colors}>
+                {item.isGroup ? renderGroupRow({ item }) : renderDmRow({ item })}
+              </SwipeableChatRow>
+            )
+          }
+          renderSectionHeader={({ section }) =>
+            section.title === 'archived' ? (
+              <Pressable
+                onPress={() => setShowArchived((v) => !v)}
+                style={[styles.sectionHeader, styles.archivedHeader, { backgroundColor: colors.background }]}
+                accessibilityRole="button"
+                accessibilityLabel={showArchived ? 'Hide archived chats' : 'Show archived chats'}
+              >
+                <Ionicons name="archive-outline" size={14} color={colors.sectionHeaderText} />
+                <Text style={[styles.sectionHeaderText, { color: colors.sectionHeaderText }]}>
+                  {SECTION_TITLES.archived} ({archivedChats.length})
+                </Text>
+                <Ionicons
+                  name={showArchived ? 'chevron-up' : 'chevron-down'}
+                  size={14}
+                  color={colors.sectionHeaderText}
+                />
+              </Pressable>
+            ) : (
+              <View style={[styles.sectionHeader, { backgroundColor: colors.background }]}>
+                <Text style={[styles.sectionHeaderText, { color: colors.sectionHeaderText }]}>
+                  {section.title === 'requests'
+                    ? `${SECTION_TITLES.requests} (${requests.length})`
+                    : SECTION_TITLES[section.title]}
+                </Text>
+              </View>
+            )
           }
-          renderSectionHeader={({ section }) => (
-            <View style={[styles.sectionHeader, { backgroundColor: colors.background }]}>
-              <Text style={[styles.sectionHeaderText, { color: colors.sectionHeaderText }]}>
-                {section.title === 'dm' ? 'Direct Messages' : 'Groups'}
-              </Text>
-            </View>
-          )}
           contentContainerStyle={styles.list}
           stickySectionHeadersEnabled={false}
           removeClippedSubviews
@@ -547,6 +942,9 @@ const styles = StyleSheet.create({
     borderRadius: 10,
   },
   dialectBadgeText: { fontSize: 11, fontWeight: '600' },
+  headerIconBtn: {
+    padding: 6,
+  },
   themeToggle: {
     padding: 6,
   },
@@ -561,6 +959,17 @@ const styles = StyleSheet.create({
   },
   searchIcon: { marginRight: 6 },
   searchInput: { flex: 1, fontSize: 15 },
+  verifyBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 12,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 12,
+  },
+  verifyBannerText: { flex: 1, fontSize: 14, fontWeight: '500' },
   centered: { flex: 1, justifyContent: 'center', alignItems: 'center', gap: 10 },
   emptyText: { fontSize: 15 },
   emptyHint: { fontSize: 13 },
@@ -583,8 +992,24 @@ const styles = StyleSheet.create({
     borderBottomWidth: StyleSheet.hairlineWidth,
   },
   rowContent: { flex: 1 },
-  chatName: { fontSize: 16, fontWeight: '600' },
+  nameLine: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+  chatName: { fontSize: 16, fontWeight: '600', flexShrink: 1 },
+  statusIcons: { flexDirection: 'row', alignItems: 'center', gap: 4 },
   subText: { fontSize: 13, marginTop: 2 },
+  subTextUnread: { fontWeight: '600' },
+  unreadBadge: {
+    minWidth: 20, height: 20, borderRadius: 10,
+    paddingHorizontal: 6,
+    justifyContent: 'center', alignItems: 'center',
+  },
+  unreadBadgeText: { color: '#fff', fontSize: 11, fontWeight: '700' },
+  archivedHeader: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+  swipeActions: { flexDirection: 'row' },
+  swipeAction: {
+    width: 76,
+    justifyContent: 'center', alignItems: 'center', gap: 4,
+  },
+  swipeActionText: { color: '#fff', fontSize: 12, fontWeight: '600' },
   avatarFallback: { justifyContent: 'center', alignItems: 'center' },
   avatarInitials: { color: '#fff', fontWeight: '700' },
   groupAvatar: {
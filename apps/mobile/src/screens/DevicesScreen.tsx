@@ -0,0 +1,248 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+
+import {
+  fetchSessions,
+  revokeAllSessions,
+  revokeSession,
+  type DeviceSession,
+} from '../services/api';
+import { getApiErrorMessage } from '../utils/auth';
+import { useAuth } from '../contexts/AuthContext';
+import { useTheme } from '../contexts/ThemeContext';
+import type { AppStackParamList } from '../navigation/types';
+
+type Props = NativeStackScreenProps<AppStackParamList, 'Devices'>;
+
+function formatLastUsed(session: DeviceSession): string {
+  if (session.isCurrent) return 'Active now';
+  const date = new Date(session.lastUsedAt);
+  const time = date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  return `Last active ${date.toLocaleDateString([], { day: 'numeric', month: 'short' })}, ${time}`;
+}
+
+// ── Component ────────────────────────────────────────────────────────────────
+export default function DevicesScreen({ navigation }: Props) {
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+  const { logout } = useAuth();
+
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError(false);
+    try {
+      setSessions(await fetchSessions());
+    } catch {
+      setLoadError(true);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const handleRevoke = useCallback((session: DeviceSession) => {
+    Alert.alert(
+      'Log out device?',
+      `${session.deviceName ?? 'This device'} will need to sign in again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Log out',
+          style: 'destructive',
+          onPress: async () => {
+            setRevokingId(session.id);
+            try {
+              await revokeSession(session.id);
+              setSessions((prev) => prev.filter((s) => s.id !== session.id));
+            } catch (err) {
+              Alert.alert('Could not log out device', getApiErrorMessage(err));
+            } finally {
+              setRevokingId(null);
+            }
+          },
+        },
+      ],
+      { cancelable: true },
+    );
+  }, []);
+
+  const handleRevokeAll = useCallback(() => {
+    Alert.alert(
+      'Log out of all devices?',
+      'Every device signed in to your account, including this one, will need to sign in again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Log out all',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await revokeAllSessions();
+            } catch (err) {
+              Alert.alert('Could not log out devices', getApiErrorMessage(err));
+              return;
+            }
+            await logout();
+          },
+        },
+      ],
+      { cancelable: true },
+    );
+  }, [logout]);
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View
+        style={[styles.header, { paddingTop: insets.top + 12, backgroundColor: colors.headerBg }]}
+      >
+        <Pressable onPress={() => navigation.goBack()} hitSlop={12}>
+          <Ionicons name="arrow-back" size={24} color={colors.headerText} />
+        </Pressable>
+        <Text style={[styles.headerTitle, { color: colors.headerText }]}>Devices</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.spinnerColor} />
+        </View>
+      ) : loadError ? (
+        <View style={styles.centered}>
+          <Ionicons name="cloud-offline-outline" size={48} color={colors.emptyIcon} />
+          <Text style={[styles.emptyText, { color: colors.emptyText }]}>
+            Could not load your devices
+          </Text>
+          <Pressable
+            onPress={() => void load()}
+            style={[styles.retryBtn, { backgroundColor: colors.primary }]}
+          >
+            <Text style={styles.retryText}>Retry</Text>
+          </Pressable>
+        </View>
+      ) : (
+        <FlatList
+          data={sessions}
+          keyExtractor={(s) => s.id}
+          contentContainerStyle={{ paddingBottom: insets.bottom + 24 }}
+          renderItem={({ item }) => (
+            <View style={[styles.row, { borderBottomColor: colors.rowBorder }]}>
+              <Ionicons name="phone-portrait-outline" size={24} color={colors.primary} />
+              <View style={styles.rowBody}>
+                <View style={styles.nameRow}>
+                  <Text style={[styles.name, { color: colors.text }]} numberOfLines={1}>
+                    {item.deviceName ?? 'Unknown device'}
+                  </Text>
+                  {item.isCurrent && (
+                    <View style={[styles.badge, { backgroundColor: colors.primaryFaded }]}>
+                      <Text style={[styles.badgeText, { color: colors.primary }]}>This device</Text>
+                    </View>
+                  )}
+                </View>
+                <Text style={[styles.meta, { color: colors.textSecondary }]}>
+                  {formatLastUsed(item)}
+                </Text>
+              </View>
+              {!item.isCurrent && (
+                <Pressable
+                  onPress={() => handleRevoke(item)}
+                  disabled={revokingId === item.id}
+                  style={[styles.revokeBtn, { borderColor: colors.border }]}
+                  hitSlop={6}
+                >
+                  {revokingId === item.id ? (
+                    <ActivityIndicator size="small" color={colors.destructive} />
+                  ) : (
+                    <Text style={[styles.revokeText, { color: colors.destructive }]}>Log out</Text>
+                  )}
+                </Pressable>
+              )}
+            </View>
+          )}
+          ListFooterComponent={
+            <Pressable
+              onPress={handleRevokeAll}
+              style={[styles.revokeAllBtn, { borderColor: colors.destructive }]}
+            >
+              <Ionicons name="log-out-outline" size={18} color={colors.destructive} />
+              <Text style={[styles.revokeAllText, { color: colors.destructive }]}>
+                Log out of all devices
+              </Text>
+            </Pressable>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+// ── Styles ───────────────────────────────────────────────────────────────────
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  headerTitle: { fontSize: 18, fontWeight: '700' },
+  centered: { flex: 1, justifyContent: 'center', alignItems: 'center', gap: 10 },
+  emptyText: { fontSize: 15 },
+  retryBtn: { marginTop: 4, paddingHorizontal: 24, paddingVertical: 10, borderRadius: 8 },
+  retryText: { color: '#fff', fontWeight: '600', fontSize: 14 },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  rowBody: { flex: 1, gap: 2 },
+  nameRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  name: { flexShrink: 1, fontSize: 16, fontWeight: '600' },
+  badge: { paddingHorizontal: 8, paddingVertical: 2, borderRadius: 10 },
+  badgeText: { fontSize: 11, fontWeight: '700' },
+  meta: { fontSize: 13 },
+  revokeBtn: {
+    minWidth: 84,
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 7,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  revokeText: { fontSize: 13, fontWeight: '600' },
+  revokeAllBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginHorizontal: 16,
+    marginTop: 24,
+    paddingVertical: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  revokeAllText: { fontSize: 15, fontWeight: '600' },
+});
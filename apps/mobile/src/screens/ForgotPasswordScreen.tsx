@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+
+import { requestPasswordReset } from '../services/api';
+import { useTheme } from '../contexts/ThemeContext';
+import type { AuthStackParamList } from '../navigation/types';
+import { getApiErrorMessage, isValidEmail, normalizeEmail } from '../utils/auth';
+
+type Props = NativeStackScreenProps<AuthStackParamList, 'ForgotPassword'>;
+
+const MAX_EMAIL_LENGTH = 254;
+
+export default function ForgotPasswordScreen({ navigation, route }: Props) {
+  const { colors } = useTheme();
+
+  const [email, setEmail] = useState(route.params?.email ?? '');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  async function handleSendCode() {
+    const normalizedEmail = normalizeEmail(email);
+
+    if (!isValidEmail(normalizedEmail)) {
+      Alert.alert('Validation', 'Please enter a valid email address.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await requestPasswordReset(normalizedEmail);
+      navigation.navigate('ResetPassword', { email: normalizedEmail });
+    } catch (error: unknown) {
+      console.error('[ForgotPasswordScreen] handleSendCode error:', error);
+      Alert.alert(
+        'Could not send code',
+        getApiErrorMessage(error, 'Unable to send a reset code right now. Please try again.'),
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <View style={styles.form}>
+        <Text style={[styles.title, { color: colors.text }]}>Forgot password</Text>
+        <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+          {"Enter your account's email and we'll send you a code to reset your password."}
+        </Text>
+
+        <TextInput
+          style={[styles.input, { backgroundColor: colors.inputBg, borderColor: colors.inputBorder, color: colors.inputText }]}
+          placeholder="Email"
+          placeholderTextColor={colors.inputPlaceholder}
+          keyboardType="email-address"
+          autoCapitalize="none"
+          autoCorrect={false}
+          autoFocus
+          maxLength={MAX_EMAIL_LENGTH}
+          value={email}
+          onChangeText={setEmail}
+        />
+
+        {isSubmitting ? (
+          <ActivityIndicator size="large" color={colors.primary} />
+        ) : (
+          <Pressable style={[styles.submitBtn, { backgroundColor: colors.primary }]} onPress={handleSendCode}>
+            <Text style={styles.submitBtnText}>Send Code</Text>
+          </Pressable>
+        )}
+
+        <Pressable onPress={() => navigation.goBack()}>
+          <Text style={[styles.switchLink, { color: colors.primary }]}>Back to Log In</Text>
+        </Pressable>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  form: {
+    marginHorizontal: 24,
+    gap: 16,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  input: {
+    height: 48,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    fontSize: 16,
+  },
+  submitBtn: {
+    height: 48,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  submitBtnText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  switchLink: {
+    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -4,13 +4,18 @@ import {
   Alert,
   FlatList,
   Modal,
+  Platform,
   Pressable,
+  Share,
   StyleSheet,
   Text,
   TextInput,
   View,
 } from 'react-native';
 import { Image } from 'expo-image';
+import * as ImagePicker from 'expo-image-picker';
+import { File, Paths } from 'expo-file-system';
+import { Image as Compressor } from 'react-native-compressor';
 import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import type { NativeStackScreenProps } from '@react-navigation/native-stack';
@@ -19,9 +24,27 @@ import {
   fetchGroupMembers,
   addGroupMember,
   leaveGroup,
-  updateGroupName,
+  removeGroupMember,
+  fetchGroupProfile,
+  updateGroupProfile,
+  uploadGroupAvatar,
+  removeGroupAvatar,
   searchUsers,
+  setMessageRetention,
+  setEditSettings,
+  setGroupPermissions,
+  setMemberRole,
+  transferGroupOwnership,
+  exportConversation,
+  type DialectTargetLanguage,
+  type EditSettings,
+  type ExportFormat,
   type GroupMemberItem,
+  type GroupMemberRole,
+  type GroupPermissions,
+  type GroupProfile,
+  type MessageRetention,
+  type RevisionVisibility,
   type UserItem,
 } from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
@@ -29,10 +52,89 @@ import { useTheme } from '../contexts/ThemeContext';
 import type { AppColors } from '../contexts/ThemeContext';
 import type { AppStackParamList } from '../navigation/types';
 import { getApiErrorMessage } from '../utils/auth';
+import { GROUP_ROLE_LABELS, hasAdminRights, hasModeratorRights } from '../utils/groupRoles';
 
 type Props = NativeStackScreenProps<AppStackParamList, 'GroupInfo'>;
 const MIN_GROUP_NAME_LENGTH = 2;
 const MAX_GROUP_NAME_LENGTH = 80;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_GROUP_AVATAR_SIZE_BYTES = 1 * 1024 * 1024;
+
+const LANGUAGE_LABELS: Record<DialectTargetLanguage, string> = {
+  english: 'English',
+  singlish: 'Singlish',
+  tanglish: 'Tanglish',
+};
+
+/** The description in the viewer's dialect, or the original when untranslated. */
+function translatedDescription(profile: GroupProfile | null, dialect: string | null): string {
+  if (!profile?.description) return '';
+  const translation =
+    dialect && dialect in LANGUAGE_LABELS
+      ? profile.descriptionTranslations?.[dialect as DialectTargetLanguage]
+      : undefined;
+  return translation || profile.description;
+}
+
+function inferImageMime(uri: string): 'image/jpeg' | 'image/png' | 'image/webp' {
+  const cleanUri = uri.split('?')[0]?.toLowerCase() ?? '';
+  if (cleanUri.endsWith('.png')) return 'image/png';
+  if (cleanUri.endsWith('.webp')) return 'image/webp';
+  return 'image/jpeg';
+}
+
+function getFileSizeBytes(uri: string): number | null {
+  try {
+    const info = new File(uri).info();
+    return info.exists && typeof info.size === 'number' ? info.size : null;
+  } catch {
+    return null;
+  }
+}
+
+const RETENTION_OPTIONS: { value: MessageRetention; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: '24h', label: '24 hours' },
+  { value: '7d', label: '7 days' },
+  { value: '90d', label: '90 days' },
+];
+
+function retentionLabel(value: MessageRetention): string {
+  return RETENTION_OPTIONS.find((o) => o.value === value)?.label ?? 'Off';
+}
+
+const EDIT_WINDOW_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: 'Off' },
+  { value: 15, label: '15 minutes' },
+  { value: 60, label: '1 hour' },
+  { value: 24 * 60, label: '24 hours' },
+];
+
+function editWindowLabel(minutes: number): string {
+  return EDIT_WINDOW_OPTIONS.find((o) => o.value === minutes)?.label ?? `${minutes} min`;
+}
+
+const REVISION_VISIBILITY_OPTIONS: { value: RevisionVisibility; label: string }[] = [
+  { value: 'members', label: 'Everyone' },
+  { value: 'admins', label: 'Admins' },
+  { value: 'sender', label: 'Only the sender' },
+];
+
+function revisionVisibilityLabel(value: RevisionVisibility): string {
+  return REVISION_VISIBILITY_OPTIONS.find((o) => o.value === value)?.label ?? 'Everyone';
+}
+
+const ASSIGNABLE_ROLES: Exclude<GroupMemberRole, 'OWNER'>[] = ['ADMIN', 'MODERATOR', 'MEMBER'];
+
+function adminsOnlyLabel(adminsOnly: boolean): string {
+  return adminsOnly ? 'Only admins' : 'Everyone';
+}
+
+const EXPORT_FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'html', label: 'Printable page' },
+  { value: 'json', label: 'JSON' },
+];
 
 function getInitials(name: string): string {
   return name
@@ -48,19 +150,25 @@ function getInitials(name: string): string {
 const MemberRow = React.memo(function MemberRow({
   member,
   colors,
+  onPress,
 }: {
   member: GroupMemberItem;
   colors: AppColors;
+  /** Set when the viewer may change this member's role or remove them. */
+  onPress?: (member: GroupMemberItem) => void;
 }) {
   const name = member.user?.displayName ?? 'Unknown';
   const email = member.user?.email ?? '';
   const picture = member.user?.profilePictureUrl ?? null;
 
   return (
-    <View
-      style={[
+    <Pressable
+      onPress={onPress ? () => onPress(member) : undefined}
+      disabled={!onPress}
+      style={({ pressed }) => [
         styles.memberRow,
         { backgroundColor: colors.surfaceElevated, borderBottomColor: colors.rowBorder },
+        pressed && { backgroundColor: colors.rowPressed },
       ]}
     >
       {picture ? (
@@ -85,19 +193,30 @@ const MemberRow = React.memo(function MemberRow({
           </Text>
         ) : null}
       </View>
-      {member.role === 'ADMIN' && (
+      {member.role !== 'MEMBER' && (
         <View style={[styles.adminBadge, { backgroundColor: colors.primaryFaded }]}>
-          <Text style={[styles.adminBadgeText, { color: colors.primary }]}>Admin</Text>
+          <Text style={[styles.adminBadgeText, { color: colors.primary }]}>
+            {GROUP_ROLE_LABELS[member.role]}
+          </Text>
         </View>
       )}
-    </View>
+    </Pressable>
   );
 });
 
 // ── Component ────────────────────────────────────────────────────────────────
 export default function GroupInfoScreen({ navigation, route }: Props) {
-  const { groupId, groupName: initialGroupName } = route.params;
-  const { userId } = useAuth();
+  const {
+    groupId,
+    groupName: initialGroupName,
+    avatarUrl: initialAvatarUrl,
+    messageRetention: initialRetention,
+    editWindowMinutes: initialEditWindow,
+    revisionVisibility: initialRevisionVisibility,
+    onlyAdminsCanPost: initialOnlyAdminsCanPost,
+    onlyAdminsCanEditInfo: initialOnlyAdminsCanEditInfo,
+  } = route.params;
+  const { userId, userDialect } = useAuth();
   const { colors } = useTheme();
   const insets = useSafeAreaInsets();
 
@@ -105,6 +224,16 @@ export default function GroupInfoScreen({ navigation, route }: Props) {
   const [isLoading, setIsLoading] = useState(true);
   const [groupName, setGroupName] = useState(initialGroupName);
 
+  // Picture, description and default language
+  const [profile, setProfile] = useState<GroupProfile | null>(null);
+  const [avatarUrl, setAvatarUrl] = useState(initialAvatarUrl ?? null);
+  const [isSavingAvatar, setIsSavingAvatar] = useState(false);
+  const [isEditingDescription, setIsEditingDescription] = useState(false);
+  const [editedDescription, setEditedDescription] = useState('');
+  const [isSavingDescription, setIsSavingDescription] = useState(false);
+  const [showOriginalDescription, setShowOriginalDescription] = useState(false);
+  const [isSavingDefaultLanguage, setIsSavingDefaultLanguage] = useState(false);
+
   // Editing group name
   const [isEditingName, setIsEditingName] = useState(false);
   const [editedName, setEditedName] = useState(initialGroupName);
@@ -122,6 +251,27 @@ export default function GroupInfoScreen({ navigation, route }: Props) {
   // Leave group
   const [isLeaving, setIsLeaving] = useState(false);
 
+  // Disappearing messages
+  const [messageRetention, setMessageRetentionState] = useState<MessageRetention>(
+    initialRetention ?? 'off',
+  );
+  const [isSavingRetention, setIsSavingRetention] = useState(false);
+
+  // Message editing
+  const [editSettings, setEditSettingsState] = useState<EditSettings>({
+    editWindowMinutes: initialEditWindow ?? 15,
+    revisionVisibility: initialRevisionVisibility ?? 'members',
+  });
+  const [isSavingEditSettings, setIsSavingEditSettings] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Permissions
+  const [permissions, setPermissionsState] = useState<GroupPermissions>({
+    onlyAdminsCanPost: initialOnlyAdminsCanPost ?? false,
+    onlyAdminsCanEditInfo: initialOnlyAdminsCanEditInfo ?? false,
+  });
+  const [isSavingPermissions, setIsSavingPermissions] = useState(false);
+
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // ── Load members ─────────────────────────────────────────────────────────
@@ -144,6 +294,30 @@ export default function GroupInfoScreen({ navigation, route }: Props) {
     loadMembers();
   }, [loadMembers]);
 
+  // ── Load profile ─────────────────────────────────────────────────────────
+  useEffect(() => {
+    let cancelled = false;
+    fetchGroupProfile(groupId)
+      .then((data) => {
+        if (cancelled) return;
+        setProfile(data);
+        setAvatarUrl(data.avatarUrl);
+        if (data.name) setGroupName(data.name);
+        setPermissionsState({
+          onlyAdminsCanPost: data.onlyAdminsCanPost,
+          onlyAdminsCanEditInfo: data.onlyAdminsCanEditInfo,
+        });
+      })
+      .catch((err) => {
+        // The header section still works from route params.
+        console.error('[GroupInfoScreen] Failed to load group profile:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [groupId]);
+
   // ── Save group name ──────────────────────────────────────────────────────
   const handleSaveName = useCallback(async () => {
     const name = editedName.trim();
@@ -168,7 +342,7 @@ export default function GroupInfoScreen({ navigation, route }: Props) {
     setNameError('');
     setIsSavingName(true);
     try {
-      await updateGroupName(groupId, name);
+      setProfile(await updateGroupProfile(groupId, { name }));
       setGroupName(name);
       setIsEditingName(false);
     } catch (err) {
@@ -245,6 +419,410 @@ export default function GroupInfoScreen({ navigation, route }: Props) {
     [groupId, closeAddModal],
   );
 
+  // ── Viewer permissions ───────────────────────────────────────────────────
+  const myRole = members.find((m) => m.userId === userId)?.role;
+  const isAdmin = hasAdminRights(myRole);
+  const isOwner = myRole === 'OWNER';
+  const canEditInfo = isAdmin || !permissions.onlyAdminsCanEditInfo;
+
+  // ── Group picture ────────────────────────────────────────────────────────
+  const pickAndUploadAvatar = useCallback(async () => {
+    const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permission required', 'Please allow access to your photo library.');
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 1,
+    });
+    if (result.canceled || !result.assets[0]) return;
+
+    setIsSavingAvatar(true);
+    try {
+      let uploadUri = result.assets[0].uri;
+      try {
+        uploadUri = await Compressor.compress(uploadUri, {
+          maxWidth: 800,
+          maxHeight: 800,
+          quality: 0.7,
+        });
+      } catch (compressionError) {
+        console.warn(
+          '[GroupInfoScreen] Image compression failed, uploading original image instead:',
+          compressionError,
+        );
+      }
+
+      const size = getFileSizeBytes(uploadUri);
+      if (size != null && size > MAX_GROUP_AVATAR_SIZE_BYTES) {
+        Alert.alert('Image too large', 'Group pictures must be under 1 MB.');
+        return;
+      }
+
+      const { url } = await uploadGroupAvatar(groupId, uploadUri, inferImageMime(uploadUri));
+      setAvatarUrl(url);
+    } catch (err) {
+      console.error('[GroupInfoScreen] Group picture upload failed:', err);
+      Alert.alert(
+        'Upload failed',
+        getApiErrorMessage(err, 'Could not upload the group picture. Please try again.'),
+      );
+    } finally {
+      setIsSavingAvatar(false);
+    }
+  }, [groupId]);
+
+  const handleAvatarPress = useCallback(() => {
+    if (!avatarUrl) {
+      void pickAndUploadAvatar();
+      return;
+    }
+    Alert.alert(
+      'Group picture',
+      undefined,
+      [
+        { text: 'Choose new picture', onPress: () => void pickAndUploadAvatar() },
+        {
+          text: 'Remove picture',
+          style: 'destructive',
+          onPress: async () => {
+            setIsSavingAvatar(true);
+            try {
+              await removeGroupAvatar(groupId);
+              setAvatarUrl(null);
+            } catch (err) {
+              console.error('[GroupInfoScreen] Failed to remove group picture:', err);
+              Alert.alert(
+                'Error',
+                getApiErrorMessage(err, 'Could not remove the group picture. Please try again.'),
+              );
+            } finally {
+              setIsSavingAvatar(false);
+            }
+          },
+        },
+      ],
+      { cancelable: true },
+    );
+  }, [avatarUrl, groupId, pickAndUploadAvatar]);
+
+  // ── Description ──────────────────────────────────────────────────────────
+  const startEditingDescription = useCallback(() => {
+    setEditedDescription(profile?.description ?? '');
+    setIsEditingDescription(true);
+  }, [profile]);
+
+  const handleSaveDescription = useCallback(async () => {
+    const next = editedDescription.trim();
+    if (next === (profile?.description ?? '')) {
+      setIsEditingDescription(false);
+      return;
+    }
+
+    setIsSavingDescription(true);
+    try {
+      setProfile(await updateGroupProfile(groupId, { description: next || null }));
+      setShowOriginalDescription(false);
+      setIsEditingDescription(false);
+    } catch (err) {
+      console.error('[GroupInfoScreen] Failed to update description:', err);
+      Alert.alert(
+        'Error',
+        getApiErrorMessage(err, 'Could not update the description. Please try again.'),
+      );
+    } finally {
+      setIsSavingDescription(false);
+    }
+  }, [editedDescription, profile, groupId]);
+
+  // ── Default language ─────────────────────────────────────────────────────
+  const saveDefaultLanguage = useCallback(
+    async (defaultLanguage: DialectTargetLanguage | null) => {
+      setIsSavingDefaultLanguage(true);
+      try {
+        setProfile(await updateGroupProfile(groupId, { defaultLanguage }));
+      } catch (err) {
+        console.error('[GroupInfoScreen] Failed to update default language:', err);
+        Alert.alert(
+          'Error',
+          getApiErrorMessage(err, 'Could not change the default language. Please try again.'),
+        );
+      } finally {
+        setIsSavingDefaultLanguage(false);
+      }
+    },
+    [groupId],
+  );
+
+  const handleDefaultLanguagePress = useCallback(() => {
+    if (!canEditInfo) {
+      Alert.alert('Default language', 'Only group admins can change this setting.');
+      return;
+    }
+    const current = profile?.defaultLanguage ?? null;
+    // Two other languages plus "No default" keeps within Android's three buttons.
+    Alert.alert(
+      'Default language',
+      'New members read this group in this language until they pick their own.',
+      [
+        ...(Object.keys(LANGUAGE_LABELS) as DialectTargetLanguage[])
+          .filter((lang) => lang !== current)
+          .map((lang) => ({
+            text: LANGUAGE_LABELS[lang],
+            onPress: () => saveDefaultLanguage(lang),
+          })),
+        ...(current ? [{ text: 'No default', onPress: () => saveDefaultLanguage(null) }] : []),
+      ],
+      { cancelable: true },
+    );
+  }, [canEditInfo, profile, saveDefaultLanguage]);
+
+  // ── Disappearing messages ────────────────────────────────────────────────
+  const saveRetention = useCallback(
+    async (value: MessageRetention) => {
+      setIsSavingRetention(true);
+      try {
+        setMessageRetentionState(await setMessageRetention(groupId, value));
+      } catch (err) {
+        console.error('[GroupInfoScreen] Failed to update retention:', err);
+        Alert.alert(
+          'Error',
+          getApiErrorMessage(err, 'Could not change disappearing messages. Please try again.'),
+        );
+      } finally {
+        setIsSavingRetention(false);
+      }
+    },
+    [groupId],
+  );
+
+  const handleRetentionPress = useCallback(() => {
+    if (!isAdmin) {
+      Alert.alert('Disappearing messages', 'Only group admins can change this setting.');
+      return;
+    }
+    // Three choices fit Android's button limit — dismiss by tapping outside.
+    Alert.alert(
+      'Disappearing messages',
+      'Messages older than the selected time are deleted for everyone in this group.',
+      RETENTION_OPTIONS.filter((o) => o.value !== messageRetention).map((o) => ({
+        text: o.label,
+        onPress: () => saveRetention(o.value),
+      })),
+      { cancelable: true },
+    );
+  }, [isAdmin, messageRetention, saveRetention]);
+
+  // ── Message editing ──────────────────────────────────────────────────────
+  const saveEditSettings = useCallback(
+    async (settings: Partial<EditSettings>) => {
+      setIsSavingEditSettings(true);
+      try {
+        setEditSettingsState(await setEditSettings(groupId, settings));
+      } catch (err) {
+        console.error('[GroupInfoScreen] Failed to update edit settings:', err);
+        Alert.alert(
+          'Error',
+          getApiErrorMessage(err, 'Could not change message editing. Please try again.'),
+        );
+      } finally {
+        setIsSavingEditSettings(false);
+      }
+    },
+    [groupId],
+  );
+
+  const handleEditWindowPress = useCallback(() => {
+    if (!isAdmin) {
+      Alert.alert('Message editing', 'Only group admins can change this setting.');
+      return;
+    }
+    // Android shows at most three buttons.
+    Alert.alert(
+      'Message editing',
+      'How long after sending people can edit their text messages.',
+      EDIT_WINDOW_OPTIONS.filter((o) => o.value !== editSettings.editWindowMinutes)
+        .slice(0, 3)
+        .map((o) => ({
+          text: o.label,
+          onPress: () => saveEditSettings({ editWindowMinutes: o.value }),
+        })),
+      { cancelable: true },
+    );
+  }, [isAdmin, editSettings.editWindowMinutes, saveEditSettings]);
+
+  const handleRevisionVisibilityPress = useCallback(() => {
+    if (!isAdmin) {
+      Alert.alert('Edit history', 'Only group admins can change this setting.');
+      return;
+    }
+    Alert.alert(
+      'Edit history',
+      'Who can see earlier versions of edited messages. Senders can always see their own.',
+      REVISION_VISIBILITY_OPTIONS.filter((o) => o.value !== editSettings.revisionVisibility).map(
+        (o) => ({
+          text: o.label,
+          onPress: () => saveEditSettings({ revisionVisibility: o.value }),
+        }),
+      ),
+      { cancelable: true },
+    );
+  }, [isAdmin, editSettings.revisionVisibility, saveEditSettings]);
+
+  // ── Permissions ──────────────────────────────────────────────────────────
+  const savePermissions = useCallback(
+    async (changes: Partial<GroupPermissions>) => {
+      setIsSavingPermissions(true);
+      try {
+        setPermissionsState(await setGroupPermissions(groupId, changes));
+      } catch (err) {
+        console.error('[GroupInfoScreen] Failed to update permissions:', err);
+        Alert.alert(
+          'Error',
+          getApiErrorMessage(err, 'Could not change group permissions. Please try again.'),
+        );
+      } finally {
+        setIsSavingPermissions(false);
+      }
+    },
+    [groupId],
+  );
+
+  const promptPermission = useCallback(
+    (key: keyof GroupPermissions, title: string, message: string) => {
+      if (!isAdmin) {
+        Alert.alert(title, 'Only group admins can change this setting.');
+        return;
+      }
+      Alert.alert(
+        title,
+        message,
+        [
+          { text: 'Everyone', onPress: () => savePermissions({ [key]: false }) },
+          { text: 'Only admins', onPress: () => savePermissions({ [key]: true }) },
+        ],
+        { cancelable: true },
+      );
+    },
+    [isAdmin, savePermissions],
+  );
+
+  // ── Member roles ─────────────────────────────────────────────────────────
+  const runMemberAction = useCallback(
+    async (action: () => Promise<void>, fallback: string) => {
+      try {
+        await action();
+        setMembers(await fetchGroupMembers(groupId));
+      } catch (err) {
+        console.error('[GroupInfoScreen] Member action failed:', err);
+        Alert.alert('Error', getApiErrorMessage(err, fallback));
+      }
+    },
+    [groupId],
+  );
+
+  const handleMemberPress = useCallback(
+    (member: GroupMemberItem) => {
+      const name = member.user?.displayName ?? 'this member';
+
+      const changeRole = () =>
+        Alert.alert(
+          `Change role for ${name}`,
+          'Admins manage members and settings. Moderators can delete messages and review reports.',
+          ASSIGNABLE_ROLES.filter((r) => r !== member.role).map((r) => ({
+            text: GROUP_ROLE_LABELS[r],
+            onPress: () =>
+              runMemberAction(
+                () => setMemberRole(groupId, member.userId, r),
+                'Could not change the role. Please try again.',
+              ),
+          })),
+          { cancelable: true },
+        );
+
+      const transfer = () =>
+        Alert.alert(
+          `Make ${name} the owner?`,
+          'You will stay on as an admin, and only the new owner can hand the group back.',
+          [
+            { text: 'Cancel', style: 'cancel' },
+            {
+              text: 'Transfer',
+              style: 'destructive',
+              onPress: () =>
+                runMemberAction(
+                  () => transferGroupOwnership(groupId, member.userId),
+                  'Could not transfer ownership. Please try again.',
+                ),
+            },
+          ],
+        );
+
+      const remove = () =>
+        Alert.alert(`Remove ${name}?`, 'They can only come back if someone adds them again.', [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Remove',
+            style: 'destructive',
+            onPress: () =>
+              runMemberAction(
+                () => removeGroupMember(groupId, member.userId),
+                'Could not remove the member. Please try again.',
+              ),
+          },
+        ]);
+
+      // Android shows at most three buttons.
+      Alert.alert(
+        name,
+        GROUP_ROLE_LABELS[member.role],
+        [
+          { text: 'Change role', onPress: changeRole },
+          ...(isOwner ? [{ text: 'Make owner', onPress: transfer }] : []),
+          { text: 'Remove from group', style: 'destructive' as const, onPress: remove },
+        ],
+        { cancelable: true },
+      );
+    },
+    [groupId, isOwner, runMemberAction],
+  );
+
+  // ── Export ───────────────────────────────────────────────────────────────
+  const runExport = useCallback(
+    async (format: ExportFormat) => {
+      setIsExporting(true);
+      try {
+        const { fileName, body } = await exportConversation(groupId, format);
+        const file = new File(Paths.cache, fileName);
+        file.create({ overwrite: true });
+        file.write(body);
+        // Android's share sheet only takes text, not file URLs.
+        await Share.share(
+          Platform.OS === 'ios' ? { url: file.uri } : { title: fileName, message: body },
+        );
+      } catch (err) {
+        console.error('[GroupInfoScreen] Failed to export chat:', err);
+        Alert.alert('Error', getApiErrorMessage(err, 'Could not export this chat. Please try again.'));
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [groupId],
+  );
+
+  const handleExportPress = useCallback(() => {
+    Alert.alert(
+      'Export chat',
+      'Every message you can see, with your translations next to the originals. Media links stay valid for 7 days.',
+      EXPORT_FORMAT_OPTIONS.map((o) => ({ text: o.label, onPress: () => runExport(o.value) })),
+      { cancelable: true },
+    );
+  }, [runExport]);
+
   // ── Leave group ──────────────────────────────────────────────────────────
   const handleLeave = useCallback(() => {
     Alert.alert(
@@ -278,8 +856,18 @@ export default function GroupInfoScreen({ navigation, route }: Props) {
   const memberCount = members.length;
 
   const renderMember = useCallback(
-    ({ item }: { item: GroupMemberItem }) => <MemberRow member={item} colors={colors} />,
-    [colors],
+    ({ item }: { item: GroupMemberItem }) => (
+      <MemberRow
+        member={item}
+        colors={colors}
+        onPress={
+          isAdmin && item.userId !== userId && item.role !== 'OWNER'
+            ? handleMemberPress
+            : undefined
+        }
+      />
+    ),
+    [colors, isAdmin, userId, handleMemberPress],
   );
 
   const keyExtractor = useCallback((item: GroupMemberItem) => item.id, []);
@@ -304,10 +892,42 @@ export default function GroupInfoScreen({ navigation, route }: Props) {
         contentContainerStyle={styles.listContent}
         ListHeaderComponent={
           <View style={styles.topSection}>
-            {/* Group icon */}
-            <View style={[styles.groupIcon, { backgroundColor: colors.groupAvatarBg }]}>
-              <Ionicons name="people" size={48} color="#fff" />
-            </View>
+            {/* Group picture */}
+            <Pressable
+              onPress={handleAvatarPress}
+              disabled={!canEditInfo || isSavingAvatar}
+              style={styles.groupIconWrapper}
+              accessibilityLabel="Change group picture"
+            >
+              {avatarUrl ? (
+                <Image
+                  source={{ uri: avatarUrl }}
+                  style={styles.groupIcon}
+                  contentFit="cover"
+                  transition={200}
+                />
+              ) : (
+                <View style={[styles.groupIcon, { backgroundColor: colors.groupAvatarBg }]}>
+                  <Ionicons name="people" size={48} color="#fff" />
+                </View>
+              )}
+              {isSavingAvatar ? (
+                <View style={[styles.groupIcon, styles.groupIconOverlay]}>
+                  <ActivityIndicator color="#fff" />
+                </View>
+              ) : (
+                canEditInfo && (
+                  <View
+                    style={[
+                      styles.cameraBadge,
+                      { backgroundColor: colors.primary, borderColor: colors.background },
+                    ]}
+                  >
+                    <Ionicons name="camera" size={16} color="#fff" />
+                  </View>
+                )
+              )}
+            </Pressable>
 
             {/* Group name with inline edit */}
             {isEditingName ? (
@@ -360,15 +980,18 @@ export default function GroupInfoScreen({ navigation, route }: Props) {
                   setEditedName(groupName);
                   setNameError('');
                 }}
+                disabled={!canEditInfo}
                 style={styles.namePressable}
               >
                 <Text style={[styles.groupName, { color: colors.text }]}>{groupName}</Text>
-                <Ionicons
-                  name="pencil-outline"
-                  size={18}
-                  color={colors.textSecondary}
-                  style={{ marginLeft: 6 }}
-                />
+                {canEditInfo && (
+                  <Ionicons
+                    name="pencil-outline"
+                    size={18}
+                    color={colors.textSecondary}
+                    style={{ marginLeft: 6 }}
+                  />
+                )}
               </Pressable>
             )}
 
@@ -380,6 +1003,76 @@ export default function GroupInfoScreen({ navigation, route }: Props) {
               {isLoading ? '…' : `${memberCount} member${memberCount !== 1 ? 's' : ''}`}
             </Text>
 
+            {/* Description */}
+            {isEditingDescription ? (
+              <View style={styles.descriptionEdit}>
+                <TextInput
+                  style={[
+                    styles.descriptionInput,
+                    {
+                      borderColor: colors.primary,
+                      color: colors.text,
+                      backgroundColor: colors.inputBg,
+                    },
+                  ]}
+                  value={editedDescription}
+                  onChangeText={setEditedDescription}
+                  placeholder="What is this group about?"
+                  placeholderTextColor={colors.inputPlaceholder}
+                  maxLength={MAX_DESCRIPTION_LENGTH}
+                  multiline
+                  autoFocus
+                />
+                <View style={styles.descriptionActions}>
+                  <Pressable
+                    onPress={() => setIsEditingDescription(false)}
+                    style={[styles.nameActionBtn, { backgroundColor: colors.surface }]}
+                  >
+                    <Ionicons name="close" size={20} color={colors.text} />
+                  </Pressable>
+                  <Pressable
+                    onPress={handleSaveDescription}
+                    disabled={isSavingDescription}
+                    style={[styles.nameActionBtn, { backgroundColor: colors.primary }]}
+                  >
+                    {isSavingDescription ? (
+                      <ActivityIndicator color="#fff" size="small" />
+                    ) : (
+                      <Ionicons name="checkmark" size={20} color="#fff" />
+                    )}
+                  </Pressable>
+                </View>
+              </View>
+            ) : profile?.description ? (
+              <Pressable
+                onPress={startEditingDescription}
+                disabled={!canEditInfo}
+                style={styles.descriptionBlock}
+              >
+                <Text style={[styles.description, { color: colors.text }]}>
+                  {showOriginalDescription
+                    ? profile.description
+                    : translatedDescription(profile, userDialect)}
+                </Text>
+                {translatedDescription(profile, userDialect) !== profile.description && (
+                  <Pressable
+                    onPress={() => setShowOriginalDescription((v) => !v)}
+                    hitSlop={8}
+                  >
+                    <Text style={[styles.descriptionToggle, { color: colors.primary }]}>
+                      {showOriginalDescription ? 'See translation' : 'See original'}
+                    </Text>
+                  </Pressable>
+                )}
+              </Pressable>
+            ) : canEditInfo && profile ? (
+              <Pressable onPress={startEditingDescription} style={styles.descriptionBlock}>
+                <Text style={[styles.descriptionToggle, { color: colors.primary }]}>
+                  Add group description
+                </Text>
+              </Pressable>
+            ) : null}
+
             {/* Add members button */}
             <Pressable
               onPress={() => setAddModalVisible(true)}
@@ -392,6 +1085,188 @@ export default function GroupInfoScreen({ navigation, route }: Props) {
               <Ionicons name="person-add-outline" size={18} color="#fff" />
               <Text style={styles.addMembersBtnText}>Add Members</Text>
             </Pressable>
+
+            {/* Default language */}
+            <Pressable
+              onPress={handleDefaultLanguagePress}
+              disabled={isLoading || isSavingDefaultLanguage}
+              style={({ pressed }) => [
+                styles.settingRow,
+                { borderColor: colors.border },
+                pressed && { opacity: 0.7 },
+              ]}
+            >
+              <Ionicons name="language-outline" size={20} color={colors.textSecondary} />
+              <Text style={[styles.settingLabel, { color: colors.text }]}>Default language</Text>
+              {isSavingDefaultLanguage ? (
+                <ActivityIndicator color={colors.spinnerColor} size="small" />
+              ) : (
+                <Text style={[styles.settingValue, { color: colors.textSecondary }]}>
+                  {profile?.defaultLanguage ? LANGUAGE_LABELS[profile.defaultLanguage] : 'Not set'}
+                </Text>
+              )}
+            </Pressable>
+
+            {/* Disappearing messages */}
+            <Pressable
+              onPress={handleRetentionPress}
+              disabled={isLoading || isSavingRetention}
+              style={({ pressed }) => [
+                styles.settingRow,
+                styles.settingRowStacked,
+                { borderColor: colors.border },
+                pressed && { opacity: 0.7 },
+              ]}
+            >
+              <Ionicons name="timer-outline" size={20} color={colors.textSecondary} />
+              <Text style={[styles.settingLabel, { color: colors.text }]}>
+                Disappearing messages
+              </Text>
+              {isSavingRetention ? (
+                <ActivityIndicator color={colors.spinnerColor} size="small" />
+              ) : (
+                <Text style={[styles.settingValue, { color: colors.textSecondary }]}>
+                  {retentionLabel(messageRetention)}
+                </Text>
+              )}
+            </Pressable>
+
+            {/* Message editing */}
+            <Pressable
+              onPress={handleEditWindowPress}
+              disabled={isLoading || isSavingEditSettings}
+              style={({ pressed }) => [
+                styles.settingRow,
+                styles.settingRowStacked,
+                { borderColor: colors.border },
+                pressed && { opacity: 0.7 },
+              ]}
+            >
+              <Ionicons name="create-outline" size={20} color={colors.textSecondary} />
+              <Text style={[styles.settingLabel, { color: colors.text }]}>Message editing</Text>
+              {isSavingEditSettings ? (
+                <ActivityIndicator color={colors.spinnerColor} size="small" />
+              ) : (
+                <Text style={[styles.settingValue, { color: colors.textSecondary }]}>
+                  {editWindowLabel(editSettings.editWindowMinutes)}
+                </Text>
+              )}
+            </Pressable>
+
+            <Pressable
+              onPress={handleRevisionVisibilityPress}
+              disabled={isLoading || isSavingEditSettings}
+              style={({ pressed }) => [
+                styles.settingRow,
+                styles.settingRowStacked,
+                { borderColor: colors.border },
+                pressed && { opacity: 0.7 },
+              ]}
+            >
+              <Ionicons name="git-compare-outline" size={20} color={colors.textSecondary} />
+              <Text style={[styles.settingLabel, { color: colors.text }]}>Edit history</Text>
+              <Text style={[styles.settingValue, { color: colors.textSecondary }]}>
+                {revisionVisibilityLabel(editSettings.revisionVisibility)}
+              </Text>
+            </Pressable>
+
+            {/* Permissions */}
+            <Pressable
+              onPress={() =>
+                promptPermission(
+                  'onlyAdminsCanPost',
+                  'Send messages',
+                  'Turn this group into an announcement channel where only admins can post.',
+                )
+              }
+              disabled={isLoading || isSavingPermissions}
+              style={({ pressed }) => [
+                styles.settingRow,
+                { borderColor: colors.border },
+                pressed && { opacity: 0.7 },
+              ]}
+            >
+              <Ionicons name="megaphone-outline" size={20} color={colors.textSecondary} />
+              <Text style={[styles.settingLabel, { color: colors.text }]}>Send messages</Text>
+              <Text style={[styles.settingValue, { color: colors.textSecondary }]}>
+                {adminsOnlyLabel(permissions.onlyAdminsCanPost)}
+              </Text>
+            </Pressable>
+
+            <Pressable
+              onPress={() =>
+                promptPermission(
+                  'onlyAdminsCanEditInfo',
+                  'Edit group info',
+                  'Who can change the group name, picture, description and default language.',
+                )
+              }
+              disabled={isLoading || isSavingPermissions}
+              style={({ pressed }) => [
+                styles.settingRow,
+                styles.settingRowStacked,
+                { borderColor: colors.border },
+                pressed && { opacity: 0.7 },
+              ]}
+            >
+              <Ionicons name="information-circle-outline" size={20} color={colors.textSecondary} />
+              <Text style={[styles.settingLabel, { color: colors.text }]}>Edit group info</Text>
+              {isSavingPermissions ? (
+                <ActivityIndicator color={colors.spinnerColor} size="small" />
+              ) : (
+                <Text style={[styles.settingValue, { color: colors.textSecondary }]}>
+                  {adminsOnlyLabel(permissions.onlyAdminsCanEditInfo)}
+                </Text>
+              )}
+            </Pressable>
+
+            {/* Invite links & moderation */}
+            {isAdmin && (
+              <Pressable
+                onPress={() => navigation.navigate('GroupInvites', { groupId, groupName })}
+                style={({ pressed }) => [
+                  styles.settingRow,
+                  { borderColor: colors.border },
+                  pressed && { opacity: 0.7 },
+                ]}
+              >
+                <Ionicons name="link-outline" size={20} color={colors.textSecondary} />
+                <Text style={[styles.settingLabel, { color: colors.text }]}>Invite links</Text>
+                <Ionicons name="chevron-forward" size={18} color={colors.textTertiary} />
+              </Pressable>
+            )}
+            {hasModeratorRights(myRole) && (
+              <Pressable
+                onPress={() => navigation.navigate('GroupReports', { groupId, groupName })}
+                style={({ pressed }) => [
+                  styles.settingRow,
+                  isAdmin && styles.settingRowStacked,
+                  { borderColor: colors.border },
+                  pressed && { opacity: 0.7 },
+                ]}
+              >
+                <Ionicons name="flag-outline" size={20} color={colors.textSecondary} />
+                <Text style={[styles.settingLabel, { color: colors.text }]}>
+                  Reported messages
+                </Text>
+                <Ionicons name="chevron-forward" size={18} color={colors.textTertiary} />
+              </Pressable>
+            )}
+
+            {/* Export */}
+            <Pressable
+              onPress={handleExportPress}
+              disabled={isLoading || isExporting}
+              style={({ pressed }) => [
+                styles.settingRow,
+                { borderColor: colors.border },
+                pressed && { opacity: 0.7 },
+              ]}
+            >
+              <Ionicons name="download-outline" size={20} color={colors.textSecondary} />
+              <Text style={[styles.settingLabel, { color: colors.text }]}>Export chat</Text>
+              {isExporting && <ActivityIndicator color={colors.spinnerColor} size="small" />}
+            </Pressable>
           </View>
         }
         ListFooterComponent={
@@ -571,13 +1446,28 @@ const styles = StyleSheet.create({
     paddingTop: 28,
     paddingBottom: 20,
   },
+  groupIconWrapper: { marginBottom: 16 },
   groupIcon: {
     width: 100,
     height: 100,
     borderRadius: 50,
     justifyContent: 'center',
     alignItems: 'center',
-    marginBottom: 16,
+  },
+  groupIconOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  cameraBadge: {
+    position: 'absolute',
+    right: 0,
+    bottom: 0,
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 2,
+    justifyContent: 'center',
+    alignItems: 'center',
   },
   namePressable: {
     flexDirection: 'row',
@@ -610,6 +1500,20 @@ const styles = StyleSheet.create({
   },
   memberCount: { fontSize: 14, marginBottom: 20 },
   errorText: { fontSize: 13, textAlign: 'center', marginTop: 8, marginBottom: 12 },
+  descriptionBlock: { alignItems: 'center', gap: 4, marginBottom: 20 },
+  description: { fontSize: 15, lineHeight: 21, textAlign: 'center' },
+  descriptionToggle: { fontSize: 13, fontWeight: '600' },
+  descriptionEdit: { alignSelf: 'stretch', gap: 8, marginBottom: 20 },
+  descriptionInput: {
+    minHeight: 80,
+    fontSize: 15,
+    borderWidth: 1.5,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    textAlignVertical: 'top',
+  },
+  descriptionActions: { flexDirection: 'row', justifyContent: 'flex-end', gap: 8 },
   addMembersBtn: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -619,6 +1523,20 @@ const styles = StyleSheet.create({
     borderRadius: 24,
   },
   addMembersBtnText: { color: '#fff', fontSize: 15, fontWeight: '600' },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    alignSelf: 'stretch',
+    marginTop: 20,
+    paddingVertical: 12,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  /** Rows under the first share its borders instead of starting a new block */
+  settingRowStacked: { marginTop: 0, borderTopWidth: 0 },
+  settingLabel: { flex: 1, fontSize: 15, fontWeight: '500' },
+  settingValue: { fontSize: 14 },
 
   // Member rows
   memberRow: {
@@ -0,0 +1,314 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Pressable,
+  Share,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+
+import {
+  createGroupInvite,
+  fetchGroupInvites,
+  revokeGroupInvite,
+  type GroupInvite,
+} from '../services/api';
+import { buildInviteLink } from '../utils/inviteLinks';
+import { getApiErrorMessage } from '../utils/auth';
+import { useTheme } from '../contexts/ThemeContext';
+import type { AppStackParamList } from '../navigation/types';
+
+type Props = NativeStackScreenProps<AppStackParamList, 'GroupInvites'>;
+
+const EXPIRY_OPTIONS: { label: string; hours?: number }[] = [
+  { label: '1 day', hours: 24 },
+  { label: '7 days', hours: 7 * 24 },
+  { label: 'Never' },
+];
+
+const USES_OPTIONS: { label: string; maxUses?: number }[] = [
+  { label: '1 use', maxUses: 1 },
+  { label: '10 uses', maxUses: 10 },
+  { label: 'Unlimited' },
+];
+
+function describeInvite(invite: GroupInvite): string {
+  const uses =
+    invite.maxUses === null
+      ? `${invite.useCount} joined`
+      : `${invite.useCount} of ${invite.maxUses} used`;
+  if (!invite.expiresAt) return `${uses} · never expires`;
+  const expiresAt = new Date(invite.expiresAt);
+  if (expiresAt.getTime() <= Date.now()) return `${uses} · expired`;
+  return `${uses} · expires ${expiresAt.toLocaleDateString([], { day: 'numeric', month: 'short' })}, ${expiresAt.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`;
+}
+
+function isUsable(invite: GroupInvite): boolean {
+  if (invite.expiresAt && new Date(invite.expiresAt).getTime() <= Date.now()) return false;
+  return invite.maxUses === null || invite.useCount < invite.maxUses;
+}
+
+// ── Component ────────────────────────────────────────────────────────────────
+export default function GroupInvitesScreen({ navigation, route }: Props) {
+  const { groupId, groupName } = route.params;
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+
+  const [invites, setInvites] = useState<GroupInvite[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+  const [expiryIndex, setExpiryIndex] = useState(1);
+  const [usesIndex, setUsesIndex] = useState(2);
+  const [isCreating, setIsCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError(false);
+    try {
+      setInvites(await fetchGroupInvites(groupId));
+    } catch {
+      setLoadError(true);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [groupId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const shareInvite = useCallback(
+    (invite: GroupInvite) => {
+      const link = buildInviteLink(invite.token);
+      void Share.share({ message: `Join "${groupName}" on LinkLanka: ${link}` });
+    },
+    [groupName],
+  );
+
+  const handleCreate = useCallback(async () => {
+    setIsCreating(true);
+    try {
+      const invite = await createGroupInvite(groupId, {
+        expiresInHours: EXPIRY_OPTIONS[expiryIndex].hours,
+        maxUses: USES_OPTIONS[usesIndex].maxUses,
+      });
+      setInvites((prev) => [invite, ...prev]);
+      shareInvite(invite);
+    } catch (err) {
+      Alert.alert('Could not create link', getApiErrorMessage(err));
+    } finally {
+      setIsCreating(false);
+    }
+  }, [groupId, expiryIndex, usesIndex, shareInvite]);
+
+  const handleRevoke = useCallback(
+    (invite: GroupInvite) => {
+      Alert.alert('Revoke link?', 'Anyone who has it will no longer be able to join.', [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revoke',
+          style: 'destructive',
+          onPress: async () => {
+            setRevokingId(invite.id);
+            try {
+              await revokeGroupInvite(groupId, invite.id);
+              setInvites((prev) => prev.filter((i) => i.id !== invite.id));
+            } catch (err) {
+              Alert.alert('Could not revoke link', getApiErrorMessage(err));
+            } finally {
+              setRevokingId(null);
+            }
+          },
+        },
+      ]);
+    },
+    [groupId],
+  );
+
+  const renderChoices = (
+    label: string,
+    options: { label: string }[],
+    selected: number,
+    onSelect: (index: number) => void,
+  ) => (
+    <View style={styles.choiceGroup}>
+      <Text style={[styles.choiceLabel, { color: colors.textSecondary }]}>{label}</Text>
+      <View style={styles.choiceRow}>
+        {options.map((o, i) => {
+          const isSelected = i === selected;
+          return (
+            <Pressable
+              key={o.label}
+              onPress={() => onSelect(i)}
+              style={[
+                styles.choice,
+                {
+                  borderColor: isSelected ? colors.primary : colors.border,
+                  backgroundColor: isSelected ? colors.primary : 'transparent',
+                },
+              ]}
+            >
+              <Text style={[styles.choiceText, { color: isSelected ? '#fff' : colors.text }]}>
+                {o.label}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View
+        style={[styles.header, { paddingTop: insets.top + 12, backgroundColor: colors.headerBg }]}
+      >
+        <Pressable onPress={() => navigation.goBack()} hitSlop={12}>
+          <Ionicons name="arrow-back" size={24} color={colors.headerText} />
+        </Pressable>
+        <View style={styles.headerTitleColumn}>
+          <Text style={[styles.headerTitle, { color: colors.headerText }]}>Invite links</Text>
+          <Text style={[styles.headerSubtitle, { color: colors.headerText }]} numberOfLines={1}>
+            {groupName}
+          </Text>
+        </View>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <FlatList
+        data={loadError ? [] : invites}
+        keyExtractor={(i) => i.id}
+        contentContainerStyle={{ paddingBottom: insets.bottom + 24 }}
+        ListHeaderComponent={
+          <View style={[styles.form, { borderBottomColor: colors.rowBorder }]}>
+            {renderChoices('Expires after', EXPIRY_OPTIONS, expiryIndex, setExpiryIndex)}
+            {renderChoices('Can be used', USES_OPTIONS, usesIndex, setUsesIndex)}
+            <Pressable
+              onPress={() => void handleCreate()}
+              disabled={isCreating}
+              style={[styles.createBtn, { backgroundColor: colors.primary }]}
+            >
+              {isCreating ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <>
+                  <Ionicons name="link-outline" size={18} color="#fff" />
+                  <Text style={styles.createBtnText}>Create and Share Link</Text>
+                </>
+              )}
+            </Pressable>
+          </View>
+        }
+        ListEmptyComponent={
+          isLoading ? (
+            <ActivityIndicator style={styles.status} color={colors.spinnerColor} />
+          ) : loadError ? (
+            <Pressable onPress={() => void load()} style={styles.status}>
+              <Text style={[styles.statusText, { color: colors.emptyText }]}>
+                Could not load invite links. Tap to retry.
+              </Text>
+            </Pressable>
+          ) : (
+            <Text style={[styles.status, styles.statusText, { color: colors.emptyText }]}>
+              No active links
+            </Text>
+          )
+        }
+        renderItem={({ item }) => {
+          const usable = isUsable(item);
+          return (
+            <View style={[styles.row, { borderBottomColor: colors.rowBorder }]}>
+              <View style={styles.rowText}>
+                <Text
+                  style={[styles.link, { color: usable ? colors.text : colors.textTertiary }]}
+                  numberOfLines={1}
+                >
+                  {buildInviteLink(item.token)}
+                </Text>
+                <Text style={[styles.meta, { color: colors.textSecondary }]}>
+                  {describeInvite(item)}
+                </Text>
+              </View>
+              {usable && (
+                <Pressable onPress={() => shareInvite(item)} hitSlop={8} accessibilityLabel="Share link">
+                  <Ionicons name="share-outline" size={22} color={colors.primary} />
+                </Pressable>
+              )}
+              {revokingId === item.id ? (
+                <ActivityIndicator size="small" color={colors.destructive} />
+              ) : (
+                <Pressable
+                  onPress={() => handleRevoke(item)}
+                  hitSlop={8}
+                  accessibilityLabel="Revoke link"
+                >
+                  <Ionicons name="trash-outline" size={22} color={colors.destructive} />
+                </Pressable>
+              )}
+            </View>
+          );
+        }}
+      />
+    </View>
+  );
+}
+
+// ── Styles ───────────────────────────────────────────────────────────────────
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  headerTitleColumn: { flex: 1, alignItems: 'center', marginHorizontal: 12 },
+  headerTitle: { fontSize: 18, fontWeight: '700' },
+  headerSubtitle: { fontSize: 12, opacity: 0.8 },
+  form: {
+    padding: 16,
+    gap: 14,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  choiceGroup: { gap: 8 },
+  choiceLabel: { fontSize: 13, fontWeight: '600' },
+  choiceRow: { flexDirection: 'row', gap: 8 },
+  choice: {
+    paddingHorizontal: 14,
+    paddingVertical: 7,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  choiceText: { fontSize: 13, fontWeight: '600' },
+  createBtn: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 13,
+    borderRadius: 12,
+  },
+  createBtnText: { color: '#fff', fontSize: 15, fontWeight: '700' },
+  status: { marginVertical: 32, alignItems: 'center' },
+  statusText: { fontSize: 15, textAlign: 'center' },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 16,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  rowText: { flex: 1, gap: 2 },
+  link: { fontSize: 14, fontWeight: '600' },
+  meta: { fontSize: 12 },
+});
@@ -0,0 +1,315 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+
+import {
+  fetchGroupReports,
+  resolveGroupReport,
+  type MessageReportItem,
+  type ReportAction,
+} from '../services/api';
+import { REPORT_REASON_LABELS } from '../components/chat/ReportMessageSheet';
+import { getApiErrorMessage } from '../utils/auth';
+import { useTheme } from '../contexts/ThemeContext';
+import type { AppStackParamList } from '../navigation/types';
+
+type Props = NativeStackScreenProps<AppStackParamList, 'GroupReports'>;
+
+const LANGUAGE_LABELS = {
+  english: 'English',
+  singlish: 'Singlish',
+  tanglish: 'Tanglish',
+} as const;
+
+const MEDIA_LABELS: Record<string, string> = {
+  AUDIO: 'Voice note',
+  IMAGE: 'Photo',
+  DOCUMENT: 'Document',
+};
+
+function formatReportedAt(iso: string): string {
+  const date = new Date(iso);
+  const time = date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  if (date.toDateString() === new Date().toDateString()) return `Today, ${time}`;
+  return `${date.toLocaleDateString([], { day: 'numeric', month: 'short' })}, ${time}`;
+}
+
+// ── Component ────────────────────────────────────────────────────────────────
+export default function GroupReportsScreen({ navigation, route }: Props) {
+  const { groupId, groupName } = route.params;
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+
+  const [reports, setReports] = useState<MessageReportItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError(false);
+    try {
+      setReports(await fetchGroupReports(groupId));
+    } catch {
+      setLoadError(true);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [groupId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const resolve = useCallback(
+    async (report: MessageReportItem, action: ReportAction) => {
+      setResolvingId(report.id);
+      try {
+        await resolveGroupReport(groupId, report.id, action);
+        // One decision settles every report it covers — refetch the queue.
+        await load();
+      } catch (err) {
+        Alert.alert('Could not update report', getApiErrorMessage(err));
+      } finally {
+        setResolvingId(null);
+      }
+    },
+    [groupId, load],
+  );
+
+  const confirmDelete = useCallback(
+    (report: MessageReportItem) => {
+      Alert.alert('Delete message?', 'It will be removed for everyone in the group.', [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => void resolve(report, 'delete_message'),
+        },
+      ]);
+    },
+    [resolve],
+  );
+
+  const confirmRemove = useCallback(
+    (report: MessageReportItem) => {
+      Alert.alert(
+        `Remove ${report.sender.displayName}?`,
+        'They will be removed from the group and their other open reports closed.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Remove',
+            style: 'destructive',
+            onPress: () => void resolve(report, 'remove_sender'),
+          },
+        ],
+      );
+    },
+    [resolve],
+  );
+
+  const renderMessage = (report: MessageReportItem) => {
+    const m = report.message;
+    if (!m) {
+      return (
+        <Text style={[styles.deletedText, { color: colors.textTertiary }]}>
+          Message was deleted
+        </Text>
+      );
+    }
+    const original = m.transcription ?? m.text;
+    const translations = (Object.keys(LANGUAGE_LABELS) as (keyof typeof LANGUAGE_LABELS)[])
+      .map((lang) => ({ lang, text: m.translations?.[lang] }))
+      .filter((t): t is { lang: keyof typeof LANGUAGE_LABELS; text: string } =>
+        !!t.text && t.text !== original,
+      );
+
+    return (
+      <View style={[styles.quote, { borderLeftColor: colors.border }]}>
+        {MEDIA_LABELS[m.contentType] && (
+          <Text style={[styles.mediaLabel, { color: colors.textSecondary }]}>
+            {MEDIA_LABELS[m.contentType]}
+            {m.fileName ? ` · ${m.fileName}` : ''}
+          </Text>
+        )}
+        {original ? (
+          <Text style={[styles.messageText, { color: colors.text }]}>{original}</Text>
+        ) : null}
+        {translations.map((t) => (
+          <Text key={t.lang} style={[styles.translationText, { color: colors.textSecondary }]}>
+            {LANGUAGE_LABELS[t.lang]}: {t.text}
+          </Text>
+        ))}
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View
+        style={[styles.header, { paddingTop: insets.top + 12, backgroundColor: colors.headerBg }]}
+      >
+        <Pressable onPress={() => navigation.goBack()} hitSlop={12}>
+          <Ionicons name="arrow-back" size={24} color={colors.headerText} />
+        </Pressable>
+        <View style={styles.headerTitleColumn}>
+          <Text style={[styles.headerTitle, { color: colors.headerText }]}>Reported messages</Text>
+          <Text style={[styles.headerSubtitle, { color: colors.headerText }]} numberOfLines={1}>
+            {groupName}
+          </Text>
+        </View>
+        <View style={{ width: 24 }} />
+      </View>
+
+      {isLoading && reports.length === 0 ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.spinnerColor} />
+        </View>
+      ) : loadError ? (
+        <View style={styles.centered}>
+          <Ionicons name="cloud-offline-outline" size={48} color={colors.emptyIcon} />
+          <Text style={[styles.emptyText, { color: colors.emptyText }]}>
+            Could not load reports
+          </Text>
+          <Pressable
+            onPress={() => void load()}
+            style={[styles.retryBtn, { backgroundColor: colors.primary }]}
+          >
+            <Text style={styles.retryText}>Retry</Text>
+          </Pressable>
+        </View>
+      ) : reports.length === 0 ? (
+        <View style={styles.centered}>
+          <Ionicons name="shield-checkmark-outline" size={48} color={colors.emptyIcon} />
+          <Text style={[styles.emptyText, { color: colors.emptyText }]}>No open reports</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={reports}
+          keyExtractor={(r) => r.id}
+          onRefresh={() => void load()}
+          refreshing={isLoading}
+          contentContainerStyle={{ paddingBottom: insets.bottom + 24 }}
+          renderItem={({ item }) => {
+            const isResolving = resolvingId === item.id;
+            return (
+              <View style={[styles.card, { borderBottomColor: colors.rowBorder }]}>
+                <View style={styles.cardHeader}>
+                  <Ionicons name="flag" size={16} color={colors.destructive} />
+                  <Text style={[styles.reason, { color: colors.text }]}>
+                    {REPORT_REASON_LABELS[item.reason]}
+                  </Text>
+                  <Text style={[styles.reportedAt, { color: colors.textTertiary }]}>
+                    {formatReportedAt(item.createdAt)}
+                  </Text>
+                </View>
+                <Text style={[styles.meta, { color: colors.textSecondary }]}>
+                  {item.reporter.displayName} reported a message from {item.sender.displayName}
+                </Text>
+                {item.details ? (
+                  <Text style={[styles.details, { color: colors.text }]}>
+                    {`“${item.details}”`}
+                  </Text>
+                ) : null}
+
+                {renderMessage(item)}
+
+                <View style={styles.actions}>
+                  {isResolving ? (
+                    <ActivityIndicator size="small" color={colors.primary} />
+                  ) : (
+                    <>
+                      <Pressable
+                        onPress={() => void resolve(item, 'dismiss')}
+                        style={[styles.actionBtn, { borderColor: colors.border }]}
+                        hitSlop={6}
+                      >
+                        <Text style={[styles.actionText, { color: colors.primary }]}>Dismiss</Text>
+                      </Pressable>
+                      {item.message && (
+                        <Pressable
+                          onPress={() => confirmDelete(item)}
+                          style={[styles.actionBtn, { borderColor: colors.border }]}
+                          hitSlop={6}
+                        >
+                          <Text style={[styles.actionText, { color: colors.destructive }]}>
+                            Delete message
+                          </Text>
+                        </Pressable>
+                      )}
+                      <Pressable
+                        onPress={() => confirmRemove(item)}
+                        style={[styles.actionBtn, { borderColor: colors.border }]}
+                        hitSlop={6}
+                      >
+                        <Text style={[styles.actionText, { color: colors.destructive }]}>
+                          Remove sender
+                        </Text>
+                      </Pressable>
+                    </>
+                  )}
+                </View>
+              </View>
+            );
+          }}
+        />
+      )}
+    </View>
+  );
+}
+
+// ── Styles ───────────────────────────────────────────────────────────────────
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  headerTitleColumn: { flex: 1, alignItems: 'center', marginHorizontal: 12 },
+  headerTitle: { fontSize: 18, fontWeight: '700' },
+  headerSubtitle: { fontSize: 12, opacity: 0.8 },
+  centered: { flex: 1, justifyContent: 'center', alignItems: 'center', gap: 10 },
+  emptyText: { fontSize: 15 },
+  retryBtn: { marginTop: 4, paddingHorizontal: 24, paddingVertical: 10, borderRadius: 8 },
+  retryText: { color: '#fff', fontWeight: '600', fontSize: 14 },
+  card: {
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    gap: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  cardHeader: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+  reason: { flex: 1, fontSize: 15, fontWeight: '700' },
+  reportedAt: { fontSize: 12 },
+  meta: { fontSize: 13 },
+  details: { fontSize: 14, fontStyle: 'italic' },
+  quote: { borderLeftWidth: 3, paddingLeft: 10, paddingVertical: 2, gap: 4 },
+  mediaLabel: { fontSize: 12, fontWeight: '600' },
+  messageText: { fontSize: 15, lineHeight: 21 },
+  translationText: { fontSize: 13, fontStyle: 'italic' },
+  deletedText: { fontSize: 14, fontStyle: 'italic' },
+  actions: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 6 },
+  actionBtn: {
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 7,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  actionText: { fontSize: 13, fontWeight: '600' },
+});
@@ -0,0 +1,193 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+
+import { joinWithInvite, previewInvite, type InvitePreview } from '../services/api';
+import { getApiErrorMessage } from '../utils/auth';
+import { useTheme } from '../contexts/ThemeContext';
+import type { AppStackParamList } from '../navigation/types';
+
+type Props = NativeStackScreenProps<AppStackParamList, 'JoinGroup'>;
+
+// ── Component ────────────────────────────────────────────────────────────────
+export default function JoinGroupScreen({ navigation, route }: Props) {
+  const { token } = route.params;
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+
+  const [preview, setPreview] = useState<InvitePreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isJoining, setIsJoining] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPreview(null);
+    setError(null);
+    previewInvite(token)
+      .then((data) => {
+        if (!cancelled) setPreview(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(getApiErrorMessage(err, 'Could not open this invite link.'));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const openChat = useCallback(
+    (groupId: string, groupName: string | null) => {
+      navigation.replace('Chat', { groupId, groupName: groupName ?? 'Group chat' });
+    },
+    [navigation],
+  );
+
+  const handleJoin = useCallback(async () => {
+    if (!preview) return;
+    setIsJoining(true);
+    try {
+      const group = await joinWithInvite(token);
+      openChat(group.id, group.name);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Could not join the group.'));
+      setIsJoining(false);
+    }
+  }, [openChat, preview, token]);
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View
+        style={[styles.header, { paddingTop: insets.top + 12, backgroundColor: colors.headerBg }]}
+      >
+        <Pressable onPress={() => navigation.goBack()} hitSlop={12}>
+          <Ionicons name="close" size={24} color={colors.headerText} />
+        </Pressable>
+        <Text style={[styles.headerTitle, { color: colors.headerText }]}>Group Invite</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <View style={styles.body}>
+        {error ? (
+          <>
+            <Ionicons name="link-outline" size={56} color={colors.emptyIcon} />
+            <Text style={[styles.errorText, { color: colors.emptyText }]}>{error}</Text>
+            <Pressable
+              onPress={() => navigation.goBack()}
+              style={[styles.secondaryBtn, { borderColor: colors.border }]}
+            >
+              <Text style={[styles.secondaryBtnText, { color: colors.primary }]}>Close</Text>
+            </Pressable>
+          </>
+        ) : !preview ? (
+          <ActivityIndicator size="large" color={colors.spinnerColor} />
+        ) : (
+          <>
+            <View style={[styles.groupIcon, { backgroundColor: colors.avatarFallbackBg }]}>
+              <Ionicons name="people" size={40} color="#fff" />
+            </View>
+            <Text style={[styles.groupName, { color: colors.text }]} numberOfLines={2}>
+              {preview.groupName ?? 'Group chat'}
+            </Text>
+            <Text style={[styles.memberCount, { color: colors.textSecondary }]}>
+              {preview.memberCount} {preview.memberCount === 1 ? 'member' : 'members'}
+            </Text>
+
+            {preview.isMember ? (
+              <>
+                <Text style={[styles.note, { color: colors.textSecondary }]}>
+                  {"You're already in this group."}
+                </Text>
+                <Pressable
+                  onPress={() => openChat(preview.groupId, preview.groupName)}
+                  style={[styles.primaryBtn, { backgroundColor: colors.primary }]}
+                >
+                  <Text style={styles.primaryBtnText}>Open Chat</Text>
+                </Pressable>
+              </>
+            ) : (
+              <>
+                <Text style={[styles.note, { color: colors.textSecondary }]}>
+                  {"You've been invited to join this group."}
+                </Text>
+                <Pressable
+                  onPress={() => void handleJoin()}
+                  disabled={isJoining}
+                  style={[
+                    styles.primaryBtn,
+                    { backgroundColor: colors.primary, opacity: isJoining ? 0.7 : 1 },
+                  ]}
+                >
+                  {isJoining ? (
+                    <ActivityIndicator color="#fff" />
+                  ) : (
+                    <Text style={styles.primaryBtnText}>Join Group</Text>
+                  )}
+                </Pressable>
+                <Pressable
+                  onPress={() => navigation.goBack()}
+                  disabled={isJoining}
+                  style={[styles.secondaryBtn, { borderColor: colors.border }]}
+                >
+                  <Text style={[styles.secondaryBtnText, { color: colors.primary }]}>
+                    Not Now
+                  </Text>
+                </Pressable>
+              </>
+            )}
+          </>
+        )}
+      </View>
+    </View>
+  );
+}
+
+// ── Styles ───────────────────────────────────────────────────────────────────
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  headerTitle: { fontSize: 18, fontWeight: '700' },
+  body: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    gap: 10,
+  },
+  groupIcon: {
+    width: 88,
+    height: 88,
+    borderRadius: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  groupName: { fontSize: 22, fontWeight: '700', textAlign: 'center' },
+  memberCount: { fontSize: 15 },
+  note: { fontSize: 14, textAlign: 'center', marginTop: 8 },
+  errorText: { fontSize: 15, textAlign: 'center' },
+  primaryBtn: {
+    alignSelf: 'stretch',
+    alignItems: 'center',
+    marginTop: 16,
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  primaryBtnText: { color: '#fff', fontSize: 16, fontWeight: '700' },
+  secondaryBtn: {
+    alignSelf: 'stretch',
+    alignItems: 'center',
+    paddingVertical: 13,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  secondaryBtnText: { fontSize: 15, fontWeight: '600' },
+});
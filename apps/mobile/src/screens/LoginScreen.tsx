@@ -12,7 +12,11 @@ import {
 } from 'react-native';
 import type { NativeStackScreenProps } from '@react-navigation/native-stack';
 
-import apiClient from '../services/api';
+import apiClient, {
+  getDeviceName,
+  type TokenPair,
+  type TwoFactorChallenge,
+} from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
 import type { AuthStackParamList } from '../navigation/types';
@@ -98,11 +102,16 @@ export default function LoginScreen({ navigation }: Props) {
       const { data } = await apiClient.post('/auth/login', {
         email: normalizedEmail,
         password,
+        device_name: getDeviceName(),
       });
 
-      const { access_token } = data as { access_token: string };
+      const result = data as TokenPair | TwoFactorChallenge;
+      if ('two_factor_required' in result) {
+        navigation.navigate('TwoFactorLogin', { challengeToken: result.challenge_token });
+        return;
+      }
 
-      await login(access_token);
+      await login(result.access_token, result.refresh_token);
     } catch (error: unknown) {
       const err = error as LoginRequestError;
       const isExpectedInvalidCredentials = isInvalidCredentialError(err);
@@ -158,6 +167,13 @@ export default function LoginScreen({ navigation }: Props) {
           onChangeText={setPassword}
         />
 
+        <Pressable
+          onPress={() => navigation.navigate('ForgotPassword', { email: normalizeEmail(email) })}
+          style={styles.forgotLink}
+        >
+          <Text style={[styles.forgotLinkText, { color: colors.primary }]}>Forgot password?</Text>
+        </Pressable>
+
         {isSubmitting ? (
           <ActivityIndicator size="large" color={colors.primary} />
         ) : (
@@ -198,6 +214,14 @@ const styles = StyleSheet.create({
     paddingHorizontal: 14,
     fontSize: 16,
   },
+  forgotLink: {
+    alignSelf: 'flex-end',
+    marginTop: -8,
+  },
+  forgotLinkText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   loginBtn: {
     height: 48,
     borderRadius: 8,
@@ -1,6 +1,7 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   ActivityIndicator,
+  Alert,
   Pressable,
   ScrollView,
   StyleSheet,
@@ -12,8 +13,17 @@ import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import type { NativeStackScreenProps } from '@react-navigation/native-stack';
 
-import { fetchUserById, type CurrentUser } from '../services/api';
+import {
+  blockUser,
+  fetchBlockedUsers,
+  fetchUserById,
+  unblockUser,
+  type CurrentUser,
+} from '../services/api';
+import { getApiErrorMessage } from '../utils/auth';
 import { useTheme } from '../contexts/ThemeContext';
+import { useSocket } from '../contexts/SocketContext';
+import { usePresence } from '../hooks/usePresence';
 import type { AppStackParamList } from '../navigation/types';
 
 type Props = NativeStackScreenProps<AppStackParamList, 'PersonInfo'>;
@@ -39,9 +49,14 @@ export default function PersonInfoScreen({ navigation, route }: Props) {
   const { userId, displayName: initialName, profilePictureUrl: initialPicture } = route.params;
   const { colors } = useTheme();
   const insets = useSafeAreaInsets();
+  const { socket, isConnected } = useSocket();
+  const { isOnline, presenceText } = usePresence({ userId, socket, isConnected });
 
   const [profile, setProfile] = useState<CurrentUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  /** Null until the block list has loaded. */
+  const [isBlocked, setIsBlocked] = useState<boolean | null>(null);
+  const [isUpdatingBlock, setIsUpdatingBlock] = useState(false);
 
   useEffect(() => {
     let cancelled = false;
@@ -55,12 +70,50 @@ export default function PersonInfoScreen({ navigation, route }: Props) {
         if (!cancelled) setIsLoading(false);
       }
     })();
+    fetchBlockedUsers()
+      .then((blocked) => {
+        if (!cancelled) setIsBlocked(blocked.some((u) => u.id === userId));
+      })
+      .catch((err) => console.error('[PersonInfoScreen] Failed to fetch blocks:', err));
     return () => {
       cancelled = true;
     };
   }, [userId]);
 
   const name = profile?.displayName ?? initialName;
+
+  const setBlocked = useCallback(
+    async (block: boolean) => {
+      setIsUpdatingBlock(true);
+      try {
+        await (block ? blockUser(userId) : unblockUser(userId));
+        setIsBlocked(block);
+      } catch (err) {
+        Alert.alert(
+          block ? 'Could not block' : 'Could not unblock',
+          getApiErrorMessage(err),
+        );
+      } finally {
+        setIsUpdatingBlock(false);
+      }
+    },
+    [userId],
+  );
+
+  const handleBlockPress = useCallback(() => {
+    if (isBlocked) {
+      void setBlocked(false);
+      return;
+    }
+    Alert.alert(
+      `Block ${name}?`,
+      "They won't be able to message you, and you won't see their messages or notifications in shared groups.",
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Block', style: 'destructive', onPress: () => void setBlocked(true) },
+      ],
+    );
+  }, [isBlocked, name, setBlocked]);
   const picture = profile?.profilePictureUrl ?? initialPicture ?? null;
   const email = profile?.email ?? null;
   const dialect = profile?.nativeDialect ?? null;
@@ -94,6 +147,16 @@ export default function PersonInfoScreen({ navigation, route }: Props) {
             </View>
           )}
           <Text style={[styles.displayName, { color: colors.text }]}>{name}</Text>
+          {presenceText ? (
+            <Text
+              style={[
+                styles.presence,
+                { color: isOnline ? colors.primary : colors.textSecondary },
+              ]}
+            >
+              {presenceText}
+            </Text>
+          ) : null}
         </View>
 
         {/* Info rows */}
@@ -131,6 +194,28 @@ export default function PersonInfoScreen({ navigation, route }: Props) {
             ) : null}
           </View>
         )}
+
+        {isBlocked !== null && (
+          <Pressable
+            onPress={handleBlockPress}
+            disabled={isUpdatingBlock}
+            style={({ pressed }) => [
+              styles.blockRow,
+              { backgroundColor: colors.surfaceElevated, borderColor: colors.border },
+              pressed && { backgroundColor: colors.rowPressed },
+            ]}
+            accessibilityRole="button"
+          >
+            {isUpdatingBlock ? (
+              <ActivityIndicator size="small" color={colors.destructive} />
+            ) : (
+              <Ionicons name="ban-outline" size={20} color={colors.destructive} />
+            )}
+            <Text style={[styles.blockText, { color: colors.destructive }]}>
+              {isBlocked ? `Unblock ${name}` : `Block ${name}`}
+            </Text>
+          </Pressable>
+        )}
       </ScrollView>
     </View>
   );
@@ -174,6 +259,11 @@ const styles = StyleSheet.create({
     fontWeight: '800',
     textAlign: 'center',
   },
+  presence: {
+    fontSize: 14,
+    marginTop: 4,
+    textAlign: 'center',
+  },
 
   // Info card
   infoCard: {
@@ -206,4 +296,18 @@ const styles = StyleSheet.create({
     marginBottom: 2,
   },
   infoValue: { fontSize: 15, fontWeight: '500' },
+
+  // Block
+  blockRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 14,
+    marginHorizontal: 20,
+    marginTop: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderRadius: 14,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  blockText: { fontSize: 15, fontWeight: '600' },
 });
@@ -20,7 +20,7 @@ import type { NativeStackScreenProps } from '@react-navigation/native-stack';
 
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
-import { updateProfile, uploadProfilePicture } from '../services/api';
+import { fetchCurrentUser, updateProfile, uploadProfilePicture } from '../services/api';
 import { getTranslatedOnlyMode, setTranslatedOnlyMode } from '../utils/secureStorage';
 import type { AppStackParamList } from '../navigation/types';
 import { getApiErrorMessage } from '../utils/auth';
@@ -69,6 +69,7 @@ export default function ProfileScreen({ navigation }: Props) {
   const [displayName, setDisplayName] = useState(userDisplayName ?? '');
   const [dialect, setDialect] = useState(userDialect ?? 'english');
   const [translatedOnlyMode, setTranslatedOnlyModeState] = useState(false);
+  const [hideLastSeen, setHideLastSeen] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [isUploadingPic, setIsUploadingPic] = useState(false);
   const [formError, setFormError] = useState('');
@@ -110,6 +111,23 @@ export default function ProfileScreen({ navigation }: Props) {
     getTranslatedOnlyMode().then(setTranslatedOnlyModeState);
   }, []);
 
+  // Last-seen privacy lives on the server profile.
+  useEffect(() => {
+    fetchCurrentUser()
+      .then((user) => setHideLastSeen(!!user.hideLastSeen))
+      .catch((err) => console.warn('[ProfileScreen] Failed to load privacy settings:', err));
+  }, []);
+
+  const handleToggleHideLastSeen = useCallback(async (value: boolean) => {
+    setHideLastSeen(value);
+    try {
+      await updateProfile({ hideLastSeen: value });
+    } catch (err) {
+      setHideLastSeen(!value);
+      Alert.alert('Save failed', getApiErrorMessage(err, 'Could not update your privacy setting.'));
+    }
+  }, []);
+
   // ── Profile picture upload flow ──────────────────────────────────────────
   const handlePickImage = useCallback(async () => {
     const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
@@ -342,6 +360,25 @@ export default function ProfileScreen({ navigation }: Props) {
           />
         </View>
 
+        {/* Last-seen privacy toggle */}
+        <View style={[styles.toggleRow, { borderColor: colors.border, backgroundColor: colors.surface }]}>
+          <View style={styles.toggleRowLeft}>
+            <Ionicons name="eye-off-outline" size={20} color={colors.primary} />
+            <View style={styles.toggleRowTextContainer}>
+              <Text style={[styles.toggleRowText, { color: colors.modalText }]}>Hide Last Seen</Text>
+              <Text style={[styles.toggleRowHint, { color: colors.textTertiary }]}>
+                Hide when you were last online from others
+              </Text>
+            </View>
+          </View>
+          <Switch
+            value={hideLastSeen}
+            onValueChange={handleToggleHideLastSeen}
+            trackColor={{ false: colors.border, true: colors.primaryFaded }}
+            thumbColor="#fff"
+          />
+        </View>
+
         {/* My Dictionary link */}
         <Pressable
           style={[styles.dictionaryRow, { backgroundColor: colors.surface, borderColor: colors.border }]}
@@ -357,6 +394,51 @@ export default function ProfileScreen({ navigation }: Props) {
           Add custom words or slang to improve your translation accuracy.
         </Text>
 
+        {/* Blocked users link */}
+        <Pressable
+          style={[styles.dictionaryRow, { backgroundColor: colors.surface, borderColor: colors.border }]}
+          onPress={() => navigation.navigate('BlockedUsers')}
+        >
+          <View style={styles.dictionaryRowLeft}>
+            <Ionicons name="ban-outline" size={20} color={colors.primary} />
+            <Text style={[styles.dictionaryRowText, { color: colors.modalText }]}>Blocked Users</Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color={colors.chevronColor} />
+        </Pressable>
+        <Text style={[styles.dictionaryHint, { color: colors.textTertiary }]}>
+          {"People you've blocked can't message you and are hidden in shared groups."}
+        </Text>
+
+        {/* Signed-in devices link */}
+        <Pressable
+          style={[styles.dictionaryRow, { backgroundColor: colors.surface, borderColor: colors.border }]}
+          onPress={() => navigation.navigate('Devices')}
+        >
+          <View style={styles.dictionaryRowLeft}>
+            <Ionicons name="phone-portrait-outline" size={20} color={colors.primary} />
+            <Text style={[styles.dictionaryRowText, { color: colors.modalText }]}>Devices</Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color={colors.chevronColor} />
+        </Pressable>
+        <Text style={[styles.dictionaryHint, { color: colors.textTertiary }]}>
+          {"See where you're signed in and log out devices you don't recognise."}
+        </Text>
+
+        {/* Two-factor authentication link */}
+        <Pressable
+          style={[styles.dictionaryRow, { backgroundColor: colors.surface, borderColor: colors.border }]}
+          onPress={() => navigation.navigate('TwoFactor')}
+        >
+          <View style={styles.dictionaryRowLeft}>
+            <Ionicons name="shield-checkmark-outline" size={20} color={colors.primary} />
+            <Text style={[styles.dictionaryRowText, { color: colors.modalText }]}>Two-Factor Authentication</Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color={colors.chevronColor} />
+        </Pressable>
+        <Text style={[styles.dictionaryHint, { color: colors.textTertiary }]}>
+          Ask for a code from an authenticator app when you sign in.
+        </Text>
+
         {formError ? <Text style={[styles.errorText, { color: colors.destructive }]}>{formError}</Text> : null}
 
         {/* Save button */}
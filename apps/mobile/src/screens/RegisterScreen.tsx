@@ -13,7 +13,7 @@ import {
 } from 'react-native';
 import type { NativeStackScreenProps } from '@react-navigation/native-stack';
 
-import apiClient from '../services/api';
+import apiClient, { getDeviceName, type TokenPair } from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
 import type { AuthStackParamList } from '../navigation/types';
@@ -113,10 +113,11 @@ export default function RegisterScreen({ navigation }: Props) {
       const { data } = await apiClient.post('/auth/login', {
         email: normalizedEmail,
         password,
+        device_name: getDeviceName(),
       });
-      const { access_token } = data as { access_token: string };
+      const { access_token, refresh_token } = data as TokenPair;
 
-      await login(access_token);
+      await login(access_token, refresh_token);
       // AuthProvider will update userToken → AppGate renders the main app
     } catch (error: unknown) {
       const err = error as {
@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+
+import { requestPasswordReset, resetPassword } from '../services/api';
+import { useTheme } from '../contexts/ThemeContext';
+import type { AuthStackParamList } from '../navigation/types';
+import { getApiErrorMessage } from '../utils/auth';
+
+type Props = NativeStackScreenProps<AuthStackParamList, 'ResetPassword'>;
+
+const CODE_LENGTH = 6;
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_PASSWORD_LENGTH = 128;
+
+export default function ResetPasswordScreen({ navigation, route }: Props) {
+  const { email } = route.params;
+  const { colors } = useTheme();
+
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+
+  async function handleReset() {
+    if (!/^\d{6}$/.test(code)) {
+      Alert.alert('Validation', `Enter the ${CODE_LENGTH}-digit code from the email.`);
+      return;
+    }
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      Alert.alert(
+        'Validation',
+        `Password must be at least ${MIN_PASSWORD_LENGTH} characters long.`,
+      );
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      Alert.alert('Validation', 'Passwords do not match.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await resetPassword(email, code, password);
+      Alert.alert(
+        'Password changed',
+        'Log in with your new password. Any other devices have been signed out.',
+      );
+      navigation.popToTop();
+    } catch (error: unknown) {
+      Alert.alert(
+        'Reset failed',
+        getApiErrorMessage(error, 'Unable to reset your password right now. Please try again.'),
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function handleResend() {
+    setIsResending(true);
+    try {
+      await requestPasswordReset(email);
+      setCode('');
+      Alert.alert('Code sent', `We sent a new code to ${email}.`);
+    } catch (error: unknown) {
+      Alert.alert('Could not send code', getApiErrorMessage(error));
+    } finally {
+      setIsResending(false);
+    }
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <View style={styles.form}>
+        <Text style={[styles.title, { color: colors.text }]}>Reset password</Text>
+        <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+          If {email} has an account, we sent it a {CODE_LENGTH}-digit code. It expires in 30 minutes.
+        </Text>
+
+        <TextInput
+          style={[
+            styles.input,
+            styles.codeInput,
+            { backgroundColor: colors.inputBg, borderColor: colors.inputBorder, color: colors.inputText },
+          ]}
+          placeholder="Code"
+          placeholderTextColor={colors.inputPlaceholder}
+          keyboardType="number-pad"
+          textContentType="oneTimeCode"
+          autoComplete="one-time-code"
+          autoFocus
+          maxLength={CODE_LENGTH}
+          value={code}
+          onChangeText={(text) => setCode(text.replace(/\D/g, ''))}
+        />
+
+        <TextInput
+          style={[styles.input, { backgroundColor: colors.inputBg, borderColor: colors.inputBorder, color: colors.inputText }]}
+          placeholder="New password"
+          placeholderTextColor={colors.inputPlaceholder}
+          secureTextEntry
+          textContentType="newPassword"
+          maxLength={MAX_PASSWORD_LENGTH}
+          value={password}
+          onChangeText={setPassword}
+        />
+
+        <TextInput
+          style={[styles.input, { backgroundColor: colors.inputBg, borderColor: colors.inputBorder, color: colors.inputText }]}
+          placeholder="Confirm new password"
+          placeholderTextColor={colors.inputPlaceholder}
+          secureTextEntry
+          textContentType="newPassword"
+          maxLength={MAX_PASSWORD_LENGTH}
+          value={confirmPassword}
+          onChangeText={setConfirmPassword}
+        />
+
+        {isSubmitting ? (
+          <ActivityIndicator size="large" color={colors.primary} />
+        ) : (
+          <Pressable style={[styles.submitBtn, { backgroundColor: colors.primary }]} onPress={handleReset}>
+            <Text style={styles.submitBtnText}>Change Password</Text>
+          </Pressable>
+        )}
+
+        <Pressable onPress={handleResend} disabled={isResending}>
+          <Text style={[styles.switchLink, { color: colors.textSecondary }]}>
+            {"Didn't get it? "}
+            <Text style={[styles.switchLinkBold, { color: colors.primary }]}>
+              {isResending ? 'Sending…' : 'Resend code'}
+            </Text>
+          </Text>
+        </Pressable>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  form: {
+    marginHorizontal: 24,
+    gap: 16,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  input: {
+    height: 48,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    fontSize: 16,
+  },
+  codeInput: {
+    fontSize: 22,
+    letterSpacing: 8,
+    textAlign: 'center',
+  },
+  submitBtn: {
+    height: 48,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  submitBtnText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  switchLink: {
+    textAlign: 'center',
+    fontSize: 14,
+  },
+  switchLinkBold: {
+    fontWeight: '600',
+  },
+});
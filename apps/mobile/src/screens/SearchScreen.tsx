@@ -0,0 +1,513 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Keyboard,
+  Pressable,
+  ScrollView,
+  SectionList,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+
+import {
+  fetchGroups,
+  searchAllMessages,
+  type ConversationSearchResult,
+  type GroupItem,
+  type MessageSearchFilters,
+  type SearchResultItem,
+} from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { useTheme } from '../contexts/ThemeContext';
+import {
+  CONTENT_TYPE_META,
+  HighlightedText,
+  formatRelativeTime,
+} from '../components/chat/ChatSearchModal';
+import type { AppStackParamList } from '../navigation/types';
+
+type Props = NativeStackScreenProps<AppStackParamList, 'Search'>;
+
+const PAGE_SIZE = 20;
+const DAY_MS = 86_400_000;
+
+const CONTENT_TYPE_FILTERS: { value: SearchResultItem['contentType'] | null; label: string }[] = [
+  { value: null, label: 'All' },
+  { value: 'TEXT', label: 'Text' },
+  { value: 'AUDIO', label: 'Voice' },
+  { value: 'IMAGE', label: 'Photos' },
+  { value: 'DOCUMENT', label: 'Documents' },
+  { value: 'POLL', label: 'Polls' },
+];
+
+const DATE_FILTERS: { days: number | null; label: string }[] = [
+  { days: null, label: 'Any time' },
+  { days: 7, label: 'Past week' },
+  { days: 30, label: 'Past month' },
+  { days: 365, label: 'Past year' },
+];
+
+function getConversationName(group: GroupItem): string {
+  return group.isGroup ? group.name ?? 'Group' : group.otherUser?.displayName ?? 'Chat';
+}
+
+// ── Component ────────────────────────────────────────────────────────────────
+export default function SearchScreen({ navigation }: Props) {
+  const { userId } = useAuth();
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+
+  const [query, setQuery] = useState('');
+  const [contentType, setContentType] = useState<SearchResultItem['contentType'] | null>(null);
+  const [days, setDays] = useState<number | null>(null);
+  const [sender, setSender] = useState<{ id: string; name: string } | null>(null);
+  const [conversations, setConversations] = useState<ConversationSearchResult[]>([]);
+  const [totalConversations, setTotalConversations] = useState(0);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [groups, setGroups] = useState<GroupItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isFetchingMore, setIsFetchingMore] = useState(false);
+  const [hasSearched, setHasSearched] = useState(false);
+  // Drops responses for a query or filter the user has already moved away from.
+  const requestIdRef = useRef(0);
+
+  const groupsById = useMemo(() => new Map(groups.map((g) => [g.id, g])), [groups]);
+
+  useEffect(() => {
+    fetchGroups({ includeArchived: true })
+      .then(setGroups)
+      .catch((err) => console.warn('[SearchScreen] Failed to load conversations:', err));
+  }, []);
+
+  const buildFilters = useCallback((): MessageSearchFilters => {
+    return {
+      contentType: contentType ?? undefined,
+      senderId: sender?.id,
+      from: days ? new Date(Date.now() - days * DAY_MS).toISOString() : undefined,
+    };
+  }, [contentType, sender, days]);
+
+  // ── Debounced search (first page on query or filter change) ─────────────
+  useEffect(() => {
+    const trimmed = query.trim();
+    const requestId = ++requestIdRef.current;
+    if (!trimmed) {
+      setConversations([]);
+      setTotal(0);
+      setTotalConversations(0);
+      setHasSearched(false);
+      setIsLoading(false);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      setHasSearched(true);
+      try {
+        const res = await searchAllMessages(trimmed, buildFilters(), 1, PAGE_SIZE);
+        if (requestId !== requestIdRef.current) return;
+        setConversations(res.conversations);
+        setTotal(res.total);
+        setTotalConversations(res.totalConversations);
+        setPage(1);
+      } catch (err) {
+        if (requestId !== requestIdRef.current) return;
+        console.error('[SearchScreen] search failed:', err);
+      } finally {
+        if (requestId === requestIdRef.current) setIsLoading(false);
+      }
+    }, 350);
+    return () => clearTimeout(timer);
+  }, [query, buildFilters]);
+
+  const handleEndReached = useCallback(async () => {
+    if (isLoading || isFetchingMore || conversations.length >= totalConversations) return;
+    const requestId = requestIdRef.current;
+    const nextPage = page + 1;
+    setIsFetchingMore(true);
+    try {
+      const res = await searchAllMessages(query.trim(), buildFilters(), nextPage, PAGE_SIZE);
+      if (requestId !== requestIdRef.current) return;
+      setConversations((prev) => [...prev, ...res.conversations]);
+      setPage(nextPage);
+    } catch (err) {
+      console.error('[SearchScreen] load more failed:', err);
+    } finally {
+      setIsFetchingMore(false);
+    }
+  }, [isLoading, isFetchingMore, conversations.length, totalConversations, page, query, buildFilters]);
+
+  // ── Navigation ───────────────────────────────────────────────────────────
+  const openChat = useCallback(
+    (groupId: string, target: { focusMessageId?: string; searchQuery?: string }) => {
+      const group = groupsById.get(groupId);
+      if (!group) return;
+      Keyboard.dismiss();
+      navigation.navigate('Chat', {
+        groupId: group.id,
+        groupName: getConversationName(group),
+        isDm: !group.isGroup,
+        preferredLanguage: group.preferredLanguage,
+        otherUserPicture: group.otherUser?.profilePictureUrl,
+        otherUserId: group.otherUser?.id,
+        messageRetention: group.messageRetention,
+        editWindowMinutes: group.editWindowMinutes,
+        revisionVisibility: group.revisionVisibility,
+        onlyAdminsCanPost: group.onlyAdminsCanPost,
+        onlyAdminsCanEditInfo: group.onlyAdminsCanEditInfo,
+        role: group.role,
+        ...target,
+      });
+    },
+    [groupsById, navigation],
+  );
+
+  // ── Render ───────────────────────────────────────────────────────────────
+  const sections = useMemo(
+    () => conversations.map((c) => ({ ...c, data: c.results })),
+    [conversations],
+  );
+
+  const renderResult = useCallback(
+    ({ item }: { item: SearchResultItem }) => {
+      const meta = CONTENT_TYPE_META[item.contentType] ?? CONTENT_TYPE_META.TEXT;
+      const isOwn = item.senderId === userId;
+      return (
+        <Pressable
+          onPress={() => openChat(item.groupId, { focusMessageId: item.id })}
+          style={({ pressed }) => [
+            styles.resultRow,
+            { borderBottomColor: colors.searchResultBorder },
+            pressed && { backgroundColor: colors.searchResultActiveBg },
+          ]}
+        >
+          <View style={[styles.contentTypeIcon, { backgroundColor: colors.searchContentTypeBg }]}>
+            <Ionicons name={meta.icon} size={18} color={colors.searchContentTypeIcon} />
+          </View>
+          <View style={styles.resultBody}>
+            <View style={styles.resultMeta}>
+              {/* Tapping the sender narrows the search to their messages */}
+              <Pressable
+                onPress={() =>
+                  setSender({ id: item.senderId, name: isOwn ? 'me' : item.senderName })
+                }
+                hitSlop={6}
+                style={styles.senderBtn}
+              >
+                <Text style={[styles.senderName, { color: colors.text }]} numberOfLines={1}>
+                  {isOwn ? 'You' : item.senderName}
+                </Text>
+              </Pressable>
+              <Text style={[styles.timestamp, { color: colors.searchTimestamp }]}>
+                {formatRelativeTime(item.createdAt)}
+              </Text>
+            </View>
+            {item.contentType === 'DOCUMENT' && item.fileName ? (
+              <Text style={[styles.fileName, { color: colors.textSecondary }]} numberOfLines={1}>
+                {item.fileName}
+              </Text>
+            ) : null}
+            <HighlightedText
+              text={item.headline}
+              highlightColor={colors.searchHighlight}
+              highlightTextColor={colors.searchHighlightText}
+              baseTextColor={colors.textSecondary}
+            />
+          </View>
+        </Pressable>
+      );
+    },
+    [userId, colors, openChat],
+  );
+
+  const renderSectionHeader = useCallback(
+    ({ section }: { section: ConversationSearchResult }) => {
+      const group = groupsById.get(section.groupId);
+      return (
+        <Pressable
+          onPress={() => openChat(section.groupId, { searchQuery: query.trim() })}
+          style={[styles.sectionHeader, { backgroundColor: colors.background }]}
+        >
+          <Ionicons
+            name={group?.isGroup === false ? 'person-outline' : 'people-outline'}
+            size={14}
+            color={colors.sectionHeaderText}
+          />
+          <Text
+            style={[styles.sectionHeaderText, { color: colors.sectionHeaderText }]}
+            numberOfLines={1}
+          >
+            {group ? getConversationName(group) : 'Conversation'}
+          </Text>
+          <Text style={[styles.sectionCount, { color: colors.textTertiary }]}>
+            {section.total} match{section.total !== 1 ? 'es' : ''}
+          </Text>
+        </Pressable>
+      );
+    },
+    [groupsById, openChat, query, colors],
+  );
+
+  const renderSectionFooter = useCallback(
+    ({ section }: { section: ConversationSearchResult }) => {
+      const more = section.total - section.results.length;
+      if (more <= 0) return null;
+      return (
+        <Pressable
+          onPress={() => openChat(section.groupId, { searchQuery: query.trim() })}
+          style={styles.moreRow}
+        >
+          <Text style={[styles.moreText, { color: colors.primary }]}>
+            See {more} more in this chat
+          </Text>
+        </Pressable>
+      );
+    },
+    [openChat, query, colors.primary],
+  );
+
+  const renderChip = (key: string, label: string, isActive: boolean, onPress: () => void) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        { borderColor: isActive ? colors.primary : colors.border },
+        isActive && { backgroundColor: colors.primaryFaded },
+      ]}
+    >
+      <Text
+        style={[styles.chipText, { color: isActive ? colors.primary : colors.textSecondary }]}
+        numberOfLines={1}
+      >
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.searchModalBg }]}>
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + 8, backgroundColor: colors.headerBg }]}>
+        <Pressable onPress={() => navigation.goBack()} hitSlop={12} style={styles.backBtn}>
+          <Ionicons name="arrow-back" size={24} color={colors.headerText} />
+        </Pressable>
+        <View style={[styles.searchInputWrapper, { backgroundColor: colors.searchBg }]}>
+          <Ionicons name="search" size={18} color={colors.searchIcon} style={{ marginLeft: 10 }} />
+          <TextInput
+            style={[styles.searchInput, { color: colors.searchText }]}
+            placeholder="Search all chats..."
+            placeholderTextColor={colors.searchPlaceholder}
+            value={query}
+            onChangeText={setQuery}
+            returnKeyType="search"
+            autoCapitalize="none"
+            autoCorrect={false}
+            autoFocus
+          />
+          {query.length > 0 && (
+            <Pressable onPress={() => setQuery('')} hitSlop={8}>
+              <Ionicons
+                name="close-circle"
+                size={18}
+                color={colors.searchIcon}
+                style={{ marginRight: 10 }}
+              />
+            </Pressable>
+          )}
+        </View>
+      </View>
+
+      {/* Filters */}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.chipScroll}
+        contentContainerStyle={styles.chipRow}
+        keyboardShouldPersistTaps="handled"
+      >
+        {CONTENT_TYPE_FILTERS.map((f) =>
+          renderChip(f.value ?? 'all', f.label, contentType === f.value, () => setContentType(f.value)),
+        )}
+      </ScrollView>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.chipScroll}
+        contentContainerStyle={styles.chipRow}
+        keyboardShouldPersistTaps="handled"
+      >
+        {DATE_FILTERS.map((f) =>
+          renderChip(`days-${f.days ?? 'any'}`, f.label, days === f.days, () => setDays(f.days)),
+        )}
+        {sender
+          ? renderChip('sender', `From ${sender.name} ✕`, true, () => setSender(null))
+          : userId
+            ? renderChip('sender-me', 'From me', false, () => setSender({ id: userId, name: 'me' }))
+            : null}
+      </ScrollView>
+
+      {/* Results */}
+      {isLoading && conversations.length === 0 ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.spinnerColor} />
+        </View>
+      ) : !hasSearched ? (
+        <View style={styles.centered}>
+          <Ionicons name="search" size={48} color={colors.emptyIcon} />
+          <Text style={[styles.emptyTitle, { color: colors.emptyText }]}>Search all chats</Text>
+          <Text style={[styles.emptyHint, { color: colors.emptyHint }]}>
+            Matches messages in any language, voice notes,{'\n'}document text and file names
+          </Text>
+        </View>
+      ) : conversations.length === 0 && !isLoading ? (
+        <View style={styles.centered}>
+          <Ionicons name="search-outline" size={52} color={colors.emptyIcon} />
+          <Text style={[styles.emptyTitle, { color: colors.emptyText }]}>No results found</Text>
+          <Text style={[styles.emptyHint, { color: colors.emptyHint }]}>
+            Try different keywords or fewer filters
+          </Text>
+        </View>
+      ) : (
+        <SectionList
+          sections={sections}
+          keyExtractor={(item) => item.id}
+          renderItem={renderResult}
+          renderSectionHeader={renderSectionHeader}
+          renderSectionFooter={renderSectionFooter}
+          stickySectionHeadersEnabled={false}
+          keyboardShouldPersistTaps="handled"
+          keyboardDismissMode="on-drag"
+          onEndReached={handleEndReached}
+          onEndReachedThreshold={0.4}
+          ListHeaderComponent={
+            <Text style={[styles.countText, { color: colors.textSecondary }]}>
+              {total} result{total !== 1 ? 's' : ''} in {totalConversations} chat
+              {totalConversations !== 1 ? 's' : ''}
+            </Text>
+          }
+          ListFooterComponent={
+            isFetchingMore ? (
+              <ActivityIndicator style={styles.loading} color={colors.spinnerColor} />
+            ) : null
+          }
+          contentContainerStyle={{ paddingBottom: insets.bottom + 16 }}
+        />
+      )}
+    </View>
+  );
+}
+
+// ── Styles ───────────────────────────────────────────────────────────────────
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingBottom: 10,
+    paddingHorizontal: 12,
+    gap: 8,
+  },
+  backBtn: { padding: 4 },
+  searchInputWrapper: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    height: 40,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 15,
+    paddingHorizontal: 8,
+    paddingVertical: 0,
+    height: 40,
+  },
+
+  chipScroll: { flexGrow: 0 },
+  chipRow: {
+    paddingHorizontal: 12,
+    paddingTop: 10,
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1.5,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    maxWidth: 180,
+  },
+  chipText: { fontSize: 13, fontWeight: '600' },
+
+  countText: {
+    fontSize: 12,
+    fontWeight: '600',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 6,
+  },
+  sectionHeaderText: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: 0.8,
+  },
+  sectionCount: { fontSize: 12 },
+  moreRow: {
+    paddingHorizontal: 64,
+    paddingVertical: 10,
+  },
+  moreText: { fontSize: 13, fontWeight: '600' },
+
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  contentTypeIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  resultBody: { flex: 1 },
+  resultMeta: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 3,
+  },
+  senderBtn: { flex: 1, marginRight: 8 },
+  senderName: { fontSize: 14, fontWeight: '700' },
+  timestamp: { fontSize: 12 },
+  fileName: { fontSize: 12, fontWeight: '600', marginBottom: 2 },
+
+  loading: { marginVertical: 24 },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    gap: 8,
+  },
+  emptyTitle: { fontSize: 17, fontWeight: '600', marginTop: 4 },
+  emptyHint: { fontSize: 14, textAlign: 'center', lineHeight: 20 },
+});
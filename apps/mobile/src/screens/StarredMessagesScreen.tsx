@@ -0,0 +1,377 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { useSharedValue } from 'react-native-reanimated';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+
+import {
+  fetchGroups,
+  fetchStarredMessages,
+  unstarMessage,
+  type GroupItem,
+  type StarredContentType,
+  type StarredMessageItem,
+} from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { useTheme } from '../contexts/ThemeContext';
+import { ChatListProvider } from '../contexts/ChatListContext';
+import { ChatAudioPlayerProvider } from '../contexts/ChatAudioPlayerContext';
+import MessageBubble, { MediatingAnimProvider } from '../components/chat/MessageBubble';
+import { historyToChatMessage } from '../hooks/useChatMessages';
+import type { AppStackParamList } from '../navigation/types';
+
+type Props = NativeStackScreenProps<AppStackParamList, 'StarredMessages'>;
+
+const PAGE_SIZE = 30;
+
+const CONTENT_TYPE_FILTERS: { value: StarredContentType | null; label: string }[] = [
+  { value: null, label: 'All' },
+  { value: 'TEXT', label: 'Text' },
+  { value: 'AUDIO', label: 'Voice' },
+  { value: 'IMAGE', label: 'Photos' },
+  { value: 'DOCUMENT', label: 'Documents' },
+  { value: 'POLL', label: 'Polls' },
+];
+
+function getConversationName(group: GroupItem): string {
+  return group.isGroup ? group.name ?? 'Group' : group.otherUser?.displayName ?? 'Chat';
+}
+
+function formatStarredDate(iso: string): string {
+  const date = new Date(iso);
+  if (date.toDateString() === new Date().toDateString()) {
+    return date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  }
+  return date.toLocaleDateString([], { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+// ── Component ────────────────────────────────────────────────────────────────
+export default function StarredMessagesScreen({ navigation }: Props) {
+  const { userId } = useAuth();
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+
+  const [items, setItems] = useState<StarredMessageItem[]>([]);
+  const [groups, setGroups] = useState<GroupItem[]>([]);
+  const [contentType, setContentType] = useState<StarredContentType | null>(null);
+  const [groupFilter, setGroupFilter] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isFetchingMore, setIsFetchingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  // Drops responses for a filter the user has already moved away from.
+  const requestIdRef = useRef(0);
+
+  // MessageBubble reads selection state from ChatListContext; nothing is selectable here.
+  const selectionModeProgress = useSharedValue(0);
+  const selectedIdsMap = useSharedValue<Record<string, boolean>>({});
+  const highlightedMessageId = useSharedValue<string | null>(null);
+
+  const groupsById = useMemo(() => new Map(groups.map((g) => [g.id, g])), [groups]);
+
+  useEffect(() => {
+    fetchGroups({ includeArchived: true })
+      .then(setGroups)
+      .catch((err) => console.warn('[StarredMessagesScreen] Failed to load conversations:', err));
+  }, []);
+
+  // ── Load (first page on filter change, then older pages on scroll) ──────
+  const loadPage = useCallback(
+    async (before?: string) => {
+      const requestId = ++requestIdRef.current;
+      try {
+        const page = await fetchStarredMessages({
+          contentType: contentType ?? undefined,
+          groupId: groupFilter ?? undefined,
+          before,
+          limit: PAGE_SIZE,
+        });
+        if (requestId !== requestIdRef.current) return;
+        setItems((prev) => (before ? [...prev, ...page] : page));
+        setHasMore(page.length === PAGE_SIZE);
+      } catch (err) {
+        if (requestId !== requestIdRef.current) return;
+        console.error('[StarredMessagesScreen] Failed to load starred messages:', err);
+        Alert.alert('Error', 'Could not load your starred messages. Please try again.');
+      }
+    },
+    [contentType, groupFilter],
+  );
+
+  useEffect(() => {
+    setIsLoading(true);
+    setItems([]);
+    loadPage().finally(() => setIsLoading(false));
+  }, [loadPage]);
+
+  const handleEndReached = useCallback(() => {
+    if (isLoading || isFetchingMore || !hasMore || items.length === 0) return;
+    setIsFetchingMore(true);
+    loadPage(items[items.length - 1].starredAt).finally(() => setIsFetchingMore(false));
+  }, [isLoading, isFetchingMore, hasMore, items, loadPage]);
+
+  // ── Actions ──────────────────────────────────────────────────────────────
+  const handleUnstar = useCallback((item: StarredMessageItem) => {
+    setItems((prev) => prev.filter((i) => i.id !== item.id));
+    unstarMessage(item.id).catch((err) => {
+      console.error('[StarredMessagesScreen] Failed to unstar:', err);
+      setItems((prev) =>
+        [...prev, item].sort((a, b) => b.starredAt.localeCompare(a.starredAt)),
+      );
+      Alert.alert('Error', 'Could not remove the star. Please try again.');
+    });
+  }, []);
+
+  const handleOpenChat = useCallback(
+    (item: StarredMessageItem) => {
+      const group = groupsById.get(item.groupId);
+      if (!group) return;
+      navigation.navigate('Chat', {
+        groupId: group.id,
+        groupName: getConversationName(group),
+        isDm: !group.isGroup,
+        preferredLanguage: group.preferredLanguage,
+        otherUserPicture: group.otherUser?.profilePictureUrl,
+        otherUserId: group.otherUser?.id,
+        messageRetention: group.messageRetention,
+        editWindowMinutes: group.editWindowMinutes,
+        revisionVisibility: group.revisionVisibility,
+        onlyAdminsCanPost: group.onlyAdminsCanPost,
+        onlyAdminsCanEditInfo: group.onlyAdminsCanEditInfo,
+        role: group.role,
+      });
+    },
+    [groupsById, navigation],
+  );
+
+  // ── Render ───────────────────────────────────────────────────────────────
+  const renderItem = useCallback(
+    ({ item }: { item: StarredMessageItem }) => {
+      const group = groupsById.get(item.groupId);
+      const isOwn = item.sender.id === userId;
+      return (
+        <View style={[styles.item, { borderBottomColor: colors.divider }]}>
+          <View style={styles.itemHeader}>
+            <Pressable onPress={() => handleOpenChat(item)} style={styles.itemSource} hitSlop={6}>
+              <Text style={[styles.itemSender, { color: colors.text }]} numberOfLines={1}>
+                {isOwn ? 'You' : item.sender.displayName}
+                {group ? (
+                  <Text style={{ color: colors.textSecondary }}> · {getConversationName(group)}</Text>
+                ) : null}
+              </Text>
+              <Text style={[styles.itemDate, { color: colors.textTertiary }]}>
+                {formatStarredDate(item.createdAt)}
+              </Text>
+            </Pressable>
+            <Pressable
+              onPress={() => handleUnstar(item)}
+              hitSlop={10}
+              accessibilityLabel="Unstar message"
+            >
+              <Ionicons name="star" size={18} color={colors.warning} />
+            </Pressable>
+          </View>
+
+          {/* Each conversation can have its own language, so the bubble gets its own context */}
+          <ChatListProvider
+            selectionMode={false}
+            selectionModeProgress={selectionModeProgress}
+            selectedIdsMap={selectedIdsMap}
+            highlightedMessageId={highlightedMessageId}
+            preferredLanguage={item.preferredLanguage}
+            showTranslatedOnly={false}
+          >
+            <MessageBubble
+              message={historyToChatMessage(item, userId)}
+              currentUserId={userId ?? ''}
+              isDm={group ? !group.isGroup : false}
+            />
+          </ChatListProvider>
+        </View>
+      );
+    },
+    [
+      groupsById,
+      userId,
+      colors,
+      handleOpenChat,
+      handleUnstar,
+      selectionModeProgress,
+      selectedIdsMap,
+      highlightedMessageId,
+    ],
+  );
+
+  const renderEmpty = useCallback(() => {
+    if (isLoading) return null;
+    return (
+      <View style={styles.emptyContainer}>
+        <Ionicons name="star-outline" size={64} color={colors.emptyIcon} />
+        <Text style={[styles.emptyTitle, { color: colors.emptyText }]}>No starred messages</Text>
+        <Text style={[styles.emptySubtitle, { color: colors.emptyText }]}>
+          Long-press a message in any chat and tap the star to keep it here.
+        </Text>
+      </View>
+    );
+  }, [isLoading, colors.emptyIcon, colors.emptyText]);
+
+  const renderChip = (key: string, label: string, isActive: boolean, onPress: () => void) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        { borderColor: isActive ? colors.primary : colors.border },
+        isActive && { backgroundColor: colors.primaryFaded },
+      ]}
+    >
+      <Text
+        style={[styles.chipText, { color: isActive ? colors.primary : colors.textSecondary }]}
+        numberOfLines={1}
+      >
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View
+        style={[styles.header, { paddingTop: insets.top + 12, backgroundColor: colors.headerBg }]}
+      >
+        <Pressable onPress={() => navigation.goBack()} hitSlop={12}>
+          <Ionicons name="arrow-back" size={24} color={colors.headerText} />
+        </Pressable>
+        <Text style={[styles.headerTitle, { color: colors.headerText }]}>Starred Messages</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      {/* Filters */}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.chipScroll}
+        contentContainerStyle={styles.chipRow}
+      >
+        {CONTENT_TYPE_FILTERS.map((f) =>
+          renderChip(f.value ?? 'all', f.label, contentType === f.value, () => setContentType(f.value)),
+        )}
+      </ScrollView>
+      {groups.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.chipScroll}
+          contentContainerStyle={styles.chipRow}
+        >
+          {renderChip('all-chats', 'All chats', groupFilter === null, () => setGroupFilter(null))}
+          {groups.map((g) =>
+            renderChip(g.id, getConversationName(g), groupFilter === g.id, () => setGroupFilter(g.id)),
+          )}
+        </ScrollView>
+      )}
+
+      <ChatAudioPlayerProvider>
+        <MediatingAnimProvider>
+          {isLoading ? (
+            <ActivityIndicator style={styles.loading} color={colors.spinnerColor} />
+          ) : (
+            <FlatList
+              data={items}
+              keyExtractor={(item) => item.id}
+              renderItem={renderItem}
+              ListEmptyComponent={renderEmpty}
+              ListFooterComponent={
+                isFetchingMore ? (
+                  <ActivityIndicator style={styles.loading} color={colors.spinnerColor} />
+                ) : null
+              }
+              onEndReached={handleEndReached}
+              onEndReachedThreshold={0.5}
+              contentContainerStyle={[
+                items.length === 0 && styles.listContentEmpty,
+                { paddingBottom: insets.bottom + 24 },
+              ]}
+            />
+          )}
+        </MediatingAnimProvider>
+      </ChatAudioPlayerProvider>
+    </View>
+  );
+}
+
+// ── Styles ───────────────────────────────────────────────────────────────────
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  headerTitle: { fontSize: 18, fontWeight: '700' },
+
+  chipScroll: { flexGrow: 0 },
+  chipRow: {
+    paddingHorizontal: 12,
+    paddingTop: 10,
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1.5,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    maxWidth: 180,
+  },
+  chipText: { fontSize: 13, fontWeight: '600' },
+
+  loading: { marginVertical: 24 },
+  listContentEmpty: { flexGrow: 1 },
+
+  item: {
+    paddingTop: 12,
+    paddingBottom: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    marginBottom: 4,
+    gap: 12,
+  },
+  itemSource: { flex: 1 },
+  itemSender: { fontSize: 14, fontWeight: '600' },
+  itemDate: { fontSize: 12, marginTop: 1 },
+
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginTop: 16,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    lineHeight: 20,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+
+import { completeTwoFactorLogin } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { useTheme } from '../contexts/ThemeContext';
+import type { AuthStackParamList } from '../navigation/types';
+import { getApiErrorMessage } from '../utils/auth';
+
+type Props = NativeStackScreenProps<AuthStackParamList, 'TwoFactorLogin'>;
+
+const TOTP_LENGTH = 6;
+/** `xxxxx-xxxxx`, with room for stray spaces. */
+const RECOVERY_CODE_MAX_LENGTH = 16;
+
+export default function TwoFactorLoginScreen({ navigation, route }: Props) {
+  const { challengeToken } = route.params;
+  const { login } = useAuth();
+  const { colors } = useTheme();
+
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  async function handleVerify() {
+    const trimmed = code.trim();
+    if (useRecoveryCode ? trimmed.length < 10 : !/^\d{6}$/.test(trimmed)) {
+      Alert.alert(
+        'Validation',
+        useRecoveryCode
+          ? 'Enter one of your recovery codes.'
+          : `Enter the ${TOTP_LENGTH}-digit code from your authenticator app.`,
+      );
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { access_token, refresh_token } = await completeTwoFactorLogin(challengeToken, trimmed);
+      await login(access_token, refresh_token);
+    } catch (error: unknown) {
+      const message = getApiErrorMessage(error, 'Unable to verify the code right now. Please try again.');
+      // The challenge only lasts a few minutes; the password has to be entered again.
+      if (/expired/i.test(message)) {
+        Alert.alert('Sign-in expired', 'Please log in again.');
+        navigation.goBack();
+        return;
+      }
+      // Too many wrong codes lock two-factor sign-in and drop the challenge.
+      if (/too many/i.test(message)) {
+        Alert.alert('Too many attempts', message);
+        navigation.goBack();
+        return;
+      }
+      Alert.alert('Verification failed', message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  function toggleMode() {
+    setUseRecoveryCode((v) => !v);
+    setCode('');
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <View style={styles.form}>
+        <Text style={[styles.title, { color: colors.text }]}>Two-factor sign-in</Text>
+        <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+          {useRecoveryCode
+            ? 'Enter one of the recovery codes you saved. Each code works once.'
+            : 'Enter the code from your authenticator app.'}
+        </Text>
+
+        <TextInput
+          key={useRecoveryCode ? 'recovery' : 'totp'}
+          style={[
+            styles.input,
+            styles.codeInput,
+            { backgroundColor: colors.inputBg, borderColor: colors.inputBorder, color: colors.inputText },
+          ]}
+          placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : 'Code'}
+          placeholderTextColor={colors.inputPlaceholder}
+          keyboardType={useRecoveryCode ? 'default' : 'number-pad'}
+          textContentType="oneTimeCode"
+          autoComplete="one-time-code"
+          autoCapitalize="none"
+          autoCorrect={false}
+          autoFocus
+          maxLength={useRecoveryCode ? RECOVERY_CODE_MAX_LENGTH : TOTP_LENGTH}
+          value={code}
+          onChangeText={(text) => setCode(useRecoveryCode ? text : text.replace(/\D/g, ''))}
+        />
+
+        {isSubmitting ? (
+          <ActivityIndicator size="large" color={colors.primary} />
+        ) : (
+          <Pressable style={[styles.submitBtn, { backgroundColor: colors.primary }]} onPress={handleVerify}>
+            <Text style={styles.submitBtnText}>Verify</Text>
+          </Pressable>
+        )}
+
+        <Pressable onPress={toggleMode}>
+          <Text style={[styles.switchLink, { color: colors.primary }]}>
+            {useRecoveryCode ? 'Use authenticator app instead' : 'Use a recovery code'}
+          </Text>
+        </Pressable>
+
+        <Pressable onPress={() => navigation.goBack()}>
+          <Text style={[styles.switchLink, { color: colors.textSecondary }]}>Back to Log In</Text>
+        </Pressable>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  form: {
+    marginHorizontal: 24,
+    gap: 16,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  input: {
+    height: 48,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    fontSize: 16,
+  },
+  codeInput: {
+    fontSize: 22,
+    letterSpacing: 6,
+    textAlign: 'center',
+  },
+  submitBtn: {
+    height: 48,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  submitBtnText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  switchLink: {
+    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,409 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Linking,
+  Platform,
+  Pressable,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+
+import {
+  beginTwoFactorSetup,
+  confirmTwoFactor,
+  disableTwoFactor,
+  fetchTwoFactorStatus,
+  regenerateRecoveryCodes,
+  type TwoFactorSetup,
+  type TwoFactorStatus,
+} from '../services/api';
+import { getApiErrorMessage } from '../utils/auth';
+import { useTheme } from '../contexts/ThemeContext';
+import type { AppStackParamList } from '../navigation/types';
+
+type Props = NativeStackScreenProps<AppStackParamList, 'TwoFactor'>;
+
+const MONOSPACE = Platform.select({ ios: 'Menlo', default: 'monospace' });
+/** Authenticator codes are 6 digits; recovery codes are `xxxxx-xxxxx`. */
+const MAX_CODE_LENGTH = 16;
+
+/** Groups the base32 secret in fours so it can be typed by hand. */
+function formatSecret(secret: string): string {
+  return secret.replace(/(.{4})/g, '$1 ').trim();
+}
+
+// ── Component ────────────────────────────────────────────────────────────────
+export default function TwoFactorScreen({ navigation }: Props) {
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError(false);
+    try {
+      setStatus(await fetchTwoFactorStatus());
+    } catch {
+      setLoadError(true);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const runWithCode = useCallback(
+    async (action: (code: string) => Promise<void>, failureTitle: string) => {
+      if (!code.trim()) {
+        Alert.alert('Validation', 'Enter a code from your authenticator app or a recovery code.');
+        return;
+      }
+      setIsBusy(true);
+      try {
+        await action(code.trim());
+        setCode('');
+      } catch (err) {
+        Alert.alert(failureTitle, getApiErrorMessage(err));
+      } finally {
+        setIsBusy(false);
+      }
+    },
+    [code],
+  );
+
+  const handleStartSetup = useCallback(async () => {
+    setIsBusy(true);
+    try {
+      setSetup(await beginTwoFactorSetup());
+    } catch (err) {
+      Alert.alert('Could not start setup', getApiErrorMessage(err));
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  const handleOpenAuthenticator = useCallback(async () => {
+    if (!setup) return;
+    try {
+      await Linking.openURL(setup.otpauthUrl);
+    } catch {
+      Alert.alert(
+        'No authenticator app found',
+        'Install an authenticator app, or add the setup key below to one by hand.',
+      );
+    }
+  }, [setup]);
+
+  const handleConfirm = useCallback(
+    () =>
+      runWithCode(async (value) => {
+        setRecoveryCodes(await confirmTwoFactor(value));
+        setSetup(null);
+      }, 'Could not turn on two-factor'),
+    [runWithCode],
+  );
+
+  const handleRegenerate = useCallback(
+    () =>
+      runWithCode(async (value) => {
+        setRecoveryCodes(await regenerateRecoveryCodes(value));
+      }, 'Could not create new codes'),
+    [runWithCode],
+  );
+
+  const handleDisable = useCallback(() => {
+    Alert.alert(
+      'Turn off two-factor?',
+      'Anyone with your password will be able to sign in to your account.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Turn off',
+          style: 'destructive',
+          onPress: () =>
+            runWithCode(async (value) => {
+              await disableTwoFactor(value);
+              await load();
+            }, 'Could not turn off two-factor'),
+        },
+      ],
+      { cancelable: true },
+    );
+  }, [runWithCode, load]);
+
+  const handleShareCodes = useCallback(() => {
+    if (!recoveryCodes) return;
+    void Share.share({
+      message: `LinkLanka recovery codes (each works once):\n\n${recoveryCodes.join('\n')}`,
+    });
+  }, [recoveryCodes]);
+
+  const handleDoneWithCodes = useCallback(() => {
+    setRecoveryCodes(null);
+    void load();
+  }, [load]);
+
+  const codeInput = (
+    <TextInput
+      style={[
+        styles.codeInput,
+        { backgroundColor: colors.inputBg, borderColor: colors.inputBorder, color: colors.inputText },
+      ]}
+      placeholder="Code"
+      placeholderTextColor={colors.inputPlaceholder}
+      textContentType="oneTimeCode"
+      autoComplete="one-time-code"
+      autoCapitalize="none"
+      autoCorrect={false}
+      maxLength={MAX_CODE_LENGTH}
+      value={code}
+      onChangeText={setCode}
+    />
+  );
+
+  function renderBody() {
+    if (recoveryCodes) {
+      return (
+        <>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Save your recovery codes</Text>
+          <Text style={[styles.hint, { color: colors.textSecondary }]}>
+            {"If you lose your phone, each of these codes signs you in once. They won't be shown again."}
+          </Text>
+          <View style={[styles.codesCard, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+            {recoveryCodes.map((c) => (
+              <Text key={c} selectable style={[styles.recoveryCode, { color: colors.text }]}>
+                {c}
+              </Text>
+            ))}
+          </View>
+          <Pressable
+            onPress={handleShareCodes}
+            style={[styles.secondaryBtn, { borderColor: colors.primary }]}
+          >
+            <Ionicons name="share-outline" size={18} color={colors.primary} />
+            <Text style={[styles.secondaryBtnText, { color: colors.primary }]}>Save codes</Text>
+          </Pressable>
+          <Pressable onPress={handleDoneWithCodes} style={[styles.primaryBtn, { backgroundColor: colors.primary }]}>
+            <Text style={styles.primaryBtnText}>{"I've saved them"}</Text>
+          </Pressable>
+        </>
+      );
+    }
+
+    if (status?.enabled) {
+      return (
+        <>
+          <View style={styles.statusRow}>
+            <Ionicons name="shield-checkmark" size={28} color={colors.primary} />
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>Two-factor is on</Text>
+          </View>
+          <Text style={[styles.hint, { color: colors.textSecondary }]}>
+            {`Signing in asks for a code from your authenticator app. ${status.recoveryCodesRemaining} recovery code${status.recoveryCodesRemaining === 1 ? '' : 's'} left.`}
+          </Text>
+          <Text style={[styles.hint, { color: colors.textSecondary }]}>
+            Enter a current code to make changes.
+          </Text>
+          {codeInput}
+          {isBusy ? (
+            <ActivityIndicator size="large" color={colors.primary} />
+          ) : (
+            <>
+              <Pressable
+                onPress={() => void handleRegenerate()}
+                style={[styles.secondaryBtn, { borderColor: colors.primary }]}
+              >
+                <Ionicons name="refresh" size={18} color={colors.primary} />
+                <Text style={[styles.secondaryBtnText, { color: colors.primary }]}>New recovery codes</Text>
+              </Pressable>
+              <Pressable
+                onPress={handleDisable}
+                style={[styles.secondaryBtn, { borderColor: colors.destructive }]}
+              >
+                <Ionicons name="shield-outline" size={18} color={colors.destructive} />
+                <Text style={[styles.secondaryBtnText, { color: colors.destructive }]}>Turn off</Text>
+              </Pressable>
+            </>
+          )}
+        </>
+      );
+    }
+
+    if (setup) {
+      return (
+        <>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>1. Add LinkLanka to your authenticator</Text>
+          <Pressable
+            onPress={() => void handleOpenAuthenticator()}
+            style={[styles.secondaryBtn, { borderColor: colors.primary }]}
+          >
+            <Ionicons name="open-outline" size={18} color={colors.primary} />
+            <Text style={[styles.secondaryBtnText, { color: colors.primary }]}>Open authenticator app</Text>
+          </Pressable>
+          <Text style={[styles.hint, { color: colors.textSecondary }]}>Or enter this setup key by hand:</Text>
+          <Text
+            selectable
+            style={[styles.secret, { color: colors.text, backgroundColor: colors.surface, borderColor: colors.border }]}
+          >
+            {formatSecret(setup.secret)}
+          </Text>
+
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>2. Enter the 6-digit code it shows</Text>
+          {codeInput}
+          {isBusy ? (
+            <ActivityIndicator size="large" color={colors.primary} />
+          ) : (
+            <Pressable
+              onPress={() => void handleConfirm()}
+              style={[styles.primaryBtn, { backgroundColor: colors.primary }]}
+            >
+              <Text style={styles.primaryBtnText}>Turn on</Text>
+            </Pressable>
+          )}
+        </>
+      );
+    }
+
+    return (
+      <>
+        <View style={styles.statusRow}>
+          <Ionicons name="shield-outline" size={28} color={colors.textSecondary} />
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Two-factor is off</Text>
+        </View>
+        <Text style={[styles.hint, { color: colors.textSecondary }]}>
+          Ask for a code from an authenticator app whenever someone signs in with your password.
+          Recommended if you own or moderate large groups.
+        </Text>
+        {isBusy ? (
+          <ActivityIndicator size="large" color={colors.primary} />
+        ) : (
+          <Pressable
+            onPress={() => void handleStartSetup()}
+            style={[styles.primaryBtn, { backgroundColor: colors.primary }]}
+          >
+            <Text style={styles.primaryBtnText}>Set up</Text>
+          </Pressable>
+        )}
+      </>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View
+        style={[styles.header, { paddingTop: insets.top + 12, backgroundColor: colors.headerBg }]}
+      >
+        <Pressable onPress={() => navigation.goBack()} hitSlop={12}>
+          <Ionicons name="arrow-back" size={24} color={colors.headerText} />
+        </Pressable>
+        <Text style={[styles.headerTitle, { color: colors.headerText }]}>Two-Factor Authentication</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.spinnerColor} />
+        </View>
+      ) : loadError ? (
+        <View style={styles.centered}>
+          <Ionicons name="cloud-offline-outline" size={48} color={colors.emptyIcon} />
+          <Text style={[styles.emptyText, { color: colors.emptyText }]}>
+            Could not load two-factor settings
+          </Text>
+          <Pressable
+            onPress={() => void load()}
+            style={[styles.retryBtn, { backgroundColor: colors.primary }]}
+          >
+            <Text style={styles.retryText}>Retry</Text>
+          </Pressable>
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 24 }]}
+          keyboardShouldPersistTaps="handled"
+        >
+          {renderBody()}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+// ── Styles ───────────────────────────────────────────────────────────────────
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  headerTitle: { fontSize: 18, fontWeight: '700' },
+  centered: { flex: 1, justifyContent: 'center', alignItems: 'center', gap: 10 },
+  emptyText: { fontSize: 15 },
+  retryBtn: { marginTop: 4, paddingHorizontal: 24, paddingVertical: 10, borderRadius: 8 },
+  retryText: { color: '#fff', fontWeight: '600', fontSize: 14 },
+  content: { padding: 20, gap: 14 },
+  statusRow: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+  sectionTitle: { fontSize: 16, fontWeight: '700' },
+  hint: { fontSize: 14, lineHeight: 20 },
+  secret: {
+    fontFamily: MONOSPACE,
+    fontSize: 16,
+    letterSpacing: 1,
+    textAlign: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+    overflow: 'hidden',
+  },
+  codeInput: {
+    height: 52,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    fontSize: 20,
+    letterSpacing: 4,
+    textAlign: 'center',
+  },
+  codesCard: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    rowGap: 10,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  recoveryCode: { width: '48%', fontFamily: MONOSPACE, fontSize: 15, textAlign: 'center' },
+  primaryBtn: { height: 48, borderRadius: 8, alignItems: 'center', justifyContent: 'center' },
+  primaryBtnText: { color: '#fff', fontSize: 16, fontWeight: '600' },
+  secondaryBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    height: 46,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  secondaryBtnText: { fontSize: 15, fontWeight: '600' },
+});
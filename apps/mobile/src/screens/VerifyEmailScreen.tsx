@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+
+import { resendVerificationEmail, verifyEmail } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { useTheme } from '../contexts/ThemeContext';
+import type { AppStackParamList } from '../navigation/types';
+import { getApiErrorMessage } from '../utils/auth';
+
+type Props = NativeStackScreenProps<AppStackParamList, 'VerifyEmail'>;
+
+const CODE_LENGTH = 6;
+
+// ── Component ────────────────────────────────────────────────────────────────
+export default function VerifyEmailScreen({ navigation }: Props) {
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+  const { refreshProfile } = useAuth();
+
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+
+  async function handleVerify() {
+    if (!/^\d{6}$/.test(code)) {
+      Alert.alert('Validation', `Enter the ${CODE_LENGTH}-digit code from the email.`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await verifyEmail(code);
+      await refreshProfile();
+      navigation.goBack();
+    } catch (err) {
+      Alert.alert('Verification failed', getApiErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function handleResend() {
+    setIsResending(true);
+    try {
+      await resendVerificationEmail();
+      setCode('');
+      Alert.alert('Code sent', 'Check your inbox for a new code.');
+    } catch (err) {
+      Alert.alert('Could not send code', getApiErrorMessage(err));
+    } finally {
+      setIsResending(false);
+    }
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View
+        style={[styles.header, { paddingTop: insets.top + 12, backgroundColor: colors.headerBg }]}
+      >
+        <Pressable onPress={() => navigation.goBack()} hitSlop={12}>
+          <Ionicons name="arrow-back" size={24} color={colors.headerText} />
+        </Pressable>
+        <Text style={[styles.headerTitle, { color: colors.headerText }]}>Verify Email</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.body}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <Ionicons name="mail-open-outline" size={48} color={colors.primary} style={styles.icon} />
+        <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+          We emailed you a {CODE_LENGTH}-digit code when you signed up. A verified email lets you
+          reset your password if you ever forget it.
+        </Text>
+
+        <TextInput
+          style={[
+            styles.codeInput,
+            { backgroundColor: colors.inputBg, borderColor: colors.inputBorder, color: colors.inputText },
+          ]}
+          placeholder="Code"
+          placeholderTextColor={colors.inputPlaceholder}
+          keyboardType="number-pad"
+          textContentType="oneTimeCode"
+          autoComplete="one-time-code"
+          autoFocus
+          maxLength={CODE_LENGTH}
+          value={code}
+          onChangeText={(text) => setCode(text.replace(/\D/g, ''))}
+        />
+
+        {isSubmitting ? (
+          <ActivityIndicator size="large" color={colors.primary} />
+        ) : (
+          <Pressable style={[styles.submitBtn, { backgroundColor: colors.primary }]} onPress={handleVerify}>
+            <Text style={styles.submitBtnText}>Verify</Text>
+          </Pressable>
+        )}
+
+        <Pressable onPress={handleResend} disabled={isResending}>
+          <Text style={[styles.resendLink, { color: colors.textSecondary }]}>
+            {"Didn't get it? "}
+            <Text style={[styles.resendLinkBold, { color: colors.primary }]}>
+              {isResending ? 'Sending…' : 'Send a new code'}
+            </Text>
+          </Text>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </View>
+  );
+}
+
+// ── Styles ───────────────────────────────────────────────────────────────────
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  headerTitle: { fontSize: 18, fontWeight: '700' },
+  body: { flex: 1, justifyContent: 'center', marginHorizontal: 24, gap: 16 },
+  icon: { alignSelf: 'center' },
+  subtitle: { fontSize: 14, textAlign: 'center', marginBottom: 8 },
+  codeInput: {
+    height: 52,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    fontSize: 22,
+    letterSpacing: 8,
+    textAlign: 'center',
+  },
+  submitBtn: { height: 48, borderRadius: 8, alignItems: 'center', justifyContent: 'center' },
+  submitBtnText: { color: '#fff', fontSize: 16, fontWeight: '600' },
+  resendLink: { textAlign: 'center', fontSize: 14 },
+  resendLinkBold: { fontWeight: '600' },
+});
@@ -1,4 +1,4 @@
-import axios from 'axios';
+import axios, { type InternalAxiosRequestConfig } from 'axios';
 import Constants from 'expo-constants';
 import { File as ExpoFile } from 'expo-file-system';
 import { Platform } from 'react-native';
@@ -9,6 +9,17 @@ import {
   setSecureItem,
   deleteSecureItem,
 } from '../utils/secureStorage';
+import type { PollData, ReplyPreview } from '../components/chat/MessageBubble';
+import type { HistoryMessage } from '../hooks/useChatMessages';
+
+/** A history row plus where and how to show it outside its chat. */
+export type StarredMessageItem = HistoryMessage & {
+  groupId: string;
+  sender: { id: string; displayName: string };
+  starredAt: string;
+  /** The viewer's language for that conversation, else their native dialect. */
+  preferredLanguage: 'english' | 'singlish' | 'tanglish';
+};
 
 // ── Config ───────────────────────────────────────────────────────────────────
 // API URL is injected via EXPO_PUBLIC_API_URL in apps/mobile/.env
@@ -29,6 +40,14 @@ function resolveApiBaseUrl(): string {
 
 export const API_BASE_URL = resolveApiBaseUrl();
 
+/** Label for this device in the account's session list. */
+export function getDeviceName(): string {
+  return (
+    Constants.deviceName ??
+    (Platform.OS === 'ios' ? 'iPhone' : `${Platform.OS} device`)
+  );
+}
+
 if (__DEV__ && !process.env.EXPO_PUBLIC_API_URL) {
   console.warn(
     `[api] EXPO_PUBLIC_API_URL is not set. Falling back to ${API_BASE_URL}.`,
@@ -36,16 +55,21 @@ if (__DEV__ && !process.env.EXPO_PUBLIC_API_URL) {
 }
 
 const TOKEN_KEY = 'jwt_token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
 const MULTIPART_UPLOAD_TIMEOUT_MS = 30_000;
 const MULTIPART_UPLOAD_RETRY_DELAY_MS = 400;
 
-type UnauthorizedHandler = () => void | Promise<void>;
+/** Resolves true once a fresh access token is in place. */
+type UnauthorizedHandler = () => Promise<boolean>;
 
 // In-memory copy so requests made immediately after login never race
 // against SecureStore finishing its async write.
 let _memoryToken: string | null = null;
 let _onUnauthorized: UnauthorizedHandler | null = null;
-let _isHandlingUnauthorized = false;
+// Shared by every request that 401s at once, so a burst of expired
+// requests trades the refresh token in only once.
+let _unauthorizedInFlight: Promise<boolean> | null = null;
+let _refreshInFlight: Promise<string | null> | null = null;
 
 const apiClient = axios.create({
   baseURL: API_BASE_URL,
@@ -82,41 +106,126 @@ apiClient.interceptors.request.use(
 
 apiClient.interceptors.response.use(
   (response) => response,
-  (error) => {
+  async (error) => {
     const status = error?.response?.status;
+    const config = error?.config as
+      | (InternalAxiosRequestConfig & { _sessionRetried?: boolean })
+      | undefined;
     const authHeader =
-      error?.config?.headers?.Authorization ??
-      error?.config?.headers?.authorization;
-
-    if (status === 401 && authHeader && !_isHandlingUnauthorized) {
-      _isHandlingUnauthorized = true;
-      void (async () => {
-        try {
-          await removeAuthToken();
-          await _onUnauthorized?.();
-        } finally {
-          _isHandlingUnauthorized = false;
-        }
-      })();
+      config?.headers?.Authorization ?? config?.headers?.authorization;
+
+    // Access tokens are short-lived: renew once and replay the request.
+    if (status === 401 && authHeader && config && !config._sessionRetried) {
+      if (await recoverFromUnauthorized()) {
+        config._sessionRetried = true;
+        return apiClient(config);
+      }
     }
 
     return Promise.reject(error);
   },
 );
 
+/**
+ * Hands a rejected access token to the registered handler (AuthContext),
+ * which either renews the session or signs the user out.
+ */
+export function recoverFromUnauthorized(): Promise<boolean> {
+  if (!_onUnauthorized) return Promise.resolve(false);
+  if (!_unauthorizedInFlight) {
+    const handler = _onUnauthorized;
+    _unauthorizedInFlight = handler()
+      .catch(() => false)
+      .finally(() => {
+        _unauthorizedInFlight = null;
+      });
+  }
+  return _unauthorizedInFlight;
+}
+
 // ── Token helpers ────────────────────────────────────────────────────────────
-export async function setAuthToken(token: string): Promise<void> {
+export async function setAuthToken(
+  token: string,
+  refreshToken?: string,
+): Promise<void> {
   _memoryToken = token;
   await setSecureItem(TOKEN_KEY, token);
+  if (refreshToken) await setSecureItem(REFRESH_TOKEN_KEY, refreshToken);
 }
 
 export async function removeAuthToken(): Promise<void> {
   _memoryToken = null;
-  await deleteSecureItem(TOKEN_KEY);
+  await Promise.all([
+    deleteSecureItem(TOKEN_KEY),
+    deleteSecureItem(REFRESH_TOKEN_KEY),
+  ]);
+}
+
+/**
+ * Trades the stored refresh token for a new token pair.
+ * Resolves null when the server no longer accepts the session (revoked,
+ * expired or reused) and throws when it could not be reached at all.
+ */
+export function refreshSession(): Promise<string | null> {
+  if (!_refreshInFlight) {
+    _refreshInFlight = (async () => {
+      const refreshToken = await getSecureItem(REFRESH_TOKEN_KEY);
+      if (!refreshToken) return null;
+      try {
+        // Bare axios: a 401 here must not loop back through the interceptor.
+        const { data } = await axios.post<TokenPair>(
+          `${API_BASE_URL}/auth/refresh`,
+          { refresh_token: refreshToken },
+        );
+        await setAuthToken(data.access_token, data.refresh_token);
+        return data.access_token;
+      } catch (error) {
+        const status = (error as { response?: { status?: number } })?.response
+          ?.status;
+        if (status === 401 || status === 400) return null;
+        throw error;
+      }
+    })().finally(() => {
+      _refreshInFlight = null;
+    });
+  }
+  return _refreshInFlight;
 }
 
 // ── Types ────────────────────────────────────────────────────────────────────
 
+export interface TokenPair {
+  access_token: string;
+  refresh_token: string;
+}
+
+/** Returned by POST /auth/login instead of tokens when two-factor is on. */
+export interface TwoFactorChallenge {
+  two_factor_required: true;
+  challenge_token: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  /** Base32, for typing into an authenticator by hand. */
+  secret: string;
+  /** `otpauth://` link that authenticator apps open directly. */
+  otpauthUrl: string;
+}
+
+/** A device signed in to the current account. */
+export interface DeviceSession {
+  id: string;
+  deviceName: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  isCurrent: boolean;
+}
+
 export interface OtherUser {
   id: string;
   displayName: string;
@@ -124,18 +233,75 @@ export interface OtherUser {
   profilePictureUrl: string | null;
 }
 
+/** Newest message the current user can see in a conversation. */
+export interface LastMessagePreview {
+  id: string;
+  senderId: string;
+  senderName: string;
+  contentType: 'TEXT' | 'AUDIO' | 'IMAGE' | 'DOCUMENT' | 'POLL';
+  text: string | null;
+  fileName: string | null;
+  translations: {
+    english: string;
+    singlish: string;
+    tanglish: string;
+  } | null;
+  createdAt: string;
+}
+
 export interface GroupItem {
   id: string;
   name: string | null;
   isGroup: boolean;
   createdAt: string;
+  /** Signed URL; null until someone uploads a group picture. */
+  avatarUrl: string | null;
+  description: string | null;
+  /** The description in every dialect; null if translation failed. */
+  descriptionTranslations: {
+    english: string;
+    singlish: string;
+    tanglish: string;
+  } | null;
+  /** Language new members start with; null = their own nativeDialect. */
+  defaultLanguage: DialectTargetLanguage | null;
   memberCount: number;
   lastMessageAt: string | null;
+  lastMessage: LastMessagePreview | null;
+  /** Messages from others the current user hasn't read yet. */
+  unreadCount: number;
   /** Current user's per-conversation language preference (null = use nativeDialect). */
   preferredLanguage: string | null;
   /** Populated for DMs (isGroup = false). The other participant. */
   otherUser: OtherUser | null;
-}
+  /** Disappearing-messages timer; 'off' keeps history forever. */
+  messageRetention: MessageRetention;
+  /** How long after sending a text message can be edited; 0 = editing off. */
+  editWindowMinutes: number;
+  revisionVisibility: RevisionVisibility;
+  /** Announcement mode — only owners and admins can send messages. */
+  onlyAdminsCanPost: boolean;
+  onlyAdminsCanEditInfo: boolean;
+  /** The current user's role in this conversation. */
+  role: GroupMemberRole;
+  /** No pushes until then, except @mentions. Null = not muted. */
+  mutedUntil: string | null;
+  isArchived: boolean;
+  /** Stay archived when new messages arrive. */
+  keepArchived: boolean;
+  /** Set while pinned to the top of the chat list. */
+  pinnedAt: string | null;
+  /** A DM from a stranger the current user hasn't accepted yet. */
+  isRequest: boolean;
+}
+
+export type MessageRetention = 'off' | '24h' | '7d' | '90d';
+
+/** Who besides the sender can open a message's edit history. */
+export type RevisionVisibility = 'members' | 'admins' | 'sender';
+
+/** Owners can't be removed by admins; moderators only delete messages. */
+export type GroupMemberRole = 'OWNER' | 'ADMIN' | 'MODERATOR' | 'MEMBER';
 
 export interface UserItem {
   id: string;
@@ -151,6 +317,14 @@ export interface CurrentUser {
   email: string;
   createdAt: string;
   profilePictureUrl: string | null;
+  /** Only on other users' profiles (GET /users/:id). */
+  isOnline?: boolean;
+  /** Null while online, when never seen, or when the user hides it. */
+  lastSeenAt?: string | null;
+  /** Only on the current user's own profile (GET /users/me). */
+  hideLastSeen?: boolean;
+  /** Own profile only; null until the emailed code has been entered. */
+  emailVerifiedAt?: string | null;
 }
 export interface GroupMemberUser {
   id: string;
@@ -164,15 +338,60 @@ export interface GroupMemberItem {
   id: string;
   groupId: string;
   userId: string;
-  role: 'ADMIN' | 'MEMBER';
+  role: GroupMemberRole;
   preferredLanguage: string | null;
+  /** Newest message this member has read (null = nothing read yet). */
+  lastReadMessageId: string | null;
+  lastReadAt: string | null;
   joinedAt: string;
   user: GroupMemberUser | null;
 }
 // ── Groups ───────────────────────────────────────────────────────────────────
 
-export async function fetchGroups(): Promise<GroupItem[]> {
-  const { data } = await apiClient.get<GroupItem[]>('/groups');
+/** Archived chats are left out unless `includeArchived` is set. */
+export async function fetchGroups(
+  options: { includeArchived?: boolean } = {},
+): Promise<GroupItem[]> {
+  const { data } = await apiClient.get<GroupItem[]>('/groups', {
+    params: options.includeArchived ? { includeArchived: true } : undefined,
+  });
+  return data;
+}
+
+/** DMs from people the user shares no conversation with, awaiting a reply. */
+export async function fetchMessageRequests(): Promise<GroupItem[]> {
+  const { data } = await apiClient.get<GroupItem[]>('/groups/requests');
+  return data;
+}
+
+export async function acceptMessageRequest(groupId: string): Promise<void> {
+  await apiClient.post(`/groups/${groupId}/request/accept`);
+}
+
+/** Deletes the requested DM for both sides. */
+export async function declineMessageRequest(groupId: string): Promise<void> {
+  await apiClient.delete(`/groups/${groupId}/request`);
+}
+
+export type ConversationPreferences = Pick<
+  GroupItem,
+  'mutedUntil' | 'isArchived' | 'keepArchived' | 'pinnedAt'
+>;
+
+/** Mute, archive or pin a chat in the current user's own list. */
+export async function setConversationPreferences(
+  groupId: string,
+  prefs: {
+    mutedUntil?: string | null;
+    isArchived?: boolean;
+    keepArchived?: boolean;
+    isPinned?: boolean;
+  },
+): Promise<ConversationPreferences> {
+  const { data } = await apiClient.patch<ConversationPreferences>(
+    `/groups/${groupId}/preferences`,
+    prefs,
+  );
   return data;
 }
 
@@ -190,7 +409,10 @@ export async function createDm(targetUserId: string): Promise<GroupItem> {
   return data;
 }
 
-/** Set the per-conversation language preference. Pass null to reset to global default. */
+/**
+ * Set the per-conversation language preference. Pass null to reset to the
+ * group's default language, or your own when the group has none.
+ */
 export async function setLanguagePreference(
   groupId: string,
   language: string | null,
@@ -213,9 +435,275 @@ export async function leaveGroup(groupId: string, currentUserId: string): Promis
   await apiClient.delete(`/groups/${groupId}/members/${currentUserId}`);
 }
 
-/** Update group details. Any member can call this. */
-export async function updateGroupName(groupId: string, name: string): Promise<void> {
-  await apiClient.patch(`/groups/${groupId}`, { name });
+/** Admins can remove others; group owners can't be removed. */
+export async function removeGroupMember(groupId: string, userId: string): Promise<void> {
+  await apiClient.delete(`/groups/${groupId}/members/${userId}`);
+}
+
+export type GroupProfile = Pick<
+  GroupItem,
+  | 'id'
+  | 'name'
+  | 'isGroup'
+  | 'avatarUrl'
+  | 'description'
+  | 'descriptionTranslations'
+  | 'defaultLanguage'
+  | 'onlyAdminsCanPost'
+  | 'onlyAdminsCanEditInfo'
+>;
+
+export async function fetchGroupProfile(groupId: string): Promise<GroupProfile> {
+  const { data } = await apiClient.get<GroupProfile>(`/groups/${groupId}`);
+  return data;
+}
+
+/**
+ * Update group details; omitted fields stay as they are. A new description
+ * comes back translated. Admin only when `onlyAdminsCanEditInfo` is on.
+ */
+export async function updateGroupProfile(
+  groupId: string,
+  changes: {
+    name?: string;
+    description?: string | null;
+    defaultLanguage?: DialectTargetLanguage | null;
+  },
+): Promise<GroupProfile> {
+  const { data } = await apiClient.patch<GroupProfile>(`/groups/${groupId}`, changes);
+  return data;
+}
+
+export async function uploadGroupAvatar(
+  groupId: string,
+  fileUri: string,
+  mimeType = 'image/jpeg',
+): Promise<{ url: string }> {
+  return uploadMultipartFile(`/groups/${groupId}/avatar`, fileUri, mimeType, 'group.jpg');
+}
+
+export async function removeGroupAvatar(groupId: string): Promise<void> {
+  await apiClient.delete(`/groups/${groupId}/avatar`);
+}
+
+/** Admin only in groups. Messages older than the timer are deleted for everyone. */
+export async function setMessageRetention(
+  groupId: string,
+  messageRetention: MessageRetention,
+): Promise<MessageRetention> {
+  const { data } = await apiClient.put<{ messageRetention: MessageRetention }>(
+    `/groups/${groupId}/retention`,
+    { messageRetention },
+  );
+  return data.messageRetention;
+}
+
+export interface EditSettings {
+  editWindowMinutes: number;
+  revisionVisibility: RevisionVisibility;
+}
+
+/** Admin only in groups. Omitted fields keep their current value. */
+export async function setEditSettings(
+  groupId: string,
+  settings: Partial<EditSettings>,
+): Promise<EditSettings> {
+  const { data } = await apiClient.put<EditSettings>(`/groups/${groupId}/edit-settings`, settings);
+  return { editWindowMinutes: data.editWindowMinutes, revisionVisibility: data.revisionVisibility };
+}
+
+// ── Roles & permissions ──────────────────────────────────────────────────────
+
+export type GroupPermissions = Pick<GroupItem, 'onlyAdminsCanPost' | 'onlyAdminsCanEditInfo'>;
+
+/** Admin only. Omitted fields keep their current value. */
+export async function setGroupPermissions(
+  groupId: string,
+  permissions: Partial<GroupPermissions>,
+): Promise<GroupPermissions> {
+  const { data } = await apiClient.put<GroupPermissions>(
+    `/groups/${groupId}/permissions`,
+    permissions,
+  );
+  return {
+    onlyAdminsCanPost: data.onlyAdminsCanPost,
+    onlyAdminsCanEditInfo: data.onlyAdminsCanEditInfo,
+  };
+}
+
+/** Admin only. The owner's role changes only through `transferGroupOwnership`. */
+export async function setMemberRole(
+  groupId: string,
+  userId: string,
+  role: Exclude<GroupMemberRole, 'OWNER'>,
+): Promise<void> {
+  await apiClient.put(`/groups/${groupId}/members/${userId}/role`, { role });
+}
+
+/** Owner only. The current owner stays on as an admin. */
+export async function transferGroupOwnership(groupId: string, userId: string): Promise<void> {
+  await apiClient.post(`/groups/${groupId}/transfer-ownership`, { userId });
+}
+
+// ── Invite links ─────────────────────────────────────────────────────────────
+
+export interface GroupInvite {
+  id: string;
+  token: string;
+  expiresAt: string | null;
+  maxUses: number | null;
+  useCount: number;
+  createdAt: string;
+}
+
+export interface InvitePreview {
+  groupId: string;
+  groupName: string | null;
+  memberCount: number;
+  isMember: boolean;
+}
+
+/** Admin only. Omit a limit for a link that never expires / has unlimited uses. */
+export async function createGroupInvite(
+  groupId: string,
+  options: { expiresInHours?: number; maxUses?: number } = {},
+): Promise<GroupInvite> {
+  const { data } = await apiClient.post<GroupInvite>(`/groups/${groupId}/invites`, options);
+  return data;
+}
+
+/** Admin only. Links that haven't been revoked, newest first. */
+export async function fetchGroupInvites(groupId: string): Promise<GroupInvite[]> {
+  const { data } = await apiClient.get<GroupInvite[]>(`/groups/${groupId}/invites`);
+  return data;
+}
+
+export async function revokeGroupInvite(groupId: string, inviteId: string): Promise<void> {
+  await apiClient.delete(`/groups/${groupId}/invites/${inviteId}`);
+}
+
+/** 404 for unknown links, 410 once revoked, expired or used up. */
+export async function previewInvite(token: string): Promise<InvitePreview> {
+  const { data } = await apiClient.get<InvitePreview>(`/invites/${encodeURIComponent(token)}`);
+  return data;
+}
+
+export async function joinWithInvite(token: string): Promise<{ id: string; name: string | null }> {
+  const { data } = await apiClient.post<{ id: string; name: string | null }>(
+    `/invites/${encodeURIComponent(token)}/join`,
+  );
+  return data;
+}
+
+// ── Export ───────────────────────────────────────────────────────────────────
+
+export type ExportFormat = 'text' | 'html' | 'json';
+
+export interface ConversationExportFile {
+  fileName: string;
+  body: string;
+}
+
+/**
+ * Downloads the conversation transcript with the viewer's own translations
+ * alongside the originals. Timestamps use the device's time zone.
+ */
+export async function exportConversation(
+  groupId: string,
+  format: ExportFormat,
+): Promise<ConversationExportFile> {
+  const response = await apiClient.get<string>(`/groups/${groupId}/export`, {
+    params: { format, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone },
+    responseType: 'text',
+    // Keep the JSON export as the raw file rather than a parsed object.
+    transformResponse: (body) => body,
+  });
+  const disposition = String(response.headers['content-disposition'] ?? '');
+  const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `chat-export.${format}`;
+  return { fileName, body: response.data };
+}
+
+// ── Pinned messages ──────────────────────────────────────────────────────────
+
+export interface PinnedMessageItem {
+  messageId: string;
+  pinnedById: string | null;
+  pinnedAt: string;
+  /** When the pinned message was sent — used to page history back to it. */
+  messageCreatedAt: string;
+  /** Quoted like a reply, with translations for every dialect. */
+  message: ReplyPreview;
+}
+
+/** Pins for a conversation, newest first. */
+export async function fetchPinnedMessages(groupId: string): Promise<PinnedMessageItem[]> {
+  const { data } = await apiClient.get<PinnedMessageItem[]>(`/groups/${groupId}/pins`);
+  return data;
+}
+
+/** Pin a message (group admins, or either side of a DM). Returns the updated pins. */
+export async function pinMessage(groupId: string, messageId: string): Promise<PinnedMessageItem[]> {
+  const { data } = await apiClient.post<PinnedMessageItem[]>(`/groups/${groupId}/pins`, {
+    messageId,
+  });
+  return data;
+}
+
+export async function unpinMessage(groupId: string, messageId: string): Promise<void> {
+  await apiClient.delete(`/groups/${groupId}/pins/${messageId}`);
+}
+
+// ── Scheduled messages ───────────────────────────────────────────────────────
+
+export interface ScheduledMessageItem {
+  id: string;
+  senderId: string;
+  groupId: string;
+  rawContent: string;
+  sendAt: string;
+  timezone: string | null;
+  status: 'PENDING' | 'SENT' | 'FAILED';
+  messageId: string | null;
+  failureReason: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** The current user's pending scheduled messages in a conversation, soonest first. */
+export async function fetchScheduledMessages(groupId: string): Promise<ScheduledMessageItem[]> {
+  const { data } = await apiClient.get<ScheduledMessageItem[]>('/scheduled-messages', {
+    params: { groupId },
+  });
+  return data;
+}
+
+export async function scheduleMessage(
+  groupId: string,
+  rawContent: string,
+  sendAt: Date,
+): Promise<ScheduledMessageItem> {
+  const { data } = await apiClient.post<ScheduledMessageItem>('/scheduled-messages', {
+    groupId,
+    rawContent,
+    sendAt: sendAt.toISOString(),
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  });
+  return data;
+}
+
+export async function updateScheduledMessage(
+  id: string,
+  changes: { rawContent?: string; sendAt?: Date },
+): Promise<ScheduledMessageItem> {
+  const { data } = await apiClient.patch<ScheduledMessageItem>(`/scheduled-messages/${id}`, {
+    rawContent: changes.rawContent,
+    sendAt: changes.sendAt?.toISOString(),
+  });
+  return data;
+}
+
+export async function cancelScheduledMessage(id: string): Promise<void> {
+  await apiClient.delete(`/scheduled-messages/${id}`);
 }
 
 /** Fetch a user's public profile by ID. */
@@ -233,6 +721,7 @@ export async function fetchCurrentUser(): Promise<CurrentUser> {
 export async function updateProfile(payload: {
   displayName?: string;
   nativeDialect?: string;
+  hideLastSeen?: boolean;
 }): Promise<CurrentUser> {
   const { data } = await apiClient.patch<CurrentUser>('/users/me', payload);
   return data;
@@ -250,6 +739,27 @@ export async function uploadProfilePicture(
   );
 }
 
+export interface BlockedUser {
+  id: string;
+  displayName: string;
+  profilePictureUrl: string | null;
+  blockedAt: string;
+}
+
+export async function fetchBlockedUsers(): Promise<BlockedUser[]> {
+  const { data } = await apiClient.get<BlockedUser[]>('/users/me/blocks');
+  return data;
+}
+
+/** Stops DMs with the user and hides their messages and pushes in shared groups. */
+export async function blockUser(userId: string): Promise<void> {
+  await apiClient.post(`/users/${userId}/block`);
+}
+
+export async function unblockUser(userId: string): Promise<void> {
+  await apiClient.delete(`/users/${userId}/block`);
+}
+
 export async function searchUsers(query: string, limit = 20): Promise<UserItem[]> {
   const { data } = await apiClient.get<UserItem[]>('/users', {
     params: { search: query, limit },
@@ -264,9 +774,10 @@ export interface SearchResultItem {
   groupId: string;
   senderId: string;
   senderName: string;
-  contentType: 'TEXT' | 'AUDIO' | 'IMAGE' | 'DOCUMENT';
+  contentType: 'TEXT' | 'AUDIO' | 'IMAGE' | 'DOCUMENT' | 'POLL';
   rawContent: string;
   transcription: string | null;
+  fileName: string | null;
   headline: string;
   createdAt: string;
 }
@@ -277,8 +788,8 @@ export interface SearchResponse {
 }
 
 /**
- * Full-text search within a chat group. Searches across raw_content
- * and transcription columns using PostgreSQL FTS + ILIKE fallback.
+ * Full-text search within a chat group. Covers text, voice transcripts,
+ * document OCR text and file names, and every translation.
  */
 export async function searchChatMessages(
   groupId: string,
@@ -293,6 +804,41 @@ export async function searchChatMessages(
   return data;
 }
 
+export interface MessageSearchFilters {
+  senderId?: string;
+  contentType?: SearchResultItem['contentType'];
+  /** ISO date — inclusive lower bound. */
+  from?: string;
+  /** ISO date — exclusive upper bound. */
+  to?: string;
+}
+
+export interface ConversationSearchResult {
+  groupId: string;
+  /** Matches in this conversation; `results` holds only the newest few. */
+  total: number;
+  results: SearchResultItem[];
+}
+
+export interface GlobalSearchResponse {
+  conversations: ConversationSearchResult[];
+  totalConversations: number;
+  total: number;
+}
+
+/** Search every conversation the user is in, grouped by conversation. */
+export async function searchAllMessages(
+  query: string,
+  filters: MessageSearchFilters = {},
+  page = 1,
+  limit = 20,
+): Promise<GlobalSearchResponse> {
+  const { data } = await apiClient.get<GlobalSearchResponse>('/chat/search', {
+    params: { q: query, ...filters, page, limit },
+  });
+  return data;
+}
+
 // ── Translation ───────────────────────────────────────────────────────────────
 
 export interface TranslationResult {
@@ -309,6 +855,55 @@ export interface TranslationResult {
     singlish?: string;
     tanglish?: string;
   } | null;
+  /** Set for POLL messages — option translations are refreshed too. */
+  poll?: Omit<PollData, 'myOptionIds'>;
+}
+
+// ── Starred messages ─────────────────────────────────────────────────────────
+
+export type StarredContentType = 'TEXT' | 'AUDIO' | 'IMAGE' | 'DOCUMENT' | 'POLL';
+
+export interface StarredMessagesQuery {
+  contentType?: StarredContentType;
+  groupId?: string;
+  /** Cursor — the `starredAt` of the last item already shown. */
+  before?: string;
+  limit?: number;
+}
+
+/** Saved messages across all conversations, newest star first. Media URLs come pre-signed. */
+export async function fetchStarredMessages(
+  query: StarredMessagesQuery = {},
+): Promise<StarredMessageItem[]> {
+  const { data } = await apiClient.get<StarredMessageItem[]>('/chat/starred', { params: query });
+  return data;
+}
+
+export async function starMessage(messageId: string): Promise<void> {
+  await apiClient.post(`/chat/messages/${messageId}/star`);
+}
+
+export async function unstarMessage(messageId: string): Promise<void> {
+  await apiClient.delete(`/chat/messages/${messageId}/star`);
+}
+
+/** An earlier version of an edited message. */
+export interface MessageRevision {
+  id: string;
+  rawContent: string;
+  translations: {
+    english: string;
+    singlish: string;
+    tanglish: string;
+  } | null;
+  /** When this version was replaced by an edit. */
+  editedAt: string;
+}
+
+/** Earlier versions of a message, oldest first. 403 when the conversation hides them from you. */
+export async function fetchMessageRevisions(messageId: string): Promise<MessageRevision[]> {
+  const { data } = await apiClient.get<MessageRevision[]>(`/messages/${messageId}/revisions`);
+  return data;
 }
 
 export async function retranslateMessage(messageId: string): Promise<TranslationResult> {
@@ -325,6 +920,71 @@ export async function retryTranslation(messageId: string): Promise<TranslationRe
   return data;
 }
 
+// ── Message reports ──────────────────────────────────────────────────────────
+
+export type ReportReason = 'SPAM' | 'HARASSMENT' | 'HATE_SPEECH' | 'VIOLENCE' | 'NUDITY' | 'OTHER';
+export type ReportStatus = 'OPEN' | 'DISMISSED' | 'MESSAGE_DELETED' | 'SENDER_REMOVED';
+export type ReportAction = 'dismiss' | 'delete_message' | 'remove_sender';
+
+export interface MessageReportItem {
+  id: string;
+  groupId: string;
+  groupName: string | null;
+  reason: ReportReason;
+  details: string | null;
+  status: ReportStatus;
+  reporter: { id: string; displayName: string };
+  sender: { id: string; displayName: string };
+  /** Null once the message has been deleted. */
+  message: {
+    id: string;
+    contentType: StarredContentType;
+    /** Typed text or poll question; null for media. */
+    text: string | null;
+    fileName: string | null;
+    /** What was said in a voice note. */
+    transcription: string | null;
+    detectedLanguage: string | null;
+    translations: {
+      english: string;
+      singlish: string;
+      tanglish: string;
+    } | null;
+    mediaUrl: string | null;
+    sentAt: string;
+  } | null;
+  createdAt: string;
+  resolvedAt: string | null;
+}
+
+/** Flag someone else's message for the group admins. 409 if you already reported it. */
+export async function reportMessage(
+  groupId: string,
+  payload: { messageId: string; reason: ReportReason; details?: string },
+): Promise<MessageReportItem> {
+  const { data } = await apiClient.post<MessageReportItem>(`/groups/${groupId}/reports`, payload);
+  return data;
+}
+
+/** The group's moderation queue, newest first. Group admins only. */
+export async function fetchGroupReports(
+  groupId: string,
+  status: ReportStatus = 'OPEN',
+): Promise<MessageReportItem[]> {
+  const { data } = await apiClient.get<MessageReportItem[]>(`/groups/${groupId}/reports`, {
+    params: { status },
+  });
+  return data;
+}
+
+export async function resolveGroupReport(
+  groupId: string,
+  reportId: string,
+  action: ReportAction,
+): Promise<void> {
+  await apiClient.post(`/groups/${groupId}/reports/${reportId}/resolve`, { action });
+}
+
 // ── Audio ─────────────────────────────────────────────────────────────────────
 
 export interface AudioProcessResult {
@@ -346,6 +1006,7 @@ export async function processAudio(
   audioMimeType: string,
   durationMs?: number,
   clientTempId?: string,
+  replyToId?: string,
 ): Promise<AudioProcessResult> {
   const { data } = await apiClient.post<AudioProcessResult>('/audio/process', {
     groupId,
@@ -353,6 +1014,7 @@ export async function processAudio(
     audioMimeType,
     durationMs,
     clientTempId,
+    replyToId,
     timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
   });
   return data;
@@ -474,6 +1136,7 @@ async function uploadMultipartFile(
   fileUri: string,
   mimeType: string,
   fallbackFileName: string,
+  isRetry = false,
 ): Promise<{ url: string }> {
   const normalizedUri = normalizeUploadFileUri(fileUri);
   const fileName = getUploadFileName(normalizedUri, fallbackFileName);
@@ -521,9 +1184,6 @@ async function uploadMultipartFile(
         const message =
           extractApiMessage(parsed) ??
           `Upload failed with status ${result.status}.`;
-        if (result.status === 401 && token) {
-          await handleMultipartUnauthorized();
-        }
         throw new MultipartHttpError(result.status, message);
       }
 
@@ -535,6 +1195,14 @@ async function uploadMultipartFile(
       return { url };
     } catch (error) {
       if (error instanceof MultipartHttpError) {
+        if (
+          error.status === 401 &&
+          token &&
+          !isRetry &&
+          (await recoverFromUnauthorized())
+        ) {
+          return uploadMultipartFile(endpoint, fileUri, mimeType, fallbackFileName, true);
+        }
         throw toApiStyleError(error.status, error.message);
       }
 
@@ -665,18 +1333,6 @@ async function getAuthTokenForUpload(): Promise<string | null> {
   return _memoryToken ?? (await getSecureItem(TOKEN_KEY));
 }
 
-async function handleMultipartUnauthorized(): Promise<void> {
-  if (_isHandlingUnauthorized) return;
-
-  _isHandlingUnauthorized = true;
-  try {
-    await removeAuthToken();
-    await _onUnauthorized?.();
-  } finally {
-    _isHandlingUnauthorized = false;
-  }
-}
-
 function resolveApiUrl(endpoint: string): string {
   const base = API_BASE_URL.replace(/\/+$/, '');
   const path = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
@@ -915,3 +1571,102 @@ export async function registerPushToken(token: string): Promise<void> {
 export async function unregisterPushToken(): Promise<void> {
   await apiClient.delete('/notifications/token');
 }
+
+// ── Account recovery ─────────────────────────────────────────────────────────
+
+/** Emails a reset code. Succeeds whether or not the address has an account. */
+export async function requestPasswordReset(email: string): Promise<void> {
+  await apiClient.post('/auth/forgot-password', { email });
+}
+
+/** Sets a new password with the emailed code; every device is signed out. */
+export async function resetPassword(
+  email: string,
+  code: string,
+  newPassword: string,
+): Promise<void> {
+  await apiClient.post('/auth/reset-password', {
+    email,
+    code,
+    new_password: newPassword,
+  });
+}
+
+export async function verifyEmail(code: string): Promise<void> {
+  await apiClient.post('/auth/verify-email', { code });
+}
+
+/** Emails a fresh verification code; the previous one stops working. */
+export async function resendVerificationEmail(): Promise<void> {
+  await apiClient.post('/auth/verify-email/resend');
+}
+
+// ── Two-factor authentication ────────────────────────────────────────────────
+
+/** Second login step: a 6-digit authenticator code or a recovery code. */
+export async function completeTwoFactorLogin(
+  challengeToken: string,
+  code: string,
+): Promise<TokenPair> {
+  const { data } = await apiClient.post<TokenPair>('/auth/login/2fa', {
+    challenge_token: challengeToken,
+    code,
+  });
+  return data;
+}
+
+export async function fetchTwoFactorStatus(): Promise<TwoFactorStatus> {
+  const { data } = await apiClient.get<TwoFactorStatus>('/auth/2fa');
+  return data;
+}
+
+/** Starts enrollment; two-factor stays off until confirmTwoFactor succeeds. */
+export async function beginTwoFactorSetup(): Promise<TwoFactorSetup> {
+  const { data } = await apiClient.post<TwoFactorSetup>('/auth/2fa/setup');
+  return data;
+}
+
+/** Turns two-factor on and returns the recovery codes to show once. */
+export async function confirmTwoFactor(code: string): Promise<string[]> {
+  const { data } = await apiClient.post<{ recoveryCodes: string[] }>(
+    '/auth/2fa/confirm',
+    { code },
+  );
+  return data.recoveryCodes;
+}
+
+export async function disableTwoFactor(code: string): Promise<void> {
+  await apiClient.post('/auth/2fa/disable', { code });
+}
+
+/** Replaces the recovery codes; the old ones stop working. */
+export async function regenerateRecoveryCodes(code: string): Promise<string[]> {
+  const { data } = await apiClient.post<{ recoveryCodes: string[] }>(
+    '/auth/2fa/recovery-codes',
+    { code },
+  );
+  return data.recoveryCodes;
+}
+
+// ── Sessions ─────────────────────────────────────────────────────────────────
+
+/** Every device signed in to this account, most recently used first. */
+export async function fetchSessions(): Promise<DeviceSession[]> {
+  const { data } = await apiClient.get<DeviceSession[]>('/auth/sessions');
+  return data;
+}
+
+/** Signs another device out; its socket drops and its pushes stop. */
+export async function revokeSession(sessionId: string): Promise<void> {
+  await apiClient.delete(`/auth/sessions/${sessionId}`);
+}
+
+/** Signs every device out, this one included. */
+export async function revokeAllSessions(): Promise<void> {
+  await apiClient.delete('/auth/sessions');
+}
+
+/** Ends this device's session on the server. */
+export async function logoutSession(): Promise<void> {
+  await apiClient.post('/auth/logout');
+}
@@ -25,6 +25,8 @@ export interface QueuedMediaJob {
   audio?: QueuedAudioPayload;
   file?: QueuedFilePayload;
   fileName?: string;
+  /** Message the queued media replies to, if any. */
+  replyToId?: string;
   lastError?: string;
 }
 
@@ -120,6 +122,9 @@ function sanitizeJob(raw: unknown, groupId: string): QueuedMediaJob | null {
     nextAttemptAt,
     ...(audio ? { audio } : {}),
     ...(file ? { file } : {}),
+    ...(isNonEmptyString(value.replyToId)
+      ? { replyToId: value.replyToId.trim() }
+      : {}),
     ...(isNonEmptyString(value.lastError)
       ? { lastError: value.lastError.trim() }
       : {}),
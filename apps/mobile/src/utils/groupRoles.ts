@@ -0,0 +1,18 @@
+import type { GroupMemberRole } from '../services/api';
+
+export const GROUP_ROLE_LABELS: Record<GroupMemberRole, string> = {
+  OWNER: 'Owner',
+  ADMIN: 'Admin',
+  MODERATOR: 'Moderator',
+  MEMBER: 'Member',
+};
+
+/** Owners and admins manage settings and members — mirrors the server check. */
+export function hasAdminRights(role: GroupMemberRole | null | undefined): boolean {
+  return role === 'OWNER' || role === 'ADMIN';
+}
+
+/** Moderators can also delete other people's messages and review reports. */
+export function hasModeratorRights(role: GroupMemberRole | null | undefined): boolean {
+  return hasAdminRights(role) || role === 'MODERATOR';
+}
@@ -0,0 +1,17 @@
+/** What admins share — opens the app's join screen. */
+export const INVITE_LINK_PREFIX = 'linklanka://join/';
+
+export function buildInviteLink(token: string): string {
+  return `${INVITE_LINK_PREFIX}${token}`;
+}
+
+/**
+ * Pulls the token out of `linklanka://join/<token>`. Also accepts the
+ * `exp://…/--/join/<token>` form Expo Go uses in development.
+ */
+export function parseInviteToken(url: string): string | null {
+  const match = /^[a-z][a-z0-9+.-]*:\/\/(?:[^?#]*\/--\/)?join\/([A-Za-z0-9_-]+)\/?(?:[?#]|$)/i.exec(
+    url,
+  );
+  return match ? match[1] : null;
+}